@@ -0,0 +1,98 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import type { AIProviderSettings, LLMProviderId } from '@/types/ai';
+import {
+  AuthenticationError,
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+  logError,
+} from '@/lib/errors';
+import {
+  getAvailableProviders,
+  getDefaultProviderId,
+  getUserAIProvider,
+  isLLMProviderId,
+  isProviderConfigured,
+} from '@/lib/ai/llm';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+async function getAuthUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return user.id;
+}
+
+/**
+ * The caller's AI provider preference plus the providers this server is
+ * configured for, for the provider picker.
+ */
+export async function getAIProviderSettings(): Promise<AIProviderSettings> {
+  try {
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+
+    return {
+      preference: await getUserAIProvider(supabase, userId),
+      available: getAvailableProviders(),
+      defaultProvider: getDefaultProviderId(),
+    };
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw error;
+    }
+    logError(error, { action: 'getAIProviderSettings' });
+    throw new DatabaseError('Failed to load AI settings.');
+  }
+}
+
+/**
+ * Saves the caller's preferred provider; null goes back to the server default.
+ */
+export async function updateAIProviderPreference(provider: LLMProviderId | null): Promise<AIProviderSettings> {
+  try {
+    await validateOrigin();
+    const userId = await getAuthUserId();
+
+    if (provider !== null && !isLLMProviderId(provider)) {
+      throw new ValidationError('Unknown AI provider.');
+    }
+    if (provider !== null && !isProviderConfigured(provider)) {
+      throw new ValidationError('That AI provider is not available on this server.');
+    }
+
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ ai_provider: provider, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select('id');
+
+    if (error) {
+      logError(error, { action: 'updateAIProviderPreference', userId });
+      throw new DatabaseError('Failed to save AI settings.');
+    }
+    if (!data || data.length === 0) {
+      throw new NotFoundError('Profile not found.');
+    }
+
+    return {
+      preference: provider,
+      available: getAvailableProviders(),
+      defaultProvider: getDefaultProviderId(),
+    };
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'updateAIProviderPreference' });
+    throw new DatabaseError('Failed to save AI settings.');
+  }
+}
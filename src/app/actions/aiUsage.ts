@@ -0,0 +1,68 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import type { AIUsageEvent, AIUsageSummary } from '@/types/ai';
+import { AuthenticationError, DatabaseError, logError } from '@/lib/errors';
+import { getBudgetPeriodStart, getMonthlyBudgetUsd, getUserTier, summarizeAIUsage } from '@/lib/ai/usage';
+
+/** Upper bound on rows read for one month's summary */
+const MAX_USAGE_EVENTS = 5000;
+
+async function getAuthUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return user.id;
+}
+
+/**
+ * The caller's AI spend for the current month, broken down by project and
+ * by operation, against their tier's budget.
+ */
+export async function getAIUsageSummary(): Promise<AIUsageSummary> {
+  try {
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+
+    const { data: events, error } = await supabase
+      .from('ai_usage_events')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('created_at', getBudgetPeriodStart().toISOString())
+      .order('created_at', { ascending: false })
+      .limit(MAX_USAGE_EVENTS);
+
+    if (error) {
+      logError(error, { action: 'getAIUsageSummary', userId });
+      throw new DatabaseError('Failed to load AI usage.');
+    }
+
+    const rows = (events ?? []) as AIUsageEvent[];
+    const projectIds = [...new Set(rows.map((e) => e.project_id).filter((id): id is string => Boolean(id)))];
+    const projectNames: Record<string, string> = {};
+
+    if (projectIds.length > 0) {
+      const { data: projects, error: projectsError } = await supabase
+        .from('projects')
+        .select('id, name')
+        .in('id', projectIds);
+
+      if (projectsError) {
+        logError(projectsError, { action: 'getAIUsageSummary:projects', userId });
+        throw new DatabaseError('Failed to load AI usage.');
+      }
+      for (const project of projects ?? []) {
+        projectNames[project.id] = project.name;
+      }
+    }
+
+    const tier = await getUserTier(supabase, userId);
+    return summarizeAIUsage(rows, projectNames, tier, getMonthlyBudgetUsd(tier));
+  } catch (error) {
+    if (error instanceof AuthenticationError || error instanceof DatabaseError) {
+      throw error;
+    }
+    logError(error, { action: 'getAIUsageSummary' });
+    throw new DatabaseError('Failed to load AI usage.');
+  }
+}
@@ -9,35 +9,10 @@ import {
   getClientIp,
   batchEnhanceHourlyRateLimiter,
 } from '@/lib/rate-limit/limiter';
+import { processWithConcurrency } from '@/lib/ai/concurrency';
 
 const MAX_CONCURRENT = 3;
 
-/**
- * Process items with bounded concurrency using a worker pool pattern.
- */
-async function processWithConcurrency<T, R>(
-  items: T[],
-  processor: (item: T, index: number) => Promise<R>,
-  maxConcurrent: number
-): Promise<R[]> {
-  const results: R[] = new Array(items.length);
-  let currentIndex = 0;
-
-  async function worker(): Promise<void> {
-    while (currentIndex < items.length) {
-      const index = currentIndex++;
-      results[index] = await processor(items[index], index);
-    }
-  }
-
-  const workers = Array.from(
-    { length: Math.min(maxConcurrent, items.length) },
-    () => worker()
-  );
-  await Promise.all(workers);
-  return results;
-}
-
 /**
  * Validates auth and rate limiting for batch operations.
  */
@@ -74,7 +49,8 @@ export async function batchEnhanceFeatures(
     userStory?: string;
     acceptanceCriteria?: string[];
     technicalConstraints?: string;
-  }>
+  }>,
+  projectId?: string
 ): Promise<
   Array<{
     success: boolean;
@@ -90,6 +66,7 @@ export async function batchEnhanceFeatures(
     async (feature) => {
       try {
         const result = await enhanceFeatureWithAI({
+          projectId,
           featureName: feature.featureName,
           summary: feature.summary,
           problem: feature.problem,
@@ -128,7 +105,8 @@ export async function batchEnhanceScreens(
     keyElements?: string[];
     userActions?: string[];
     states?: string[];
-  }>
+  }>,
+  projectId?: string
 ): Promise<
   Array<{
     success: boolean;
@@ -144,6 +122,7 @@ export async function batchEnhanceScreens(
     async (screen) => {
       try {
         const result = await enhanceScreenWithAI({
+          projectId,
           screenName: screen.screenName,
           purpose: screen.purpose,
           keyElements: screen.keyElements,
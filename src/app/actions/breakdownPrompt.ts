@@ -1,12 +1,10 @@
 'use server';
 
-import OpenAI from 'openai';
 import { headers } from 'next/headers';
 import { createClient } from '@/lib/supabase/server';
 import {
   AuthenticationError,
   RateLimitError,
-  ValidationError,
   logError,
 } from '@/lib/errors';
 import {
@@ -14,14 +12,12 @@ import {
   getClientIp,
   wizardHourlyRateLimiter,
 } from '@/lib/rate-limit/limiter';
+import { generateJson, getUserAIProvider, isAIAvailable } from '@/lib/ai/llm';
+import { validateOrigin } from '@/lib/ai/routeAuth';
 
 const MAX_PROMPT_LENGTH = 8000;
 const MAX_OUTPUT_TOKENS = 2000;
 
-function getModel(): string {
-  return process.env.OPENAI_WIZARD_MODEL || process.env.OPENAI_MODEL || 'gpt-4.1-mini';
-}
-
 async function getAuthUserId(): Promise<string> {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -29,47 +25,12 @@ async function getAuthUserId(): Promise<string> {
   return user.id;
 }
 
-async function validateOrigin(): Promise<void> {
-  const headersList = await headers();
-  const origin = headersList.get('origin');
-
-  const allowedOrigins = [
-    'http://localhost:3000',
-    'http://localhost:3001',
-    'https://spexlyapp.com',
-    'https://www.spexlyapp.com',
-    'https://spexly.vercel.app',
-  ];
-
-  if (process.env.NODE_ENV === 'development') {
-    if (origin?.startsWith('http://localhost:') || origin?.startsWith('http://127.0.0.1:')) {
-      return;
-    }
-  }
-
-  if (origin && !allowedOrigins.includes(origin)) {
-    throw new ValidationError('Request origin not allowed');
-  }
-}
-
-function safeParseJson(payload: string): Record<string, unknown> {
-  const cleaned = payload
-    .replace(/```json/gi, '')
-    .replace(/```/g, '')
-    .trim();
-  return JSON.parse(cleaned);
-}
-
-export async function breakdownPrompt(promptText: string): Promise<{
+export async function breakdownPrompt(promptText: string, projectId?: string): Promise<{
   success: boolean;
   breakdown?: string[];
   error?: string;
 }> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      return { success: false, error: 'AI is not configured.' };
-    }
-
     if (!promptText.trim() || promptText.length > MAX_PROMPT_LENGTH) {
       return { success: false, error: 'Prompt text is empty or too long.' };
     }
@@ -84,10 +45,16 @@ export async function breakdownPrompt(promptText: string): Promise<{
       throw new RateLimitError('Too many AI requests. Please try again later.');
     }
 
-    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const supabase = await createClient();
+    const preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAIAvailable('breakdown', preferredProvider)) {
+      return { success: false, error: 'AI is not configured.' };
+    }
 
-    const response = await client.chat.completions.create({
-      model: getModel(),
+    const { data: parsed } = await generateJson({
+      operation: 'breakdown',
+      preferredProvider,
+      meter: { supabase, userId, projectId },
       messages: [
         {
           role: 'system',
@@ -115,17 +82,10 @@ export async function breakdownPrompt(promptText: string): Promise<{
           ].join('\n'),
         },
       ],
-      max_tokens: MAX_OUTPUT_TOKENS,
+      maxTokens: MAX_OUTPUT_TOKENS,
       temperature: 0.2,
-      response_format: { type: 'json_object' },
     });
 
-    const outputText = response.choices[0]?.message?.content?.trim();
-    if (!outputText) {
-      return { success: false, error: 'AI failed to produce output.' };
-    }
-
-    const parsed = safeParseJson(outputText);
     const breakdown = Array.isArray(parsed.breakdown)
       ? (parsed.breakdown as string[])
           .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
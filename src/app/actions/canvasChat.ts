@@ -0,0 +1,92 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import {
+  AuthenticationError,
+  RateLimitError,
+  logError,
+} from '@/lib/errors';
+import {
+  checkRateLimit,
+  getClientIp,
+  wizardHourlyRateLimiter,
+} from '@/lib/rate-limit/limiter';
+import { generateJson, getUserAIProvider, isAIAvailable } from '@/lib/ai/llm';
+import {
+  CANVAS_CHAT_MAX_OUTPUT_TOKENS,
+  MAX_CHAT_CONTEXT_LENGTH,
+  buildCanvasChatMessages,
+  parseCanvasChatHistory,
+  parseCanvasChatReply,
+  type CanvasChatMessage,
+  type CanvasChatReply,
+} from '@/lib/ai/canvasChat';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+async function getAuthUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return user.id;
+}
+
+/**
+ * One assistant turn. `context` is the canvas as built by
+ * `buildCanvasChatContext`; proposed changes come back for review and are
+ * never applied here.
+ */
+export async function chatWithCanvas(
+  context: string,
+  history: CanvasChatMessage[],
+  projectId?: string
+): Promise<{
+  success: boolean;
+  reply?: CanvasChatReply;
+  error?: string;
+}> {
+  try {
+    const parsedHistory = parseCanvasChatHistory(history);
+    if (!parsedHistory || typeof context !== 'string') {
+      return { success: false, error: 'Ask a question to start the chat.' };
+    }
+
+    await validateOrigin();
+    const userId = await getAuthUserId();
+
+    const headersList = await headers();
+    const identifier = `${userId}:${getClientIp(headersList)}`;
+    const rateLimitResult = await checkRateLimit(wizardHourlyRateLimiter, identifier);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many AI requests. Please try again later.');
+    }
+
+    const supabase = await createClient();
+    const preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAIAvailable('chat', preferredProvider)) {
+      return { success: false, error: 'AI is not configured.' };
+    }
+
+    const { data } = await generateJson({
+      operation: 'chat',
+      preferredProvider,
+      meter: { supabase, userId, projectId },
+      messages: buildCanvasChatMessages(context.slice(0, MAX_CHAT_CONTEXT_LENGTH), parsedHistory),
+      maxTokens: CANVAS_CHAT_MAX_OUTPUT_TOKENS,
+      temperature: 0.3,
+    });
+
+    const reply = parseCanvasChatReply(data);
+    if (!reply.message) {
+      return { success: false, error: 'AI did not return an answer.' };
+    }
+
+    return { success: true, reply };
+  } catch (error) {
+    logError(error, { action: 'chatWithCanvas' });
+    if (error instanceof AuthenticationError || error instanceof RateLimitError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: 'Failed to get an answer.' };
+  }
+}
@@ -0,0 +1,81 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import {
+  AuthenticationError,
+  RateLimitError,
+  logError,
+} from '@/lib/errors';
+import {
+  checkRateLimit,
+  getClientIp,
+  wizardHourlyRateLimiter,
+} from '@/lib/rate-limit/limiter';
+import { generateJson, getUserAIProvider, isAIAvailable } from '@/lib/ai/llm';
+import {
+  SPEC_FIX_MAX_OUTPUT_TOKENS,
+  buildSpecFixMessages,
+  parseSpecFix,
+  parseSpecFixRequest,
+  type SpecFixRequest,
+} from '@/lib/ai/specFix';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+async function getAuthUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return user.id;
+}
+
+export async function fixSpecIssueWithAI(request: SpecFixRequest, projectId?: string): Promise<{
+  success: boolean;
+  updates?: Record<string, string | string[]>;
+  error?: string;
+}> {
+  try {
+    const parsedRequest = parseSpecFixRequest(request);
+    if (!parsedRequest) {
+      return { success: false, error: 'This issue cannot be fixed with AI.' };
+    }
+
+    await validateOrigin();
+    const userId = await getAuthUserId();
+
+    const headersList = await headers();
+    const identifier = `${userId}:${getClientIp(headersList)}`;
+    const rateLimitResult = await checkRateLimit(wizardHourlyRateLimiter, identifier);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many AI requests. Please try again later.');
+    }
+
+    const supabase = await createClient();
+    const preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAIAvailable('specFix', preferredProvider)) {
+      return { success: false, error: 'AI is not configured.' };
+    }
+
+    const { data } = await generateJson({
+      operation: 'specFix',
+      preferredProvider,
+      meter: { supabase, userId, projectId },
+      messages: buildSpecFixMessages(parsedRequest),
+      maxTokens: SPEC_FIX_MAX_OUTPUT_TOKENS,
+      temperature: 0.2,
+    });
+
+    const updates = parseSpecFix(parsedRequest.field, data);
+    if (!updates) {
+      return { success: false, error: 'AI did not return a fix.' };
+    }
+
+    return { success: true, updates };
+  } catch (error) {
+    logError(error, { action: 'fixSpecIssueWithAI' });
+    if (error instanceof AuthenticationError || error instanceof RateLimitError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: 'Failed to fix issue.' };
+  }
+}
@@ -1,6 +1,5 @@
 'use server';
 
-import OpenAI from 'openai';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { headers } from 'next/headers';
 import { createClient } from '@/lib/supabase/server';
@@ -8,8 +7,17 @@ import { generateCanvas } from '@/lib/generateCanvas';
 import { parseDocumentToCanvas } from '@/lib/import/documentImport';
 import { extractDetailedFields } from '@/lib/import/aiDetailExtractor';
 import { matchExtractedToExisting } from '@/lib/import/fuzzyMatcher';
-import { buildFieldUpdate } from '@/lib/import/mergeStrategy';
-import { ClaudeAI } from '@/lib/ai/claude';
+import { buildFieldSuggestion, buildFieldUpdate } from '@/lib/import/mergeStrategy';
+import {
+  AICancelledError,
+  getModelFor,
+  getUserAIProvider,
+  isAIAvailable,
+  isQuotaError,
+  resolveProviderId,
+  streamJson,
+} from '@/lib/ai/llm';
+import type { ImportProgressHooks, LLMProviderId } from '@/types/ai';
 import { batchEnhanceFeatures, batchEnhanceScreens } from './batchEnhanceNodes';
 import {
   FEATURE_TEMPLATES,
@@ -43,6 +51,7 @@ import {
   importHourlyRateLimiter,
   getClientIp,
 } from '@/lib/rate-limit/limiter';
+import { validateOrigin } from '@/lib/ai/routeAuth';
 
 const MAX_INPUT_LENGTH = 25_000;
 const MAX_OUTPUT_TOKENS = 4500; // Increased from 800 to support detailed field extraction
@@ -61,20 +70,8 @@ function isFallbackEnabled(): boolean {
   return process.env.AI_IMPORT_FALLBACK_ENABLED === 'true';
 }
 
-function shouldUseClaudeForImport(): boolean {
-  return process.env.AI_USE_CLAUDE_FOR_IMPORT === 'true';
-}
-
-function normalizeModel(model: string): string {
-  const trimmed = model.trim();
-  if (!trimmed) return 'gpt-4.1-mini';
-  if (trimmed === '4.1-mini') return 'gpt-4.1-mini';
-  if (trimmed === '4.1') return 'gpt-4.1';
-  return trimmed;
-}
-
-function getModel(): string {
-  return normalizeModel(process.env.OPENAI_MODEL || 'gpt-4.1-mini');
+function getImportModel(preferredProvider: LLMProviderId | null): string {
+  return getModelFor('import', resolveProviderId('import', preferredProvider));
 }
 
 async function getAuthUserId(): Promise<string> {
@@ -84,37 +81,6 @@ async function getAuthUserId(): Promise<string> {
   return user.id;
 }
 
-async function validateOrigin(headersList: Headers): Promise<void> {
-  const origin = headersList.get('origin');
-  const referer = headersList.get('referer');
-
-  const allowedOrigins = [
-    'http://localhost:3000',
-    'http://localhost:3001',
-    'https://spexlyapp.com',
-    'https://www.spexlyapp.com',
-    'https://spexly.vercel.app',
-  ];
-
-  if (process.env.NODE_ENV === 'development') {
-    if (origin?.startsWith('http://localhost:') || origin?.startsWith('http://127.0.0.1:')) {
-      return;
-    }
-  }
-
-  if (origin && !allowedOrigins.includes(origin)) {
-    throw new ValidationError('Request origin not allowed');
-  }
-
-  if (!origin && referer) {
-    const refererUrl = new URL(referer);
-    const refererOrigin = `${refererUrl.protocol}//${refererUrl.host}`;
-    if (!allowedOrigins.includes(refererOrigin)) {
-      throw new ValidationError('Request referer not allowed');
-    }
-  }
-}
-
 function clampText(value: string): string {
   return value.trim().slice(0, MAX_TEXT_FIELD);
 }
@@ -197,14 +163,6 @@ function inferTechStackFromDocument(text: string, description: string): Array<{
   return stack;
 }
 
-function safeParseJson(payload: string): Record<string, unknown> {
-  const cleaned = payload
-    .replace(/```json/gi, '')
-    .replace(/```/g, '')
-    .trim();
-  return JSON.parse(cleaned);
-}
-
 function getClientIdentifier(email: string, headerList: Headers): string {
   const ip = getClientIp(headerList);
   return `${email.toLowerCase()}:${ip}`;
@@ -218,14 +176,6 @@ function getTodayDate(): string {
   return `${year}-${month}-${day}`;
 }
 
-function isQuotaError(error: unknown): boolean {
-  if (!error || typeof error !== 'object') return false;
-  const maybeStatus = (error as { status?: number }).status;
-  if (maybeStatus === 429) return true;
-  const message = (error as { message?: string }).message || '';
-  return message.includes('quota') || message.includes('429');
-}
-
 async function checkDailyUsage(supabase: SupabaseClient, userId: string) {
   const usageDate = getTodayDate();
   const { data, error } = await supabase
@@ -309,14 +259,30 @@ async function logAudit(
 
 export type ImportMode = 'ai' | 'fallback';
 
+/** Reports how many features and screens the analysis has found so far */
+function reportAnalysis(hooks: ImportProgressHooks, partial: Record<string, unknown>): void {
+  hooks.onProgress?.({
+    stage: 'analyzing',
+    features: Array.isArray(partial.features) ? partial.features.length : 0,
+    screens: Array.isArray(partial.screens) ? partial.screens.length : 0,
+  });
+}
+
+/**
+ * Imports a document as a new canvas. `hooks` lets a streaming caller follow
+ * progress and cancel; cancellation rejects with AICancelledError.
+ */
 export async function importDocumentWithAI(
-  text: string
+  text: string,
+  projectId?: string,
+  hooks: ImportProgressHooks = {}
 ): Promise<{ nodes: SpexlyNode[]; edges: SpexlyEdge[]; mode: ImportMode }> {
   let supabase: SupabaseClient | null = null;
   let userId: string | null = null;
+  let preferredProvider: LLMProviderId | null = null;
   try {
     const headerList = await headers();
-    await validateOrigin(headerList);
+    await validateOrigin();
 
     if (!text || text.trim().length === 0) {
       throw new ValidationError('Document text is required.');
@@ -345,7 +311,8 @@ export async function importDocumentWithAI(
 
     await checkDailyUsage(supabase, userId);
 
-    if (!isAiEnabled() || !process.env.OPENAI_API_KEY) {
+    preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAiEnabled() || !isAIAvailable('import', preferredProvider)) {
       if (!isFallbackEnabled()) {
         throw new ValidationError('AI import is currently disabled.');
       }
@@ -362,8 +329,6 @@ export async function importDocumentWithAI(
       return { ...fallback, mode: 'fallback' };
     }
 
-    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
     const system = [
       'You are an assistant that extracts structured project data from PRDs.',
       'Return ONLY valid JSON. No markdown.',
@@ -424,10 +389,14 @@ export async function importDocumentWithAI(
       text,
     ].join('\n');
 
-    let outputText: string | undefined;
+    let parsed: Record<string, unknown>;
     try {
-      const response = await client.chat.completions.create({
-        model: getModel(),
+      const { data } = await streamJson({
+        operation: 'import',
+        preferredProvider,
+        meter: { supabase, userId, projectId },
+        signal: hooks.signal,
+        onPartial: (partial) => reportAnalysis(hooks, partial),
         messages: [
           {
             role: 'system',
@@ -438,10 +407,11 @@ export async function importDocumentWithAI(
             content: prompt,
           },
         ],
-        max_tokens: MAX_OUTPUT_TOKENS,
+        maxTokens: MAX_OUTPUT_TOKENS,
       });
-      outputText = response.choices[0]?.message?.content?.trim();
+      parsed = data;
     } catch (aiError) {
+      if (aiError instanceof AICancelledError) throw aiError;
       if (isFallbackEnabled()) {
         const fallback = parseDocumentToCanvas(text);
         await incrementDailyUsageCount(supabase, userId);
@@ -463,12 +433,6 @@ export async function importDocumentWithAI(
       throw aiError;
     }
 
-    if (!outputText) {
-      throw new DatabaseError('AI import failed to produce output.');
-    }
-
-    const parsed = safeParseJson(outputText);
-
     const appName = typeof parsed.appName === 'string' ? clampText(parsed.appName) : '';
     const description = typeof parsed.description === 'string' ? clampText(parsed.description) : '';
     const targetUser = typeof parsed.targetUser === 'string' ? clampText(parsed.targetUser) : '';
@@ -502,31 +466,23 @@ export async function importDocumentWithAI(
     let screensDetailed: Awaited<ReturnType<typeof extractDetailedFields>>['screens'] | undefined;
 
     if (finalFeatures.length > 0 || screens.length > 0) {
+      hooks.onProgress?.({ stage: 'detailing', features: finalFeatures.length, screens: screens.length });
       try {
-        // Use Claude API if enabled (better structured output, prompt caching)
-        if (shouldUseClaudeForImport() && process.env.ANTHROPIC_API_KEY) {
-          const claude = new ClaudeAI(process.env.ANTHROPIC_API_KEY);
-          const detailed = await claude.extractDetailedFields(finalFeatures, screens, text);
-          featuresDetailed = detailed.features;
-          screensDetailed = detailed.screens;
-        } else {
-          // Use OpenAI (default)
-          const detailed = await extractDetailedFields(
-            finalFeatures,
-            screens,
-            text,
-            process.env.OPENAI_API_KEY!,
-            getModel()
-          );
-          featuresDetailed = detailed.features;
-          screensDetailed = detailed.screens;
-        }
+        const detailed = await extractDetailedFields(finalFeatures, screens, text, {
+          preferredProvider,
+          meter: { supabase, userId, projectId },
+          signal: hooks.signal,
+        });
+        featuresDetailed = detailed.features;
+        screensDetailed = detailed.screens;
       } catch (detailError) {
+        if (detailError instanceof AICancelledError) throw detailError;
         // Log error but continue with basic feature/screen names (graceful fallback)
         logError(detailError, { action: 'importDocumentWithAI:extractDetailedFields' });
       }
     }
 
+    hooks.onProgress?.({ stage: 'building', features: finalFeatures.length, screens: screens.length });
     const { nodes, edges } = generateCanvas({
       description,
       targetUser,
@@ -601,7 +557,8 @@ export async function importDocumentWithAI(
               userStory: f.userStory,
               acceptanceCriteria: f.acceptanceCriteria,
               technicalConstraints: '',
-            }))
+            })),
+            projectId
           );
 
           // Apply enhancements to nodes
@@ -625,7 +582,8 @@ export async function importDocumentWithAI(
               keyElements: s.keyElements,
               userActions: s.userActions,
               states: s.states,
-            }))
+            })),
+            projectId
           );
 
           // Apply enhancements to nodes
@@ -647,7 +605,7 @@ export async function importDocumentWithAI(
     await incrementDailyUsageCount(supabase, userId);
     await logAudit(supabase, userId, {
       inputChars: text.length,
-      model: getModel(),
+      model: getImportModel(preferredProvider),
       success: true,
       outputNodes: nodes.length,
       outputEdges: edges.length,
@@ -659,18 +617,23 @@ export async function importDocumentWithAI(
       action: 'importDocumentWithAI',
       stage: 'catch',
       aiEnabled: isAiEnabled(),
-      hasApiKey: Boolean(process.env.OPENAI_API_KEY),
+      provider: resolveProviderId('import', preferredProvider),
     });
     if (supabase && userId) {
       await logAudit(supabase, userId, {
         inputChars: text?.length ?? 0,
-        model: getModel(),
+        model: getImportModel(preferredProvider),
         success: false,
         errorMessage: error instanceof Error ? error.message : 'Unknown error',
       });
     }
 
-    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof RateLimitError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof RateLimitError ||
+      error instanceof AICancelledError
+    ) {
       throw error;
     }
     logError(error, { action: 'importDocumentWithAI' });
@@ -686,17 +649,21 @@ function clampTextSmart(value: string): string {
   return value.trim().slice(0, SMART_MAX_TEXT_FIELD);
 }
 
+/** Merges a document into an existing canvas; `hooks` as for importDocumentWithAI */
 export async function smartImportDocument(
   text: string,
-  existingNodes: ExistingNodeSummary[]
+  existingNodes: ExistingNodeSummary[],
+  projectId?: string,
+  hooks: ImportProgressHooks = {}
 ): Promise<SmartImportResult> {
   let supabase: SupabaseClient | null = null;
   let userId: string | null = null;
+  let preferredProvider: LLMProviderId | null = null;
 
   try {
     // ── Auth, validation, rate limiting (reuse existing helpers) ──
     const headerList = await headers();
-    await validateOrigin(headerList);
+    await validateOrigin();
 
     if (!text || text.trim().length === 0) {
       throw new ValidationError('Document text is required.');
@@ -721,13 +688,12 @@ export async function smartImportDocument(
     }
     await checkDailyUsage(supabase, userId);
 
-    if (!isAiEnabled() || !process.env.OPENAI_API_KEY) {
+    preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAiEnabled() || !isAIAvailable('import', preferredProvider)) {
       throw new ValidationError('AI import is currently disabled.');
     }
 
     // ── Stage 1: Analyzer — Extract structured data from PRD ──
-    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
     const system = [
       'You are an assistant that extracts structured project data from PRDs.',
       'Return ONLY valid JSON. No markdown.',
@@ -773,22 +739,19 @@ export async function smartImportDocument(
       text,
     ].join('\n');
 
-    const response = await client.chat.completions.create({
-      model: getModel(),
+    const { data: parsed } = await streamJson({
+      operation: 'import',
+      preferredProvider,
+      meter: { supabase, userId, projectId },
+      signal: hooks.signal,
+      onPartial: (partial) => reportAnalysis(hooks, partial),
       messages: [
         { role: 'system', content: system },
         { role: 'user', content: analyzerPrompt },
       ],
-      max_tokens: MAX_OUTPUT_TOKENS,
+      maxTokens: MAX_OUTPUT_TOKENS,
     });
 
-    const outputText = response.choices[0]?.message?.content?.trim();
-    if (!outputText) {
-      throw new DatabaseError('AI import failed to produce output.');
-    }
-
-    const parsed = safeParseJson(outputText);
-
     const appName = typeof parsed.appName === 'string' ? clampTextSmart(parsed.appName) : '';
     const description = typeof parsed.description === 'string' ? clampTextSmart(parsed.description) : '';
     const targetUser = typeof parsed.targetUser === 'string' ? clampTextSmart(parsed.targetUser) : '';
@@ -841,31 +804,27 @@ export async function smartImportDocument(
     let screensDetailed: Awaited<ReturnType<typeof extractDetailedFields>>['screens'] = [];
 
     if (allFeatureNames.length > 0 || allScreenNames.length > 0) {
+      hooks.onProgress?.({ stage: 'detailing', features: allFeatureNames.length, screens: allScreenNames.length });
       try {
-        if (shouldUseClaudeForImport() && process.env.ANTHROPIC_API_KEY) {
-          const claude = new ClaudeAI(process.env.ANTHROPIC_API_KEY);
-          const detailed = await claude.extractDetailedFields(allFeatureNames, allScreenNames, text);
-          featuresDetailed = detailed.features;
-          screensDetailed = detailed.screens;
-        } else {
-          const detailed = await extractDetailedFields(
-            allFeatureNames,
-            allScreenNames,
-            text,
-            process.env.OPENAI_API_KEY!,
-            getModel(),
-            SMART_MAX_TEXT_FIELD
-          );
-          featuresDetailed = detailed.features;
-          screensDetailed = detailed.screens;
-        }
+        const detailed = await extractDetailedFields(allFeatureNames, allScreenNames, text, {
+          preferredProvider,
+          meter: { supabase, userId, projectId },
+          maxFieldLength: SMART_MAX_TEXT_FIELD,
+          signal: hooks.signal,
+        });
+        featuresDetailed = detailed.features;
+        screensDetailed = detailed.screens;
       } catch (detailError) {
+        if (detailError instanceof AICancelledError) throw detailError;
         logError(detailError, { action: 'smartImportDocument:extractDetailedFields' });
       }
     }
 
+    hooks.onProgress?.({ stage: 'building', features: allFeatureNames.length, screens: allScreenNames.length });
+
     // ── Build NodeFieldUpdate[] for matched nodes ──
     const updates: NodeFieldUpdate[] = [];
+    const suggestions: NodeFieldUpdate[] = [];
     let fieldsFilledTotal = 0;
 
     for (const match of matches) {
@@ -902,6 +861,14 @@ export async function smartImportDocument(
         updates.push(update);
         fieldsFilledTotal += Object.keys(update.fieldsToFill).length;
       }
+
+      const suggestion = buildFieldSuggestion(
+        existingNode.id,
+        existingNode.type,
+        existingNode.populatedFields,
+        aiData
+      );
+      if (suggestion) suggestions.push(suggestion);
     }
 
     // ── Build new nodes for unmatched items ──
@@ -953,7 +920,7 @@ export async function smartImportDocument(
     await incrementDailyUsageCount(supabase, userId);
     await logAudit(supabase, userId, {
       inputChars: text.length,
-      model: getModel(),
+      model: getImportModel(preferredProvider),
       success: true,
       outputNodes: filteredNewNodes.length,
       outputEdges: newEdges.length,
@@ -961,6 +928,7 @@ export async function smartImportDocument(
 
     return {
       updates,
+      suggestions,
       newNodes: filteredNewNodes,
       newEdges,
       summary,
@@ -971,19 +939,24 @@ export async function smartImportDocument(
       action: 'smartImportDocument',
       stage: 'catch',
       aiEnabled: isAiEnabled(),
-      hasApiKey: Boolean(process.env.OPENAI_API_KEY),
+      provider: resolveProviderId('import', preferredProvider),
     });
 
     if (supabase && userId) {
       await logAudit(supabase, userId, {
         inputChars: text?.length ?? 0,
-        model: getModel(),
+        model: getImportModel(preferredProvider),
         success: false,
         errorMessage: error instanceof Error ? error.message : 'Unknown error',
       });
     }
 
-    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof RateLimitError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof RateLimitError ||
+      error instanceof AICancelledError
+    ) {
       throw error;
     }
     logError(error, { action: 'smartImportDocument' });
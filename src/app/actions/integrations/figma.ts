@@ -0,0 +1,117 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { FigmaIntegration, FigmaOAuth, type FigmaFrameSummary } from '@/lib/integrations/figma';
+import { BaseIntegration } from '@/lib/integrations/base';
+import { issueOAuthState } from '@/lib/integrations/oauthState';
+import { parseFigmaFileKey } from '@/lib/integrations/figmaImport';
+import {
+  AuthenticationError,
+  ValidationError,
+  DatabaseError,
+  logError,
+} from '@/lib/errors';
+
+/**
+ * Generates the Figma OAuth authorization URL for the user to connect their account.
+ */
+export async function getFigmaAuthUrl(): Promise<{ url: string }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const oauth = new FigmaOAuth();
+    const state = await issueOAuthState('figma');
+    return { url: oauth.getAuthorizationUrl(state) };
+  } catch (error) {
+    logError(error, { action: 'getFigmaAuthUrl' });
+    throw new DatabaseError('Failed to generate Figma authorization URL');
+  }
+}
+
+/**
+ * Checks if the current user has a connected Figma integration.
+ */
+export async function checkFigmaConnection(): Promise<{ connected: boolean }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { connected: false };
+    }
+
+    const auth = await BaseIntegration.loadForUser('figma', user.id);
+    return { connected: Boolean(auth?.accessToken) };
+  } catch {
+    return { connected: false };
+  }
+}
+
+/**
+ * Lists the top-level frames of a Figma file, given its link or key.
+ */
+export async function listFigmaFrames(
+  fileUrl: string
+): Promise<{ fileName: string; frames: FigmaFrameSummary[] }> {
+  try {
+    const fileKey = parseFigmaFileKey(fileUrl ?? '');
+    if (!fileKey) {
+      throw new ValidationError('Paste a link to a Figma design file.');
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const auth = await BaseIntegration.loadForUser('figma', user.id);
+    if (!auth) {
+      throw new ValidationError('Figma is not connected. Connect it from Integrations on the dashboard.');
+    }
+
+    const figma = new FigmaIntegration(auth, user.id, supabase);
+    return await figma.listFrames(fileKey);
+  } catch (error) {
+    logError(error, { action: 'listFigmaFrames' });
+    if (error instanceof AuthenticationError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to load frames from Figma');
+  }
+}
+
+/**
+ * Disconnects the Figma integration by deleting stored credentials.
+ */
+export async function disconnectFigma(): Promise<{ success: boolean }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    await BaseIntegration.deleteForUser('figma', user.id);
+
+    return { success: true };
+  } catch (error) {
+    logError(error, { action: 'disconnectFigma' });
+    throw new DatabaseError('Failed to disconnect Figma');
+  }
+}
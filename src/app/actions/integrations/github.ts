@@ -0,0 +1,336 @@
+'use server';
+
+import { randomBytes } from 'crypto';
+import { createClient } from '@/lib/supabase/server';
+import { GitHubIntegration, GitHubOAuth, type GitHubProject, type GitHubRepository } from '@/lib/integrations/github';
+import { BaseIntegration } from '@/lib/integrations/base';
+import { issueOAuthState } from '@/lib/integrations/oauthState';
+import { isGitHubRepoName, shouldCompleteLinkedTasks, toGitHubIssueLink } from '@/lib/integrations/githubSync';
+import type { GitHubIssueDraft } from '@/lib/export/todoMarkdownGenerator';
+import type { GitHubIssueLink } from '@/types/nodes';
+import {
+  AuthenticationError,
+  RateLimitError,
+  ValidationError,
+  DatabaseError,
+  logError,
+} from '@/lib/errors';
+import { projectRateLimiter, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { requireProjectRole } from '@/lib/workspaces/access';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+const MAX_FEATURES_PER_SYNC = 50;
+
+export interface GitHubFeatureSync {
+  nodeId: string;
+  issue: GitHubIssueDraft;
+}
+
+export interface GitHubWebhook {
+  hookId: string;
+  secret: string;
+}
+
+export type GitHubSyncResult =
+  | { nodeId: string; issue: GitHubIssueLink; stateReason: string | null; created: boolean }
+  | { nodeId: string; error: string };
+
+async function requireGitHub() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new AuthenticationError();
+  }
+
+  const auth = await BaseIntegration.loadForUser('github', user.id);
+  if (!auth) {
+    throw new ValidationError('GitHub is not connected. Connect it from Integrations on the dashboard.');
+  }
+
+  return { supabase, user, github: new GitHubIntegration(auth, user.id, supabase) };
+}
+
+/**
+ * Generates the GitHub OAuth authorization URL for the user to connect their account.
+ */
+export async function getGitHubAuthUrl(): Promise<{ url: string }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const oauth = new GitHubOAuth();
+    const state = await issueOAuthState('github');
+    return { url: oauth.getAuthorizationUrl(state) };
+  } catch (error) {
+    logError(error, { action: 'getGitHubAuthUrl' });
+    throw new DatabaseError('Failed to generate GitHub authorization URL');
+  }
+}
+
+/**
+ * Checks if the current user has a connected GitHub integration.
+ */
+export async function checkGitHubConnection(): Promise<{ connected: boolean }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { connected: false };
+    }
+
+    const auth = await BaseIntegration.loadForUser('github', user.id);
+    return { connected: Boolean(auth?.accessToken) };
+  } catch {
+    return { connected: false };
+  }
+}
+
+/**
+ * Lists the repositories issues can be created in.
+ */
+export async function listGitHubRepositories(): Promise<GitHubRepository[]> {
+  try {
+    const { github } = await requireGitHub();
+    return await github.listRepositories();
+  } catch (error) {
+    logError(error, { action: 'listGitHubRepositories' });
+    if (error instanceof AuthenticationError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to list GitHub repositories');
+  }
+}
+
+/**
+ * Lists the GitHub Projects of a repository owner.
+ */
+export async function listGitHubProjects(owner: string): Promise<GitHubProject[]> {
+  try {
+    if (!owner || owner.trim().length === 0) {
+      throw new ValidationError('Repository owner is required');
+    }
+
+    const { github } = await requireGitHub();
+    return await github.listProjects(owner);
+  } catch (error) {
+    logError(error, { action: 'listGitHubProjects', owner });
+    if (error instanceof AuthenticationError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to list GitHub projects');
+  }
+}
+
+/**
+ * Returns the user's GitHub webhook id and signing secret, creating them on
+ * first use. Each user signs their own repositories' webhooks, so a secret
+ * can only be used to send events for projects that user can edit.
+ */
+export async function getGitHubWebhook(): Promise<GitHubWebhook> {
+  await validateOrigin();
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const rateLimitResult = await checkRateLimit(projectRateLimiter, user.id);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many requests. Please slow down.');
+    }
+
+    const { data: existing, error: selectError } = await supabase
+      .from('github_webhooks')
+      .select('id,secret')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (selectError) {
+      throw selectError;
+    }
+
+    if (existing) {
+      return { hookId: existing.id, secret: existing.secret };
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('github_webhooks')
+      .insert({ user_id: user.id, secret: randomBytes(32).toString('hex') })
+      .select('id,secret')
+      .single();
+
+    if (insertError || !created) {
+      throw insertError ?? new Error('GitHub webhook was not created');
+    }
+
+    return { hookId: created.id, secret: created.secret };
+  } catch (error) {
+    logError(error, { action: 'getGitHubWebhook' });
+    if (error instanceof AuthenticationError || error instanceof RateLimitError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to load GitHub webhook');
+  }
+}
+
+/**
+ * Creates or updates one GitHub issue per feature. Features that already
+ * have an issue (looked up by node in github_issue_links) are updated in
+ * place, so re-syncing never duplicates issues. With a GitHub Project, each
+ * issue is added to it. Issues found closed as completed mark the feature's
+ * linked tasks done. A failure is reported for that feature only.
+ */
+export async function syncFeaturesToGitHub(
+  projectId: string,
+  repo: string,
+  githubProjectId: string | null,
+  features: GitHubFeatureSync[]
+): Promise<GitHubSyncResult[]> {
+  if (!projectId || !isGitHubRepoName(repo)) {
+    throw new ValidationError('Project and repository are required');
+  }
+  if (features.length === 0) {
+    throw new ValidationError('Select at least one feature');
+  }
+  if (features.length > MAX_FEATURES_PER_SYNC) {
+    throw new ValidationError(`Sync at most ${MAX_FEATURES_PER_SYNC} features at a time`);
+  }
+
+  await validateOrigin();
+  const { supabase, user, github } = await requireGitHub();
+  await requireProjectRole(supabase, user.id, projectId, 'editor');
+
+  const rateLimitResult = await checkRateLimit(projectRateLimiter, user.id);
+  if (!rateLimitResult.success) {
+    throw new RateLimitError('Too many requests. Please slow down.');
+  }
+
+  const { data: links, error: linksError } = await supabase
+    .from('github_issue_links')
+    .select('node_id,repo,issue_number')
+    .eq('project_id', projectId)
+    .in(
+      'node_id',
+      features.map((f) => f.nodeId)
+    );
+  if (linksError) {
+    logError(linksError, { action: 'syncFeaturesToGitHub:links', projectId });
+    throw new DatabaseError('Failed to load GitHub issue links');
+  }
+  const linkByNode = new Map((links ?? []).map((link) => [link.node_id as string, link]));
+
+  // Linked issues stay in the repository they were created in
+  const labelsByRepo = new Map<string, Set<string>>();
+  for (const { nodeId, issue } of features) {
+    const target = linkByNode.get(nodeId)?.repo ?? repo;
+    const labels = labelsByRepo.get(target) ?? new Set<string>();
+    issue.labels.forEach((label) => labels.add(label));
+    labelsByRepo.set(target, labels);
+  }
+  try {
+    for (const [target, labels] of labelsByRepo) {
+      await github.ensureLabels(target, [...labels]);
+    }
+  } catch (error) {
+    // GitHub still applies labels that exist; missing ones are dropped
+    logError(error, { action: 'syncFeaturesToGitHub:labels', projectId });
+  }
+
+  const results: GitHubSyncResult[] = [];
+
+  for (const { nodeId, issue: draft } of features) {
+    try {
+      const link = linkByNode.get(nodeId);
+      const target = link?.repo ?? repo;
+      const issue = link
+        ? await github.updateIssue(target, link.issue_number, draft)
+        : await github.createIssue(target, draft);
+
+      if (!link) {
+        const { error } = await supabase.from('github_issue_links').insert({
+          issue_id: issue.node_id,
+          project_id: projectId,
+          node_id: nodeId,
+          created_by: user.id,
+          repo: target,
+          issue_number: issue.number,
+        });
+        if (error) {
+          // Without the row the next sync would create another issue
+          logError(error, { action: 'syncFeaturesToGitHub:link', projectId, nodeId });
+          results.push({
+            nodeId,
+            error: `Created ${target}#${issue.number} but couldn't link it to the feature; close it before syncing again`,
+          });
+          continue;
+        }
+      }
+
+      const projectItemId = githubProjectId ? await github.addIssueToProject(githubProjectId, issue.node_id) : null;
+
+      if (shouldCompleteLinkedTasks(issue.state, issue.state_reason)) {
+        const { error } = await supabase
+          .from('task_items')
+          .update({ status: 'done' })
+          .eq('project_id', projectId)
+          .eq('node_id', nodeId)
+          .neq('status', 'done');
+        if (error) {
+          logError(error, { action: 'syncFeaturesToGitHub:tasks', projectId, nodeId });
+        }
+      }
+
+      results.push({
+        nodeId,
+        issue: toGitHubIssueLink(issue, target, projectItemId),
+        stateReason: issue.state_reason,
+        created: !link,
+      });
+    } catch (error) {
+      logError(error, { action: 'syncFeaturesToGitHub', projectId, nodeId });
+      results.push({ nodeId, error: error instanceof Error ? error.message : 'Failed to sync issue' });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Disconnects the GitHub integration by deleting stored credentials.
+ */
+export async function disconnectGitHub(): Promise<{ success: boolean }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    await BaseIntegration.deleteForUser('github', user.id);
+
+    return { success: true };
+  } catch (error) {
+    logError(error, { action: 'disconnectGitHub' });
+    throw new DatabaseError('Failed to disconnect GitHub');
+  }
+}
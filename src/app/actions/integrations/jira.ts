@@ -0,0 +1,297 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import {
+  JiraIntegration,
+  JiraOAuth,
+  type JiraIssueDraft,
+  type JiraIssueType,
+  type JiraProject,
+  type JiraSite,
+  jiraSiteMetadata,
+  readJiraSites,
+} from '@/lib/integrations/jira';
+import { BaseIntegration } from '@/lib/integrations/base';
+import { issueOAuthState } from '@/lib/integrations/oauthState';
+import { jiraSiteOrigin, toJiraIssueLink } from '@/lib/integrations/jiraSync';
+import type { JiraIssueLink } from '@/types/nodes';
+import {
+  AuthenticationError,
+  RateLimitError,
+  ValidationError,
+  DatabaseError,
+  logError,
+} from '@/lib/errors';
+import { projectRateLimiter, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { requireProjectRole } from '@/lib/workspaces/access';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+const MAX_FEATURES_PER_EXPORT = 50;
+
+export interface JiraFeatureExport {
+  nodeId: string;
+  draft: JiraIssueDraft;
+}
+
+export interface JiraExportTarget {
+  projectId: string;
+  issueTypeId: string;
+  /** Issue type for acceptance criteria and implementation steps; null skips them */
+  childIssueTypeId: string | null;
+}
+
+export type JiraExportResult =
+  | { nodeId: string; issue: JiraIssueLink }
+  | { nodeId: string; error: string };
+
+async function requireJira() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new AuthenticationError();
+  }
+
+  const auth = await BaseIntegration.loadForUser('jira', user.id);
+  if (!auth) {
+    throw new ValidationError('Jira is not connected. Connect it from Integrations on the dashboard.');
+  }
+
+  return { supabase, user, jira: new JiraIntegration(auth, user.id, supabase) };
+}
+
+/**
+ * Generates the Atlassian OAuth authorization URL for the user to connect their Jira site.
+ */
+export async function getJiraAuthUrl(): Promise<{ url: string }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const oauth = new JiraOAuth();
+    const state = await issueOAuthState('jira');
+    return { url: oauth.getAuthorizationUrl(state) };
+  } catch (error) {
+    logError(error, { action: 'getJiraAuthUrl' });
+    throw new DatabaseError('Failed to generate Jira authorization URL');
+  }
+}
+
+/**
+ * Checks if the current user has a connected Jira integration.
+ */
+export async function checkJiraConnection(): Promise<{ connected: boolean }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { connected: false };
+    }
+
+    const auth = await BaseIntegration.loadForUser('jira', user.id);
+    return { connected: Boolean(auth?.accessToken) };
+  } catch {
+    return { connected: false };
+  }
+}
+
+/**
+ * Lists the Jira sites the connected account can reach and which one
+ * issues are created in.
+ */
+export async function listJiraSites(): Promise<{ sites: JiraSite[]; selectedId: string }> {
+  try {
+    const { jira } = await requireJira();
+    return { sites: jira.sites, selectedId: jira.cloudId };
+  } catch (error) {
+    logError(error, { action: 'listJiraSites' });
+    if (error instanceof AuthenticationError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to list Jira sites');
+  }
+}
+
+/**
+ * Switches the Jira site issues are created in to another site the
+ * connected account can reach.
+ */
+export async function selectJiraSite(cloudId: string): Promise<JiraSite> {
+  try {
+    await validateOrigin();
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const rateLimitResult = await checkRateLimit(projectRateLimiter, user.id);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many requests. Please slow down.');
+    }
+
+    const auth = await BaseIntegration.loadForUser('jira', user.id);
+    if (!auth) {
+      throw new ValidationError('Jira is not connected. Connect it from Integrations on the dashboard.');
+    }
+
+    const sites = readJiraSites(auth.metadata);
+    const site = sites.find((candidate) => candidate.id === cloudId);
+    if (!site) {
+      throw new ValidationError('That Jira site is not available to the connected account');
+    }
+
+    await BaseIntegration.saveForUser('jira', user.id, { ...auth, metadata: jiraSiteMetadata(site, sites) });
+    return site;
+  } catch (error) {
+    logError(error, { action: 'selectJiraSite', cloudId });
+    if (error instanceof AuthenticationError || error instanceof RateLimitError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to switch Jira site');
+  }
+}
+
+/**
+ * Lists the Jira projects issues can be created in.
+ */
+export async function listJiraProjects(): Promise<JiraProject[]> {
+  try {
+    const { jira } = await requireJira();
+    return await jira.listProjects();
+  } catch (error) {
+    logError(error, { action: 'listJiraProjects' });
+    if (error instanceof AuthenticationError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to list Jira projects');
+  }
+}
+
+/**
+ * Lists the issue types a Jira project can create.
+ */
+export async function listJiraIssueTypes(jiraProjectId: string): Promise<JiraIssueType[]> {
+  if (!jiraProjectId) {
+    throw new ValidationError('Jira project is required');
+  }
+
+  try {
+    const { jira } = await requireJira();
+    return await jira.listIssueTypes(jiraProjectId);
+  } catch (error) {
+    logError(error, { action: 'listJiraIssueTypes', jiraProjectId });
+    if (error instanceof AuthenticationError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to list Jira issue types');
+  }
+}
+
+/**
+ * Creates one Jira issue per feature with a child issue per acceptance
+ * criterion and implementation step, and records each feature issue
+ * against its project and node so the webhook can sync status back.
+ * Features are exported one at a time; a failure is reported for that
+ * feature only.
+ */
+export async function exportFeaturesToJira(
+  projectId: string,
+  target: JiraExportTarget,
+  features: JiraFeatureExport[]
+): Promise<JiraExportResult[]> {
+  if (!projectId || !target.projectId || !target.issueTypeId) {
+    throw new ValidationError('Project and issue type are required');
+  }
+  if (features.length === 0) {
+    throw new ValidationError('Select at least one feature');
+  }
+  if (features.length > MAX_FEATURES_PER_EXPORT) {
+    throw new ValidationError(`Export at most ${MAX_FEATURES_PER_EXPORT} features at a time`);
+  }
+
+  await validateOrigin();
+  const { supabase, user, jira } = await requireJira();
+  await requireProjectRole(supabase, user.id, projectId, 'editor');
+
+  const rateLimitResult = await checkRateLimit(projectRateLimiter, user.id);
+  if (!rateLimitResult.success) {
+    throw new RateLimitError('Too many requests. Please slow down.');
+  }
+
+  const siteUrl = jiraSiteOrigin(jira.siteUrl);
+  if (!jira.cloudId || !siteUrl) {
+    throw new ValidationError('The connected Jira site is unknown. Reconnect Jira from Integrations on the dashboard.');
+  }
+
+  const results: JiraExportResult[] = [];
+
+  for (const { nodeId, draft } of features) {
+    try {
+      const exported = await jira.exportFeature(target.projectId, target.issueTypeId, target.childIssueTypeId, draft);
+      const issue = toJiraIssueLink(exported, jira.siteUrl);
+
+      const { error } = await supabase.from('jira_issue_links').insert({
+        cloud_id: jira.cloudId,
+        issue_id: issue.id,
+        site_url: siteUrl,
+        project_id: projectId,
+        node_id: nodeId,
+        created_by: user.id,
+        issue_key: issue.key,
+      });
+      if (error) {
+        logError(error, { action: 'exportFeaturesToJira:link', projectId, nodeId });
+        results.push({
+          nodeId,
+          error: `Created ${issue.key} but couldn't link it to the feature, so Jira changes won't sync back`,
+        });
+        continue;
+      }
+
+      results.push({ nodeId, issue });
+    } catch (error) {
+      logError(error, { action: 'exportFeaturesToJira', projectId, nodeId });
+      results.push({ nodeId, error: error instanceof Error ? error.message : 'Failed to create issue' });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Disconnects the Jira integration by deleting stored credentials.
+ */
+export async function disconnectJira(): Promise<{ success: boolean }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    await BaseIntegration.deleteForUser('jira', user.id);
+
+    return { success: true };
+  } catch (error) {
+    logError(error, { action: 'disconnectJira' });
+    throw new DatabaseError('Failed to disconnect Jira');
+  }
+}
@@ -0,0 +1,222 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { LinearIntegration, LinearOAuth, type FeatureExportInput, type LinearTeam } from '@/lib/integrations/linear';
+import { BaseIntegration } from '@/lib/integrations/base';
+import { issueOAuthState } from '@/lib/integrations/oauthState';
+import { pickWorkflowState, statusToLinearStateType, toLinearIssueLink } from '@/lib/integrations/linearSync';
+import type { FeatureStatus, LinearIssueLink } from '@/types/nodes';
+import {
+  AuthenticationError,
+  RateLimitError,
+  ValidationError,
+  DatabaseError,
+  logError,
+} from '@/lib/errors';
+import { projectRateLimiter, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { requireProjectRole } from '@/lib/workspaces/access';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+const MAX_FEATURES_PER_EXPORT = 50;
+
+export interface LinearFeatureExport {
+  nodeId: string;
+  feature: FeatureExportInput;
+}
+
+export type LinearExportResult =
+  | { nodeId: string; issue: LinearIssueLink }
+  | { nodeId: string; error: string };
+
+async function requireLinear() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new AuthenticationError();
+  }
+
+  const auth = await BaseIntegration.loadForUser('linear', user.id);
+  if (!auth) {
+    throw new ValidationError('Linear is not connected. Connect it from Integrations on the dashboard.');
+  }
+
+  return { supabase, user, linear: new LinearIntegration(auth, user.id, supabase) };
+}
+
+/**
+ * Generates the Linear OAuth authorization URL for the user to connect their workspace.
+ */
+export async function getLinearAuthUrl(): Promise<{ url: string }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const oauth = new LinearOAuth();
+    const state = await issueOAuthState('linear');
+    return { url: oauth.getAuthorizationUrl(state) };
+  } catch (error) {
+    logError(error, { action: 'getLinearAuthUrl' });
+    throw new DatabaseError('Failed to generate Linear authorization URL');
+  }
+}
+
+/**
+ * Checks if the current user has a connected Linear integration.
+ */
+export async function checkLinearConnection(): Promise<{ connected: boolean }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { connected: false };
+    }
+
+    const auth = await BaseIntegration.loadForUser('linear', user.id);
+    return { connected: Boolean(auth?.accessToken) };
+  } catch {
+    return { connected: false };
+  }
+}
+
+/**
+ * Lists the Linear teams issues can be created in.
+ */
+export async function listLinearTeams(): Promise<LinearTeam[]> {
+  try {
+    const { linear } = await requireLinear();
+    return await linear.listTeams();
+  } catch (error) {
+    logError(error, { action: 'listLinearTeams' });
+    if (error instanceof AuthenticationError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to list Linear teams');
+  }
+}
+
+/**
+ * Creates one Linear issue per feature and records each issue against its
+ * project and node so the webhook can sync state changes back. Features
+ * are exported one at a time; a failure is reported for that feature only.
+ */
+export async function exportFeaturesToLinear(
+  projectId: string,
+  teamId: string,
+  features: LinearFeatureExport[]
+): Promise<LinearExportResult[]> {
+  if (!projectId || !teamId) {
+    throw new ValidationError('Project and team are required');
+  }
+  if (features.length === 0) {
+    throw new ValidationError('Select at least one feature');
+  }
+  if (features.length > MAX_FEATURES_PER_EXPORT) {
+    throw new ValidationError(`Export at most ${MAX_FEATURES_PER_EXPORT} features at a time`);
+  }
+
+  await validateOrigin();
+  const { supabase, user, linear } = await requireLinear();
+  await requireProjectRole(supabase, user.id, projectId, 'editor');
+
+  const rateLimitResult = await checkRateLimit(projectRateLimiter, user.id);
+  if (!rateLimitResult.success) {
+    throw new RateLimitError('Too many requests. Please slow down.');
+  }
+
+  const results: LinearExportResult[] = [];
+
+  for (const { nodeId, feature } of features) {
+    try {
+      const issue = toLinearIssueLink(await linear.exportFeatureAsIssue(teamId, feature));
+
+      const { error } = await supabase.from('linear_issue_links').insert({
+        issue_id: issue.id,
+        project_id: projectId,
+        node_id: nodeId,
+        created_by: user.id,
+        team_id: issue.teamId,
+        identifier: issue.identifier,
+      });
+      if (error) {
+        logError(error, { action: 'exportFeaturesToLinear:link', projectId, nodeId });
+        results.push({
+          nodeId,
+          error: `Created ${issue.identifier} but couldn't link it to the feature, so Linear changes won't sync back`,
+        });
+        continue;
+      }
+
+      results.push({ nodeId, issue });
+    } catch (error) {
+      logError(error, { action: 'exportFeaturesToLinear', projectId, nodeId });
+      results.push({ nodeId, error: error instanceof Error ? error.message : 'Failed to create issue' });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Moves a feature's Linear issue to the first workflow state matching the
+ * feature's status. Returns the updated link, or null when the status has
+ * no Linear equivalent (Blocked, Broken).
+ */
+export async function syncLinearIssueStatus(
+  link: LinearIssueLink,
+  status: FeatureStatus
+): Promise<LinearIssueLink | null> {
+  const stateType = statusToLinearStateType(status);
+  if (!stateType) return null;
+
+  try {
+    const { linear } = await requireLinear();
+    const state = pickWorkflowState(await linear.listWorkflowStates(link.teamId), stateType);
+    if (!state) {
+      throw new ValidationError(`The Linear team has no ${stateType} state`);
+    }
+
+    await linear.updateIssueState(link.id, state.id);
+    return { ...link, stateType };
+  } catch (error) {
+    logError(error, { action: 'syncLinearIssueStatus', issueId: link.id });
+    if (error instanceof AuthenticationError || error instanceof ValidationError) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to update the Linear issue');
+  }
+}
+
+/**
+ * Disconnects the Linear integration by deleting stored credentials.
+ */
+export async function disconnectLinear(): Promise<{ success: boolean }> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    await BaseIntegration.deleteForUser('linear', user.id);
+
+    return { success: true };
+  } catch (error) {
+    logError(error, { action: 'disconnectLinear' });
+    throw new DatabaseError('Failed to disconnect Linear');
+  }
+}
@@ -2,15 +2,26 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { NotionIntegration, NotionOAuth, type NotionPage } from '@/lib/integrations/notion';
+import {
+  fromNotionPublicationRow,
+  toNotionPublicationRow,
+  type NotionPublicationRow,
+} from '@/lib/integrations/notionPublish';
 import { BaseIntegration } from '@/lib/integrations/base';
 import { importDocumentWithAI } from '@/app/actions/import';
 import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
 import {
   AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  RateLimitError,
   ValidationError,
   DatabaseError,
   logError,
 } from '@/lib/errors';
+import { projectRateLimiter, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { requireProjectRole } from '@/lib/workspaces/access';
+import { validateOrigin } from '@/lib/ai/routeAuth';
 
 /**
  * Generates the Notion OAuth authorization URL for user to connect their workspace.
@@ -215,6 +226,126 @@ export async function listNotionPagesForUI(): Promise<{
   }
 }
 
+export interface NotionPublishSummary {
+  url: string;
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+/**
+ * Returns the Notion page a project was last published to, or null when it
+ * hasn't been published.
+ */
+export async function getNotionPublication(
+  projectId: string
+): Promise<{ url: string; publishedAt: string } | null> {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from('notion_publications')
+      .select('root_page_url,published_at')
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? { url: data.root_page_url, publishedAt: data.published_at } : null;
+  } catch (error) {
+    logError(error, { action: 'getNotionPublication', projectId });
+    throw new DatabaseError('Failed to load the Notion publication');
+  }
+}
+
+/**
+ * Publishes a project's canvas as a Notion page tree. The first publish
+ * creates it under `parentPageId`; later publishes update the same pages in
+ * place using the page and row ids recorded per node.
+ */
+export async function publishProjectToNotion(
+  projectId: string,
+  nodes: SpexlyNode[],
+  parentPageId: string | null
+): Promise<NotionPublishSummary> {
+  try {
+    if (!projectId) {
+      throw new ValidationError('Project is required');
+    }
+
+    await validateOrigin();
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    await requireProjectRole(supabase, user.id, projectId, 'editor');
+
+    const rateLimitResult = await checkRateLimit(projectRateLimiter, user.id);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many requests. Please slow down.');
+    }
+
+    const auth = await BaseIntegration.loadForUser('notion', user.id);
+    if (!auth) {
+      throw new ValidationError('Notion is not connected. Connect it from Integrations on the dashboard.');
+    }
+
+    const { data: existing, error: loadError } = await supabase
+      .from('notion_publications')
+      .select('*')
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (loadError) {
+      throw loadError;
+    }
+    if (!existing && !parentPageId) {
+      throw new ValidationError('Choose a Notion page to publish under');
+    }
+
+    const notion = new NotionIntegration(auth, user.id, supabase);
+    const result = await notion.publishProject(
+      nodes,
+      parentPageId,
+      existing ? fromNotionPublicationRow(existing as NotionPublicationRow) : null
+    );
+
+    const { error: saveError } = await supabase
+      .from('notion_publications')
+      .upsert(toNotionPublicationRow(projectId, user.id, result.publication), { onConflict: 'project_id' });
+
+    if (saveError) {
+      // The pages exist either way; without the row the next publish starts a new tree
+      throw saveError;
+    }
+
+    return {
+      url: result.publication.rootPageUrl,
+      created: result.created,
+      updated: result.updated,
+      removed: result.removed,
+    };
+  } catch (error) {
+    logError(error, { action: 'publishProjectToNotion', projectId });
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof ValidationError
+    ) {
+      throw error;
+    }
+    throw new DatabaseError('Failed to publish to Notion');
+  }
+}
+
 /**
  * Disconnects the Notion integration by deleting stored credentials.
  */
@@ -0,0 +1,347 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProjectMilestone } from '@/types/project';
+import { validateProjectId } from '@/lib/validation/validators';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  DatabaseError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  logError,
+} from '@/lib/errors';
+import { projectRateLimiter, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { requireProjectRole } from '@/lib/workspaces/access';
+import {
+  MAX_MILESTONES_PER_PROJECT,
+  MAX_MILESTONE_NAME_LENGTH,
+  isValidTargetDate,
+  normalizeMilestoneName,
+} from '@/lib/milestones/milestones';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+export interface MilestoneInput {
+  name: string;
+  /** YYYY-MM-DD, or null for no target date */
+  targetDate: string | null;
+}
+
+async function getAuthUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return user.id;
+}
+
+function assertValidId(id: string, label: string): void {
+  const validation = validateProjectId(id);
+  if (!validation.valid) {
+    throw new ValidationError(`Invalid ${label} ID`);
+  }
+}
+
+function sanitizeMilestoneName(name: string): string {
+  const normalized = normalizeMilestoneName(name);
+  if (!normalized) {
+    throw new ValidationError('Milestone name is required.');
+  }
+  if (normalized.length > MAX_MILESTONE_NAME_LENGTH) {
+    throw new ValidationError(`Milestone name must be ${MAX_MILESTONE_NAME_LENGTH} characters or less.`);
+  }
+  return normalized;
+}
+
+function assertValidTargetDate(date: string | null): void {
+  if (!isValidTargetDate(date)) {
+    throw new ValidationError('Target date must be a valid date.');
+  }
+}
+
+async function enforceRateLimit(userId: string): Promise<void> {
+  const rateLimitResult = await checkRateLimit(projectRateLimiter, userId);
+  if (!rateLimitResult.success) {
+    throw new RateLimitError('Too many requests. Please slow down.');
+  }
+}
+
+/** Loads a milestone's project id and checks the caller may edit it */
+async function requireMilestoneEditor(
+  supabase: SupabaseClient,
+  userId: string,
+  milestoneId: string,
+  action: string
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('project_milestones')
+    .select('project_id')
+    .eq('id', milestoneId)
+    .maybeSingle();
+
+  if (error) {
+    logError(error, { action: `${action}:load`, userId, milestoneId });
+    throw new DatabaseError('Failed to update milestone.');
+  }
+  if (!data) {
+    throw new NotFoundError('Milestone');
+  }
+
+  await requireProjectRole(supabase, userId, data.project_id, 'editor');
+  return data.project_id;
+}
+
+/**
+ * Lists a project's milestones in release order.
+ */
+export async function getProjectMilestones(projectId: string): Promise<ProjectMilestone[]> {
+  try {
+    assertValidId(projectId, 'project');
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+    await requireProjectRole(supabase, userId, projectId, 'viewer');
+
+    const { data, error } = await supabase
+      .from('project_milestones')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logError(error, { action: 'getProjectMilestones', userId, projectId });
+      throw new DatabaseError('Failed to load milestones.');
+    }
+
+    return (data ?? []) as ProjectMilestone[];
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'getProjectMilestones', projectId });
+    throw new DatabaseError('Failed to load milestones.');
+  }
+}
+
+/**
+ * Adds a milestone after the existing ones.
+ */
+export async function createMilestone(projectId: string, input: MilestoneInput): Promise<ProjectMilestone> {
+  try {
+    await validateOrigin();
+    assertValidId(projectId, 'project');
+    const userId = await getAuthUserId();
+    await enforceRateLimit(userId);
+
+    const name = sanitizeMilestoneName(input.name);
+    assertValidTargetDate(input.targetDate);
+
+    const supabase = await createClient();
+    await requireProjectRole(supabase, userId, projectId, 'editor');
+
+    const { data: existing, error: existingError } = await supabase
+      .from('project_milestones')
+      .select('position')
+      .eq('project_id', projectId);
+
+    if (existingError) {
+      logError(existingError, { action: 'createMilestone:count', userId, projectId });
+      throw new DatabaseError('Failed to create milestone.');
+    }
+
+    const positions = (existing ?? []).map((row) => row.position as number);
+    if (positions.length >= MAX_MILESTONES_PER_PROJECT) {
+      throw new ValidationError(`A project can have at most ${MAX_MILESTONES_PER_PROJECT} milestones.`);
+    }
+
+    const { data, error } = await supabase
+      .from('project_milestones')
+      .insert({
+        project_id: projectId,
+        created_by: userId,
+        name,
+        target_date: input.targetDate,
+        position: positions.length > 0 ? Math.max(...positions) + 1 : 0,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      logError(error, { action: 'createMilestone', userId, projectId });
+      throw new DatabaseError('Failed to create milestone.');
+    }
+
+    return data as ProjectMilestone;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'createMilestone', projectId });
+    throw new DatabaseError('Failed to create milestone.');
+  }
+}
+
+/**
+ * Renames a milestone and/or changes its target date.
+ */
+export async function updateMilestone(
+  milestoneId: string,
+  updates: Partial<MilestoneInput>
+): Promise<ProjectMilestone> {
+  try {
+    await validateOrigin();
+    assertValidId(milestoneId, 'milestone');
+    const userId = await getAuthUserId();
+    await enforceRateLimit(userId);
+
+    const patch: { name?: string; target_date?: string | null } = {};
+    if (updates.name !== undefined) patch.name = sanitizeMilestoneName(updates.name);
+    if (updates.targetDate !== undefined) {
+      assertValidTargetDate(updates.targetDate);
+      patch.target_date = updates.targetDate;
+    }
+    if (Object.keys(patch).length === 0) {
+      throw new ValidationError('Nothing to update.');
+    }
+
+    const supabase = await createClient();
+    await requireMilestoneEditor(supabase, userId, milestoneId, 'updateMilestone');
+
+    const { data, error } = await supabase
+      .from('project_milestones')
+      .update(patch)
+      .eq('id', milestoneId)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      logError(error, { action: 'updateMilestone', userId, milestoneId });
+      throw new DatabaseError('Failed to update milestone.');
+    }
+
+    return data as ProjectMilestone;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'updateMilestone', milestoneId });
+    throw new DatabaseError('Failed to update milestone.');
+  }
+}
+
+/**
+ * Deletes a milestone. Features and screens that pointed at it become
+ * unscheduled; the caller clears their `milestoneId` on the canvas.
+ */
+export async function deleteMilestone(milestoneId: string): Promise<void> {
+  try {
+    await validateOrigin();
+    assertValidId(milestoneId, 'milestone');
+    const userId = await getAuthUserId();
+    await enforceRateLimit(userId);
+
+    const supabase = await createClient();
+    await requireMilestoneEditor(supabase, userId, milestoneId, 'deleteMilestone');
+
+    const { error } = await supabase.from('project_milestones').delete().eq('id', milestoneId);
+
+    if (error) {
+      logError(error, { action: 'deleteMilestone', userId, milestoneId });
+      throw new DatabaseError('Failed to delete milestone.');
+    }
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'deleteMilestone', milestoneId });
+    throw new DatabaseError('Failed to delete milestone.');
+  }
+}
+
+/**
+ * Stores a new release order. `orderedIds` must list exactly the project's milestones.
+ */
+export async function reorderMilestones(projectId: string, orderedIds: string[]): Promise<ProjectMilestone[]> {
+  try {
+    await validateOrigin();
+    assertValidId(projectId, 'project');
+    orderedIds.forEach((id) => assertValidId(id, 'milestone'));
+    const userId = await getAuthUserId();
+    await enforceRateLimit(userId);
+
+    const supabase = await createClient();
+    await requireProjectRole(supabase, userId, projectId, 'editor');
+
+    const { data: existing, error: existingError } = await supabase
+      .from('project_milestones')
+      .select('id')
+      .eq('project_id', projectId);
+
+    if (existingError) {
+      logError(existingError, { action: 'reorderMilestones:load', userId, projectId });
+      throw new DatabaseError('Failed to reorder milestones.');
+    }
+
+    const existingIds = new Set((existing ?? []).map((row) => row.id as string));
+    if (orderedIds.length !== existingIds.size || !orderedIds.every((id) => existingIds.has(id))) {
+      throw new ValidationError('Milestone order is out of date. Reload and try again.');
+    }
+
+    for (const [position, id] of orderedIds.entries()) {
+      const { error } = await supabase
+        .from('project_milestones')
+        .update({ position })
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        logError(error, { action: 'reorderMilestones', userId, projectId });
+        throw new DatabaseError('Failed to reorder milestones.');
+      }
+    }
+
+    return getProjectMilestones(projectId);
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'reorderMilestones', projectId });
+    throw new DatabaseError('Failed to reorder milestones.');
+  }
+}
@@ -0,0 +1,82 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import {
+  AuthenticationError,
+  RateLimitError,
+  logError,
+} from '@/lib/errors';
+import {
+  checkRateLimit,
+  getClientIp,
+  wizardHourlyRateLimiter,
+} from '@/lib/rate-limit/limiter';
+import { generateJson, getUserAIProvider, isAIAvailable } from '@/lib/ai/llm';
+import {
+  FEATURE_PLAN_MAX_OUTPUT_TOKENS,
+  buildFeaturePlanMessages,
+  parseFeaturePlan,
+  parseFeaturePlanContext,
+  type FeaturePlanContext,
+} from '@/lib/ai/featurePlan';
+import type { FeaturePlanStep } from '@/types/nodes';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+async function getAuthUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return user.id;
+}
+
+export async function planFeatureWithAI(context: FeaturePlanContext, projectId?: string): Promise<{
+  success: boolean;
+  steps?: FeaturePlanStep[];
+  error?: string;
+}> {
+  try {
+    const parsedContext = parseFeaturePlanContext(context);
+    if (!parsedContext) {
+      return { success: false, error: 'Give the feature a name before planning it.' };
+    }
+
+    await validateOrigin();
+    const userId = await getAuthUserId();
+
+    const headersList = await headers();
+    const identifier = `${userId}:${getClientIp(headersList)}`;
+    const rateLimitResult = await checkRateLimit(wizardHourlyRateLimiter, identifier);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many AI requests. Please try again later.');
+    }
+
+    const supabase = await createClient();
+    const preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAIAvailable('plan', preferredProvider)) {
+      return { success: false, error: 'AI is not configured.' };
+    }
+
+    const { data } = await generateJson({
+      operation: 'plan',
+      preferredProvider,
+      meter: { supabase, userId, projectId },
+      messages: buildFeaturePlanMessages(parsedContext),
+      maxTokens: FEATURE_PLAN_MAX_OUTPUT_TOKENS,
+      temperature: 0.2,
+    });
+
+    const steps = parseFeaturePlan(data);
+    if (steps.length === 0) {
+      return { success: false, error: 'AI did not return any plan steps.' };
+    }
+
+    return { success: true, steps };
+  } catch (error) {
+    logError(error, { action: 'planFeatureWithAI' });
+    if (error instanceof AuthenticationError || error instanceof RateLimitError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: 'Failed to plan feature.' };
+  }
+}
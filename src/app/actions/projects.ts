@@ -1,7 +1,7 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import { headers } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Project, CanvasData } from '@/types/project';
 import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
 import {
@@ -11,7 +11,9 @@ import {
 } from '@/lib/validation/validators';
 import {
   AuthenticationError,
+  AuthorizationError,
   DatabaseError,
+  NotFoundError,
   ValidationError,
   RateLimitError,
   logError,
@@ -21,57 +23,15 @@ import {
   canvasSaveRateLimiter,
   checkRateLimit,
 } from '@/lib/rate-limit/limiter';
-
-/**
- * Validates the origin and referer headers to prevent CSRF attacks
- * This provides an additional layer of security beyond Next.js Server Actions' built-in protections
- * @throws {ValidationError} if origin validation fails
- */
-async function validateOrigin(): Promise<void> {
-  const headersList = await headers();
-  const origin = headersList.get('origin');
-  const referer = headersList.get('referer');
-
-  // Define allowed origins for different environments
-  const allowedOrigins = [
-    'http://localhost:3000', // Development
-    'http://localhost:3001', // Development alternative
-    'https://spexlyapp.com', // Production
-    'https://www.spexlyapp.com', // Production with www
-    'https://spexly.vercel.app', // Vercel preview
-  ];
-
-  // For development, also allow any localhost origin
-  if (process.env.NODE_ENV === 'development') {
-    if (origin?.startsWith('http://localhost:') || origin?.startsWith('http://127.0.0.1:')) {
-      return; // Allow in development
-    }
-  }
-
-  // Check origin header (present on POST requests)
-  if (origin && !allowedOrigins.includes(origin)) {
-    logError(new Error('Invalid origin'), { origin, referer });
-    throw new ValidationError('Request origin not allowed');
-  }
-
-  // Check referer header as fallback
-  if (!origin && referer) {
-    const refererUrl = new URL(referer);
-    const refererOrigin = `${refererUrl.protocol}//${refererUrl.host}`;
-
-    if (!allowedOrigins.includes(refererOrigin)) {
-      logError(new Error('Invalid referer'), { referer });
-      throw new ValidationError('Request referer not allowed');
-    }
-  }
-
-  // If neither origin nor referer is present, this might be suspicious
-  // but we'll allow it as some legitimate requests may not have these headers
-  if (!origin && !referer && process.env.NODE_ENV === 'production') {
-    logError(new Error('Missing origin and referer headers'), { headers: headersList });
-    // Log but don't block to avoid breaking legitimate use cases
-  }
-}
+import { recordAutoSnapshot } from '@/lib/snapshots/autoSnapshot';
+import {
+  ensurePersonalWorkspace,
+  getProjectAccess,
+  requireProjectRole,
+  requireWorkspaceRole,
+} from '@/lib/workspaces/access';
+import type { WorkspaceRole } from '@/types/workspace';
+import { validateOrigin } from '@/lib/ai/routeAuth';
 
 async function getAuthUserId(): Promise<string> {
   const supabase = await createClient();
@@ -86,26 +46,67 @@ async function getUserTier(): Promise<'free' | 'pro'> {
   return 'pro';
 }
 
-export async function getProjects(): Promise<Project[]> {
+/**
+ * Picks the workspace a new project goes into and checks the caller may
+ * create projects there.
+ */
+async function resolveTargetWorkspace(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId?: string
+): Promise<string> {
+  if (workspaceId === undefined) {
+    return ensurePersonalWorkspace(supabase, userId);
+  }
+
+  const idValidation = validateProjectId(workspaceId);
+  if (!idValidation.valid) {
+    throw new ValidationError('Invalid workspace ID');
+  }
+
+  await requireWorkspaceRole(supabase, userId, workspaceId, 'editor');
+  return workspaceId;
+}
+
+/**
+ * Lists the projects in a workspace, newest first.
+ * Defaults to the caller's personal workspace (created on first use).
+ */
+export async function getProjects(workspaceId?: string): Promise<Project[]> {
   try {
+    if (workspaceId !== undefined) {
+      const idValidation = validateProjectId(workspaceId);
+      if (!idValidation.valid) {
+        throw new ValidationError('Invalid workspace ID');
+      }
+    }
+
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
+    const targetWorkspaceId = workspaceId ?? (await ensurePersonalWorkspace(supabase, userId));
+    await requireWorkspaceRole(supabase, userId, targetWorkspaceId, 'viewer');
+
     const { data, error } = await supabase
       .from('projects')
       .select('*')
-      .eq('user_id', userId)
+      .eq('workspace_id', targetWorkspaceId)
       .order('updated_at', { ascending: false });
 
     if (error) {
-      logError(error, { action: 'getProjects', userId });
+      logError(error, { action: 'getProjects', userId, workspaceId: targetWorkspaceId });
       throw new DatabaseError('Failed to fetch projects');
     }
 
     return (data ?? []) as unknown as Project[];
   } catch (error) {
     // If it's already one of our custom errors, rethrow
-    if (error instanceof AuthenticationError || error instanceof DatabaseError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     // Log and throw generic error for unexpected errors
@@ -125,11 +126,16 @@ export async function getProject(id: string): Promise<Project | null> {
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
+    // Projects outside the caller's workspaces look the same as missing ones
+    const access = await getProjectAccess(supabase, userId, id);
+    if (!access) {
+      return null;
+    }
+
     const { data, error } = await supabase
       .from('projects')
       .select('*')
       .eq('id', id)
-      .eq('user_id', userId)
       .single();
 
     if (error) {
@@ -151,7 +157,35 @@ export async function getProject(id: string): Promise<Project | null> {
   }
 }
 
-export async function createProject(name?: string): Promise<Project> {
+/**
+ * The caller's workspace role for a project, or null if they cannot access it.
+ * Used by the canvas to switch viewers into read-only mode.
+ */
+export async function getProjectRole(id: string): Promise<WorkspaceRole | null> {
+  try {
+    const idValidation = validateProjectId(id);
+    if (!idValidation.valid) {
+      throw new ValidationError(idValidation.error || 'Invalid project ID');
+    }
+
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+    const access = await getProjectAccess(supabase, userId, id);
+    return access?.role ?? null;
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof DatabaseError) {
+      throw error;
+    }
+    logError(error, { action: 'getProjectRole', projectId: id });
+    throw new DatabaseError('Failed to fetch project');
+  }
+}
+
+/**
+ * Creates a blank project in the given workspace (default: the caller's
+ * personal workspace). Requires the editor role.
+ */
+export async function createProject(name?: string, workspaceId?: string): Promise<Project> {
   try {
     // Validate origin to prevent CSRF attacks
     await validateOrigin();
@@ -194,11 +228,13 @@ export async function createProject(name?: string): Promise<Project> {
     }
 
     const supabase = await createClient();
+    const targetWorkspaceId = await resolveTargetWorkspace(supabase, userId, workspaceId);
 
     const { data, error } = await supabase
       .from('projects')
       .insert({
         user_id: userId,
+        workspace_id: targetWorkspaceId,
         name: validation.sanitized,
       })
       .select()
@@ -211,7 +247,13 @@ export async function createProject(name?: string): Promise<Project> {
 
     return data as unknown as Project;
   } catch (error) {
-    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof DatabaseError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'createProject' });
@@ -223,6 +265,7 @@ export async function createProjectFromWizard(
   name: string,
   nodes: SpexlyNode[],
   edges: SpexlyEdge[],
+  workspaceId?: string,
 ): Promise<Project> {
   try {
     // Validate origin to prevent CSRF attacks
@@ -278,6 +321,7 @@ export async function createProjectFromWizard(
     }
 
     const supabase = await createClient();
+    const targetWorkspaceId = await resolveTargetWorkspace(supabase, userId, workspaceId);
 
     const canvasData: CanvasData = {
       nodes: canvasValidation.sanitizedNodes!,
@@ -288,6 +332,7 @@ export async function createProjectFromWizard(
       .from('projects')
       .insert({
         user_id: userId,
+        workspace_id: targetWorkspaceId,
         name: nameValidation.sanitized,
         canvas_data: canvasData as unknown as Record<string, unknown>,
       })
@@ -301,7 +346,13 @@ export async function createProjectFromWizard(
 
     return data as unknown as Project;
   } catch (error) {
-    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof DatabaseError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'createProjectFromWizard' });
@@ -346,6 +397,7 @@ export async function updateCanvasData(
       throw new ValidationError(canvasValidation.error || 'Invalid canvas data');
     }
     const supabase = await createClient();
+    await requireProjectRole(supabase, userId, id, 'editor');
 
     const canvasData: CanvasData = {
       nodes: canvasValidation.sanitizedNodes!,
@@ -355,15 +407,23 @@ export async function updateCanvasData(
     const { error } = await supabase
       .from('projects')
       .update({ canvas_data: canvasData as unknown as Record<string, unknown> })
-      .eq('id', id)
-      .eq('user_id', userId);
+      .eq('id', id);
 
     if (error) {
       logError(error, { action: 'updateCanvasData', userId, projectId: id });
       throw new DatabaseError('Failed to update canvas data');
     }
+
+    // Periodic version-history snapshot (throttled, never fails the save)
+    await recordAutoSnapshot(supabase, userId, id, canvasData);
   } catch (error) {
-    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof DatabaseError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'updateCanvasData', projectId: id });
@@ -396,19 +456,25 @@ export async function renameProject(id: string, name: string): Promise<void> {
       throw new ValidationError(nameValidation.error || 'Invalid project name');
     }
     const supabase = await createClient();
+    await requireProjectRole(supabase, userId, id, 'editor');
 
     const { error } = await supabase
       .from('projects')
       .update({ name: nameValidation.sanitized })
-      .eq('id', id)
-      .eq('user_id', userId);
+      .eq('id', id);
 
     if (error) {
       logError(error, { action: 'renameProject', userId, projectId: id });
       throw new DatabaseError('Failed to rename project');
     }
   } catch (error) {
-    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof DatabaseError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'renameProject', projectId: id });
@@ -435,19 +501,26 @@ export async function deleteProject(id: string): Promise<void> {
       throw new ValidationError(idValidation.error || 'Invalid project ID');
     }
     const supabase = await createClient();
+    // Deleting is irreversible, so only workspace owners may do it
+    await requireProjectRole(supabase, userId, id, 'owner');
 
     const { error } = await supabase
       .from('projects')
       .delete()
-      .eq('id', id)
-      .eq('user_id', userId);
+      .eq('id', id);
 
     if (error) {
       logError(error, { action: 'deleteProject', userId, projectId: id });
       throw new DatabaseError('Failed to delete project');
     }
   } catch (error) {
-    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof DatabaseError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'deleteProject', projectId: id });
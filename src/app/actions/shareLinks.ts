@@ -0,0 +1,258 @@
+'use server';
+
+import { randomBytes } from 'crypto';
+import { createClient } from '@/lib/supabase/server';
+import type { CanvasData, ProjectShareLink, SharedCanvas } from '@/types/project';
+import { validateProjectId } from '@/lib/validation/validators';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  DatabaseError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  logError,
+} from '@/lib/errors';
+import { projectRateLimiter, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { requireProjectRole } from '@/lib/workspaces/access';
+import {
+  SHARE_TOKEN_BYTES,
+  getShareLinkExpiry,
+  isValidExpiryDays,
+  isValidShareToken,
+  prepareSharedCanvas,
+} from '@/lib/sharing/shareLinks';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+/** Upper bound on live links per project, to keep the list manageable */
+const MAX_ACTIVE_LINKS_PER_PROJECT = 20;
+
+async function getAuthUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return user.id;
+}
+
+function assertValidId(id: string, label: string): void {
+  const validation = validateProjectId(id);
+  if (!validation.valid) {
+    throw new ValidationError(`Invalid ${label} ID`);
+  }
+}
+
+/**
+ * Lists every share link for a project (including revoked and expired ones),
+ * newest first. Editors only.
+ */
+export async function getShareLinks(projectId: string): Promise<ProjectShareLink[]> {
+  try {
+    assertValidId(projectId, 'project');
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+    await requireProjectRole(supabase, userId, projectId, 'editor');
+
+    const { data, error } = await supabase
+      .from('project_share_links')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logError(error, { action: 'getShareLinks', userId, projectId });
+      throw new DatabaseError('Failed to load share links.');
+    }
+
+    return (data ?? []) as ProjectShareLink[];
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'getShareLinks', projectId });
+    throw new DatabaseError('Failed to load share links.');
+  }
+}
+
+/**
+ * Creates a read-only public link to the project canvas.
+ * @param expiresInDays - Days until the link stops working; null never expires
+ */
+export async function createShareLink(
+  projectId: string,
+  options: { hideNotes: boolean; expiresInDays: number | null }
+): Promise<ProjectShareLink> {
+  try {
+    await validateOrigin();
+    assertValidId(projectId, 'project');
+    const userId = await getAuthUserId();
+
+    const rateLimitResult = await checkRateLimit(projectRateLimiter, userId);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many requests. Please slow down.');
+    }
+
+    if (!isValidExpiryDays(options.expiresInDays)) {
+      throw new ValidationError('Invalid link expiry.');
+    }
+
+    const supabase = await createClient();
+    await requireProjectRole(supabase, userId, projectId, 'editor');
+
+    const { count, error: countError } = await supabase
+      .from('project_share_links')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId)
+      .is('revoked_at', null);
+
+    if (countError) {
+      logError(countError, { action: 'createShareLink:count', userId, projectId });
+      throw new DatabaseError('Failed to create share link.');
+    }
+
+    if ((count ?? 0) >= MAX_ACTIVE_LINKS_PER_PROJECT) {
+      throw new ValidationError(
+        `A project can have at most ${MAX_ACTIVE_LINKS_PER_PROJECT} share links. Revoke an old one first.`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('project_share_links')
+      .insert({
+        project_id: projectId,
+        created_by: userId,
+        token: randomBytes(SHARE_TOKEN_BYTES).toString('base64url'),
+        hide_notes: Boolean(options.hideNotes),
+        expires_at: getShareLinkExpiry(options.expiresInDays),
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      logError(error, { action: 'createShareLink', userId, projectId });
+      throw new DatabaseError('Failed to create share link.');
+    }
+
+    return data as ProjectShareLink;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'createShareLink', projectId });
+    throw new DatabaseError('Failed to create share link.');
+  }
+}
+
+/**
+ * Revokes a share link. Revoked links stay listed so owners can see what was
+ * shared, but the token stops resolving immediately.
+ */
+export async function revokeShareLink(linkId: string): Promise<ProjectShareLink> {
+  try {
+    await validateOrigin();
+    assertValidId(linkId, 'share link');
+    const userId = await getAuthUserId();
+
+    const rateLimitResult = await checkRateLimit(projectRateLimiter, userId);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many requests. Please slow down.');
+    }
+
+    const supabase = await createClient();
+
+    const { data: link, error: linkError } = await supabase
+      .from('project_share_links')
+      .select('project_id')
+      .eq('id', linkId)
+      .maybeSingle();
+
+    if (linkError) {
+      logError(linkError, { action: 'revokeShareLink:load', userId, linkId });
+      throw new DatabaseError('Failed to revoke share link.');
+    }
+    if (!link) {
+      throw new NotFoundError('Share link');
+    }
+
+    await requireProjectRole(supabase, userId, link.project_id, 'editor');
+
+    const { data, error } = await supabase
+      .from('project_share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', linkId)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      logError(error, { action: 'revokeShareLink', userId, linkId });
+      throw new DatabaseError('Failed to revoke share link.');
+    }
+
+    return data as ProjectShareLink;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'revokeShareLink', linkId });
+    throw new DatabaseError('Failed to revoke share link.');
+  }
+}
+
+/**
+ * Resolves a share token for anonymous viewers. Returns null for unknown,
+ * revoked or expired tokens so the route can render a 404 without revealing
+ * which case applied.
+ */
+export async function getSharedCanvas(token: string): Promise<SharedCanvas | null> {
+  if (!isValidShareToken(token)) return null;
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .rpc('get_shared_canvas', { share_token: token })
+      .maybeSingle();
+
+    if (error) {
+      logError(error, { action: 'getSharedCanvas' });
+      throw new DatabaseError('Failed to load shared canvas.');
+    }
+    if (!data) return null;
+
+    const row = data as {
+      project_name: string;
+      canvas_data: CanvasData | null;
+      updated_at: string;
+    };
+
+    return {
+      projectName: row.project_name,
+      canvasData: prepareSharedCanvas(row.canvas_data),
+      updatedAt: row.updated_at,
+    };
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    logError(error, { action: 'getSharedCanvas' });
+    throw new DatabaseError('Failed to load shared canvas.');
+  }
+}
@@ -0,0 +1,342 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import type { CanvasData, CanvasSnapshot, CanvasSnapshotSummary } from '@/types/project';
+import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+import { validateCanvasData, validateProjectId } from '@/lib/validation/validators';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  DatabaseError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  logError,
+} from '@/lib/errors';
+import { projectRateLimiter, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { requireProjectRole } from '@/lib/workspaces/access';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+const MAX_SNAPSHOT_NAME_LENGTH = 100;
+const SNAPSHOT_SUMMARY_COLUMNS = 'id, project_id, name, kind, node_count, edge_count, created_at';
+
+async function getAuthUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return user.id;
+}
+
+function assertValidId(id: string, label: string): void {
+  const validation = validateProjectId(id);
+  if (!validation.valid) {
+    throw new ValidationError(`Invalid ${label} ID`);
+  }
+}
+
+function sanitizeSnapshotName(name: string): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!trimmed) {
+    throw new ValidationError('Checkpoint name is required.');
+  }
+  if (trimmed.length > MAX_SNAPSHOT_NAME_LENGTH) {
+    throw new ValidationError(`Checkpoint name must be ${MAX_SNAPSHOT_NAME_LENGTH} characters or less.`);
+  }
+  return trimmed;
+}
+
+/**
+ * Lists snapshots for a project, newest first. Canvas payloads are omitted;
+ * fetch a single snapshot with getSnapshot for diffing or restore.
+ */
+export async function getProjectSnapshots(projectId: string): Promise<CanvasSnapshotSummary[]> {
+  try {
+    assertValidId(projectId, 'project');
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+    await requireProjectRole(supabase, userId, projectId, 'viewer');
+
+    const { data, error } = await supabase
+      .from('canvas_snapshots')
+      .select(SNAPSHOT_SUMMARY_COLUMNS)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      logError(error, { action: 'getProjectSnapshots', userId, projectId });
+      throw new DatabaseError('Failed to load version history.');
+    }
+
+    return (data ?? []) as CanvasSnapshotSummary[];
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'getProjectSnapshots', projectId });
+    throw new DatabaseError('Failed to load version history.');
+  }
+}
+
+export async function getSnapshot(snapshotId: string): Promise<CanvasSnapshot> {
+  try {
+    assertValidId(snapshotId, 'snapshot');
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from('canvas_snapshots')
+      .select('*')
+      .eq('id', snapshotId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Snapshot');
+      }
+      logError(error, { action: 'getSnapshot', userId, snapshotId });
+      throw new DatabaseError('Failed to load snapshot.');
+    }
+
+    await requireProjectRole(supabase, userId, String(data.project_id), 'viewer');
+    return data as unknown as CanvasSnapshot;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'getSnapshot', snapshotId });
+    throw new DatabaseError('Failed to load snapshot.');
+  }
+}
+
+/**
+ * Saves the given canvas as a user-named checkpoint.
+ */
+export async function createSnapshot(
+  projectId: string,
+  name: string,
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[]
+): Promise<CanvasSnapshotSummary> {
+  try {
+    await validateOrigin();
+    assertValidId(projectId, 'project');
+    const userId = await getAuthUserId();
+
+    const rateLimitResult = await checkRateLimit(projectRateLimiter, userId);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many requests. Please slow down.');
+    }
+
+    const snapshotName = sanitizeSnapshotName(name);
+    const canvasValidation = validateCanvasData(nodes, edges);
+    if (!canvasValidation.valid) {
+      throw new ValidationError(canvasValidation.error || 'Invalid canvas data');
+    }
+
+    const canvasData: CanvasData = {
+      nodes: canvasValidation.sanitizedNodes!,
+      edges: canvasValidation.sanitizedEdges!,
+    };
+
+    const supabase = await createClient();
+    await requireProjectRole(supabase, userId, projectId, 'editor');
+
+    const { data, error } = await supabase
+      .from('canvas_snapshots')
+      .insert({
+        user_id: userId,
+        project_id: projectId,
+        name: snapshotName,
+        kind: 'manual',
+        canvas_data: canvasData as unknown as Record<string, unknown>,
+        node_count: canvasData.nodes.length,
+        edge_count: canvasData.edges.length,
+      })
+      .select(SNAPSHOT_SUMMARY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      logError(error, { action: 'createSnapshot', userId, projectId });
+      throw new DatabaseError('Failed to save checkpoint.');
+    }
+
+    return data as CanvasSnapshotSummary;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof RateLimitError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'createSnapshot', projectId });
+    throw new DatabaseError('Failed to save checkpoint.');
+  }
+}
+
+/**
+ * Restores a project's canvas to a snapshot.
+ *
+ * The current canvas is saved as a "Before restore" checkpoint first so the
+ * restore itself can be undone from history. The snapshot payload is run back
+ * through validateCanvasData before it is written.
+ */
+export async function restoreSnapshot(projectId: string, snapshotId: string): Promise<CanvasData> {
+  try {
+    await validateOrigin();
+    assertValidId(projectId, 'project');
+    assertValidId(snapshotId, 'snapshot');
+    const userId = await getAuthUserId();
+
+    const rateLimitResult = await checkRateLimit(projectRateLimiter, userId);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many requests. Please slow down.');
+    }
+
+    const supabase = await createClient();
+    await requireProjectRole(supabase, userId, projectId, 'editor');
+
+    const { data: snapshot, error: snapshotError } = await supabase
+      .from('canvas_snapshots')
+      .select('id, project_id, name, created_at, canvas_data')
+      .eq('id', snapshotId)
+      .eq('project_id', projectId)
+      .single();
+
+    if (snapshotError || !snapshot) {
+      if (snapshotError?.code === 'PGRST116') {
+        throw new NotFoundError('Snapshot');
+      }
+      logError(snapshotError, { action: 'restoreSnapshot:load', userId, projectId, snapshotId });
+      throw new DatabaseError('Failed to restore snapshot.');
+    }
+
+    const payload = (snapshot.canvas_data ?? {}) as Partial<CanvasData>;
+    const canvasValidation = validateCanvasData(payload.nodes ?? [], payload.edges ?? []);
+    if (!canvasValidation.valid) {
+      throw new ValidationError(canvasValidation.error || 'Snapshot contains invalid canvas data');
+    }
+
+    const restored: CanvasData = {
+      nodes: canvasValidation.sanitizedNodes!,
+      edges: canvasValidation.sanitizedEdges!,
+    };
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('canvas_data')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      if (projectError?.code === 'PGRST116') {
+        throw new NotFoundError('Project');
+      }
+      logError(projectError, { action: 'restoreSnapshot:project', userId, projectId });
+      throw new DatabaseError('Failed to restore snapshot.');
+    }
+
+    const current = (project.canvas_data ?? { nodes: [], edges: [] }) as CanvasData;
+    const { error: backupError } = await supabase.from('canvas_snapshots').insert({
+      user_id: userId,
+      project_id: projectId,
+      name: 'Before restore',
+      kind: 'manual',
+      canvas_data: current as unknown as Record<string, unknown>,
+      node_count: current.nodes?.length ?? 0,
+      edge_count: current.edges?.length ?? 0,
+    });
+
+    if (backupError) {
+      logError(backupError, { action: 'restoreSnapshot:backup', userId, projectId });
+      throw new DatabaseError('Failed to back up the current canvas before restoring.');
+    }
+
+    const { error: updateError } = await supabase
+      .from('projects')
+      .update({ canvas_data: restored as unknown as Record<string, unknown> })
+      .eq('id', projectId);
+
+    if (updateError) {
+      logError(updateError, { action: 'restoreSnapshot:update', userId, projectId, snapshotId });
+      throw new DatabaseError('Failed to restore snapshot.');
+    }
+
+    return restored;
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof RateLimitError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'restoreSnapshot', projectId, snapshotId });
+    throw new DatabaseError('Failed to restore snapshot.');
+  }
+}
+
+export async function deleteSnapshot(snapshotId: string): Promise<void> {
+  try {
+    await validateOrigin();
+    assertValidId(snapshotId, 'snapshot');
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+
+    const { data: snapshot, error: fetchError } = await supabase
+      .from('canvas_snapshots')
+      .select('project_id')
+      .eq('id', snapshotId)
+      .maybeSingle();
+
+    if (fetchError) {
+      logError(fetchError, { action: 'deleteSnapshot:load', userId, snapshotId });
+      throw new DatabaseError('Failed to delete snapshot.');
+    }
+    if (!snapshot) {
+      throw new NotFoundError('Snapshot');
+    }
+    await requireProjectRole(supabase, userId, String(snapshot.project_id), 'editor');
+
+    const { error } = await supabase
+      .from('canvas_snapshots')
+      .delete()
+      .eq('id', snapshotId);
+
+    if (error) {
+      logError(error, { action: 'deleteSnapshot', userId, snapshotId });
+      throw new DatabaseError('Failed to delete snapshot.');
+    }
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'deleteSnapshot', snapshotId });
+    throw new DatabaseError('Failed to delete snapshot.');
+  }
+}
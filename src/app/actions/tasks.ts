@@ -2,12 +2,20 @@
 
 import { createHash } from 'crypto';
 import { createClient } from '@/lib/supabase/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import {
   AuthenticationError,
+  AuthorizationError,
   DatabaseError,
+  NotFoundError,
   ValidationError,
   logError,
 } from '@/lib/errors';
+import { getMemberWorkspaceIds, getProjectAccess } from '@/lib/workspaces/access';
+import { hasWorkspaceRole } from '@/lib/workspaces/roles';
+import type { WorkspaceRole } from '@/types/workspace';
+import type { FeaturePlanStep } from '@/types/nodes';
+import { FEATURE_PLAN_MAX_STEPS } from '@/lib/ai/featurePlan';
 
 export type TaskStatus = 'todo' | 'in_progress' | 'done' | 'blocked';
 export type LinkableNodeType = 'idea' | 'feature' | 'screen' | 'techStack' | 'prompt' | 'note';
@@ -75,6 +83,60 @@ async function getAuthUserId(): Promise<string> {
   return user.id;
 }
 
+/**
+ * Checks the caller's workspace role on the task's project.
+ * Returns false when the project is not visible to them at all.
+ */
+async function hasProjectRole(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string,
+  minRole: WorkspaceRole
+): Promise<boolean> {
+  const access = await getProjectAccess(supabase, userId, projectId);
+  if (!access) return false;
+  if (!hasWorkspaceRole(access.role, minRole)) {
+    throw new AuthorizationError();
+  }
+  return true;
+}
+
+async function requireProjectEditor(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string
+): Promise<void> {
+  if (!(await hasProjectRole(supabase, userId, projectId, 'editor'))) {
+    throw new ValidationError('Project not found.');
+  }
+}
+
+/** Resolves a task's project and requires the editor role on it */
+async function requireTaskEditor(
+  supabase: SupabaseClient,
+  userId: string,
+  taskId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('task_items')
+    .select('project_id')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingTaskTableError(error)) {
+      throw new ValidationError('Task system is not initialized yet. Run latest database migrations.');
+    }
+    logError(error, { action: 'requireTaskEditor', userId, taskId });
+    throw new DatabaseError('Failed to load task.');
+  }
+  if (!data) {
+    throw new NotFoundError('Task');
+  }
+
+  await requireProjectEditor(supabase, userId, String(data.project_id));
+}
+
 export async function getProjectTaskSummaries(projectIds: string[]): Promise<Record<string, TaskSummary>> {
   try {
     if (projectIds.length === 0) {
@@ -84,11 +146,27 @@ export async function getProjectTaskSummaries(projectIds: string[]): Promise<Rec
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
+    const workspaceIds = await getMemberWorkspaceIds(supabase, userId);
+    const { data: visibleProjects, error: projectsError } = await supabase
+      .from('projects')
+      .select('id')
+      .in('id', projectIds)
+      .in('workspace_id', workspaceIds);
+
+    if (projectsError) {
+      logError(projectsError, { action: 'getProjectTaskSummaries:projects', userId });
+      throw new DatabaseError('Failed to fetch task summaries.');
+    }
+
+    const visibleProjectIds = (visibleProjects ?? []).map((project) => String(project.id));
+    if (visibleProjectIds.length === 0) {
+      return {};
+    }
+
     const { data, error } = await supabase
       .from('task_items')
       .select('project_id,status')
-      .eq('user_id', userId)
-      .in('project_id', projectIds);
+      .in('project_id', visibleProjectIds);
 
     if (error) {
       if (isMissingTaskTableError(error)) {
@@ -100,7 +178,7 @@ export async function getProjectTaskSummaries(projectIds: string[]): Promise<Rec
 
     const summaryMap: Record<string, TaskSummary> = {};
 
-    for (const projectId of projectIds) {
+    for (const projectId of visibleProjectIds) {
       summaryMap[projectId] = { total: 0, open: 0, done: 0 };
     }
 
@@ -137,10 +215,13 @@ export async function getProjectTasks(projectId: string): Promise<TaskItem[]> {
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
+    if (!(await hasProjectRole(supabase, userId, projectId, 'viewer'))) {
+      return [];
+    }
+
     const { data, error } = await supabase
       .from('task_items')
       .select('*')
-      .eq('user_id', userId)
       .eq('project_id', projectId)
       .order('created_at', { ascending: false });
 
@@ -154,7 +235,13 @@ export async function getProjectTasks(projectId: string): Promise<TaskItem[]> {
 
     return (data ?? []) as TaskItem[];
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'getProjectTasks', projectId });
@@ -174,10 +261,13 @@ export async function getNodeTasks(projectId: string, nodeId: string): Promise<T
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
+    if (!(await hasProjectRole(supabase, userId, projectId, 'viewer'))) {
+      return [];
+    }
+
     const { data, error } = await supabase
       .from('task_items')
       .select('*')
-      .eq('user_id', userId)
       .eq('project_id', projectId)
       .eq('node_id', nodeId)
       .order('created_at', { ascending: false });
@@ -192,7 +282,13 @@ export async function getNodeTasks(projectId: string, nodeId: string): Promise<T
 
     return (data ?? []) as TaskItem[];
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'getNodeTasks', projectId, nodeId });
@@ -227,16 +323,7 @@ export async function createTask(input: CreateTaskInput): Promise<TaskItem> {
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('id')
-      .eq('id', projectId)
-      .eq('user_id', userId)
-      .single();
-
-    if (projectError || !project) {
-      throw new ValidationError('Project not found.');
-    }
+    await requireProjectEditor(supabase, userId, projectId);
 
     const row = {
       user_id: userId,
@@ -272,7 +359,13 @@ export async function createTask(input: CreateTaskInput): Promise<TaskItem> {
 
     return data as TaskItem;
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'createTask', projectId: input.projectId, nodeId: input.nodeId });
@@ -288,12 +381,12 @@ export async function deleteTask(taskId: string): Promise<void> {
 
     const userId = await getAuthUserId();
     const supabase = await createClient();
+    await requireTaskEditor(supabase, userId, taskId);
 
     const { error } = await supabase
       .from('task_items')
       .delete()
-      .eq('id', taskId)
-      .eq('user_id', userId);
+      .eq('id', taskId);
 
     if (error) {
       if (isMissingTaskTableError(error)) {
@@ -303,7 +396,13 @@ export async function deleteTask(taskId: string): Promise<void> {
       throw new DatabaseError('Failed to delete task.');
     }
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'deleteTask', taskId });
@@ -323,12 +422,12 @@ export async function updateTaskStatus(taskId: string, status: TaskStatus): Prom
 
     const userId = await getAuthUserId();
     const supabase = await createClient();
+    await requireTaskEditor(supabase, userId, taskId);
 
     const { error } = await supabase
       .from('task_items')
       .update({ status })
-      .eq('id', taskId)
-      .eq('user_id', userId);
+      .eq('id', taskId);
 
     if (error) {
       if (isMissingTaskTableError(error)) {
@@ -338,7 +437,13 @@ export async function updateTaskStatus(taskId: string, status: TaskStatus): Prom
       throw new DatabaseError('Failed to update task status.');
     }
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'updateTaskStatus', taskId });
@@ -372,6 +477,7 @@ export async function updateTaskContent(
 
     const userId = await getAuthUserId();
     const supabase = await createClient();
+    await requireTaskEditor(supabase, userId, taskId);
 
     const patch: Record<string, string | null> = {};
     if (nextTitle !== undefined) patch.title = nextTitle;
@@ -380,8 +486,7 @@ export async function updateTaskContent(
     const { error } = await supabase
       .from('task_items')
       .update(patch)
-      .eq('id', taskId)
-      .eq('user_id', userId);
+      .eq('id', taskId);
 
     if (error) {
       if (isMissingTaskTableError(error)) {
@@ -391,7 +496,13 @@ export async function updateTaskContent(
       throw new DatabaseError('Failed to update task content.');
     }
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'updateTaskContent', taskId });
@@ -410,12 +521,12 @@ export async function saveTaskAutofillMetadata(
 
     const userId = await getAuthUserId();
     const supabase = await createClient();
+    await requireTaskEditor(supabase, userId, taskId);
 
     const { data: existing, error: fetchError } = await supabase
       .from('task_items')
       .select('metadata')
       .eq('id', taskId)
-      .eq('user_id', userId)
       .single();
 
     if (fetchError) {
@@ -431,15 +542,20 @@ export async function saveTaskAutofillMetadata(
     const { error } = await supabase
       .from('task_items')
       .update({ metadata: { ...baseMetadata, autofill } })
-      .eq('id', taskId)
-      .eq('user_id', userId);
+      .eq('id', taskId);
 
     if (error) {
       logError(error, { action: 'saveTaskAutofillMetadata:update', userId, taskId });
       throw new DatabaseError('Failed to save task metadata.');
     }
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'saveTaskAutofillMetadata', taskId });
@@ -487,16 +603,7 @@ export async function syncPromptBreakdownTasks(
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('id')
-      .eq('id', projectId)
-      .eq('user_id', userId)
-      .single();
-
-    if (projectError || !project) {
-      throw new ValidationError('Project not found.');
-    }
+    await requireProjectEditor(supabase, userId, projectId);
 
     const rows = normalized.map((title) => ({
       user_id: userId,
@@ -528,7 +635,13 @@ export async function syncPromptBreakdownTasks(
       throw new DatabaseError('Failed to sync prompt breakdown tasks.');
     }
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'syncPromptBreakdownTasks', projectId, nodeId });
@@ -536,6 +649,121 @@ export async function syncPromptBreakdownTasks(
   }
 }
 
+/**
+ * Pushes a feature's plan steps to the task list, one task per step. Steps
+ * keep their task across re-pushes (keyed by step id), so pushing again
+ * updates titles instead of duplicating. A checked step marks its task done,
+ * but an unchecked step never reopens a task that was already moved on.
+ * Returns the task id for each step id.
+ */
+export async function syncFeaturePlanTasks(
+  projectId: string,
+  nodeId: string,
+  steps: FeaturePlanStep[]
+): Promise<Record<string, string>> {
+  try {
+    if (!projectId?.trim()) {
+      throw new ValidationError('Project ID is required.');
+    }
+    if (!nodeId?.trim()) {
+      throw new ValidationError('Node ID is required.');
+    }
+
+    const normalized = steps.filter(
+      (step) => typeof step?.id === 'string' && typeof step.title === 'string' && step.title.trim()
+    );
+
+    if (normalized.length === 0) {
+      return {};
+    }
+    if (normalized.length > FEATURE_PLAN_MAX_STEPS) {
+      throw new ValidationError(
+        `A plan can push at most ${FEATURE_PLAN_MAX_STEPS} steps; this one has ${normalized.length}.`
+      );
+    }
+
+    const userId = await getAuthUserId();
+    const supabase = await createClient();
+
+    await requireProjectEditor(supabase, userId, projectId);
+
+    const externalRef = (step: FeaturePlanStep) => `feature-plan:${nodeId}:${step.id}`;
+    const { data: existing, error: existingError } = await supabase
+      .from('task_items')
+      .select('external_ref, status')
+      .eq('project_id', projectId)
+      .in('external_ref', normalized.map(externalRef));
+
+    if (existingError) {
+      if (isMissingTaskTableError(existingError)) {
+        throw new ValidationError('Task system is not initialized yet. Run latest database migrations.');
+      }
+      logError(existingError, { action: 'syncFeaturePlanTasks:existing', userId, projectId, nodeId });
+      throw new DatabaseError('Failed to push plan steps to tasks.');
+    }
+
+    // Existing tasks keep their status unless the step was checked off
+    const existingStatus = new Map(
+      ((existing ?? []) as { external_ref: string; status: TaskStatus }[]).map((row) => [row.external_ref, row.status])
+    );
+
+    const rows = normalized.map((step) => ({
+      user_id: userId,
+      project_id: projectId,
+      node_id: nodeId,
+      node_type: 'feature' as LinkableNodeType,
+      link_confidence: 1,
+      title: step.title.trim().slice(0, 180),
+      details: step.details?.trim().slice(0, 5000) || null,
+      status: (step.done ? 'done' : existingStatus.get(externalRef(step)) ?? 'todo') as TaskStatus,
+      source: 'agent',
+      source_agent: 'feature-plan',
+      external_ref: externalRef(step),
+      metadata: {
+        source: 'feature-plan',
+        nodeId,
+        stepId: step.id,
+        files: step.files,
+        estimatedHours: step.estimatedHours,
+      },
+    }));
+
+    const { data, error } = await supabase
+      .from('task_items')
+      .upsert(rows, { onConflict: 'project_id,external_ref' })
+      .select('id, external_ref');
+
+    if (error) {
+      if (isMissingTaskTableError(error)) {
+        throw new ValidationError('Task system is not initialized yet. Run latest database migrations.');
+      }
+      logError(error, { action: 'syncFeaturePlanTasks', userId, projectId, nodeId });
+      throw new DatabaseError('Failed to push plan steps to tasks.');
+    }
+
+    const prefix = `feature-plan:${nodeId}:`;
+    const taskIds: Record<string, string> = {};
+    for (const row of (data ?? []) as { id: string; external_ref: string | null }[]) {
+      if (row.external_ref?.startsWith(prefix)) {
+        taskIds[row.external_ref.slice(prefix.length)] = row.id;
+      }
+    }
+    return taskIds;
+  } catch (error) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
+    logError(error, { action: 'syncFeaturePlanTasks', projectId, nodeId });
+    throw new DatabaseError('Failed to push plan steps to tasks.');
+  }
+}
+
 export async function linkTaskToNode(
   taskId: string,
   nodeId: string,
@@ -554,6 +782,7 @@ export async function linkTaskToNode(
 
     const userId = await getAuthUserId();
     const supabase = await createClient();
+    await requireTaskEditor(supabase, userId, taskId);
 
     const { error } = await supabase
       .from('task_items')
@@ -562,8 +791,7 @@ export async function linkTaskToNode(
         node_type: nodeType,
         link_confidence: 1,
       })
-      .eq('id', taskId)
-      .eq('user_id', userId);
+      .eq('id', taskId);
 
     if (error) {
       if (isMissingTaskTableError(error)) {
@@ -573,7 +801,13 @@ export async function linkTaskToNode(
       throw new DatabaseError('Failed to link task to node.');
     }
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'linkTaskToNode', taskId, nodeId, nodeType });
@@ -1,11 +1,23 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import { AuthenticationError, DatabaseError, ValidationError, logError } from '@/lib/errors';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+  logError,
+} from '@/lib/errors';
+import { validateProjectId } from '@/lib/validation/validators';
+import { requireWorkspaceRole } from '@/lib/workspaces/access';
 import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
 
 export interface UserTemplate {
   id: string;
+  user_id: string;
+  /** Set when the template is shared with a workspace; null for personal templates */
+  workspace_id: string | null;
   name: string;
   description: string | null;
   canvas_data: { nodes: SpexlyNode[]; edges: SpexlyEdge[] };
@@ -20,16 +32,31 @@ async function getAuthUserId(): Promise<string> {
   return user.id;
 }
 
-export async function getUserTemplates(): Promise<UserTemplate[]> {
+function assertValidWorkspaceId(workspaceId: string): void {
+  if (!validateProjectId(workspaceId).valid) {
+    throw new ValidationError('Invalid workspace ID');
+  }
+}
+
+/**
+ * Lists the caller's personal templates, plus the templates shared with
+ * `workspaceId` when one is given.
+ */
+export async function getUserTemplates(workspaceId?: string): Promise<UserTemplate[]> {
   try {
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
-    const { data, error } = await supabase
-      .from('user_templates')
-      .select('*')
-      .eq('user_id', userId)
-      .order('updated_at', { ascending: false });
+    let query = supabase.from('user_templates').select('*');
+    if (workspaceId) {
+      assertValidWorkspaceId(workspaceId);
+      await requireWorkspaceRole(supabase, userId, workspaceId, 'viewer');
+      query = query.or(`and(user_id.eq.${userId},workspace_id.is.null),workspace_id.eq.${workspaceId}`);
+    } else {
+      query = query.eq('user_id', userId).is('workspace_id', null);
+    }
+
+    const { data, error } = await query.order('updated_at', { ascending: false });
 
     if (error) {
       logError(error, { action: 'getUserTemplates', userId });
@@ -38,7 +65,14 @@ export async function getUserTemplates(): Promise<UserTemplate[]> {
 
     return (data ?? []) as UserTemplate[];
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof DatabaseError) throw error;
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof ValidationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
     logError(error, { action: 'getUserTemplates' });
     throw new DatabaseError('Failed to fetch templates.');
   }
@@ -48,7 +82,8 @@ export async function saveUserTemplate(
   name: string,
   description: string | null,
   nodes: SpexlyNode[],
-  edges: SpexlyEdge[]
+  edges: SpexlyEdge[],
+  workspaceId?: string | null
 ): Promise<UserTemplate> {
   try {
     if (!name.trim()) {
@@ -66,10 +101,17 @@ export async function saveUserTemplate(
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
+    // Sharing a template with a workspace requires the editor role there
+    if (workspaceId) {
+      assertValidWorkspaceId(workspaceId);
+      await requireWorkspaceRole(supabase, userId, workspaceId, 'editor');
+    }
+
     const { data, error } = await supabase
       .from('user_templates')
       .insert({
         user_id: userId,
+        workspace_id: workspaceId || null,
         name: name.trim(),
         description: description?.trim() || null,
         canvas_data: { nodes: normalizedNodes, edges },
@@ -84,7 +126,13 @@ export async function saveUserTemplate(
 
     return data as UserTemplate;
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof ValidationError || error instanceof DatabaseError) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof DatabaseError
+    ) {
       throw error;
     }
     logError(error, { action: 'saveUserTemplate' });
@@ -97,10 +145,30 @@ export async function deleteUserTemplate(templateId: string): Promise<void> {
     const userId = await getAuthUserId();
     const supabase = await createClient();
 
+    const { data: template, error: fetchError } = await supabase
+      .from('user_templates')
+      .select('user_id, workspace_id')
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (fetchError) {
+      logError(fetchError, { action: 'deleteUserTemplate:fetch', userId, templateId });
+      throw new DatabaseError('Failed to delete template.');
+    }
+    if (!template) {
+      throw new NotFoundError('Template');
+    }
+
+    // Personal templates belong to their author; shared ones to workspace editors
+    if (template.workspace_id) {
+      await requireWorkspaceRole(supabase, userId, String(template.workspace_id), 'editor');
+    } else if (template.user_id !== userId) {
+      throw new NotFoundError('Template');
+    }
+
     const { error } = await supabase
       .from('user_templates')
       .delete()
-      .eq('user_id', userId)
       .eq('id', templateId);
 
     if (error) {
@@ -108,7 +176,14 @@ export async function deleteUserTemplate(templateId: string): Promise<void> {
       throw new DatabaseError('Failed to delete template.');
     }
   } catch (error) {
-    if (error instanceof AuthenticationError || error instanceof DatabaseError) throw error;
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof NotFoundError ||
+      error instanceof DatabaseError
+    ) {
+      throw error;
+    }
     logError(error, { action: 'deleteUserTemplate', templateId });
     throw new DatabaseError('Failed to delete template.');
   }
@@ -1,6 +1,5 @@
 'use server';
 
-import OpenAI from 'openai';
 import { headers } from 'next/headers';
 import { createClient } from '@/lib/supabase/server';
 import {
@@ -16,6 +15,7 @@ import {
   wizardDailyRateLimiter,
   wizardHourlyRateLimiter,
 } from '@/lib/rate-limit/limiter';
+import { generateJson, getUserAIProvider, isAIAvailable } from '@/lib/ai/llm';
 import type {
   FeaturePriority,
   FeatureStatus,
@@ -23,6 +23,7 @@ import type {
   TargetTool,
   TechCategory,
 } from '@/types/nodes';
+import { validateOrigin } from '@/lib/ai/routeAuth';
 
 const MAX_INPUT_LENGTH = 25000;
 const MAX_OUTPUT_TOKENS = 8000; // Increased to 8000 to prevent JSON truncation
@@ -107,18 +108,6 @@ function isAiEnabled(): boolean {
   return process.env.AI_WIZARD_ENABLED === 'true';
 }
 
-function normalizeModel(model: string): string {
-  const trimmed = model.trim();
-  if (!trimmed) return 'gpt-4.1-mini';
-  if (trimmed === '4.1-mini') return 'gpt-4.1-mini';
-  if (trimmed === '4.1') return 'gpt-4.1';
-  return trimmed;
-}
-
-function getModel(): string {
-  return normalizeModel(process.env.OPENAI_WIZARD_MODEL || process.env.OPENAI_MODEL || 'gpt-4.1-mini');
-}
-
 async function getAuthUserId(): Promise<string> {
   const supabase = await createClient();
   const {
@@ -128,37 +117,6 @@ async function getAuthUserId(): Promise<string> {
   return user.id;
 }
 
-async function validateOrigin(headersList: Headers): Promise<void> {
-  const origin = headersList.get('origin');
-  const referer = headersList.get('referer');
-
-  const allowedOrigins = [
-    'http://localhost:3000',
-    'http://localhost:3001',
-    'https://spexlyapp.com',
-    'https://www.spexlyapp.com',
-    'https://spexly.vercel.app',
-  ];
-
-  if (process.env.NODE_ENV === 'development') {
-    if (origin?.startsWith('http://localhost:') || origin?.startsWith('http://127.0.0.1:')) {
-      return;
-    }
-  }
-
-  if (origin && !allowedOrigins.includes(origin)) {
-    throw new ValidationError('Request origin not allowed');
-  }
-
-  if (!origin && referer) {
-    const refererUrl = new URL(referer);
-    const refererOrigin = `${refererUrl.protocol}//${refererUrl.host}`;
-    if (!allowedOrigins.includes(refererOrigin)) {
-      throw new ValidationError('Request referer not allowed');
-    }
-  }
-}
-
 function clampText(value: string): string {
   return value.trim().slice(0, MAX_TEXT_FIELD);
 }
@@ -167,26 +125,6 @@ function clampList(values: string[], max: number): string[] {
   return values.filter(Boolean).map(clampText).slice(0, max);
 }
 
-function safeParseJson(payload: string): Record<string, unknown> {
-  const cleaned = payload
-    .replace(/```json/gi, '')
-    .replace(/```/g, '')
-    .trim();
-
-  try {
-    return JSON.parse(cleaned);
-  } catch (error) {
-    // Log detailed error info for debugging
-    console.error('JSON Parse Error:', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      payloadLength: payload.length,
-      payloadPreview: payload.substring(0, 200),
-      payloadEnd: payload.substring(Math.max(0, payload.length - 200)),
-    });
-    throw error;
-  }
-}
-
 function sanitizePriority(value: unknown): FeaturePriority {
   return FEATURE_PRIORITIES.has(value as FeaturePriority) ? (value as FeaturePriority) : 'Must';
 }
@@ -491,14 +429,14 @@ function validateInput(input: WizardEnhanceInput): void {
 
 export async function enhanceWizardAnswers(input: WizardEnhanceInput): Promise<WizardEnhanceOutput> {
   try {
-    if (!isAiEnabled() || !process.env.OPENAI_API_KEY) {
+    if (!isAiEnabled()) {
       throw new ValidationError('AI wizard enhancement is disabled.');
     }
 
     validateInput(input);
 
     const headerList = await headers();
-    await validateOrigin(headerList);
+    await validateOrigin();
     const userId = await getAuthUserId();
 
     const identifier = `${userId}:${getClientIp(headerList)}`;
@@ -512,9 +450,16 @@ export async function enhanceWizardAnswers(input: WizardEnhanceInput): Promise<W
       throw new RateLimitError('Daily AI enhancement limit reached. Please try again tomorrow.');
     }
 
-    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    const response = await client.chat.completions.create({
-      model: getModel(),
+    const supabase = await createClient();
+    const preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAIAvailable('wizard', preferredProvider)) {
+      throw new ValidationError('AI wizard enhancement is disabled.');
+    }
+
+    const { data: parsed } = await generateJson({
+      operation: 'wizard',
+      preferredProvider,
+      meter: { supabase, userId },
       messages: [
         {
           role: 'system',
@@ -525,18 +470,10 @@ export async function enhanceWizardAnswers(input: WizardEnhanceInput): Promise<W
           content: buildPrompt(input),
         },
       ],
-      max_tokens: MAX_OUTPUT_TOKENS,
+      maxTokens: MAX_OUTPUT_TOKENS,
       temperature: 0.2,
-      response_format: { type: 'json_object' }, // Force valid JSON output
     });
 
-    const outputText = response.choices[0]?.message?.content?.trim();
-    if (!outputText) {
-      throw new DatabaseError('AI enhancement failed to produce output.');
-    }
-
-    const parsed = safeParseJson(outputText);
-
     const ideaPayload = (parsed.idea ?? {}) as Record<string, unknown>;
     const idea = {
       appName: typeof ideaPayload.appName === 'string' ? clampText(ideaPayload.appName) : clampText(input.appName),
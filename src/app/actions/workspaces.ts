@@ -0,0 +1,574 @@
+'use server';
+
+import { randomBytes } from 'crypto';
+import { createClient } from '@/lib/supabase/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  InvitableWorkspaceRole,
+  PendingInvitation,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceWithRole,
+} from '@/types/workspace';
+import { validateProjectId } from '@/lib/validation/validators';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  DatabaseError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  logError,
+} from '@/lib/errors';
+import { projectRateLimiter, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { ensurePersonalWorkspace, requireWorkspaceRole } from '@/lib/workspaces/access';
+import {
+  INVITATION_TTL_MS,
+  isInvitableRole,
+  isWorkspaceRole,
+  normalizeInviteEmail,
+  sanitizeWorkspaceName,
+  wouldOrphanWorkspace,
+} from '@/lib/workspaces/roles';
+import { validateOrigin } from '@/lib/ai/routeAuth';
+
+const INVITATION_COLUMNS =
+  'id, workspace_id, workspace_name, email, role, token, invited_by, expires_at, accepted_at, created_at';
+
+async function getAuthUser(): Promise<{ id: string; email: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError();
+  return { id: user.id, email: user.email ?? null };
+}
+
+function assertValidId(id: string, label: string): void {
+  const validation = validateProjectId(id);
+  if (!validation.valid) {
+    throw new ValidationError(`Invalid ${label} ID`);
+  }
+}
+
+function isKnownError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof AuthenticationError ||
+    error instanceof AuthorizationError ||
+    error instanceof NotFoundError ||
+    error instanceof RateLimitError ||
+    error instanceof DatabaseError
+  );
+}
+
+async function enforceRateLimit(userId: string): Promise<void> {
+  const rateLimitResult = await checkRateLimit(projectRateLimiter, userId);
+  if (!rateLimitResult.success) {
+    throw new RateLimitError('Too many requests. Please slow down.');
+  }
+}
+
+/**
+ * Lists every workspace the caller belongs to, personal workspace first.
+ */
+export async function getWorkspaces(): Promise<WorkspaceWithRole[]> {
+  try {
+    const { id: userId } = await getAuthUser();
+    const supabase = await createClient();
+    await ensurePersonalWorkspace(supabase, userId);
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces(*)')
+      .eq('user_id', userId);
+
+    if (error) {
+      logError(error, { action: 'getWorkspaces', userId });
+      throw new DatabaseError('Failed to load workspaces.');
+    }
+
+    const workspaces: WorkspaceWithRole[] = [];
+    for (const row of data ?? []) {
+      const workspace = row.workspaces as unknown as Workspace | null;
+      if (!workspace || !isWorkspaceRole(row.role)) continue;
+      workspaces.push({ ...workspace, role: row.role });
+    }
+
+    return workspaces.sort((a, b) => {
+      if (a.is_personal !== b.is_personal) return a.is_personal ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'getWorkspaces' });
+    throw new DatabaseError('Failed to load workspaces.');
+  }
+}
+
+export async function createWorkspace(name: string): Promise<WorkspaceWithRole> {
+  try {
+    await validateOrigin();
+    const { id: userId } = await getAuthUser();
+    await enforceRateLimit(userId);
+
+    const workspaceName = sanitizeWorkspaceName(name);
+    if (!workspaceName) {
+      throw new ValidationError('Workspace name must be between 1 and 60 characters.');
+    }
+
+    const supabase = await createClient();
+    // A plain insert can't read its row back: the creator only becomes a
+    // member (as owner) in the insert trigger
+    const { data, error } = await supabase.rpc('create_workspace', {
+      workspace_name: workspaceName,
+      personal: false,
+    });
+
+    if (error || !data) {
+      logError(error, { action: 'createWorkspace', userId });
+      throw new DatabaseError('Failed to create workspace.');
+    }
+
+    return { ...(data as Workspace), role: 'owner' };
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'createWorkspace' });
+    throw new DatabaseError('Failed to create workspace.');
+  }
+}
+
+export async function renameWorkspace(workspaceId: string, name: string): Promise<void> {
+  try {
+    await validateOrigin();
+    assertValidId(workspaceId, 'workspace');
+    const { id: userId } = await getAuthUser();
+    await enforceRateLimit(userId);
+
+    const workspaceName = sanitizeWorkspaceName(name);
+    if (!workspaceName) {
+      throw new ValidationError('Workspace name must be between 1 and 60 characters.');
+    }
+
+    const supabase = await createClient();
+    await requireWorkspaceRole(supabase, userId, workspaceId, 'owner');
+
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ name: workspaceName })
+      .eq('id', workspaceId);
+
+    if (error) {
+      logError(error, { action: 'renameWorkspace', userId, workspaceId });
+      throw new DatabaseError('Failed to rename workspace.');
+    }
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'renameWorkspace', workspaceId });
+    throw new DatabaseError('Failed to rename workspace.');
+  }
+}
+
+/**
+ * Deletes a team workspace and every project in it. Personal workspaces
+ * cannot be deleted.
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<void> {
+  try {
+    await validateOrigin();
+    assertValidId(workspaceId, 'workspace');
+    const { id: userId } = await getAuthUser();
+    await enforceRateLimit(userId);
+
+    const supabase = await createClient();
+    await requireWorkspaceRole(supabase, userId, workspaceId, 'owner');
+
+    const { data: workspace, error: fetchError } = await supabase
+      .from('workspaces')
+      .select('is_personal')
+      .eq('id', workspaceId)
+      .single();
+
+    if (fetchError || !workspace) {
+      logError(fetchError, { action: 'deleteWorkspace:fetch', userId, workspaceId });
+      throw new DatabaseError('Failed to delete workspace.');
+    }
+    if (workspace.is_personal) {
+      throw new ValidationError('Your personal workspace cannot be deleted.');
+    }
+
+    const { error } = await supabase.from('workspaces').delete().eq('id', workspaceId);
+
+    if (error) {
+      logError(error, { action: 'deleteWorkspace', userId, workspaceId });
+      throw new DatabaseError('Failed to delete workspace.');
+    }
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'deleteWorkspace', workspaceId });
+    throw new DatabaseError('Failed to delete workspace.');
+  }
+}
+
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  try {
+    assertValidId(workspaceId, 'workspace');
+    const { id: userId } = await getAuthUser();
+    const supabase = await createClient();
+    await requireWorkspaceRole(supabase, userId, workspaceId, 'viewer');
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('workspace_id, user_id, email, role, created_at')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logError(error, { action: 'getWorkspaceMembers', userId, workspaceId });
+      throw new DatabaseError('Failed to load workspace members.');
+    }
+
+    return (data ?? []) as WorkspaceMember[];
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'getWorkspaceMembers', workspaceId });
+    throw new DatabaseError('Failed to load workspace members.');
+  }
+}
+
+/** Open (unaccepted) invitations for a workspace. Owners only. */
+export async function getWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+  try {
+    assertValidId(workspaceId, 'workspace');
+    const { id: userId } = await getAuthUser();
+    const supabase = await createClient();
+    await requireWorkspaceRole(supabase, userId, workspaceId, 'owner');
+
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .is('accepted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logError(error, { action: 'getWorkspaceInvitations', userId, workspaceId });
+      throw new DatabaseError('Failed to load invitations.');
+    }
+
+    return (data ?? []) as WorkspaceInvitation[];
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'getWorkspaceInvitations', workspaceId });
+    throw new DatabaseError('Failed to load invitations.');
+  }
+}
+
+/**
+ * Invites an email address to a workspace as editor or viewer.
+ * No email is sent: the invitee sees the invitation on their dashboard after
+ * signing in with that address. Re-inviting replaces any previous open
+ * invitation.
+ */
+export async function inviteToWorkspace(
+  workspaceId: string,
+  email: string,
+  role: InvitableWorkspaceRole
+): Promise<WorkspaceInvitation> {
+  try {
+    await validateOrigin();
+    assertValidId(workspaceId, 'workspace');
+    const { id: userId, email: inviterEmail } = await getAuthUser();
+    await enforceRateLimit(userId);
+
+    const emailNormalized = normalizeInviteEmail(email);
+    if (!emailNormalized) {
+      throw new ValidationError('Please enter a valid email address.');
+    }
+    if (!isInvitableRole(role)) {
+      throw new ValidationError('Invalid role.');
+    }
+    if (inviterEmail && inviterEmail.toLowerCase() === emailNormalized) {
+      throw new ValidationError('You are already a member of this workspace.');
+    }
+
+    const supabase = await createClient();
+    await requireWorkspaceRole(supabase, userId, workspaceId, 'owner');
+
+    const { data: workspace, error: workspaceError } = await supabase
+      .from('workspaces')
+      .select('name, is_personal')
+      .eq('id', workspaceId)
+      .single();
+
+    if (workspaceError || !workspace) {
+      logError(workspaceError, { action: 'inviteToWorkspace:workspace', userId, workspaceId });
+      throw new DatabaseError('Failed to send invitation.');
+    }
+    if (workspace.is_personal) {
+      throw new ValidationError('Create a team workspace to invite collaborators.');
+    }
+
+    const { data: existingMember } = await supabase
+      .from('workspace_members')
+      .select('user_id')
+      .eq('workspace_id', workspaceId)
+      .eq('email', emailNormalized)
+      .maybeSingle();
+
+    if (existingMember) {
+      throw new ValidationError('That person is already a member of this workspace.');
+    }
+
+    const { error: clearError } = await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('email_normalized', emailNormalized)
+      .is('accepted_at', null);
+
+    if (clearError) {
+      logError(clearError, { action: 'inviteToWorkspace:clear', userId, workspaceId });
+      throw new DatabaseError('Failed to send invitation.');
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .insert({
+        workspace_id: workspaceId,
+        workspace_name: String(workspace.name),
+        email: emailNormalized,
+        email_normalized: emailNormalized,
+        role,
+        token: randomBytes(24).toString('base64url'),
+        invited_by: userId,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS).toISOString(),
+      })
+      .select(INVITATION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      logError(error, { action: 'inviteToWorkspace', userId, workspaceId });
+      throw new DatabaseError('Failed to send invitation.');
+    }
+
+    return data as WorkspaceInvitation;
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'inviteToWorkspace', workspaceId });
+    throw new DatabaseError('Failed to send invitation.');
+  }
+}
+
+export async function revokeInvitation(invitationId: string): Promise<void> {
+  try {
+    await validateOrigin();
+    assertValidId(invitationId, 'invitation');
+    const { id: userId } = await getAuthUser();
+    const supabase = await createClient();
+
+    const { data: invitation, error: fetchError } = await supabase
+      .from('workspace_invitations')
+      .select('workspace_id')
+      .eq('id', invitationId)
+      .maybeSingle();
+
+    if (fetchError) {
+      logError(fetchError, { action: 'revokeInvitation:fetch', userId, invitationId });
+      throw new DatabaseError('Failed to revoke invitation.');
+    }
+    if (!invitation) {
+      throw new NotFoundError('Invitation');
+    }
+    await requireWorkspaceRole(supabase, userId, String(invitation.workspace_id), 'owner');
+
+    const { error } = await supabase.from('workspace_invitations').delete().eq('id', invitationId);
+
+    if (error) {
+      logError(error, { action: 'revokeInvitation', userId, invitationId });
+      throw new DatabaseError('Failed to revoke invitation.');
+    }
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'revokeInvitation', invitationId });
+    throw new DatabaseError('Failed to revoke invitation.');
+  }
+}
+
+/** Open, unexpired invitations addressed to the caller's email */
+export async function getPendingInvitations(): Promise<PendingInvitation[]> {
+  try {
+    const { id: userId, email } = await getAuthUser();
+    if (!email) return [];
+
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .select('id, token, workspace_id, workspace_name, role, expires_at')
+      .eq('email_normalized', email.toLowerCase())
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logError(error, { action: 'getPendingInvitations', userId });
+      throw new DatabaseError('Failed to load invitations.');
+    }
+
+    return (data ?? []) as PendingInvitation[];
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'getPendingInvitations' });
+    throw new DatabaseError('Failed to load invitations.');
+  }
+}
+
+/**
+ * Joins the workspace an invitation points to. Returns the workspace ID.
+ */
+export async function acceptInvitation(token: string): Promise<string> {
+  try {
+    await validateOrigin();
+    if (typeof token !== 'string' || !/^[A-Za-z0-9_-]{16,64}$/.test(token)) {
+      throw new ValidationError('Invalid invitation.');
+    }
+
+    const { id: userId } = await getAuthUser();
+    await enforceRateLimit(userId);
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc('accept_workspace_invitation', {
+      invite_token: token,
+    });
+
+    if (error || !data) {
+      if (error?.code === 'P0002') {
+        throw new ValidationError('This invitation is invalid or has expired.');
+      }
+      if (error?.code === '42501') {
+        throw new AuthorizationError('This invitation was sent to a different email address.');
+      }
+      logError(error, { action: 'acceptInvitation', userId });
+      throw new DatabaseError('Failed to accept invitation.');
+    }
+
+    return String(data);
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'acceptInvitation' });
+    throw new DatabaseError('Failed to accept invitation.');
+  }
+}
+
+async function loadMembersForChange(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string
+): Promise<Pick<WorkspaceMember, 'user_id' | 'role'>[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('user_id, role')
+    .eq('workspace_id', workspaceId);
+
+  if (error) {
+    logError(error, { action: 'loadMembersForChange', userId, workspaceId });
+    throw new DatabaseError('Failed to update workspace members.');
+  }
+
+  return (data ?? []) as Pick<WorkspaceMember, 'user_id' | 'role'>[];
+}
+
+export async function updateMemberRole(
+  workspaceId: string,
+  memberUserId: string,
+  role: WorkspaceRole
+): Promise<void> {
+  try {
+    await validateOrigin();
+    assertValidId(workspaceId, 'workspace');
+    assertValidId(memberUserId, 'member');
+    if (!isWorkspaceRole(role)) {
+      throw new ValidationError('Invalid role.');
+    }
+
+    const { id: userId } = await getAuthUser();
+    await enforceRateLimit(userId);
+    const supabase = await createClient();
+    await requireWorkspaceRole(supabase, userId, workspaceId, 'owner');
+
+    const members = await loadMembersForChange(supabase, userId, workspaceId);
+    if (!members.some((member) => member.user_id === memberUserId)) {
+      throw new NotFoundError('Member');
+    }
+    if (wouldOrphanWorkspace(members, memberUserId, role)) {
+      throw new ValidationError('A workspace needs at least one owner.');
+    }
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberUserId);
+
+    if (error) {
+      // The database keeps the last owner if another change raced this one
+      if (error.code === '23514') {
+        throw new ValidationError('A workspace needs at least one owner.');
+      }
+      logError(error, { action: 'updateMemberRole', userId, workspaceId, memberUserId });
+      throw new DatabaseError('Failed to update member role.');
+    }
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'updateMemberRole', workspaceId, memberUserId });
+    throw new DatabaseError('Failed to update member role.');
+  }
+}
+
+/**
+ * Removes a member. Owners can remove anyone; other members can only remove
+ * themselves (leave). The last owner can do neither.
+ */
+export async function removeMember(workspaceId: string, memberUserId: string): Promise<void> {
+  try {
+    await validateOrigin();
+    assertValidId(workspaceId, 'workspace');
+    assertValidId(memberUserId, 'member');
+
+    const { id: userId } = await getAuthUser();
+    await enforceRateLimit(userId);
+    const supabase = await createClient();
+    await requireWorkspaceRole(
+      supabase,
+      userId,
+      workspaceId,
+      memberUserId === userId ? 'viewer' : 'owner'
+    );
+
+    const members = await loadMembersForChange(supabase, userId, workspaceId);
+    if (!members.some((member) => member.user_id === memberUserId)) {
+      throw new NotFoundError('Member');
+    }
+    if (wouldOrphanWorkspace(members, memberUserId, null)) {
+      throw new ValidationError('A workspace needs at least one owner.');
+    }
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberUserId);
+
+    if (error) {
+      if (error.code === '23514') {
+        throw new ValidationError('A workspace needs at least one owner.');
+      }
+      logError(error, { action: 'removeMember', userId, workspaceId, memberUserId });
+      throw new DatabaseError('Failed to remove member.');
+    }
+  } catch (error) {
+    if (isKnownError(error)) throw error;
+    logError(error, { action: 'removeMember', workspaceId, memberUserId });
+    throw new DatabaseError('Failed to remove member.');
+  }
+}
@@ -0,0 +1,83 @@
+import { RateLimitError, ValidationError, logError } from '@/lib/errors';
+import { AICancelledError, getUserAIProvider, isAIAvailable } from '@/lib/ai/llm';
+import { processWithConcurrency } from '@/lib/ai/concurrency';
+import { createNdjsonResponse } from '@/lib/ai/ndjson';
+import { parseEnhancementTarget, type EnhancementTarget } from '@/lib/ai/nodeEnhancement';
+import { aiRouteErrorResponse, authorizeAIRoute } from '@/lib/ai/routeAuth';
+import { streamNodeEnhancement } from '@/lib/ai/streamEnhancement';
+import { batchEnhanceHourlyRateLimiter, checkRateLimit, getClientIp } from '@/lib/rate-limit/limiter';
+import type { BatchEnhanceStreamEvent } from '@/types/ai';
+
+const MAX_CONCURRENT = 3;
+const MAX_BATCH_SIZE = 50;
+
+/**
+ * Enhances many nodes with bounded concurrency, streaming per-node progress.
+ * Body: { items: [{ nodeId, kind, input }], projectId? }. A failed node does
+ * not stop the batch; a client disconnect stops starting new nodes and
+ * abandons the ones in flight.
+ */
+export async function POST(request: Request) {
+  let prepared;
+  try {
+    const { supabase, userId } = await authorizeAIRoute(request);
+    const body = await request.json().catch(() => null);
+    const rawItems: unknown[] = Array.isArray(body?.items) ? body.items : [];
+    if (rawItems.length === 0 || rawItems.length > MAX_BATCH_SIZE) {
+      throw new ValidationError(`Send between 1 and ${MAX_BATCH_SIZE} nodes to enhance.`);
+    }
+
+    const items: { nodeId: string; target: EnhancementTarget }[] = [];
+    for (const raw of rawItems) {
+      const nodeId = (raw as { nodeId?: unknown })?.nodeId;
+      const target = parseEnhancementTarget(raw);
+      if (typeof nodeId !== 'string' || !nodeId || !target) {
+        throw new ValidationError('Invalid node in batch.');
+      }
+      items.push({ nodeId, target });
+    }
+
+    const identifier = `${userId}:${getClientIp(request.headers)}`;
+    const rateCheck = await checkRateLimit(batchEnhanceHourlyRateLimiter, identifier);
+    if (!rateCheck.success) {
+      throw new RateLimitError('Batch enhancement limit reached. Try again later.');
+    }
+
+    const preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAIAvailable('enhance', preferredProvider)) {
+      throw new ValidationError('AI provider not configured.');
+    }
+
+    const projectId = typeof body.projectId === 'string' ? body.projectId : undefined;
+    prepared = { items, preferredProvider, meter: { supabase, userId, projectId } };
+  } catch (error) {
+    return aiRouteErrorResponse(error, 'api/ai/enhance/batch');
+  }
+
+  const { items, preferredProvider, meter } = prepared;
+  return createNdjsonResponse<BatchEnhanceStreamEvent>(async (send) => {
+    await processWithConcurrency(
+      items,
+      async ({ nodeId, target }) => {
+        send({ type: 'node-start', nodeId });
+        try {
+          const data = await streamNodeEnhancement(target, {
+            preferredProvider,
+            meter,
+            signal: request.signal,
+            onPartial: (partial) => send({ type: 'node-partial', nodeId, data: partial }),
+          });
+          send({ type: 'node-done', nodeId, data });
+        } catch (error) {
+          if (!(error instanceof AICancelledError)) {
+            logError(error, { action: 'api/ai/enhance/batch', nodeId });
+          }
+          send({ type: 'node-error', nodeId, error: error instanceof Error ? error.message : 'Enhancement failed' });
+        }
+      },
+      MAX_CONCURRENT,
+      request.signal
+    );
+    send({ type: 'done' });
+  });
+}
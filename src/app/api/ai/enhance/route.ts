@@ -0,0 +1,51 @@
+import { ValidationError, logError } from '@/lib/errors';
+import { AICancelledError, getUserAIProvider, isAIAvailable } from '@/lib/ai/llm';
+import { createNdjsonResponse } from '@/lib/ai/ndjson';
+import { parseEnhancementTarget } from '@/lib/ai/nodeEnhancement';
+import { aiRouteErrorResponse, authorizeAIRoute } from '@/lib/ai/routeAuth';
+import { streamNodeEnhancement } from '@/lib/ai/streamEnhancement';
+import type { EnhanceStreamEvent } from '@/types/ai';
+
+/**
+ * Enhances one feature or screen node, streaming the fields as the model
+ * writes them. Body: { kind, input, projectId? }.
+ */
+export async function POST(request: Request) {
+  let prepared;
+  try {
+    const { supabase, userId } = await authorizeAIRoute(request);
+    const body = await request.json().catch(() => null);
+    const target = parseEnhancementTarget(body);
+    if (!target) {
+      throw new ValidationError('Nothing to enhance.');
+    }
+
+    const preferredProvider = await getUserAIProvider(supabase, userId);
+    if (!isAIAvailable('enhance', preferredProvider)) {
+      throw new ValidationError('AI provider not configured.');
+    }
+
+    const projectId = typeof body.projectId === 'string' ? body.projectId : undefined;
+    prepared = { target, preferredProvider, meter: { supabase, userId, projectId } };
+  } catch (error) {
+    return aiRouteErrorResponse(error, 'api/ai/enhance');
+  }
+
+  const { target, preferredProvider, meter } = prepared;
+  return createNdjsonResponse<EnhanceStreamEvent>(async (send) => {
+    try {
+      const data = await streamNodeEnhancement(target, {
+        preferredProvider,
+        meter,
+        signal: request.signal,
+        onPartial: (partial) => send({ type: 'partial', data: partial }),
+      });
+      send({ type: 'done', data });
+    } catch (error) {
+      if (!(error instanceof AICancelledError)) {
+        logError(error, { action: 'api/ai/enhance', kind: target.kind });
+      }
+      throw error;
+    }
+  });
+}
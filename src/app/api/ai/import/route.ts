@@ -0,0 +1,48 @@
+import { ValidationError, logError } from '@/lib/errors';
+import { AICancelledError } from '@/lib/ai/llm';
+import { createNdjsonResponse } from '@/lib/ai/ndjson';
+import { aiRouteErrorResponse, authorizeAIRoute } from '@/lib/ai/routeAuth';
+import { importDocumentWithAI, smartImportDocument } from '@/app/actions/import';
+import type { ExistingNodeSummary } from '@/types/nodes';
+import type { ImportProgressHooks, ImportStreamEvent } from '@/types/ai';
+
+/**
+ * Runs a document import, streaming progress while the model analyses the
+ * document. Body: { text, projectId?, existingNodes? }; with existingNodes
+ * the document is merged into the canvas (smart import). Rate limits and
+ * validation are those of the import actions.
+ */
+export async function POST(request: Request) {
+  let body;
+  try {
+    await authorizeAIRoute(request);
+    body = await request.json().catch(() => null);
+    if (typeof body?.text !== 'string') {
+      throw new ValidationError('Document text is required.');
+    }
+  } catch (error) {
+    return aiRouteErrorResponse(error, 'api/ai/import');
+  }
+
+  const text: string = body.text;
+  const projectId = typeof body.projectId === 'string' ? body.projectId : undefined;
+  const existingNodes: ExistingNodeSummary[] | null = Array.isArray(body.existingNodes) ? body.existingNodes : null;
+
+  return createNdjsonResponse<ImportStreamEvent<unknown>>(async (send) => {
+    const hooks: ImportProgressHooks = {
+      signal: request.signal,
+      onProgress: (progress) => send({ type: 'progress', ...progress }),
+    };
+    try {
+      const result = existingNodes
+        ? await smartImportDocument(text, existingNodes, projectId, hooks)
+        : await importDocumentWithAI(text, projectId, hooks);
+      send({ type: 'done', result });
+    } catch (error) {
+      if (!(error instanceof AICancelledError)) {
+        logError(error, { action: 'api/ai/import' });
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { GitHubOAuth } from '@/lib/integrations/github';
+import { BaseIntegration } from '@/lib/integrations/base';
+import { consumeOAuthState } from '@/lib/integrations/oauthState';
+
+/**
+ * GitHub OAuth callback handler.
+ * Exchanges authorization code for access token and saves to database.
+ *
+ * Flow:
+ * 1. User clicks "Connect GitHub" → redirects to GitHub OAuth
+ * 2. User authorizes → GitHub redirects here with code
+ * 3. We exchange code for token → save to integrations table
+ * 4. Redirect back to dashboard
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const error = searchParams.get('error');
+
+    // Handle OAuth errors
+    if (error) {
+      return NextResponse.redirect(
+        new URL(`/dashboard?error=${encodeURIComponent(error)}`, request.url)
+      );
+    }
+
+    if (!code) {
+      return NextResponse.redirect(
+        new URL('/dashboard?error=missing_code', request.url)
+      );
+    }
+
+    // Verify user is authenticated
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.redirect(new URL('/login?error=unauthorized', request.url));
+    }
+
+    // The state must match the nonce issued to this browser, to prevent CSRF attacks
+    if (!(await consumeOAuthState('github', state))) {
+      return NextResponse.redirect(
+        new URL('/dashboard?error=invalid_state', request.url)
+      );
+    }
+
+    // Exchange code for token
+    const oauth = new GitHubOAuth();
+    const auth = await oauth.exchangeCodeForToken(code);
+
+    // Save to database
+    await BaseIntegration.saveForUser('github', user.id, auth);
+
+    // Redirect to success page
+    return NextResponse.redirect(
+      new URL('/dashboard?success=github_connected', request.url)
+    );
+  } catch (error) {
+    console.error('GitHub OAuth callback error:', error);
+    return NextResponse.redirect(
+      new URL(
+        `/dashboard?error=${encodeURIComponent(
+          error instanceof Error ? error.message : 'oauth_failed'
+        )}`,
+        request.url
+      )
+    );
+  }
+}
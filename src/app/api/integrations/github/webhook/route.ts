@@ -0,0 +1,165 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { logError } from '@/lib/errors';
+import {
+  applyGitHubStateToNodes,
+  isSameGitHubRepo,
+  parseGitHubIssueStateEvent,
+  shouldCompleteLinkedTasks,
+} from '@/lib/integrations/githubSync';
+import { getProjectAccess } from '@/lib/workspaces/access';
+import { hasWorkspaceRole } from '@/lib/workspaces/roles';
+import type { CanvasChangeBatch } from '@/types/collaboration';
+import type { SpexlyNode } from '@/types/nodes';
+
+/** Client id on realtime batches sent by this route, so canvases can tell them apart */
+const WEBHOOK_CLIENT_ID = 'github-webhook';
+
+const HOOK_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isValidSignature(rawBody: string, signature: string, secret: string): boolean {
+  const expected = `sha256=${createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex')}`;
+  const provided = signature.trim();
+
+  if (!provided || expected.length !== provided.length) {
+    return false;
+  }
+
+  return timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(provided, 'utf8'));
+}
+
+/**
+ * GitHub webhook: when a synced issue is closed or reopened, moves the
+ * feature's status to match, completes its linked tasks on close, and
+ * broadcasts the edit to anyone with the canvas open.
+ *
+ * Each user configures their repositories with their own URL
+ * (`?hook=<id>`) and secret from the GitHub sync modal, with the Issues
+ * event and content type application/json. Events only touch issues synced
+ * from the same repository, in projects the hook's owner can edit.
+ */
+export async function POST(request: Request) {
+  const hookId = new URL(request.url).searchParams.get('hook');
+  if (!hookId || !HOOK_ID_PATTERN.test(hookId)) {
+    return Response.json({ ok: false, error: 'Unknown webhook' }, { status: 404 });
+  }
+
+  const signature = request.headers.get('x-hub-signature-256')?.trim();
+  if (!signature) {
+    return Response.json({ ok: false, error: 'Missing signature' }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: hook, error: hookError } = await supabase
+    .from('github_webhooks')
+    .select('user_id,secret')
+    .eq('id', hookId)
+    .maybeSingle();
+
+  if (hookError) {
+    logError(hookError, { action: 'github-webhook:hook', hookId });
+    return Response.json({ ok: false, error: 'Failed to load webhook' }, { status: 500 });
+  }
+  if (!hook) {
+    return Response.json({ ok: false, error: 'Unknown webhook' }, { status: 404 });
+  }
+
+  const rawBody = await request.text();
+  if (!isValidSignature(rawBody, signature, hook.secret)) {
+    return Response.json({ ok: false, error: 'Invalid signature' }, { status: 401 });
+  }
+
+  // Pings and other event types are acknowledged and ignored
+  if (request.headers.get('x-github-event') !== 'issues') {
+    return Response.json({ ok: true, ignored: true }, { status: 200 });
+  }
+
+  let event;
+  try {
+    event = parseGitHubIssueStateEvent(JSON.parse(rawBody));
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid payload' }, { status: 400 });
+  }
+
+  if (!event) {
+    return Response.json({ ok: true, ignored: true }, { status: 200 });
+  }
+
+  try {
+    const { data: link } = await supabase
+      .from('github_issue_links')
+      .select('project_id,node_id,repo')
+      .eq('issue_id', event.issueId)
+      .maybeSingle();
+
+    // Issue ids are global, but the event must also come from the repository the issue was synced to
+    if (!link || !isSameGitHubRepo(link.repo, event.repo)) {
+      return Response.json({ ok: true, ignored: true }, { status: 200 });
+    }
+
+    const access = await getProjectAccess(supabase, hook.user_id, link.project_id);
+    if (!access || !hasWorkspaceRole(access.role, 'editor')) {
+      return Response.json({ ok: true, ignored: true }, { status: 200 });
+    }
+
+    if (shouldCompleteLinkedTasks(event.state, event.stateReason)) {
+      const { error: tasksError } = await supabase
+        .from('task_items')
+        .update({ status: 'done' })
+        .eq('project_id', link.project_id)
+        .eq('node_id', link.node_id)
+        .neq('status', 'done');
+
+      if (tasksError) {
+        throw tasksError;
+      }
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id,canvas_data')
+      .eq('id', link.project_id)
+      .single();
+
+    if (projectError || !project) {
+      return Response.json({ ok: false, error: 'Project not found' }, { status: 404 });
+    }
+
+    const canvasData = (project.canvas_data ?? {}) as { nodes?: SpexlyNode[] };
+    const update = applyGitHubStateToNodes(
+      Array.isArray(canvasData.nodes) ? canvasData.nodes : [],
+      link.node_id,
+      event.state,
+      event.stateReason
+    );
+
+    if (!update) {
+      return Response.json({ ok: true, unchanged: true }, { status: 200 });
+    }
+
+    const { error: updateError } = await supabase
+      .from('projects')
+      .update({ canvas_data: { ...canvasData, nodes: update.nodes } })
+      .eq('id', project.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    // Open canvases merge this like a collaborator's edit, so their autosave doesn't revert it
+    const batch: CanvasChangeBatch = {
+      clientId: WEBHOOK_CLIENT_ID,
+      timestamp: Date.now(),
+      changes: [{ kind: 'node-data', nodeId: link.node_id, fields: update.fields }],
+    };
+    await supabase
+      .channel(`canvas:${project.id}`, { config: { private: true } })
+      .httpSend('canvas-changes', batch);
+
+    return Response.json({ ok: true, updated: Object.keys(update.fields) }, { status: 200 });
+  } catch (error) {
+    logError(error, { action: 'github-webhook:post', hookId, issueId: event.issueId });
+    return Response.json({ ok: false, error: 'Failed to apply GitHub update' }, { status: 500 });
+  }
+}
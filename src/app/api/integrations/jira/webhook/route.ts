@@ -0,0 +1,127 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { logError } from '@/lib/errors';
+import {
+  applyJiraStatusToNodes,
+  JIRA_WEBHOOK_MAX_AGE_MS,
+  parseJiraIssueStatusEvent,
+} from '@/lib/integrations/jiraSync';
+import type { CanvasChangeBatch } from '@/types/collaboration';
+import type { SpexlyNode } from '@/types/nodes';
+
+/** Client id on realtime batches sent by this route, so canvases can tell them apart */
+const WEBHOOK_CLIENT_ID = 'jira-webhook';
+
+function isValidSignature(rawBody: string, signature: string, secret: string): boolean {
+  const expected = `sha256=${createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex')}`;
+  const provided = signature.trim();
+
+  if (!provided || expected.length !== provided.length) {
+    return false;
+  }
+
+  return timingSafeEqual(Buffer.from(expected, 'utf8'), Buffer.from(provided, 'utf8'));
+}
+
+/**
+ * Jira webhook: when an exported issue changes status, moves the feature's
+ * status to match its status category and broadcasts the edit to anyone
+ * with the canvas open.
+ *
+ * Configure in Jira under System → WebHooks with the "Issue updated" event
+ * and JIRA_WEBHOOK_SECRET as the secret.
+ */
+export async function POST(request: Request) {
+  const webhookSecret = process.env.JIRA_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    return Response.json({ ok: false, error: 'Jira webhook not configured' }, { status: 503 });
+  }
+
+  const signature = request.headers.get('x-hub-signature')?.trim();
+  if (!signature) {
+    return Response.json({ ok: false, error: 'Missing signature' }, { status: 401 });
+  }
+
+  const rawBody = await request.text();
+  if (!isValidSignature(rawBody, signature, webhookSecret)) {
+    return Response.json({ ok: false, error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let event;
+  try {
+    event = parseJiraIssueStatusEvent(JSON.parse(rawBody));
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid payload' }, { status: 400 });
+  }
+
+  // Other events (comments, field edits, new issues) are acknowledged and ignored
+  if (!event) {
+    return Response.json({ ok: true, ignored: true }, { status: 200 });
+  }
+
+  if (Math.abs(Date.now() - event.timestamp) > JIRA_WEBHOOK_MAX_AGE_MS) {
+    return Response.json({ ok: false, error: 'Stale webhook' }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+
+  try {
+    const { data: link } = await supabase
+      .from('jira_issue_links')
+      .select('project_id,node_id')
+      .eq('site_url', event.siteUrl)
+      .eq('issue_id', event.issueId)
+      .maybeSingle();
+
+    // Child issues, issues created outside Spexly and other sites' issues have no link
+    if (!link) {
+      return Response.json({ ok: true, ignored: true }, { status: 200 });
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id,canvas_data')
+      .eq('id', link.project_id)
+      .single();
+
+    if (projectError || !project) {
+      return Response.json({ ok: false, error: 'Project not found' }, { status: 404 });
+    }
+
+    const canvasData = (project.canvas_data ?? {}) as { nodes?: SpexlyNode[] };
+    const update = applyJiraStatusToNodes(
+      Array.isArray(canvasData.nodes) ? canvasData.nodes : [],
+      link.node_id,
+      event.statusCategory
+    );
+
+    if (!update) {
+      return Response.json({ ok: true, unchanged: true }, { status: 200 });
+    }
+
+    const { error: updateError } = await supabase
+      .from('projects')
+      .update({ canvas_data: { ...canvasData, nodes: update.nodes } })
+      .eq('id', project.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    // Open canvases merge this like a collaborator's edit, so their autosave doesn't revert it
+    const batch: CanvasChangeBatch = {
+      clientId: WEBHOOK_CLIENT_ID,
+      timestamp: Date.now(),
+      changes: [{ kind: 'node-data', nodeId: link.node_id, fields: update.fields }],
+    };
+    await supabase
+      .channel(`canvas:${project.id}`, { config: { private: true } })
+      .httpSend('canvas-changes', batch);
+
+    return Response.json({ ok: true, updated: Object.keys(update.fields) }, { status: 200 });
+  } catch (error) {
+    logError(error, { action: 'jira-webhook:post', siteUrl: event.siteUrl, issueId: event.issueId });
+    return Response.json({ ok: false, error: 'Failed to apply Jira update' }, { status: 500 });
+  }
+}
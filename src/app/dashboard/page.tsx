@@ -2,9 +2,15 @@ import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { getProjects } from '@/app/actions/projects';
 import { getProjectTaskSummaries } from '@/app/actions/tasks';
+import { getPendingInvitations, getWorkspaces } from '@/app/actions/workspaces';
+import { getAIProviderSettings } from '@/app/actions/aiSettings';
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 
-export default async function DashboardPage() {
+interface Props {
+  searchParams: Promise<{ workspace?: string }>;
+}
+
+export default async function DashboardPage({ searchParams }: Props) {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
 
@@ -12,13 +18,32 @@ export default async function DashboardPage() {
     redirect('/login');
   }
 
-  const projects = await getProjects();
+  const { workspace: requestedWorkspaceId } = await searchParams;
+  const workspaces = await getWorkspaces();
+  const activeWorkspace = workspaces.find((w) => w.id === requestedWorkspaceId) ?? workspaces[0];
+
+  const projects = await getProjects(activeWorkspace?.id);
   const taskSummaries = await getProjectTaskSummaries(projects.map((project) => project.id));
+  const pendingInvitations = await getPendingInvitations();
+  const aiSettings = await getAIProviderSettings();
 
   const userName =
     user.user_metadata?.full_name ??
     user.user_metadata?.name ??
     (user.email ? user.email.split('@')[0].replace(/[._-]/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase()) : '');
 
-  return <DashboardLayout projects={projects} userEmail={user.email ?? ''} userName={userName} taskSummaries={taskSummaries} />;
+  return (
+    <DashboardLayout
+      key={activeWorkspace?.id}
+      projects={projects}
+      userEmail={user.email ?? ''}
+      userName={userName}
+      taskSummaries={taskSummaries}
+      userId={user.id}
+      workspaces={workspaces}
+      activeWorkspaceId={activeWorkspace?.id ?? ''}
+      pendingInvitations={pendingInvitations}
+      aiSettings={aiSettings}
+    />
+  );
 }
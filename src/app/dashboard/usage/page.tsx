@@ -0,0 +1,17 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { getAIUsageSummary } from '@/app/actions/aiUsage';
+import { AIUsageOverview } from '@/components/dashboard/AIUsageOverview';
+
+export default async function AIUsagePage() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const summary = await getAIUsageSummary();
+
+  return <AIUsageOverview summary={summary} />;
+}
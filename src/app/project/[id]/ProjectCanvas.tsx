@@ -5,55 +5,28 @@ import { ReactFlowProvider } from '@xyflow/react';
 import { Canvas } from '@/components/canvas/Canvas';
 import { useCanvasStore } from '@/store/canvasStore';
 import { useAutoSave } from '@/hooks/useAutoSave';
+import { canEditWorkspace } from '@/lib/workspaces/roles';
+import { decodeNodeData } from '@/lib/input/decodeNodeData';
 import type { Project } from '@/types/project';
-import type { SpexlyNode } from '@/types/nodes';
-
-const HTML_ENTITY_RE = /&(?:amp|lt|gt|quot|#x27|#x2F);/;
-
-/** Decode HTML entities that were incorrectly baked into stored data. */
-function decodeHtmlEntities(str: string): string {
-  if (!HTML_ENTITY_RE.test(str)) return str;
-  let prev = '';
-  let result = str;
-  // Repeatedly decode until stable (handles multi-pass encoding like &amp;#x27;)
-  while (result !== prev) {
-    prev = result;
-    result = result
-      .replace(/&#x2F;/g, '/')
-      .replace(/&#x27;/g, "'")
-      .replace(/&quot;/g, '"')
-      .replace(/&gt;/g, '>')
-      .replace(/&lt;/g, '<')
-      .replace(/&amp;/g, '&');
-  }
-  return result;
-}
-
-/** Walk all string fields in node data and decode HTML entities. */
-function decodeNodeData(nodes: SpexlyNode[]): SpexlyNode[] {
-  return nodes.map((node) => {
-    const data: Record<string, unknown> = { ...node.data };
-    for (const key of Object.keys(data)) {
-      if (typeof data[key] === 'string') {
-        data[key] = decodeHtmlEntities(data[key]);
-      }
-    }
-    return { ...node, data } as SpexlyNode;
-  });
-}
+import type { WorkspaceRole } from '@/types/workspace';
 
 interface Props {
   project: Project;
+  role: WorkspaceRole | null;
 }
 
-export function ProjectCanvas({ project }: Props) {
+export function ProjectCanvas({ project, role }: Props) {
+  // Viewers get the canvas without editing or saving
+  const readOnly = !canEditWorkspace(role);
   const loadProject = useCanvasStore((s) => s.loadProject);
   const clearCanvas = useCanvasStore((s) => s.clearCanvas);
+  const setReadOnly = useCanvasStore((s) => s.setReadOnly);
 
   useEffect(() => {
     const { nodes, edges } = project.canvas_data;
     const cleanNodes = decodeNodeData(nodes ?? []);
     loadProject(project.id, project.name, cleanNodes, edges ?? []);
+    setReadOnly(readOnly);
 
     return () => {
       clearCanvas();
@@ -62,11 +35,11 @@ export function ProjectCanvas({ project }: Props) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [project.id]);
 
-  useAutoSave();
+  useAutoSave(!readOnly);
 
   return (
     <ReactFlowProvider>
-      <Canvas />
+      <Canvas readOnly={readOnly} workspaceId={project.workspace_id} />
     </ReactFlowProvider>
   );
 }
@@ -1,6 +1,6 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
-import { getProject } from '@/app/actions/projects';
+import { getProject, getProjectRole } from '@/app/actions/projects';
 import { ProjectCanvas } from './ProjectCanvas';
 
 interface Props {
@@ -22,5 +22,7 @@ export default async function ProjectPage({ params }: Props) {
     redirect('/dashboard');
   }
 
-  return <ProjectCanvas project={project} />;
+  const role = await getProjectRole(id);
+
+  return <ProjectCanvas project={project} role={role} />;
 }
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next';
+import { cache } from 'react';
+import { notFound } from 'next/navigation';
+import { getSharedCanvas } from '@/app/actions/shareLinks';
+import { SharedCanvasView } from '@/components/canvas/SharedCanvasView';
+
+interface Props {
+  params: Promise<{ token: string }>;
+}
+
+// Metadata and page share one lookup so a visit is only counted once
+const loadSharedCanvas = cache(getSharedCanvas);
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { token } = await params;
+  const shared = await loadSharedCanvas(token);
+
+  return {
+    title: shared ? `${shared.projectName} - Shared on Spexly` : 'Link unavailable - Spexly',
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharedCanvasPage({ params }: Props) {
+  const { token } = await params;
+  const shared = await loadSharedCanvas(token);
+
+  if (!shared) {
+    notFound();
+  }
+
+  return <SharedCanvasView shared={shared} />;
+}
@@ -1,33 +1,39 @@
 'use client';
 
-import { useState, useMemo } from 'react';
-import { X, Sparkles, Loader2, Check, AlertTriangle } from 'lucide-react';
+import { useState, useMemo, useRef } from 'react';
+import { X, Sparkles, Loader2, Check, AlertTriangle, Ban } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
-import { batchEnhanceFeatures, batchEnhanceScreens } from '@/app/actions/batchEnhanceNodes';
-import { updateCanvasData } from '@/app/actions/projects';
+import { reviewChangeset } from '@/store/changesetStore';
+import type { EnhancementTarget } from '@/lib/ai/nodeEnhancement';
+import { createChangeset, proposeEnhancementChange, type AIChangeset, type NodeChange } from '@/lib/ai/changeset';
+import { isAbortError, streamBatchEnhance } from '@/lib/ai/streamClient';
+import type { SpexlyNode } from '@/types/nodes';
 
 interface BatchEnhanceModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type EnhanceStatus = 'pending' | 'enhancing' | 'done' | 'failed';
+type EnhanceStatus = 'pending' | 'enhancing' | 'done' | 'failed' | 'cancelled';
 
 interface NodeEnhanceState {
   nodeId: string;
   name: string;
   type: 'feature' | 'screen';
   status: EnhanceStatus;
+  /** Fields received so far while enhancing */
+  fields?: number;
   error?: string;
 }
 
 export function BatchEnhanceModal({ isOpen, onClose }: BatchEnhanceModalProps) {
   const nodes = useCanvasStore((s) => s.nodes);
-  const updateNodeData = useCanvasStore((s) => s.updateNodeData);
 
   const [phase, setPhase] = useState<'select' | 'running' | 'done'>('select');
   const [nodeStates, setNodeStates] = useState<NodeEnhanceState[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [changeset, setChangeset] = useState<AIChangeset | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const enhanceable = useMemo(() => {
     return nodes
@@ -53,119 +59,132 @@ export function BatchEnhanceModal({ isOpen, onClose }: BatchEnhanceModalProps) {
     setPhase('select');
     setNodeStates([]);
     setError(null);
+    setChangeset(null);
     onClose();
   };
 
+  const handleReview = () => {
+    if (changeset) reviewChangeset(changeset);
+    handleClose();
+  };
+
   const handleStart = async () => {
     setPhase('running');
     setError(null);
 
-    const allStates: NodeEnhanceState[] = enhanceable.map((n) => ({
-      ...n,
-      status: 'enhancing' as EnhanceStatus,
-    }));
-    setNodeStates(allStates);
-
-    // Build inputs from current node data
-    const featureInputs = enhanceable
-      .filter((item) => item.type === 'feature')
-      .map((item) => {
-        const node = nodes.find((n) => n.id === item.nodeId);
-        if (!node || node.type !== 'feature') return null;
-        return {
-          nodeId: item.nodeId,
-          featureName: node.data.featureName,
-          summary: node.data.summary,
-          problem: node.data.problem,
-          userStory: node.data.userStory,
-          acceptanceCriteria: Array.isArray(node.data.acceptanceCriteria) ? node.data.acceptanceCriteria : [],
-          technicalConstraints: node.data.technicalConstraints,
-        };
-      })
-      .filter((x): x is NonNullable<typeof x> => x !== null);
+    // Build requests from current node data, remembering each node as it was
+    // so proposed changes are diffed against what the AI saw
+    const originals = new Map<string, SpexlyNode>();
+    const items: (EnhancementTarget & { nodeId: string })[] = [];
+    for (const item of enhanceable) {
+      const node = nodes.find((n) => n.id === item.nodeId);
+      if (node?.type === 'feature') {
+        originals.set(node.id, node);
+        items.push({
+          nodeId: node.id,
+          kind: 'feature',
+          input: {
+            featureName: node.data.featureName,
+            summary: node.data.summary,
+            problem: node.data.problem,
+            userStory: node.data.userStory,
+            acceptanceCriteria: Array.isArray(node.data.acceptanceCriteria) ? node.data.acceptanceCriteria : [],
+            technicalConstraints: node.data.technicalConstraints,
+          },
+        });
+      } else if (node?.type === 'screen') {
+        originals.set(node.id, node);
+        items.push({
+          nodeId: node.id,
+          kind: 'screen',
+          input: {
+            screenName: node.data.screenName,
+            purpose: node.data.purpose,
+            keyElements: Array.isArray(node.data.keyElements) ? node.data.keyElements : [],
+            userActions: Array.isArray(node.data.userActions) ? node.data.userActions : [],
+            states: Array.isArray(node.data.states) ? node.data.states : [],
+          },
+        });
+      }
+    }
 
-    const screenInputs = enhanceable
-      .filter((item) => item.type === 'screen')
-      .map((item) => {
-        const node = nodes.find((n) => n.id === item.nodeId);
-        if (!node || node.type !== 'screen') return null;
-        return {
-          nodeId: item.nodeId,
-          screenName: node.data.screenName,
-          purpose: node.data.purpose,
-          keyElements: Array.isArray(node.data.keyElements) ? node.data.keyElements : [],
-          userActions: Array.isArray(node.data.userActions) ? node.data.userActions : [],
-          states: Array.isArray(node.data.states) ? node.data.states : [],
-        };
-      })
-      .filter((x): x is NonNullable<typeof x> => x !== null);
+    setNodeStates(enhanceable.map((n) => ({ ...n, status: 'pending' as EnhanceStatus })));
+    const setNodeState = (nodeId: string, patch: Partial<NodeEnhanceState>) =>
+      setNodeStates((prev) => prev.map((n) => (n.nodeId === nodeId ? { ...n, ...patch } : n)));
 
-    try {
-      // Run features and screens in parallel
-      const [featureResults, screenResults] = await Promise.all([
-        featureInputs.length > 0 ? batchEnhanceFeatures(featureInputs) : Promise.resolve([]),
-        screenInputs.length > 0 ? batchEnhanceScreens(screenInputs) : Promise.resolve([]),
-      ]);
+    // Only finished enhancements are proposed; nothing is written until review
+    const nodeChanges: NodeChange[] = [];
+    const propose = (nodeId: string, enhancement: Record<string, unknown>) => {
+      const item = items.find((i) => i.nodeId === nodeId);
+      const original = originals.get(nodeId);
+      if (!item || !original) return;
+      const change = proposeEnhancementChange(original, item.kind, enhancement);
+      if (change) nodeChanges.push(change);
+    };
 
-      const allResults = [...featureResults, ...screenResults];
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      // Apply results to store, only filling empty fields for main fields
-      const finalStates = allStates.map((state) => {
-        const result = allResults.find((r) => r.nodeId === state.nodeId);
-        if (!result) return { ...state, status: 'failed' as EnhanceStatus, error: 'No result returned' };
-
-        if (result.success && result.data) {
-          const node = nodes.find((n) => n.id === result.nodeId);
-          if (node) {
-            const existing = node.data as Record<string, unknown>;
-            const filtered: Record<string, unknown> = {};
-            for (const [key, value] of Object.entries(result.data)) {
-              const current = existing[key];
-              const isEmpty =
-                current === undefined ||
-                current === null ||
-                current === '' ||
-                (Array.isArray(current) && current.length === 0);
-              // Only fill main fields if empty; always update AI-specific fields
-              const aiFields = ['aiContext', 'implementationSteps', 'codeReferences', 'testingRequirements', 'relatedFiles', 'technicalConstraints', 'componentHierarchy'];
-              if (aiFields.includes(key) || isEmpty) {
-                filtered[key] = value;
-              }
-            }
-            updateNodeData(result.nodeId, filtered);
+    try {
+      await streamBatchEnhance(items, {
+        projectId: useCanvasStore.getState().projectId ?? undefined,
+        signal: controller.signal,
+        onEvent: (event) => {
+          switch (event.type) {
+            case 'node-start':
+              setNodeState(event.nodeId, { status: 'enhancing', fields: 0 });
+              break;
+            case 'node-partial':
+              setNodeState(event.nodeId, { fields: Object.keys(event.data).length });
+              break;
+            case 'node-done':
+              propose(event.nodeId, event.data);
+              setNodeState(event.nodeId, { status: 'done' });
+              break;
+            case 'node-error':
+              setNodeState(event.nodeId, { status: 'failed', error: event.error });
+              break;
+            case 'error':
+              setError(event.error);
+              break;
           }
-          return { ...state, status: 'done' as EnhanceStatus };
-        }
-        return { ...state, status: 'failed' as EnhanceStatus, error: result.error };
+        },
       });
-
-      setNodeStates(finalStates);
-
-      // Auto-save to Supabase
-      const { projectId, nodes: currentNodes, edges: currentEdges } = useCanvasStore.getState();
-      if (projectId) {
-        useCanvasStore.getState().setSaveStatus(true);
-        await updateCanvasData(projectId, currentNodes, currentEdges);
-        useCanvasStore.getState().setSaveStatus(false);
-      }
     } catch (err) {
-      // Handle rate limit or auth errors
-      const message = err instanceof Error ? err.message : 'Enhancement failed';
-      setError(message);
-      setNodeStates((prev) =>
-        prev.map((n) => ({
-          ...n,
-          status: 'failed' as EnhanceStatus,
-          error: message,
-        }))
-      );
+      // Handle rate limit or auth errors; a cancel is not an error
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'Enhancement failed');
+      }
+    } finally {
+      abortRef.current = null;
     }
 
+    const cancelled = controller.signal.aborted;
+    setNodeStates((prev) =>
+      prev.map((n) =>
+        n.status === 'pending' || n.status === 'enhancing'
+          ? { ...n, status: cancelled ? 'cancelled' : 'failed', error: cancelled ? undefined : 'No result returned' }
+          : n
+      )
+    );
+
+    setChangeset(
+      nodeChanges.length > 0
+        ? createChangeset('batchEnhance', `Enhance ${nodeChanges.length} node${nodeChanges.length !== 1 ? 's' : ''}`, {
+            nodeChanges,
+          })
+        : null
+    );
     setPhase('done');
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const enhanced = nodeStates.filter((n) => n.status === 'done').length;
   const failed = nodeStates.filter((n) => n.status === 'failed').length;
+  const cancelled = nodeStates.filter((n) => n.status === 'cancelled').length;
   const total = nodeStates.length;
   const progress = total > 0 ? ((enhanced + failed) / total) * 100 : 0;
 
@@ -265,9 +284,20 @@ export function BatchEnhanceModal({ isOpen, onClose }: BatchEnhanceModalProps) {
                       <span className="h-3 w-3 rounded-full border border-slate-600" />
                     )}
                     <span className="text-slate-300 truncate">{item.name || 'Unnamed'}</span>
+                    {item.status === 'enhancing' && item.fields ? (
+                      <span className="ml-auto text-slate-500">
+                        {item.fields} field{item.fields !== 1 ? 's' : ''}
+                      </span>
+                    ) : null}
                   </div>
                 ))}
               </div>
+              <button
+                onClick={handleCancel}
+                className="w-full rounded-lg border border-white/10 bg-slate-800 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 transition-colors"
+              >
+                Stop and keep finished nodes
+              </button>
             </div>
           )}
 
@@ -275,13 +305,14 @@ export function BatchEnhanceModal({ isOpen, onClose }: BatchEnhanceModalProps) {
           {phase === 'done' && (
             <div className="space-y-4">
               <div className="text-center py-4">
-                {failed === 0 && enhanced > 0 ? (
+                {failed === 0 && cancelled === 0 && enhanced > 0 ? (
                   <Check size={32} className="mx-auto mb-3 text-emerald-400" />
                 ) : (
                   <AlertTriangle size={32} className="mx-auto mb-3 text-amber-400" />
                 )}
                 <p className="text-sm text-slate-200">
                   {enhanced} enhanced{failed > 0 ? `, ${failed} failed` : ''}
+                  {cancelled > 0 ? `, ${cancelled} cancelled` : ''}
                 </p>
               </div>
 
@@ -298,6 +329,7 @@ export function BatchEnhanceModal({ isOpen, onClose }: BatchEnhanceModalProps) {
                     {item.status === 'failed' && (
                       <AlertTriangle size={12} className="text-red-400" />
                     )}
+                    {item.status === 'cancelled' && <Ban size={12} className="text-slate-500" />}
                     <span className="text-slate-300 truncate">{item.name || 'Unnamed'}</span>
                     {item.error && (
                       <span className="text-red-400 ml-auto truncate max-w-[200px]">
@@ -308,12 +340,21 @@ export function BatchEnhanceModal({ isOpen, onClose }: BatchEnhanceModalProps) {
                 ))}
               </div>
 
-              <button
-                onClick={handleClose}
-                className="w-full rounded-lg border border-white/10 bg-slate-800 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 transition-colors"
-              >
-                Close
-              </button>
+              {changeset ? (
+                <button
+                  onClick={handleReview}
+                  className="w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400"
+                >
+                  Review changes
+                </button>
+              ) : (
+                <button
+                  onClick={handleClose}
+                  className="w-full rounded-lg border border-white/10 bg-slate-800 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 transition-colors"
+                >
+                  Close
+                </button>
+              )}
             </div>
           )}
         </div>
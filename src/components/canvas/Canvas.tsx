@@ -1,50 +1,42 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   ReactFlow,
   Background,
   BackgroundVariant,
   MiniMap,
   Controls,
-  type NodeTypes,
-  type DefaultEdgeOptions,
+  useReactFlow,
 } from '@xyflow/react';
 
 import { useCanvasStore } from '@/store/canvasStore';
 import { useTaskStore } from '@/store/taskStore';
+import { useMilestoneStore } from '@/store/milestoneStore';
+import { useSearchStore } from '@/store/searchStore';
+import { useCanvasCollaboration } from '@/hooks/useCanvasCollaboration';
+import { useLinearStatusSync } from '@/hooks/useLinearStatusSync';
 import { Toolbar } from './Toolbar';
 import { DocumentImportModal } from './DocumentImportModal';
+import { FigmaImportModal } from './FigmaImportModal';
 import { TemplatesModal } from './TemplatesModal';
 import { ProgressDashboard } from '@/components/dashboard/ProgressDashboard';
 import { TaskPanel } from '@/components/canvas/TaskPanel';
+import { MilestoneBoard } from './MilestoneBoard';
 import { NodeDetailSidebar } from './NodeDetailSidebar';
 import { BatchEnhanceModal } from './BatchEnhanceModal';
 import { KeyboardShortcuts } from './KeyboardShortcuts';
-import { GRID_SNAP, CANVAS_BG_COLOR, CANVAS_DOT_COLOR, EDGE_COLOR } from '@/lib/constants';
-
-import IdeaNode from '@/components/nodes/IdeaNode';
-import FeatureNode from '@/components/nodes/FeatureNode';
-import ScreenNode from '@/components/nodes/ScreenNode';
-import TechStackNode from '@/components/nodes/TechStackNode';
-import PromptNode from '@/components/nodes/PromptNode';
-import NoteNode from '@/components/nodes/NoteNode';
-
-// Must be defined OUTSIDE the component to prevent re-registration on every render
-const nodeTypes: NodeTypes = {
-  idea: IdeaNode,
-  feature: FeatureNode,
-  screen: ScreenNode,
-  techStack: TechStackNode,
-  prompt: PromptNode,
-  note: NoteNode,
-};
-
-const defaultEdgeOptions: DefaultEdgeOptions = {
-  type: 'smoothstep',
-  animated: true,
-  style: { stroke: EDGE_COLOR, strokeWidth: 1.5 },
-};
+import { VersionHistoryPanel } from './VersionHistoryPanel';
+import { SpecLintPanel } from './SpecLintPanel';
+import { CanvasChatPanel } from './CanvasChatPanel';
+import { ChangesetReviewModal } from './ChangesetReviewModal';
+import { ShareLinksModal } from './ShareLinksModal';
+import { PeerCursors } from './PeerCursors';
+import { CollaborationConflicts } from './CollaborationConflicts';
+import { CanvasSearch } from './CanvasSearch';
+import { DependencyAnalysisProvider } from './DependencyAnalysisContext';
+import { nodeTypes, edgeTypes, defaultEdgeOptions, minimapNodeColor } from './flowConfig';
+import { GRID_SNAP, CANVAS_BG_COLOR, CANVAS_DOT_COLOR } from '@/lib/constants';
 
 function isInputFocused(): boolean {
   const active = document.activeElement;
@@ -58,7 +50,14 @@ function isInputFocused(): boolean {
   );
 }
 
-export function Canvas() {
+interface CanvasProps {
+  /** Workspace viewers can pan, zoom and inspect but not change the canvas */
+  readOnly?: boolean;
+  /** Workspace that owns the project; templates can be shared with it */
+  workspaceId?: string;
+}
+
+export function Canvas({ readOnly = false, workspaceId }: CanvasProps) {
   const nodes = useCanvasStore((s) => s.nodes);
   const edges = useCanvasStore((s) => s.edges);
   const onNodesChange = useCanvasStore((s) => s.onNodesChange);
@@ -72,24 +71,48 @@ export function Canvas() {
   const setSidebarNodeId = useCanvasStore((s) => s.setSidebarNodeId);
   const projectId = useCanvasStore((s) => s.projectId);
   const loadTasks = useTaskStore((s) => s.loadTasks);
+  const loadMilestones = useMilestoneStore((s) => s.loadMilestones);
+  const { screenToFlowPosition } = useReactFlow();
+  const { updateCursor } = useCanvasCollaboration(projectId);
+  useLinearStatusSync(!readOnly);
 
-  // Batch-load all tasks for the project once
+  // Batch-load all tasks and milestones for the project once
   useEffect(() => {
     if (projectId) {
       void loadTasks(projectId);
+      void loadMilestones(projectId);
     }
-  }, [projectId, loadTasks]);
+  }, [projectId, loadTasks, loadMilestones]);
 
   const [isDashboardOpen, setIsDashboardOpen] = useState(false);
   const [isTaskPanelOpen, setIsTaskPanelOpen] = useState(false);
+  const [isMilestoneBoardOpen, setIsMilestoneBoardOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSpecLintOpen, setIsSpecLintOpen] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
   const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isFigmaImportOpen, setIsFigmaImportOpen] = useState(false);
   const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
   const [isBatchEnhanceOpen, setIsBatchEnhanceOpen] = useState(false);
   const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
   const resetLayout = useCanvasStore((s) => s.resetLayout);
+  const setSearchOpen = useSearchStore((s) => s.setOpen);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === '?' && !isInputFocused()) {
+        e.preventDefault();
+        setIsShortcutsOpen((prev) => !prev);
+      }
+
+      if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
+        e.preventDefault();
+        setSearchOpen(true);
+      }
+
+      if (readOnly) return;
+
       if ((e.key === 'Delete' || e.key === 'Backspace') && !isInputFocused()) {
         e.preventDefault();
         deleteSelected();
@@ -104,86 +127,112 @@ export function Canvas() {
         e.preventDefault();
         redo();
       }
-
-      if (e.key === '?' && !isInputFocused()) {
-        e.preventDefault();
-        setIsShortcutsOpen((prev) => !prev);
-      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [deleteSelected, undo, redo]);
-
-  const minimapNodeColor = useCallback((node: { type?: string }) => {
-    const colors: Record<string, string> = {
-      idea: '#A78BFA',
-      feature: '#60A5FA',
-      screen: '#34D399',
-      techStack: '#FBBF24',
-      prompt: '#F472B6',
-      note: '#94A3B8',
-    };
-    return colors[node.type || ''] || '#94A3B8';
-  }, []);
+  }, [deleteSelected, undo, redo, readOnly, setSearchOpen]);
 
   const isEmpty = nodes.length === 0;
 
   return (
-    <div className="h-screen w-screen" style={{ backgroundColor: CANVAS_BG_COLOR }}>
+    <div
+      className="h-screen w-screen"
+      style={{ backgroundColor: CANVAS_BG_COLOR }}
+      onMouseMove={(e) => updateCursor(screenToFlowPosition({ x: e.clientX, y: e.clientY }))}
+      onMouseLeave={() => updateCursor(null)}
+    >
       <Toolbar
         isDashboardOpen={isDashboardOpen}
         isTaskPanelOpen={isTaskPanelOpen}
-        onToggleDashboard={() => setIsDashboardOpen((prev) => !prev)}
+        isMilestoneBoardOpen={isMilestoneBoardOpen}
+        isHistoryOpen={isHistoryOpen}
+        isSpecLintOpen={isSpecLintOpen}
+        isChatOpen={isChatOpen}
+        onToggleDashboard={() => {
+          setIsHistoryOpen(false);
+          setIsSpecLintOpen(false);
+          setIsChatOpen(false);
+          setIsDashboardOpen((prev) => !prev);
+        }}
         onToggleTaskPanel={() => setIsTaskPanelOpen((prev) => !prev)}
+        onToggleMilestoneBoard={() => setIsMilestoneBoardOpen((prev) => !prev)}
+        onToggleHistory={() => {
+          setIsDashboardOpen(false);
+          setIsSpecLintOpen(false);
+          setIsChatOpen(false);
+          setIsHistoryOpen((prev) => !prev);
+        }}
+        onToggleSpecLint={() => {
+          setIsDashboardOpen(false);
+          setIsHistoryOpen(false);
+          setIsChatOpen(false);
+          setIsSpecLintOpen((prev) => !prev);
+        }}
+        onToggleChat={() => {
+          setIsDashboardOpen(false);
+          setIsHistoryOpen(false);
+          setIsSpecLintOpen(false);
+          setIsChatOpen((prev) => !prev);
+        }}
+        onOpenSearch={() => setSearchOpen(true)}
+        onOpenShare={() => setIsShareOpen(true)}
         onOpenImport={() => setIsImportOpen(true)}
+        onOpenFigmaImport={() => setIsFigmaImportOpen(true)}
         onOpenTemplates={() => setIsTemplatesOpen(true)}
         onResetLayout={resetLayout}
         onOpenBatchEnhance={() => setIsBatchEnhanceOpen(true)}
         onToggleShortcuts={() => setIsShortcutsOpen((prev) => !prev)}
       />
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
-        nodeTypes={nodeTypes}
-        defaultEdgeOptions={defaultEdgeOptions}
-        snapToGrid
-        snapGrid={GRID_SNAP}
-        defaultViewport={{ x: 200, y: 300, zoom: 1 }}
-        selectionOnDrag
-        multiSelectionKeyCode="Shift"
-        deleteKeyCode={null}
-        colorMode="dark"
-        proOptions={{ hideAttribution: true }}
-        minZoom={0.3}
-        maxZoom={2}
-      >
-        <Background
-          variant={BackgroundVariant.Dots}
-          gap={20}
-          size={1}
-          color={CANVAS_DOT_COLOR}
-        />
-        <MiniMap
-          position="bottom-right"
-          style={{
-            backgroundColor: '#0F172A',
-            border: '1px solid rgba(255,255,255,0.1)',
-          }}
-          maskColor="rgba(15, 23, 42, 0.7)"
-          nodeColor={minimapNodeColor}
-        />
-        <Controls
-          position="bottom-left"
-          style={{
-            backgroundColor: '#1E293B',
-            border: '1px solid rgba(255,255,255,0.1)',
-          }}
-        />
-      </ReactFlow>
+      <DependencyAnalysisProvider>
+        <ReactFlow
+          nodes={nodes}
+          edges={edges}
+          onNodesChange={onNodesChange}
+          onEdgesChange={onEdgesChange}
+          onConnect={onConnect}
+          nodesDraggable={!readOnly}
+          nodesConnectable={!readOnly}
+          edgesFocusable={!readOnly}
+          nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
+          defaultEdgeOptions={defaultEdgeOptions}
+          snapToGrid
+          snapGrid={GRID_SNAP}
+          defaultViewport={{ x: 200, y: 300, zoom: 1 }}
+          selectionOnDrag
+          multiSelectionKeyCode="Shift"
+          deleteKeyCode={null}
+          colorMode="dark"
+          proOptions={{ hideAttribution: true }}
+          minZoom={0.3}
+          maxZoom={2}
+        >
+          <Background
+            variant={BackgroundVariant.Dots}
+            gap={20}
+            size={1}
+            color={CANVAS_DOT_COLOR}
+          />
+          <MiniMap
+            position="bottom-right"
+            style={{
+              backgroundColor: '#0F172A',
+              border: '1px solid rgba(255,255,255,0.1)',
+            }}
+            maskColor="rgba(15, 23, 42, 0.7)"
+            nodeColor={minimapNodeColor}
+          />
+          <PeerCursors />
+          <Controls
+            position="bottom-left"
+            style={{
+              backgroundColor: '#1E293B',
+              border: '1px solid rgba(255,255,255,0.1)',
+            }}
+          />
+        </ReactFlow>
+      </DependencyAnalysisProvider>
 
       {/* Empty state */}
       {isEmpty && (
@@ -220,6 +269,16 @@ export function Canvas() {
         </div>
       )}
 
+      {readOnly && (
+        <div className="pointer-events-none absolute bottom-6 left-1/2 z-10 -translate-x-1/2 rounded-full border border-white/10 bg-slate-900/90 px-4 py-1.5 text-xs text-slate-300">
+          View only &mdash; ask a workspace owner for editor access to make changes
+        </div>
+      )}
+
+      <MilestoneBoard isOpen={isMilestoneBoardOpen} onClose={() => setIsMilestoneBoardOpen(false)} />
+      <CollaborationConflicts />
+      <CanvasSearch />
+
       <NodeDetailSidebar
         isOpen={!!sidebarNodeId}
         onClose={() => setSidebarNodeId(null)}
@@ -228,14 +287,37 @@ export function Canvas() {
         isOpen={isDashboardOpen}
         onClose={() => setIsDashboardOpen(false)}
       />
+      <VersionHistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      />
+      <SpecLintPanel
+        isOpen={isSpecLintOpen}
+        onClose={() => setIsSpecLintOpen(false)}
+      />
+      <CanvasChatPanel
+        isOpen={isChatOpen}
+        onClose={() => setIsChatOpen(false)}
+      />
       <TaskPanel
         projectId={projectId}
         isOpen={isTaskPanelOpen}
         onClose={() => setIsTaskPanelOpen(false)}
       />
+      <ShareLinksModal
+        projectId={projectId}
+        isOpen={isShareOpen}
+        onClose={() => setIsShareOpen(false)}
+      />
       <DocumentImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
-      <TemplatesModal isOpen={isTemplatesOpen} onClose={() => setIsTemplatesOpen(false)} />
+      <FigmaImportModal isOpen={isFigmaImportOpen} onClose={() => setIsFigmaImportOpen(false)} />
+      <TemplatesModal
+        isOpen={isTemplatesOpen}
+        onClose={() => setIsTemplatesOpen(false)}
+        workspaceId={workspaceId}
+      />
       <BatchEnhanceModal isOpen={isBatchEnhanceOpen} onClose={() => setIsBatchEnhanceOpen(false)} />
+      <ChangesetReviewModal />
       <KeyboardShortcuts isOpen={isShortcutsOpen} onClose={() => setIsShortcutsOpen(false)} />
     </div>
   );
@@ -0,0 +1,292 @@
+'use client';
+
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { Loader2, MessageSquare, Send, X } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { chatWithCanvas } from '@/app/actions/canvasChat';
+import {
+  buildCanvasChatContext,
+  buildProposedChangesUpdate,
+  describeProposedChange,
+  resolveProposedChanges,
+  type ProposedChange,
+} from '@/lib/ai/canvasChat';
+import { countChangesetItems, createChangeset, proposeImportChanges } from '@/lib/ai/changeset';
+import { reviewChangeset } from '@/store/changesetStore';
+import { showError } from '@/store/toastStore';
+
+interface CanvasChatPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ChatEntry {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  changes: ProposedChange[];
+  /** Indexes into `changes` the user has unticked */
+  rejected: number[];
+  changeStatus: 'pending' | 'applied' | 'dismissed';
+}
+
+const STARTER_QUESTIONS = [
+  'Which Must features have no screen?',
+  'What should we build first?',
+  'Draft an onboarding feature with its screens',
+];
+
+function ChangesetReview({
+  entry,
+  readOnly,
+  onToggle,
+  onApply,
+  onDismiss,
+}: {
+  entry: ChatEntry;
+  readOnly: boolean;
+  onToggle: (index: number) => void;
+  onApply: () => void;
+  onDismiss: () => void;
+}) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const applicable = new Set(resolveProposedChanges(entry.changes, nodes));
+  const pending = entry.changeStatus === 'pending' && !readOnly;
+  const selectedCount = entry.changes.filter((change, i) => applicable.has(change) && !entry.rejected.includes(i)).length;
+
+  return (
+    <div className="mt-2 rounded-lg border border-violet-400/30 bg-violet-400/5 p-2">
+      <div className="mb-1.5 text-[10px] font-semibold uppercase tracking-wider text-violet-300">
+        Proposed changes
+        {entry.changeStatus === 'applied' && ' · applied'}
+        {entry.changeStatus === 'dismissed' && ' · dismissed'}
+      </div>
+      <ul className="space-y-1">
+        {entry.changes.map((change, index) => {
+          const stale = !applicable.has(change);
+          return (
+            <li key={index}>
+              <label className={`flex items-start gap-2 text-xs ${stale ? 'text-slate-500 line-through' : 'text-slate-300'}`}>
+                <input
+                  type="checkbox"
+                  className="mt-0.5"
+                  checked={!stale && !entry.rejected.includes(index)}
+                  disabled={!pending || stale}
+                  onChange={() => onToggle(index)}
+                />
+                {describeProposedChange(change, nodes, entry.changes)}
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+      {pending && (
+        <div className="mt-2 flex items-center justify-end gap-2">
+          <button onClick={onDismiss} className="px-2 py-1 text-xs text-slate-400 hover:text-slate-200">
+            Dismiss
+          </button>
+          <button
+            onClick={onApply}
+            disabled={selectedCount === 0}
+            className="rounded border border-violet-400/40 bg-violet-400/10 px-2 py-1 text-xs text-violet-200 hover:bg-violet-400/20 disabled:opacity-40"
+          >
+            Review {selectedCount} {selectedCount === 1 ? 'change' : 'changes'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Chat about the canvas; the assistant's proposed edits are applied only after review */
+export function CanvasChatPanel({ isOpen, onClose }: CanvasChatPanelProps) {
+  const projectId = useCanvasStore((s) => s.projectId);
+  const readOnly = useCanvasStore((s) => s.readOnly);
+  const [entries, setEntries] = useState<ChatEntry[]>([]);
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const nextId = useRef(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // A conversation belongs to one project
+  useEffect(() => {
+    setEntries([]);
+  }, [projectId]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [entries, isSending]);
+
+  const updateEntry = (id: number, update: Partial<ChatEntry>) => {
+    setEntries((prev) => prev.map((entry) => (entry.id === id ? { ...entry, ...update } : entry)));
+  };
+
+  const send = async (text: string) => {
+    const question = text.trim();
+    if (!question || isSending) return;
+
+    const userEntry: ChatEntry = {
+      id: nextId.current++,
+      role: 'user',
+      content: question,
+      changes: [],
+      rejected: [],
+      changeStatus: 'pending',
+    };
+    const history = [...entries, userEntry];
+    setEntries(history);
+    setInput('');
+    setIsSending(true);
+
+    try {
+      const { nodes, edges } = useCanvasStore.getState();
+      const result = await chatWithCanvas(
+        buildCanvasChatContext(nodes, edges),
+        history.map(({ role, content }) => ({ role, content })),
+        projectId ?? undefined
+      );
+      if (result.success && result.reply) {
+        const reply = result.reply;
+        setEntries((prev) => [
+          ...prev,
+          {
+            id: nextId.current++,
+            role: 'assistant',
+            content: reply.message,
+            changes: reply.changes,
+            rejected: [],
+            changeStatus: 'pending',
+          },
+        ]);
+      } else {
+        showError(result.error || 'Failed to get an answer');
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to get an answer');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // The ticked changes go through the same per-field review as every other AI edit
+  const handleApply = (entry: ChatEntry) => {
+    const { nodes, edges } = useCanvasStore.getState();
+    const accepted = entry.changes.filter((_, index) => !entry.rejected.includes(index));
+    const { updates, newNodes, newEdges } = buildProposedChangesUpdate(accepted, nodes, edges);
+    const changeset = createChangeset('chat', 'Changes from chat', {
+      nodeChanges: proposeImportChanges(updates, [], nodes),
+      newNodes,
+      newEdges,
+    });
+    if (countChangesetItems(changeset) === 0) {
+      showError('These changes no longer match the canvas');
+      return;
+    }
+
+    reviewChangeset(changeset, { onApply: () => updateEntry(entry.id, { changeStatus: 'applied' }) });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      void send(input);
+    }
+  };
+
+  return (
+    <div
+      className={`fixed right-0 top-0 z-30 h-screen w-96 border-l border-white/10 bg-slate-900 transition-transform duration-300 ease-in-out ${
+        isOpen ? 'translate-x-0' : 'translate-x-full'
+      }`}
+    >
+      <div className="flex h-full flex-col p-5">
+        <div className="mb-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <MessageSquare size={16} className="text-violet-300" />
+            <h2 className="text-sm font-semibold text-slate-100">Ask the Canvas</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded p-1.5 text-slate-400 transition-colors hover:bg-slate-800 hover:text-slate-200"
+            aria-label="Close chat"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div ref={scrollRef} className="flex-1 space-y-3 overflow-y-auto">
+          {entries.length === 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-400">
+                Ask about your plan, or ask for new features, screens and connections. Suggested edits wait for your review.
+              </p>
+              {STARTER_QUESTIONS.map((question) => (
+                <button
+                  key={question}
+                  onClick={() => void send(question)}
+                  className="block w-full rounded-lg border border-white/10 px-3 py-2 text-left text-xs text-slate-300 hover:border-violet-400/40 hover:text-white"
+                >
+                  {question}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {entries.map((entry) => (
+            <div key={entry.id} className={entry.role === 'user' ? 'flex justify-end' : ''}>
+              <div
+                className={`rounded-lg px-3 py-2 text-sm ${
+                  entry.role === 'user' ? 'max-w-[85%] bg-violet-500/20 text-violet-100' : 'bg-slate-800/60 text-slate-200'
+                }`}
+              >
+                <div className="whitespace-pre-wrap">{entry.content}</div>
+                {entry.changes.length > 0 && (
+                  <ChangesetReview
+                    entry={entry}
+                    readOnly={readOnly}
+                    onToggle={(index) =>
+                      updateEntry(entry.id, {
+                        rejected: entry.rejected.includes(index)
+                          ? entry.rejected.filter((i) => i !== index)
+                          : [...entry.rejected, index],
+                      })
+                    }
+                    onApply={() => handleApply(entry)}
+                    onDismiss={() => updateEntry(entry.id, { changeStatus: 'dismissed' })}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+
+          {isSending && (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Loader2 size={12} className="animate-spin" />
+              Thinking...
+            </div>
+          )}
+        </div>
+
+        <div className="mt-3 flex items-end gap-2">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Ask about the canvas..."
+            rows={2}
+            maxLength={4000}
+            className="min-w-0 flex-1 resize-none rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:border-violet-400 focus:outline-none"
+          />
+          <button
+            onClick={() => void send(input)}
+            disabled={!input.trim() || isSending}
+            aria-label="Send"
+            className="rounded-lg bg-violet-500 p-2 text-white transition hover:bg-violet-400 disabled:opacity-50"
+          >
+            <Send size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent, type ReactNode } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { Search, X } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { useSearchStore } from '@/store/searchStore';
+import { NODE_TYPE_CONFIGS, FEATURE_STATUS_CONFIG } from '@/lib/constants';
+import { getAbsolutePosition } from '@/lib/groups/groups';
+import {
+  collectTags,
+  isFilterActive,
+  searchCanvas,
+  type CompletionFilter,
+} from '@/lib/search/canvasSearch';
+import type { FeaturePriority, FeatureStatus, SpexlyNode, SpexlyNodeType } from '@/types/nodes';
+
+const MAX_RESULTS = 50;
+const JUMP_ZOOM = 1.1;
+const ALL_TYPES = Object.keys(NODE_TYPE_CONFIGS) as SpexlyNodeType[];
+const ALL_STATUSES = Object.keys(FEATURE_STATUS_CONFIG) as FeatureStatus[];
+const ALL_PRIORITIES: FeaturePriority[] = ['Must', 'Should', 'Nice'];
+const COMPLETION_OPTIONS: { value: CompletionFilter; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'open', label: 'Open' },
+  { value: 'done', label: 'Done' },
+];
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+        active
+          ? 'border-violet-400/60 bg-violet-400/15 text-violet-200'
+          : 'border-white/10 text-slate-400 hover:border-white/20 hover:text-slate-200'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function FilterRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex items-start gap-3">
+      <span className="w-20 shrink-0 pt-0.5 text-[10px] font-semibold uppercase tracking-wider text-slate-500">
+        {label}
+      </span>
+      <div className="flex flex-wrap gap-1.5">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * Command-palette search over every node. Keeps the shared match set in the
+ * search store up to date so nodes outside an active filter render dimmed,
+ * even after the palette is closed.
+ */
+export function CanvasSearch() {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const projectId = useCanvasStore((s) => s.projectId);
+  const setSidebarNodeId = useCanvasStore((s) => s.setSidebarNodeId);
+  const isOpen = useSearchStore((s) => s.isOpen);
+  const setOpen = useSearchStore((s) => s.setOpen);
+  const filter = useSearchStore((s) => s.filter);
+  const setFilter = useSearchStore((s) => s.setFilter);
+  const setMatchIds = useSearchStore((s) => s.setMatchIds);
+  const resetFilter = useSearchStore((s) => s.resetFilter);
+  const { setCenter, getZoom } = useReactFlow();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const active = isFilterActive(filter);
+  const results = useMemo(() => searchCanvas(nodes, filter), [nodes, filter]);
+  const tags = useMemo(() => collectTags(nodes), [nodes]);
+
+  useEffect(() => {
+    setMatchIds(active ? new Set(results.map((r) => r.node.id)) : null);
+  }, [active, results, setMatchIds]);
+
+  // Filters belong to one project
+  useEffect(() => {
+    resetFilter();
+  }, [projectId, resetFilter]);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  const jumpTo = (node: SpexlyNode) => {
+    const width = node.measured?.width ?? 320;
+    const height = node.measured?.height ?? 120;
+    const { x, y } = getAbsolutePosition(node, nodes);
+    void setCenter(x + width / 2, y + height / 2, {
+      zoom: Math.max(getZoom(), JUMP_ZOOM),
+      duration: 400,
+    });
+    setSidebarNodeId(node.id);
+    setOpen(false);
+  };
+
+  const visibleResults = results.slice(0, MAX_RESULTS);
+  const selectedIndex = Math.min(activeIndex, Math.max(0, visibleResults.length - 1));
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setOpen(false);
+    } else if (e.target !== inputRef.current) {
+      return;
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(Math.min(selectedIndex + 1, visibleResults.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(Math.max(selectedIndex - 1, 0));
+    } else if (e.key === 'Enter' && visibleResults[selectedIndex]) {
+      e.preventDefault();
+      jumpTo(visibleResults[selectedIndex].node);
+    }
+  };
+
+  if (!isOpen) {
+    if (!active) return null;
+    return (
+      <div className="absolute left-1/2 top-16 z-10 flex -translate-x-1/2 items-center gap-2 rounded-full border border-violet-400/30 bg-slate-900/90 px-3 py-1 text-xs text-slate-300">
+        <button onClick={() => setOpen(true)} className="flex items-center gap-1.5 hover:text-white">
+          <Search size={12} />
+          Showing {results.length} of {nodes.length} nodes
+        </button>
+        <button
+          onClick={resetFilter}
+          aria-label="Clear search filters"
+          className="rounded-full p-0.5 text-slate-400 hover:bg-slate-700 hover:text-white"
+        >
+          <X size={12} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 pt-[12vh]" onClick={() => setOpen(false)}>
+      <div
+        className="w-full max-w-2xl rounded-2xl border border-white/10 bg-slate-900 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-label="Search canvas"
+      >
+        <div className="flex items-center gap-3 border-b border-white/10 px-4 py-3">
+          <Search size={16} className="shrink-0 text-slate-400" />
+          <input
+            ref={inputRef}
+            value={filter.query}
+            onChange={(e) => {
+              setFilter({ query: e.target.value });
+              setActiveIndex(0);
+            }}
+            placeholder="Search names, summaries, criteria, prompts..."
+            aria-label="Search query"
+            className="flex-1 bg-transparent text-sm text-slate-100 placeholder-slate-500 outline-none"
+          />
+          <button
+            onClick={() => setOpen(false)}
+            className="rounded-lg p-1.5 text-slate-400 hover:bg-slate-800 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="space-y-2 border-b border-white/10 px-4 py-3">
+          <FilterRow label="Type">
+            {ALL_TYPES.map((type) => (
+              <Chip
+                key={type}
+                active={filter.types.includes(type)}
+                onClick={() => setFilter({ types: toggle(filter.types, type) })}
+              >
+                {NODE_TYPE_CONFIGS[type].label}
+              </Chip>
+            ))}
+          </FilterRow>
+          <FilterRow label="Status">
+            {ALL_STATUSES.map((status) => (
+              <Chip
+                key={status}
+                active={filter.statuses.includes(status)}
+                onClick={() => setFilter({ statuses: toggle(filter.statuses, status) })}
+              >
+                {status}
+              </Chip>
+            ))}
+          </FilterRow>
+          <FilterRow label="Priority">
+            {ALL_PRIORITIES.map((priority) => (
+              <Chip
+                key={priority}
+                active={filter.priorities.includes(priority)}
+                onClick={() => setFilter({ priorities: toggle(filter.priorities, priority) })}
+              >
+                {priority}
+              </Chip>
+            ))}
+          </FilterRow>
+          {tags.length > 0 && (
+            <FilterRow label="Tags">
+              {tags.map((tag) => (
+                <Chip
+                  key={tag}
+                  active={filter.tags.includes(tag)}
+                  onClick={() => setFilter({ tags: toggle(filter.tags, tag) })}
+                >
+                  #{tag}
+                </Chip>
+              ))}
+            </FilterRow>
+          )}
+          <FilterRow label="Completion">
+            {COMPLETION_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                active={filter.completion === option.value}
+                onClick={() => setFilter({ completion: option.value })}
+              >
+                {option.label}
+              </Chip>
+            ))}
+          </FilterRow>
+        </div>
+
+        <ul className="max-h-[40vh] overflow-y-auto p-2" role="listbox" aria-label="Search results">
+          {visibleResults.length === 0 && (
+            <li className="px-3 py-6 text-center text-sm text-slate-500">No nodes match</li>
+          )}
+          {visibleResults.map((result, i) => {
+            const config = NODE_TYPE_CONFIGS[result.node.type as SpexlyNodeType];
+            const Icon = config.icon;
+            return (
+              <li key={result.node.id} role="option" aria-selected={i === selectedIndex}>
+                <button
+                  onClick={() => jumpTo(result.node)}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  className={`flex w-full items-start gap-3 rounded-lg px-3 py-2 text-left transition-colors ${
+                    i === selectedIndex ? 'bg-slate-800' : 'hover:bg-slate-800/60'
+                  }`}
+                >
+                  <Icon size={16} className="mt-0.5 shrink-0" style={{ color: config.color }} />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm text-slate-100">{result.title}</div>
+                    {result.snippet && (
+                      <div className="truncate text-xs text-slate-400">
+                        <span className="text-slate-500">{result.matchedField}: </span>
+                        {result.snippet}
+                      </div>
+                    )}
+                  </div>
+                  <span className="shrink-0 text-[10px] uppercase tracking-wider text-slate-500">{config.label}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex items-center justify-between border-t border-white/10 px-4 py-2 text-xs text-slate-500">
+          <span>
+            {results.length} of {nodes.length} nodes
+            {results.length > MAX_RESULTS && ` · showing first ${MAX_RESULTS}`}
+          </span>
+          {active && (
+            <button onClick={resetFilter} className="text-slate-400 hover:text-white">
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
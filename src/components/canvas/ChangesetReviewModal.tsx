@@ -0,0 +1,248 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, GitCompare, Loader2, Pencil, X } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { discardChangeset, useChangesetStore, type QueuedChangeset } from '@/store/changesetStore';
+import { showUndo } from '@/store/toastStore';
+import { getNodeDisplayName } from '@/lib/export/exportContextUtils';
+import {
+  fieldChangeKey,
+  formatFieldLabel,
+  formatFieldValue,
+  isEditableValue,
+  isFieldAccepted,
+  parseEditedValue,
+  resolveChangeset,
+  type ChangesetDecisions,
+  type ChangesetSource,
+  type FieldChange,
+} from '@/lib/ai/changeset';
+
+const SOURCE_LABELS: Record<ChangesetSource, string> = {
+  enhance: 'AI enhancement',
+  batchEnhance: 'Batch enhancement',
+  smartImport: 'Document import',
+  figmaImport: 'Figma import',
+  breakdown: 'Prompt breakdown',
+  specFix: 'Spec fix',
+  wizard: 'Project wizard',
+  chat: 'Canvas chat',
+};
+
+function FieldChangeRow({
+  nodeId,
+  change,
+  decisions,
+  onDecide,
+}: {
+  nodeId: string;
+  change: FieldChange;
+  decisions: ChangesetDecisions;
+  onDecide: (accepted: boolean, value?: unknown) => void;
+}) {
+  const decision = decisions.fields[fieldChangeKey(nodeId, change.field)];
+  const accepted = isFieldAccepted(nodeId, change, decisions);
+  const after = decision?.value !== undefined ? decision.value : change.after;
+  const [isEditing, setIsEditing] = useState(false);
+  const before = formatFieldValue(change.before);
+
+  return (
+    <li className="rounded-lg border border-white/5 bg-slate-800/40 p-2.5">
+      <div className="flex items-center gap-2">
+        <label className="flex flex-1 items-center gap-2 text-xs font-medium text-slate-200">
+          <input type="checkbox" checked={accepted} onChange={() => onDecide(!accepted, decision?.value)} />
+          {formatFieldLabel(change.field)}
+          {before && <span className="text-[10px] font-normal text-amber-300/80">replaces existing</span>}
+        </label>
+        {isEditableValue(change.after) && (
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="rounded p-1 text-slate-400 hover:bg-slate-700 hover:text-slate-200"
+            aria-label={isEditing ? 'Done editing' : `Edit ${formatFieldLabel(change.field)}`}
+          >
+            {isEditing ? <Check size={12} /> : <Pencil size={12} />}
+          </button>
+        )}
+      </div>
+      {before && (
+        <div className="mt-1.5 whitespace-pre-wrap rounded bg-red-500/5 px-2 py-1 text-xs text-red-200/70 line-through">
+          {before}
+        </div>
+      )}
+      {isEditing ? (
+        <textarea
+          className="mt-1.5 w-full resize-y rounded border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-violet-400 focus:outline-none"
+          rows={Math.min(8, formatFieldValue(after).split('\n').length + 1)}
+          value={formatFieldValue(after)}
+          onChange={(e) => onDecide(true, parseEditedValue(change.after, e.target.value))}
+        />
+      ) : (
+        <div
+          className={`mt-1.5 whitespace-pre-wrap rounded px-2 py-1 text-xs ${
+            accepted ? 'bg-emerald-500/5 text-emerald-100' : 'text-slate-500'
+          }`}
+        >
+          {formatFieldValue(after)}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function ChangesetReview({ entry }: { entry: QueuedChangeset }) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const smartImport = useCanvasStore((s) => s.smartImport);
+  const undo = useCanvasStore((s) => s.undo);
+  const remove = useChangesetStore((s) => s.remove);
+  const { changeset } = entry;
+  const [decisions, setDecisions] = useState<ChangesetDecisions>({ fields: {}, rejectedNodeIds: [] });
+
+  const decide = (nodeId: string, field: string, accepted: boolean, value?: unknown) => {
+    setDecisions((prev) => ({
+      ...prev,
+      fields: { ...prev.fields, [fieldChangeKey(nodeId, field)]: { accepted, value } },
+    }));
+  };
+
+  const toggleNewNode = (nodeId: string) => {
+    setDecisions((prev) => ({
+      ...prev,
+      rejectedNodeIds: prev.rejectedNodeIds.includes(nodeId)
+        ? prev.rejectedNodeIds.filter((id) => id !== nodeId)
+        : [...prev.rejectedNodeIds, nodeId],
+    }));
+  };
+
+  const resolved = resolveChangeset(changeset, decisions);
+  const fieldCount = resolved.updates.reduce((sum, update) => sum + Object.keys(update.fieldsToFill).length, 0);
+  const count = fieldCount + resolved.newNodes.length + resolved.newEdges.length;
+  const isEmpty =
+    changeset.nodeChanges.length === 0 && changeset.newNodes.length === 0 && changeset.newEdges.length === 0;
+  const nameOf = (id: string) => {
+    const node = nodes.find((n) => n.id === id) ?? changeset.newNodes.find((n) => n.id === id);
+    return node ? getNodeDisplayName(node) : id;
+  };
+
+  const handleApply = () => {
+    smartImport(resolved.updates, resolved.newNodes, resolved.newEdges);
+    remove(changeset.id);
+    entry.onApply?.(resolved);
+    showUndo(`Applied ${count} ${count === 1 ? 'change' : 'changes'} from ${SOURCE_LABELS[changeset.source].toLowerCase()}`, undo);
+  };
+
+  return (
+    <div className="flex max-h-[calc(100vh-5rem)] w-full max-w-2xl flex-col rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
+      <div className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-6 py-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-slate-100">
+            <GitCompare size={18} className="text-violet-400" />
+            <h2 className="truncate text-lg font-semibold">{changeset.title}</h2>
+          </div>
+          <p className="mt-0.5 text-xs text-slate-400">
+            {SOURCE_LABELS[changeset.source]} · review each change before it lands on the canvas
+          </p>
+        </div>
+        <button
+          onClick={() => discardChangeset(changeset.id)}
+          className="rounded-lg p-2 text-slate-300 hover:bg-slate-800 hover:text-white"
+          aria-label="Discard changes"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-5 overflow-y-auto px-6 py-4">
+        {changeset.nodeChanges.map((nodeChange) => (
+          <section key={nodeChange.nodeId}>
+            <h3 className="mb-2 text-xs font-semibold uppercase tracking-wider text-slate-400">
+              {nodeChange.nodeName}
+              <span className="ml-2 font-normal normal-case tracking-normal text-slate-500">{nodeChange.nodeType}</span>
+            </h3>
+            <ul className="space-y-2">
+              {nodeChange.fields.map((change) => (
+                <FieldChangeRow
+                  key={change.field}
+                  nodeId={nodeChange.nodeId}
+                  change={change}
+                  decisions={decisions}
+                  onDecide={(accepted, value) => decide(nodeChange.nodeId, change.field, accepted, value)}
+                />
+              ))}
+            </ul>
+          </section>
+        ))}
+
+        {changeset.newNodes.length > 0 && (
+          <section>
+            <h3 className="mb-2 text-xs font-semibold uppercase tracking-wider text-slate-400">New nodes</h3>
+            <ul className="space-y-1">
+              {changeset.newNodes.map((node) => (
+                <li key={node.id}>
+                  <label className="flex items-center gap-2 text-xs text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={!decisions.rejectedNodeIds.includes(node.id)}
+                      onChange={() => toggleNewNode(node.id)}
+                    />
+                    {getNodeDisplayName(node)}
+                    <span className="text-slate-500">{node.type}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {resolved.newEdges.length > 0 && (
+          <section>
+            <h3 className="mb-2 text-xs font-semibold uppercase tracking-wider text-slate-400">New connections</h3>
+            <ul className="space-y-1 text-xs text-slate-300">
+              {resolved.newEdges.map((edge) => (
+                <li key={edge.id}>
+                  {nameOf(edge.source)} → {nameOf(edge.target)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {changeset.pending && (
+          <div className="flex items-center gap-2 text-xs text-slate-400">
+            <Loader2 size={12} className="animate-spin text-violet-400" />
+            Still generating...
+          </div>
+        )}
+        {!changeset.pending && isEmpty && <p className="text-sm text-slate-400">No changes were suggested.</p>}
+      </div>
+
+      <div className="flex items-center justify-end gap-2 border-t border-white/10 px-6 py-3">
+        <button
+          onClick={() => discardChangeset(changeset.id)}
+          className="rounded-lg px-3 py-2 text-sm text-slate-400 hover:text-slate-200"
+        >
+          Discard
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={changeset.pending || count === 0}
+          className="rounded-lg bg-violet-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-violet-400 disabled:opacity-50"
+        >
+          Apply {count} {count === 1 ? 'change' : 'changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Shows queued AI changesets one at a time; nothing reaches the canvas until applied */
+export function ChangesetReviewModal() {
+  const entry = useChangesetStore((s) => s.queue[0]);
+  if (!entry) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
+      <ChangesetReview key={entry.changeset.id} entry={entry} />
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { useCollaborationStore } from '@/store/collaborationStore';
+import { useCanvasStore } from '@/store/canvasStore';
+import { getNodeDisplayName, truncate } from '@/lib/export/exportContextUtils';
+
+function preview(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  return truncate(typeof value === 'string' ? value : JSON.stringify(value), 160);
+}
+
+/**
+ * Floating tray for concurrent edits to the same feature field.
+ * The local value stays on the canvas until the user picks a side.
+ */
+export function CollaborationConflicts() {
+  const conflicts = useCollaborationStore((s) => s.conflicts);
+  const resolveConflict = useCollaborationStore((s) => s.resolveConflict);
+  const nodes = useCanvasStore((s) => s.nodes);
+  const setSidebarNodeId = useCanvasStore((s) => s.setSidebarNodeId);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-6 left-1/2 z-20 w-[420px] -translate-x-1/2 space-y-2">
+      {conflicts.map((conflict) => {
+        const node = nodes.find((n) => n.id === conflict.nodeId);
+        const nodeName = node ? getNodeDisplayName(node) : 'Deleted node';
+        return (
+          <div
+            key={conflict.id}
+            className="rounded-lg border border-amber-400/40 bg-slate-900/95 p-3 shadow-xl backdrop-blur-sm"
+          >
+            <div className="mb-2 flex items-start gap-2">
+              <AlertTriangle size={14} className="mt-0.5 shrink-0 text-amber-300" />
+              <div className="text-xs text-slate-300">
+                <span className="font-medium text-amber-200">{conflict.remoteName}</span> also edited{' '}
+                <button
+                  onClick={() => node && setSidebarNodeId(node.id)}
+                  className="font-medium text-slate-100 underline decoration-dotted underline-offset-2"
+                >
+                  {nodeName}
+                </button>{' '}
+                → <span className="font-mono text-slate-400">{conflict.field}</span>
+              </div>
+            </div>
+            <div className="mb-2 grid grid-cols-2 gap-2 text-[11px]">
+              <div className="rounded bg-slate-800/80 p-2">
+                <div className="mb-1 font-semibold text-slate-400">Yours</div>
+                <div className="break-words text-slate-200">{preview(conflict.localValue)}</div>
+              </div>
+              <div className="rounded bg-slate-800/80 p-2">
+                <div className="mb-1 font-semibold text-slate-400">Theirs</div>
+                <div className="break-words text-slate-200">{preview(conflict.remoteValue)}</div>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 text-xs">
+              <button
+                onClick={() => resolveConflict(conflict.id, 'mine')}
+                className="rounded border border-white/10 bg-slate-800 px-2.5 py-1 text-slate-200 hover:bg-slate-700"
+              >
+                Keep mine
+              </button>
+              <button
+                onClick={() => resolveConflict(conflict.id, 'theirs')}
+                className="rounded border border-amber-400/40 bg-amber-400/10 px-2.5 py-1 text-amber-200 hover:bg-amber-400/20"
+              >
+                Take theirs
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
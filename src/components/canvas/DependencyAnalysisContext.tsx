@@ -0,0 +1,52 @@
+'use client';
+
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { getEdgeKind } from '@/lib/edges/edgeKinds';
+import {
+  analyzeFeatureDependencies,
+  type FeatureDependencyAnalysis,
+} from '@/lib/graph/featureDependencies';
+import type { SpexlyEdge, SpexlyNode } from '@/types/nodes';
+
+const EMPTY_ANALYSIS = analyzeFeatureDependencies([], []);
+
+const DependencyAnalysisContext = createContext<FeatureDependencyAnalysis>(EMPTY_ANALYSIS);
+
+/**
+ * Everything the analysis reads, as a string. Node drags and unrelated field
+ * edits leave it unchanged, so feature nodes don't re-render on every change.
+ */
+function dependencyGraphKey(nodes: SpexlyNode[], edges: SpexlyEdge[]): string {
+  const features = nodes
+    .filter((n) => n.type === 'feature')
+    .map((n) => {
+      const d = n.data;
+      return [n.id, d.featureName, d.dependencies, d.dependencyIds, d.effort, d.estimatedHours, d.status, d.completed];
+    });
+  const links = edges
+    .filter((e) => {
+      const kind = getEdgeKind(e);
+      return kind === 'depends-on' || kind === 'blocks';
+    })
+    .map((e) => [e.source, e.target, getEdgeKind(e)]);
+  return JSON.stringify([features, links]);
+}
+
+export function DependencyAnalysisProvider({ children }: { children: ReactNode }) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const edges = useCanvasStore((s) => s.edges);
+  const key = dependencyGraphKey(nodes, edges);
+
+  // Recompute only when the dependency-relevant data changes
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const analysis = useMemo(() => analyzeFeatureDependencies(nodes, edges), [key]);
+
+  return (
+    <DependencyAnalysisContext.Provider value={analysis}>{children}</DependencyAnalysisContext.Provider>
+  );
+}
+
+export function useDependencyAnalysis(): FeatureDependencyAnalysis {
+  return useContext(DependencyAnalysisContext);
+}
@@ -1,13 +1,17 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { X, FileText, Loader2 } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
-import { importDocumentWithAI, smartImportDocument } from '@/app/actions/import';
+import type { importDocumentWithAI } from '@/app/actions/import';
 import { updateCanvasData } from '@/app/actions/projects';
 import { getPopulatedFields } from '@/lib/import/mergeStrategy';
-import type { SpexlyNode } from '@/types/nodes';
+import { isAbortError, streamDocumentImport } from '@/lib/ai/streamClient';
+import { countChangesetItems, createChangeset, proposeImportChanges } from '@/lib/ai/changeset';
+import { reviewChangeset } from '@/store/changesetStore';
+import type { SmartImportResult, SpexlyNode } from '@/types/nodes';
 import type { ExistingNodeSummary } from '@/types/nodes';
+import type { ImportProgress } from '@/types/ai';
 import { FileUpload } from '@/components/import/FileUpload';
 import { NotionImport } from '@/components/import/NotionImport';
 import { ConversationImport } from '@/components/import/ConversationImport';
@@ -41,15 +45,32 @@ function buildExistingNodeSummaries(nodes: SpexlyNode[]): ExistingNodeSummary[]
 
 type ImportTab = 'paste' | 'file' | 'notion' | 'conversation';
 
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describeProgress(progress: ImportProgress | null): string {
+  if (!progress) return 'Sending document...';
+  switch (progress.stage) {
+    case 'analyzing':
+      return `Reading document: ${plural(progress.features, 'feature')}, ${plural(progress.screens, 'screen')} found so far...`;
+    case 'detailing':
+      return `Writing details for ${plural(progress.features, 'feature')} and ${plural(progress.screens, 'screen')}...`;
+    case 'building':
+      return 'Building canvas...';
+  }
+}
+
 export function DocumentImportModal({ isOpen, onClose }: DocumentImportModalProps) {
   const appendNodesAndEdges = useCanvasStore((s) => s.appendNodesAndEdges);
-  const smartImport = useCanvasStore((s) => s.smartImport);
   const nodes = useCanvasStore((s) => s.nodes);
   const [activeTab, setActiveTab] = useState<ImportTab>('paste');
   const [text, setText] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [status, setStatus] = useState<{ type: 'success' | 'fallback' | 'smart'; message: string } | null>(null);
   const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const preview = useMemo(() => {
     if (!text.trim()) return null;
@@ -78,39 +99,39 @@ export function DocumentImportModal({ isOpen, onClose }: DocumentImportModalProp
     }
 
     setIsImporting(true);
+    setProgress(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const streamOptions = { signal: controller.signal, onProgress: setProgress };
     try {
       const hasExistingNodes = nodes.length > 0;
+      const billedProjectId = useCanvasStore.getState().projectId ?? undefined;
 
       if (hasExistingNodes) {
-        // Smart import path — fill existing nodes + create missing
+        // Smart import path — fill existing nodes + create missing, after review
         const summaries = buildExistingNodeSummaries(nodes);
-        const result = await smartImportDocument(trimmed, summaries);
-
-        smartImport(result.updates, result.newNodes, result.newEdges);
-
-        const { projectId, nodes: currentNodes, edges: currentEdges } = useCanvasStore.getState();
-        if (projectId) {
-          useCanvasStore.getState().setSaveStatus(true);
-          await updateCanvasData(projectId, currentNodes, currentEdges);
-          useCanvasStore.getState().setSaveStatus(false);
-        }
+        const result = await streamDocumentImport<SmartImportResult>(
+          { text: trimmed, existingNodes: summaries, projectId: billedProjectId },
+          streamOptions
+        );
 
-        const { summary } = result;
-        const parts: string[] = [];
-        if (summary.nodesUpdated > 0) {
-          parts.push(`Updated ${summary.nodesUpdated} nodes (${summary.fieldsFilledTotal} fields filled)`);
-        }
-        if (summary.nodesCreated > 0) {
-          parts.push(`created ${summary.nodesCreated} new nodes`);
-        }
-        if (parts.length === 0) {
-          parts.push('No changes needed');
+        const changeset = createChangeset('smartImport', 'Import document', {
+          nodeChanges: proposeImportChanges(result.updates, result.suggestions, useCanvasStore.getState().nodes),
+          newNodes: result.newNodes,
+          newEdges: result.newEdges,
+        });
+        if (countChangesetItems(changeset) > 0) {
+          reviewChangeset(changeset);
+          onClose();
+          return;
         }
 
-        setStatus({ type: 'smart', message: parts.join(', ') + '.' });
+        setStatus({ type: 'smart', message: 'No changes needed.' });
       } else {
         // Legacy path — empty canvas, create everything from scratch
-        const { nodes: importedNodes, edges, mode } = await importDocumentWithAI(trimmed);
+        const { nodes: importedNodes, edges, mode } = await streamDocumentImport<
+          Awaited<ReturnType<typeof importDocumentWithAI>>
+        >({ text: trimmed, projectId: billedProjectId }, streamOptions);
         if (importedNodes.length === 0) {
           setError('No importable content found. Try adding headings or bullet lists.');
           return;
@@ -136,12 +157,20 @@ export function DocumentImportModal({ isOpen, onClose }: DocumentImportModalProp
         onClose();
       }, 1200);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to import document.');
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'Failed to import document.');
+      }
     } finally {
+      abortRef.current = null;
       setIsImporting(false);
+      setProgress(null);
     }
   };
 
+  const handleCancelImport = () => {
+    abortRef.current?.abort();
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
       <div className="w-full max-h-[90vh] max-w-2xl overflow-auto rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
@@ -233,6 +262,18 @@ export function DocumentImportModal({ isOpen, onClose }: DocumentImportModalProp
             <ConversationImport onImport={handleFileOrNotionImport} />
           )}
 
+        {isImporting && (
+          <div className="mt-3 flex items-center justify-between gap-3 rounded-lg border border-violet-500/20 bg-violet-500/10 px-3 py-2 text-sm text-violet-200">
+            <span className="flex items-center gap-2">
+              <Loader2 size={14} className="animate-spin" />
+              {describeProgress(progress)}
+            </span>
+            <button onClick={handleCancelImport} className="text-xs font-medium text-violet-300 hover:text-white">
+              Cancel
+            </button>
+          </div>
+        )}
+
         {preview && (
           <div className="mt-3 text-xs text-slate-400">
             Preview: {preview.lines} lines detected
@@ -1,23 +1,42 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Download, FileText, Code, CheckSquare, Sparkles, Braces } from 'lucide-react';
+import { Download, FileText, Code, CheckSquare, Sparkles, Braces, History, Wand2, FolderTree, Send, Github, SquareKanban, BookOpen } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
+import { useMilestoneStore } from '@/store/milestoneStore';
 import { generateContextFile } from '@/lib/export/contextFileGenerator';
-import { generateFeaturePrompt, generateCursorPlanPrompt, generateFullStackPrompt } from '@/lib/export/promptGenerator';
-import { generateTodoMarkdown, generateGitHubIssues } from '@/lib/export/todoMarkdownGenerator';
+import {
+  generateFeaturePrompt,
+  generateCursorPlanPrompt,
+  generateFullStackPrompt,
+  generateMilestonePlanPrompt,
+} from '@/lib/export/promptGenerator';
+import { generateTodoMarkdown } from '@/lib/export/todoMarkdownGenerator';
 import { generateProjectPDF } from '@/lib/export/pdfGenerator';
 import { generateCanvasJSON } from '@/lib/export/jsonExporter';
-import { FeatureExportModal } from './FeatureExportModal';
+import { generatePromptLearnings } from '@/lib/export/promptLearningsGenerator';
+import { buildAgentScaffoldZip, generateAgentScaffold } from '@/lib/export/agentScaffoldGenerator';
+import { TOOL_PROMPT_PROFILES, type PromptExportTool } from '@/lib/export/toolPromptExporters';
+import { FeatureExportModal, type ExportFormat } from './FeatureExportModal';
+import { GitHubSyncModal } from './GitHubSyncModal';
+import { JiraExportModal } from './JiraExportModal';
+import { NotionPublishModal } from './NotionPublishModal';
 
 export function ExportMenu() {
   const [isOpen, setIsOpen] = useState(false);
   const [copiedMessage, setCopiedMessage] = useState<string | null>(null);
-  const [featureExportFormat, setFeatureExportFormat] = useState<'claude' | 'cursor' | null>(null);
+  const [featureExportFormat, setFeatureExportFormat] = useState<ExportFormat | null>(null);
+  const [isGitHubSyncOpen, setIsGitHubSyncOpen] = useState(false);
+  const [isJiraExportOpen, setIsJiraExportOpen] = useState(false);
+  const [isNotionPublishOpen, setIsNotionPublishOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const nodes = useCanvasStore((s) => s.nodes);
   const edges = useCanvasStore((s) => s.edges);
   const projectName = useCanvasStore((s) => s.projectName);
+  const milestones = useMilestoneStore((s) => s.milestones);
+  // TODO.md, GitHub issues and the Cursor plan can be limited to one milestone
+  const [scopeMilestoneId, setScopeMilestoneId] = useState('');
+  const scopeMilestone = milestones.find((m) => m.id === scopeMilestoneId);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -44,8 +63,8 @@ export function ExportMenu() {
     }
   };
 
-  const downloadFile = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/plain' });
+  const downloadFile = (content: string | Blob, filename: string) => {
+    const blob = typeof content === 'string' ? new Blob([content], { type: 'text/plain' }) : content;
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -64,6 +83,18 @@ export function ExportMenu() {
     setIsOpen(false);
   };
 
+  const handleExportAgentScaffold = async () => {
+    setIsOpen(false);
+    try {
+      const blob = await buildAgentScaffoldZip(generateAgentScaffold(nodes, edges));
+      downloadFile(blob, `${projectName || 'spexly'}-agent-context.zip`);
+    } catch (error) {
+      console.error('Failed to build agent scaffold:', error);
+      setCopiedMessage('Failed to build zip');
+      setTimeout(() => setCopiedMessage(null), 2000);
+    }
+  };
+
   const handleExportClaudePrompt = () => {
     const featureNodes = nodes.filter((n) => n.type === 'feature');
     if (featureNodes.length === 0) {
@@ -83,6 +114,13 @@ export function ExportMenu() {
   };
 
   const handleExportCursorPrompt = () => {
+    if (scopeMilestone) {
+      const content = generateMilestonePlanPrompt(scopeMilestone, nodes, edges);
+      copyToClipboard(content, `${scopeMilestone.name} plan copied!`);
+      setIsOpen(false);
+      return;
+    }
+
     const featureNodes = nodes.filter((n) => n.type === 'feature');
     if (featureNodes.length === 0) {
       setCopiedMessage('No features to export');
@@ -106,6 +144,16 @@ export function ExportMenu() {
     setIsOpen(false);
   };
 
+  const handleOpenFeatureExport = (format: ExportFormat) => {
+    if (!nodes.some((n) => n.type === 'feature')) {
+      setCopiedMessage('No features to export');
+      setTimeout(() => setCopiedMessage(null), 2000);
+      return;
+    }
+    setFeatureExportFormat(format);
+    setIsOpen(false);
+  };
+
   const handleExportPDF = () => {
     const doc = generateProjectPDF(nodes, projectName, edges);
     doc.save(`${projectName || 'project-context'}.pdf`);
@@ -115,21 +163,45 @@ export function ExportMenu() {
   };
 
   const handleExportTodoMarkdown = () => {
-    const content = generateTodoMarkdown(nodes);
+    const content = generateTodoMarkdown(nodes, { milestone: scopeMilestone });
     downloadFile(content, 'TODO.md');
     setIsOpen(false);
   };
 
+  const handleExportPromptLearnings = () => {
+    const content = generatePromptLearnings(nodes);
+    if (!content) {
+      setCopiedMessage('No prompt runs logged yet');
+      setTimeout(() => setCopiedMessage(null), 2000);
+      return;
+    }
+    downloadFile(content, 'PROMPT_LEARNINGS.md');
+    setIsOpen(false);
+  };
+
   const handleExportJSON = () => {
     const content = generateCanvasJSON(nodes, edges, projectName);
     downloadFile(content, `${projectName || 'spexly-canvas'}.json`);
     setIsOpen(false);
   };
 
-  const handleExportGitHubIssues = () => {
-    const issues = generateGitHubIssues(nodes);
-    const content = JSON.stringify(issues, null, 2);
-    downloadFile(content, 'github-issues.json');
+  const handleOpenGitHubSync = () => {
+    if (!nodes.some((n) => n.type === 'feature')) {
+      setCopiedMessage('No features to export');
+      setTimeout(() => setCopiedMessage(null), 2000);
+      return;
+    }
+    setIsGitHubSyncOpen(true);
+    setIsOpen(false);
+  };
+
+  const handleOpenJiraExport = () => {
+    if (!nodes.some((n) => n.type === 'feature')) {
+      setCopiedMessage('No features to export');
+      setTimeout(() => setCopiedMessage(null), 2000);
+      return;
+    }
+    setIsJiraExportOpen(true);
     setIsOpen(false);
   };
 
@@ -152,6 +224,24 @@ export function ExportMenu() {
               <p className="mt-1 text-xs text-slate-400">
                 Generate AI-ready context and implementation guides
               </p>
+              {milestones.length > 0 && (
+                <label className="mt-3 flex items-center gap-2 text-xs text-slate-400">
+                  Scope
+                  <select
+                    value={scopeMilestone ? scopeMilestoneId : ''}
+                    onChange={(e) => setScopeMilestoneId(e.target.value)}
+                    aria-label="Export scope"
+                    className="flex-1 rounded-md border border-white/10 bg-slate-900 px-2 py-1 text-xs text-slate-200 outline-none focus:border-violet-400"
+                  >
+                    <option value="">Whole project</option>
+                    {milestones.map((milestone) => (
+                      <option key={milestone.id} value={milestone.id}>
+                        Milestone: {milestone.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
             </div>
 
             <div className="p-2">
@@ -172,6 +262,19 @@ export function ExportMenu() {
                 </div>
               </button>
 
+              <button
+                onClick={handleExportAgentScaffold}
+                className="flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
+              >
+                <FolderTree size={18} className="mt-0.5 shrink-0 text-violet-400" />
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-white">Agent Repo Scaffold (.zip)</div>
+                  <div className="mt-0.5 text-xs text-slate-400">
+                    Spec files, CLAUDE.md, AGENTS.md and Cursor rules for a fresh repo
+                  </div>
+                </div>
+              </button>
+
               <button
                 onClick={handleExportClaudePrompt}
                 className="flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
@@ -191,9 +294,11 @@ export function ExportMenu() {
               >
                 <Code size={18} className="mt-0.5 shrink-0 text-blue-400" />
                 <div className="flex-1">
-                  <div className="text-sm font-medium text-white">Cursor Plan Mode Prompt</div>
+                  <div className="text-sm font-medium text-white">
+                    {scopeMilestone ? `Cursor Plan: ${scopeMilestone.name}` : 'Cursor Plan Mode Prompt'}
+                  </div>
                   <div className="mt-0.5 text-xs text-slate-400">
-                    Plan format for selected features
+                    {scopeMilestone ? 'Milestone features in build order' : 'Plan format for selected features'}
                   </div>
                 </div>
               </button>
@@ -211,6 +316,26 @@ export function ExportMenu() {
                 </div>
               </button>
 
+              {/* Tool Prompts Section */}
+              <div className="border-t border-white/5 mx-2 my-1" />
+              <div className="px-3 py-1.5">
+                <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">Tool Prompts</span>
+              </div>
+
+              {(Object.keys(TOOL_PROMPT_PROFILES) as PromptExportTool[]).map((tool) => (
+                <button
+                  key={tool}
+                  onClick={() => handleOpenFeatureExport(tool)}
+                  className="flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
+                >
+                  <Wand2 size={18} className="mt-0.5 shrink-0 text-cyan-400" />
+                  <div className="flex-1">
+                    <div className="text-sm font-medium text-white">{TOOL_PROMPT_PROFILES[tool].label}</div>
+                    <div className="mt-0.5 text-xs text-slate-400">{TOOL_PROMPT_PROFILES[tool].description}</div>
+                  </div>
+                </button>
+              ))}
+
               {/* Documents Section */}
               <div className="border-t border-white/5 mx-2 my-1" />
               <div className="px-3 py-1.5">
@@ -243,6 +368,19 @@ export function ExportMenu() {
                 </div>
               </button>
 
+              <button
+                onClick={handleExportPromptLearnings}
+                className="flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
+              >
+                <History size={18} className="mt-0.5 shrink-0 text-pink-400" />
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-white">Prompt Learnings</div>
+                  <div className="mt-0.5 text-xs text-slate-400">
+                    What worked across prompt runs, per tool
+                  </div>
+                </div>
+              </button>
+
               {/* Data Section */}
               <div className="border-t border-white/5 mx-2 my-1" />
               <div className="px-3 py-1.5">
@@ -263,14 +401,58 @@ export function ExportMenu() {
               </button>
 
               <button
-                onClick={handleExportGitHubIssues}
+                onClick={handleOpenGitHubSync}
+                className="flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
+              >
+                <Github size={18} className="mt-0.5 shrink-0 text-slate-300" />
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-white">
+                    {scopeMilestone ? `GitHub Issues: ${scopeMilestone.name}` : 'GitHub Issues'}
+                  </div>
+                  <div className="mt-0.5 text-xs text-slate-400">
+                    Create and update issues, pull open/closed state back
+                  </div>
+                </div>
+              </button>
+
+              <button
+                onClick={() => handleOpenFeatureExport('linear')}
+                className="flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
+              >
+                <Send size={18} className="mt-0.5 shrink-0 text-indigo-400" />
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-white">Linear Issues</div>
+                  <div className="mt-0.5 text-xs text-slate-400">
+                    Create issues with two-way status sync
+                  </div>
+                </div>
+              </button>
+
+              <button
+                onClick={handleOpenJiraExport}
                 className="flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
               >
-                <FileText size={18} className="mt-0.5 shrink-0 text-slate-400" />
+                <SquareKanban size={18} className="mt-0.5 shrink-0 text-sky-400" />
                 <div className="flex-1">
-                  <div className="text-sm font-medium text-white">GitHub Issues (JSON)</div>
+                  <div className="text-sm font-medium text-white">Jira Issues</div>
                   <div className="mt-0.5 text-xs text-slate-400">
-                    Import-ready issue definitions
+                    Epics with child issues, status synced back
+                  </div>
+                </div>
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsNotionPublishOpen(true);
+                  setIsOpen(false);
+                }}
+                className="flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
+              >
+                <BookOpen size={18} className="mt-0.5 shrink-0 text-slate-300" />
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-white">Notion Pages</div>
+                  <div className="mt-0.5 text-xs text-slate-400">
+                    Publish a page tree with a features database, re-publish in place
                   </div>
                 </div>
               </button>
@@ -290,6 +472,13 @@ export function ExportMenu() {
         onClose={() => setFeatureExportFormat(null)}
         format={featureExportFormat || 'claude'}
       />
+      <GitHubSyncModal
+        isOpen={isGitHubSyncOpen}
+        onClose={() => setIsGitHubSyncOpen(false)}
+        milestone={scopeMilestone}
+      />
+      <JiraExportModal isOpen={isJiraExportOpen} onClose={() => setIsJiraExportOpen(false)} />
+      <NotionPublishModal isOpen={isNotionPublishOpen} onClose={() => setIsNotionPublishOpen(false)} />
     </>
   );
 }
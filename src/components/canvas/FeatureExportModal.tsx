@@ -1,11 +1,30 @@
 'use client';
 
-import { useState } from 'react';
-import { X, Check, Copy } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { X, Check, Copy, Download, ExternalLink, Loader2 } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
+import {
+  checkLinearConnection,
+  exportFeaturesToLinear,
+  getLinearAuthUrl,
+  listLinearTeams,
+  type LinearFeatureExport,
+} from '@/app/actions/integrations/linear';
+import { toFeatureExportInput } from '@/lib/integrations/linearSync';
+import type { LinearTeam } from '@/lib/integrations/linear';
 import { generateFeaturePrompt, generateCursorPlanPrompt } from '@/lib/export/promptGenerator';
+import {
+  formatToolPrompts,
+  generateToolPrompts,
+  TOOL_PROMPT_PROFILES,
+  type PromptExportTool,
+} from '@/lib/export/toolPromptExporters';
 
-type ExportFormat = 'claude' | 'cursor';
+export type ExportFormat = 'claude' | 'cursor' | 'linear' | PromptExportTool;
+
+function isToolFormat(format: ExportFormat): format is PromptExportTool {
+  return format in TOOL_PROMPT_PROFILES;
+}
 
 interface FeatureExportModalProps {
   isOpen: boolean;
@@ -19,9 +38,55 @@ export function FeatureExportModal({ isOpen, onClose, format }: FeatureExportMod
   const featureNodes = nodes.filter((n) => n.type === 'feature');
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [copiedMessage, setCopiedMessage] = useState<string | null>(null);
+  const projectId = useCanvasStore((s) => s.projectId);
+  const updateNodeData = useCanvasStore((s) => s.updateNodeData);
+  const [linearState, setLinearState] = useState<'loading' | 'connected' | 'disconnected' | 'error'>('loading');
+  const [teams, setTeams] = useState<LinearTeam[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const isLinear = format === 'linear';
+
+  useEffect(() => {
+    if (!isOpen || !isLinear) return;
+    let cancelled = false;
+    const load = async () => {
+      setLinearState('loading');
+      try {
+        const { connected } = await checkLinearConnection();
+        if (!connected) {
+          if (!cancelled) setLinearState('disconnected');
+          return;
+        }
+        const teamList = await listLinearTeams();
+        if (cancelled) return;
+        setTeams(teamList);
+        setTeamId((current) => current || teamList[0]?.id || '');
+        setLinearState('connected');
+      } catch {
+        if (!cancelled) setLinearState('error');
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, isLinear]);
 
   if (!isOpen) return null;
 
+  const formatLabel =
+    format === 'claude'
+      ? 'Claude Code'
+      : format === 'cursor'
+        ? 'Cursor Plan Mode'
+        : format === 'linear'
+          ? 'Linear'
+          : TOOL_PROMPT_PROFILES[format].label;
+
+  /** Features already exported can't be exported to Linear again */
+  const isLinked = (node: (typeof featureNodes)[number]) => node.type === 'feature' && Boolean(node.data.linearIssue);
+
   const toggleFeature = (id: string) => {
     setSelectedIds((prev) => {
       const next = new Set(prev);
@@ -35,26 +100,80 @@ export function FeatureExportModal({ isOpen, onClose, format }: FeatureExportMod
   };
 
   const selectAll = () => {
-    setSelectedIds(new Set(featureNodes.map((n) => n.id)));
+    setSelectedIds(new Set(featureNodes.filter((n) => !isLinear || !isLinked(n)).map((n) => n.id)));
   };
 
   const deselectAll = () => {
     setSelectedIds(new Set());
   };
 
+  const handleConnectLinear = async () => {
+    try {
+      const { url } = await getLinearAuthUrl();
+      window.location.href = url;
+    } catch {
+      setLinearState('error');
+    }
+  };
+
+  const handleExportToLinear = async () => {
+    if (!projectId || !teamId) return;
+    const features = featureNodes.flatMap((node): LinearFeatureExport[] => {
+      const feature = selectedIds.has(node.id) && !isLinked(node) ? toFeatureExportInput(node) : null;
+      return feature ? [{ nodeId: node.id, feature }] : [];
+    });
+    if (features.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      const results = await exportFeaturesToLinear(projectId, teamId, features);
+      let created = 0;
+      results.forEach((result) => {
+        if ('issue' in result) {
+          updateNodeData(result.nodeId, { linearIssue: result.issue });
+          created++;
+        }
+      });
+      const failed = results.length - created;
+      setSelectedIds(new Set());
+      setCopiedMessage(
+        `Created ${created} Linear issue${created === 1 ? '' : 's'}` + (failed > 0 ? `; ${failed} failed` : '')
+      );
+      setTimeout(() => setCopiedMessage(null), 3000);
+    } catch (error) {
+      setCopiedMessage(error instanceof Error ? error.message : 'Failed to export to Linear');
+      setTimeout(() => setCopiedMessage(null), 3000);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleExport = async () => {
+    if (isLinear) {
+      await handleExportToLinear();
+      return;
+    }
+
     const selected = featureNodes.filter((n) => selectedIds.has(n.id));
     if (selected.length === 0) return;
 
-    const generator = format === 'claude' ? generateFeaturePrompt : generateCursorPlanPrompt;
-
-    const combined = selected
-      .map((feature) => generator(feature, nodes, edges))
-      .join('\n\n---\n\n');
+    let combined: string;
+    let copied: string;
+    if (isToolFormat(format)) {
+      const result = generateToolPrompts(format, nodes, edges, Array.from(selectedIds));
+      combined = formatToolPrompts(result);
+      copied = `${result.prompts.length} ${formatLabel} prompt${result.prompts.length > 1 ? 's' : ''} copied!`;
+    } else {
+      const generator = format === 'claude' ? generateFeaturePrompt : generateCursorPlanPrompt;
+      combined = selected
+        .map((feature) => generator(feature, nodes, edges))
+        .join('\n\n---\n\n');
+      copied = `${selected.length} feature prompt${selected.length > 1 ? 's' : ''} copied!`;
+    }
 
     try {
       await navigator.clipboard.writeText(combined);
-      setCopiedMessage(`${selected.length} feature prompt${selected.length > 1 ? 's' : ''} copied!`);
+      setCopiedMessage(copied);
       setTimeout(() => {
         setCopiedMessage(null);
         onClose();
@@ -65,8 +184,26 @@ export function FeatureExportModal({ isOpen, onClose, format }: FeatureExportMod
     }
   };
 
-  const formatLabel = format === 'claude' ? 'Claude Code' : 'Cursor Plan Mode';
-  const allSelected = selectedIds.size === featureNodes.length;
+  const handleDownloadRules = () => {
+    if (!isToolFormat(format)) return;
+    const { rulesFile } = generateToolPrompts(format, nodes, edges, Array.from(selectedIds));
+    const filename = rulesFile.filename.split('/').pop() || rulesFile.filename;
+    const blob = new Blob([rulesFile.content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    setCopiedMessage(`Downloaded ${filename}. ${rulesFile.placement}.`);
+    setTimeout(() => setCopiedMessage(null), 3000);
+  };
+
+  const toolProfile = isToolFormat(format) ? TOOL_PROMPT_PROFILES[format] : null;
+  const selectableCount = featureNodes.filter((n) => !isLinear || !isLinked(n)).length;
+  const allSelected = selectableCount > 0 && selectedIds.size === selectableCount;
 
   return (
     <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
@@ -87,8 +224,17 @@ export function FeatureExportModal({ isOpen, onClose, format }: FeatureExportMod
 
         <div className="px-6 pb-6 pt-4">
           <p className="mb-3 text-sm text-slate-300">
-            Select features to include in the {formatLabel} prompt:
+            {isLinear
+              ? 'Select features to create as Linear issues. Status changes sync both ways.'
+              : `Select features to include in the ${formatLabel} prompt:`}
           </p>
+          {toolProfile && (
+            <p className="-mt-1 mb-3 text-xs text-slate-500">
+              {toolProfile.style === 'iterative'
+                ? 'Send the layout prompt first, then one prompt per feature in build order.'
+                : 'Send the first prompt for the whole app; features that do not fit follow as separate prompts.'}
+            </p>
+          )}
 
           <div className="mb-3 flex items-center gap-2">
             <button
@@ -106,11 +252,13 @@ export function FeatureExportModal({ isOpen, onClose, format }: FeatureExportMod
             {featureNodes.map((node) => {
               if (node.type !== 'feature') return null;
               const isSelected = selectedIds.has(node.id);
+              const linearIssue = node.data.linearIssue;
               return (
                 <button
                   key={node.id}
                   onClick={() => toggleFeature(node.id)}
-                  className={`flex w-full items-center gap-3 rounded-lg border px-3 py-2.5 text-left transition-colors ${
+                  disabled={isLinear && Boolean(linearIssue)}
+                  className={`flex w-full items-center gap-3 rounded-lg border px-3 py-2.5 text-left transition-colors disabled:cursor-default disabled:opacity-60 ${
                     isSelected
                       ? 'border-violet-500/50 bg-violet-500/10'
                       : 'border-white/5 bg-slate-800/50 hover:border-white/10'
@@ -133,6 +281,18 @@ export function FeatureExportModal({ isOpen, onClose, format }: FeatureExportMod
                       <span className="text-xs text-slate-500">{node.data.status} &middot; {node.data.priority}</span>
                     )}
                   </div>
+                  {isLinear && linearIssue && (
+                    <a
+                      href={linearIssue.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="flex shrink-0 items-center gap-1 text-xs text-violet-300 hover:text-violet-200"
+                    >
+                      {linearIssue.identifier}
+                      <ExternalLink size={10} />
+                    </a>
+                  )}
                 </button>
               );
             })}
@@ -144,14 +304,73 @@ export function FeatureExportModal({ isOpen, onClose, format }: FeatureExportMod
             </div>
           )}
 
-          <button
-            onClick={handleExport}
-            disabled={selectedIds.size === 0}
-            className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400 disabled:opacity-40 disabled:cursor-not-allowed"
-          >
-            <Copy size={14} className="inline mr-2" />
-            Copy {selectedIds.size > 0 ? `${selectedIds.size} ` : ''}Prompt{selectedIds.size !== 1 ? 's' : ''} to Clipboard
-          </button>
+          {isLinear && linearState === 'connected' && (
+            <label className="mt-4 flex items-center gap-2 text-sm text-slate-300">
+              Team
+              <select
+                value={teamId}
+                onChange={(e) => setTeamId(e.target.value)}
+                aria-label="Linear team"
+                className="flex-1 rounded-md border border-white/10 bg-slate-800 px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-violet-400"
+              >
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name} ({team.key})
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {isLinear && linearState === 'loading' && (
+            <p className="mt-4 flex items-center gap-2 text-sm text-slate-400">
+              <Loader2 size={14} className="animate-spin" />
+              Checking Linear connection...
+            </p>
+          )}
+
+          {isLinear && linearState === 'error' && (
+            <p className="mt-4 text-sm text-red-300">Couldn&rsquo;t reach Linear. Try reconnecting.</p>
+          )}
+
+          {isLinear && (linearState === 'disconnected' || linearState === 'error') ? (
+            <button
+              onClick={handleConnectLinear}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400"
+            >
+              Connect Linear
+            </button>
+          ) : isLinear ? (
+            <button
+              onClick={handleExport}
+              disabled={selectedIds.size === 0 || !teamId || !projectId || isExporting}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isExporting && <Loader2 size={14} className="inline mr-2 animate-spin" />}
+              Create {selectedIds.size > 0 ? `${selectedIds.size} ` : ''}Linear Issue{selectedIds.size !== 1 ? 's' : ''}
+            </button>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={selectedIds.size === 0}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Copy size={14} className="inline mr-2" />
+              {toolProfile
+                ? `Copy ${formatLabel} Prompts to Clipboard`
+                : `Copy ${selectedIds.size > 0 ? `${selectedIds.size} ` : ''}Prompt${selectedIds.size !== 1 ? 's' : ''} to Clipboard`}
+            </button>
+          )}
+
+          {toolProfile && (
+            <button
+              onClick={handleDownloadRules}
+              className="mt-2 w-full rounded-lg border border-white/10 px-4 py-2.5 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+            >
+              <Download size={14} className="inline mr-2" />
+              Download {toolProfile.rules.filename}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,263 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { X, Figma, Check, Loader2, Monitor } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { checkFigmaConnection, getFigmaAuthUrl, listFigmaFrames } from '@/app/actions/integrations/figma';
+import { buildFigmaImportChanges, matchFramesToScreens } from '@/lib/integrations/figmaImport';
+import { countChangesetItems, createChangeset, proposeImportChanges } from '@/lib/ai/changeset';
+import { reviewChangeset } from '@/store/changesetStore';
+import type { FigmaFrameSummary } from '@/lib/integrations/figma';
+
+interface FigmaImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lists a Figma file's frames and turns the picked ones into screen nodes.
+ * Frames whose names match an existing screen fill that screen instead of
+ * duplicating it; everything goes through changeset review.
+ */
+export function FigmaImportModal({ isOpen, onClose }: FigmaImportModalProps) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const [connection, setConnection] = useState<'loading' | 'connected' | 'disconnected'>('loading');
+  const [fileUrl, setFileUrl] = useState('');
+  const [file, setFile] = useState<{ fileName: string; frames: FigmaFrameSummary[] } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoadingFrames, setIsLoadingFrames] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setConnection('loading');
+    void checkFigmaConnection().then(({ connected }) => {
+      if (!cancelled) setConnection(connected ? 'connected' : 'disconnected');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const matches = useMemo(() => (file ? matchFramesToScreens(file.frames, nodes) : {}), [file, nodes]);
+
+  if (!isOpen) return null;
+
+  const handleConnect = async () => {
+    setError(null);
+    try {
+      const { url } = await getFigmaAuthUrl();
+      window.location.href = url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect Figma.');
+    }
+  };
+
+  const handleLoadFrames = async () => {
+    setError(null);
+    setStatus(null);
+    setIsLoadingFrames(true);
+    try {
+      const result = await listFigmaFrames(fileUrl);
+      setFile(result);
+      setSelectedIds(new Set(result.frames.map((frame) => frame.id)));
+      if (result.frames.length === 0) {
+        setStatus('No frames found in this file.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load frames from Figma.');
+    } finally {
+      setIsLoadingFrames(false);
+    }
+  };
+
+  const toggleFrame = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = file !== null && file.frames.length > 0 && selectedIds.size === file.frames.length;
+
+  const handleImport = () => {
+    if (!file) return;
+    const frames = file.frames.filter((frame) => selectedIds.has(frame.id));
+    const currentNodes = useCanvasStore.getState().nodes;
+    const { updates, suggestions, newNodes } = buildFigmaImportChanges(frames, currentNodes, file.fileName);
+
+    const changeset = createChangeset('figmaImport', `Import ${file.fileName} from Figma`, {
+      nodeChanges: proposeImportChanges(updates, suggestions, currentNodes),
+      newNodes,
+    });
+    if (countChangesetItems(changeset) > 0) {
+      reviewChangeset(changeset);
+      onClose();
+      return;
+    }
+
+    setStatus('Matched screens already have these details. No changes needed.');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
+      <div className="w-full max-h-[90vh] max-w-2xl overflow-auto rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-6 py-4">
+          <div className="flex items-center gap-2 text-slate-100">
+            <Figma size={18} />
+            <h2 className="text-lg font-semibold">Import from Figma</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 text-slate-300 hover:bg-slate-800 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 pt-4">
+          {connection === 'loading' && (
+            <p className="flex items-center gap-2 text-sm text-slate-400">
+              <Loader2 size={14} className="animate-spin" />
+              Checking Figma connection...
+            </p>
+          )}
+
+          {connection === 'disconnected' && (
+            <>
+              <p className="text-sm text-slate-300">Connect Figma to import frames from your design files.</p>
+              <button
+                onClick={handleConnect}
+                className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400"
+              >
+                Connect Figma
+              </button>
+            </>
+          )}
+
+          {connection === 'connected' && (
+            <>
+              <p className="text-sm text-slate-300">
+                Paste a Figma file link. Each frame you pick becomes a screen; frames named like an existing screen update it instead.
+              </p>
+              <div className="mt-3 flex gap-2">
+                <input
+                  value={fileUrl}
+                  onChange={(event) => setFileUrl(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter' && fileUrl.trim()) void handleLoadFrames();
+                  }}
+                  placeholder="https://www.figma.com/design/..."
+                  aria-label="Figma file link"
+                  className="flex-1 rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-violet-400 focus:outline-none"
+                />
+                <button
+                  onClick={handleLoadFrames}
+                  disabled={!fileUrl.trim() || isLoadingFrames}
+                  className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-slate-700 disabled:opacity-50"
+                >
+                  {isLoadingFrames && <Loader2 size={14} className="animate-spin" />}
+                  Load frames
+                </button>
+              </div>
+            </>
+          )}
+
+          {file && file.frames.length > 0 && (
+            <>
+              <div className="mb-3 mt-4 flex items-center gap-2">
+                <button
+                  onClick={() => setSelectedIds(allSelected ? new Set() : new Set(file.frames.map((frame) => frame.id)))}
+                  className="text-xs text-violet-400 hover:text-violet-300 transition-colors"
+                >
+                  {allSelected ? 'Deselect all' : 'Select all'}
+                </button>
+                <span className="text-xs text-slate-500">
+                  {selectedIds.size} of {file.frames.length} frames from {file.fileName}
+                </span>
+              </div>
+
+              <div className="max-h-80 overflow-y-auto space-y-1.5">
+                {file.frames.map((frame) => {
+                  const isSelected = selectedIds.has(frame.id);
+                  const match = matches[frame.id];
+                  return (
+                    <button
+                      key={frame.id}
+                      onClick={() => toggleFrame(frame.id)}
+                      className={`flex w-full items-center gap-3 rounded-lg border px-3 py-2 text-left transition-colors ${
+                        isSelected
+                          ? 'border-violet-500/50 bg-violet-500/10'
+                          : 'border-white/5 bg-slate-800/50 hover:border-white/10'
+                      }`}
+                    >
+                      <div
+                        className={`flex h-4 w-4 shrink-0 items-center justify-center rounded border ${
+                          isSelected ? 'border-violet-500 bg-violet-500' : 'border-slate-500'
+                        }`}
+                      >
+                        {isSelected && <Check size={10} className="text-white" />}
+                      </div>
+                      <div className="flex h-12 w-16 shrink-0 items-center justify-center overflow-hidden rounded border border-white/10 bg-slate-950">
+                        {frame.thumbnailUrl ? (
+                          // Figma render URLs are short-lived and external, so next/image optimisation doesn't apply
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img src={frame.thumbnailUrl} alt="" className="h-full w-full object-contain" />
+                        ) : (
+                          <Monitor size={16} className="text-slate-600" />
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <span className="block truncate text-sm text-slate-200">{frame.name}</span>
+                        <span className="text-xs text-slate-500">
+                          {frame.pageName} &middot; {frame.keyElements.length} element{frame.keyElements.length === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                      {match ? (
+                        <span className="shrink-0 rounded-full bg-sky-500/15 px-2 py-0.5 text-[10px] text-sky-300">
+                          Updates {match.screenName}
+                        </span>
+                      ) : (
+                        <span className="shrink-0 rounded-full bg-emerald-500/15 px-2 py-0.5 text-[10px] text-emerald-300">
+                          New screen
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <button
+                onClick={handleImport}
+                disabled={selectedIds.size === 0}
+                className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Import {selectedIds.size > 0 ? `${selectedIds.size} ` : ''}Frame{selectedIds.size !== 1 ? 's' : ''}
+              </button>
+            </>
+          )}
+
+          {status && (
+            <div className="mt-3 rounded-lg border border-emerald-500/20 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+              {status}
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-3 rounded-lg border border-red-500/20 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
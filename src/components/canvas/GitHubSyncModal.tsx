@@ -0,0 +1,388 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Check, Download, ExternalLink, Github, Loader2 } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { useTaskStore } from '@/store/taskStore';
+import {
+  checkGitHubConnection,
+  getGitHubAuthUrl,
+  getGitHubWebhook,
+  listGitHubProjects,
+  listGitHubRepositories,
+  syncFeaturesToGitHub,
+  type GitHubWebhook,
+} from '@/app/actions/integrations/github';
+import { githubStateToStatus, shouldCompleteLinkedTasks } from '@/lib/integrations/githubSync';
+import { buildGitHubIssue, generateGitHubIssues } from '@/lib/export/todoMarkdownGenerator';
+import { scopeNodesToMilestone } from '@/lib/milestones/milestones';
+import type { GitHubProject, GitHubRepository } from '@/lib/integrations/github';
+import type { ProjectMilestone } from '@/types/project';
+
+interface GitHubSyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Limit the feature list (and JSON download) to one milestone */
+  milestone?: Pick<ProjectMilestone, 'id' | 'name' | 'target_date'>;
+}
+
+/**
+ * Creates or updates a GitHub issue per selected feature, optionally adding
+ * them to a GitHub Project. Already-synced features update their issue.
+ */
+export function GitHubSyncModal({ isOpen, onClose, milestone }: GitHubSyncModalProps) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const projectId = useCanvasStore((s) => s.projectId);
+  const updateNodeData = useCanvasStore((s) => s.updateNodeData);
+  const featureNodes = (milestone ? scopeNodesToMilestone(nodes, milestone.id) : nodes).filter(
+    (n) => n.type === 'feature'
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [connection, setConnection] = useState<'loading' | 'connected' | 'disconnected' | 'error'>('loading');
+  const [repos, setRepos] = useState<GitHubRepository[]>([]);
+  const [repo, setRepo] = useState('');
+  const [projects, setProjects] = useState<GitHubProject[]>([]);
+  const [githubProjectId, setGithubProjectId] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [webhook, setWebhook] = useState<GitHubWebhook | 'loading' | 'error' | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const load = async () => {
+      setConnection('loading');
+      try {
+        const { connected } = await checkGitHubConnection();
+        if (!connected) {
+          if (!cancelled) setConnection('disconnected');
+          return;
+        }
+        const repoList = await listGitHubRepositories();
+        if (cancelled) return;
+        setRepos(repoList);
+        setRepo((current) => current || repoList[0]?.fullName || '');
+        setConnection('connected');
+      } catch {
+        if (!cancelled) setConnection('error');
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const owner = repos.find((r) => r.fullName === repo)?.owner ?? '';
+
+  useEffect(() => {
+    if (!isOpen || !owner) return;
+    let cancelled = false;
+    setProjects([]);
+    setGithubProjectId('');
+    listGitHubProjects(owner)
+      .then((list) => {
+        if (!cancelled) setProjects(list);
+      })
+      .catch(() => {
+        // Projects are optional; without the project scope the list is just empty
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, owner]);
+
+  if (!isOpen) return null;
+
+  const toggleFeature = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = featureNodes.length > 0 && selectedIds.size === featureNodes.length;
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const handleConnect = async () => {
+    try {
+      const { url } = await getGitHubAuthUrl();
+      window.location.href = url;
+    } catch {
+      setConnection('error');
+    }
+  };
+
+  // Only fetched (and created on first use) when the user opens the webhook details
+  const handleWebhookToggle = async (open: boolean) => {
+    if (!open || (webhook && webhook !== 'error')) return;
+    setWebhook('loading');
+    try {
+      setWebhook(await getGitHubWebhook());
+    } catch {
+      setWebhook('error');
+    }
+  };
+
+  const handleSync = async () => {
+    if (!projectId || !repo) return;
+    const features = featureNodes.flatMap((node) =>
+      node.type === 'feature' && selectedIds.has(node.id) ? [{ nodeId: node.id, issue: buildGitHubIssue(node.data) }] : []
+    );
+    if (features.length === 0) return;
+
+    setIsSyncing(true);
+    try {
+      const results = await syncFeaturesToGitHub(projectId, repo, githubProjectId || null, features);
+      let created = 0;
+      let updated = 0;
+      results.forEach((result) => {
+        if ('error' in result) return;
+        if (result.created) {
+          created++;
+        } else {
+          updated++;
+        }
+
+        const node = useCanvasStore.getState().nodes.find((n) => n.id === result.nodeId);
+        const status =
+          node?.type === 'feature' ? githubStateToStatus(result.issue.state, result.stateReason, node.data.status) : null;
+        updateNodeData(result.nodeId, { githubIssue: result.issue, ...(status ? { status } : {}) });
+
+        // The server already marked these done; mirror that in the local task cache
+        if (shouldCompleteLinkedTasks(result.issue.state, result.stateReason)) {
+          const { getNodeTasks, updateStatus } = useTaskStore.getState();
+          getNodeTasks(result.nodeId)
+            .filter((task) => task.status !== 'done')
+            .forEach((task) => updateStatus(task.id, 'done'));
+        }
+      });
+      const failed = results.length - created - updated;
+      setSelectedIds(new Set());
+      showMessage(
+        `Created ${created}, updated ${updated} GitHub issue${created + updated === 1 ? '' : 's'}` +
+          (failed > 0 ? `; ${failed} failed` : '')
+      );
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'Failed to sync with GitHub');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDownloadJSON = () => {
+    const selected = featureNodes.filter((n) => selectedIds.size === 0 || selectedIds.has(n.id));
+    const content = JSON.stringify(generateGitHubIssues(selected, { milestone }), null, 2);
+    const blob = new Blob([content], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'github-issues.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
+      <div className="w-full max-w-lg rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-6 py-4">
+          <div className="flex items-center gap-2 text-slate-100">
+            <Github size={18} className="text-violet-400" />
+            <h2 className="text-lg font-semibold">GitHub Issues{milestone ? `: ${milestone.name}` : ''}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 text-slate-300 hover:bg-slate-800 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 pt-4">
+          <p className="mb-3 text-sm text-slate-300">
+            Select features to sync. Synced features update their existing issue; closing an issue marks the feature
+            Built and its tasks done.
+          </p>
+
+          <div className="mb-3 flex items-center gap-2">
+            <button
+              onClick={() => setSelectedIds(allSelected ? new Set() : new Set(featureNodes.map((n) => n.id)))}
+              className="text-xs text-violet-400 hover:text-violet-300 transition-colors"
+            >
+              {allSelected ? 'Deselect all' : 'Select all'}
+            </button>
+            <span className="text-xs text-slate-500">
+              {selectedIds.size} of {featureNodes.length} selected
+            </span>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto space-y-1.5">
+            {featureNodes.map((node) => {
+              if (node.type !== 'feature') return null;
+              const isSelected = selectedIds.has(node.id);
+              const githubIssue = node.data.githubIssue;
+              return (
+                <button
+                  key={node.id}
+                  onClick={() => toggleFeature(node.id)}
+                  className={`flex w-full items-center gap-3 rounded-lg border px-3 py-2.5 text-left transition-colors ${
+                    isSelected
+                      ? 'border-violet-500/50 bg-violet-500/10'
+                      : 'border-white/5 bg-slate-800/50 hover:border-white/10'
+                  }`}
+                >
+                  <div
+                    className={`flex h-4 w-4 shrink-0 items-center justify-center rounded border ${
+                      isSelected ? 'border-violet-500 bg-violet-500' : 'border-slate-500'
+                    }`}
+                  >
+                    {isSelected && <Check size={10} className="text-white" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <span className="text-sm text-slate-200 truncate block">
+                      {node.data.featureName || 'Unnamed Feature'}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      {node.data.status} &middot; {node.data.priority}
+                    </span>
+                  </div>
+                  {githubIssue && (
+                    <a
+                      href={githubIssue.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="flex shrink-0 items-center gap-1 text-xs text-violet-300 hover:text-violet-200"
+                    >
+                      #{githubIssue.number}
+                      {githubIssue.state === 'closed' && ' (closed)'}
+                      <ExternalLink size={10} />
+                    </a>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {message && (
+            <div className="mt-3 rounded-lg border border-emerald-500/20 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+              {message}
+            </div>
+          )}
+
+          {connection === 'connected' && (
+            <div className="mt-4 space-y-2">
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <span className="w-16">Repo</span>
+                <select
+                  value={repo}
+                  onChange={(e) => setRepo(e.target.value)}
+                  aria-label="GitHub repository"
+                  className="flex-1 rounded-md border border-white/10 bg-slate-800 px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-violet-400"
+                >
+                  {repos.map((r) => (
+                    <option key={r.fullName} value={r.fullName}>
+                      {r.fullName}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <span className="w-16">Project</span>
+                <select
+                  value={githubProjectId}
+                  onChange={(e) => setGithubProjectId(e.target.value)}
+                  aria-label="GitHub project"
+                  className="flex-1 rounded-md border border-white/10 bg-slate-800 px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-violet-400"
+                >
+                  <option value="">No project</option>
+                  {projects.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.title}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <details
+                onToggle={(e) => void handleWebhookToggle(e.currentTarget.open)}
+                className="rounded-md border border-white/10 bg-slate-800/50 px-3 py-2 text-xs text-slate-300"
+              >
+                <summary className="cursor-pointer text-slate-200">Sync issue state back from GitHub</summary>
+                <p className="mt-2 text-slate-400">
+                  Add a webhook to {repo || 'the repository'} with this URL and secret, content type application/json,
+                  and the Issues event.
+                </p>
+                {webhook === 'loading' && (
+                  <p className="mt-2 flex items-center gap-2 text-slate-400">
+                    <Loader2 size={12} className="animate-spin" />
+                    Loading webhook...
+                  </p>
+                )}
+                {webhook === 'error' && <p className="mt-2 text-red-300">Couldn&rsquo;t load your webhook.</p>}
+                {webhook && typeof webhook === 'object' && (
+                  <dl className="mt-2 space-y-1">
+                    <dt className="text-slate-500">Payload URL</dt>
+                    <dd className="break-all font-mono text-slate-200">
+                      {`${window.location.origin}/api/integrations/github/webhook?hook=${webhook.hookId}`}
+                    </dd>
+                    <dt className="text-slate-500">Secret</dt>
+                    <dd className="break-all font-mono text-slate-200">{webhook.secret}</dd>
+                  </dl>
+                )}
+              </details>
+            </div>
+          )}
+
+          {connection === 'loading' && (
+            <p className="mt-4 flex items-center gap-2 text-sm text-slate-400">
+              <Loader2 size={14} className="animate-spin" />
+              Checking GitHub connection...
+            </p>
+          )}
+
+          {connection === 'error' && (
+            <p className="mt-4 text-sm text-red-300">Couldn&rsquo;t reach GitHub. Try reconnecting.</p>
+          )}
+
+          {connection === 'disconnected' || connection === 'error' ? (
+            <button
+              onClick={handleConnect}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400"
+            >
+              Connect GitHub
+            </button>
+          ) : (
+            <button
+              onClick={handleSync}
+              disabled={selectedIds.size === 0 || !repo || !projectId || isSyncing}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isSyncing && <Loader2 size={14} className="inline mr-2 animate-spin" />}
+              Sync {selectedIds.size > 0 ? `${selectedIds.size} ` : ''}Feature{selectedIds.size !== 1 ? 's' : ''} to GitHub
+            </button>
+          )}
+
+          <button
+            onClick={handleDownloadJSON}
+            className="mt-2 w-full rounded-lg border border-white/10 px-4 py-2.5 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+          >
+            <Download size={14} className="inline mr-2" />
+            Download as JSON instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
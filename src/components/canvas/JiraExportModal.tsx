@@ -0,0 +1,386 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Check, ExternalLink, Loader2, SquareKanban } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import {
+  checkJiraConnection,
+  exportFeaturesToJira,
+  getJiraAuthUrl,
+  listJiraIssueTypes,
+  listJiraProjects,
+  listJiraSites,
+  selectJiraSite,
+  type JiraFeatureExport,
+} from '@/app/actions/integrations/jira';
+import {
+  childIssueTypes,
+  featureIssueTypes,
+  pickChildIssueType,
+  pickFeatureIssueType,
+  toJiraIssueDraft,
+} from '@/lib/integrations/jiraSync';
+import type { JiraIssueType, JiraProject, JiraSite } from '@/lib/integrations/jira';
+
+interface JiraExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SELECT_CLASS =
+  'flex-1 rounded-md border border-white/10 bg-slate-800 px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-violet-400';
+
+function siteLabel(site: JiraSite): string {
+  return `${site.name} (${site.url.replace(/^https?:\/\//, '')})`;
+}
+
+/**
+ * Creates a Jira issue per selected feature (an Epic by default) with a
+ * child issue per acceptance criterion and implementation step.
+ */
+export function JiraExportModal({ isOpen, onClose }: JiraExportModalProps) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const projectId = useCanvasStore((s) => s.projectId);
+  const updateNodeData = useCanvasStore((s) => s.updateNodeData);
+  const featureNodes = nodes.filter((n) => n.type === 'feature');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [connection, setConnection] = useState<'loading' | 'connected' | 'disconnected' | 'error'>('loading');
+  const [sites, setSites] = useState<JiraSite[]>([]);
+  const [siteId, setSiteId] = useState('');
+  const [projects, setProjects] = useState<JiraProject[]>([]);
+  const [jiraProjectId, setJiraProjectId] = useState('');
+  const [issueTypes, setIssueTypes] = useState<JiraIssueType[]>([]);
+  const [issueTypeId, setIssueTypeId] = useState('');
+  const [childIssueTypeId, setChildIssueTypeId] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const load = async () => {
+      setConnection('loading');
+      try {
+        const { connected } = await checkJiraConnection();
+        if (!connected) {
+          if (!cancelled) setConnection('disconnected');
+          return;
+        }
+        const [siteList, projectList] = await Promise.all([listJiraSites(), listJiraProjects()]);
+        if (cancelled) return;
+        setSites(siteList.sites);
+        setSiteId(siteList.selectedId);
+        setProjects(projectList);
+        setJiraProjectId((current) => current || projectList[0]?.id || '');
+        setConnection('connected');
+      } catch {
+        if (!cancelled) setConnection('error');
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !jiraProjectId) return;
+    let cancelled = false;
+    setIssueTypes([]);
+    listJiraIssueTypes(jiraProjectId)
+      .then((types) => {
+        if (cancelled) return;
+        const parent = pickFeatureIssueType(types);
+        setIssueTypes(types);
+        setIssueTypeId(parent?.id ?? '');
+        setChildIssueTypeId(pickChildIssueType(types, parent)?.id ?? '');
+      })
+      .catch(() => {
+        if (!cancelled) setConnection('error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, jiraProjectId]);
+
+  if (!isOpen) return null;
+
+  const parentType = issueTypes.find((type) => type.id === issueTypeId);
+  const childTypes = childIssueTypes(issueTypes, parentType);
+
+  /** Features already exported can't be exported to Jira again */
+  const selectableNodes = featureNodes.filter((n) => n.type === 'feature' && !n.data.jiraIssue);
+  const allSelected = selectableNodes.length > 0 && selectedIds.size === selectableNodes.length;
+
+  const toggleFeature = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const handleConnect = async () => {
+    try {
+      const { url } = await getJiraAuthUrl();
+      window.location.href = url;
+    } catch {
+      setConnection('error');
+    }
+  };
+
+  /** Projects and issue types belong to a site, so switching reloads them */
+  const handleSiteChange = async (id: string) => {
+    setSiteId(id);
+    setConnection('loading');
+    try {
+      await selectJiraSite(id);
+      const projectList = await listJiraProjects();
+      setProjects(projectList);
+      setJiraProjectId(projectList[0]?.id || '');
+      setConnection('connected');
+    } catch {
+      setConnection('error');
+    }
+  };
+
+  const handleIssueTypeChange = (id: string) => {
+    setIssueTypeId(id);
+    setChildIssueTypeId(pickChildIssueType(issueTypes, issueTypes.find((type) => type.id === id))?.id ?? '');
+  };
+
+  const handleExport = async () => {
+    if (!projectId || !jiraProjectId || !issueTypeId) return;
+    const features = selectableNodes.flatMap((node): JiraFeatureExport[] => {
+      const draft = selectedIds.has(node.id) ? toJiraIssueDraft(node) : null;
+      return draft ? [{ nodeId: node.id, draft }] : [];
+    });
+    if (features.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      const results = await exportFeaturesToJira(
+        projectId,
+        { projectId: jiraProjectId, issueTypeId, childIssueTypeId: childIssueTypeId || null },
+        features
+      );
+      let created = 0;
+      results.forEach((result) => {
+        if ('issue' in result) {
+          updateNodeData(result.nodeId, { jiraIssue: result.issue });
+          created++;
+        }
+      });
+      const failed = results.length - created;
+      setSelectedIds(new Set());
+      showMessage(`Created ${created} Jira issue${created === 1 ? '' : 's'}` + (failed > 0 ? `; ${failed} failed` : ''));
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'Failed to export to Jira');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
+      <div className="w-full max-w-lg rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-6 py-4">
+          <div className="flex items-center gap-2 text-slate-100">
+            <SquareKanban size={18} className="text-violet-400" />
+            <h2 className="text-lg font-semibold">Jira Export</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 text-slate-300 hover:bg-slate-800 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 pt-4">
+          <p className="mb-3 text-sm text-slate-300">
+            Select features to create as Jira issues. Acceptance criteria and implementation steps become child
+            issues, and status changes in Jira sync back to the canvas.
+          </p>
+
+          <div className="mb-3 flex items-center gap-2">
+            <button
+              onClick={() => setSelectedIds(allSelected ? new Set() : new Set(selectableNodes.map((n) => n.id)))}
+              className="text-xs text-violet-400 hover:text-violet-300 transition-colors"
+            >
+              {allSelected ? 'Deselect all' : 'Select all'}
+            </button>
+            <span className="text-xs text-slate-500">
+              {selectedIds.size} of {featureNodes.length} selected
+            </span>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto space-y-1.5">
+            {featureNodes.map((node) => {
+              if (node.type !== 'feature') return null;
+              const isSelected = selectedIds.has(node.id);
+              const jiraIssue = node.data.jiraIssue;
+              return (
+                <button
+                  key={node.id}
+                  onClick={() => toggleFeature(node.id)}
+                  disabled={Boolean(jiraIssue)}
+                  className={`flex w-full items-center gap-3 rounded-lg border px-3 py-2.5 text-left transition-colors disabled:cursor-default disabled:opacity-60 ${
+                    isSelected
+                      ? 'border-violet-500/50 bg-violet-500/10'
+                      : 'border-white/5 bg-slate-800/50 hover:border-white/10'
+                  }`}
+                >
+                  <div
+                    className={`flex h-4 w-4 shrink-0 items-center justify-center rounded border ${
+                      isSelected ? 'border-violet-500 bg-violet-500' : 'border-slate-500'
+                    }`}
+                  >
+                    {isSelected && <Check size={10} className="text-white" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <span className="text-sm text-slate-200 truncate block">
+                      {node.data.featureName || 'Unnamed Feature'}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      {node.data.status} &middot; {node.data.priority}
+                    </span>
+                  </div>
+                  {jiraIssue && (
+                    <a
+                      href={jiraIssue.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="flex shrink-0 items-center gap-1 text-xs text-violet-300 hover:text-violet-200"
+                    >
+                      {jiraIssue.key}
+                      <ExternalLink size={10} />
+                    </a>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {message && (
+            <div className="mt-3 rounded-lg border border-emerald-500/20 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+              {message}
+            </div>
+          )}
+
+          {connection === 'connected' && (
+            <div className="mt-4 space-y-2">
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <span className="w-20">Site</span>
+                {sites.length > 1 ? (
+                  <select
+                    value={siteId}
+                    onChange={(e) => void handleSiteChange(e.target.value)}
+                    aria-label="Jira site"
+                    className={SELECT_CLASS}
+                  >
+                    {sites.map((site) => (
+                      <option key={site.id} value={site.id}>
+                        {siteLabel(site)}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="flex-1 truncate text-slate-200">
+                    {sites[0] ? siteLabel(sites[0]) : 'Unknown site'}
+                  </span>
+                )}
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <span className="w-20">Project</span>
+                <select
+                  value={jiraProjectId}
+                  onChange={(e) => setJiraProjectId(e.target.value)}
+                  aria-label="Jira project"
+                  className={SELECT_CLASS}
+                >
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name} ({project.key})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <span className="w-20">Feature as</span>
+                <select
+                  value={issueTypeId}
+                  onChange={(e) => handleIssueTypeChange(e.target.value)}
+                  aria-label="Jira issue type for features"
+                  className={SELECT_CLASS}
+                >
+                  {featureIssueTypes(issueTypes).map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <span className="w-20">Children as</span>
+                <select
+                  value={childIssueTypeId}
+                  onChange={(e) => setChildIssueTypeId(e.target.value)}
+                  aria-label="Jira issue type for child issues"
+                  className={SELECT_CLASS}
+                >
+                  <option value="">No child issues</option>
+                  {childTypes.map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {connection === 'loading' && (
+            <p className="mt-4 flex items-center gap-2 text-sm text-slate-400">
+              <Loader2 size={14} className="animate-spin" />
+              Checking Jira connection...
+            </p>
+          )}
+
+          {connection === 'error' && (
+            <p className="mt-4 text-sm text-red-300">Couldn&rsquo;t reach Jira. Try reconnecting.</p>
+          )}
+
+          {connection === 'disconnected' || connection === 'error' ? (
+            <button
+              onClick={handleConnect}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400"
+            >
+              Connect Jira
+            </button>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={selectedIds.size === 0 || !jiraProjectId || !issueTypeId || !projectId || isExporting}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isExporting && <Loader2 size={14} className="inline mr-2 animate-spin" />}
+              Create {selectedIds.size > 0 ? `${selectedIds.size} ` : ''}Jira Issue{selectedIds.size !== 1 ? 's' : ''}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ const SHORTCUTS = [
   { keys: [`${mod}+Z`], description: 'Undo' },
   { keys: [`${mod}+Shift+Z`], description: 'Redo' },
   { keys: ['Delete', 'Backspace'], description: 'Delete selected nodes' },
+  { keys: [`${mod}+K`], description: 'Search and filter nodes' },
   { keys: ['Scroll'], description: 'Zoom in/out' },
   { keys: ['Click + Drag'], description: 'Pan canvas' },
   { keys: ['Shift + Click'], description: 'Multi-select nodes' },
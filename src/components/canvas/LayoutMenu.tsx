@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Network, RotateCcw } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { LAYOUT_MODE_CONFIGS } from '@/lib/constants';
+import type { LayoutMode } from '@/types/nodes';
+
+const LAYOUT_MODES = Object.keys(LAYOUT_MODE_CONFIGS) as LayoutMode[];
+
+interface LayoutMenuProps {
+  onResetLayout: () => void;
+}
+
+export function LayoutMenu({ onResetLayout }: LayoutMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedOnly, setSelectedOnly] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const applyLayout = useCanvasStore((s) => s.applyLayout);
+  const selectedCount = useCanvasStore((s) => s.nodes.filter((n) => n.selected).length);
+  const canUseSelection = selectedCount > 1;
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const handleApply = (mode: LayoutMode) => {
+    applyLayout(mode, { selectedOnly: selectedOnly && canUseSelection });
+    setIsOpen(false);
+  };
+
+  const handleReset = () => {
+    onResetLayout();
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Arrange nodes"
+        className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-slate-700"
+      >
+        <Network size={16} />
+        <span className="hidden xl:inline">Layout</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 rounded-lg border border-white/10 bg-slate-800 shadow-xl">
+          <div className="border-b border-white/5 p-3">
+            <h3 className="text-sm font-semibold text-white">Auto Layout</h3>
+            <label
+              className={`mt-2 flex items-center gap-2 text-xs ${
+                canUseSelection ? 'text-slate-300' : 'text-slate-500'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selectedOnly && canUseSelection}
+                disabled={!canUseSelection}
+                onChange={(e) => setSelectedOnly(e.target.checked)}
+                className="accent-violet-500"
+              />
+              {canUseSelection ? `Selected nodes only (${selectedCount})` : 'Select 2+ nodes to arrange a selection'}
+            </label>
+          </div>
+
+          <div className="p-2">
+            {LAYOUT_MODES.map((mode) => (
+              <button
+                key={mode}
+                onClick={() => handleApply(mode)}
+                className="flex w-full flex-col rounded-lg p-3 text-left transition-colors hover:bg-slate-700/50"
+              >
+                <span className="text-sm font-medium text-white">{LAYOUT_MODE_CONFIGS[mode].label}</span>
+                <span className="mt-0.5 text-xs text-slate-400">{LAYOUT_MODE_CONFIGS[mode].description}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-white/5 p-2">
+            <button
+              onClick={handleReset}
+              className="flex w-full items-center gap-3 rounded-lg p-3 text-left text-sm text-slate-300 transition-colors hover:bg-slate-700/50"
+            >
+              <RotateCcw size={16} className="shrink-0 text-slate-400" />
+              Reset to loaded layout
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useMemo, useState, type DragEvent, type FormEvent } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Flag, Plus, Trash2, X } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { useMilestoneStore } from '@/store/milestoneStore';
+import { StatusBadge } from '@/components/nodes/StatusBadge';
+import { NODE_TYPE_CONFIGS } from '@/lib/constants';
+import { getNodeDisplayName } from '@/lib/export/exportContextUtils';
+import {
+  MAX_MILESTONE_NAME_LENGTH,
+  getMilestoneNodes,
+  getMilestoneProgress,
+  isMilestoneOverdue,
+  type MilestoneProgress,
+} from '@/lib/milestones/milestones';
+import type { SpexlyNode } from '@/types/nodes';
+import type { ProjectMilestone } from '@/types/project';
+
+const DRAG_MIME = 'application/x-spexly-node';
+
+const inputClass =
+  'rounded-lg border border-slate-600/50 bg-slate-900/50 px-3 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-violet-400 focus:ring-1 focus:ring-violet-400/30 transition-colors';
+
+interface MilestoneBoardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function ProgressSummary({ progress, overdue }: { progress: MilestoneProgress; overdue: boolean }) {
+  const total = progress.featureCount + progress.screenCount;
+  return (
+    <div className="space-y-1">
+      <div className="h-1.5 overflow-hidden rounded-full bg-slate-700">
+        <div className="h-full rounded-full bg-emerald-500 transition-all" style={{ width: `${progress.percent}%` }} />
+      </div>
+      <div className="flex items-center justify-between text-[11px] text-slate-400">
+        <span>
+          {progress.builtFeatureCount + progress.completedScreenCount}/{total} done · {progress.percent}%
+        </span>
+        {progress.remainingHours > 0 && <span>{progress.remainingHours}h left</span>}
+      </div>
+      {overdue && (
+        <div className="flex items-center gap-1 text-[11px] text-amber-400">
+          <AlertTriangle size={11} />
+          Past target date
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NodeCard({ node, readOnly }: { node: SpexlyNode; readOnly: boolean }) {
+  const setSidebarNodeId = useCanvasStore((s) => s.setSidebarNodeId);
+  const config = NODE_TYPE_CONFIGS[node.type as 'feature' | 'screen'];
+  const Icon = config.icon;
+
+  return (
+    <button
+      draggable={!readOnly}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_MIME, node.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onClick={() => setSidebarNodeId(node.id)}
+      className="flex w-full items-center gap-2 rounded-lg border border-white/5 bg-slate-800/80 px-3 py-2 text-left transition-colors hover:border-white/15"
+    >
+      <Icon size={14} className="shrink-0" style={{ color: config.color }} />
+      <span
+        className={`min-w-0 flex-1 truncate text-sm ${node.data.completed ? 'text-slate-500 line-through' : 'text-slate-200'}`}
+      >
+        {getNodeDisplayName(node)}
+      </span>
+      {node.type === 'feature' && <StatusBadge status={node.data.status} />}
+    </button>
+  );
+}
+
+/**
+ * Release planning view shown over the canvas: one column per milestone in
+ * release order plus an Unscheduled column. Features and screens are dragged
+ * between columns to (re)plan them.
+ */
+export function MilestoneBoard({ isOpen, onClose }: MilestoneBoardProps) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const readOnly = useCanvasStore((s) => s.readOnly);
+  const assignMilestone = useCanvasStore((s) => s.assignMilestone);
+  const milestones = useMilestoneStore((s) => s.milestones);
+  const loading = useMilestoneStore((s) => s.loading);
+  const loadError = useMilestoneStore((s) => s.error);
+  const addMilestone = useMilestoneStore((s) => s.addMilestone);
+  const editMilestone = useMilestoneStore((s) => s.editMilestone);
+  const removeMilestone = useMilestoneStore((s) => s.removeMilestone);
+  const moveMilestone = useMilestoneStore((s) => s.moveMilestone);
+  const [newName, setNewName] = useState('');
+  const [newDate, setNewDate] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const milestoneIds = useMemo(() => new Set(milestones.map((m) => m.id)), [milestones]);
+
+  if (!isOpen) return null;
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const created = await addMilestone({ name: newName, targetDate: newDate || null });
+    if (created) {
+      setNewName('');
+      setNewDate('');
+    }
+  };
+
+  const handleDelete = async (milestone: ProjectMilestone) => {
+    const planned = getMilestoneNodes(nodes, milestone.id, milestoneIds);
+    const detail = planned.length > 0 ? ` Its ${planned.length} item(s) become unscheduled.` : '';
+    if (!confirm(`Delete milestone "${milestone.name}"?${detail}`)) return;
+    if (await removeMilestone(milestone.id)) {
+      assignMilestone(
+        planned.map((n) => n.id),
+        null
+      );
+    }
+  };
+
+  const dropHandlers = (columnKey: string, milestoneId: string | null) =>
+    readOnly
+      ? {}
+      : {
+          onDragOver: (e: DragEvent) => {
+            if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+            e.preventDefault();
+            setDropTarget(columnKey);
+          },
+          onDragLeave: () => setDropTarget((current) => (current === columnKey ? null : current)),
+          onDrop: (e: DragEvent) => {
+            e.preventDefault();
+            setDropTarget(null);
+            const nodeId = e.dataTransfer.getData(DRAG_MIME);
+            if (nodeId) assignMilestone([nodeId], milestoneId);
+          },
+        };
+
+  const renderColumn = (milestone: ProjectMilestone | null, index: number) => {
+    const milestoneId = milestone?.id ?? null;
+    const columnKey = milestoneId ?? 'unscheduled';
+    const planned = getMilestoneNodes(nodes, milestoneId, milestoneIds);
+    const progress = getMilestoneProgress(nodes, milestoneId, milestoneIds);
+
+    return (
+      <section
+        key={columnKey}
+        aria-label={milestone ? `Milestone ${milestone.name}` : 'Unscheduled'}
+        className={`flex w-72 shrink-0 flex-col rounded-xl border bg-slate-900/90 ${
+          dropTarget === columnKey ? 'border-violet-400/60' : 'border-white/10'
+        }`}
+        {...dropHandlers(columnKey, milestoneId)}
+      >
+        <div className="space-y-2 border-b border-white/10 p-3">
+          {milestone ? (
+            <>
+              <div className="flex items-center gap-1">
+                <Flag size={14} className="shrink-0 text-violet-400" />
+                <input
+                  key={`${milestone.id}-${milestone.name}`}
+                  defaultValue={milestone.name}
+                  maxLength={MAX_MILESTONE_NAME_LENGTH}
+                  disabled={readOnly}
+                  aria-label="Milestone name"
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (!name) e.target.value = milestone.name;
+                    else if (name !== milestone.name) void editMilestone(milestone.id, { name });
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="min-w-0 flex-1 rounded bg-transparent px-1 text-sm font-semibold text-slate-100 focus:bg-slate-800 focus:outline-none disabled:cursor-default"
+                />
+                {!readOnly && (
+                  <>
+                    <button
+                      onClick={() => void moveMilestone(milestone.id, -1)}
+                      disabled={index === 0}
+                      aria-label="Move earlier"
+                      className="rounded p-1 text-slate-500 hover:bg-slate-800 hover:text-white disabled:opacity-30"
+                    >
+                      <ChevronLeft size={14} />
+                    </button>
+                    <button
+                      onClick={() => void moveMilestone(milestone.id, 1)}
+                      disabled={index === milestones.length - 1}
+                      aria-label="Move later"
+                      className="rounded p-1 text-slate-500 hover:bg-slate-800 hover:text-white disabled:opacity-30"
+                    >
+                      <ChevronRight size={14} />
+                    </button>
+                    <button
+                      onClick={() => void handleDelete(milestone)}
+                      aria-label={`Delete ${milestone.name}`}
+                      className="rounded p-1 text-slate-500 hover:bg-slate-800 hover:text-red-400"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+              <input
+                type="date"
+                value={milestone.target_date ?? ''}
+                disabled={readOnly}
+                aria-label="Target date"
+                onChange={(e) => void editMilestone(milestone.id, { targetDate: e.target.value || null })}
+                className={`${inputClass} w-full py-1 text-xs`}
+              />
+            </>
+          ) : (
+            <div className="text-sm font-semibold text-slate-300">Unscheduled</div>
+          )}
+          <ProgressSummary
+            progress={progress}
+            overdue={milestone ? isMilestoneOverdue(milestone, progress) : false}
+          />
+        </div>
+
+        <div className="flex-1 space-y-1.5 overflow-y-auto p-2">
+          {planned.length === 0 && (
+            <p className="px-2 py-4 text-center text-xs text-slate-500">
+              {readOnly ? 'Nothing planned' : 'Drag features or screens here'}
+            </p>
+          )}
+          {planned.map((node) => (
+            <NodeCard key={node.id} node={node} readOnly={readOnly} />
+          ))}
+        </div>
+      </section>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-[9] flex flex-col bg-slate-950/95 pt-16">
+      <div className="flex items-center gap-4 px-6 py-3">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+          <Flag size={18} className="text-violet-400" />
+          Milestones
+        </h2>
+        {!readOnly && (
+          <form onSubmit={handleAdd} className="flex items-center gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New milestone, e.g. v1"
+              maxLength={MAX_MILESTONE_NAME_LENGTH}
+              aria-label="New milestone name"
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={newDate}
+              onChange={(e) => setNewDate(e.target.value)}
+              aria-label="New milestone target date"
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="flex items-center gap-1.5 rounded-lg bg-violet-600 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-violet-500 disabled:opacity-40"
+            >
+              <Plus size={14} />
+              Add
+            </button>
+          </form>
+        )}
+        {loading && <span className="text-xs text-slate-500">Loading…</span>}
+        {loadError && <span className="text-xs text-red-400">{loadError}</span>}
+        <button
+          onClick={onClose}
+          className="ml-auto rounded-lg p-2 text-slate-400 hover:bg-slate-800 hover:text-white"
+          aria-label="Close milestones"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-1 items-stretch gap-3 overflow-x-auto px-6 pb-6">
+        {renderColumn(null, -1)}
+        {milestones.map((milestone, index) => renderColumn(milestone, index))}
+      </div>
+    </div>
+  );
+}
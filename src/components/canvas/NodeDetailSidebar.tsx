@@ -4,8 +4,10 @@ import { useState } from 'react';
 import { X } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
 import { NODE_TYPE_CONFIGS, NOTE_COLOR_OPTIONS } from '@/lib/constants';
-import { enhanceFeatureWithAI, enhanceScreenWithAI } from '@/app/actions/enhanceNodeWithAI';
-import { showError } from '@/store/toastStore';
+import { useNodeEnhancement } from '@/hooks/useNodeEnhancement';
+import { MilestoneSelect } from '@/components/nodes/MilestoneSelect';
+import { FeaturePlanPanel } from '@/components/nodes/FeaturePlanPanel';
+import { PromptRunHistory } from '@/components/nodes/PromptRunHistory';
 import type {
   SpexlyNode,
   SpexlyNodeType,
@@ -15,6 +17,7 @@ import type {
   TechStackNodeData,
   PromptNodeData,
   NoteNodeData,
+  GroupNodeData,
   FeaturePriority,
   FeatureStatus,
   FeatureEffort,
@@ -105,6 +108,8 @@ function getNodeTitle(node: SpexlyNode): string {
         : 'Prompt';
     case 'note':
       return (data as NoteNodeData).title || 'Note';
+    case 'group':
+      return (data as GroupNodeData).label || 'Group';
     default:
       return 'Node';
   }
@@ -131,6 +136,8 @@ function NodeFields({ node, updateNodeData }: NodeFieldsProps) {
       return <PromptFields id={node.id} data={node.data as PromptNodeData} update={updateNodeData} />;
     case 'note':
       return <NoteFields id={node.id} data={node.data as NoteNodeData} update={updateNodeData} />;
+    case 'group':
+      return <GroupFields id={node.id} data={node.data as GroupNodeData} update={updateNodeData} />;
     default:
       return null;
   }
@@ -225,7 +232,7 @@ function FeatureFields({
   update: (id: string, d: Record<string, unknown>) => void;
 }) {
   const [showAi, setShowAi] = useState(false);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const { isGenerating, enhance } = useNodeEnhancement(id);
 
   const acceptanceCriteria = Array.isArray(data.acceptanceCriteria) ? data.acceptanceCriteria : [];
   const dependencies = Array.isArray(data.dependencies) ? data.dependencies : [];
@@ -234,49 +241,18 @@ function FeatureFields({
   const relatedFiles = Array.isArray(data.relatedFiles) ? data.relatedFiles : [];
   const tags = Array.isArray(data.tags) ? data.tags : [];
 
-  const handleGenerateAI = async () => {
-    setIsGenerating(true);
-    try {
-      const result = await enhanceFeatureWithAI({
+  const handleGenerateAI = () =>
+    enhance({
+      kind: 'feature',
+      input: {
         featureName: data.featureName,
         summary: data.summary,
         problem: data.problem,
         userStory: data.userStory,
         acceptanceCriteria,
         technicalConstraints: data.technicalConstraints,
-      });
-      if (result.success && result.data) {
-        const updates: Record<string, unknown> = {};
-        // Fill main fields only if currently empty
-        if (!data.summary?.trim() && result.data.summary) updates.summary = result.data.summary;
-        if (!data.problem?.trim() && result.data.problem) updates.problem = result.data.problem;
-        if (!data.userStory?.trim() && result.data.userStory) updates.userStory = result.data.userStory;
-        if (!data.risks?.trim() && result.data.risks) updates.risks = result.data.risks;
-        if (!data.metrics?.trim() && result.data.metrics) updates.metrics = result.data.metrics;
-        if (acceptanceCriteria.length === 0 && result.data.acceptanceCriteria.length > 0) {
-          updates.acceptanceCriteria = result.data.acceptanceCriteria;
-        }
-        if (dependencies.length === 0 && result.data.dependencies.length > 0) {
-          updates.dependencies = result.data.dependencies;
-        }
-        // Always update AI-specific fields
-        updates.aiContext = result.data.aiContext;
-        updates.implementationSteps = result.data.implementationSteps;
-        updates.codeReferences = result.data.codeReferences;
-        updates.testingRequirements = result.data.testingRequirements;
-        updates.relatedFiles = result.data.relatedFiles;
-        updates.technicalConstraints = result.data.technicalConstraints;
-        update(id, updates);
-        setShowAi(true);
-      } else {
-        showError(result.error || 'Failed to generate');
-      }
-    } catch (error) {
-      showError(error instanceof Error ? error.message : 'Failed to generate');
-    } finally {
-      setIsGenerating(false);
-    }
-  };
+      },
+    });
 
   return (
     <>
@@ -323,6 +299,7 @@ function FeatureFields({
           </select>
         </Field>
       </div>
+      <MilestoneSelect nodeId={id} milestoneId={data.milestoneId} className={inputClass} />
 
       <Field label="Dependencies">
         <textarea className={`${inputClass} min-h-[100px] resize-y`} placeholder="One dependency per line" rows={3} value={dependencies.join('\n')} onChange={(e) => update(id, { dependencies: e.target.value.split('\n').map((s) => s.trim()).filter(Boolean) })} />
@@ -337,6 +314,8 @@ function FeatureFields({
         <textarea className={`${inputClass} min-h-[100px] resize-y`} placeholder="Additional context" rows={3} value={data.notes} onChange={(e) => update(id, { notes: e.target.value })} />
       </Field>
 
+      <FeaturePlanPanel nodeId={id} plan={data.implementationPlan} />
+
       {/* AI Context Section */}
       <div className="border-t border-slate-700/50 pt-3">
         <div className="flex items-center justify-between mb-2">
@@ -397,7 +376,7 @@ function ScreenFields({
   update: (id: string, d: Record<string, unknown>) => void;
 }) {
   const [showAi, setShowAi] = useState(false);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const { isGenerating, enhance } = useNodeEnhancement(id);
 
   const keyElements = Array.isArray(data.keyElements) ? data.keyElements : [];
   const userActions = Array.isArray(data.userActions) ? data.userActions : [];
@@ -408,49 +387,17 @@ function ScreenFields({
   const codeReferences = Array.isArray(data.codeReferences) ? data.codeReferences : [];
   const tags = Array.isArray(data.tags) ? data.tags : [];
 
-  const handleGenerateAI = async () => {
-    setIsGenerating(true);
-    try {
-      const result = await enhanceScreenWithAI({
+  const handleGenerateAI = () =>
+    enhance({
+      kind: 'screen',
+      input: {
         screenName: data.screenName,
         purpose: data.purpose ?? '',
         keyElements,
         userActions,
         states,
-      });
-      if (result.success && result.data) {
-        const updates: Record<string, unknown> = {};
-        // Fill main fields only if currently empty
-        if (!data.purpose?.trim() && result.data.purpose) updates.purpose = result.data.purpose;
-        if (!data.navigation?.trim() && result.data.navigation) updates.navigation = result.data.navigation;
-        if (keyElements.length === 0 && result.data.keyElements.length > 0) {
-          updates.keyElements = result.data.keyElements;
-        }
-        if (userActions.length === 0 && result.data.userActions.length > 0) {
-          updates.userActions = result.data.userActions;
-        }
-        if (states.length === 0 && result.data.states.length > 0) {
-          updates.states = result.data.states;
-        }
-        if (dataSources.length === 0 && result.data.dataSources.length > 0) {
-          updates.dataSources = result.data.dataSources;
-        }
-        // Always update AI-specific fields
-        updates.aiContext = result.data.aiContext;
-        updates.componentHierarchy = result.data.componentHierarchy;
-        updates.codeReferences = result.data.codeReferences;
-        updates.testingRequirements = result.data.testingRequirements;
-        update(id, updates);
-        setShowAi(true);
-      } else {
-        showError(result.error || 'Failed to generate');
-      }
-    } catch (error) {
-      showError(error instanceof Error ? error.message : 'Failed to generate');
-    } finally {
-      setIsGenerating(false);
-    }
-  };
+      },
+    });
 
   return (
     <>
@@ -475,6 +422,7 @@ function ScreenFields({
       <Field label="Data Sources">
         <textarea className={`${inputClass} min-h-[80px] resize-y`} placeholder="APIs, stores, data needed (one per line)" rows={2} value={dataSources.join('\n')} onChange={(e) => update(id, { dataSources: e.target.value.split('\n').filter((l) => l.trim()) })} />
       </Field>
+      <MilestoneSelect nodeId={id} milestoneId={data.milestoneId} className={inputClass} />
       <Field label="Wireframe URL">
         <input className={inputClass} placeholder="Link to design/wireframe" value={data.wireframeUrl ?? ''} onChange={(e) => update(id, { wireframeUrl: e.target.value })} />
       </Field>
@@ -589,6 +537,7 @@ function PromptFields({
       <Field label="Result Notes">
         <textarea className={`${inputClass} min-h-[120px] resize-y`} placeholder="Result notes" rows={4} value={data.resultNotes} onChange={(e) => update(id, { resultNotes: e.target.value })} />
       </Field>
+      <PromptRunHistory nodeId={id} data={data} />
     </>
   );
 }
@@ -624,3 +573,26 @@ function NoteFields({
     </>
   );
 }
+
+// ─── Group ────────────────────────────────────────────────
+
+function GroupFields({
+  id,
+  data,
+  update,
+}: {
+  id: string;
+  data: GroupNodeData;
+  update: (id: string, d: Record<string, unknown>) => void;
+}) {
+  return (
+    <>
+      <Field label="Name">
+        <input className={inputClass} placeholder="Group name" value={data.label} onChange={(e) => update(id, { label: e.target.value })} />
+      </Field>
+      <Field label="Description">
+        <textarea className={`${inputClass} min-h-[120px] resize-y`} placeholder="What belongs in this area?" rows={5} value={data.description} onChange={(e) => update(id, { description: e.target.value })} />
+      </Field>
+    </>
+  );
+}
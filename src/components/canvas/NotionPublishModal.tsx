@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, BookOpen, ExternalLink, Loader2 } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import {
+  checkNotionConnection,
+  getNotionAuthUrl,
+  getNotionPublication,
+  listNotionPages,
+  publishProjectToNotion,
+} from '@/app/actions/integrations/notion';
+import type { NotionPage } from '@/lib/integrations/notion';
+
+interface NotionPublishModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Publishes the canvas as a Notion page tree, or updates the tree in place
+ * when the project was published before.
+ */
+export function NotionPublishModal({ isOpen, onClose }: NotionPublishModalProps) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const projectId = useCanvasStore((s) => s.projectId);
+  const [connection, setConnection] = useState<'loading' | 'connected' | 'disconnected' | 'error'>('loading');
+  const [pages, setPages] = useState<NotionPage[]>([]);
+  const [parentPageId, setParentPageId] = useState('');
+  const [publication, setPublication] = useState<{ url: string; publishedAt: string } | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+    let cancelled = false;
+    const load = async () => {
+      setConnection('loading');
+      try {
+        const { connected } = await checkNotionConnection();
+        if (!connected) {
+          if (!cancelled) setConnection('disconnected');
+          return;
+        }
+        const [pageList, existing] = await Promise.all([listNotionPages(), getNotionPublication(projectId)]);
+        if (cancelled) return;
+        setPages(pageList);
+        setPublication(existing);
+        setParentPageId((current) => current || (existing ? '' : pageList[0]?.id || ''));
+        setConnection('connected');
+      } catch {
+        if (!cancelled) setConnection('error');
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, projectId]);
+
+  if (!isOpen) return null;
+
+  const featureCount = nodes.filter((n) => n.type === 'feature').length;
+  const screenCount = nodes.filter((n) => n.type === 'screen').length;
+  const techCount = nodes.filter((n) => n.type === 'techStack').length;
+
+  const handleConnect = async () => {
+    try {
+      const { url } = await getNotionAuthUrl();
+      window.location.href = url;
+    } catch {
+      setConnection('error');
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!projectId) return;
+    setIsPublishing(true);
+    setMessage(null);
+    try {
+      const result = await publishProjectToNotion(projectId, nodes, parentPageId || null);
+      setPublication({ url: result.url, publishedAt: new Date().toISOString() });
+      setParentPageId('');
+      setMessage(
+        `Published: ${result.created} added, ${result.updated} updated` +
+          (result.removed > 0 ? `, ${result.removed} removed` : '')
+      );
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to publish to Notion');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
+      <div className="w-full max-w-lg rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-6 py-4">
+          <div className="flex items-center gap-2 text-slate-100">
+            <BookOpen size={18} className="text-violet-400" />
+            <h2 className="text-lg font-semibold">Publish to Notion</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 text-slate-300 hover:bg-slate-800 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 pt-4">
+          <p className="mb-3 text-sm text-slate-300">
+            Creates an overview page from the idea with a tech stack table, a features database and a page per
+            screen. Publishing again updates the same pages in place.
+          </p>
+          <p className="mb-3 text-xs text-slate-500">
+            {featureCount} feature{featureCount === 1 ? '' : 's'} &middot; {screenCount} screen
+            {screenCount === 1 ? '' : 's'} &middot; {techCount} tech stack item{techCount === 1 ? '' : 's'}
+          </p>
+
+          {publication && (
+            <a
+              href={publication.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mb-3 flex items-center gap-1 text-sm text-violet-300 hover:text-violet-200"
+            >
+              Open in Notion
+              <ExternalLink size={12} />
+              <span className="ml-1 text-xs text-slate-500">
+                last published {new Date(publication.publishedAt).toLocaleString()}
+              </span>
+            </a>
+          )}
+
+          {connection === 'connected' && (
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <span className="w-24">Publish under</span>
+              <select
+                value={parentPageId}
+                onChange={(e) => setParentPageId(e.target.value)}
+                aria-label="Notion parent page"
+                className="flex-1 rounded-md border border-white/10 bg-slate-800 px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-violet-400"
+              >
+                {publication && <option value="">Keep current pages</option>}
+                {pages.map((page) => (
+                  <option key={page.id} value={page.id}>
+                    {page.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {connection === 'connected' && publication && parentPageId && (
+            <p className="mt-2 text-xs text-slate-500">
+              The new location is only used if the published pages were deleted in Notion.
+            </p>
+          )}
+
+          {message && (
+            <div className="mt-3 rounded-lg border border-emerald-500/20 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+              {message}
+            </div>
+          )}
+
+          {connection === 'loading' && (
+            <p className="mt-4 flex items-center gap-2 text-sm text-slate-400">
+              <Loader2 size={14} className="animate-spin" />
+              Checking Notion connection...
+            </p>
+          )}
+
+          {connection === 'error' && (
+            <p className="mt-4 text-sm text-red-300">Couldn&rsquo;t reach Notion. Try reconnecting.</p>
+          )}
+
+          {connection === 'disconnected' || connection === 'error' ? (
+            <button
+              onClick={handleConnect}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400"
+            >
+              Connect Notion
+            </button>
+          ) : (
+            <button
+              onClick={handlePublish}
+              disabled={!projectId || isPublishing || (!publication && !parentPageId)}
+              className="mt-4 w-full rounded-lg bg-violet-500 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-violet-400 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isPublishing && <Loader2 size={14} className="inline mr-2 animate-spin" />}
+              {publication ? 'Update Notion Pages' : 'Publish to Notion'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
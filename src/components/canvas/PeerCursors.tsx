@@ -0,0 +1,36 @@
+'use client';
+
+import { ViewportPortal } from '@xyflow/react';
+import { useShallow } from 'zustand/react/shallow';
+import { useCollaborationStore } from '@/store/collaborationStore';
+
+/** Collaborator cursors, rendered in flow coordinates so they pan/zoom with the canvas */
+export function PeerCursors() {
+  const peers = useCollaborationStore(
+    useShallow((s) => Object.values(s.peers).filter((peer) => peer.cursor !== null))
+  );
+
+  if (peers.length === 0) return null;
+
+  return (
+    <ViewportPortal>
+      {peers.map((peer) => (
+        <div
+          key={peer.clientId}
+          className="pointer-events-none absolute left-0 top-0 z-50 transition-transform duration-75 ease-linear"
+          style={{ transform: `translate(${peer.cursor!.x}px, ${peer.cursor!.y}px)` }}
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" fill={peer.color} stroke="#0F172A" strokeWidth="1">
+            <path d="M1 1l5.5 13 1.8-5.2L13.5 7z" />
+          </svg>
+          <span
+            className="ml-3 whitespace-nowrap rounded px-1.5 py-0.5 text-[10px] font-medium text-slate-900"
+            style={{ backgroundColor: peer.color }}
+          >
+            {peer.name}
+          </span>
+        </div>
+      ))}
+    </ViewportPortal>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useCollaborationStore } from '@/store/collaborationStore';
+import { useCanvasStore } from '@/store/canvasStore';
+import type { Peer } from '@/types/collaboration';
+
+const MAX_VISIBLE_PEERS = 4;
+
+function initials(name: string): string {
+  const parts = name.trim().split(/[\s._-]+/).filter(Boolean);
+  if (parts.length === 0) return '?';
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[1][0]).toUpperCase();
+}
+
+function Avatar({ peer, size = 24 }: { peer: Peer; size?: number }) {
+  return (
+    <span
+      className="flex items-center justify-center rounded-full border-2 border-slate-900 font-semibold text-slate-900"
+      style={{ width: size, height: size, backgroundColor: peer.color, fontSize: size * 0.4 }}
+      title={peer.name}
+    >
+      {initials(peer.name)}
+    </span>
+  );
+}
+
+/** Toolbar stack of collaborators currently on this canvas */
+export function PresenceAvatars() {
+  const peers = useCollaborationStore(useShallow((s) => Object.values(s.peers)));
+  const nodes = useCanvasStore((s) => s.nodes);
+  const setSidebarNodeId = useCanvasStore((s) => s.setSidebarNodeId);
+
+  // One avatar per user even if they have several tabs open
+  const uniquePeers = useMemo(() => {
+    const byUser = new Map<string, Peer>();
+    for (const peer of peers) {
+      if (!byUser.has(peer.userId)) byUser.set(peer.userId, peer);
+    }
+    return Array.from(byUser.values());
+  }, [peers]);
+
+  if (uniquePeers.length === 0) return null;
+
+  const visible = uniquePeers.slice(0, MAX_VISIBLE_PEERS);
+  const overflow = uniquePeers.length - visible.length;
+
+  return (
+    <div className="flex items-center border-r border-white/10 pr-2 mr-1">
+      <div className="flex -space-x-1.5">
+        {visible.map((peer) => {
+          const activeNode = peer.activeNodeId ? nodes.find((n) => n.id === peer.activeNodeId) : null;
+          return (
+            <button
+              key={peer.userId}
+              onClick={() => activeNode && setSidebarNodeId(activeNode.id)}
+              disabled={!activeNode}
+              title={activeNode ? `${peer.name} — viewing a ${activeNode.type} node` : peer.name}
+              className="rounded-full disabled:cursor-default"
+            >
+              <Avatar peer={peer} />
+            </button>
+          );
+        })}
+      </div>
+      {overflow > 0 && <span className="ml-1.5 text-xs text-slate-400">+{overflow}</span>}
+    </div>
+  );
+}
+
+/** Small avatars on a node card showing which collaborators have it open */
+export function NodeViewers({ nodeId }: { nodeId: string }) {
+  const viewers = useCollaborationStore(
+    useShallow((s) => Object.values(s.peers).filter((peer) => peer.activeNodeId === nodeId))
+  );
+
+  if (viewers.length === 0) return null;
+
+  return (
+    <span className="flex shrink-0 -space-x-1">
+      {viewers.slice(0, 3).map((peer) => (
+        <Avatar key={peer.clientId} peer={peer} size={18} />
+      ))}
+    </span>
+  );
+}
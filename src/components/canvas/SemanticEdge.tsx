@@ -0,0 +1,104 @@
+'use client';
+
+import { memo } from 'react';
+import {
+  BaseEdge,
+  EdgeLabelRenderer,
+  getSmoothStepPath,
+  type Edge,
+  type EdgeProps,
+} from '@xyflow/react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { EDGE_KIND_CONFIGS } from '@/lib/constants';
+import { EDGE_KINDS, getEdgeKind } from '@/lib/edges/edgeKinds';
+import type { EdgeKind, SpexlyEdgeData } from '@/types/nodes';
+
+type SemanticEdgeProps = EdgeProps<Edge<SpexlyEdgeData>>;
+
+/**
+ * Smooth-step edge styled by its kind. Typed edges always show their label;
+ * plain "relates to" edges only show it while selected so the kind can be changed.
+ */
+function SemanticEdgeInner({
+  id,
+  data,
+  selected,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  interactionWidth,
+}: SemanticEdgeProps) {
+  const setEdgeKind = useCanvasStore((s) => s.setEdgeKind);
+  const readOnly = useCanvasStore((s) => s.readOnly);
+  const kind = getEdgeKind({ data });
+  const config = EDGE_KIND_CONFIGS[kind];
+
+  const [path, labelX, labelY] = getSmoothStepPath({
+    sourceX,
+    sourceY,
+    targetX,
+    targetY,
+    sourcePosition,
+    targetPosition,
+  });
+
+  const showLabel = kind !== 'relates-to' || (selected && !readOnly);
+
+  return (
+    <>
+      <BaseEdge
+        id={id}
+        path={path}
+        interactionWidth={interactionWidth}
+        style={{
+          ...style,
+          stroke: config.color,
+          strokeWidth: selected ? 2.5 : 1.5,
+          strokeDasharray: config.dashed ? '6 4' : style?.strokeDasharray,
+        }}
+      />
+      {showLabel && (
+        <EdgeLabelRenderer>
+          <div
+            className="nodrag nopan absolute"
+            style={{
+              transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+              pointerEvents: 'all',
+            }}
+          >
+            {readOnly ? (
+              <span
+                className="rounded-full border bg-slate-900/90 px-2 py-0.5 text-[10px] font-medium"
+                style={{ borderColor: config.color, color: config.color }}
+                title={config.description}
+              >
+                {config.label}
+              </span>
+            ) : (
+              <select
+                value={kind}
+                onChange={(e) => setEdgeKind(id, e.target.value as EdgeKind)}
+                aria-label="Relationship type"
+                title={config.description}
+                className="cursor-pointer appearance-none rounded-full border bg-slate-900/90 px-2 py-0.5 text-center text-[10px] font-medium outline-none"
+                style={{ borderColor: config.color, color: config.color }}
+              >
+                {EDGE_KINDS.map((option) => (
+                  <option key={option} value={option}>
+                    {EDGE_KIND_CONFIGS[option].label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
+}
+
+export const SemanticEdge = memo(SemanticEdgeInner);
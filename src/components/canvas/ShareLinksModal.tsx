@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Share2, Link2, Copy, Check } from 'lucide-react';
+import { getShareLinks, createShareLink, revokeShareLink } from '@/app/actions/shareLinks';
+import {
+  SHARE_LINK_EXPIRY_OPTIONS,
+  getShareLinkStatus,
+  type ShareLinkStatus,
+} from '@/lib/sharing/shareLinks';
+import type { ProjectShareLink } from '@/types/project';
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'bg-emerald-500/10 text-emerald-300',
+  expired: 'bg-amber-500/10 text-amber-300',
+  revoked: 'bg-slate-800 text-slate-400',
+};
+
+interface ShareLinksModalProps {
+  projectId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+export function ShareLinksModal({ projectId, isOpen, onClose }: ShareLinksModalProps) {
+  const [links, setLinks] = useState<ProjectShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hideNotes, setHideNotes] = useState(true);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getShareLinks(projectId);
+        setLinks(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load share links.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [isOpen, projectId]);
+
+  if (!isOpen || !projectId) return null;
+
+  const handleCopy = async (link: ProjectShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId((current) => (current === link.id ? null : current)), 2000);
+    } catch {
+      setError('Could not copy to clipboard.');
+    }
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    setCreating(true);
+    try {
+      const link = await createShareLink(projectId, { hideNotes, expiresInDays });
+      setLinks((prev) => [link, ...prev]);
+      await handleCopy(link);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setError(null);
+    try {
+      const revoked = await revokeShareLink(linkId);
+      setLinks((prev) => prev.map((l) => (l.id === linkId ? revoked : l)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke share link.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
+      <div className="w-full max-w-2xl overflow-hidden rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-6 py-4">
+          <div className="flex items-center gap-2 text-slate-100">
+            <Share2 size={18} />
+            <h2 className="text-lg font-semibold">Share read-only link</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 text-slate-300 hover:bg-slate-800 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 pt-4 space-y-4">
+          <div className="rounded-xl border border-white/10 bg-slate-950/60 p-4">
+            <h3 className="text-sm font-semibold text-slate-100">New link</h3>
+            <p className="mt-1 text-xs text-slate-500">
+              Anyone with the link can view this canvas without signing in. They cannot edit it.
+            </p>
+            <div className="mt-3 flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={hideNotes}
+                  onChange={(e) => setHideNotes(e.target.checked)}
+                  className="accent-violet-500"
+                />
+                Hide note nodes
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                Expires
+                <select
+                  value={expiresInDays ?? ''}
+                  onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                  className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-slate-100 focus:border-violet-400 focus:outline-none"
+                >
+                  {SHARE_LINK_EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.label} value={option.days ?? ''}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleCreate}
+                disabled={creating}
+                className="ml-auto inline-flex items-center gap-2 rounded-lg bg-violet-500 px-4 py-2 text-sm font-semibold text-white hover:bg-violet-400 disabled:opacity-60"
+              >
+                <Link2 size={14} />
+                {creating ? 'Creating...' : 'Create & copy link'}
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-slate-100">Links</h3>
+            {loading && <div className="text-xs text-slate-400">Loading links...</div>}
+            {!loading && links.length === 0 && (
+              <div className="text-xs text-slate-500">This project has not been shared yet.</div>
+            )}
+
+            {links.map((link) => {
+              const status = getShareLinkStatus(link);
+              return (
+                <div
+                  key={link.id}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-slate-950/50 px-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium capitalize ${STATUS_STYLES[status]}`}>
+                        {status}
+                      </span>
+                      <span className="truncate font-mono text-xs text-slate-400">
+                        /share/{link.token.slice(0, 10)}&hellip;
+                      </span>
+                    </div>
+                    <div className="mt-1 text-xs text-slate-500">
+                      Created {formatDate(link.created_at)}
+                      {link.expires_at && ` · ${status === 'expired' ? 'Expired' : 'Expires'} ${formatDate(link.expires_at)}`}
+                      {link.hide_notes && ' · Notes hidden'}
+                      {` · ${link.view_count} ${link.view_count === 1 ? 'view' : 'views'}`}
+                    </div>
+                  </div>
+                  {status === 'active' && (
+                    <div className="flex shrink-0 items-center gap-2">
+                      <button
+                        onClick={() => handleCopy(link)}
+                        className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-xs text-white hover:bg-slate-700"
+                      >
+                        {copiedId === link.id ? <Check size={12} /> : <Copy size={12} />}
+                        {copiedId === link.id ? 'Copied' : 'Copy'}
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(link.id)}
+                        className="rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-xs text-rose-200 hover:bg-rose-500/20"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {error && (
+            <div className="rounded-lg border border-red-500/20 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Background,
+  BackgroundVariant,
+  MiniMap,
+  Controls,
+} from '@xyflow/react';
+import { Eye } from 'lucide-react';
+
+import { useCanvasStore } from '@/store/canvasStore';
+import { DependencyAnalysisProvider } from './DependencyAnalysisContext';
+import { nodeTypes, edgeTypes, defaultEdgeOptions, minimapNodeColor } from './flowConfig';
+import { CANVAS_BG_COLOR, CANVAS_DOT_COLOR } from '@/lib/constants';
+import { decodeNodeData } from '@/lib/input/decodeNodeData';
+import type { SharedCanvas } from '@/types/project';
+
+interface SharedCanvasViewProps {
+  shared: SharedCanvas;
+}
+
+/**
+ * Public, login-free view of a shared canvas. Reuses the editor's node
+ * components with the store in read-only mode; nothing here saves, syncs
+ * or calls authenticated actions.
+ */
+export function SharedCanvasView({ shared }: SharedCanvasViewProps) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const edges = useCanvasStore((s) => s.edges);
+  const onNodesChange = useCanvasStore((s) => s.onNodesChange);
+  const loadProject = useCanvasStore((s) => s.loadProject);
+  const setReadOnly = useCanvasStore((s) => s.setReadOnly);
+  const clearCanvas = useCanvasStore((s) => s.clearCanvas);
+
+  useEffect(() => {
+    // No project ID: the real ID is never exposed to anonymous viewers
+    loadProject('', shared.projectName, decodeNodeData(shared.canvasData.nodes), shared.canvasData.edges);
+    setReadOnly(true);
+
+    return () => {
+      clearCanvas();
+    };
+  }, [shared, loadProject, setReadOnly, clearCanvas]);
+
+  const updatedLabel = new Date(shared.updatedAt).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  return (
+    <div className="flex h-screen w-screen flex-col" style={{ backgroundColor: CANVAS_BG_COLOR }}>
+      <header className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-4 py-3">
+        <div className="flex min-w-0 items-center gap-3">
+          <Link href="/" className="text-sm font-semibold text-violet-300 hover:text-violet-200">
+            Spexly
+          </Link>
+          <span className="text-slate-600">/</span>
+          <h1 className="truncate text-sm font-medium text-slate-100">{shared.projectName}</h1>
+        </div>
+        <div className="flex shrink-0 items-center gap-3 text-xs text-slate-400">
+          <span className="hidden sm:inline">Updated {updatedLabel}</span>
+          <span className="inline-flex items-center gap-1.5 rounded-full border border-white/10 bg-slate-800 px-3 py-1 text-slate-300">
+            <Eye size={12} />
+            Read-only
+          </span>
+        </div>
+      </header>
+
+      <div className="relative flex-1">
+        <ReactFlowProvider>
+          <DependencyAnalysisProvider>
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              onNodesChange={onNodesChange}
+              nodesDraggable={false}
+              nodesConnectable={false}
+              edgesFocusable={false}
+              elementsSelectable={false}
+              nodeTypes={nodeTypes}
+              edgeTypes={edgeTypes}
+              defaultEdgeOptions={defaultEdgeOptions}
+              deleteKeyCode={null}
+              fitView
+              colorMode="dark"
+              proOptions={{ hideAttribution: true }}
+              minZoom={0.3}
+              maxZoom={2}
+            >
+              <Background
+                variant={BackgroundVariant.Dots}
+                gap={20}
+                size={1}
+                color={CANVAS_DOT_COLOR}
+              />
+              <MiniMap
+                position="bottom-right"
+                style={{
+                  backgroundColor: '#0F172A',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                }}
+                maskColor="rgba(15, 23, 42, 0.7)"
+                nodeColor={minimapNodeColor}
+              />
+              <Controls
+                position="bottom-left"
+                showInteractive={false}
+                style={{
+                  backgroundColor: '#1E293B',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                }}
+              />
+            </ReactFlow>
+          </DependencyAnalysisProvider>
+        </ReactFlowProvider>
+
+        {nodes.length === 0 && (
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-slate-500">
+            This canvas is empty.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
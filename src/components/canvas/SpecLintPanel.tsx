@@ -0,0 +1,190 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { ClipboardCheck, Loader2, Sparkles, X } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { NODE_TYPE_CONFIGS } from '@/lib/constants';
+import { getAbsolutePosition } from '@/lib/groups/groups';
+import { SPEC_RULE_LABELS, lintSpec, type SpecIssue, type SpecIssueSeverity } from '@/lib/lint/specLinter';
+import { buildSpecFixRequest, isFixableField } from '@/lib/ai/specFix';
+import { createChangeset, proposeNodeChange } from '@/lib/ai/changeset';
+import { fixSpecIssueWithAI } from '@/app/actions/fixSpecIssue';
+import { showError, showSuccess } from '@/store/toastStore';
+import { reviewChangeset } from '@/store/changesetStore';
+
+interface SpecLintPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const JUMP_ZOOM = 1.1;
+
+const SEVERITY_CLASSES: Record<SpecIssueSeverity, string> = {
+  error: 'border-red-400/40 bg-red-400/10 text-red-300',
+  warning: 'border-amber-400/40 bg-amber-400/10 text-amber-300',
+  info: 'border-sky-400/40 bg-sky-400/10 text-sky-300',
+};
+
+function scoreClass(score: number): string {
+  if (score >= 80) return 'text-emerald-300';
+  if (score >= 50) return 'text-amber-300';
+  return 'text-red-300';
+}
+
+/** Spec linter results: per-node scores, findings with jump-to-node and AI fixes */
+export function SpecLintPanel({ isOpen, onClose }: SpecLintPanelProps) {
+  const nodes = useCanvasStore((s) => s.nodes);
+  const edges = useCanvasStore((s) => s.edges);
+  const projectId = useCanvasStore((s) => s.projectId);
+  const readOnly = useCanvasStore((s) => s.readOnly);
+  const setSidebarNodeId = useCanvasStore((s) => s.setSidebarNodeId);
+  const { setCenter, getZoom } = useReactFlow();
+  const [fixingIssueId, setFixingIssueId] = useState<string | null>(null);
+  const [showPassing, setShowPassing] = useState(false);
+
+  const report = useMemo(() => (isOpen ? lintSpec(nodes, edges) : null), [isOpen, nodes, edges]);
+  const visibleNodes = report?.nodes.filter((result) => showPassing || result.issues.length > 0) ?? [];
+
+  const jumpTo = (nodeId: string) => {
+    const node = nodes.find((n) => n.id === nodeId);
+    if (!node) return;
+    const width = node.measured?.width ?? 320;
+    const height = node.measured?.height ?? 120;
+    const { x, y } = getAbsolutePosition(node, nodes);
+    void setCenter(x + width / 2, y + height / 2, {
+      zoom: Math.max(getZoom(), JUMP_ZOOM),
+      duration: 400,
+    });
+    setSidebarNodeId(node.id);
+  };
+
+  const handleFix = async (issue: SpecIssue) => {
+    const request = buildSpecFixRequest(issue, useCanvasStore.getState().nodes);
+    if (!request) return;
+    setFixingIssueId(issue.id);
+    try {
+      const result = await fixSpecIssueWithAI(request, projectId ?? undefined);
+      const node = useCanvasStore.getState().nodes.find((n) => n.id === issue.nodeId);
+      if (result.success && result.updates && node) {
+        // The user asked for this rewrite, so it starts out accepted
+        const change = proposeNodeChange(node, result.updates, () => true);
+        if (change) {
+          reviewChangeset(createChangeset('specFix', `Fix: ${SPEC_RULE_LABELS[issue.rule]}`, { nodeChanges: [change] }));
+        } else {
+          showSuccess('No rewrite needed');
+        }
+      } else {
+        showError(result.error || 'Failed to fix issue');
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to fix issue');
+    } finally {
+      setFixingIssueId(null);
+    }
+  };
+
+  return (
+    <div
+      className={`fixed right-0 top-0 z-30 h-screen w-96 border-l border-white/10 bg-slate-900 transition-transform duration-300 ease-in-out ${
+        isOpen ? 'translate-x-0' : 'translate-x-full'
+      }`}
+    >
+      <div className="flex h-full flex-col overflow-y-auto p-5">
+        <div className="mb-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ClipboardCheck size={16} className="text-violet-300" />
+            <h2 className="text-sm font-semibold text-slate-100">Spec Quality</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded p-1.5 text-slate-400 transition-colors hover:bg-slate-800 hover:text-slate-200"
+            aria-label="Close spec quality"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        {report && (
+          <>
+            <div className="mb-4 flex items-center justify-between rounded-lg bg-slate-800/60 p-3">
+              <div>
+                <div className={`text-2xl font-semibold ${scoreClass(report.score)}`}>{report.score}</div>
+                <div className="text-xs text-slate-400">Average node score</div>
+              </div>
+              <div className="text-right text-xs text-slate-400">
+                <div>
+                  {report.issueCount} {report.issueCount === 1 ? 'issue' : 'issues'} across {report.nodes.length} nodes
+                </div>
+                <label className="mt-1 inline-flex cursor-pointer items-center gap-1.5">
+                  <input type="checkbox" checked={showPassing} onChange={(e) => setShowPassing(e.target.checked)} />
+                  Show passing nodes
+                </label>
+              </div>
+            </div>
+
+            {visibleNodes.length === 0 && (
+              <p className="text-sm text-slate-400">
+                {report.nodes.length === 0 ? 'Add features, screens or tech stack to lint.' : 'No issues found.'}
+              </p>
+            )}
+
+            <div className="space-y-3">
+              {visibleNodes.map((result) => (
+                <div key={result.nodeId} className="rounded-lg border border-white/10 bg-slate-800/40 p-3">
+                  <button
+                    onClick={() => jumpTo(result.nodeId)}
+                    className="flex w-full items-center justify-between gap-2 text-left"
+                    title="Jump to node"
+                  >
+                    <span className="min-w-0">
+                      <span className="block text-[10px] uppercase tracking-wider text-slate-500">
+                        {NODE_TYPE_CONFIGS[result.nodeType].label}
+                      </span>
+                      <span className="block truncate text-sm font-medium text-slate-200 hover:text-white">
+                        {result.name}
+                      </span>
+                    </span>
+                    <span className={`text-sm font-semibold ${scoreClass(result.score)}`}>{result.score}</span>
+                  </button>
+
+                  {result.issues.length > 0 && (
+                    <ul className="mt-2 space-y-2">
+                      {result.issues.map((issue) => (
+                        <li key={issue.id} className="text-xs">
+                          <div className="flex items-start justify-between gap-2">
+                            <span
+                              className={`shrink-0 rounded border px-1.5 py-0.5 text-[10px] font-medium ${SEVERITY_CLASSES[issue.severity]}`}
+                            >
+                              {SPEC_RULE_LABELS[issue.rule]}
+                            </span>
+                            {!readOnly && isFixableField(issue.field) && (
+                              <button
+                                onClick={() => void handleFix(issue)}
+                                disabled={fixingIssueId !== null}
+                                className="inline-flex items-center gap-1 text-violet-300 hover:text-violet-200 disabled:opacity-50"
+                              >
+                                {fixingIssueId === issue.id ? (
+                                  <Loader2 size={11} className="animate-spin" />
+                                ) : (
+                                  <Sparkles size={11} />
+                                )}
+                                Fix this
+                              </button>
+                            )}
+                          </div>
+                          <p className="mt-1 text-slate-300">{issue.message}</p>
+                          <p className="mt-0.5 text-slate-500">{issue.suggestion}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,13 +9,13 @@ import {
   saveTaskAutofillMetadata,
   updateTaskContent,
   updateTaskStatus,
+  type LinkableNodeType,
   type TaskItem,
   type TaskStatus,
 } from '@/app/actions/tasks';
 import { useCanvasStore } from '@/store/canvasStore';
 import { buildNodeAutofillUpdate } from '@/lib/tasks/autofill';
 import { updateCanvasData } from '@/app/actions/projects';
-import type { SpexlyNodeType } from '@/types/nodes';
 
 interface TaskPanelProps {
   projectId: string | null;
@@ -65,15 +65,15 @@ function statusPillClass(status: TaskStatus): string {
   }
 }
 
-function inferNodeType(task: TaskItem): SpexlyNodeType {
-  const allowed: SpexlyNodeType[] = ['idea', 'feature', 'screen', 'techStack', 'prompt', 'note'];
-  if (task.node_type && allowed.includes(task.node_type as SpexlyNodeType)) {
-    return task.node_type as SpexlyNodeType;
+function inferNodeType(task: TaskItem): LinkableNodeType {
+  const allowed: LinkableNodeType[] = ['idea', 'feature', 'screen', 'techStack', 'prompt', 'note'];
+  if (task.node_type && allowed.includes(task.node_type as LinkableNodeType)) {
+    return task.node_type as LinkableNodeType;
   }
   return 'feature';
 }
 
-function taskToNodeData(task: TaskItem, nodeType: SpexlyNodeType): Record<string, unknown> {
+function taskToNodeData(task: TaskItem, nodeType: LinkableNodeType): Record<string, unknown> {
   const title = task.title.trim();
   const details = task.details?.trim() || '';
 
@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { X, LayoutGrid, Trash2, Save } from 'lucide-react';
+import { X, LayoutGrid, Trash2, Save, Users } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
 import {
   getUserTemplates,
@@ -14,15 +14,18 @@ import type { SpexlyNode } from '@/types/nodes';
 interface TemplatesModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** When set, workspace templates are listed and new ones can be shared */
+  workspaceId?: string;
 }
 
-export function TemplatesModal({ isOpen, onClose }: TemplatesModalProps) {
+export function TemplatesModal({ isOpen, onClose, workspaceId }: TemplatesModalProps) {
   const [templates, setTemplates] = useState<UserTemplate[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [shareWithWorkspace, setShareWithWorkspace] = useState(false);
 
   const setNodesAndEdges = useCanvasStore((s) => s.setNodesAndEdges);
   const nodes = useCanvasStore((s) => s.nodes);
@@ -34,7 +37,7 @@ export function TemplatesModal({ isOpen, onClose }: TemplatesModalProps) {
       setLoading(true);
       setError(null);
       try {
-        const data = await getUserTemplates();
+        const data = await getUserTemplates(workspaceId);
         setTemplates(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load templates.');
@@ -43,7 +46,7 @@ export function TemplatesModal({ isOpen, onClose }: TemplatesModalProps) {
       }
     };
     load();
-  }, [isOpen]);
+  }, [isOpen, workspaceId]);
 
   if (!isOpen) return null;
 
@@ -55,7 +58,13 @@ export function TemplatesModal({ isOpen, onClose }: TemplatesModalProps) {
     }
     setSaving(true);
     try {
-      const saved = await saveUserTemplate(name, description, nodes, edges);
+      const saved = await saveUserTemplate(
+        name,
+        description,
+        nodes,
+        edges,
+        shareWithWorkspace ? workspaceId : null
+      );
       setTemplates((prev) => [saved, ...prev]);
       setName('');
       setDescription('');
@@ -120,6 +129,17 @@ export function TemplatesModal({ isOpen, onClose }: TemplatesModalProps) {
                 rows={2}
                 className="w-full rounded-lg border border-white/10 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:border-violet-400 focus:outline-none"
               />
+              {workspaceId && (
+                <label className="flex items-center gap-2 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={shareWithWorkspace}
+                    onChange={(e) => setShareWithWorkspace(e.target.checked)}
+                    className="accent-violet-500"
+                  />
+                  Share with everyone in this workspace
+                </label>
+              )}
               <button
                 onClick={handleSave}
                 disabled={saving}
@@ -144,7 +164,15 @@ export function TemplatesModal({ isOpen, onClose }: TemplatesModalProps) {
                 className="flex items-center justify-between rounded-xl border border-white/10 bg-slate-950/50 px-4 py-3"
               >
                 <div>
-                  <div className="text-sm font-semibold text-slate-100">{template.name}</div>
+                  <div className="flex items-center gap-1.5 text-sm font-semibold text-slate-100">
+                    {template.name}
+                    {template.workspace_id && (
+                      <span className="inline-flex items-center gap-1 rounded bg-slate-800 px-1.5 py-0.5 text-[10px] font-medium text-slate-400">
+                        <Users size={10} />
+                        Shared
+                      </span>
+                    )}
+                  </div>
                   {template.description && (
                     <div className="text-xs text-slate-400">{template.description}</div>
                   )}
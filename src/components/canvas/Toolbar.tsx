@@ -1,17 +1,33 @@
 'use client';
 import Link from 'next/link';
 import Image from 'next/image';
-import { ArrowLeft, BarChart3, CheckSquare, Cloud, CloudOff, FileText, Keyboard, LayoutGrid, Loader2, Redo2, RotateCcw, Sparkles, Undo2 } from 'lucide-react';
+import { ArrowLeft, BarChart3, CheckSquare, ClipboardCheck, Cloud, CloudOff, Figma, FileText, Flag, History, Keyboard, LayoutGrid, Loader2, MessageSquare, Redo2, Search, Share2, Sparkles, Undo2 } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
+import { EDGE_KIND_CONFIGS } from '@/lib/constants';
+import { EDGE_KINDS } from '@/lib/edges/edgeKinds';
+import type { EdgeKind } from '@/types/nodes';
 import { AddNodeMenu } from './AddNodeMenu';
 import { ExportMenu } from './ExportMenu';
+import { LayoutMenu } from './LayoutMenu';
+import { PresenceAvatars } from './PresenceAvatars';
 
 interface ToolbarProps {
   isDashboardOpen: boolean;
   isTaskPanelOpen: boolean;
+  isMilestoneBoardOpen: boolean;
+  isHistoryOpen: boolean;
+  isSpecLintOpen: boolean;
+  isChatOpen: boolean;
   onToggleDashboard: () => void;
   onToggleTaskPanel: () => void;
+  onToggleMilestoneBoard: () => void;
+  onToggleHistory: () => void;
+  onToggleSpecLint: () => void;
+  onToggleChat: () => void;
+  onOpenSearch: () => void;
+  onOpenShare: () => void;
   onOpenImport: () => void;
+  onOpenFigmaImport: () => void;
   onOpenTemplates: () => void;
   onResetLayout: () => void;
   onOpenBatchEnhance: () => void;
@@ -79,18 +95,52 @@ function UndoRedoButtons() {
   );
 }
 
+function ConnectionKindSelect() {
+  const connectionEdgeKind = useCanvasStore((s) => s.connectionEdgeKind);
+  const setConnectionEdgeKind = useCanvasStore((s) => s.setConnectionEdgeKind);
+
+  return (
+    <select
+      value={connectionEdgeKind ?? ''}
+      onChange={(e) => setConnectionEdgeKind(e.target.value ? (e.target.value as EdgeKind) : null)}
+      title="Relationship type for new connections"
+      aria-label="New connection type"
+      className="rounded-lg border border-white/10 bg-slate-800 px-2 py-1.5 text-sm text-slate-200 outline-none transition-colors hover:bg-slate-700 focus:border-violet-400"
+    >
+      <option value="">Link: auto</option>
+      {EDGE_KINDS.map((kind) => (
+        <option key={kind} value={kind}>
+          Link: {EDGE_KIND_CONFIGS[kind].label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 export function Toolbar({
   isDashboardOpen,
   isTaskPanelOpen,
+  isMilestoneBoardOpen,
+  isHistoryOpen,
+  isSpecLintOpen,
+  isChatOpen,
   onToggleDashboard,
   onToggleTaskPanel,
+  onToggleMilestoneBoard,
+  onToggleHistory,
+  onToggleSpecLint,
+  onToggleChat,
+  onOpenSearch,
+  onOpenShare,
   onOpenImport,
+  onOpenFigmaImport,
   onOpenTemplates,
   onResetLayout,
   onOpenBatchEnhance,
   onToggleShortcuts,
 }: ToolbarProps) {
   const projectName = useCanvasStore((s) => s.projectName);
+  const readOnly = useCanvasStore((s) => s.readOnly);
 
   return (
     <div className="absolute left-0 right-0 top-0 z-10 flex items-center justify-between border-b border-white/5 bg-slate-900/80 px-4 py-2 backdrop-blur-sm">
@@ -111,7 +161,16 @@ export function Toolbar({
         <SaveStatus />
       </div>
       <div className="flex items-center gap-2">
+        <PresenceAvatars />
         <UndoRedoButtons />
+        <button
+          onClick={onOpenSearch}
+          title="Search canvas (Cmd+K)"
+          className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-slate-700"
+        >
+          <Search size={16} />
+          <span className="hidden lg:inline">Search</span>
+        </button>
         <button
           onClick={onOpenImport}
           className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-slate-700"
@@ -119,6 +178,16 @@ export function Toolbar({
           <FileText size={16} />
           <span className="hidden lg:inline">Import</span>
         </button>
+        {!readOnly && (
+          <button
+            onClick={onOpenFigmaImport}
+            title="Import frames from Figma"
+            className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-slate-700"
+          >
+            <Figma size={16} />
+            <span className="hidden lg:inline">Figma</span>
+          </button>
+        )}
         <button
           onClick={onToggleDashboard}
           className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors ${
@@ -142,12 +211,64 @@ export function Toolbar({
           <span className="hidden lg:inline">Tasks</span>
         </button>
         <button
-          onClick={onResetLayout}
-          className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-slate-700"
+          onClick={onToggleMilestoneBoard}
+          title="Milestone board"
+          className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors ${
+            isMilestoneBoardOpen
+              ? 'border-violet-400/50 bg-violet-400/10 text-violet-300'
+              : 'border-white/10 bg-slate-800 text-white hover:bg-slate-700'
+          }`}
         >
-          <RotateCcw size={16} />
-          <span className="hidden xl:inline">Reset layout</span>
+          <Flag size={16} />
+          <span className="hidden lg:inline">Milestones</span>
         </button>
+        <button
+          onClick={onToggleHistory}
+          title="Version history"
+          className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors ${
+            isHistoryOpen
+              ? 'border-violet-400/50 bg-violet-400/10 text-violet-300'
+              : 'border-white/10 bg-slate-800 text-white hover:bg-slate-700'
+          }`}
+        >
+          <History size={16} />
+          <span className="hidden xl:inline">History</span>
+        </button>
+        <button
+          onClick={onToggleSpecLint}
+          title="Spec quality"
+          className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors ${
+            isSpecLintOpen
+              ? 'border-violet-400/50 bg-violet-400/10 text-violet-300'
+              : 'border-white/10 bg-slate-800 text-white hover:bg-slate-700'
+          }`}
+        >
+          <ClipboardCheck size={16} />
+          <span className="hidden xl:inline">Lint</span>
+        </button>
+        <button
+          onClick={onToggleChat}
+          title="Ask the canvas"
+          className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors ${
+            isChatOpen
+              ? 'border-violet-400/50 bg-violet-400/10 text-violet-300'
+              : 'border-white/10 bg-slate-800 text-white hover:bg-slate-700'
+          }`}
+        >
+          <MessageSquare size={16} />
+          <span className="hidden xl:inline">Ask</span>
+        </button>
+        {!readOnly && (
+          <button
+            onClick={onOpenShare}
+            title="Share read-only link"
+            className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-slate-700"
+          >
+            <Share2 size={16} />
+            <span className="hidden xl:inline">Share</span>
+          </button>
+        )}
+        {!readOnly && <LayoutMenu onResetLayout={onResetLayout} />}
         <button
           onClick={onOpenTemplates}
           className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-slate-700"
@@ -163,6 +284,7 @@ export function Toolbar({
           <span className="hidden lg:inline">Enhance All</span>
         </button>
         <ExportMenu />
+        {!readOnly && <ConnectionKindSelect />}
         <AddNodeMenu />
         <button
           onClick={onToggleShortcuts}
@@ -0,0 +1,423 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Bookmark, GitCompare, History, Loader2, RefreshCw, RotateCcw, Trash2, X } from 'lucide-react';
+import {
+  createSnapshot,
+  deleteSnapshot,
+  getProjectSnapshots,
+  getSnapshot,
+  restoreSnapshot,
+} from '@/app/actions/snapshots';
+import { useCanvasStore } from '@/store/canvasStore';
+import { showError, showSuccess } from '@/store/toastStore';
+import { diffCanvas, isDiffEmpty, summarizeDiff, type CanvasDiff } from '@/lib/snapshots/canvasDiff';
+import type { CanvasData, CanvasSnapshotSummary } from '@/types/project';
+
+interface VersionHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function formatSnapshotDate(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function snapshotLabel(snapshot: CanvasSnapshotSummary): string {
+  return snapshot.name || (snapshot.kind === 'auto' ? 'Auto-save' : 'Checkpoint');
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function DiffView({ diff }: { diff: CanvasDiff }) {
+  if (isDiffEmpty(diff)) {
+    return <p className="text-xs text-slate-500">No differences.</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      {diff.addedNodes.length > 0 && (
+        <div>
+          <div className="mb-1 font-semibold text-emerald-300">Added nodes</div>
+          {diff.addedNodes.map((node) => (
+            <div key={node.id} className="text-slate-300">
+              + {node.name} <span className="text-slate-500">({node.type})</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {diff.removedNodes.length > 0 && (
+        <div>
+          <div className="mb-1 font-semibold text-rose-300">Removed nodes</div>
+          {diff.removedNodes.map((node) => (
+            <div key={node.id} className="text-slate-300">
+              − {node.name} <span className="text-slate-500">({node.type})</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {diff.modifiedNodes.length > 0 && (
+        <div>
+          <div className="mb-1 font-semibold text-sky-300">Changed nodes</div>
+          {diff.modifiedNodes.map((node) => (
+            <div key={node.id} className="mb-2 rounded border border-white/5 bg-slate-900/60 p-2">
+              <div className="mb-1 text-slate-200">
+                {node.name} <span className="text-slate-500">({node.type})</span>
+                {node.moved && <span className="ml-1 text-slate-500">· moved</span>}
+              </div>
+              {node.changes.map((change) => (
+                <div key={change.field} className="mb-1">
+                  <div className="text-slate-400">{change.field}</div>
+                  <div className="break-words text-rose-300/80 line-through">{formatValue(change.before)}</div>
+                  <div className="break-words text-emerald-300/90">{formatValue(change.after)}</div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      {(diff.addedEdges.length > 0 || diff.removedEdges.length > 0) && (
+        <div>
+          <div className="mb-1 font-semibold text-amber-300">Connections</div>
+          {diff.addedEdges.map((edge) => (
+            <div key={`add-${edge.id}`} className="text-slate-300">
+              + {edge.sourceName} → {edge.targetName}
+            </div>
+          ))}
+          {diff.removedEdges.map((edge) => (
+            <div key={`remove-${edge.id}`} className="text-slate-300">
+              − {edge.sourceName} → {edge.targetName}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function VersionHistoryPanel({ isOpen, onClose }: VersionHistoryPanelProps) {
+  const projectId = useCanvasStore((s) => s.projectId);
+  const nodes = useCanvasStore((s) => s.nodes);
+  const edges = useCanvasStore((s) => s.edges);
+  const restoreCanvas = useCanvasStore((s) => s.restoreCanvas);
+
+  const [snapshots, setSnapshots] = useState<CanvasSnapshotSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checkpointName, setCheckpointName] = useState('');
+  const [isSavingCheckpoint, setIsSavingCheckpoint] = useState(false);
+  const [busySnapshotId, setBusySnapshotId] = useState<string | null>(null);
+  /** Up to two snapshot ids selected for comparison (oldest diffed against newest) */
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [snapshotCache, setSnapshotCache] = useState<Record<string, CanvasData>>({});
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false);
+
+  const loadSnapshots = useCallback(async () => {
+    if (!projectId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setSnapshots(await getProjectSnapshots(projectId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load version history.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+    void loadSnapshots();
+  }, [isOpen, projectId, loadSnapshots]);
+
+  // Fetch canvas payloads for selected snapshots on demand
+  useEffect(() => {
+    const missing = compareIds.filter((id) => !snapshotCache[id]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    setIsLoadingDiff(true);
+    Promise.all(missing.map((id) => getSnapshot(id)))
+      .then((loaded) => {
+        if (cancelled) return;
+        setSnapshotCache((prev) => {
+          const next = { ...prev };
+          loaded.forEach((snapshot) => {
+            next[snapshot.id] = snapshot.canvas_data;
+          });
+          return next;
+        });
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load snapshot.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingDiff(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [compareIds, snapshotCache]);
+
+  const comparison = useMemo(() => {
+    if (compareIds.length === 0) return null;
+    const selected = snapshots
+      .filter((s) => compareIds.includes(s.id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    if (selected.some((s) => !snapshotCache[s.id])) return null;
+
+    if (selected.length === 1) {
+      return {
+        title: `${snapshotLabel(selected[0])} → current canvas`,
+        diff: diffCanvas(snapshotCache[selected[0].id], { nodes, edges }),
+      };
+    }
+    return {
+      title: `${snapshotLabel(selected[0])} → ${snapshotLabel(selected[1])}`,
+      diff: diffCanvas(snapshotCache[selected[0].id], snapshotCache[selected[1].id]),
+    };
+  }, [compareIds, snapshots, snapshotCache, nodes, edges]);
+
+  const toggleCompare = (snapshotId: string) => {
+    setCompareIds((prev) => {
+      if (prev.includes(snapshotId)) return prev.filter((id) => id !== snapshotId);
+      // Keep the most recent selection when a third is picked
+      return [...prev, snapshotId].slice(-2);
+    });
+  };
+
+  const handleCreateCheckpoint = async () => {
+    if (!projectId || !checkpointName.trim()) return;
+    setIsSavingCheckpoint(true);
+    setError(null);
+    try {
+      const created = await createSnapshot(projectId, checkpointName, nodes, edges);
+      setSnapshots((prev) => [created, ...prev]);
+      setCheckpointName('');
+      showSuccess('Checkpoint saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save checkpoint.');
+    } finally {
+      setIsSavingCheckpoint(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: CanvasSnapshotSummary) => {
+    if (!projectId) return;
+    if (!confirm(`Restore "${snapshotLabel(snapshot)}"? Your current canvas is saved as a checkpoint first.`)) {
+      return;
+    }
+    setBusySnapshotId(snapshot.id);
+    setError(null);
+    try {
+      const restored = await restoreSnapshot(projectId, snapshot.id);
+      restoreCanvas(restored.nodes, restored.edges);
+      setCompareIds([]);
+      showSuccess(`Restored "${snapshotLabel(snapshot)}"`);
+      await loadSnapshots();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to restore snapshot.');
+    } finally {
+      setBusySnapshotId(null);
+    }
+  };
+
+  const handleDelete = async (snapshot: CanvasSnapshotSummary) => {
+    if (!confirm(`Delete "${snapshotLabel(snapshot)}"? This cannot be undone.`)) return;
+    setBusySnapshotId(snapshot.id);
+    setError(null);
+    try {
+      await deleteSnapshot(snapshot.id);
+      setSnapshots((prev) => prev.filter((s) => s.id !== snapshot.id));
+      setCompareIds((prev) => prev.filter((id) => id !== snapshot.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot.');
+    } finally {
+      setBusySnapshotId(null);
+    }
+  };
+
+  return (
+    <div
+      className={`fixed right-0 top-0 z-30 h-screen w-96 border-l border-white/10 bg-slate-900 transition-transform duration-300 ease-in-out ${
+        isOpen ? 'translate-x-0' : 'translate-x-full'
+      }`}
+    >
+      <div className="flex h-full flex-col overflow-y-auto p-5">
+        <div className="mb-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History size={16} className="text-violet-300" />
+            <h2 className="text-sm font-semibold text-slate-100">Version History</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => void loadSnapshots()}
+              className="rounded p-1.5 text-slate-400 transition-colors hover:bg-slate-800 hover:text-slate-200"
+              aria-label="Refresh version history"
+            >
+              <RefreshCw size={14} />
+            </button>
+            <button
+              onClick={onClose}
+              className="rounded p-1.5 text-slate-400 transition-colors hover:bg-slate-800 hover:text-slate-200"
+              aria-label="Close version history"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+
+        <div className="mb-4 rounded-lg bg-slate-800/60 p-3">
+          <label className="mb-1.5 block text-xs font-medium text-slate-400">Save a named checkpoint</label>
+          <div className="flex items-center gap-2">
+            <input
+              value={checkpointName}
+              onChange={(e) => setCheckpointName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') void handleCreateCheckpoint();
+              }}
+              placeholder="e.g. Before auth rework"
+              maxLength={100}
+              className="min-w-0 flex-1 rounded border border-white/10 bg-slate-900 px-2 py-1 text-sm text-slate-100 placeholder-slate-500"
+            />
+            <button
+              onClick={() => void handleCreateCheckpoint()}
+              disabled={!projectId || !checkpointName.trim() || isSavingCheckpoint}
+              className="inline-flex items-center gap-1 rounded border border-violet-400/40 bg-violet-400/10 px-2 py-1 text-xs text-violet-300 hover:bg-violet-400/20 disabled:opacity-40"
+            >
+              {isSavingCheckpoint ? <Loader2 size={12} className="animate-spin" /> : <Bookmark size={12} />}
+              Save
+            </button>
+          </div>
+          <p className="mt-2 text-[11px] text-slate-500">
+            Auto-saves are captured every few minutes while you edit.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-3 rounded border border-rose-500/30 bg-rose-500/10 p-2 text-xs text-rose-300">
+            {error}
+          </div>
+        )}
+
+        {compareIds.length > 0 && (
+          <div className="mb-4 rounded-lg border border-sky-500/20 bg-slate-800/60 p-3">
+            <div className="mb-2 flex items-center justify-between">
+              <div className="flex items-center gap-1.5 text-xs font-semibold text-sky-300">
+                <GitCompare size={12} />
+                {comparison ? comparison.title : 'Comparing...'}
+              </div>
+              <button
+                onClick={() => setCompareIds([])}
+                className="text-[11px] text-slate-500 hover:text-slate-300"
+              >
+                Clear
+              </button>
+            </div>
+            {comparison && (
+              <div className="mb-2 text-[11px] text-slate-400">{summarizeDiff(comparison.diff)}</div>
+            )}
+            {isLoadingDiff && !comparison ? (
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <Loader2 size={12} className="animate-spin" />
+                Loading snapshot...
+              </div>
+            ) : (
+              comparison && <DiffView diff={comparison.diff} />
+            )}
+          </div>
+        )}
+
+        {loading && snapshots.length === 0 && (
+          <div className="flex items-center gap-2 text-sm text-slate-400">
+            <Loader2 size={14} className="animate-spin" />
+            Loading history...
+          </div>
+        )}
+
+        {!loading && snapshots.length === 0 && !error && (
+          <p className="text-sm text-slate-500">No versions yet. Save a checkpoint to get started.</p>
+        )}
+
+        <div className="space-y-2">
+          {snapshots.map((snapshot) => {
+            const isBusy = busySnapshotId === snapshot.id;
+            const isSelected = compareIds.includes(snapshot.id);
+            return (
+              <div
+                key={snapshot.id}
+                className={`rounded-lg border p-3 ${
+                  isSelected ? 'border-sky-500/40 bg-sky-500/5' : 'border-white/10 bg-slate-800/50'
+                }`}
+              >
+                <div className="mb-1 flex items-center justify-between gap-2">
+                  <span className="truncate text-sm text-slate-100">{snapshotLabel(snapshot)}</span>
+                  <span
+                    className={`shrink-0 rounded border px-1.5 py-0.5 text-[10px] ${
+                      snapshot.kind === 'manual'
+                        ? 'border-violet-400/30 bg-violet-400/10 text-violet-300'
+                        : 'border-slate-600/40 bg-slate-800/60 text-slate-400'
+                    }`}
+                  >
+                    {snapshot.kind === 'manual' ? 'Checkpoint' : 'Auto'}
+                  </span>
+                </div>
+                <div className="mb-2 text-[11px] text-slate-500">
+                  {formatSnapshotDate(snapshot.created_at)} · {snapshot.node_count} nodes · {snapshot.edge_count} edges
+                </div>
+                <div className="flex items-center gap-2 text-[11px]">
+                  <button
+                    onClick={() => toggleCompare(snapshot.id)}
+                    className={`inline-flex items-center gap-1 rounded border px-2 py-1 ${
+                      isSelected
+                        ? 'border-sky-500/40 bg-sky-500/20 text-sky-200'
+                        : 'border-sky-500/30 bg-sky-500/10 text-sky-300 hover:bg-sky-500/20'
+                    }`}
+                  >
+                    <GitCompare size={11} />
+                    {isSelected ? 'Selected' : 'Compare'}
+                  </button>
+                  <button
+                    onClick={() => void handleRestore(snapshot)}
+                    disabled={isBusy}
+                    className="inline-flex items-center gap-1 rounded border border-emerald-500/40 bg-emerald-500/10 px-2 py-1 text-emerald-300 hover:bg-emerald-500/20 disabled:opacity-40"
+                  >
+                    {isBusy ? <Loader2 size={11} className="animate-spin" /> : <RotateCcw size={11} />}
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => void handleDelete(snapshot)}
+                    disabled={isBusy}
+                    className="ml-auto rounded p-1 text-slate-500 hover:bg-slate-700 hover:text-rose-300 disabled:opacity-40"
+                    aria-label="Delete snapshot"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {compareIds.length === 1 && (
+          <p className="mt-3 text-[11px] text-slate-500">
+            Select a second version to compare two snapshots instead of the current canvas.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
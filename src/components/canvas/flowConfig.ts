@@ -0,0 +1,47 @@
+import type { NodeTypes, EdgeTypes, DefaultEdgeOptions } from '@xyflow/react';
+import { EDGE_COLOR } from '@/lib/constants';
+
+import IdeaNode from '@/components/nodes/IdeaNode';
+import FeatureNode from '@/components/nodes/FeatureNode';
+import ScreenNode from '@/components/nodes/ScreenNode';
+import TechStackNode from '@/components/nodes/TechStackNode';
+import PromptNode from '@/components/nodes/PromptNode';
+import NoteNode from '@/components/nodes/NoteNode';
+import GroupNode from '@/components/nodes/GroupNode';
+import { SemanticEdge } from './SemanticEdge';
+
+// Shared by the editor and the public share view. Must be defined at module
+// level to prevent React Flow re-registering node types on every render.
+export const nodeTypes: NodeTypes = {
+  idea: IdeaNode,
+  feature: FeatureNode,
+  screen: ScreenNode,
+  techStack: TechStackNode,
+  prompt: PromptNode,
+  note: NoteNode,
+  group: GroupNode,
+};
+
+export const edgeTypes: EdgeTypes = {
+  semantic: SemanticEdge,
+};
+
+export const defaultEdgeOptions: DefaultEdgeOptions = {
+  type: 'semantic',
+  animated: true,
+  style: { stroke: EDGE_COLOR, strokeWidth: 1.5 },
+};
+
+const MINIMAP_COLORS: Record<string, string> = {
+  idea: '#A78BFA',
+  feature: '#60A5FA',
+  screen: '#34D399',
+  techStack: '#FBBF24',
+  prompt: '#F472B6',
+  note: '#94A3B8',
+  group: 'rgba(100, 116, 139, 0.25)',
+};
+
+export function minimapNodeColor(node: { type?: string }): string {
+  return MINIMAP_COLORS[node.type || ''] || '#94A3B8';
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Cpu } from 'lucide-react';
+import { updateAIProviderPreference } from '@/app/actions/aiSettings';
+import { LLM_PROVIDER_LABELS } from '@/lib/constants';
+import type { AIProviderSettings, LLMProviderId } from '@/types/ai';
+
+interface AIProviderSelectProps {
+  settings: AIProviderSettings;
+}
+
+/** Per-user AI backend picker; hidden unless the server offers a choice */
+export function AIProviderSelect({ settings }: AIProviderSelectProps) {
+  const [preference, setPreference] = useState<LLMProviderId | null>(settings.preference);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  if (settings.available.length < 2) return null;
+
+  const handleChange = (value: string) => {
+    const next = value ? (value as LLMProviderId) : null;
+    const previous = preference;
+    setPreference(next);
+    setError(null);
+    startTransition(async () => {
+      try {
+        await updateAIProviderPreference(next);
+      } catch (err) {
+        setPreference(previous);
+        setError(err instanceof Error ? err.message : 'Failed to save AI settings.');
+      }
+    });
+  };
+
+  return (
+    <label
+      className="flex items-center gap-1.5 text-sm text-slate-400"
+      title={error ?? 'AI provider used for imports, enhancements and the wizard'}
+    >
+      <Cpu size={14} className={error ? 'text-red-400' : undefined} />
+      <select
+        value={preference ?? ''}
+        disabled={isPending}
+        onChange={(e) => handleChange(e.target.value)}
+        aria-label="AI provider"
+        className="rounded-lg border border-white/10 bg-slate-800 px-2 py-1.5 text-sm text-slate-300 outline-none focus:border-violet-400 disabled:opacity-50"
+      >
+        <option value="">Default ({LLM_PROVIDER_LABELS[settings.defaultProvider]})</option>
+        {settings.available.map((id) => (
+          <option key={id} value={id}>
+            {LLM_PROVIDER_LABELS[id]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import type { AIUsageSummary } from '@/types/ai';
+import { ProgressBar } from './ProgressBar';
+
+interface AIUsageOverviewProps {
+  summary: AIUsageSummary;
+}
+
+function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? '<$0.01' : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+export function AIUsageOverview({ summary }: AIUsageOverviewProps) {
+  const percent = summary.budgetUsd > 0 ? Math.round((summary.totalCostUsd / summary.budgetUsd) * 100) : 100;
+  const isOverBudget = summary.totalCostUsd >= summary.budgetUsd;
+  const barColor = isOverBudget ? '#F87171' : percent >= 80 ? '#FBBF24' : '#A78BFA';
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      <main className="mx-auto max-w-4xl px-6 py-8">
+        <Link href="/dashboard" className="mb-6 inline-flex items-center gap-1.5 text-sm text-slate-400 hover:text-white">
+          <ArrowLeft size={14} />
+          Back to projects
+        </Link>
+
+        <h1 className="text-2xl font-semibold text-white">AI usage</h1>
+        <p className="mt-1 text-sm text-slate-400">
+          Estimated spend this month on the {summary.tier === 'pro' ? 'Pro' : 'Free'} plan. Local model calls are free.
+        </p>
+
+        <section className="mt-6 rounded-xl border border-white/5 bg-slate-900 p-5">
+          <div className="mb-3 flex items-baseline justify-between">
+            <span className="text-3xl font-semibold text-white">{formatUsd(summary.totalCostUsd)}</span>
+            <span className="text-sm text-slate-400">of {formatUsd(summary.budgetUsd)} monthly budget</span>
+          </div>
+          <ProgressBar
+            percent={percent}
+            color={barColor}
+            label={`${summary.totalCalls} calls · ${formatTokens(summary.inputTokens)} input / ${formatTokens(summary.outputTokens)} output tokens`}
+          />
+          {isOverBudget && (
+            <p className="mt-3 text-sm text-red-400">
+              Budget reached. Paid AI providers are paused until next month
+              {summary.tier === 'free' ? ' or until you upgrade to Pro' : ''}.
+            </p>
+          )}
+        </section>
+
+        {summary.totalCalls === 0 ? (
+          <p className="mt-8 text-center text-sm text-slate-500">No AI usage yet this month.</p>
+        ) : (
+          <div className="mt-6 grid gap-6 md:grid-cols-2">
+            <section className="rounded-xl border border-white/5 bg-slate-900 p-5">
+              <h2 className="mb-3 text-sm font-medium uppercase tracking-wide text-slate-400">By project</h2>
+              <table className="w-full text-sm">
+                <tbody>
+                  {summary.byProject.map((row) => (
+                    <tr key={row.projectId ?? 'none'} className="border-t border-white/5 first:border-t-0">
+                      <td className="py-2 text-slate-200">
+                        {row.projectId && row.name ? (
+                          <Link href={`/project/${row.projectId}`} className="hover:text-violet-300">
+                            {row.name}
+                          </Link>
+                        ) : (
+                          <span className="text-slate-500">{row.projectId ? 'Deleted project' : 'No project'}</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">{row.calls} calls</td>
+                      <td className="py-2 pl-4 text-right text-white">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="rounded-xl border border-white/5 bg-slate-900 p-5">
+              <h2 className="mb-3 text-sm font-medium uppercase tracking-wide text-slate-400">By operation</h2>
+              <table className="w-full text-sm">
+                <tbody>
+                  {summary.byOperation.map((row) => (
+                    <tr key={row.operation} className="border-t border-white/5 first:border-t-0">
+                      <td className="py-2 text-slate-200">{row.label}</td>
+                      <td className="py-2 text-right text-slate-400">
+                        {formatTokens(row.inputTokens + row.outputTokens)} tokens
+                      </td>
+                      <td className="py-2 pl-4 text-right text-white">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
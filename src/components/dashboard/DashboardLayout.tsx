@@ -3,14 +3,23 @@
 import { useState, useMemo, useTransition, useRef, useCallback, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { Plus, Sparkles, LogOut, Undo2 } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Sparkles, LogOut, Undo2, Mail, Gauge, Plug } from 'lucide-react';
 import { signOut } from '@/lib/supabase/auth-helpers';
 import { createProject, createProjectFromWizard, renameProject, deleteProject } from '@/app/actions/projects';
+import { acceptInvitation, createWorkspace } from '@/app/actions/workspaces';
+import { canEditWorkspace, canManageWorkspace } from '@/lib/workspaces/roles';
 import { ProjectCard } from './ProjectCard';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
+import { WorkspaceMembersModal } from './WorkspaceMembersModal';
+import { AIProviderSelect } from './AIProviderSelect';
+import { IntegrationsModal } from './IntegrationsModal';
 import { ProjectWizard } from '@/components/wizard/ProjectWizard';
 import type { Project } from '@/types/project';
 import type { SpexlyEdge, SpexlyNode } from '@/types/nodes';
 import type { TaskSummary } from '@/app/actions/tasks';
+import type { PendingInvitation, WorkspaceWithRole } from '@/types/workspace';
+import type { AIProviderSettings } from '@/types/ai';
 
 function getGreeting(hour: number): string {
   if (hour < 12) return 'Good morning';
@@ -23,12 +32,34 @@ interface DashboardLayoutProps {
   userEmail: string;
   userName?: string;
   taskSummaries?: Record<string, TaskSummary>;
+  userId: string;
+  workspaces: WorkspaceWithRole[];
+  activeWorkspaceId: string;
+  pendingInvitations?: PendingInvitation[];
+  aiSettings?: AIProviderSettings;
 }
 
-export function DashboardLayout({ projects: initialProjects, userEmail, userName, taskSummaries = {} }: DashboardLayoutProps) {
+export function DashboardLayout({
+  projects: initialProjects,
+  userEmail,
+  userName,
+  taskSummaries = {},
+  userId,
+  workspaces,
+  activeWorkspaceId,
+  pendingInvitations = [],
+  aiSettings,
+}: DashboardLayoutProps) {
   const router = useRouter();
   const [projects, setProjects] = useState(initialProjects);
+  const [invitations, setInvitations] = useState(pendingInvitations);
   const [isWizardOpen, setIsWizardOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [isIntegrationsOpen, setIsIntegrationsOpen] = useState(false);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+  const activeWorkspace = workspaces.find((w) => w.id === activeWorkspaceId) ?? workspaces[0];
+  const canEdit = canEditWorkspace(activeWorkspace?.role);
+  const isOwner = canManageWorkspace(activeWorkspace?.role);
   const [isPending, startTransition] = useTransition();
   const greeting = useMemo(() => {
     const hour = new Date().getHours();
@@ -68,7 +99,7 @@ export function DashboardLayout({ projects: initialProjects, userEmail, userName
 
   const handleNewBlankProject = () => {
     startTransition(async () => {
-      const project = await createProject();
+      const project = await createProject(undefined, activeWorkspaceId);
       router.push(`/project/${project.id}`);
     });
   };
@@ -76,7 +107,7 @@ export function DashboardLayout({ projects: initialProjects, userEmail, userName
   const handleWizardComplete = (result: { projectName: string; nodes: SpexlyNode[]; edges: SpexlyEdge[] }) => {
     startTransition(async () => {
       const name = result.projectName || 'New Project';
-      const project = await createProjectFromWizard(name, result.nodes, result.edges);
+      const project = await createProjectFromWizard(name, result.nodes, result.edges, activeWorkspaceId);
       setIsWizardOpen(false);
       router.push(`/project/${project.id}`);
     });
@@ -118,6 +149,35 @@ export function DashboardLayout({ projects: initialProjects, userEmail, userName
     }, UNDO_TIMEOUT_MS);
   };
 
+  const handleSelectWorkspace = (workspaceId: string) => {
+    router.push(`/dashboard?workspace=${workspaceId}`);
+  };
+
+  const handleCreateWorkspace = (name: string) => {
+    setWorkspaceError(null);
+    startTransition(async () => {
+      try {
+        const workspace = await createWorkspace(name);
+        router.push(`/dashboard?workspace=${workspace.id}`);
+      } catch (err) {
+        setWorkspaceError(err instanceof Error ? err.message : 'Failed to create workspace.');
+      }
+    });
+  };
+
+  const handleAcceptInvitation = (invitation: PendingInvitation) => {
+    setWorkspaceError(null);
+    startTransition(async () => {
+      try {
+        const workspaceId = await acceptInvitation(invitation.token);
+        setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+        router.push(`/dashboard?workspace=${workspaceId}`);
+      } catch (err) {
+        setWorkspaceError(err instanceof Error ? err.message : 'Failed to accept invitation.');
+      }
+    });
+  };
+
   const handleSignOut = async () => {
     await signOut();
     router.push('/login');
@@ -130,6 +190,31 @@ export function DashboardLayout({ projects: initialProjects, userEmail, userName
         <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
           <Image src="/spexly-logo-white.png" alt="Spexly" width={1349} height={603} className="h-12 w-auto" priority />
           <div className="flex items-center gap-4">
+            {activeWorkspace && (
+              <WorkspaceSwitcher
+                workspaces={workspaces}
+                activeWorkspaceId={activeWorkspace.id}
+                disabled={isPending}
+                onSelect={handleSelectWorkspace}
+                onCreate={handleCreateWorkspace}
+                onOpenMembers={() => setIsMembersOpen(true)}
+              />
+            )}
+            {aiSettings && <AIProviderSelect settings={aiSettings} />}
+            <Link
+              href="/dashboard/usage"
+              className="flex items-center gap-1.5 text-sm text-slate-400 transition-colors hover:text-white"
+            >
+              <Gauge size={14} />
+              AI usage
+            </Link>
+            <button
+              onClick={() => setIsIntegrationsOpen(true)}
+              className="flex items-center gap-1.5 text-sm text-slate-400 transition-colors hover:text-white"
+            >
+              <Plug size={14} />
+              Integrations
+            </button>
             <span className="text-sm text-slate-400">{userEmail}</span>
             <button
               onClick={handleSignOut}
@@ -144,40 +229,76 @@ export function DashboardLayout({ projects: initialProjects, userEmail, userName
 
       {/* Main */}
       <main className="mx-auto max-w-6xl px-6 py-8">
+        {/* Workspace invitations */}
+        {invitations.length > 0 && (
+          <div className="mb-6 space-y-2">
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between rounded-xl border border-violet-500/30 bg-violet-500/10 px-4 py-3"
+              >
+                <span className="flex items-center gap-2 text-sm text-slate-200">
+                  <Mail size={14} className="text-violet-300" />
+                  You&rsquo;ve been invited to &ldquo;{invitation.workspace_name}&rdquo; as {invitation.role}.
+                </span>
+                <button
+                  onClick={() => handleAcceptInvitation(invitation)}
+                  disabled={isPending}
+                  className="rounded-md bg-violet-600 px-3 py-1 text-sm font-medium text-white transition-colors hover:bg-violet-500 disabled:opacity-50"
+                >
+                  Join
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {workspaceError && (
+          <div className="mb-6 rounded-lg border border-red-500/20 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+            {workspaceError}
+          </div>
+        )}
+
         <div className="mb-8 flex items-center justify-between">
           <h1 className="text-2xl font-bold text-white">{greeting}</h1>
-          <div className="flex items-center gap-3">
-            <button
-              onClick={handleNewBlankProject}
-              disabled={isPending}
-              className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-slate-700 disabled:opacity-50"
-            >
-              <Plus size={16} />
-              Blank Project
-            </button>
-            <button
-              onClick={() => setIsWizardOpen(true)}
-              disabled={isPending}
-              className="flex items-center gap-2 rounded-lg bg-violet-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-violet-500 disabled:opacity-50"
-            >
-              <Sparkles size={16} />
-              New with Wizard
-            </button>
-          </div>
+          {canEdit && (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleNewBlankProject}
+                disabled={isPending}
+                className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-slate-700 disabled:opacity-50"
+              >
+                <Plus size={16} />
+                Blank Project
+              </button>
+              <button
+                onClick={() => setIsWizardOpen(true)}
+                disabled={isPending}
+                className="flex items-center gap-2 rounded-lg bg-violet-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-violet-500 disabled:opacity-50"
+              >
+                <Sparkles size={16} />
+                New with Wizard
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Project Grid */}
         {projects.length === 0 ? (
           <div className="flex flex-col items-center justify-center rounded-2xl border border-dashed border-white/10 py-20">
             <p className="mb-2 text-lg font-medium text-slate-300">No projects yet</p>
-            <p className="mb-6 text-sm text-slate-500">Create your first project to get started.</p>
-            <button
-              onClick={() => setIsWizardOpen(true)}
-              className="flex items-center gap-2 rounded-lg bg-violet-600 px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-500"
-            >
-              <Sparkles size={16} />
-              Create Project
-            </button>
+            <p className="mb-6 text-sm text-slate-500">
+              {canEdit ? 'Create your first project to get started.' : 'Nobody has added a project to this workspace yet.'}
+            </p>
+            {canEdit && (
+              <button
+                onClick={() => setIsWizardOpen(true)}
+                className="flex items-center gap-2 rounded-lg bg-violet-600 px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-violet-500"
+              >
+                <Sparkles size={16} />
+                Create Project
+              </button>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -188,6 +309,8 @@ export function DashboardLayout({ projects: initialProjects, userEmail, userName
                 taskSummary={taskSummaries[project.id]}
                 onRename={handleRename}
                 onDelete={handleDelete}
+                canRename={canEdit}
+                canDelete={isOwner}
               />
             ))}
           </div>
@@ -201,6 +324,21 @@ export function DashboardLayout({ projects: initialProjects, userEmail, userName
         onComplete={handleWizardComplete}
       />
 
+      {activeWorkspace && (
+        <WorkspaceMembersModal
+          workspace={activeWorkspace}
+          currentUserId={userId}
+          isOpen={isMembersOpen}
+          onClose={() => setIsMembersOpen(false)}
+          onLeft={() => {
+            setIsMembersOpen(false);
+            router.push('/dashboard');
+          }}
+        />
+      )}
+
+      <IntegrationsModal isOpen={isIntegrationsOpen} onClose={() => setIsIntegrationsOpen(false)} />
+
       {/* Undo Delete Toast */}
       {pendingDelete && (
         <div className="fixed bottom-6 left-1/2 z-50 -translate-x-1/2 animate-slide-up">
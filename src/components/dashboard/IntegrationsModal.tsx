@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Plug, Loader2 } from 'lucide-react';
+import { checkFigmaConnection, disconnectFigma, getFigmaAuthUrl } from '@/app/actions/integrations/figma';
+import { checkGitHubConnection, disconnectGitHub, getGitHubAuthUrl } from '@/app/actions/integrations/github';
+import { checkJiraConnection, disconnectJira, getJiraAuthUrl } from '@/app/actions/integrations/jira';
+import { checkLinearConnection, disconnectLinear, getLinearAuthUrl } from '@/app/actions/integrations/linear';
+import { checkNotionConnection, disconnectNotion, getNotionAuthUrl } from '@/app/actions/integrations/notion';
+
+interface IntegrationDefinition {
+  id: string;
+  name: string;
+  description: string;
+  check: () => Promise<{ connected: boolean }>;
+  getAuthUrl: () => Promise<{ url: string }>;
+  disconnect: () => Promise<{ success: boolean }>;
+}
+
+const INTEGRATIONS: IntegrationDefinition[] = [
+  {
+    id: 'figma',
+    name: 'Figma',
+    description: 'Import design frames as screens',
+    check: checkFigmaConnection,
+    getAuthUrl: getFigmaAuthUrl,
+    disconnect: disconnectFigma,
+  },
+  {
+    id: 'github',
+    name: 'GitHub',
+    description: 'Sync features as issues and Projects items; closed issues mark features built',
+    check: checkGitHubConnection,
+    getAuthUrl: getGitHubAuthUrl,
+    disconnect: disconnectGitHub,
+  },
+  {
+    id: 'jira',
+    name: 'Jira',
+    description: 'Export features as Epics with child issues; status changes sync back',
+    check: checkJiraConnection,
+    getAuthUrl: getJiraAuthUrl,
+    disconnect: disconnectJira,
+  },
+  {
+    id: 'linear',
+    name: 'Linear',
+    description: 'Export features as issues; status changes sync both ways',
+    check: checkLinearConnection,
+    getAuthUrl: getLinearAuthUrl,
+    disconnect: disconnectLinear,
+  },
+  {
+    id: 'notion',
+    name: 'Notion',
+    description: 'Import pages as canvases and publish projects as page trees',
+    check: checkNotionConnection,
+    getAuthUrl: getNotionAuthUrl,
+    disconnect: disconnectNotion,
+  },
+];
+
+interface IntegrationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** Connect and disconnect third-party accounts for the current user */
+export function IntegrationsModal({ isOpen, onClose }: IntegrationsModalProps) {
+  const [connected, setConnected] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const results = await Promise.all(INTEGRATIONS.map((integration) => integration.check()));
+      setConnected(Object.fromEntries(INTEGRATIONS.map((integration, idx) => [integration.id, results[idx].connected])));
+      setLoading(false);
+    };
+    void load();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleConnect = async (integration: IntegrationDefinition) => {
+    setBusyId(integration.id);
+    setError(null);
+    try {
+      const { url } = await integration.getAuthUrl();
+      window.location.href = url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to connect ${integration.name}.`);
+      setBusyId(null);
+    }
+  };
+
+  const handleDisconnect = async (integration: IntegrationDefinition) => {
+    setBusyId(integration.id);
+    setError(null);
+    try {
+      await integration.disconnect();
+      setConnected((prev) => ({ ...prev, [integration.id]: false }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to disconnect ${integration.name}.`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
+      <div className="w-full max-w-lg rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-6 py-4">
+          <div className="flex items-center gap-2 text-slate-100">
+            <Plug size={18} className="text-violet-400" />
+            <h2 className="text-lg font-semibold">Integrations</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 text-slate-300 hover:bg-slate-800 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="space-y-2 px-6 pb-6 pt-4">
+          {INTEGRATIONS.map((integration) => {
+            const isConnected = connected[integration.id];
+            const isBusy = busyId === integration.id;
+            return (
+              <div
+                key={integration.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-white/5 bg-slate-800/50 px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-slate-100">
+                    {integration.name}
+                    {isConnected && (
+                      <span className="rounded-full bg-emerald-500/15 px-2 py-0.5 text-[10px] text-emerald-300">
+                        Connected
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-0.5 text-xs text-slate-400">{integration.description}</div>
+                </div>
+                {loading ? (
+                  <Loader2 size={16} className="shrink-0 animate-spin text-slate-500" />
+                ) : isConnected ? (
+                  <button
+                    onClick={() => handleDisconnect(integration)}
+                    disabled={isBusy}
+                    className="shrink-0 rounded-md border border-white/10 px-3 py-1 text-sm text-slate-300 transition-colors hover:bg-slate-700 hover:text-white disabled:opacity-50"
+                  >
+                    Disconnect
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleConnect(integration)}
+                    disabled={isBusy}
+                    className="shrink-0 rounded-md bg-violet-600 px-3 py-1 text-sm font-medium text-white transition-colors hover:bg-violet-500 disabled:opacity-50"
+                  >
+                    Connect
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
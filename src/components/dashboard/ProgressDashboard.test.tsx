@@ -2,9 +2,11 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, userEvent } from '@/__tests__/utils/test-utils';
 import { ProgressDashboard } from './ProgressDashboard';
 import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+import type { ProjectMilestone } from '@/types/project';
 
 let mockNodes: SpexlyNode[] = [];
 let mockEdges: SpexlyEdge[] = [];
+let mockMilestones: ProjectMilestone[] = [];
 
 vi.mock('@/store/canvasStore', () => ({
   useCanvasStore: (selector: (s: Record<string, unknown>) => unknown) =>
@@ -14,6 +16,11 @@ vi.mock('@/store/canvasStore', () => ({
     }),
 }));
 
+vi.mock('@/store/milestoneStore', () => ({
+  useMilestoneStore: (selector: (s: Record<string, unknown>) => unknown) =>
+    selector({ milestones: mockMilestones }),
+}));
+
 vi.mock('@xyflow/react', async (importOriginal) => {
   const actual = await importOriginal<typeof import('@xyflow/react')>();
   return {
@@ -24,7 +31,7 @@ vi.mock('@xyflow/react', async (importOriginal) => {
   };
 });
 
-function makeFeatureNode(id: string, status: string): SpexlyNode {
+function makeFeatureNode(id: string, status: string, overrides: Record<string, unknown> = {}): SpexlyNode {
   return {
     id,
     type: 'feature',
@@ -53,6 +60,7 @@ function makeFeatureNode(id: string, status: string): SpexlyNode {
       tags: [],
       estimatedHours: null,
       version: 0,
+      ...overrides,
     },
   } as SpexlyNode;
 }
@@ -66,7 +74,21 @@ function makeNode(id: string, type: string): SpexlyNode {
   } as SpexlyNode;
 }
 
+function makeMilestone(id: string, name: string, targetDate: string | null, position: number): ProjectMilestone {
+  return {
+    id,
+    project_id: 'p1',
+    created_by: 'u1',
+    name,
+    target_date: targetDate,
+    position,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
+
 function setupDefault() {
+  mockMilestones = [];
   mockNodes = [
     makeNode('i1', 'idea'),
     makeFeatureNode('f1', 'Planned'),
@@ -124,6 +146,42 @@ describe('ProgressDashboard', () => {
     expect(screen.getByText(/50% Complete/)).toBeInTheDocument();
   });
 
+  it('shows the critical path and dependency cycles in the build plan', () => {
+    const api = makeFeatureNode('api', 'Planned', { featureName: 'API', effort: 'L' });
+    const ui = makeFeatureNode('ui', 'Planned', { featureName: 'UI', dependencyIds: ['api'] });
+    const a = makeFeatureNode('a', 'Planned', { featureName: 'Alpha', dependencyIds: ['b'] });
+    const b = makeFeatureNode('b', 'Planned', { featureName: 'Beta', dependencyIds: ['a'] });
+    mockNodes = [api, ui, a, b];
+    mockEdges = [];
+    render(<ProgressDashboard isOpen={true} onClose={vi.fn()} />);
+
+    expect(screen.getByText('Build Plan')).toBeInTheDocument();
+    expect(screen.getByText('24h')).toBeInTheDocument();
+    expect(screen.getByText('API → UI')).toBeInTheDocument();
+    expect(screen.getByText(/Dependency cycle: Alpha → Beta/)).toBeInTheDocument();
+  });
+
+  it('shows progress per milestone and flags overdue ones', () => {
+    mockMilestones = [makeMilestone('m1', 'v1', '2020-01-01', 0), makeMilestone('m2', 'v2', null, 1)];
+    mockNodes = [
+      makeFeatureNode('f1', 'Built', { milestoneId: 'm1' }),
+      makeFeatureNode('f2', 'Planned', { milestoneId: 'm1' }),
+      makeFeatureNode('f3', 'Built', { milestoneId: 'm2' }),
+    ];
+    mockEdges = [];
+    render(<ProgressDashboard isOpen={true} onClose={vi.fn()} />);
+
+    expect(screen.getByText('Milestones')).toBeInTheDocument();
+    expect(screen.getByText(/50% \(1\/2 features built/)).toBeInTheDocument();
+    expect(screen.getByText(/100% \(1\/1 features built/)).toBeInTheDocument();
+    expect(screen.getByText('Jan 1, 2020')).toHaveClass('text-amber-400');
+  });
+
+  it('hides the milestone section when the project has none', () => {
+    render(<ProgressDashboard isOpen={true} onClose={vi.fn()} />);
+    expect(screen.queryByText('Milestones')).not.toBeInTheDocument();
+  });
+
   it('hides feature status when no features exist', () => {
     mockNodes = [makeNode('i1', 'idea'), makeNode('n1', 'note')];
     mockEdges = [];
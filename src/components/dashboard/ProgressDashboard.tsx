@@ -1,8 +1,11 @@
 'use client';
 
 import { useMemo } from 'react';
-import { X } from 'lucide-react';
+import { AlertTriangle, X } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
+import { useMilestoneStore } from '@/store/milestoneStore';
+import { analyzeFeatureDependencies } from '@/lib/graph/featureDependencies';
+import { formatTargetDate, getMilestoneProgress, isMilestoneOverdue } from '@/lib/milestones/milestones';
 import type { SpexlyNodeType, FeatureStatus, FeatureNodeData } from '@/types/nodes';
 import { ProgressBar } from './ProgressBar';
 import { NodeTypeRow } from './NodeTypeRow';
@@ -19,6 +22,7 @@ const ALL_STATUSES: FeatureStatus[] = ['Planned', 'In Progress', 'Built', 'Broke
 export function ProgressDashboard({ isOpen, onClose }: ProgressDashboardProps) {
   const nodes = useCanvasStore((s) => s.nodes);
   const edges = useCanvasStore((s) => s.edges);
+  const milestones = useMilestoneStore((s) => s.milestones);
 
   const summary = useMemo(() => {
     const byType = {} as Record<SpexlyNodeType, number>;
@@ -57,6 +61,29 @@ export function ProgressDashboard({ isOpen, onClose }: ProgressDashboardProps) {
   }, [nodes]);
   const completionPercent = totalFeatures > 0 ? Math.round((builtCount / totalFeatures) * 100) : 0;
 
+  const buildPlan = useMemo(() => {
+    const analysis = analyzeFeatureDependencies(nodes, edges);
+    const names = new Map<string, string>();
+    for (const node of nodes) {
+      if (node.type === 'feature') names.set(node.id, node.data.featureName || 'Untitled feature');
+    }
+    const nameOf = (id: string) => names.get(id) ?? id;
+    return {
+      hours: analysis.criticalPath.hours,
+      criticalPath: analysis.criticalPath.featureIds.map(nameOf),
+      cycles: analysis.cycles.map((cycle) => cycle.map(nameOf)),
+      buildOrder: analysis.buildOrder.map(nameOf),
+    };
+  }, [nodes, edges]);
+
+  const milestoneProgress = useMemo(() => {
+    const milestoneIds = new Set(milestones.map((m) => m.id));
+    return milestones.map((milestone) => {
+      const progress = getMilestoneProgress(nodes, milestone.id, milestoneIds);
+      return { milestone, progress, overdue: isMilestoneOverdue(milestone, progress) };
+    });
+  }, [nodes, milestones]);
+
   return (
     <div
       className={`fixed right-0 top-0 z-30 h-screen w-80 border-l border-white/10 bg-slate-900 transition-transform duration-300 ease-in-out ${
@@ -115,6 +142,67 @@ export function ProgressDashboard({ isOpen, onClose }: ProgressDashboardProps) {
           </div>
         )}
 
+        {/* Milestones */}
+        {milestoneProgress.length > 0 && (
+          <div className="mb-6">
+            <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-slate-400">
+              Milestones
+            </h3>
+            <div className="space-y-3">
+              {milestoneProgress.map(({ milestone, progress, overdue }) => (
+                <div key={milestone.id}>
+                  <div className="mb-1 flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate font-medium text-slate-200">{milestone.name}</span>
+                    {milestone.target_date && (
+                      <span className={`flex shrink-0 items-center gap-1 ${overdue ? 'text-amber-400' : 'text-slate-500'}`}>
+                        {overdue && <AlertTriangle size={11} />}
+                        {formatTargetDate(milestone.target_date)}
+                      </span>
+                    )}
+                  </div>
+                  <ProgressBar
+                    percent={progress.percent}
+                    color="#A78BFA"
+                    label={`${progress.percent}% (${progress.builtFeatureCount}/${progress.featureCount} features built, ${progress.completedScreenCount}/${progress.screenCount} screens done)`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Build Plan */}
+        {totalFeatures > 0 && (
+          <div className="mb-6">
+            <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-slate-400">
+              Build Plan
+            </h3>
+            <div className="mb-3 rounded-lg bg-slate-800/50 p-3">
+              <span className="text-2xl font-bold text-white">{buildPlan.hours}h</span>
+              <span className="block text-xs text-slate-400">Critical path remaining</span>
+              {buildPlan.criticalPath.length > 0 && (
+                <p className="mt-2 text-xs text-slate-300">{buildPlan.criticalPath.join(' → ')}</p>
+              )}
+            </div>
+            {buildPlan.cycles.map((cycle) => (
+              <div
+                key={cycle.join('|')}
+                className="mb-2 flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 p-2 text-xs text-amber-300"
+              >
+                <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                <span>Dependency cycle: {cycle.join(' → ')}</span>
+              </div>
+            ))}
+            {buildPlan.buildOrder.length > 0 && (
+              <ol className="list-decimal space-y-1 pl-5 text-xs text-slate-300">
+                {buildPlan.buildOrder.map((name, i) => (
+                  <li key={`${i}-${name}`}>{name}</li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+
         {/* Node Types */}
         <div className="mb-6">
           <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-slate-400">
@@ -13,6 +13,7 @@ function makeProject(overrides: Partial<Project> = {}): Project {
   return {
     id: 'proj-123',
     user_id: 'user-1',
+    workspace_id: 'ws-1',
     name: 'My Project',
     canvas_data: {
       nodes: [{ id: '1' }, { id: '2' }],
@@ -89,6 +90,20 @@ describe('ProjectCard', () => {
     expect(screen.getByTitle('Delete')).toBeInTheDocument()
   })
 
+  it('hides rename and delete for roles without permission', () => {
+    render(
+      <ProjectCard
+        project={makeProject()}
+        onRename={mockOnRename}
+        onDelete={mockOnDelete}
+        canRename={false}
+        canDelete={false}
+      />
+    )
+    expect(screen.queryByTitle('Rename')).not.toBeInTheDocument()
+    expect(screen.queryByTitle('Delete')).not.toBeInTheDocument()
+  })
+
   it('handles project with no canvas data', () => {
     const project = makeProject({ canvas_data: null as never })
     render(<ProjectCard project={project} onRename={mockOnRename} onDelete={mockOnDelete} />)
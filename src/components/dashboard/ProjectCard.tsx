@@ -12,9 +12,19 @@ interface ProjectCardProps {
   taskSummary?: TaskSummary;
   onRename: (id: string, name: string) => void;
   onDelete: (id: string) => void;
+  /** Workspace editors may rename; only owners may delete */
+  canRename?: boolean;
+  canDelete?: boolean;
 }
 
-export function ProjectCard({ project, taskSummary, onRename, onDelete }: ProjectCardProps) {
+export function ProjectCard({
+  project,
+  taskSummary,
+  onRename,
+  onDelete,
+  canRename = true,
+  canDelete = true,
+}: ProjectCardProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(project.name);
 
@@ -88,50 +98,54 @@ export function ProjectCard({ project, taskSummary, onRename, onDelete }: Projec
       <div className="flex items-center justify-between">
         <span className="text-xs text-slate-500">Updated {updatedAt}</span>
         <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
-          <button
-            onClick={() => setIsEditing(true)}
-            className="rounded p-1 text-slate-400 transition-colors hover:bg-slate-700 hover:text-white"
-            title="Rename"
-          >
-            <Pencil size={14} />
-          </button>
+          {canRename && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="rounded p-1 text-slate-400 transition-colors hover:bg-slate-700 hover:text-white"
+              title="Rename"
+            >
+              <Pencil size={14} />
+            </button>
+          )}
 
-          <AlertDialog.Root>
-            <AlertDialog.Trigger asChild>
-              <button
-                className="rounded p-1 text-slate-400 transition-colors hover:bg-red-900/50 hover:text-red-400"
-                title="Delete"
-              >
-                <Trash2 size={14} />
-              </button>
-            </AlertDialog.Trigger>
-            <AlertDialog.Portal>
-              <AlertDialog.Overlay className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm" />
-              <AlertDialog.Content className="fixed left-1/2 top-1/2 z-50 w-full max-w-md -translate-x-1/2 -translate-y-1/2 rounded-xl border border-white/10 bg-slate-900 p-6">
-                <AlertDialog.Title className="text-lg font-semibold text-white">
-                  Delete Project
-                </AlertDialog.Title>
-                <AlertDialog.Description className="mt-2 text-sm text-slate-400">
-                  Are you sure you want to delete &ldquo;{project.name}&rdquo;? This action cannot be undone.
-                </AlertDialog.Description>
-                <div className="mt-6 flex justify-end gap-3">
-                  <AlertDialog.Cancel asChild>
-                    <button className="rounded-lg border border-white/10 bg-slate-800 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-slate-700">
-                      Cancel
-                    </button>
-                  </AlertDialog.Cancel>
-                  <AlertDialog.Action asChild>
-                    <button
-                      onClick={() => onDelete(project.id)}
-                      className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-red-500"
-                    >
-                      Delete
-                    </button>
-                  </AlertDialog.Action>
-                </div>
-              </AlertDialog.Content>
-            </AlertDialog.Portal>
-          </AlertDialog.Root>
+          {canDelete && (
+            <AlertDialog.Root>
+              <AlertDialog.Trigger asChild>
+                <button
+                  className="rounded p-1 text-slate-400 transition-colors hover:bg-red-900/50 hover:text-red-400"
+                  title="Delete"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </AlertDialog.Trigger>
+              <AlertDialog.Portal>
+                <AlertDialog.Overlay className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm" />
+                <AlertDialog.Content className="fixed left-1/2 top-1/2 z-50 w-full max-w-md -translate-x-1/2 -translate-y-1/2 rounded-xl border border-white/10 bg-slate-900 p-6">
+                  <AlertDialog.Title className="text-lg font-semibold text-white">
+                    Delete Project
+                  </AlertDialog.Title>
+                  <AlertDialog.Description className="mt-2 text-sm text-slate-400">
+                    Are you sure you want to delete &ldquo;{project.name}&rdquo;? This action cannot be undone.
+                  </AlertDialog.Description>
+                  <div className="mt-6 flex justify-end gap-3">
+                    <AlertDialog.Cancel asChild>
+                      <button className="rounded-lg border border-white/10 bg-slate-800 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-slate-700">
+                        Cancel
+                      </button>
+                    </AlertDialog.Cancel>
+                    <AlertDialog.Action asChild>
+                      <button
+                        onClick={() => onDelete(project.id)}
+                        className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-red-500"
+                      >
+                        Delete
+                      </button>
+                    </AlertDialog.Action>
+                  </div>
+                </AlertDialog.Content>
+              </AlertDialog.Portal>
+            </AlertDialog.Root>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,273 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Users, Mail, Trash2, UserPlus } from 'lucide-react';
+import {
+  getWorkspaceMembers,
+  getWorkspaceInvitations,
+  inviteToWorkspace,
+  revokeInvitation,
+  updateMemberRole,
+  removeMember,
+} from '@/app/actions/workspaces';
+import { canManageWorkspace, INVITABLE_ROLES, WORKSPACE_ROLES } from '@/lib/workspaces/roles';
+import type {
+  InvitableWorkspaceRole,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceWithRole,
+} from '@/types/workspace';
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+interface WorkspaceMembersModalProps {
+  workspace: WorkspaceWithRole;
+  currentUserId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after the current user leaves the workspace */
+  onLeft: () => void;
+}
+
+export function WorkspaceMembersModal({
+  workspace,
+  currentUserId,
+  isOpen,
+  onClose,
+  onLeft,
+}: WorkspaceMembersModalProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<InvitableWorkspaceRole>('editor');
+
+  const isOwner = canManageWorkspace(workspace.role);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [memberList, invitationList] = await Promise.all([
+          getWorkspaceMembers(workspace.id),
+          isOwner ? getWorkspaceInvitations(workspace.id) : Promise.resolve([]),
+        ]);
+        setMembers(memberList);
+        setInvitations(invitationList);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load members.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [isOpen, workspace.id, isOwner]);
+
+  if (!isOpen) return null;
+
+  const handleInvite = async () => {
+    setError(null);
+    if (!email.trim()) {
+      setError('Email is required.');
+      return;
+    }
+    setInviting(true);
+    try {
+      const invitation = await inviteToWorkspace(workspace.id, email, role);
+      setInvitations((prev) => [invitation, ...prev.filter((i) => i.email !== invitation.email)]);
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation.');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    setError(null);
+    try {
+      await revokeInvitation(invitationId);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitationId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation.');
+    }
+  };
+
+  const handleRoleChange = async (userId: string, nextRole: WorkspaceRole) => {
+    setError(null);
+    try {
+      await updateMemberRole(workspace.id, userId, nextRole);
+      setMembers((prev) => prev.map((m) => (m.user_id === userId ? { ...m, role: nextRole } : m)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update role.');
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    setError(null);
+    try {
+      await removeMember(workspace.id, userId);
+      if (userId === currentUserId) {
+        onLeft();
+        return;
+      }
+      setMembers((prev) => prev.filter((m) => m.user_id !== userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 py-10">
+      <div className="w-full max-w-2xl overflow-hidden rounded-2xl border border-white/10 bg-slate-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-white/10 bg-slate-950/80 px-6 py-4">
+          <div className="flex items-center gap-2 text-slate-100">
+            <Users size={18} />
+            <h2 className="text-lg font-semibold">{workspace.name} members</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 text-slate-300 hover:bg-slate-800 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 pt-4 space-y-4">
+          {isOwner && !workspace.is_personal && (
+            <div className="rounded-xl border border-white/10 bg-slate-950/60 p-4">
+              <h3 className="text-sm font-semibold text-slate-100">Invite a collaborator</h3>
+              <div className="mt-3 flex items-center gap-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleInvite();
+                  }}
+                  placeholder="teammate@company.com"
+                  className="w-full rounded-lg border border-white/10 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:border-violet-400 focus:outline-none"
+                />
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as InvitableWorkspaceRole)}
+                  className="rounded-lg border border-white/10 bg-slate-900 px-2 py-2 text-sm text-slate-100 focus:border-violet-400 focus:outline-none"
+                >
+                  {INVITABLE_ROLES.map((option) => (
+                    <option key={option} value={option}>
+                      {ROLE_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={inviting}
+                  className="inline-flex shrink-0 items-center gap-2 rounded-lg bg-violet-500 px-4 py-2 text-sm font-semibold text-white hover:bg-violet-400 disabled:opacity-60"
+                >
+                  <UserPlus size={14} />
+                  {inviting ? 'Inviting...' : 'Invite'}
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">
+                No email is sent, so let them know: the invitation appears on their dashboard after they sign in with
+                this address.
+              </p>
+            </div>
+          )}
+
+          {workspace.is_personal && (
+            <div className="text-xs text-slate-500">
+              Personal workspaces are private. Create a team workspace to collaborate.
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-slate-100">Members</h3>
+            {loading && <div className="text-xs text-slate-400">Loading members...</div>}
+
+            {members.map((member) => {
+              const isSelf = member.user_id === currentUserId;
+              return (
+                <div
+                  key={member.user_id}
+                  className="flex items-center justify-between rounded-xl border border-white/10 bg-slate-950/50 px-4 py-3"
+                >
+                  <div className="text-sm text-slate-100">
+                    {member.email ?? 'Unknown member'}
+                    {isSelf && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isOwner ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member.user_id, e.target.value as WorkspaceRole)}
+                        className="rounded-lg border border-white/10 bg-slate-800 px-2 py-1 text-xs text-white focus:border-violet-400 focus:outline-none"
+                      >
+                        {WORKSPACE_ROLES.map((option) => (
+                          <option key={option} value={option}>
+                            {ROLE_LABELS[option]}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs text-slate-400">{ROLE_LABELS[member.role]}</span>
+                    )}
+                    {(isOwner || isSelf) && !workspace.is_personal && (
+                      <button
+                        onClick={() => handleRemove(member.user_id)}
+                        className="rounded-lg border border-white/10 bg-slate-800 px-2 py-1.5 text-xs text-rose-200 hover:bg-rose-500/20"
+                        title={isSelf ? 'Leave workspace' : 'Remove member'}
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {isOwner && invitations.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-slate-100">Pending invitations</h3>
+              {invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between rounded-xl border border-dashed border-white/10 px-4 py-3"
+                >
+                  <div className="flex items-center gap-2 text-sm text-slate-300">
+                    <Mail size={14} className="text-slate-500" />
+                    {invitation.email}
+                    <span className="text-xs text-slate-500">{ROLE_LABELS[invitation.role]}</span>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(invitation.id)}
+                    className="rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-700"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-lg border border-red-500/20 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
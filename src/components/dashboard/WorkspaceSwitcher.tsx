@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Check, X, Users } from 'lucide-react';
+import type { WorkspaceWithRole } from '@/types/workspace';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceWithRole[];
+  activeWorkspaceId: string;
+  disabled?: boolean;
+  onSelect: (workspaceId: string) => void;
+  onCreate: (name: string) => void;
+  onOpenMembers: () => void;
+}
+
+export function WorkspaceSwitcher({
+  workspaces,
+  activeWorkspaceId,
+  disabled,
+  onSelect,
+  onCreate,
+  onOpenMembers,
+}: WorkspaceSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleCreate = () => {
+    const trimmed = name.trim();
+    if (trimmed) {
+      onCreate(trimmed);
+    }
+    setName('');
+    setIsCreating(false);
+  };
+
+  if (isCreating) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreate();
+            if (e.key === 'Escape') { setName(''); setIsCreating(false); }
+          }}
+          placeholder="Workspace name"
+          maxLength={60}
+          className="rounded-lg border border-white/20 bg-slate-800 px-3 py-1.5 text-sm text-white outline-none focus:border-violet-400"
+        />
+        <button onClick={handleCreate} className="text-green-400 hover:text-green-300" aria-label="Create workspace">
+          <Check size={14} />
+        </button>
+        <button
+          onClick={() => { setName(''); setIsCreating(false); }}
+          className="text-slate-400 hover:text-slate-200"
+          aria-label="Cancel"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={activeWorkspaceId}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled}
+        aria-label="Workspace"
+        className="rounded-lg border border-white/10 bg-slate-800 px-3 py-1.5 text-sm text-slate-200 outline-none focus:border-violet-400 disabled:opacity-50"
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+            {workspace.role !== 'owner' ? ` (${workspace.role})` : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onOpenMembers}
+        className="rounded-lg border border-white/10 bg-slate-800 p-1.5 text-slate-300 transition-colors hover:bg-slate-700 hover:text-white"
+        title="Members"
+      >
+        <Users size={14} />
+      </button>
+      <button
+        onClick={() => setIsCreating(true)}
+        disabled={disabled}
+        className="rounded-lg border border-white/10 bg-slate-800 p-1.5 text-slate-300 transition-colors hover:bg-slate-700 hover:text-white disabled:opacity-50"
+        title="New workspace"
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+  );
+}
@@ -2,12 +2,15 @@
 
 import { memo, useState } from 'react';
 import { type NodeProps } from '@xyflow/react';
+import { AlertTriangle } from 'lucide-react';
 import { NodeWrapper } from './NodeWrapper';
 import { StatusBadge } from './StatusBadge';
+import { MilestoneSelect } from './MilestoneSelect';
 import { AIContextIndicator } from './AIContextIndicator';
 import { useCanvasStore } from '@/store/canvasStore';
-import { enhanceFeatureWithAI } from '@/app/actions/enhanceNodeWithAI';
-import { showError } from '@/store/toastStore';
+import { useNodeEnhancement } from '@/hooks/useNodeEnhancement';
+import { resolveDependencyIds } from '@/lib/graph/featureDependencies';
+import { useDependencyAnalysis } from '@/components/canvas/DependencyAnalysisContext';
 import type {
   FeatureNode as FeatureNodeType,
   FeaturePriority,
@@ -21,7 +24,11 @@ const inputClass =
 function FeatureNodeComponent({ id, data }: NodeProps<FeatureNodeType>) {
   const updateNodeData = useCanvasStore((s) => s.updateNodeData);
   const [showAiContext, setShowAiContext] = useState(false);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const { isGenerating, enhance } = useNodeEnhancement(id);
+  const analysis = useDependencyAnalysis();
+
+  const cycle = analysis.cyclicIds.has(id) ? analysis.cycles.find((c) => c.includes(id)) : undefined;
+  const unresolvedDependencies = analysis.unresolved.get(id) ?? [];
 
   const subtitle = `${data.priority} Have · ${data.status} · ${data.effort}`;
 
@@ -40,50 +47,44 @@ function FeatureNodeComponent({ id, data }: NodeProps<FeatureNodeType>) {
   const relatedFilesValue = relatedFiles.join('\n');
   const tagsValue = tags.join(', ');
 
-  const handleGenerateAIContext = async () => {
-    setIsGenerating(true);
-    try {
-      const result = await enhanceFeatureWithAI({
+  const cycleTitle = cycle
+    ? `Dependency cycle: ${cycle
+        .map((featureId) => {
+          const node = useCanvasStore.getState().nodes.find((n) => n.id === featureId);
+          return (node?.type === 'feature' && node.data.featureName) || 'Untitled feature';
+        })
+        .join(' → ')}`
+    : '';
+
+  // Re-resolve ids from the edited names so removed dependencies don't linger
+  const handleDependenciesChange = (value: string) => {
+    const nextDependencies = value
+      .split('\n')
+      .map((item) => item.trim())
+      .filter(Boolean);
+    const { nodes } = useCanvasStore.getState();
+    const draft = nodes.map((n) =>
+      n.id === id && n.type === 'feature'
+        ? { ...n, data: { ...n.data, dependencies: nextDependencies, dependencyIds: [] } }
+        : n
+    );
+    const resolved = resolveDependencyIds(draft, new Set([id])).find((n) => n.id === id);
+    const dependencyIds = resolved?.type === 'feature' ? resolved.data.dependencyIds ?? [] : [];
+    updateNodeData(id, { dependencies: nextDependencies, dependencyIds });
+  };
+
+  const handleGenerateAIContext = () =>
+    enhance({
+      kind: 'feature',
+      input: {
         featureName: data.featureName,
         summary: data.summary,
         problem: data.problem,
         userStory: data.userStory,
         acceptanceCriteria: acceptanceCriteria,
         technicalConstraints: data.technicalConstraints,
-      });
-
-      if (result.success && result.data) {
-        const updates: Record<string, unknown> = {};
-        // Fill main fields only if currently empty
-        if (!data.summary?.trim() && result.data.summary) updates.summary = result.data.summary;
-        if (!data.problem?.trim() && result.data.problem) updates.problem = result.data.problem;
-        if (!data.userStory?.trim() && result.data.userStory) updates.userStory = result.data.userStory;
-        if (!data.risks?.trim() && result.data.risks) updates.risks = result.data.risks;
-        if (!data.metrics?.trim() && result.data.metrics) updates.metrics = result.data.metrics;
-        if (acceptanceCriteria.length === 0 && result.data.acceptanceCriteria.length > 0) {
-          updates.acceptanceCriteria = result.data.acceptanceCriteria;
-        }
-        if (dependencies.length === 0 && result.data.dependencies.length > 0) {
-          updates.dependencies = result.data.dependencies;
-        }
-        // Always update AI-specific fields
-        updates.aiContext = result.data.aiContext;
-        updates.implementationSteps = result.data.implementationSteps;
-        updates.codeReferences = result.data.codeReferences;
-        updates.testingRequirements = result.data.testingRequirements;
-        updates.relatedFiles = result.data.relatedFiles;
-        updates.technicalConstraints = result.data.technicalConstraints;
-        updateNodeData(id, updates);
-        setShowAiContext(true); // Expand to show generated content
-      } else {
-        showError(result.error || 'Failed to generate AI context');
-      }
-    } catch (error) {
-      showError(error instanceof Error ? error.message : 'Failed to generate AI context');
-    } finally {
-      setIsGenerating(false);
-    }
-  };
+      },
+    });
 
   return (
     <NodeWrapper
@@ -95,7 +96,45 @@ function FeatureNodeComponent({ id, data }: NodeProps<FeatureNodeType>) {
       subtitle={subtitle}
       headerExtra={
         <div className="flex items-center gap-2">
+          {cycle && (
+            <span title={cycleTitle} aria-label={cycleTitle} className="text-amber-400">
+              <AlertTriangle className="h-4 w-4" />
+            </span>
+          )}
           <AIContextIndicator data={data} />
+          {data.linearIssue && (
+            <a
+              href={data.linearIssue.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title="Open in Linear"
+              className="nodrag text-[10px] font-medium text-indigo-300 hover:text-indigo-200"
+            >
+              {data.linearIssue.identifier}
+            </a>
+          )}
+          {data.githubIssue && (
+            <a
+              href={data.githubIssue.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={`Open on GitHub (${data.githubIssue.state})`}
+              className="nodrag text-[10px] font-medium text-slate-300 hover:text-white"
+            >
+              #{data.githubIssue.number}
+            </a>
+          )}
+          {data.jiraIssue && (
+            <a
+              href={data.jiraIssue.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title="Open in Jira"
+              className="nodrag text-[10px] font-medium text-sky-300 hover:text-sky-200"
+            >
+              {data.jiraIssue.key}
+            </a>
+          )}
           <StatusBadge status={data.status} />
         </div>
       }
@@ -182,6 +221,7 @@ function FeatureNodeComponent({ id, data }: NodeProps<FeatureNodeType>) {
           <option value="Blocked">Blocked</option>
         </select>
       </div>
+      <MilestoneSelect nodeId={id} milestoneId={data.milestoneId} className={inputClass} />
       <div>
         <label className="block text-xs text-slate-400 uppercase tracking-wide mb-1">Effort</label>
         <select
@@ -203,15 +243,13 @@ function FeatureNodeComponent({ id, data }: NodeProps<FeatureNodeType>) {
           placeholder="One dependency per line"
           rows={2}
           value={dependenciesValue}
-          onChange={(e) =>
-            updateNodeData(id, {
-              dependencies: e.target.value
-                .split('\n')
-                .map((item) => item.trim())
-                .filter(Boolean),
-            })
-          }
+          onChange={(e) => handleDependenciesChange(e.target.value)}
         />
+        {unresolvedDependencies.length > 0 && (
+          <p className="mt-1 text-xs text-amber-400/80">
+            Not matched to a feature: {unresolvedDependencies.join(', ')}
+          </p>
+        )}
       </div>
       <div>
         <label className="block text-xs text-slate-400 uppercase tracking-wide mb-1">Risks</label>
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { ListChecks, Loader2 } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { planFeatureWithAI } from '@/app/actions/planFeature';
+import { syncFeaturePlanTasks, updateTaskStatus } from '@/app/actions/tasks';
+import { applyFeaturePlan, buildFeaturePlanContext, getFeaturePlanProgress } from '@/lib/ai/featurePlan';
+import { showError, showSuccess } from '@/store/toastStore';
+import type { FeaturePlanStep } from '@/types/nodes';
+
+interface FeaturePlanPanelProps {
+  nodeId: string;
+  plan: FeaturePlanStep[] | undefined;
+}
+
+function formatHours(hours: number): string {
+  return `${hours}h`;
+}
+
+/** "Plan this feature": generates, tracks and pushes a feature's implementation plan */
+export function FeaturePlanPanel({ nodeId, plan }: FeaturePlanPanelProps) {
+  const updateNodeData = useCanvasStore((s) => s.updateNodeData);
+  const projectId = useCanvasStore((s) => s.projectId);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isPushing, setIsPushing] = useState(false);
+
+  const steps = Array.isArray(plan) ? plan : [];
+  const progress = getFeaturePlanProgress(steps);
+  const isPushed = steps.some((step) => step.taskId);
+
+  const handlePlan = async () => {
+    const { nodes, edges } = useCanvasStore.getState();
+    const context = buildFeaturePlanContext(nodeId, nodes, edges);
+    if (!context) {
+      showError('Give the feature a name before planning it.');
+      return;
+    }
+
+    setIsPlanning(true);
+    try {
+      const result = await planFeatureWithAI(context, projectId ?? undefined);
+      if (result.success && result.steps) {
+        updateNodeData(nodeId, applyFeaturePlan(result.steps));
+      } else {
+        showError(result.error || 'Failed to plan feature');
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to plan feature');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleToggle = async (step: FeaturePlanStep) => {
+    const done = !step.done;
+    updateNodeData(nodeId, {
+      implementationPlan: steps.map((s) => (s.id === step.id ? { ...s, done } : s)),
+    });
+    if (!step.taskId) return;
+    try {
+      await updateTaskStatus(step.taskId, done ? 'done' : 'todo');
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to update linked task');
+    }
+  };
+
+  const handlePush = async () => {
+    if (!projectId) return;
+    setIsPushing(true);
+    try {
+      const taskIds = await syncFeaturePlanTasks(projectId, nodeId, steps);
+      // Read the plan again: steps may have been checked off while the push ran
+      const current = useCanvasStore.getState().nodes.find((n) => n.id === nodeId);
+      const latest = current?.type === 'feature' ? current.data.implementationPlan ?? steps : steps;
+      updateNodeData(nodeId, {
+        implementationPlan: latest.map((s) => (taskIds[s.id] ? { ...s, taskId: taskIds[s.id] } : s)),
+      });
+      showSuccess(`Pushed ${Object.keys(taskIds).length} steps to tasks`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to push plan to tasks');
+    } finally {
+      setIsPushing(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-700/50 pt-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-sm font-medium text-emerald-400">
+          <ListChecks size={14} />
+          Implementation Plan
+        </span>
+        <button
+          className="px-3 py-1 text-xs font-medium text-emerald-400 hover:text-emerald-300 border border-emerald-500/30 rounded-md hover:border-emerald-400/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+          onClick={handlePlan}
+          disabled={isPlanning}
+        >
+          {isPlanning && <Loader2 size={12} className="animate-spin" />}
+          {isPlanning ? 'Planning...' : steps.length > 0 ? 'Regenerate' : 'Plan this feature'}
+        </button>
+      </div>
+
+      {steps.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Turns this feature, its connected screens and tech stack into ordered steps with files, tests and estimates.
+        </p>
+      ) : (
+        <>
+          <div className="mb-2 flex items-center justify-between text-xs text-slate-400">
+            <span>
+              {progress.done}/{progress.total} steps done
+            </span>
+            <span>
+              {formatHours(progress.remainingHours)} left of {formatHours(progress.totalHours)}
+            </span>
+          </div>
+          <div className="mb-3 h-1.5 overflow-hidden rounded-full bg-slate-700/50">
+            <div
+              className="h-full rounded-full bg-emerald-500 transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+
+          <ol className="space-y-2">
+            {steps.map((step, index) => (
+              <li key={step.id} className="rounded-lg border border-slate-700/50 bg-slate-900/40 p-2">
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5 accent-emerald-500"
+                    checked={step.done}
+                    onChange={() => handleToggle(step)}
+                  />
+                  <span className={`flex-1 text-sm ${step.done ? 'text-slate-500 line-through' : 'text-slate-200'}`}>
+                    {index + 1}. {step.title}
+                  </span>
+                  {step.estimatedHours > 0 && (
+                    <span className="text-xs text-slate-500">{formatHours(step.estimatedHours)}</span>
+                  )}
+                </label>
+                {step.details && <p className="mt-1 pl-6 text-xs text-slate-400">{step.details}</p>}
+                {step.files.length > 0 && (
+                  <ul className="mt-1 pl-6 text-xs font-mono text-sky-300/80">
+                    {step.files.map((file) => (
+                      <li key={file}>{file}</li>
+                    ))}
+                  </ul>
+                )}
+                {step.testCases.length > 0 && (
+                  <ul className="mt-1 pl-6 text-xs text-slate-400 list-disc list-inside">
+                    {step.testCases.map((testCase) => (
+                      <li key={testCase}>{testCase}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {projectId && (
+            <button
+              className="mt-3 w-full px-3 py-1.5 text-xs font-medium text-slate-300 border border-slate-600/50 rounded-md hover:border-slate-500 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handlePush}
+              disabled={isPushing}
+            >
+              {isPushing ? 'Pushing...' : isPushed ? 'Update linked tasks' : 'Push to tasks'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
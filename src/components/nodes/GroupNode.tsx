@@ -0,0 +1,112 @@
+'use client';
+
+import { memo } from 'react';
+import { NodeResizer, type NodeProps } from '@xyflow/react';
+import { useShallow } from 'zustand/react/shallow';
+import { ChevronRight, Trash2 } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { useSearchStore } from '@/store/searchStore';
+import { showUndo } from '@/store/toastStore';
+import { NODE_TYPE_CONFIGS, GROUP_MIN_SIZE } from '@/lib/constants';
+import { getGroupRollup } from '@/lib/groups/groups';
+import { StatusBadge } from './StatusBadge';
+import type { GroupNode as GroupNodeType } from '@/types/nodes';
+
+const config = NODE_TYPE_CONFIGS.group;
+
+/**
+ * Frame that visually contains other nodes. Children are positioned relative
+ * to the frame (React Flow `parentId`), so dragging the frame moves them too.
+ * The header shows a roll-up of the children's progress and feature status.
+ */
+function GroupNodeComponent({ id, data, selected }: NodeProps<GroupNodeType>) {
+  const updateNodeData = useCanvasStore((s) => s.updateNodeData);
+  const toggleGroupCollapsed = useCanvasStore((s) => s.toggleGroupCollapsed);
+  const deleteNode = useCanvasStore((s) => s.deleteNode);
+  const readOnly = useCanvasStore((s) => s.readOnly);
+  const rollup = useCanvasStore(useShallow((s) => getGroupRollup(s.nodes, id)));
+  const dimmed = useSearchStore((s) => s.matchIds !== null && !s.matchIds.has(id));
+  const Icon = config.icon;
+
+  return (
+    <div
+      className={`group relative h-full w-full rounded-2xl border-2 border-dashed transition-opacity ${
+        selected ? 'border-slate-400/70' : 'border-slate-600/60'
+      } ${data.collapsed ? 'bg-slate-800/90' : 'bg-slate-800/20'} ${dimmed ? 'opacity-30' : ''}`}
+    >
+      <NodeResizer
+        isVisible={selected && !readOnly && !data.collapsed}
+        minWidth={GROUP_MIN_SIZE.width}
+        minHeight={GROUP_MIN_SIZE.height}
+        lineClassName="!border-slate-400/60"
+        handleClassName="!h-2.5 !w-2.5 !rounded-sm !border-slate-300 !bg-slate-700"
+      />
+
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2.5">
+        <button
+          className="nodrag shrink-0 rounded p-0.5 text-slate-400 hover:bg-slate-700/60 hover:text-slate-100"
+          aria-label={data.collapsed ? 'Expand group' : 'Collapse group'}
+          aria-expanded={!data.collapsed}
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleGroupCollapsed(id);
+          }}
+        >
+          <ChevronRight
+            size={14}
+            className="transition-transform duration-200"
+            style={{ transform: data.collapsed ? 'rotate(0deg)' : 'rotate(90deg)' }}
+          />
+        </button>
+        <Icon size={16} className="shrink-0" style={{ color: config.color }} />
+        <input
+          className="nodrag min-w-0 flex-1 rounded bg-transparent px-1 text-sm font-semibold text-slate-100 placeholder-slate-500 focus:bg-slate-900/50 focus:outline-none disabled:cursor-default"
+          value={data.label}
+          placeholder="Group name"
+          aria-label="Group name"
+          disabled={readOnly}
+          onChange={(e) => updateNodeData(id, { label: e.target.value })}
+        />
+        {rollup.status && <StatusBadge status={rollup.status} />}
+        <div className="flex shrink-0 items-center gap-1.5 text-xs text-slate-400" title={`${rollup.percent}% done`}>
+          <div className="h-1.5 w-16 overflow-hidden rounded-full bg-slate-700">
+            <div className="h-full rounded-full bg-emerald-500 transition-all" style={{ width: `${rollup.percent}%` }} />
+          </div>
+          <span>
+            {rollup.completed}/{rollup.total} done
+          </span>
+        </div>
+        {!readOnly && (
+          <button
+            className="nodrag hidden shrink-0 rounded p-1.5 text-slate-500 hover:bg-slate-700/50 hover:text-red-400 group-hover:flex"
+            title="Delete group (keeps its nodes)"
+            onClick={(e) => {
+              e.stopPropagation();
+              deleteNode(id);
+              showUndo(`Deleted ${data.label || config.label}`, () => {
+                useCanvasStore.getState().undo();
+              });
+            }}
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {!data.collapsed && (
+        <textarea
+          className="nodrag nowheel mx-3 block w-[calc(100%-1.5rem)] resize-none bg-transparent text-xs text-slate-400 placeholder-slate-600 focus:outline-none"
+          rows={1}
+          value={data.description}
+          placeholder={readOnly ? '' : 'Describe this area…'}
+          aria-label="Group description"
+          disabled={readOnly}
+          onChange={(e) => updateNodeData(id, { description: e.target.value })}
+        />
+      )}
+    </div>
+  );
+}
+
+export default memo(GroupNodeComponent);
@@ -0,0 +1,40 @@
+'use client';
+
+import { useCanvasStore } from '@/store/canvasStore';
+import { useMilestoneStore } from '@/store/milestoneStore';
+import { getMilestoneLabel } from '@/lib/milestones/milestones';
+
+interface MilestoneSelectProps {
+  nodeId: string;
+  milestoneId: string | null | undefined;
+  className: string;
+}
+
+/** Milestone picker for feature and screen fields. Hidden until the project has milestones. */
+export function MilestoneSelect({ nodeId, milestoneId, className }: MilestoneSelectProps) {
+  const milestones = useMilestoneStore((s) => s.milestones);
+  const assignMilestone = useCanvasStore((s) => s.assignMilestone);
+
+  if (milestones.length === 0) return null;
+
+  // Ids of deleted milestones read as unscheduled
+  const value = milestones.some((m) => m.id === milestoneId) ? (milestoneId as string) : '';
+
+  return (
+    <div>
+      <label className="block text-xs text-slate-400 uppercase tracking-wide mb-1">Milestone</label>
+      <select
+        className={className}
+        value={value}
+        onChange={(e) => assignMilestone([nodeId], e.target.value || null)}
+      >
+        <option value="">Unscheduled</option>
+        {milestones.map((milestone) => (
+          <option key={milestone.id} value={milestone.id}>
+            {getMilestoneLabel(milestone)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
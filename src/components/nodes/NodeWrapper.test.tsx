@@ -2,12 +2,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { NodeWrapper } from './NodeWrapper'
+import { useSearchStore } from '@/store/searchStore'
 
 // Mock the store
 const mockToggleNodeExpanded = vi.fn()
 const mockDeleteNode = vi.fn()
 const mockToggleNodeCompleted = vi.fn()
 const mockSetNodeHeight = vi.fn()
+let mockReadOnly = false
 
 vi.mock('@/store/canvasStore', () => ({
   useCanvasStore: (selector: (s: Record<string, unknown>) => unknown) =>
@@ -16,6 +18,7 @@ vi.mock('@/store/canvasStore', () => ({
       deleteNode: mockDeleteNode,
       toggleNodeCompleted: mockToggleNodeCompleted,
       setNodeHeight: mockSetNodeHeight,
+      readOnly: mockReadOnly,
     }),
 }))
 
@@ -33,6 +36,8 @@ vi.mock('@xyflow/react', async (importOriginal) => {
 describe('NodeWrapper', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockReadOnly = false
+    useSearchStore.setState({ matchIds: null })
   })
 
   it('renders with config label when no headerLabel provided', () => {
@@ -127,4 +132,41 @@ describe('NodeWrapper', () => {
 
     expect(mockDeleteNode).toHaveBeenCalledWith('test-1')
   })
+
+  it('locks editing controls when the canvas is read-only', async () => {
+    mockReadOnly = true
+    const user = userEvent.setup()
+
+    render(
+      <NodeWrapper id="test-1" type="idea" expanded={true} completed={false}>
+        <input aria-label="Field" />
+      </NodeWrapper>
+    )
+
+    expect(screen.getByLabelText('Field')).toBeDisabled()
+    expect(screen.getByRole('button', { name: 'Mark as done' })).toBeDisabled()
+    expect(screen.queryByTitle('Open in sidebar')).not.toBeInTheDocument()
+
+    await user.click(screen.getByText('Idea'))
+    expect(mockToggleNodeExpanded).toHaveBeenCalledWith('test-1')
+    expect(mockToggleNodeCompleted).not.toHaveBeenCalled()
+  })
+
+  it('dims the node when an active search filter excludes it', () => {
+    useSearchStore.setState({ matchIds: new Set(['other']) })
+    const { container, rerender } = render(
+      <NodeWrapper id="test-1" type="idea" expanded={false} completed={false}>
+        <div>content</div>
+      </NodeWrapper>
+    )
+    expect(container.firstChild).toHaveClass('opacity-30')
+
+    useSearchStore.setState({ matchIds: new Set(['test-1']) })
+    rerender(
+      <NodeWrapper id="test-1" type="idea" expanded={false} completed={false}>
+        <div>content</div>
+      </NodeWrapper>
+    )
+    expect(container.firstChild).not.toHaveClass('opacity-30')
+  })
 })
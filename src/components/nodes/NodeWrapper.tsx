@@ -6,12 +6,15 @@ import { ChevronRight, Trash2, Check, PanelLeftOpen } from 'lucide-react';
 import { useCanvasStore } from '@/store/canvasStore';
 import { NODE_TYPE_CONFIGS } from '@/lib/constants';
 import { TaskSubnodes } from '@/components/canvas/TaskSubnodes';
+import { NodeViewers } from '@/components/canvas/PresenceAvatars';
 import { showUndo } from '@/store/toastStore';
+import { useSearchStore } from '@/store/searchStore';
 import type { SpexlyNodeType } from '@/types/nodes';
 
 interface NodeWrapperProps {
   id: string;
-  type: SpexlyNodeType;
+  /** Groups render their own frame instead of the card wrapper */
+  type: Exclude<SpexlyNodeType, 'group'>;
   expanded: boolean;
   completed: boolean;
   headerLabel?: string;
@@ -35,6 +38,8 @@ function NodeWrapperInner({
   const deleteNode = useCanvasStore((s) => s.deleteNode);
   const setNodeHeight = useCanvasStore((s) => s.setNodeHeight);
   const setSidebarNodeId = useCanvasStore((s) => s.setSidebarNodeId);
+  const readOnly = useCanvasStore((s) => s.readOnly);
+  const dimmed = useSearchStore((s) => s.matchIds !== null && !s.matchIds.has(id));
   const config = NODE_TYPE_CONFIGS[type];
   const Icon = config.icon;
   const wrapperRef = useRef<HTMLDivElement | null>(null);
@@ -59,7 +64,7 @@ function NodeWrapperInner({
         completed
           ? 'border-emerald-500/30 bg-gradient-to-br from-emerald-500/10 via-slate-800/90 to-emerald-500/5 shadow-emerald-900/10'
           : 'border-slate-700/50 bg-slate-800/90 shadow-black/20 hover:border-slate-600/80 hover:shadow-black/30'
-      } ${expanded ? 'ring-2 ring-sky-400/50 node-glow' : ''}`}
+      } ${expanded ? 'ring-2 ring-sky-400/50 node-glow' : ''} ${dimmed ? 'opacity-30' : ''}`}
       style={{
         borderLeftWidth: '3px',
         borderLeftColor: completed ? '#34D399' : config.color,
@@ -75,7 +80,9 @@ function NodeWrapperInner({
       >
         {/* Completion checkbox — outer button provides a larger hit area */}
         <button
-          className="shrink-0 flex items-center justify-center p-1 -m-1"
+          className="shrink-0 flex items-center justify-center p-1 -m-1 disabled:cursor-default"
+          disabled={readOnly}
+          aria-label={completed ? 'Mark as not done' : 'Mark as done'}
           onClick={(e) => {
             e.stopPropagation();
             toggleNodeCompleted(id);
@@ -112,6 +119,7 @@ function NodeWrapperInner({
             <span className="block text-xs text-slate-400 truncate">{subtitle}</span>
           )}
         </div>
+        <NodeViewers nodeId={id} />
         <ChevronRight
           size={14}
           className="shrink-0 text-slate-500 transition-transform duration-200"
@@ -119,7 +127,7 @@ function NodeWrapperInner({
         />
       </div>
 
-      {!expanded && (
+      {!expanded && !readOnly && (
         <div className="px-3 pb-3 pt-0">
           <TaskSubnodes
             nodeId={id}
@@ -139,42 +147,49 @@ function NodeWrapperInner({
           opacity: expanded ? 1 : 0,
         }}
       >
-        <div className="px-4 pb-1 pt-1">
-          <TaskSubnodes nodeId={id} nodeType={type} enabled={expanded} variant="full" />
-        </div>
+        {!readOnly && (
+          <div className="px-4 pb-1 pt-1">
+            <TaskSubnodes nodeId={id} nodeType={type} enabled={expanded} variant="full" />
+          </div>
+        )}
         <div
-          className={`nowheel space-y-3 px-4 pb-4 pt-1 transition-opacity duration-200 ${completed ? 'opacity-50' : ''} overflow-y-auto custom-scrollbar`}
+          className={`nowheel px-4 pb-4 pt-1 transition-opacity duration-200 ${completed ? 'opacity-50' : ''} overflow-y-auto custom-scrollbar`}
           style={{ maxHeight: '500px' }}
         >
-          {children}
+          {/* A disabled fieldset locks every input and button in the node body */}
+          <fieldset disabled={readOnly} className="min-w-0 space-y-3">
+            {children}
+          </fieldset>
         </div>
       </div>
 
       {/* Action buttons — inside card, top-right of header */}
-      <div className="absolute right-7 top-1 hidden group-hover:flex items-center gap-0.5">
-        <button
-          className="flex items-center justify-center p-2 rounded text-slate-500 hover:text-sky-400 hover:bg-slate-700/50 transition-colors"
-          title="Open in sidebar"
-          onClick={(e) => {
-            e.stopPropagation();
-            setSidebarNodeId(id);
-          }}
-        >
-          <PanelLeftOpen size={16} />
-        </button>
-        <button
-          className="flex items-center justify-center p-2 rounded text-slate-500 hover:text-red-400 hover:bg-slate-700/50 transition-colors"
-          onClick={(e) => {
-            e.stopPropagation();
-            deleteNode(id);
-            showUndo(`Deleted ${headerLabel || config.label}`, () => {
-              useCanvasStore.getState().undo();
-            });
-          }}
-        >
-          <Trash2 size={16} />
-        </button>
-      </div>
+      {!readOnly && (
+        <div className="absolute right-7 top-1 hidden group-hover:flex items-center gap-0.5">
+          <button
+            className="flex items-center justify-center p-2 rounded text-slate-500 hover:text-sky-400 hover:bg-slate-700/50 transition-colors"
+            title="Open in sidebar"
+            onClick={(e) => {
+              e.stopPropagation();
+              setSidebarNodeId(id);
+            }}
+          >
+            <PanelLeftOpen size={16} />
+          </button>
+          <button
+            className="flex items-center justify-center p-2 rounded text-slate-500 hover:text-red-400 hover:bg-slate-700/50 transition-colors"
+            onClick={(e) => {
+              e.stopPropagation();
+              deleteNode(id);
+              showUndo(`Deleted ${headerLabel || config.label}`, () => {
+                useCanvasStore.getState().undo();
+              });
+            }}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      )}
 
       <Handle type="source" position={Position.Right} />
     </div>
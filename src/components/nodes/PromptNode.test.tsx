@@ -100,6 +100,18 @@ describe('PromptNode', () => {
     expect(mockUpdateNodeData).toHaveBeenCalledWith('prompt-1', { targetTool: 'Cursor' })
   })
 
+  it('logs a run that snapshots the prompt as version 1', async () => {
+    const user = userEvent.setup()
+    render(<PromptNode {...makeProps()} />)
+
+    await user.click(screen.getByRole('button', { name: /Log run/ }))
+    const [nodeId, update] = mockUpdateNodeData.mock.calls[0]
+    expect(nodeId).toBe('prompt-1')
+    expect(update.runs).toEqual([
+      expect.objectContaining({ version: 1, promptText: 'Build an auth system', targetTool: 'Claude', outcome: null }),
+    ])
+  })
+
   it('shows header with target tool label', () => {
     render(<PromptNode {...makeProps()} />)
     expect(screen.getByText(/Prompt → Claude/)).toBeInTheDocument()
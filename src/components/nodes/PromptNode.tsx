@@ -3,10 +3,13 @@
 import { memo, useState } from 'react';
 import { type NodeProps } from '@xyflow/react';
 import { NodeWrapper } from './NodeWrapper';
+import { PromptRunHistory } from './PromptRunHistory';
 import { useCanvasStore } from '@/store/canvasStore';
 import { breakdownPrompt } from '@/app/actions/breakdownPrompt';
 import { syncPromptBreakdownTasks } from '@/app/actions/tasks';
-import { showError } from '@/store/toastStore';
+import { showError, showToast } from '@/store/toastStore';
+import { reviewChangeset } from '@/store/changesetStore';
+import { createChangeset, proposeNodeChange } from '@/lib/ai/changeset';
 import type { PromptNode as PromptNodeType, TargetTool } from '@/types/nodes';
 
 const inputClass =
@@ -23,12 +26,23 @@ function PromptNodeComponent({ id, data }: NodeProps<PromptNodeType>) {
     if (!data.promptText.trim()) return;
     setIsBreakingDown(true);
     try {
-      const result = await breakdownPrompt(data.promptText);
-      if (result.success && result.breakdown) {
-        updateNodeData(id, { breakdown: result.breakdown });
-        if (projectId) {
-          await syncPromptBreakdownTasks(projectId, id, 'prompt', result.breakdown, data.targetTool);
+      const result = await breakdownPrompt(data.promptText, projectId ?? undefined);
+      const node = useCanvasStore.getState().nodes.find((n) => n.id === id);
+      if (result.success && result.breakdown && node) {
+        // A new breakdown replaces the old one, so it starts out accepted
+        const change = proposeNodeChange(node, { breakdown: result.breakdown }, () => true);
+        if (!change) {
+          showToast('info', 'The breakdown is unchanged');
+          return;
         }
+        reviewChangeset(createChangeset('breakdown', 'Break down prompt', { nodeChanges: [change] }), {
+          onApply: ({ updates }) => {
+            const breakdown = updates[0]?.fieldsToFill.breakdown;
+            if (projectId && Array.isArray(breakdown)) {
+              void syncPromptBreakdownTasks(projectId, id, 'prompt', breakdown, data.targetTool);
+            }
+          },
+        });
       } else {
         showError(result.error || 'Failed to break down prompt');
       }
@@ -133,6 +147,8 @@ function PromptNodeComponent({ id, data }: NodeProps<PromptNodeType>) {
           onChange={(e) => updateNodeData(id, { resultNotes: e.target.value })}
         />
       </div>
+
+      <PromptRunHistory nodeId={id} data={data} />
     </NodeWrapper>
   );
 }
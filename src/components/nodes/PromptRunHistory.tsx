@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, History, Play } from 'lucide-react';
+import { useCanvasStore } from '@/store/canvasStore';
+import {
+  createPromptRun,
+  getPromptRuns,
+  hasUnrunChanges,
+  PROMPT_RUN_OUTCOME_LABELS,
+  updatePromptRun,
+} from '@/lib/prompts/promptRuns';
+import type { PromptNodeData, PromptRun, PromptRunOutcome } from '@/types/nodes';
+
+interface PromptRunHistoryProps {
+  nodeId: string;
+  data: PromptNodeData;
+}
+
+const textareaClass =
+  'nodrag w-full resize-y rounded-md border border-slate-600/50 bg-slate-900/50 px-2 py-1.5 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:border-pink-400 transition-colors';
+
+const OUTCOME_STYLES: Record<PromptRunOutcome, { dot: string; active: string }> = {
+  worked: { dot: 'bg-emerald-400', active: 'border-emerald-400/60 bg-emerald-400/15 text-emerald-200' },
+  partial: { dot: 'bg-amber-400', active: 'border-amber-400/60 bg-amber-400/15 text-amber-200' },
+  failed: { dot: 'bg-red-400', active: 'border-red-400/60 bg-red-400/15 text-red-200' },
+};
+
+const OUTCOMES = Object.keys(PROMPT_RUN_OUTCOME_LABELS) as PromptRunOutcome[];
+
+function formatRunDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/** Versioned run timeline for a prompt node: log a run, rate it, paste the output and the follow-up */
+export function PromptRunHistory({ nodeId, data }: PromptRunHistoryProps) {
+  const updateNodeData = useCanvasStore((s) => s.updateNodeData);
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+
+  const runs = getPromptRuns(data);
+  const latest = runs[runs.length - 1];
+  const editedSinceRun = latest !== undefined && hasUnrunChanges(data);
+
+  const handleLogRun = () => {
+    const run = createPromptRun(data, crypto.randomUUID());
+    updateNodeData(nodeId, { runs: [...runs, run] });
+    setOpenRunId(run.id);
+  };
+
+  const patchRun = (run: PromptRun, patch: Partial<Pick<PromptRun, 'outcome' | 'output' | 'refinement'>>) => {
+    updateNodeData(nodeId, { runs: updatePromptRun(runs, run.id, patch) });
+  };
+
+  return (
+    <div className="border-t border-slate-700/50 pt-3 mt-2">
+      <div className="flex items-center justify-between mb-2">
+        <label className="flex items-center gap-1.5 text-xs text-slate-400 uppercase tracking-wide">
+          <History size={12} />
+          Run History
+        </label>
+        <button
+          className="nodrag px-3 py-1 text-xs font-medium text-pink-400 hover:text-pink-300 border border-pink-500/30 rounded-md hover:border-pink-400/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+          onClick={handleLogRun}
+          disabled={!data.promptText.trim()}
+        >
+          <Play size={10} />
+          Log run
+        </button>
+      </div>
+
+      {editedSinceRun && (
+        <p className="mb-2 text-[11px] text-amber-300/80">Prompt edited since v{latest.version}; log a run to track it.</p>
+      )}
+
+      {runs.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">
+          Log a run each time you send this prompt, then rate what came back.
+        </p>
+      ) : (
+        <ol className="space-y-1.5 border-l border-slate-700/60 pl-3">
+          {[...runs].reverse().map((run) => {
+            const isOpen = openRunId === run.id;
+            return (
+              <li key={run.id} className="relative">
+                <span
+                  className={`absolute -left-[17px] top-1.5 h-2 w-2 rounded-full ${
+                    run.outcome ? OUTCOME_STYLES[run.outcome].dot : 'bg-slate-500'
+                  }`}
+                />
+                <div className="flex items-center gap-2">
+                  <button
+                    className="nodrag flex flex-1 items-center gap-1 text-left text-xs text-slate-300 hover:text-slate-100"
+                    onClick={() => setOpenRunId(isOpen ? null : run.id)}
+                    aria-expanded={isOpen}
+                  >
+                    {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                    <span className="font-medium">v{run.version}</span>
+                    <span className="text-slate-500">
+                      {run.targetTool} · {formatRunDate(run.ranAt)}
+                    </span>
+                  </button>
+                  <div className="flex gap-1">
+                    {OUTCOMES.map((outcome) => (
+                      <button
+                        key={outcome}
+                        className={`nodrag rounded border px-1.5 py-0.5 text-[10px] transition-colors ${
+                          run.outcome === outcome
+                            ? OUTCOME_STYLES[outcome].active
+                            : 'border-slate-700 text-slate-500 hover:text-slate-300'
+                        }`}
+                        onClick={() => patchRun(run, { outcome: run.outcome === outcome ? null : outcome })}
+                        aria-pressed={run.outcome === outcome}
+                      >
+                        {PROMPT_RUN_OUTCOME_LABELS[outcome]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {isOpen && (
+                  <div className="mt-1.5 space-y-1.5">
+                    {run.promptText !== data.promptText && (
+                      <div className="max-h-24 overflow-y-auto whitespace-pre-wrap rounded bg-slate-900/60 px-2 py-1 text-[11px] text-slate-400">
+                        {run.promptText}
+                      </div>
+                    )}
+                    <textarea
+                      className={textareaClass}
+                      placeholder="Paste what the tool produced"
+                      rows={2}
+                      value={run.output}
+                      onChange={(e) => patchRun(run, { output: e.target.value })}
+                    />
+                    <textarea
+                      className={textareaClass}
+                      placeholder="Follow-up refinement you sent"
+                      rows={2}
+                      value={run.refinement}
+                      onChange={(e) => patchRun(run, { refinement: e.target.value })}
+                    />
+                    {run.refinement.trim() && (
+                      <button
+                        className="nodrag text-[11px] text-pink-400 hover:text-pink-300"
+                        onClick={() => updateNodeData(nodeId, { promptText: run.refinement })}
+                      >
+                        Use refinement as the prompt
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
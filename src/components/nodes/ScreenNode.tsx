@@ -4,9 +4,9 @@ import { memo, useState } from 'react';
 import { type NodeProps } from '@xyflow/react';
 import { NodeWrapper } from './NodeWrapper';
 import { AIContextIndicator } from './AIContextIndicator';
+import { MilestoneSelect } from './MilestoneSelect';
 import { useCanvasStore } from '@/store/canvasStore';
-import { enhanceScreenWithAI } from '@/app/actions/enhanceNodeWithAI';
-import { showError } from '@/store/toastStore';
+import { useNodeEnhancement } from '@/hooks/useNodeEnhancement';
 import type { ScreenNode as ScreenNodeType } from '@/types/nodes';
 
 const inputClass =
@@ -15,7 +15,7 @@ const inputClass =
 function ScreenNodeComponent({ id, data }: NodeProps<ScreenNodeType>) {
   const updateNodeData = useCanvasStore((s) => s.updateNodeData);
   const [showAiContext, setShowAiContext] = useState(false);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const { isGenerating, enhance } = useNodeEnhancement(id);
 
   // Handle migration from old format to new format
   const keyElements = Array.isArray(data.keyElements) ? data.keyElements : [];
@@ -40,50 +40,17 @@ function ScreenNodeComponent({ id, data }: NodeProps<ScreenNodeType>) {
     .filter(Boolean)
     .join(' · ') || 'Page';
 
-  const handleGenerateAIContext = async () => {
-    setIsGenerating(true);
-    try {
-      const result = await enhanceScreenWithAI({
+  const handleGenerateAIContext = () =>
+    enhance({
+      kind: 'screen',
+      input: {
         screenName: data.screenName,
         purpose: purpose,
         keyElements: keyElements,
         userActions: userActions,
         states: states,
-      });
-
-      if (result.success && result.data) {
-        const updates: Record<string, unknown> = {};
-        // Fill main fields only if currently empty
-        if (!data.purpose?.trim() && result.data.purpose) updates.purpose = result.data.purpose;
-        if (!data.navigation?.trim() && result.data.navigation) updates.navigation = result.data.navigation;
-        if (keyElements.length === 0 && result.data.keyElements.length > 0) {
-          updates.keyElements = result.data.keyElements;
-        }
-        if (userActions.length === 0 && result.data.userActions.length > 0) {
-          updates.userActions = result.data.userActions;
-        }
-        if (states.length === 0 && result.data.states.length > 0) {
-          updates.states = result.data.states;
-        }
-        if (dataSources.length === 0 && result.data.dataSources.length > 0) {
-          updates.dataSources = result.data.dataSources;
-        }
-        // Always update AI-specific fields
-        updates.aiContext = result.data.aiContext;
-        updates.componentHierarchy = result.data.componentHierarchy;
-        updates.codeReferences = result.data.codeReferences;
-        updates.testingRequirements = result.data.testingRequirements;
-        updateNodeData(id, updates);
-        setShowAiContext(true); // Expand to show generated content
-      } else {
-        showError(result.error || 'Failed to generate AI context');
-      }
-    } catch (error) {
-      showError(error instanceof Error ? error.message : 'Failed to generate AI context');
-    } finally {
-      setIsGenerating(false);
-    }
-  };
+      },
+    });
 
   return (
     <NodeWrapper
@@ -180,6 +147,7 @@ function ScreenNodeComponent({ id, data }: NodeProps<ScreenNodeType>) {
           }
         />
       </div>
+      <MilestoneSelect nodeId={id} milestoneId={data.milestoneId} className={inputClass} />
       <div>
         <label className="block text-xs text-slate-400 uppercase tracking-wide mb-1">Wireframe URL</label>
         <input
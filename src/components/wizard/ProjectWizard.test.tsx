@@ -1,14 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, userEvent } from '@/__tests__/utils/test-utils';
 import { ProjectWizard } from './ProjectWizard';
+import { useChangesetStore } from '@/store/changesetStore';
+import type { SpexlyNode } from '@/types/nodes';
 
 const mockSetNodesAndEdges = vi.fn();
+const mockSmartImport = vi.fn();
+let mockNodes: SpexlyNode[] = [];
 
 vi.mock('@/store/canvasStore', () => ({
   useCanvasStore: (selector: (s: Record<string, unknown>) => unknown) =>
     selector({
-      nodes: [],
+      nodes: mockNodes,
       setNodesAndEdges: mockSetNodesAndEdges,
+      smartImport: mockSmartImport,
       toggleNodeExpanded: vi.fn(),
       deleteNode: vi.fn(),
     }),
@@ -27,6 +32,8 @@ vi.mock('@xyflow/react', async (importOriginal) => {
 describe('ProjectWizard', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockNodes = [];
+    useChangesetStore.setState({ queue: [] });
   });
 
   it('renders first question when open', () => {
@@ -90,6 +97,31 @@ describe('ProjectWizard', () => {
     expect(mockSetNodesAndEdges).toHaveBeenCalled();
   });
 
+  it('sends the generated project to review when the canvas has nodes', async () => {
+    mockNodes = [
+      {
+        id: 'idea-1',
+        type: 'idea',
+        position: { x: 0, y: 0 },
+        data: { appName: 'Existing', description: 'Keep me', targetUser: '', coreProblem: '' },
+      } as unknown as SpexlyNode,
+    ];
+    const user = userEvent.setup();
+    render(<ProjectWizard isOpen={true} onClose={vi.fn()} />);
+
+    for (let i = 0; i < 8; i++) {
+      await user.click(screen.getByText(i < 7 ? 'Next' : 'Generate'));
+    }
+    await user.click(screen.getByText('Review changes'));
+
+    const queue = useChangesetStore.getState().queue;
+    expect(queue).toHaveLength(1);
+    expect(queue[0].changeset.source).toBe('wizard');
+    expect(queue[0].changeset.newNodes.length).toBeGreaterThan(0);
+    expect(mockSmartImport).not.toHaveBeenCalled();
+    expect(mockSetNodesAndEdges).not.toHaveBeenCalled();
+  });
+
   it('shows step indicator with correct number of dots', () => {
     render(<ProjectWizard isOpen={true} onClose={vi.fn()} />);
     expect(screen.getByText('Answer each step below. Current step: 1 of 8')).toBeInTheDocument();
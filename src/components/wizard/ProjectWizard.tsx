@@ -11,7 +11,10 @@ import { StepIndicator } from './StepIndicator';
 import { WizardStep } from './WizardStep';
 import type { TargetTool, SpexlyEdge, SpexlyNode } from '@/types/nodes';
 import { formatErrorForClient } from '@/lib/errors';
-import { getPopulatedFields, buildFieldUpdate } from '@/lib/import/mergeStrategy';
+import { getPopulatedFields, buildFieldSuggestion, buildFieldUpdate } from '@/lib/import/mergeStrategy';
+import { countChangesetItems, createChangeset, proposeImportChanges } from '@/lib/ai/changeset';
+import { reviewChangeset } from '@/store/changesetStore';
+import { NODE_TYPE_CONFIGS } from '@/lib/constants';
 import { matchExtractedToExisting } from '@/lib/import/fuzzyMatcher';
 import { normalizeFeatureList, normalizeScreenList } from '@/lib/input/normalizeItemList';
 import type { ExistingNodeSummary, NodeFieldUpdate, SpexlyNodeType } from '@/types/nodes';
@@ -70,7 +73,6 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
 
   const nodes = useCanvasStore((s) => s.nodes);
   const setNodesAndEdges = useCanvasStore((s) => s.setNodesAndEdges);
-  const smartImport = useCanvasStore((s) => s.smartImport);
 
   const isLastStep = step === TOTAL_STEPS - 1;
 
@@ -136,7 +138,7 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
       return;
     }
 
-    // If there are existing nodes, use smart import to fill them instead of replacing
+    // If there are existing nodes, fill them instead of replacing, after review
     if (nodes.length > 0) {
       // Build existing node summaries for matching
       const existingNodeSummaries: ExistingNodeSummary[] = nodes
@@ -159,8 +161,10 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
       // Match wizard-generated items with existing nodes
       const { matches, unmatched } = matchExtractedToExisting(extractedItems, existingNodeSummaries);
 
-      // Build field updates for matched nodes
+      // Fills for empty fields are preselected in review; rewrites of filled fields are offered unselected
       const updates: NodeFieldUpdate[] = [];
+      const suggestions: NodeFieldUpdate[] = [];
+      const matchedIds = new Map<string, string>();
       for (const match of matches) {
         const existingNode = existingNodeSummaries.find((n) => n.id === match.existingNodeId);
         if (!existingNode) continue;
@@ -169,6 +173,7 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
           (n) => n.type === existingNode.type && getNodePrimaryName(n) === match.extractedName
         );
         if (!newNode) continue;
+        matchedIds.set(newNode.id, existingNode.id);
 
         const update = buildFieldUpdate(
           existingNode.id,
@@ -176,10 +181,19 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
           existingNode.populatedFields,
           newNode.data as Record<string, unknown>
         );
-
         if (update) {
           updates.push(update);
         }
+
+        const suggestion = buildFieldSuggestion(
+          existingNode.id,
+          existingNode.type,
+          existingNode.populatedFields,
+          withoutDefaults(newNode)
+        );
+        if (suggestion) {
+          suggestions.push(suggestion);
+        }
       }
 
       // Filter new nodes to only include unmatched items
@@ -193,8 +207,24 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
         );
       });
 
-      // Use smart import to update existing nodes and add only unmatched new ones
-      smartImport(updates, unmatchedNewNodes, newEdges);
+      // Point edges at the existing nodes that were matched, keeping only those that reach a new node
+      const addedIds = new Set(unmatchedNewNodes.map((node) => node.id));
+      const unmatchedNewEdges = newEdges
+        .map((edge) => ({
+          ...edge,
+          source: matchedIds.get(edge.source) ?? edge.source,
+          target: matchedIds.get(edge.target) ?? edge.target,
+        }))
+        .filter((edge) => addedIds.has(edge.source) || addedIds.has(edge.target));
+
+      const changeset = createChangeset('wizard', 'Apply wizard answers', {
+        nodeChanges: proposeImportChanges(updates, suggestions, nodes),
+        newNodes: unmatchedNewNodes,
+        newEdges: unmatchedNewEdges,
+      });
+      if (countChangesetItems(changeset) > 0) {
+        reviewChangeset(changeset);
+      }
     } else {
       // No existing nodes, just set everything
       setNodesAndEdges(newNodes, newEdges);
@@ -203,6 +233,16 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
     handleClose();
   }
 
+  // Generated values left at the node type's defaults aren't worth offering over what the user wrote
+  function withoutDefaults(node: SpexlyNode): Record<string, unknown> {
+    const defaults = NODE_TYPE_CONFIGS[node.type].defaultData as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(node.data as Record<string, unknown>).filter(
+        ([field, value]) => JSON.stringify(value) !== JSON.stringify(defaults[field])
+      )
+    );
+  }
+
   // Helper function to get primary name from a node
   function getNodePrimaryName(node: SpexlyNode): string {
     const data = node.data as Record<string, unknown>;
@@ -290,11 +330,11 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
 
           {/* Title */}
           <Dialog.Title className="mb-1 text-lg font-semibold text-slate-100">
-            {showConfirm ? 'Replace existing canvas?' : 'New Project'}
+            {showConfirm ? 'Merge into existing canvas?' : 'New Project'}
           </Dialog.Title>
           <Dialog.Description className="mb-5 text-sm text-slate-400">
             {showConfirm
-              ? 'Your canvas has existing nodes. Generating a new project will replace them. You can undo this action.'
+              ? 'Your canvas has existing nodes. Matching nodes are filled in and new ones added, after you review each change.'
               : `Answer each step below. Current step: ${step + 1} of ${TOTAL_STEPS}`}
           </Dialog.Description>
 
@@ -311,7 +351,7 @@ export function ProjectWizard({ isOpen, onClose, onComplete }: ProjectWizardProp
                 onClick={handleGenerate}
                 className="rounded-lg bg-violet-500 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-violet-400"
               >
-                Replace & Generate
+                Review changes
               </button>
             </div>
           ) : (
@@ -6,12 +6,17 @@ import { updateCanvasData } from '@/app/actions/projects';
 
 const DEBOUNCE_MS = 2000;
 
-export function useAutoSave() {
+/**
+ * Debounced canvas persistence. Pass enabled=false for read-only canvases.
+ */
+export function useAutoSave(enabled: boolean = true) {
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastSnapshotRef = useRef<string>('');
   const pendingSaveRef = useRef<boolean>(false);
 
   useEffect(() => {
+    if (!enabled) return;
+
     const unsubscribe = useCanvasStore.subscribe((state) => {
       const { projectId, nodes, edges } = state;
       if (!projectId) return;
@@ -45,7 +50,7 @@ export function useAutoSave() {
       unsubscribe();
       if (timeoutRef.current) clearTimeout(timeoutRef.current);
     };
-  }, []);
+  }, [enabled]);
 
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
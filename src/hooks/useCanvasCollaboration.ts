@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+import { createCanvasChannel } from '@/lib/supabase/realtime-helpers';
+import { useCanvasStore } from '@/store/canvasStore';
+import { useCollaborationStore } from '@/store/collaborationStore';
+import {
+  coalesceChanges,
+  diffCanvasChanges,
+  mergeRemoteNodeData,
+  peerColor,
+} from '@/lib/collaboration/canvasSync';
+import type {
+  CanvasChange,
+  CanvasChangeBatch,
+  CursorPosition,
+  FieldEdit,
+  PeerPresence,
+} from '@/types/collaboration';
+
+const FLUSH_INTERVAL_MS = 50;
+const CURSOR_THROTTLE_MS = 50;
+
+function getActiveNodeId(): string | null {
+  const { sidebarNodeId, nodes } = useCanvasStore.getState();
+  if (sidebarNodeId) return sidebarNodeId;
+  const selected = nodes.filter((n) => n.selected);
+  return selected.length === 1 ? selected[0].id : null;
+}
+
+/**
+ * Joins the realtime channel for a project canvas:
+ * - broadcasts local node/edge changes (diffed from canvasStore) to collaborators
+ * - merges collaborators' changes back into canvasStore (field conflicts go to collaborationStore)
+ * - tracks presence (who is here, which node they are on) and live cursors
+ *
+ * Returns `updateCursor` to report the local cursor in flow coordinates.
+ */
+export function useCanvasCollaboration(projectId: string | null) {
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const clientIdRef = useRef<string | null>(null);
+  const lastCursorSentRef = useRef(0);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const clientId = crypto.randomUUID();
+    clientIdRef.current = clientId;
+    const channel = createCanvasChannel(projectId, clientId);
+    channelRef.current = channel;
+
+    const collab = useCollaborationStore.getState();
+    let pending: CanvasChange[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let subscribed = false;
+    let presence: PeerPresence | null = null;
+    /** Last time this client broadcast an edit to a node field, keyed `${nodeId}:${field}` */
+    const localEditedAt = new Map<string, number>();
+
+    const flush = () => {
+      flushTimer = null;
+      if (!subscribed || pending.length === 0) return;
+      const batch: CanvasChangeBatch = {
+        clientId,
+        timestamp: Date.now(),
+        changes: coalesceChanges(pending),
+      };
+      pending = [];
+      for (const change of batch.changes) {
+        if (change.kind !== 'node-data') continue;
+        for (const field of Object.keys(change.fields)) {
+          localEditedAt.set(`${change.nodeId}:${field}`, batch.timestamp);
+        }
+      }
+      void channel.send({ type: 'broadcast', event: 'canvas-changes', payload: batch });
+    };
+
+    const enqueue = (changes: CanvasChange[]) => {
+      pending.push(...changes);
+      if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+    };
+
+    const broadcastFields = (nodeId: string, fields: Record<string, FieldEdit>) => {
+      enqueue([{ kind: 'node-data', nodeId, fields }]);
+    };
+    collab.setSession(clientId, broadcastFields);
+
+    const trackPresence = () => {
+      if (!subscribed || !presence) return;
+      presence = { ...presence, activeNodeId: getActiveNodeId() };
+      void channel.track(presence);
+    };
+
+    const handleRemoteBatch = (batch: CanvasChangeBatch) => {
+      if (!batch || batch.clientId === clientId || !Array.isArray(batch.changes)) return;
+
+      const canvas = useCanvasStore.getState();
+      const remoteName = useCollaborationStore.getState().peers[batch.clientId]?.name ?? 'A collaborator';
+
+      useCollaborationStore.getState().setApplyingRemote(true);
+      try {
+        const structural = batch.changes.filter((c) => c.kind !== 'node-data');
+        if (structural.length > 0) {
+          canvas.applyRemoteChanges(structural);
+        }
+
+        for (const change of batch.changes) {
+          if (change.kind !== 'node-data') continue;
+          const node = useCanvasStore.getState().nodes.find((n) => n.id === change.nodeId);
+          if (!node) continue;
+
+          const { updates, conflicts } = mergeRemoteNodeData(node, change.fields, {
+            remoteClientId: batch.clientId,
+            remoteTimestamp: batch.timestamp,
+            localClientId: clientId,
+            localEditedAt: (field) => localEditedAt.get(`${change.nodeId}:${field}`),
+          });
+
+          if (Object.keys(updates).length > 0) {
+            canvas.updateNodeData(change.nodeId, updates);
+          }
+          for (const conflict of conflicts) {
+            useCollaborationStore.getState().addConflict({
+              nodeId: change.nodeId,
+              field: conflict.field,
+              localValue: conflict.localValue,
+              remoteValue: conflict.remoteValue,
+              remoteName,
+            });
+          }
+        }
+      } finally {
+        useCollaborationStore.getState().setApplyingRemote(false);
+      }
+    };
+
+    channel
+      .on('broadcast', { event: 'canvas-changes' }, ({ payload }) => {
+        handleRemoteBatch(payload as CanvasChangeBatch);
+      })
+      .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+        const { clientId: peerId, cursor } = payload as { clientId: string; cursor: CursorPosition | null };
+        useCollaborationStore.getState().updatePeerCursor(peerId, cursor);
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PeerPresence>();
+        const presences = Object.values(state).flatMap((entries) => entries);
+        useCollaborationStore.getState().syncPeers(presences);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          subscribed = true;
+          useCollaborationStore.getState().setConnected(true);
+          trackPresence();
+          if (pending.length > 0) flush();
+        } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          subscribed = false;
+          useCollaborationStore.getState().setConnected(false);
+        }
+      });
+
+    void createClient()
+      .auth.getUser()
+      .then(({ data: { user } }) => {
+        if (!user) return;
+        const metadata = (user.user_metadata ?? {}) as Record<string, unknown>;
+        const name =
+          (typeof metadata.full_name === 'string' && metadata.full_name) ||
+          user.email?.split('@')[0] ||
+          'Anonymous';
+        presence = {
+          clientId,
+          userId: user.id,
+          name,
+          color: peerColor(user.id),
+          activeNodeId: getActiveNodeId(),
+        };
+        trackPresence();
+      });
+
+    let lastActiveNodeId = getActiveNodeId();
+    const unsubscribeCanvas = useCanvasStore.subscribe((state, prev) => {
+      // Project switches and loads are not edits
+      if (state.projectId !== projectId || prev.projectId !== projectId) return;
+
+      const activeNodeId = getActiveNodeId();
+      if (activeNodeId !== lastActiveNodeId) {
+        lastActiveNodeId = activeNodeId;
+        trackPresence();
+      }
+
+      if (useCollaborationStore.getState().applyingRemote) return;
+      if (state.nodes === prev.nodes && state.edges === prev.edges) return;
+
+      const changes = diffCanvasChanges(prev, state);
+      if (changes.length > 0) enqueue(changes);
+    });
+
+    return () => {
+      unsubscribeCanvas();
+      if (flushTimer) clearTimeout(flushTimer);
+      flush();
+      void channel.untrack();
+      void channel.unsubscribe();
+      channelRef.current = null;
+      clientIdRef.current = null;
+      useCollaborationStore.getState().reset();
+    };
+  }, [projectId]);
+
+  const updateCursor = useCallback((cursor: CursorPosition | null) => {
+    const channel = channelRef.current;
+    if (!channel || !clientIdRef.current) return;
+
+    const now = Date.now();
+    if (cursor && now - lastCursorSentRef.current < CURSOR_THROTTLE_MS) return;
+    lastCursorSentRef.current = now;
+
+    void channel.send({
+      type: 'broadcast',
+      event: 'cursor',
+      payload: { clientId: clientIdRef.current, cursor },
+    });
+  }, []);
+
+  return { updateCursor };
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { useCollaborationStore } from '@/store/collaborationStore';
+import { showError } from '@/store/toastStore';
+import { syncLinearIssueStatus } from '@/app/actions/integrations/linear';
+import { needsLinearStatusPush } from '@/lib/integrations/linearSync';
+import type { FeatureStatus } from '@/types/nodes';
+
+/**
+ * Pushes local feature status changes to their linked Linear issues.
+ * Changes merged from collaborators or the Linear webhook are skipped: the
+ * client that made them pushes them, and status moves that came from Linear
+ * already match the issue's `stateType`. Pass enabled=false for read-only
+ * canvases.
+ */
+export function useLinearStatusSync(enabled: boolean = true) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribe = useCanvasStore.subscribe((state, prev) => {
+      // Project switches and loads are not edits
+      if (!state.projectId || state.projectId !== prev.projectId || state.nodes === prev.nodes) return;
+      if (useCollaborationStore.getState().applyingRemote) return;
+
+      const prevStatus = new Map<string, FeatureStatus>();
+      prev.nodes.forEach((n) => {
+        if (n.type === 'feature') prevStatus.set(n.id, n.data.status);
+      });
+
+      state.nodes.forEach((node) => {
+        if (node.type !== 'feature') return;
+        const { status, linearIssue } = node.data;
+        if (prevStatus.get(node.id) === status || !needsLinearStatusPush(status, linearIssue)) return;
+
+        void syncLinearIssueStatus(linearIssue!, status)
+          .then((link) => {
+            if (link) useCanvasStore.getState().updateNodeData(node.id, { linearIssue: link });
+          })
+          .catch((error) => {
+            showError(
+              `Couldn't update ${linearIssue!.identifier} in Linear: ${error instanceof Error ? error.message : 'unknown error'}`
+            );
+          });
+      });
+    });
+
+    return unsubscribe;
+  }, [enabled]);
+}
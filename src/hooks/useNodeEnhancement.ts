@@ -0,0 +1,59 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { discardChangeset, getQueuedChangeset, reviewChangeset, updateChangeset } from '@/store/changesetStore';
+import { showError, showToast } from '@/store/toastStore';
+import { getNodeDisplayName } from '@/lib/export/exportContextUtils';
+import { createChangeset, proposeEnhancementChange } from '@/lib/ai/changeset';
+import { isAbortError, streamEnhanceNode } from '@/lib/ai/streamClient';
+import type { EnhancementTarget } from '@/lib/ai/nodeEnhancement';
+
+/**
+ * Enhances one node with AI, streaming the proposal into a changeset for
+ * review instead of writing to the node. Discarding the review stops the stream.
+ */
+export function useNodeEnhancement(nodeId: string) {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const enhance = useCallback(
+    async (target: EnhancementTarget) => {
+      // Diff against the node as it was when enhancement started
+      const node = useCanvasStore.getState().nodes.find((n) => n.id === nodeId);
+      if (!node) return;
+
+      setIsGenerating(true);
+      const controller = new AbortController();
+      const changeset = createChangeset('enhance', `Enhance ${getNodeDisplayName(node)}`, { pending: true });
+      reviewChangeset(changeset, { onDiscard: () => controller.abort() });
+      const propose = (enhancement: Record<string, unknown>) => {
+        const change = proposeEnhancementChange(node, target.kind, enhancement);
+        updateChangeset(changeset.id, { nodeChanges: change ? [change] : [] });
+      };
+
+      try {
+        const result = await streamEnhanceNode(target, {
+          projectId: useCanvasStore.getState().projectId ?? undefined,
+          signal: controller.signal,
+          onPartial: propose,
+        });
+        propose(result);
+        updateChangeset(changeset.id, { pending: false });
+        if (getQueuedChangeset(changeset.id)?.nodeChanges.length === 0) {
+          discardChangeset(changeset.id);
+          showToast('info', 'AI had no changes to suggest for this node');
+        }
+      } catch (error) {
+        discardChangeset(changeset.id);
+        if (!isAbortError(error)) {
+          showError(error instanceof Error ? error.message : 'Failed to generate AI context');
+        }
+      } finally {
+        setIsGenerating(false);
+      }
+    },
+    [nodeId]
+  );
+
+  return { isGenerating, enhance };
+}
@@ -0,0 +1,333 @@
+import type { LLMMessage } from '@/types/ai';
+import type { EdgeKind, NodeFieldUpdate, SpexlyEdge, SpexlyNode } from '@/types/nodes';
+import { EDGE_KIND_CONFIGS, FEATURE_STATUS_CONFIG, EFFORT_HOURS, NODE_TYPE_CONFIGS } from '@/lib/constants';
+import { generateContextFile } from '@/lib/export/contextFileGenerator';
+import { getNodeDisplayName, truncate } from '@/lib/export/exportContextUtils';
+import { getEdgeKind, inferEdgeKind, isEdgeKind } from '@/lib/edges/edgeKinds';
+
+export const CANVAS_CHAT_MAX_OUTPUT_TOKENS = 3000;
+export const MAX_CHAT_CONTEXT_LENGTH = 30000;
+export const MAX_CHAT_HISTORY = 20;
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+const MAX_CHANGES = 30;
+
+export interface CanvasChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Node types the assistant may create or edit */
+export type ChatNodeType = 'feature' | 'screen' | 'techStack' | 'note';
+
+export type ProposedChange =
+  | { action: 'addNode'; ref: string; nodeType: ChatNodeType; data: Record<string, unknown> }
+  | { action: 'updateNode'; nodeId: string; nodeType: ChatNodeType; data: Record<string, unknown> }
+  /** `source`/`target` are node ids, or the `ref` of a node added in the same changeset */
+  | { action: 'addEdge'; source: string; target: string; kind: EdgeKind | null };
+
+export interface CanvasChatReply {
+  message: string;
+  changes: ProposedChange[];
+}
+
+type FieldSpec = 'text' | 'list' | readonly string[];
+
+/** Fields the assistant may write, per node type, with their shape or allowed values */
+const CHAT_FIELDS: Record<ChatNodeType, Record<string, FieldSpec>> = {
+  feature: {
+    featureName: 'text',
+    summary: 'text',
+    problem: 'text',
+    userStory: 'text',
+    acceptanceCriteria: 'list',
+    priority: ['Must', 'Should', 'Nice'],
+    status: Object.keys(FEATURE_STATUS_CONFIG),
+    effort: Object.keys(EFFORT_HOURS),
+    dependencies: 'list',
+    risks: 'text',
+    metrics: 'text',
+    notes: 'text',
+    technicalConstraints: 'text',
+    tags: 'list',
+  },
+  screen: {
+    screenName: 'text',
+    purpose: 'text',
+    keyElements: 'list',
+    userActions: 'list',
+    states: 'list',
+    navigation: 'text',
+    dataSources: 'list',
+    notes: 'text',
+  },
+  techStack: {
+    toolName: 'text',
+    category: ['Frontend', 'Backend', 'Database', 'Auth', 'Hosting', 'Other'],
+    version: 'text',
+    rationale: 'text',
+    configurationNotes: 'text',
+    notes: 'text',
+  },
+  note: {
+    title: 'text',
+    body: 'text',
+  },
+};
+
+const NAME_FIELDS: Record<ChatNodeType, string> = {
+  feature: 'featureName',
+  screen: 'screenName',
+  techStack: 'toolName',
+  note: 'title',
+};
+
+function isChatNodeType(value: unknown): value is ChatNodeType {
+  return typeof value === 'string' && Object.hasOwn(CHAT_FIELDS, value);
+}
+
+function describeFieldSpec(spec: FieldSpec): string {
+  if (spec === 'text') return 'string';
+  if (spec === 'list') return 'string[]';
+  return spec.map((value) => `"${value}"`).join(' | ');
+}
+
+/**
+ * The canvas as the assistant sees it: the exported context file, plus an
+ * index of node ids and connections so it can refer to existing nodes.
+ */
+export function buildCanvasChatContext(nodes: SpexlyNode[], edges: SpexlyEdge[]): string {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const index = nodes
+    .filter((node) => node.type !== 'group')
+    .map((node) => {
+      const meta =
+        node.type === 'feature' ? ` (priority: ${node.data.priority}, status: ${node.data.status})` : '';
+      return `- [${node.id}] ${node.type}: ${getNodeDisplayName(node)}${meta}`;
+    });
+  const links = edges
+    .filter((edge) => nodeById.has(edge.source) && nodeById.has(edge.target))
+    .map((edge) => `- [${edge.source}] ${getEdgeKind(edge)} [${edge.target}]`);
+
+  const context = [
+    generateContextFile(nodes, edges),
+    '## Node Index',
+    '',
+    ...(index.length > 0 ? index : ['(empty canvas)']),
+    '',
+    '## Connections',
+    '',
+    ...(links.length > 0 ? links : ['(none)']),
+  ].join('\n');
+
+  return truncate(context, MAX_CHAT_CONTEXT_LENGTH);
+}
+
+export function buildCanvasChatMessages(context: string, history: CanvasChatMessage[]): LLMMessage[] {
+  const fieldGuide = (Object.keys(CHAT_FIELDS) as ChatNodeType[]).map(
+    (type) =>
+      `- ${type}: ${Object.entries(CHAT_FIELDS[type])
+        .map(([field, spec]) => `${field} (${describeFieldSpec(spec)})`)
+        .join(', ')}`
+  );
+
+  const system = [
+    'You are the planning assistant for a product spec laid out as a canvas of nodes (idea, features, screens, tech stack, prompts, notes) joined by typed edges.',
+    'Answer questions using only the canvas below; say so when it does not contain the answer. Refer to nodes by name.',
+    'When the user asks you to create or change things, propose canvas changes. They are shown to the user for review, so never claim they are already applied.',
+    '',
+    'Allowed changes:',
+    '- {"action": "addNode", "ref": "new-1", "nodeType": <type>, "data": {<fields>}} (ref is your own id for the new node)',
+    '- {"action": "updateNode", "nodeId": <existing id>, "nodeType": <its type>, "data": {<only the fields to change>}}',
+    `- {"action": "addEdge", "source": <id or ref>, "target": <id or ref>, "kind": ${Object.keys(EDGE_KIND_CONFIGS).map((k) => `"${k}"`).join(' | ')}}`,
+    '',
+    'Writable fields by node type:',
+    ...fieldGuide,
+    '',
+    'Edge direction: feature depends-on feature, screen renders feature, feature uses-tech techStack, feature implements idea.',
+    '',
+    'OUTPUT FORMAT (JSON):',
+    '{ "reply": string (markdown), "changes": [ ...changes, or [] when nothing should change ] }',
+    'Return ONLY valid JSON, no markdown fences or explanatory text.',
+    '',
+    '=== CANVAS ===',
+    context,
+  ].join('\n');
+
+  return [
+    { role: 'system', content: system, cache: true },
+    ...history.map((message) => ({ role: message.role, content: message.content })),
+  ];
+}
+
+/** Validates the chat request history from the client; null when it does not end with a user message */
+export function parseCanvasChatHistory(value: unknown): CanvasChatMessage[] | null {
+  if (!Array.isArray(value)) return null;
+  const history = value
+    .filter(
+      (item): item is CanvasChatMessage =>
+        !!item &&
+        typeof item === 'object' &&
+        (item.role === 'user' || item.role === 'assistant') &&
+        typeof item.content === 'string' &&
+        item.content.trim().length > 0
+    )
+    .slice(-MAX_CHAT_HISTORY)
+    .map((item) => ({ role: item.role, content: item.content.slice(0, MAX_CHAT_MESSAGE_LENGTH) }));
+
+  // Some providers require the conversation to open with a user turn
+  while (history[0]?.role === 'assistant') history.shift();
+  return history.length > 0 && history[history.length - 1].role === 'user' ? history : null;
+}
+
+function sanitizeFields(nodeType: ChatNodeType, value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object') return {};
+  const specs = CHAT_FIELDS[nodeType];
+  const data: Record<string, unknown> = {};
+
+  for (const [field, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!Object.hasOwn(specs, field)) continue;
+    const spec = specs[field];
+    if (spec === 'text') {
+      if (typeof raw === 'string') data[field] = raw.slice(0, 4000);
+    } else if (spec === 'list') {
+      if (Array.isArray(raw)) {
+        data[field] = raw
+          .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+          .slice(0, 30)
+          .map((item) => item.trim().slice(0, 500));
+      }
+    } else if (typeof raw === 'string' && spec.includes(raw)) {
+      data[field] = raw;
+    }
+  }
+
+  return data;
+}
+
+/** Normalizes model output: unknown actions, node types and fields are dropped */
+export function parseCanvasChatReply(data: Record<string, unknown>): CanvasChatReply {
+  const message = typeof data.reply === 'string' ? data.reply.trim() : '';
+  const rawChanges = Array.isArray(data.changes) ? data.changes : [];
+  const changes: ProposedChange[] = [];
+
+  for (const raw of rawChanges.slice(0, MAX_CHANGES)) {
+    if (!raw || typeof raw !== 'object') continue;
+    const change = raw as Record<string, unknown>;
+
+    if (change.action === 'addNode' && isChatNodeType(change.nodeType) && typeof change.ref === 'string') {
+      const fields = sanitizeFields(change.nodeType, change.data);
+      const name = fields[NAME_FIELDS[change.nodeType]];
+      if (typeof name !== 'string' || !name.trim()) continue;
+      changes.push({ action: 'addNode', ref: change.ref.slice(0, 100), nodeType: change.nodeType, data: fields });
+    } else if (change.action === 'updateNode' && isChatNodeType(change.nodeType) && typeof change.nodeId === 'string') {
+      const fields = sanitizeFields(change.nodeType, change.data);
+      if (Object.keys(fields).length === 0) continue;
+      changes.push({ action: 'updateNode', nodeId: change.nodeId, nodeType: change.nodeType, data: fields });
+    } else if (change.action === 'addEdge' && typeof change.source === 'string' && typeof change.target === 'string') {
+      if (change.source === change.target) continue;
+      changes.push({
+        action: 'addEdge',
+        source: change.source,
+        target: change.target,
+        kind: isEdgeKind(change.kind) ? change.kind : null,
+      });
+    }
+  }
+
+  return { message: message || (changes.length > 0 ? 'Here are the changes I suggest.' : ''), changes };
+}
+
+/**
+ * Drops changes that no longer fit the canvas: updates to missing nodes or
+ * nodes of another type, and edges whose ends are neither existing nodes nor
+ * nodes added by a kept change.
+ */
+export function resolveProposedChanges(changes: ProposedChange[], nodes: SpexlyNode[]): ProposedChange[] {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const refs = new Set(changes.flatMap((change) => (change.action === 'addNode' ? [change.ref] : [])));
+
+  return changes.filter((change) => {
+    if (change.action === 'addNode') return !nodeById.has(change.ref);
+    if (change.action === 'updateNode') return nodeById.get(change.nodeId)?.type === change.nodeType;
+    const exists = (id: string) => nodeById.has(id) || refs.has(id);
+    return exists(change.source) && exists(change.target);
+  });
+}
+
+/** One-line description of a change, for the review list */
+export function describeProposedChange(change: ProposedChange, nodes: SpexlyNode[], changes: ProposedChange[]): string {
+  const nameOf = (id: string) => {
+    const node = nodes.find((n) => n.id === id);
+    if (node) return getNodeDisplayName(node);
+    const added = changes.find((c) => c.action === 'addNode' && c.ref === id);
+    return added?.action === 'addNode' ? String(added.data[NAME_FIELDS[added.nodeType]]) : id;
+  };
+
+  switch (change.action) {
+    case 'addNode':
+      return `Add ${NODE_TYPE_CONFIGS[change.nodeType].label.toLowerCase()} "${change.data[NAME_FIELDS[change.nodeType]]}"`;
+    case 'updateNode':
+      return `Update "${nameOf(change.nodeId)}": ${Object.keys(change.data).join(', ')}`;
+    case 'addEdge':
+      return `Connect "${nameOf(change.source)}" ${change.kind ? EDGE_KIND_CONFIGS[change.kind].label : 'to'} "${nameOf(change.target)}"`;
+  }
+}
+
+/**
+ * Turns accepted changes into the `smartImport` arguments, so the whole
+ * changeset lands as one undo step. New nodes get fresh ids and are laid out
+ * in a column per node type.
+ */
+export function buildProposedChangesUpdate(
+  changes: ProposedChange[],
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[],
+  now = Date.now()
+): { updates: NodeFieldUpdate[]; newNodes: SpexlyNode[]; newEdges: SpexlyEdge[] } {
+  const resolved = resolveProposedChanges(changes, nodes);
+  const idByRef = new Map<string, string>();
+  const typeById = new Map<string, SpexlyNode['type']>(nodes.map((node) => [node.id, node.type]));
+  const columns: ChatNodeType[] = ['feature', 'screen', 'techStack', 'note'];
+  const rows = new Map<ChatNodeType, number>();
+
+  const newNodes: SpexlyNode[] = [];
+  const updates: NodeFieldUpdate[] = [];
+  for (const change of resolved) {
+    if (change.action === 'addNode') {
+      const id = `${change.nodeType}-chat-${now}-${newNodes.length}`;
+      const row = rows.get(change.nodeType) ?? 0;
+      rows.set(change.nodeType, row + 1);
+      idByRef.set(change.ref, id);
+      typeById.set(id, change.nodeType);
+      newNodes.push({
+        id,
+        type: change.nodeType,
+        position: { x: columns.indexOf(change.nodeType) * 380, y: row * 280 },
+        data: { ...NODE_TYPE_CONFIGS[change.nodeType].defaultData, ...change.data },
+      } as SpexlyNode);
+    } else if (change.action === 'updateNode') {
+      const existing = updates.find((update) => update.nodeId === change.nodeId);
+      if (existing) Object.assign(existing.fieldsToFill, change.data);
+      else updates.push({ nodeId: change.nodeId, nodeType: change.nodeType, fieldsToFill: { ...change.data } });
+    }
+  }
+
+  const linked = new Set(edges.map((edge) => `${edge.source}->${edge.target}`));
+  const newEdges: SpexlyEdge[] = [];
+  for (const change of resolved) {
+    if (change.action !== 'addEdge') continue;
+    const source = idByRef.get(change.source) ?? change.source;
+    const target = idByRef.get(change.target) ?? change.target;
+    if (linked.has(`${source}->${target}`)) continue;
+    linked.add(`${source}->${target}`);
+    newEdges.push({
+      id: `e-${source}-${target}`,
+      source,
+      target,
+      data: { kind: change.kind ?? inferEdgeKind(typeById.get(source), typeById.get(target)) },
+    });
+  }
+
+  return { updates, newNodes, newEdges };
+}
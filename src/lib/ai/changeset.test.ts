@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countChangesetItems,
+  createChangeset,
+  diffNodeFields,
+  fieldChangeKey,
+  formatFieldLabel,
+  parseEditedValue,
+  proposeEnhancementChange,
+  proposeImportChanges,
+  resolveChangeset,
+} from './changeset';
+import type { SpexlyEdge, SpexlyNode } from '@/types/nodes';
+
+function makeNode(id: string, type: SpexlyNode['type'], data: Record<string, unknown>): SpexlyNode {
+  return { id, type, position: { x: 0, y: 0 }, data } as SpexlyNode;
+}
+
+const feature = makeNode('f1', 'feature', {
+  featureName: 'Login',
+  summary: 'Existing summary',
+  problem: '',
+  acceptanceCriteria: [],
+  aiContext: 'Old context',
+});
+
+describe('changeset', () => {
+  it('diffs proposed values, skipping unchanged, empty and protected fields', () => {
+    const changes = diffNodeFields(feature.data as Record<string, unknown>, {
+      featureName: 'Sign in',
+      summary: 'Existing summary',
+      problem: 'Users cannot sign in',
+      acceptanceCriteria: [],
+      tags: ['auth'],
+      aiContext: 'New context',
+    });
+
+    expect(changes).toEqual([
+      { field: 'problem', before: '', after: 'Users cannot sign in', preselected: true },
+      { field: 'aiContext', before: 'Old context', after: 'New context', preselected: false },
+    ]);
+  });
+
+  it('preselects what enhancement used to write and offers rewrites of filled fields unselected', () => {
+    const change = proposeEnhancementChange(feature, 'feature', {
+      summary: 'Better summary',
+      problem: 'Users cannot sign in',
+      aiContext: 'New context',
+    });
+
+    expect(change?.nodeName).toBe('Login');
+    expect(change?.fields.map((f) => [f.field, f.preselected])).toEqual([
+      ['summary', false],
+      ['problem', true],
+      ['aiContext', true],
+    ]);
+  });
+
+  it('merges import fills and suggestions per node, preselecting fills only', () => {
+    const changes = proposeImportChanges(
+      [{ nodeId: 'f1', nodeType: 'feature', fieldsToFill: { problem: 'From doc' } }],
+      [
+        { nodeId: 'f1', nodeType: 'feature', fieldsToFill: { summary: 'Doc summary' } },
+        { nodeId: 'deleted', nodeType: 'feature', fieldsToFill: { summary: 'x' } },
+      ],
+      [feature]
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].fields.map((f) => [f.field, f.preselected])).toEqual([
+      ['summary', false],
+      ['problem', true],
+    ]);
+  });
+
+  describe('resolveChangeset', () => {
+    const screen = makeNode('s-new', 'screen', { screenName: 'Welcome' });
+    const edges: SpexlyEdge[] = [
+      { id: 'e1', source: 's-new', target: 'f1' },
+      { id: 'e2', source: 'f2-new', target: 'f1' },
+    ];
+    const changeset = createChangeset('smartImport', 'Import document', {
+      nodeChanges: proposeImportChanges(
+        [{ nodeId: 'f1', nodeType: 'feature', fieldsToFill: { problem: 'From doc', acceptanceCriteria: ['a'] } }],
+        [{ nodeId: 'f1', nodeType: 'feature', fieldsToFill: { summary: 'Doc summary' } }],
+        [feature]
+      ),
+      newNodes: [screen, makeNode('f2-new', 'feature', { featureName: 'Reset' })],
+      newEdges: edges,
+    });
+
+    it('counts field changes, new nodes and new connections', () => {
+      expect(countChangesetItems(changeset)).toBe(3 + 2 + 2);
+      expect(countChangesetItems(createChangeset('chat', 'Changes from chat', { newEdges: edges }))).toBe(2);
+    });
+
+    it('applies preselections when the user made no decisions', () => {
+      const resolved = resolveChangeset(changeset, { fields: {}, rejectedNodeIds: [] });
+      expect(resolved.updates).toEqual([
+        { nodeId: 'f1', nodeType: 'feature', fieldsToFill: { problem: 'From doc', acceptanceCriteria: ['a'] } },
+      ]);
+      expect(resolved.newNodes).toHaveLength(2);
+      expect(resolved.newEdges).toHaveLength(2);
+    });
+
+    it('honours accepted, rejected and edited fields and drops edges of rejected nodes', () => {
+      const resolved = resolveChangeset(changeset, {
+        fields: {
+          [fieldChangeKey('f1', 'summary')]: { accepted: true },
+          [fieldChangeKey('f1', 'problem')]: { accepted: false },
+          [fieldChangeKey('f1', 'acceptanceCriteria')]: { accepted: true, value: ['edited', 'added'] },
+        },
+        rejectedNodeIds: ['s-new'],
+      });
+
+      expect(resolved.updates[0].fieldsToFill).toEqual({
+        summary: 'Doc summary',
+        acceptanceCriteria: ['edited', 'added'],
+      });
+      expect(resolved.newNodes.map((n) => n.id)).toEqual(['f2-new']);
+      expect(resolved.newEdges.map((e) => e.id)).toEqual(['e2']);
+    });
+
+    it('leaves out nodes whose every field was rejected', () => {
+      const resolved = resolveChangeset(changeset, {
+        fields: {
+          [fieldChangeKey('f1', 'problem')]: { accepted: false },
+          [fieldChangeKey('f1', 'acceptanceCriteria')]: { accepted: false },
+        },
+        rejectedNodeIds: [],
+      });
+      expect(resolved.updates).toEqual([]);
+    });
+  });
+
+  it('formats labels and parses edits back into the proposed shape', () => {
+    expect(formatFieldLabel('acceptanceCriteria')).toBe('Acceptance criteria');
+    expect(formatFieldLabel('aiContext')).toBe('AI context');
+    expect(parseEditedValue(['a'], ' one \n\n two ')).toEqual(['one', 'two']);
+    expect(parseEditedValue('text', ' kept as typed ')).toBe(' kept as typed ');
+  });
+});
@@ -0,0 +1,231 @@
+import { getNodeDisplayName } from '@/lib/export/exportContextUtils';
+import { isFieldEmpty, isProtectedField } from '@/lib/import/mergeStrategy';
+import { selectEnhancementProposals, selectEnhancementUpdates, type EnhanceableNodeKind } from './nodeEnhancement';
+import type { NodeFieldUpdate, SpexlyEdge, SpexlyNode, SpexlyNodeType } from '@/types/nodes';
+
+export type ChangesetSource =
+  | 'enhance'
+  | 'batchEnhance'
+  | 'smartImport'
+  | 'figmaImport'
+  | 'breakdown'
+  | 'specFix'
+  | 'wizard'
+  | 'chat';
+
+/** One field an AI operation wants to change */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  /** Whether the change starts out accepted in review */
+  preselected: boolean;
+}
+
+export interface NodeChange {
+  nodeId: string;
+  nodeType: SpexlyNodeType;
+  nodeName: string;
+  fields: FieldChange[];
+}
+
+/** Everything one AI operation proposes, held back until the user reviews it */
+export interface AIChangeset {
+  id: string;
+  source: ChangesetSource;
+  title: string;
+  nodeChanges: NodeChange[];
+  newNodes: SpexlyNode[];
+  newEdges: SpexlyEdge[];
+  /** True while the AI is still producing the changeset */
+  pending: boolean;
+}
+
+/** The user's call on one field, optionally with an edited value */
+export interface FieldDecision {
+  accepted: boolean;
+  value?: unknown;
+}
+
+export interface ChangesetDecisions {
+  /** Keyed by fieldChangeKey; fields without a decision keep their preselection */
+  fields: Record<string, FieldDecision>;
+  /** Proposed new nodes the user unticked */
+  rejectedNodeIds: string[];
+}
+
+/** Accepted changes in the shape canvasStore.smartImport applies as one undo step */
+export interface ResolvedChangeset {
+  updates: NodeFieldUpdate[];
+  newNodes: SpexlyNode[];
+  newEdges: SpexlyEdge[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  aiContext: 'AI context',
+  userStory: 'User story',
+};
+
+let nextChangesetId = 1;
+
+export function fieldChangeKey(nodeId: string, field: string): string {
+  return `${nodeId}:${field}`;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (isFieldEmpty(a) && isFieldEmpty(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-by-field diff of proposed values against a node's data. Unchanged,
+ * empty and protected fields are left out. By default only changes to
+ * empty fields are preselected, so existing content is kept unless the
+ * user opts in.
+ */
+export function diffNodeFields(
+  before: Record<string, unknown>,
+  proposed: Record<string, unknown>,
+  preselect: (field: string, before: unknown) => boolean = (_, value) => isFieldEmpty(value)
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, after] of Object.entries(proposed)) {
+    if (isProtectedField(field) || isFieldEmpty(after) || isSameValue(before[field], after)) continue;
+    changes.push({ field, before: before[field], after, preselected: preselect(field, before[field]) });
+  }
+  return changes;
+}
+
+/** Diffs proposed values against a node; null when nothing would change */
+export function proposeNodeChange(
+  node: SpexlyNode,
+  proposed: Record<string, unknown>,
+  preselect?: (field: string, before: unknown) => boolean
+): NodeChange | null {
+  const fields = diffNodeFields(node.data as Record<string, unknown>, proposed, preselect);
+  if (fields.length === 0) return null;
+  return { nodeId: node.id, nodeType: node.type, nodeName: getNodeDisplayName(node), fields };
+}
+
+/**
+ * Changes for an enhancement, complete or still streaming, against the node
+ * as it was when enhancement started. Fields selectEnhancementUpdates would
+ * have written are preselected; rewrites of filled main fields are offered
+ * unselected.
+ */
+export function proposeEnhancementChange(
+  node: SpexlyNode,
+  kind: EnhanceableNodeKind,
+  enhancement: Record<string, unknown>
+): NodeChange | null {
+  const defaults = selectEnhancementUpdates(kind, node.data as Record<string, unknown>, enhancement);
+  return proposeNodeChange(node, selectEnhancementProposals(kind, enhancement), (field) => field in defaults);
+}
+
+/**
+ * Changes for a smart import: fills of empty fields are preselected,
+ * suggestions for filled fields are not. Updates for nodes that have
+ * since been deleted are dropped.
+ */
+export function proposeImportChanges(
+  updates: NodeFieldUpdate[],
+  suggestions: NodeFieldUpdate[],
+  nodes: SpexlyNode[]
+): NodeChange[] {
+  const changes: NodeChange[] = [];
+  for (const node of nodes) {
+    const fills = updates.find((u) => u.nodeId === node.id)?.fieldsToFill ?? {};
+    const suggested = suggestions.find((u) => u.nodeId === node.id)?.fieldsToFill ?? {};
+    const change = proposeNodeChange(node, { ...suggested, ...fills }, (field) => field in fills);
+    if (change) changes.push(change);
+  }
+  return changes;
+}
+
+export function createChangeset(
+  source: ChangesetSource,
+  title: string,
+  parts: Partial<Pick<AIChangeset, 'nodeChanges' | 'newNodes' | 'newEdges' | 'pending'>> = {}
+): AIChangeset {
+  return {
+    id: `changeset-${Date.now()}-${nextChangesetId++}`,
+    source,
+    title,
+    nodeChanges: parts.nodeChanges ?? [],
+    newNodes: parts.newNodes ?? [],
+    newEdges: parts.newEdges ?? [],
+    pending: parts.pending ?? false,
+  };
+}
+
+/** Number of field changes, new nodes and new connections in a changeset */
+export function countChangesetItems(changeset: AIChangeset): number {
+  return (
+    changeset.nodeChanges.reduce((sum, change) => sum + change.fields.length, 0) +
+    changeset.newNodes.length +
+    changeset.newEdges.length
+  );
+}
+
+export function isFieldAccepted(nodeId: string, change: FieldChange, decisions: ChangesetDecisions): boolean {
+  return decisions.fields[fieldChangeKey(nodeId, change.field)]?.accepted ?? change.preselected;
+}
+
+/**
+ * Applies the user's decisions: accepted fields (with any edits) become one
+ * update per node, rejected new nodes are dropped along with their edges.
+ */
+export function resolveChangeset(changeset: AIChangeset, decisions: ChangesetDecisions): ResolvedChangeset {
+  const updates: NodeFieldUpdate[] = [];
+  for (const change of changeset.nodeChanges) {
+    const fieldsToFill: Record<string, unknown> = {};
+    for (const field of change.fields) {
+      if (!isFieldAccepted(change.nodeId, field, decisions)) continue;
+      const decision = decisions.fields[fieldChangeKey(change.nodeId, field.field)];
+      fieldsToFill[field.field] = decision?.value !== undefined ? decision.value : field.after;
+    }
+    if (Object.keys(fieldsToFill).length > 0) {
+      updates.push({ nodeId: change.nodeId, nodeType: change.nodeType, fieldsToFill });
+    }
+  }
+
+  const rejected = new Set(decisions.rejectedNodeIds);
+  return {
+    updates,
+    newNodes: changeset.newNodes.filter((node) => !rejected.has(node.id)),
+    newEdges: changeset.newEdges.filter((edge) => !rejected.has(edge.source) && !rejected.has(edge.target)),
+  };
+}
+
+/** "acceptanceCriteria" -> "Acceptance criteria" */
+export function formatFieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase().trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Text and string lists can be edited in review; other values are accept-or-reject */
+export function isEditableValue(value: unknown): boolean {
+  return typeof value === 'string' || (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+}
+
+/** Display or edit text for a field value; lists get one item per line */
+export function formatFieldValue(value: unknown): string {
+  if (isFieldEmpty(value)) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === 'string' ? item : JSON.stringify(item))).join('\n');
+  }
+  return JSON.stringify(value);
+}
+
+/** Parses edited text back into the shape of the proposed value */
+export function parseEditedValue(proposed: unknown, text: string): unknown {
+  if (Array.isArray(proposed)) {
+    return text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+  }
+  return text;
+}
@@ -0,0 +1,28 @@
+/**
+ * Process items with bounded concurrency using a worker pool pattern. Once
+ * `signal` aborts no new items are started; results of skipped items are
+ * left undefined.
+ */
+export async function processWithConcurrency<T, R>(
+  items: T[],
+  processor: (item: T, index: number) => Promise<R>,
+  maxConcurrent: number,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let currentIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (currentIndex < items.length && !signal?.aborted) {
+      const index = currentIndex++;
+      results[index] = await processor(items[index], index);
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.min(maxConcurrent, items.length) },
+    () => worker()
+  );
+  await Promise.all(workers);
+  return results;
+}
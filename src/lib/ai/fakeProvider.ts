@@ -0,0 +1,54 @@
+import type { LLMProvider, LLMProviderId, LLMRequest, LLMResult } from '@/types/ai';
+
+type FakeResponse = string | Error | ((request: LLMRequest) => string);
+
+export interface FakeProvider extends LLMProvider {
+  /** Every request the provider received, in order */
+  calls: LLMRequest[];
+}
+
+/**
+ * Deterministic provider for tests. Each call consumes the next queued
+ * response (a string, an Error to throw, or a function of the request); the
+ * last response repeats once the queue runs out. Streaming emits the text in
+ * `chunkSize` pieces and stops with an AbortError once the request's signal
+ * fires.
+ */
+export function createFakeProvider(
+  responses: FakeResponse | FakeResponse[],
+  options: { id?: LLMProviderId; supportsJsonMode?: boolean; chunkSize?: number } = {}
+): FakeProvider {
+  const queue = Array.isArray(responses) ? [...responses] : [responses];
+  const calls: LLMRequest[] = [];
+  const id = options.id ?? 'openai';
+  const chunkSize = options.chunkSize ?? 8;
+
+  const respond = (request: LLMRequest): LLMResult => {
+    calls.push(request);
+    const next = queue.length > 1 ? queue.shift()! : queue[0];
+    if (next instanceof Error) throw next;
+    const text = typeof next === 'function' ? next(request) : next;
+    return {
+      text,
+      provider: id,
+      model: request.model,
+      usage: { inputTokens: request.messages.reduce((sum, m) => sum + m.content.length, 0), outputTokens: text.length },
+    };
+  };
+
+  return {
+    id,
+    supportsJsonMode: options.supportsJsonMode ?? true,
+    calls,
+    complete: async (request) => respond(request),
+    stream: async (request, onText) => {
+      const result = respond(request);
+      for (let i = 0; i < result.text.length; i += chunkSize) {
+        if (request.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+        onText(result.text.slice(i, i + chunkSize));
+        await Promise.resolve();
+      }
+      return result;
+    },
+  };
+}
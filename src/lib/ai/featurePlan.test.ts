@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyFeaturePlan,
+  buildFeaturePlanContext,
+  getFeaturePlanProgress,
+  parseFeaturePlan,
+  parseFeaturePlanContext,
+} from './featurePlan';
+import type { FeaturePlanStep, SpexlyEdge, SpexlyNode } from '@/types/nodes';
+
+function makeNode(id: string, type: SpexlyNode['type'], data: Record<string, unknown>): SpexlyNode {
+  return { id, type, position: { x: 0, y: 0 }, data } as SpexlyNode;
+}
+
+function makeStep(overrides: Partial<FeaturePlanStep>): FeaturePlanStep {
+  return { id: 's', title: 'Step', details: '', files: [], testCases: [], estimatedHours: 1, done: false, ...overrides };
+}
+
+describe('featurePlan', () => {
+  describe('buildFeaturePlanContext', () => {
+    const nodes = [
+      makeNode('idea', 'idea', { appName: 'Shop', projectArchitecture: 'Next.js monolith' }),
+      makeNode('f1', 'feature', {
+        featureName: 'Checkout',
+        summary: 'Pay for a cart',
+        userStory: '',
+        acceptanceCriteria: ['Card payments work'],
+        technicalConstraints: '',
+      }),
+      makeNode('s1', 'screen', { screenName: 'Cart', purpose: 'Review items' }),
+      makeNode('t1', 'techStack', { toolName: 'Stripe', category: 'Payments' }),
+      makeNode('n1', 'note', { title: 'Ideas' }),
+      makeNode('s2', 'screen', { screenName: 'Unrelated', purpose: '' }),
+    ];
+    const edges: SpexlyEdge[] = [
+      { id: 'e1', source: 'f1', target: 's1' },
+      { id: 'e2', source: 't1', target: 'f1' },
+      { id: 'e3', source: 'f1', target: 'n1' },
+    ];
+
+    it('collects connected screens and tech stack plus the idea architecture', () => {
+      const context = buildFeaturePlanContext('f1', nodes, edges);
+      expect(context).toMatchObject({
+        featureName: 'Checkout',
+        projectArchitecture: 'Next.js monolith',
+        screens: [{ name: 'Cart', purpose: 'Review items' }],
+        techStack: [{ name: 'Stripe', category: 'Payments' }],
+      });
+    });
+
+    it('returns null for unnamed features and other node types', () => {
+      expect(buildFeaturePlanContext('s1', nodes, edges)).toBeNull();
+      expect(buildFeaturePlanContext('x', [makeNode('x', 'feature', { featureName: '  ' })], [])).toBeNull();
+    });
+  });
+
+  describe('parseFeaturePlanContext', () => {
+    it('rejects bodies without a feature name and drops unnamed entries', () => {
+      expect(parseFeaturePlanContext({ featureName: '' })).toBeNull();
+      expect(parseFeaturePlanContext('Checkout')).toBeNull();
+      const context = parseFeaturePlanContext({
+        featureName: 'Checkout',
+        screens: [{ name: 'Cart', purpose: 'Review' }, { name: '' }, null],
+        techStack: 'Stripe',
+      });
+      expect(context?.screens).toEqual([{ name: 'Cart', purpose: 'Review' }]);
+      expect(context?.techStack).toEqual([]);
+      expect(context?.acceptanceCriteria).toEqual([]);
+    });
+  });
+
+  describe('parseFeaturePlan', () => {
+    it('normalizes steps, drops untitled ones and rounds hours to half hours', () => {
+      let next = 0;
+      const steps = parseFeaturePlan(
+        {
+          steps: [
+            { title: ' Create schema ', files: ['supabase/migrations/001.sql', 3], testCases: ['RLS blocks others'], estimatedHours: 1.3 },
+            { title: '', details: 'No title' },
+            { title: 'Build API', estimatedHours: '2.75' },
+            { title: 'Huge', estimatedHours: 500 },
+            { title: 'Negative', estimatedHours: -2 },
+          ],
+        },
+        () => `id-${next++}`
+      );
+
+      expect(steps.map((s) => [s.id, s.title, s.estimatedHours])).toEqual([
+        ['id-0', 'Create schema', 1.5],
+        ['id-1', 'Build API', 3],
+        ['id-2', 'Huge', 40],
+        ['id-3', 'Negative', 0],
+      ]);
+      expect(steps[0]).toMatchObject({ files: ['supabase/migrations/001.sql'], testCases: ['RLS blocks others'], done: false });
+    });
+
+    it('returns no steps for malformed output', () => {
+      expect(parseFeaturePlan({})).toEqual([]);
+      expect(parseFeaturePlan({ steps: 'do it' })).toEqual([]);
+    });
+  });
+
+  describe('applyFeaturePlan and progress', () => {
+    const steps = [
+      makeStep({ id: 'a', title: 'Schema', files: ['db.sql', 'types.ts'], estimatedHours: 2, done: true }),
+      makeStep({ id: 'b', title: 'UI', files: ['types.ts', 'page.tsx'], estimatedHours: 3.5 }),
+    ];
+
+    it('mirrors the plan into the implementation fields', () => {
+      expect(applyFeaturePlan(steps)).toEqual({
+        implementationPlan: steps,
+        implementationSteps: ['Schema', 'UI'],
+        relatedFiles: ['db.sql', 'types.ts', 'page.tsx'],
+        estimatedHours: 5.5,
+      });
+      expect(applyFeaturePlan([]).estimatedHours).toBeNull();
+    });
+
+    it('counts finished steps and the hours still left', () => {
+      expect(getFeaturePlanProgress(steps)).toEqual({ done: 1, total: 2, totalHours: 5.5, remainingHours: 3.5 });
+    });
+  });
+});
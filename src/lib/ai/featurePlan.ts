@@ -0,0 +1,207 @@
+import type { LLMMessage } from '@/types/ai';
+import type { FeatureNodeData, FeaturePlanStep, SpexlyEdge, SpexlyNode } from '@/types/nodes';
+import { getConnectedContext } from '@/lib/export/exportContextUtils';
+
+export const FEATURE_PLAN_MAX_OUTPUT_TOKENS = 3000;
+
+/** Most steps a plan holds; pushing to tasks uses the same cap */
+export const FEATURE_PLAN_MAX_STEPS = 12;
+const MAX_STEP_HOURS = 40;
+
+/** What the planner knows about a feature: its own spec plus connected screens and stack */
+export interface FeaturePlanContext {
+  featureName: string;
+  summary: string;
+  userStory: string;
+  acceptanceCriteria: string[];
+  technicalConstraints: string;
+  projectArchitecture: string;
+  screens: { name: string; purpose: string }[];
+  techStack: { name: string; category: string }[];
+}
+
+export interface FeaturePlanProgress {
+  done: number;
+  total: number;
+  totalHours: number;
+  remainingHours: number;
+}
+
+const SYSTEM_PROMPT =
+  'You are a senior engineer planning the implementation of one feature for a solo developer. Produce an ordered, dependency-first plan whose steps can each be finished and verified on their own. Use file paths that fit the project architecture and tech stack you are given. Return ONLY valid JSON with no markdown or explanatory text.';
+
+function text(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function list(value: unknown, maxItems: number, maxLength: number): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+        .slice(0, maxItems)
+        .map((item) => item.trim().slice(0, maxLength))
+    : [];
+}
+
+/**
+ * Collects the plan context for a feature from the canvas: connected screens
+ * and tech stack nodes, plus the idea's architecture notes. Null when the
+ * node is not a named feature.
+ */
+export function buildFeaturePlanContext(
+  featureId: string,
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[]
+): FeaturePlanContext | null {
+  const feature = nodes.find((node) => node.id === featureId);
+  if (!feature || feature.type !== 'feature' || !feature.data.featureName.trim()) return null;
+
+  const connected = getConnectedContext(featureId, nodes, edges).map((entry) => entry.node);
+  const idea = nodes.find((node) => node.type === 'idea');
+
+  return {
+    featureName: feature.data.featureName.trim(),
+    summary: feature.data.summary,
+    userStory: feature.data.userStory,
+    acceptanceCriteria: feature.data.acceptanceCriteria,
+    technicalConstraints: feature.data.technicalConstraints,
+    projectArchitecture: idea?.type === 'idea' ? idea.data.projectArchitecture : '',
+    screens: connected.flatMap((node) =>
+      node.type === 'screen' && node.data.screenName
+        ? [{ name: node.data.screenName, purpose: node.data.purpose }]
+        : []
+    ),
+    techStack: connected.flatMap((node) =>
+      node.type === 'techStack' && node.data.toolName
+        ? [{ name: node.data.toolName, category: node.data.category }]
+        : []
+    ),
+  };
+}
+
+/** Validates a plan request body; null when it names no feature */
+export function parseFeaturePlanContext(value: unknown): FeaturePlanContext | null {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+  const featureName = text(input.featureName, 200);
+  if (!featureName) return null;
+
+  const entries = (items: unknown, key: 'purpose' | 'category') =>
+    (Array.isArray(items) ? items : [])
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+      .slice(0, 20)
+      .map((item) => ({ name: text(item.name, 200), detail: text(item[key], 500) }))
+      .filter((item) => item.name);
+
+  return {
+    featureName,
+    summary: text(input.summary, 2000),
+    userStory: text(input.userStory, 2000),
+    acceptanceCriteria: list(input.acceptanceCriteria, 20, 500),
+    technicalConstraints: text(input.technicalConstraints, 2000),
+    projectArchitecture: text(input.projectArchitecture, 4000),
+    screens: entries(input.screens, 'purpose').map(({ name, detail }) => ({ name, purpose: detail })),
+    techStack: entries(input.techStack, 'category').map(({ name, detail }) => ({ name, category: detail })),
+  };
+}
+
+export function buildFeaturePlanMessages(context: FeaturePlanContext): LLMMessage[] {
+  const prompt = [
+    '=== FEATURE TO PLAN ===',
+    `Feature Name: ${context.featureName}`,
+    context.summary ? `Summary: ${context.summary}` : null,
+    context.userStory ? `User Story: ${context.userStory}` : null,
+    context.acceptanceCriteria.length
+      ? `Acceptance Criteria:\n${context.acceptanceCriteria.map((c) => `  - ${c}`).join('\n')}`
+      : null,
+    context.technicalConstraints ? `Constraints: ${context.technicalConstraints}` : null,
+    '',
+    '=== PROJECT CONTEXT ===',
+    context.projectArchitecture ? `Architecture: ${context.projectArchitecture}` : 'Architecture: not specified',
+    context.techStack.length
+      ? `Tech Stack:\n${context.techStack.map((t) => `  - ${t.name}${t.category ? ` (${t.category})` : ''}`).join('\n')}`
+      : null,
+    context.screens.length
+      ? `Screens using this feature:\n${context.screens.map((s) => `  - ${s.name}${s.purpose ? `: ${s.purpose}` : ''}`).join('\n')}`
+      : null,
+    '',
+    '=== INSTRUCTIONS ===',
+    `Write 3-${FEATURE_PLAN_MAX_STEPS} steps in implementation order (dependencies first). For each step give:`,
+    '- title: an imperative action ("Create...", "Add...", "Wire...")',
+    '- details: 1-3 sentences on what to do and how to know it is finished',
+    '- files: the file paths to create or modify',
+    '- testCases: 1-4 concrete test cases that verify the step',
+    '- estimatedHours: a realistic estimate in hours, in half-hour increments',
+    '',
+    'OUTPUT FORMAT (JSON):',
+    '{',
+    '  "steps": [',
+    '    { "title": string, "details": string, "files": string[], "testCases": string[], "estimatedHours": number }',
+    '  ]',
+    '}',
+    '',
+    'Return ONLY valid JSON, no markdown or explanatory text.',
+  ]
+    .filter((line) => line !== null)
+    .join('\n');
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt },
+  ];
+}
+
+function toHours(value: unknown): number {
+  const hours = typeof value === 'string' ? Number.parseFloat(value) : value;
+  if (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0) return 0;
+  return Math.round(Math.min(hours, MAX_STEP_HOURS) * 2) / 2;
+}
+
+/** Normalizes raw model output into plan steps; untitled steps are dropped */
+export function parseFeaturePlan(
+  data: Record<string, unknown>,
+  createId: () => string = () => crypto.randomUUID()
+): FeaturePlanStep[] {
+  const steps = Array.isArray(data.steps) ? data.steps : [];
+  return steps
+    .filter((step): step is Record<string, unknown> => !!step && typeof step === 'object')
+    .map((step) => ({ step, title: text(step.title, 200) }))
+    .filter(({ title }) => title.length > 0)
+    .slice(0, FEATURE_PLAN_MAX_STEPS)
+    .map(({ step, title }) => ({
+      id: createId(),
+      title,
+      details: text(step.details, 1000),
+      files: list(step.files, 10, 200),
+      testCases: list(step.testCases, 6, 300),
+      estimatedHours: toHours(step.estimatedHours),
+      done: false,
+    }));
+}
+
+/**
+ * Node updates for a new or edited plan. The step titles, files and hour
+ * total also feed the existing implementation fields so exports pick them up.
+ */
+export function applyFeaturePlan(
+  steps: FeaturePlanStep[]
+): Pick<FeatureNodeData, 'implementationPlan' | 'implementationSteps' | 'relatedFiles' | 'estimatedHours'> {
+  return {
+    implementationPlan: steps,
+    implementationSteps: steps.map((step) => step.title),
+    relatedFiles: [...new Set(steps.flatMap((step) => step.files))],
+    estimatedHours: steps.length > 0 ? getFeaturePlanProgress(steps).totalHours : null,
+  };
+}
+
+export function getFeaturePlanProgress(steps: FeaturePlanStep[]): FeaturePlanProgress {
+  let done = 0;
+  let totalHours = 0;
+  let remainingHours = 0;
+  for (const step of steps) {
+    totalHours += step.estimatedHours;
+    if (step.done) done += 1;
+    else remainingHours += step.estimatedHours;
+  }
+  return { done, total: steps.length, totalHours, remainingHours };
+}
@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { LLMProvider } from '@/types/ai';
+import { createFakeProvider } from './fakeProvider';
+import {
+  AICancelledError,
+  AITimeoutError,
+  generateJson,
+  generateText,
+  getAvailableProviders,
+  getModelFor,
+  isAIAvailable,
+  isQuotaError,
+  isRetryableError,
+  parseJsonResponse,
+  resolveProviderId,
+  streamJson,
+  streamText,
+} from './llm';
+
+vi.mock('@/lib/errors', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/errors')>()),
+  logError: vi.fn(),
+}));
+
+const ENV_KEYS = [
+  'AI_PROVIDER',
+  'AI_PROVIDER_IMPORT',
+  'AI_PROVIDER_IMPORT_DETAILS',
+  'AI_MODEL_IMPORT',
+  'AI_USE_CLAUDE_FOR_IMPORT',
+  'AI_REQUEST_TIMEOUT_MS',
+  'OPENAI_API_KEY',
+  'OPENAI_MODEL',
+  'OPENAI_WIZARD_MODEL',
+  'ANTHROPIC_API_KEY',
+  'ANTHROPIC_MODEL',
+  'LOCAL_LLM_BASE_URL',
+  'LOCAL_LLM_MODEL',
+];
+
+function httpError(status: number, message = `HTTP ${status}`) {
+  return Object.assign(new Error(message), { status });
+}
+
+const baseOptions = {
+  operation: 'enhance' as const,
+  messages: [{ role: 'user' as const, content: 'hi' }],
+  maxTokens: 100,
+  retryDelayMs: 0,
+};
+
+describe('llm', () => {
+  beforeEach(() => {
+    for (const key of ENV_KEYS) vi.stubEnv(key, '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('provider resolution', () => {
+    it('lists only configured providers', () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+      vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+      expect(getAvailableProviders()).toEqual(['openai', 'local']);
+    });
+
+    it('uses the user preference when configured, else the server default', () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+      vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+      expect(resolveProviderId('enhance', 'local')).toBe('local');
+      expect(resolveProviderId('enhance', 'anthropic')).toBe('openai');
+      expect(resolveProviderId('enhance', null)).toBe('openai');
+
+      vi.stubEnv('AI_PROVIDER', 'local');
+      expect(resolveProviderId('enhance', null)).toBe('local');
+    });
+
+    it('lets a per-operation override win over the user preference', () => {
+      vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+      vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant');
+      vi.stubEnv('AI_PROVIDER_IMPORT_DETAILS', 'anthropic');
+      expect(resolveProviderId('importDetails', 'local')).toBe('anthropic');
+      expect(resolveProviderId('import', 'local')).toBe('local');
+    });
+
+    it('honours the legacy Claude import flag for detail extraction', () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+      vi.stubEnv('AI_USE_CLAUDE_FOR_IMPORT', 'true');
+      expect(resolveProviderId('importDetails')).toBe('openai');
+
+      vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant');
+      expect(resolveProviderId('importDetails')).toBe('anthropic');
+      expect(resolveProviderId('import')).toBe('openai');
+    });
+
+    it('reports availability for the resolved provider', () => {
+      expect(isAIAvailable('wizard')).toBe(false);
+      vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+      expect(isAIAvailable('wizard', 'local')).toBe(true);
+    });
+  });
+
+  describe('getModelFor', () => {
+    it('uses provider defaults and normalizes OpenAI shorthand', () => {
+      expect(getModelFor('enhance', 'openai')).toBe('gpt-4.1-mini');
+      expect(getModelFor('enhance', 'local')).toBe('llama3.1');
+      vi.stubEnv('OPENAI_MODEL', '4.1');
+      expect(getModelFor('import', 'openai')).toBe('gpt-4.1');
+    });
+
+    it('prefers the wizard model for wizard and breakdown', () => {
+      vi.stubEnv('OPENAI_MODEL', 'gpt-4.1-mini');
+      vi.stubEnv('OPENAI_WIZARD_MODEL', 'gpt-4.1');
+      expect(getModelFor('wizard', 'openai')).toBe('gpt-4.1');
+      expect(getModelFor('breakdown', 'openai')).toBe('gpt-4.1');
+      expect(getModelFor('enhance', 'openai')).toBe('gpt-4.1-mini');
+    });
+
+    it('applies an operation model only with its provider override', () => {
+      vi.stubEnv('AI_MODEL_IMPORT', 'qwen2.5:14b');
+      expect(getModelFor('import', 'local')).toBe('llama3.1');
+
+      vi.stubEnv('AI_PROVIDER_IMPORT', 'local');
+      expect(getModelFor('import', 'local')).toBe('qwen2.5:14b');
+      expect(getModelFor('import', 'openai')).toBe('gpt-4.1-mini');
+    });
+  });
+
+  describe('error classification', () => {
+    it('treats quota exhaustion as final and transient failures as retryable', () => {
+      expect(isQuotaError(httpError(429, 'You exceeded your current quota'))).toBe(true);
+      expect(isRetryableError(httpError(429, 'You exceeded your current quota'))).toBe(false);
+      expect(isRetryableError(httpError(429, 'Rate limit reached'))).toBe(true);
+      expect(isRetryableError(httpError(503))).toBe(true);
+      expect(isRetryableError(httpError(400))).toBe(false);
+      expect(isRetryableError(new AITimeoutError(1000))).toBe(true);
+      expect(isRetryableError(Object.assign(new Error('socket hang up'), { name: 'APIConnectionError' }))).toBe(true);
+    });
+  });
+
+  describe('generateText', () => {
+    it('passes the resolved model and request options to the provider', async () => {
+      const provider = createFakeProvider('hello');
+      const result = await generateText({ ...baseOptions, provider, temperature: 0.3 });
+
+      expect(result.text).toBe('hello');
+      expect(provider.calls).toHaveLength(1);
+      expect(provider.calls[0].model).toBe('gpt-4.1-mini');
+      expect(provider.calls[0].temperature).toBe(0.3);
+      expect(provider.calls[0].signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('retries transient errors and then succeeds', async () => {
+      const provider = createFakeProvider([httpError(503), httpError(502), 'ok']);
+      const result = await generateText({ ...baseOptions, provider });
+      expect(result.text).toBe('ok');
+      expect(provider.calls).toHaveLength(3);
+    });
+
+    it('gives up after the retry budget', async () => {
+      const provider = createFakeProvider(httpError(500, 'boom'));
+      await expect(generateText({ ...baseOptions, provider, retries: 1 })).rejects.toThrow('boom');
+      expect(provider.calls).toHaveLength(2);
+    });
+
+    it('does not retry quota or client errors', async () => {
+      const quota = createFakeProvider(httpError(429, 'insufficient_quota: check your plan'));
+      await expect(generateText({ ...baseOptions, provider: quota })).rejects.toThrow('quota');
+      expect(quota.calls).toHaveLength(1);
+
+      const badRequest = createFakeProvider(httpError(400));
+      await expect(generateText({ ...baseOptions, provider: badRequest })).rejects.toThrow('HTTP 400');
+      expect(badRequest.calls).toHaveLength(1);
+    });
+
+    it('aborts slow requests with AITimeoutError', async () => {
+      const hanging: LLMProvider = {
+        id: 'local',
+        supportsJsonMode: true,
+        complete: (request) =>
+          new Promise((_, reject) => {
+            request.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          }),
+      };
+      await expect(generateText({ ...baseOptions, provider: hanging, timeoutMs: 10, retries: 0 })).rejects.toBeInstanceOf(
+        AITimeoutError
+      );
+    });
+
+    it('rejects empty completions', async () => {
+      const provider = createFakeProvider('');
+      await expect(generateText({ ...baseOptions, provider, retries: 0 })).rejects.toThrow('failed to produce output');
+    });
+  });
+
+  describe('generateJson', () => {
+    it('uses native JSON mode without touching the prompt', async () => {
+      const provider = createFakeProvider('{"ok":true}');
+      const { data } = await generateJson({ ...baseOptions, provider });
+
+      expect(data).toEqual({ ok: true });
+      expect(provider.calls[0].json).toBe(true);
+      expect(provider.calls[0].messages).toEqual(baseOptions.messages);
+    });
+
+    it('asks for JSON in the prompt when the provider has no JSON mode', async () => {
+      const provider = createFakeProvider('Sure! ```json\n{"ok":true}\n```', { id: 'anthropic', supportsJsonMode: false });
+      const { data, result } = await generateJson({
+        ...baseOptions,
+        provider,
+        messages: [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'user', content: 'hi' },
+        ],
+      });
+
+      expect(data).toEqual({ ok: true });
+      expect(result.provider).toBe('anthropic');
+      expect(provider.calls[0].messages[0].content).toMatch(/^You are helpful\.\n\nRespond with a single valid JSON object/);
+    });
+  });
+
+  describe('streamText', () => {
+    it('emits deltas in order and resolves to the full text', async () => {
+      const provider = createFakeProvider('hello streaming world', { chunkSize: 5 });
+      const deltas: string[] = [];
+      const result = await streamText({ ...baseOptions, provider, onText: (delta) => deltas.push(delta) });
+
+      expect(deltas).toEqual(['hello', ' stre', 'aming', ' worl', 'd']);
+      expect(result.text).toBe('hello streaming world');
+    });
+
+    it('delivers a non-streaming provider answer as one delta', async () => {
+      const provider: LLMProvider = { ...createFakeProvider('whole answer'), stream: undefined };
+      const deltas: string[] = [];
+      await streamText({ ...baseOptions, provider, onText: (delta) => deltas.push(delta) });
+      expect(deltas).toEqual(['whole answer']);
+    });
+
+    it('retries only while nothing has been emitted', async () => {
+      let calls = 0;
+      const flaky: LLMProvider = {
+        id: 'openai',
+        supportsJsonMode: true,
+        complete: async () => {
+          throw new Error('unused');
+        },
+        stream: async (request, onText) => {
+          calls++;
+          if (calls === 1) throw httpError(503);
+          onText('partial');
+          throw httpError(502, 'dropped mid-stream');
+        },
+      };
+
+      await expect(streamText({ ...baseOptions, provider: flaky, onText: () => {} })).rejects.toThrow(
+        'dropped mid-stream'
+      );
+      expect(calls).toBe(2);
+    });
+
+    it('stops for good when the caller cancels', async () => {
+      const provider = createFakeProvider('a fairly long answer that keeps going', { chunkSize: 4 });
+      const controller = new AbortController();
+      const deltas: string[] = [];
+
+      await expect(
+        streamText({
+          ...baseOptions,
+          provider,
+          signal: controller.signal,
+          onText: (delta) => {
+            deltas.push(delta);
+            controller.abort();
+          },
+        })
+      ).rejects.toBeInstanceOf(AICancelledError);
+      expect(deltas).toEqual(['a fa']);
+      expect(provider.calls).toHaveLength(1);
+    });
+  });
+
+  describe('streamJson', () => {
+    it('reports the object as it grows and returns the full parse', async () => {
+      const answer = JSON.stringify({
+        summary: 'A summary long enough to arrive across several partial parses of the stream.',
+        steps: ['first step of the plan', 'second step of the plan', 'third step of the plan'],
+      });
+      const provider = createFakeProvider(answer, { chunkSize: 10 });
+      const partials: Record<string, unknown>[] = [];
+      const { data } = await streamJson({ ...baseOptions, provider, onPartial: (partial) => partials.push(partial) });
+
+      expect(data).toEqual(JSON.parse(answer));
+      expect(partials.length).toBeGreaterThan(1);
+      expect(typeof partials[0].summary).toBe('string');
+      expect(partials[partials.length - 1]).toEqual(data);
+      expect(provider.calls[0].json).toBe(true);
+    });
+  });
+
+  describe('parseJsonResponse', () => {
+    it('parses fenced and surrounded JSON', () => {
+      expect(parseJsonResponse('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+      expect(parseJsonResponse('Here you go: {"a":{"b":2}} Hope that helps')).toEqual({ a: { b: 2 } });
+    });
+
+    it('throws on non-JSON output', () => {
+      expect(() => parseJsonResponse('no json here')).toThrow('AI response was not valid JSON.');
+    });
+  });
+});
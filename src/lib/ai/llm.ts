@@ -0,0 +1,424 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ValidationError, logError } from '@/lib/errors';
+import { LLM_PROVIDER_LABELS } from '@/lib/constants';
+import { createAnthropicProvider, createOpenAICompatibleProvider } from './providers';
+import { assertWithinBudget, estimateTokens, recordAIUsage, type AIUsageMeter } from './usage';
+import { parsePartialJson } from './partialJson';
+import type { AIOperation, LLMMessage, LLMProvider, LLMProviderId, LLMRequest, LLMResult } from '@/types/ai';
+
+export const LLM_PROVIDER_IDS: LLMProviderId[] = ['openai', 'anthropic', 'local'];
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4.1-mini';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+/** Local models on modest hardware can take minutes for a long PRD */
+const DEFAULT_LOCAL_TIMEOUT_MS = 180_000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+const JSON_ONLY_INSTRUCTION = 'Respond with a single valid JSON object only. No markdown fences or commentary.';
+
+/** Env suffix for per-operation overrides, e.g. AI_PROVIDER_IMPORT_DETAILS */
+const OPERATION_ENV_KEYS: Record<AIOperation, string> = {
+  import: 'IMPORT',
+  importDetails: 'IMPORT_DETAILS',
+  enhance: 'ENHANCE',
+  wizard: 'WIZARD',
+  breakdown: 'BREAKDOWN',
+  plan: 'PLAN',
+  specFix: 'SPEC_FIX',
+  chat: 'CHAT',
+};
+
+export class AITimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`AI request timed out after ${Math.round(timeoutMs / 1000)}s.`);
+    this.name = 'AITimeoutError';
+  }
+}
+
+export class AICancelledError extends Error {
+  constructor() {
+    super('AI request was cancelled.');
+    this.name = 'AICancelledError';
+  }
+}
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === 'string' && (LLM_PROVIDER_IDS as string[]).includes(value);
+}
+
+function readProviderEnv(name: string): LLMProviderId | null {
+  const value = process.env[name]?.trim().toLowerCase();
+  return isLLMProviderId(value) ? value : null;
+}
+
+export function isProviderConfigured(id: LLMProviderId): boolean {
+  switch (id) {
+    case 'openai':
+      return Boolean(process.env.OPENAI_API_KEY);
+    case 'anthropic':
+      return Boolean(process.env.ANTHROPIC_API_KEY);
+    case 'local':
+      return Boolean(process.env.LOCAL_LLM_BASE_URL);
+  }
+}
+
+export function getAvailableProviders(): LLMProviderId[] {
+  return LLM_PROVIDER_IDS.filter(isProviderConfigured);
+}
+
+/** Server-wide default: AI_PROVIDER, else OpenAI */
+export function getDefaultProviderId(): LLMProviderId {
+  return readProviderEnv('AI_PROVIDER') ?? 'openai';
+}
+
+/**
+ * Provider for one AI operation. An operator override (AI_PROVIDER_<OP>)
+ * wins, then the user's saved preference when this server has it
+ * configured, then the server default. AI_USE_CLAUDE_FOR_IMPORT is still
+ * honoured for PRD detail extraction.
+ */
+export function resolveProviderId(operation: AIOperation, preferred?: LLMProviderId | null): LLMProviderId {
+  const forced = readProviderEnv(`AI_PROVIDER_${OPERATION_ENV_KEYS[operation]}`);
+  if (forced) return forced;
+
+  if (
+    operation === 'importDetails' &&
+    process.env.AI_USE_CLAUDE_FOR_IMPORT === 'true' &&
+    isProviderConfigured('anthropic')
+  ) {
+    return 'anthropic';
+  }
+
+  if (preferred && isProviderConfigured(preferred)) return preferred;
+  return getDefaultProviderId();
+}
+
+/** Accepts the shorthand OpenAI model names used in older env files */
+export function normalizeModel(model: string): string {
+  const trimmed = model.trim();
+  if (!trimmed) return DEFAULT_OPENAI_MODEL;
+  if (trimmed === '4.1-mini') return 'gpt-4.1-mini';
+  if (trimmed === '4.1') return 'gpt-4.1';
+  return trimmed;
+}
+
+/**
+ * Model for an operation on a provider. AI_MODEL_<OP> applies only together
+ * with an AI_PROVIDER_<OP> override, so a user switching providers never
+ * gets another vendor's model name.
+ */
+export function getModelFor(operation: AIOperation, providerId: LLMProviderId): string {
+  const key = OPERATION_ENV_KEYS[operation];
+  const operationModel = process.env[`AI_MODEL_${key}`];
+  if (operationModel && readProviderEnv(`AI_PROVIDER_${key}`) === providerId) {
+    return providerId === 'openai' ? normalizeModel(operationModel) : operationModel.trim();
+  }
+
+  switch (providerId) {
+    case 'openai': {
+      const wizardModel = operation === 'wizard' || operation === 'breakdown' ? process.env.OPENAI_WIZARD_MODEL : undefined;
+      return normalizeModel(wizardModel || process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL);
+    }
+    case 'anthropic':
+      return process.env.ANTHROPIC_MODEL?.trim() || DEFAULT_ANTHROPIC_MODEL;
+    case 'local':
+      return process.env.LOCAL_LLM_MODEL?.trim() || DEFAULT_LOCAL_MODEL;
+  }
+}
+
+/** Whether the provider this operation would use is configured */
+export function isAIAvailable(operation: AIOperation, preferred?: LLMProviderId | null): boolean {
+  return isProviderConfigured(resolveProviderId(operation, preferred));
+}
+
+const providers = new Map<LLMProviderId, LLMProvider>();
+
+export function getProvider(id: LLMProviderId): LLMProvider {
+  if (!isProviderConfigured(id)) {
+    throw new ValidationError(`AI provider "${LLM_PROVIDER_LABELS[id]}" is not configured.`);
+  }
+
+  let provider = providers.get(id);
+  if (!provider) {
+    if (id === 'openai') {
+      provider = createOpenAICompatibleProvider({ id, apiKey: process.env.OPENAI_API_KEY! });
+    } else if (id === 'anthropic') {
+      provider = createAnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY! });
+    } else {
+      provider = createOpenAICompatibleProvider({
+        id,
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        // Ollama and llama.cpp ignore the key but the SDK requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        supportsJsonMode: process.env.LOCAL_LLM_JSON_MODE !== 'false',
+      });
+    }
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+function getStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const status = (error as { status?: unknown }).status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+export function isQuotaError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  if (getStatus(error) === 429) return true;
+  const message = (error as { message?: string }).message || '';
+  return message.includes('quota') || message.includes('429');
+}
+
+/** Timeouts, dropped connections, rate limits and server errors are worth another try; quota and 4xx are not */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AITimeoutError) return true;
+  if (!error || typeof error !== 'object') return false;
+
+  const status = getStatus(error);
+  if (status === 429) {
+    const message = (error as { message?: string }).message || '';
+    return !message.includes('quota');
+  }
+  if (status !== undefined) return status === 408 || status === 409 || status >= 500;
+  return (error as { name?: string }).name === 'APIConnectionError';
+}
+
+/** Parses a model's JSON answer, tolerating markdown fences and stray text around the object */
+export function parseJsonResponse(text: string): Record<string, unknown> {
+  const cleaned = text.replace(/```json/gi, '').replace(/```/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(cleaned.slice(start, end + 1));
+      } catch {
+        // fall through to the error below
+      }
+    }
+    throw new Error('AI response was not valid JSON.');
+  }
+}
+
+function withJsonInstruction(messages: LLMMessage[]): LLMMessage[] {
+  const systemIndex = messages.findIndex((m) => m.role === 'system');
+  if (systemIndex < 0) return [{ role: 'system', content: JSON_ONLY_INSTRUCTION }, ...messages];
+  return messages.map((m, i) => (i === systemIndex ? { ...m, content: `${m.content}\n\n${JSON_ONLY_INSTRUCTION}` } : m));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Re-parse a streaming JSON answer only after this many new characters */
+const PARTIAL_PARSE_INTERVAL_CHARS = 80;
+
+export interface GenerateOptions {
+  operation: AIOperation;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  json?: boolean;
+  /** The user's saved provider preference */
+  preferredProvider?: LLMProviderId | null;
+  /** Use this provider instead of resolving one (tests pass a fake provider) */
+  provider?: LLMProvider;
+  model?: string;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  /** Who to bill; when set the call is checked against the monthly budget and recorded */
+  meter?: AIUsageMeter;
+  /** Aborts the call for good: no retry, rejects with AICancelledError */
+  signal?: AbortSignal;
+}
+
+interface PreparedCall {
+  provider: LLMProvider;
+  request: Omit<LLMRequest, 'signal'>;
+}
+
+async function prepareCall(options: GenerateOptions): Promise<PreparedCall> {
+  const provider = options.provider ?? getProvider(resolveProviderId(options.operation, options.preferredProvider));
+  if (options.meter) {
+    await assertWithinBudget(options.meter, provider.id);
+  }
+
+  return {
+    provider,
+    request: {
+      model: options.model ?? getModelFor(options.operation, provider.id),
+      messages: options.json && !provider.supportsJsonMode ? withJsonInstruction(options.messages) : options.messages,
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      json: options.json,
+    },
+  };
+}
+
+/**
+ * Runs attempts with a per-attempt timeout and exponential-backoff retries
+ * on transient errors, for as long as `canRetry` allows.
+ */
+async function runWithRetries(
+  options: GenerateOptions,
+  provider: LLMProvider,
+  attempt: (signal: AbortSignal) => Promise<LLMResult>,
+  canRetry: () => boolean = () => true
+): Promise<LLMResult> {
+  const timeoutMs =
+    options.timeoutMs ??
+    (Number(process.env.AI_REQUEST_TIMEOUT_MS) ||
+      (provider.id === 'local' ? DEFAULT_LOCAL_TIMEOUT_MS : DEFAULT_TIMEOUT_MS));
+  const retries = options.retries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? RETRY_BASE_DELAY_MS;
+
+  for (let n = 0; ; n++) {
+    if (options.signal?.aborted) throw new AICancelledError();
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener('abort', cancel);
+    const timer = setTimeout(cancel, timeoutMs);
+    try {
+      const result = await attempt(controller.signal);
+      if (!result.text) {
+        throw new Error('AI request failed to produce output.');
+      }
+      return result;
+    } catch (error) {
+      if (options.signal?.aborted) throw new AICancelledError();
+      const failure = controller.signal.aborted ? new AITimeoutError(timeoutMs) : error;
+      if (n >= retries || !isRetryableError(failure) || !canRetry()) throw failure;
+      logError(failure, { action: 'generateText:retry', operation: options.operation, provider: provider.id, attempt: n });
+      await sleep(retryDelayMs * 2 ** n);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
+
+/** Records a metered call, estimating tokens when the provider reported none */
+async function meterResult(options: GenerateOptions, messages: LLMMessage[], result: LLMResult): Promise<void> {
+  if (!options.meter) return;
+  const usage = result.usage ?? {
+    inputTokens: estimateTokens(messages.map((m) => m.content).join('\n')),
+    outputTokens: estimateTokens(result.text),
+  };
+  await recordAIUsage(options.meter, options.operation, result, usage);
+}
+
+/**
+ * Runs one completion on the provider resolved for the operation, with a
+ * per-attempt timeout and exponential-backoff retries on transient errors.
+ * Metered calls are refused once the user's monthly budget is spent and
+ * recorded on success.
+ */
+export async function generateText(options: GenerateOptions): Promise<LLMResult> {
+  const { provider, request } = await prepareCall(options);
+  const result = await runWithRetries(options, provider, (signal) => provider.complete({ ...request, signal }));
+  await meterResult(options, request.messages, result);
+  return result;
+}
+
+/** `generateText` in JSON mode, returning the parsed object alongside the raw result */
+export async function generateJson(
+  options: Omit<GenerateOptions, 'json'>
+): Promise<{ data: Record<string, unknown>; result: LLMResult }> {
+  const result = await generateText({ ...options, json: true });
+  return { data: parseJsonResponse(result.text), result };
+}
+
+/**
+ * `generateText` that reports output as it is produced. A failed attempt is
+ * retried only if nothing has been emitted yet; providers without streaming
+ * deliver the whole answer as one delta. A cancelled stream still records
+ * the estimated tokens already produced.
+ */
+export async function streamText(
+  options: GenerateOptions & { onText: (delta: string) => void }
+): Promise<LLMResult> {
+  const { provider, request } = await prepareCall(options);
+  let emitted = '';
+  const onText = (delta: string) => {
+    emitted += delta;
+    options.onText(delta);
+  };
+
+  try {
+    const result = await runWithRetries(
+      options,
+      provider,
+      async (signal) => {
+        if (provider.stream) return provider.stream({ ...request, signal }, onText);
+        const result = await provider.complete({ ...request, signal });
+        onText(result.text);
+        return result;
+      },
+      () => emitted.length === 0
+    );
+    await meterResult(options, request.messages, result);
+    return result;
+  } catch (error) {
+    if (error instanceof AICancelledError && emitted) {
+      await meterResult(options, request.messages, {
+        text: emitted,
+        provider: provider.id,
+        model: request.model,
+        usage: null,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * `streamText` in JSON mode. `onPartial` receives the object parsed so far
+ * whenever it has grown; the full parse is returned at the end.
+ */
+export async function streamJson(
+  options: Omit<GenerateOptions, 'json'> & { onPartial: (data: Record<string, unknown>) => void }
+): Promise<{ data: Record<string, unknown>; result: LLMResult }> {
+  let text = '';
+  let parsedLength = 0;
+  let lastPartial = '';
+  const emitPartial = () => {
+    parsedLength = text.length;
+    const partial = parsePartialJson(text);
+    if (!partial) return;
+    const serialized = JSON.stringify(partial);
+    if (serialized === lastPartial) return;
+    lastPartial = serialized;
+    options.onPartial(partial);
+  };
+
+  const result = await streamText({
+    ...options,
+    json: true,
+    onText: (delta) => {
+      text += delta;
+      if (text.length - parsedLength >= PARTIAL_PARSE_INTERVAL_CHARS) emitPartial();
+    },
+  });
+  const data = parseJsonResponse(result.text);
+  const serialized = JSON.stringify(data);
+  if (serialized !== lastPartial) options.onPartial(data);
+  return { data, result };
+}
+
+/** The provider a user picked in their settings; null when unset or unreadable */
+export async function getUserAIProvider(supabase: SupabaseClient, userId: string): Promise<LLMProviderId | null> {
+  const { data, error } = await supabase.from('profiles').select('ai_provider').eq('id', userId).maybeSingle();
+  if (error) {
+    // A missing preference must never block AI features
+    logError(error, { action: 'getUserAIProvider', userId });
+    return null;
+  }
+  return isLLMProviderId(data?.ai_provider) ? data.ai_provider : null;
+}
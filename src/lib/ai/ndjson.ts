@@ -0,0 +1,67 @@
+/**
+ * Newline-delimited JSON streams for the AI routes: one JSON event per line,
+ * written by the route as work progresses and read by the client as it
+ * arrives.
+ */
+
+type StreamEvent = { type: string };
+
+/**
+ * Streams the events `run` sends. An error thrown by `run` becomes a final
+ * `{ type: 'error' }` event; the stream closes when `run` settles.
+ */
+export function createNdjsonResponse<T extends StreamEvent>(
+  run: (send: (event: T) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const send = (event: T) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          // The client went away; keep running so completed work is still recorded
+          open = false;
+        }
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        send({ type: 'error', error: error instanceof Error ? error.message : 'AI request failed.' } as unknown as T);
+      } finally {
+        if (open) controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
+
+/** Calls `onEvent` for each event of an NDJSON response body, in order */
+export async function readNdjson<T>(response: Response, onEvent: (event: T) => void): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as T);
+    }
+    if (done) break;
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer) as T);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseEnhancementTarget,
+  parseFeatureEnhancement,
+  selectEnhancementProposals,
+  selectEnhancementUpdates,
+} from './nodeEnhancement';
+
+describe('nodeEnhancement', () => {
+  describe('selectEnhancementUpdates', () => {
+    const original = { featureName: 'Login', summary: 'Existing summary', problem: '', acceptanceCriteria: [] };
+
+    it('fills empty main fields, keeps filled ones and always replaces AI fields', () => {
+      const updates = selectEnhancementUpdates('feature', original, {
+        summary: 'New summary',
+        problem: 'Users cannot sign in',
+        acceptanceCriteria: ['Shows errors'],
+        aiContext: 'Use server actions',
+        technicalConstraints: 'RLS on profiles',
+      });
+
+      expect(updates).toEqual({
+        problem: 'Users cannot sign in',
+        acceptanceCriteria: ['Shows errors'],
+        aiContext: 'Use server actions',
+        technicalConstraints: 'RLS on profiles',
+      });
+    });
+
+    it('leaves out fields the model has not produced yet', () => {
+      expect(selectEnhancementUpdates('feature', original, { problem: 'Users can' })).toEqual({ problem: 'Users can' });
+      expect(selectEnhancementUpdates('screen', { screenName: 'Home' }, { purpose: '' })).toEqual({});
+    });
+
+    it('judges emptiness against the node before enhancement, not the streamed value', () => {
+      const first = selectEnhancementUpdates('screen', { screenName: 'Home', purpose: '' }, { purpose: 'Ove' });
+      const later = selectEnhancementUpdates('screen', { screenName: 'Home', purpose: '' }, { purpose: 'Overview' });
+      expect(first).toEqual({ purpose: 'Ove' });
+      expect(later).toEqual({ purpose: 'Overview' });
+    });
+  });
+
+  describe('selectEnhancementProposals', () => {
+    it('proposes every produced field, including ones the node already has', () => {
+      expect(
+        selectEnhancementProposals('feature', { summary: 'New summary', problem: '', aiContext: 'Use server actions' })
+      ).toEqual({ summary: 'New summary', aiContext: 'Use server actions' });
+    });
+  });
+
+  describe('parseFeatureEnhancement', () => {
+    it('clamps lengths and ignores non-string list items', () => {
+      const parsed = parseFeatureEnhancement({
+        summary: 'x'.repeat(500),
+        implementationSteps: ['step', 42, null, 'next'],
+      });
+      expect(parsed.summary).toHaveLength(400);
+      expect(parsed.implementationSteps).toEqual(['step', 'next']);
+      expect(parsed.relatedFiles).toEqual([]);
+    });
+  });
+
+  describe('parseEnhancementTarget', () => {
+    it('accepts named features and screens', () => {
+      expect(parseEnhancementTarget({ kind: 'feature', input: { featureName: ' Login ', acceptanceCriteria: ['a', 1] } }))
+        .toMatchObject({ kind: 'feature', input: { featureName: 'Login', acceptanceCriteria: ['a'] } });
+      expect(parseEnhancementTarget({ kind: 'screen', input: { screenName: 'Home' } })).toMatchObject({
+        kind: 'screen',
+        input: { screenName: 'Home', keyElements: [] },
+      });
+    });
+
+    it('rejects unknown kinds and unnamed nodes', () => {
+      expect(parseEnhancementTarget({ kind: 'idea', input: { featureName: 'x' } })).toBeNull();
+      expect(parseEnhancementTarget({ kind: 'feature', input: { featureName: '  ' } })).toBeNull();
+      expect(parseEnhancementTarget(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import type { LLMMessage } from '@/types/ai';
+
+export type EnhanceableNodeKind = 'feature' | 'screen';
+
+export const ENHANCEMENT_MAX_OUTPUT_TOKENS = 2000;
+
+export interface FeatureEnhancementInput {
+  featureName: string;
+  summary?: string;
+  problem?: string;
+  userStory?: string;
+  acceptanceCriteria?: string[];
+  technicalConstraints?: string;
+}
+
+export interface ScreenEnhancementInput {
+  screenName: string;
+  purpose?: string;
+  keyElements?: string[];
+  userActions?: string[];
+  states?: string[];
+}
+
+export type EnhancementTarget =
+  | { kind: 'feature'; input: FeatureEnhancementInput }
+  | { kind: 'screen'; input: ScreenEnhancementInput };
+
+export interface EnhancedFeatureAIContext {
+  summary: string;
+  problem: string;
+  userStory: string;
+  acceptanceCriteria: string[];
+  dependencies: string[];
+  risks: string;
+  metrics: string;
+  aiContext: string;
+  implementationSteps: string[];
+  codeReferences: string[];
+  testingRequirements: string;
+  relatedFiles: string[];
+  technicalConstraints: string;
+}
+
+export interface EnhancedScreenAIContext {
+  purpose: string;
+  keyElements: string[];
+  userActions: string[];
+  states: string[];
+  navigation: string;
+  dataSources: string[];
+  aiContext: string;
+  componentHierarchy: string[];
+  testingRequirements: string;
+  codeReferences: string[];
+}
+
+const FEATURE_SYSTEM_PROMPT =
+  'You are a Next.js and Supabase expert helping solo developers plan feature implementation. Generate detailed, actionable guidance using Next.js 15 App Router conventions, TypeScript, Tailwind CSS, and Supabase best practices. Provide specific file paths following Next.js App Router structure.';
+
+const SCREEN_SYSTEM_PROMPT =
+  'You are a Next.js and React expert helping solo developers plan UI implementation. Generate component structures using Next.js 15 App Router, React Server Components, TypeScript, and Tailwind CSS. Provide specific file paths following Next.js conventions (/app routes, /components structure).';
+
+/** Fields filled only when the node's current value is empty */
+const FILL_IF_EMPTY_FIELDS: Record<EnhanceableNodeKind, string[]> = {
+  feature: ['summary', 'problem', 'userStory', 'risks', 'metrics', 'acceptanceCriteria', 'dependencies'],
+  screen: ['purpose', 'navigation', 'keyElements', 'userActions', 'states', 'dataSources'],
+};
+
+/** AI-specific fields, always replaced by a new enhancement */
+const AI_FIELDS: Record<EnhanceableNodeKind, string[]> = {
+  feature: ['aiContext', 'implementationSteps', 'codeReferences', 'testingRequirements', 'relatedFiles', 'technicalConstraints'],
+  screen: ['aiContext', 'componentHierarchy', 'codeReferences', 'testingRequirements'],
+};
+
+export function buildFeatureEnhancementMessages(input: FeatureEnhancementInput): LLMMessage[] {
+  return [
+    { role: 'system', content: FEATURE_SYSTEM_PROMPT },
+    { role: 'user', content: buildFeatureEnhancementPrompt(input) },
+  ];
+}
+
+export function buildScreenEnhancementMessages(input: ScreenEnhancementInput): LLMMessage[] {
+  return [
+    { role: 'system', content: SCREEN_SYSTEM_PROMPT },
+    { role: 'user', content: buildScreenEnhancementPrompt(input) },
+  ];
+}
+
+function buildFeatureEnhancementPrompt(input: FeatureEnhancementInput): string {
+  return [
+    '=== FEATURE TO ENHANCE ===',
+    `Feature Name: ${input.featureName}`,
+    input.summary ? `Summary: ${input.summary}` : null,
+    input.problem ? `Problem: ${input.problem}` : null,
+    input.userStory ? `User Story: ${input.userStory}` : null,
+    input.acceptanceCriteria?.length
+      ? `Acceptance Criteria:\n${input.acceptanceCriteria.map((c) => `  - ${c}`).join('\n')}`
+      : null,
+    input.technicalConstraints ? `Constraints: ${input.technicalConstraints}` : null,
+    '',
+    '=== GENERATE FEATURE DETAILS ===',
+    '',
+    '=== TECH STACK CONTEXT ===',
+    '- Framework: Next.js 15 with App Router (/app directory structure)',
+    '- Database: Supabase (PostgreSQL with built-in Auth, Storage, Realtime)',
+    '- Styling: Tailwind CSS',
+    '- Language: TypeScript',
+    '- Deployment: Vercel',
+    '',
+    'Based on this feature, generate comprehensive details to fill in the feature card:',
+    '',
+    '1. SUMMARY (1-2 sentences): Concise description of what this feature does.',
+    '',
+    '2. PROBLEM (1-2 sentences): What user pain point or gap does this solve?',
+    '',
+    '3. USER STORY (1 sentence): "As a [user], I want [goal] so that [benefit]"',
+    '',
+    '4. ACCEPTANCE CRITERIA (3-5 items): Specific conditions that must be met.',
+    '',
+    '5. DEPENDENCIES (1-4 items): Other features, services, or systems this depends on.',
+    '',
+    '6. RISKS (1-2 sentences): Potential issues or unknowns.',
+    '',
+    '7. METRICS (1-2 sentences): How will success be measured?',
+    '',
+    '8. AI CONTEXT (2-3 sentences):',
+    '   - Next.js App Router patterns to use (Server Components, Server Actions, Route Handlers)',
+    '   - Supabase integration approach (auth, database, storage)',
+    '   - Key technical considerations',
+    '',
+    '9. IMPLEMENTATION STEPS (5-8 steps):',
+    '   - Use Next.js 15 conventions: /app/[feature]/page.tsx, /app/api/[feature]/route.ts',
+    '   - Include specific file paths',
+    '',
+    '10. CODE REFERENCES (3-5 items): Relevant patterns, libraries, or existing code.',
+    '',
+    '11. TESTING REQUIREMENTS (2-3 sentences): What needs testing and edge cases.',
+    '',
+    '12. RELATED FILES (3-6 file paths): Next.js App Router file paths to create/modify.',
+    '',
+    '13. TECHNICAL CONSTRAINTS (1-2 sentences): Platform limitations, performance, RLS policies.',
+    '',
+    'OUTPUT FORMAT (JSON):',
+    '{',
+    '  "summary": string,',
+    '  "problem": string,',
+    '  "userStory": string,',
+    '  "acceptanceCriteria": string[],',
+    '  "dependencies": string[],',
+    '  "risks": string,',
+    '  "metrics": string,',
+    '  "aiContext": string,',
+    '  "implementationSteps": string[],',
+    '  "codeReferences": string[],',
+    '  "testingRequirements": string,',
+    '  "relatedFiles": string[],',
+    '  "technicalConstraints": string',
+    '}',
+    '',
+    'Return ONLY valid JSON, no markdown or explanatory text.',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function buildScreenEnhancementPrompt(input: ScreenEnhancementInput): string {
+  return [
+    '=== SCREEN TO ENHANCE ===',
+    `Screen Name: ${input.screenName}`,
+    input.purpose ? `Purpose: ${input.purpose}` : null,
+    input.keyElements?.length ? `Key Elements:\n${input.keyElements.map((e) => `  - ${e}`).join('\n')}` : null,
+    input.userActions?.length ? `User Actions:\n${input.userActions.map((a) => `  - ${a}`).join('\n')}` : null,
+    input.states?.length ? `States:\n${input.states.map((s) => `  - ${s}`).join('\n')}` : null,
+    '',
+    '=== GENERATE SCREEN DETAILS ===',
+    '',
+    'Based on this screen, generate comprehensive details to fill in the screen card:',
+    '',
+    '1. PURPOSE (1-2 sentences): What is this screen for?',
+    '',
+    '2. KEY ELEMENTS (4-8 items): Major UI components on this screen.',
+    '',
+    '3. USER ACTIONS (3-6 items): What can users do on this screen?',
+    '',
+    '4. STATES (2-4 items): Different screen states (e.g., empty, loading, error, success).',
+    '',
+    '5. NAVIGATION (1-2 sentences): How users get to/from this screen.',
+    '',
+    '6. DATA SOURCES (2-4 items): APIs, stores, or data this screen needs.',
+    '',
+    '7. AI CONTEXT (2-3 sentences): Component architecture, state management, accessibility.',
+    '',
+    '8. COMPONENT HIERARCHY (5-8 components): React component tree structure.',
+    '',
+    '9. CODE REFERENCES (3-5 items): Relevant patterns, libraries, or existing components.',
+    '',
+    '10. TESTING REQUIREMENTS (2-3 sentences): User interaction and accessibility tests.',
+    '',
+    'OUTPUT FORMAT (JSON):',
+    '{',
+    '  "purpose": string,',
+    '  "keyElements": string[],',
+    '  "userActions": string[],',
+    '  "states": string[],',
+    '  "navigation": string,',
+    '  "dataSources": string[],',
+    '  "aiContext": string,',
+    '  "componentHierarchy": string[],',
+    '  "codeReferences": string[],',
+    '  "testingRequirements": string',
+    '}',
+    '',
+    'Return ONLY valid JSON, no markdown or explanatory text.',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function text(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.slice(0, maxLength) : '';
+}
+
+function list(value: unknown, maxItems: number, maxLength: number): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((item): item is string => typeof item === 'string')
+        .slice(0, maxItems)
+        .map((item) => item.slice(0, maxLength))
+    : [];
+}
+
+/** Validates an enhancement request body; null when it names no node to enhance */
+export function parseEnhancementTarget(value: unknown): EnhancementTarget | null {
+  if (!value || typeof value !== 'object') return null;
+  const { kind, input } = value as { kind?: unknown; input?: Record<string, unknown> };
+  if (!input || typeof input !== 'object') return null;
+
+  if (kind === 'feature') {
+    const featureName = text(input.featureName, 200).trim();
+    if (!featureName) return null;
+    return {
+      kind,
+      input: {
+        featureName,
+        summary: text(input.summary, 2000),
+        problem: text(input.problem, 2000),
+        userStory: text(input.userStory, 2000),
+        acceptanceCriteria: list(input.acceptanceCriteria, 20, 500),
+        technicalConstraints: text(input.technicalConstraints, 2000),
+      },
+    };
+  }
+
+  if (kind === 'screen') {
+    const screenName = text(input.screenName, 200).trim();
+    if (!screenName) return null;
+    return {
+      kind,
+      input: {
+        screenName,
+        purpose: text(input.purpose, 2000),
+        keyElements: list(input.keyElements, 20, 500),
+        userActions: list(input.userActions, 20, 500),
+        states: list(input.states, 20, 500),
+      },
+    };
+  }
+
+  return null;
+}
+
+export function parseFeatureEnhancement(parsed: Record<string, unknown>): EnhancedFeatureAIContext {
+  return {
+    summary: text(parsed.summary, 400),
+    problem: text(parsed.problem, 400),
+    userStory: text(parsed.userStory, 400),
+    acceptanceCriteria: list(parsed.acceptanceCriteria, 10, 200),
+    dependencies: list(parsed.dependencies, 8, 200),
+    risks: text(parsed.risks, 400),
+    metrics: text(parsed.metrics, 400),
+    aiContext: text(parsed.aiContext, 500),
+    implementationSteps: list(parsed.implementationSteps, 10, 200),
+    codeReferences: list(parsed.codeReferences, 8, 200),
+    testingRequirements: text(parsed.testingRequirements, 400),
+    relatedFiles: list(parsed.relatedFiles, 10, 150),
+    technicalConstraints: text(parsed.technicalConstraints, 400),
+  };
+}
+
+export function parseScreenEnhancement(parsed: Record<string, unknown>): EnhancedScreenAIContext {
+  return {
+    purpose: text(parsed.purpose, 400),
+    keyElements: list(parsed.keyElements, 10, 200),
+    userActions: list(parsed.userActions, 10, 200),
+    states: list(parsed.states, 8, 200),
+    navigation: text(parsed.navigation, 400),
+    dataSources: list(parsed.dataSources, 8, 200),
+    aiContext: text(parsed.aiContext, 500),
+    componentHierarchy: list(parsed.componentHierarchy, 10, 200),
+    codeReferences: list(parsed.codeReferences, 8, 200),
+    testingRequirements: text(parsed.testingRequirements, 400),
+  };
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Node data updates for an enhancement, complete or still streaming. Main
+ * fields are filled only where `original` (the node before enhancement
+ * started) was empty; AI fields are always replaced. Fields the model has
+ * not produced yet are left out.
+ */
+export function selectEnhancementUpdates(
+  kind: EnhanceableNodeKind,
+  original: Record<string, unknown>,
+  enhancement: Record<string, unknown>
+): Record<string, unknown> {
+  const parsed: Record<string, unknown> = {
+    ...(kind === 'feature' ? parseFeatureEnhancement(enhancement) : parseScreenEnhancement(enhancement)),
+  };
+  const updates: Record<string, unknown> = {};
+
+  for (const key of FILL_IF_EMPTY_FIELDS[kind]) {
+    if (key in enhancement && !isEmptyValue(parsed[key]) && isEmptyValue(original[key])) {
+      updates[key] = parsed[key];
+    }
+  }
+  for (const key of AI_FIELDS[kind]) {
+    if (key in enhancement) updates[key] = parsed[key];
+  }
+  return updates;
+}
+
+/**
+ * Every non-empty field of an enhancement, complete or still streaming,
+ * including main fields the node already has. Used to propose improvements
+ * for review; selectEnhancementUpdates decides which are preselected.
+ */
+export function selectEnhancementProposals(
+  kind: EnhanceableNodeKind,
+  enhancement: Record<string, unknown>
+): Record<string, unknown> {
+  const parsed: Record<string, unknown> = {
+    ...(kind === 'feature' ? parseFeatureEnhancement(enhancement) : parseScreenEnhancement(enhancement)),
+  };
+  const proposals: Record<string, unknown> = {};
+
+  for (const key of [...FILL_IF_EMPTY_FIELDS[kind], ...AI_FIELDS[kind]]) {
+    if (key in enhancement && !isEmptyValue(parsed[key])) proposals[key] = parsed[key];
+  }
+  return proposals;
+}
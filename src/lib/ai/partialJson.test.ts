@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('returns null before the object starts', () => {
+    expect(parsePartialJson('')).toBeNull();
+    expect(parsePartialJson('```json\n')).toBeNull();
+  });
+
+  it('parses complete objects, including fenced ones', () => {
+    expect(parsePartialJson('{"a":1,"b":[true]}')).toEqual({ a: 1, b: [true] });
+    expect(parsePartialJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('returns a string value truncated while it is being written', () => {
+    expect(parsePartialJson('{"summary":"Lets users sig')).toEqual({ summary: 'Lets users sig' });
+  });
+
+  it('keeps finished array items and the one being written', () => {
+    expect(parsePartialJson('{"steps":["one","tw')).toEqual({ steps: ['one', 'tw'] });
+    expect(parsePartialJson('{"steps":["one",')).toEqual({ steps: ['one'] });
+  });
+
+  it('drops half-written keys, numbers and literals', () => {
+    expect(parsePartialJson('{"a":"x","b')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a":"x","b":')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a":"x","n":12')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a":"x","ok":tr')).toEqual({ a: 'x' });
+  });
+
+  it('handles nested objects and escapes', () => {
+    expect(parsePartialJson('{"a":{"b":"say \\"hi\\"","c":[1,2]},"d":"e\\')).toEqual({
+      a: { b: 'say "hi"', c: [1, 2] },
+      d: 'e',
+    });
+  });
+});
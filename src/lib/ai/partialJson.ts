@@ -0,0 +1,97 @@
+interface Frame {
+  close: '}' | ']';
+  /** Inside an object: the next string is a key */
+  expectKey: boolean;
+}
+
+function closersFor(stack: Frame[]): string {
+  return stack
+    .map((frame) => frame.close)
+    .reverse()
+    .join('');
+}
+
+function tryParseObject(candidate: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(candidate);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Best-effort parse of a JSON object that is still streaming in. Completed
+ * fields are returned as-is, a string value being written is returned
+ * truncated, and anything else unfinished (a half-written key, number or
+ * literal) is dropped. Returns null until the opening brace has arrived.
+ */
+export function parsePartialJson(text: string): Record<string, unknown> | null {
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+  const source = text.slice(start);
+
+  const complete = tryParseObject(source.replace(/```\s*$/, '').trim());
+  if (complete) return complete;
+
+  const stack: Frame[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  /** Longest prefix known to close into valid JSON, with its closers */
+  let safe = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (!stringIsKey) safe = source.slice(0, i + 1) + closersFor(stack);
+      }
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    switch (ch) {
+      case '"':
+        inString = true;
+        stringIsKey = top?.close === '}' && top.expectKey;
+        break;
+      case ':':
+        if (top) top.expectKey = false;
+        break;
+      case ',':
+        safe = source.slice(0, i) + closersFor(stack);
+        if (top?.close === '}') top.expectKey = true;
+        break;
+      case '{':
+        stack.push({ close: '}', expectKey: true });
+        safe = source.slice(0, i + 1) + closersFor(stack);
+        break;
+      case '[':
+        stack.push({ close: ']', expectKey: false });
+        safe = source.slice(0, i + 1) + closersFor(stack);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        if (stack.length === 0) return tryParseObject(source.slice(0, i + 1));
+        safe = source.slice(0, i + 1) + closersFor(stack);
+        break;
+    }
+  }
+
+  if (inString && !stringIsKey) {
+    // Close the string being written; drop a dangling escape so it stays valid
+    const body = escaped ? source.slice(0, -1) : source;
+    const partial = tryParseObject(body + '"' + closersFor(stack));
+    if (partial) return partial;
+  }
+
+  return tryParseObject(safe);
+}
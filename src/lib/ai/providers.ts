@@ -0,0 +1,137 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMMessage, LLMProvider, LLMProviderId, LLMRequest, LLMResult } from '@/types/ai';
+
+interface OpenAICompatibleOptions {
+  id: Extract<LLMProviderId, 'openai' | 'local'>;
+  apiKey: string;
+  /** Base URL of an OpenAI-compatible server (Ollama, llama.cpp, vLLM); omit for api.openai.com */
+  baseURL?: string;
+  supportsJsonMode?: boolean;
+}
+
+/**
+ * Chat Completions provider. Serves both OpenAI itself and local
+ * OpenAI-compatible servers such as Ollama (`http://localhost:11434/v1`) or
+ * the llama.cpp server. Retries and timeouts are handled by the caller, so
+ * the SDK's own retries are disabled.
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+  const supportsJsonMode = options.supportsJsonMode ?? true;
+
+  const toParams = (request: LLMRequest) => ({
+    model: request.model,
+    messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+    max_tokens: request.maxTokens,
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.json && supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    id: options.id,
+    supportsJsonMode,
+    complete: async (request) => {
+      const response = await client.chat.completions.create(toParams(request), { signal: request.signal });
+
+      return {
+        text: response.choices[0]?.message?.content?.trim() ?? '',
+        provider: options.id,
+        model: response.model || request.model,
+        usage: response.usage
+          ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+          : null,
+      };
+    },
+    stream: async (request, onText) => {
+      const stream = await client.chat.completions.create(
+        { ...toParams(request), stream: true, stream_options: { include_usage: true } },
+        { signal: request.signal }
+      );
+
+      let text = '';
+      let model = request.model;
+      let usage: LLMResult['usage'] = null;
+      for await (const chunk of stream) {
+        if (chunk.model) model = chunk.model;
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+
+      return { text: text.trim(), provider: options.id, model, usage };
+    },
+  };
+}
+
+type AnthropicTextBlock = { type: 'text'; text: string; cache_control?: { type: 'ephemeral' } };
+
+function toTextBlock(message: LLMMessage): AnthropicTextBlock {
+  return {
+    type: 'text',
+    text: message.content,
+    ...(message.cache ? { cache_control: { type: 'ephemeral' as const } } : {}),
+  };
+}
+
+/**
+ * Anthropic Messages provider. System messages become the `system` prompt,
+ * consecutive messages of the same role are merged into one turn, and
+ * `cache` marks blocks for prompt caching (e.g. a PRD reused across calls).
+ * There is no native JSON mode; the caller asks for JSON in the prompt.
+ */
+export function createAnthropicProvider(options: { apiKey: string }): LLMProvider {
+  const client = new Anthropic({ apiKey: options.apiKey, maxRetries: 0 });
+
+  const toParams = (request: LLMRequest) => {
+    const system = request.messages.filter((m) => m.role === 'system').map(toTextBlock);
+    const turns: { role: 'user' | 'assistant'; content: AnthropicTextBlock[] }[] = [];
+    for (const message of request.messages) {
+      if (message.role === 'system') continue;
+      const last = turns[turns.length - 1];
+      if (last?.role === message.role) {
+        last.content.push(toTextBlock(message));
+      } else {
+        turns.push({ role: message.role, content: [toTextBlock(message)] });
+      }
+    }
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(system.length > 0 ? { system } : {}),
+      messages: turns,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    };
+  };
+
+  const toResult = (response: Anthropic.Message, fallbackModel: string): LLMResult => ({
+    text: response.content
+      .filter((block) => block.type === 'text')
+      .map((block) => ('text' in block ? block.text : ''))
+      .join('\n')
+      .trim(),
+    provider: 'anthropic',
+    model: response.model || fallbackModel,
+    usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+  });
+
+  return {
+    id: 'anthropic',
+    supportsJsonMode: false,
+    complete: async (request) => {
+      const response = await client.messages.create(toParams(request), { signal: request.signal });
+      return toResult(response, request.model);
+    },
+    stream: async (request, onText) => {
+      const stream = client.messages.stream(toParams(request), { signal: request.signal });
+      stream.on('text', onText);
+      return toResult(await stream.finalMessage(), request.model);
+    },
+  };
+}
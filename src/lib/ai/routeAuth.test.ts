@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { assertAllowedOrigin } from './routeAuth';
+import { ValidationError } from '@/lib/errors';
+
+describe('assertAllowedOrigin', () => {
+  it('allows known origins and requests without origin headers', () => {
+    expect(() => assertAllowedOrigin(new Headers({ origin: 'https://spexlyapp.com' }))).not.toThrow();
+    expect(() => assertAllowedOrigin(new Headers({ referer: 'https://www.spexlyapp.com/project/1' }))).not.toThrow();
+    expect(() => assertAllowedOrigin(new Headers())).not.toThrow();
+  });
+
+  it('rejects other origins and unparseable referers', () => {
+    expect(() => assertAllowedOrigin(new Headers({ origin: 'https://evil.example' }))).toThrow(ValidationError);
+    expect(() => assertAllowedOrigin(new Headers({ referer: 'https://evil.example/page' }))).toThrow(ValidationError);
+    expect(() => assertAllowedOrigin(new Headers({ referer: 'not a url' }))).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,75 @@
+import { headers } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { AppError, AuthenticationError, ValidationError, logError } from '@/lib/errors';
+
+const ALLOWED_ORIGINS = [
+  'http://localhost:3000',
+  'http://localhost:3001',
+  'https://spexlyapp.com',
+  'https://www.spexlyapp.com',
+  'https://spexly.vercel.app',
+];
+
+function refererOrigin(referer: string): string | null {
+  try {
+    const url = new URL(referer);
+    return `${url.protocol}//${url.host}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rejects requests from origins outside ALLOWED_ORIGINS, falling back to the
+ * referer when there is no Origin header. Any localhost origin is allowed in
+ * development. Requests with neither header are let through.
+ */
+export function assertAllowedOrigin(headersList: Pick<Headers, 'get'>): void {
+  const origin = headersList.get('origin');
+  const referer = headersList.get('referer');
+
+  if (process.env.NODE_ENV === 'development') {
+    if (origin?.startsWith('http://localhost:') || origin?.startsWith('http://127.0.0.1:')) {
+      return;
+    }
+  }
+
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    logError(new Error('Invalid origin'), { origin, referer });
+    throw new ValidationError('Request origin not allowed');
+  }
+
+  if (!origin && referer) {
+    const fromReferer = refererOrigin(referer);
+    if (!fromReferer || !ALLOWED_ORIGINS.includes(fromReferer)) {
+      logError(new Error('Invalid referer'), { referer });
+      throw new ValidationError('Request referer not allowed');
+    }
+  }
+}
+
+/** Origin check for server actions, against the current request's headers */
+export async function validateOrigin(): Promise<void> {
+  assertAllowedOrigin(await headers());
+}
+
+/** Origin check and session lookup for the AI route handlers */
+export async function authorizeAIRoute(request: Request): Promise<{ supabase: SupabaseClient; userId: string }> {
+  assertAllowedOrigin(request.headers);
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new AuthenticationError('You must be logged in to use AI features.');
+  return { supabase, userId: user.id };
+}
+
+/** JSON error response for failures before a stream has started */
+export function aiRouteErrorResponse(error: unknown, action: string): Response {
+  if (error instanceof AppError) {
+    return Response.json({ error: error.message }, { status: error.statusCode });
+  }
+  logError(error, { action });
+  return Response.json({ error: 'Unexpected error' }, { status: 500 });
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { buildSpecFixRequest, parseSpecFix, parseSpecFixRequest } from './specFix';
+import { lintSpec } from '@/lib/lint/specLinter';
+import type { SpexlyNode } from '@/types/nodes';
+
+function makeNode(id: string, type: SpexlyNode['type'], data: Record<string, unknown>): SpexlyNode {
+  return { id, type, position: { x: 0, y: 0 }, data } as SpexlyNode;
+}
+
+describe('specFix', () => {
+  const nodes = [
+    makeNode('f1', 'feature', {
+      featureName: 'Checkout',
+      summary: 'Pay for a cart',
+      userStory: '',
+      acceptanceCriteria: ['Works'],
+      dependencies: ['Paymnts'],
+      aiContext: 'not sent',
+    }),
+    makeNode('f2', 'feature', { featureName: 'Billing', userStory: '', acceptanceCriteria: [] }),
+  ];
+  const issues = lintSpec(nodes, []).nodes.find((n) => n.nodeId === 'f1')!.issues;
+
+  it('builds requests from the node context, with feature names only for dependency fixes', () => {
+    const story = buildSpecFixRequest(issues.find((i) => i.rule === 'missing-user-story')!, nodes);
+    expect(story).toMatchObject({ field: 'userStory', nodeType: 'feature', featureNames: [] });
+    expect(story?.node).not.toHaveProperty('aiContext');
+    expect(story?.node.summary).toBe('Pay for a cart');
+
+    const dependency = buildSpecFixRequest(issues.find((i) => i.rule === 'unknown-dependency')!, nodes);
+    expect(dependency?.featureNames).toEqual(['Billing']);
+  });
+
+  it('has no request for findings without a field to rewrite', () => {
+    expect(buildSpecFixRequest(issues.find((i) => i.rule === 'feature-without-screen')!, nodes)).toBeNull();
+  });
+
+  it('rejects request bodies for other fields or node types', () => {
+    const base = { rule: 'vague-user-story', nodeType: 'feature', field: 'userStory', message: 'Vague', node: {} };
+    expect(parseSpecFixRequest(base)).not.toBeNull();
+    expect(parseSpecFixRequest({ ...base, field: 'aiContext' })).toBeNull();
+    expect(parseSpecFixRequest({ ...base, nodeType: 'note' })).toBeNull();
+  });
+
+  it('parses the rewritten field in its own shape', () => {
+    expect(parseSpecFix('userStory', { userStory: ' As a buyer, I want... ' })).toEqual({ userStory: 'As a buyer, I want...' });
+    expect(parseSpecFix('states', { states: ['Loading', '', 3, 'Error'] })).toEqual({ states: ['Loading', 'Error'] });
+    expect(parseSpecFix('states', { states: 'Loading' })).toBeNull();
+    expect(parseSpecFix('rationale', {})).toBeNull();
+  });
+});
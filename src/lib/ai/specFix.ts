@@ -0,0 +1,150 @@
+import type { LLMMessage } from '@/types/ai';
+import type { SpexlyNode } from '@/types/nodes';
+import type { SpecIssue, SpecRule } from '@/lib/lint/specLinter';
+
+export const SPEC_FIX_MAX_OUTPUT_TOKENS = 1000;
+
+/** Fields a spec fix may rewrite, and their shape */
+const FIXABLE_FIELDS = {
+  userStory: 'text',
+  acceptanceCriteria: 'list',
+  states: 'list',
+  rationale: 'text',
+  dependencies: 'list',
+} as const;
+
+export type SpecFixField = keyof typeof FIXABLE_FIELDS;
+
+/** Node fields shown to the model as context, per node type */
+const CONTEXT_FIELDS: Record<SpecIssue['nodeType'], string[]> = {
+  feature: ['featureName', 'summary', 'problem', 'userStory', 'acceptanceCriteria', 'dependencies'],
+  screen: ['screenName', 'purpose', 'keyElements', 'userActions', 'states', 'dataSources'],
+  techStack: ['toolName', 'category', 'version', 'notes', 'rationale'],
+};
+
+export interface SpecFixRequest {
+  rule: SpecRule;
+  nodeType: SpecIssue['nodeType'];
+  field: SpecFixField;
+  /** The linter's finding, e.g. "Criterion 2 ... can't be tested" */
+  message: string;
+  node: Record<string, string | string[]>;
+  /** Other feature names, so dependency fixes can point at real features */
+  featureNames: string[];
+}
+
+export function isFixableField(field: string | null): field is SpecFixField {
+  return !!field && Object.hasOwn(FIXABLE_FIELDS, field);
+}
+
+function toContextValue(value: unknown): string | string[] | null {
+  if (typeof value === 'string') return value.slice(0, 2000);
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string').slice(0, 20).map((item) => item.slice(0, 500));
+  }
+  return null;
+}
+
+/** Request body for fixing one finding; null when the finding has no field to rewrite */
+export function buildSpecFixRequest(issue: SpecIssue, nodes: SpexlyNode[]): SpecFixRequest | null {
+  const node = nodes.find((n) => n.id === issue.nodeId);
+  if (!node || !isFixableField(issue.field)) return null;
+
+  const data = node.data as Record<string, unknown>;
+  const context: Record<string, string | string[]> = {};
+  for (const key of CONTEXT_FIELDS[issue.nodeType]) {
+    const value = toContextValue(data[key]);
+    if (value !== null) context[key] = value;
+  }
+
+  return {
+    rule: issue.rule,
+    nodeType: issue.nodeType,
+    field: issue.field,
+    message: issue.message,
+    node: context,
+    featureNames:
+      issue.field === 'dependencies'
+        ? nodes.flatMap((n) => (n.type === 'feature' && n.id !== node.id && n.data.featureName ? [n.data.featureName] : []))
+        : [],
+  };
+}
+
+/** Validates a fix request body from the client */
+export function parseSpecFixRequest(value: unknown): SpecFixRequest | null {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+  if (typeof input.field !== 'string' || !isFixableField(input.field)) return null;
+  if (input.nodeType !== 'feature' && input.nodeType !== 'screen' && input.nodeType !== 'techStack') return null;
+  if (typeof input.rule !== 'string' || typeof input.message !== 'string') return null;
+
+  const node: Record<string, string | string[]> = {};
+  const rawNode = input.node && typeof input.node === 'object' ? (input.node as Record<string, unknown>) : {};
+  for (const key of CONTEXT_FIELDS[input.nodeType]) {
+    const value = toContextValue(rawNode[key]);
+    if (value !== null) node[key] = value;
+  }
+
+  return {
+    rule: input.rule as SpecRule,
+    nodeType: input.nodeType,
+    field: input.field,
+    message: input.message.slice(0, 500),
+    node,
+    featureNames: Array.isArray(input.featureNames)
+      ? input.featureNames.filter((name): name is string => typeof name === 'string').slice(0, 100).map((name) => name.slice(0, 200))
+      : [],
+  };
+}
+
+export function buildSpecFixMessages(request: SpecFixRequest): LLMMessage[] {
+  const shape = FIXABLE_FIELDS[request.field] === 'list' ? 'string[]' : 'string';
+  const current = Object.entries(request.node).map(([key, value]) =>
+    Array.isArray(value) ? `${key}:\n${value.map((item) => `  - ${item}`).join('\n')}` : `${key}: ${value}`
+  );
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You are a product spec reviewer. Rewrite one field of a spec so it is specific and testable, keeping the author\'s intent and everything that was already concrete. Return ONLY valid JSON with no markdown or explanatory text.',
+    },
+    {
+      role: 'user',
+      content: [
+        `=== ${request.nodeType.toUpperCase()} ===`,
+        ...current,
+        '',
+        '=== PROBLEM ===',
+        request.message,
+        request.featureNames.length > 0 ? `\nExisting features: ${request.featureNames.join(', ')}` : null,
+        '',
+        `Rewrite the "${request.field}" field to fix this problem.`,
+        '',
+        'OUTPUT FORMAT (JSON):',
+        `{ "${request.field}": ${shape} }`,
+      ]
+        .filter((line) => line !== null)
+        .join('\n'),
+    },
+  ];
+}
+
+/** The rewritten field from model output, or null when it is missing or empty */
+export function parseSpecFix(
+  field: SpecFixField,
+  data: Record<string, unknown>
+): Record<string, string | string[]> | null {
+  const value = data[field];
+  if (FIXABLE_FIELDS[field] === 'list') {
+    const items = Array.isArray(value)
+      ? value
+          .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+          .slice(0, 12)
+          .map((item) => item.trim().slice(0, 500))
+      : [];
+    return items.length > 0 ? { [field]: items } : null;
+  }
+  const text = typeof value === 'string' ? value.trim().slice(0, 2000) : '';
+  return text ? { [field]: text } : null;
+}
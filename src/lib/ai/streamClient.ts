@@ -0,0 +1,87 @@
+import type {
+  BatchEnhanceStreamEvent,
+  EnhanceStreamEvent,
+  ImportProgress,
+  ImportStreamEvent,
+} from '@/types/ai';
+import type { ExistingNodeSummary } from '@/types/nodes';
+import type { EnhancementTarget } from './nodeEnhancement';
+import { readNdjson } from './ndjson';
+
+/**
+ * Browser side of the streaming AI routes. Aborting `signal` cancels the
+ * request; the promise then rejects with the fetch AbortError.
+ */
+
+async function postStream(url: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || 'AI request failed.');
+  }
+  return response;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/** Enhances one node; `onPartial` receives the raw output parsed so far */
+export async function streamEnhanceNode(
+  target: EnhancementTarget,
+  options: { projectId?: string; signal?: AbortSignal; onPartial: (data: Record<string, unknown>) => void }
+): Promise<Record<string, unknown>> {
+  const response = await postStream('/api/ai/enhance', { ...target, projectId: options.projectId }, options.signal);
+
+  const outcome: { data?: Record<string, unknown>; error?: string } = {};
+  await readNdjson<EnhanceStreamEvent>(response, (event) => {
+    if (event.type === 'partial') options.onPartial(event.data);
+    else if (event.type === 'done') outcome.data = event.data;
+    else outcome.error = event.error;
+  });
+
+  if (outcome.error) throw new Error(outcome.error);
+  if (!outcome.data) throw new Error('Enhancement ended without a result.');
+  return outcome.data;
+}
+
+/** Enhances many nodes, reporting every per-node event as it arrives */
+export async function streamBatchEnhance(
+  items: (EnhancementTarget & { nodeId: string })[],
+  options: { projectId?: string; signal?: AbortSignal; onEvent: (event: BatchEnhanceStreamEvent) => void }
+): Promise<void> {
+  const response = await postStream('/api/ai/enhance/batch', { items, projectId: options.projectId }, options.signal);
+  await readNdjson<BatchEnhanceStreamEvent>(response, options.onEvent);
+}
+
+/**
+ * Imports a document, reporting analysis progress. Pass `existingNodes` to
+ * merge into the current canvas (smart import).
+ */
+export async function streamDocumentImport<TResult>(
+  body: { text: string; projectId?: string; existingNodes?: ExistingNodeSummary[] },
+  options: { signal?: AbortSignal; onProgress: (progress: ImportProgress) => void }
+): Promise<TResult> {
+  const response = await postStream('/api/ai/import', body, options.signal);
+
+  const outcome: { done: boolean; result?: TResult; error?: string } = { done: false };
+  await readNdjson<ImportStreamEvent<TResult>>(response, (event) => {
+    if (event.type === 'progress') {
+      options.onProgress({ stage: event.stage, features: event.features, screens: event.screens });
+    } else if (event.type === 'done') {
+      outcome.done = true;
+      outcome.result = event.result;
+    } else {
+      outcome.error = event.error;
+    }
+  });
+
+  if (outcome.error) throw new Error(outcome.error);
+  if (!outcome.done) throw new Error('Import ended without a result.');
+  return outcome.result as TResult;
+}
@@ -0,0 +1,44 @@
+import type { LLMProvider, LLMProviderId } from '@/types/ai';
+import { streamJson } from './llm';
+import type { AIUsageMeter } from './usage';
+import {
+  buildFeatureEnhancementMessages,
+  buildScreenEnhancementMessages,
+  ENHANCEMENT_MAX_OUTPUT_TOKENS,
+  parseFeatureEnhancement,
+  parseScreenEnhancement,
+  type EnhancementTarget,
+} from './nodeEnhancement';
+
+export interface StreamEnhancementOptions {
+  preferredProvider?: LLMProviderId | null;
+  /** Use this provider instead of resolving one (tests pass a fake provider) */
+  provider?: LLMProvider;
+  meter?: AIUsageMeter;
+  signal?: AbortSignal;
+  /** Raw output parsed so far; run it through selectEnhancementUpdates before applying */
+  onPartial: (data: Record<string, unknown>) => void;
+}
+
+/** Enhances one node, streaming partial output; resolves to the sanitized enhancement */
+export async function streamNodeEnhancement(
+  target: EnhancementTarget,
+  options: StreamEnhancementOptions
+): Promise<Record<string, unknown>> {
+  const { data } = await streamJson({
+    operation: 'enhance',
+    preferredProvider: options.preferredProvider,
+    provider: options.provider,
+    meter: options.meter,
+    signal: options.signal,
+    onPartial: options.onPartial,
+    messages:
+      target.kind === 'feature'
+        ? buildFeatureEnhancementMessages(target.input)
+        : buildScreenEnhancementMessages(target.input),
+    maxTokens: ENHANCEMENT_MAX_OUTPUT_TOKENS,
+    temperature: 0.3,
+  });
+
+  return { ...(target.kind === 'feature' ? parseFeatureEnhancement(data) : parseScreenEnhancement(data)) };
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIUsageEvent } from '@/types/ai';
+import { RateLimitError } from '@/lib/errors';
+import { createFakeProvider } from './fakeProvider';
+import { generateText, streamText } from './llm';
+import {
+  assertWithinBudget,
+  estimateCostUsd,
+  getBudgetPeriodStart,
+  getMonthlyBudgetUsd,
+  summarizeAIUsage,
+} from './usage';
+
+vi.mock('@/lib/errors', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/errors')>()),
+  logError: vi.fn(),
+}));
+
+const PROJECT_A = '11111111-1111-4111-8111-111111111111';
+const PROJECT_B = '22222222-2222-4222-8222-222222222222';
+
+/** Minimal Supabase stand-in covering the profile read, spend RPC and usage insert */
+function createSupabaseStub(options: { tier?: string; spent?: number } = {}) {
+  const inserts: Record<string, unknown>[] = [];
+  const rpc = vi.fn(async () => ({ data: options.spent ?? 0, error: null }));
+  const client = {
+    rpc,
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: table === 'profiles' ? { tier: options.tier ?? 'free' } : null, error: null }),
+        }),
+      }),
+      insert: async (row: Record<string, unknown>) => {
+        inserts.push(row);
+        return { error: null };
+      },
+    }),
+  };
+  return { supabase: client as unknown as SupabaseClient, inserts, rpc };
+}
+
+function event(overrides: Partial<AIUsageEvent>): AIUsageEvent {
+  return {
+    id: 'e',
+    user_id: 'u1',
+    project_id: null,
+    operation: 'enhance',
+    provider: 'openai',
+    model: 'gpt-4.1-mini',
+    input_tokens: 0,
+    output_tokens: 0,
+    cost_usd: 0,
+    created_at: '2026-02-10T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('usage', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('estimateCostUsd', () => {
+    it('prices by the longest matching model prefix', () => {
+      expect(estimateCostUsd('openai', 'gpt-4.1-mini', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.4);
+      expect(estimateCostUsd('openai', 'gpt-4.1', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(2);
+      expect(estimateCostUsd('anthropic', 'claude-3-5-sonnet-20241022', { inputTokens: 0, outputTokens: 1000 })).toBe(
+        0.015
+      );
+    });
+
+    it('falls back to the provider default for unknown models and charges nothing locally', () => {
+      expect(estimateCostUsd('openai', 'gpt-9-preview', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.4);
+      expect(estimateCostUsd('local', 'gpt-4.1', { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBe(0);
+    });
+  });
+
+  describe('budgets', () => {
+    it('uses tier defaults unless overridden by env', () => {
+      expect(getMonthlyBudgetUsd('free')).toBe(1);
+      expect(getMonthlyBudgetUsd('pro')).toBe(20);
+      vi.stubEnv('AI_MONTHLY_BUDGET_PRO_USD', '50');
+      vi.stubEnv('AI_MONTHLY_BUDGET_FREE_USD', 'lots');
+      expect(getMonthlyBudgetUsd('pro')).toBe(50);
+      expect(getMonthlyBudgetUsd('free')).toBe(1);
+    });
+
+    it('resets at the start of the UTC month', () => {
+      expect(getBudgetPeriodStart(new Date('2026-03-17T15:00:00Z')).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    });
+
+    it('blocks once the tier budget is spent', async () => {
+      const free = createSupabaseStub({ tier: 'free', spent: 1.2 });
+      await expect(assertWithinBudget({ supabase: free.supabase, userId: 'u1' }, 'openai')).rejects.toBeInstanceOf(
+        RateLimitError
+      );
+
+      const pro = createSupabaseStub({ tier: 'pro', spent: 1.2 });
+      await expect(assertWithinBudget({ supabase: pro.supabase, userId: 'u1' }, 'openai')).resolves.toBeUndefined();
+    });
+
+    it('never blocks local models', async () => {
+      const stub = createSupabaseStub({ tier: 'free', spent: 99 });
+      await expect(assertWithinBudget({ supabase: stub.supabase, userId: 'u1' }, 'local')).resolves.toBeUndefined();
+      expect(stub.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('metered generateText', () => {
+    const options = {
+      operation: 'breakdown' as const,
+      messages: [{ role: 'user' as const, content: 'hi' }],
+      maxTokens: 100,
+    };
+
+    it('records tokens and cost for the billed project', async () => {
+      const stub = createSupabaseStub();
+      const provider = createFakeProvider('{"breakdown":[]}');
+      await generateText({ ...options, provider, meter: { supabase: stub.supabase, userId: 'u1', projectId: PROJECT_A } });
+
+      expect(stub.inserts).toHaveLength(1);
+      expect(stub.inserts[0]).toMatchObject({
+        user_id: 'u1',
+        project_id: PROJECT_A,
+        operation: 'breakdown',
+        provider: 'openai',
+        model: 'gpt-4.1-mini',
+        input_tokens: 2,
+        output_tokens: 16,
+      });
+    });
+
+    it('drops malformed project ids instead of failing the insert', async () => {
+      const stub = createSupabaseStub();
+      await generateText({
+        ...options,
+        provider: createFakeProvider('ok'),
+        meter: { supabase: stub.supabase, userId: 'u1', projectId: 'not-a-uuid' },
+      });
+      expect(stub.inserts[0].project_id).toBeNull();
+    });
+
+    it('refuses the call without contacting the provider when over budget', async () => {
+      const stub = createSupabaseStub({ spent: 5 });
+      const provider = createFakeProvider('ok');
+      await expect(
+        generateText({ ...options, provider, meter: { supabase: stub.supabase, userId: 'u1' } })
+      ).rejects.toThrow('Monthly AI budget reached');
+      expect(provider.calls).toHaveLength(0);
+      expect(stub.inserts).toHaveLength(0);
+    });
+
+    it('bills the estimated output of a cancelled stream', async () => {
+      const stub = createSupabaseStub();
+      const controller = new AbortController();
+      await expect(
+        streamText({
+          ...options,
+          provider: createFakeProvider('x'.repeat(400), { chunkSize: 40 }),
+          meter: { supabase: stub.supabase, userId: 'u1' },
+          signal: controller.signal,
+          onText: () => controller.abort(),
+        })
+      ).rejects.toThrow('cancelled');
+
+      expect(stub.inserts).toHaveLength(1);
+      expect(stub.inserts[0]).toMatchObject({ operation: 'breakdown', output_tokens: 10 });
+    });
+  });
+
+  describe('summarizeAIUsage', () => {
+    it('groups spend by project and operation, biggest first', () => {
+      const summary = summarizeAIUsage(
+        [
+          event({ project_id: PROJECT_A, operation: 'enhance', cost_usd: '0.010000', input_tokens: 100, output_tokens: 50 }),
+          event({ project_id: PROJECT_A, operation: 'import', cost_usd: 0.05, input_tokens: 1000, output_tokens: 500 }),
+          event({ project_id: PROJECT_B, operation: 'enhance', cost_usd: 0.02 }),
+          event({ project_id: null, operation: 'wizard', cost_usd: 0.001 }),
+        ],
+        { [PROJECT_A]: 'Alpha' },
+        'free',
+        1
+      );
+
+      expect(summary.totalCalls).toBe(4);
+      expect(summary.totalCostUsd).toBeCloseTo(0.081);
+      expect(summary.inputTokens).toBe(1100);
+      expect(summary.byProject.map((p) => [p.name, p.calls])).toEqual([
+        ['Alpha', 2],
+        [null, 1],
+        [null, 1],
+      ]);
+      expect(summary.byProject[1].projectId).toBe(PROJECT_B);
+      expect(summary.byProject[2].projectId).toBeNull();
+      expect(summary.byOperation.map((o) => o.label)).toEqual(['Document import', 'Node enhancement', 'Project wizard']);
+      expect(summary.byOperation[1]).toMatchObject({ calls: 2, inputTokens: 100, outputTokens: 50 });
+    });
+  });
+});
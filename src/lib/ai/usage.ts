@@ -0,0 +1,226 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseError, RateLimitError, logError } from '@/lib/errors';
+import type { AIOperation, AIUsageEvent, AIUsageSummary, LLMProviderId, LLMResult, UserTier } from '@/types/ai';
+
+/** Who an AI call is billed to */
+export interface AIUsageMeter {
+  supabase: SupabaseClient;
+  userId: string;
+  projectId?: string | null;
+}
+
+/** USD per million tokens */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Published list prices, matched by longest model-name prefix so dated
+ * snapshots (e.g. claude-3-5-sonnet-20241022) resolve to their family.
+ */
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+};
+
+/** Unknown models are billed like the provider's default model */
+const FALLBACK_PRICES: Record<LLMProviderId, ModelPrice> = {
+  openai: MODEL_PRICES['gpt-4.1-mini'],
+  anthropic: MODEL_PRICES['claude-3-5-sonnet'],
+  local: { input: 0, output: 0 },
+};
+
+const DEFAULT_MONTHLY_BUDGET_USD: Record<UserTier, number> = {
+  free: 1,
+  pro: 20,
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const AI_OPERATION_LABELS: Record<AIOperation, string> = {
+  import: 'Document import',
+  importDetails: 'Import details',
+  enhance: 'Node enhancement',
+  wizard: 'Project wizard',
+  breakdown: 'Prompt breakdown',
+  plan: 'Feature plan',
+  specFix: 'Spec fix',
+  chat: 'Canvas chat',
+};
+
+function getModelPrice(provider: LLMProviderId, model: string): ModelPrice {
+  if (provider === 'local') return FALLBACK_PRICES.local;
+  const match = Object.keys(MODEL_PRICES)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : FALLBACK_PRICES[provider];
+}
+
+/** Estimated USD cost of one completion, rounded to the column's precision */
+export function estimateCostUsd(
+  provider: LLMProviderId,
+  model: string,
+  usage: { inputTokens: number; outputTokens: number }
+): number {
+  const price = getModelPrice(provider, model);
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/** Rough token count for providers that do not report usage (~4 characters per token) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Monthly AI budget for a tier; AI_MONTHLY_BUDGET_FREE_USD / _PRO_USD override the defaults */
+export function getMonthlyBudgetUsd(tier: UserTier): number {
+  const raw = process.env[`AI_MONTHLY_BUDGET_${tier.toUpperCase()}_USD`];
+  const override = raw ? Number(raw) : NaN;
+  return Number.isFinite(override) && override >= 0 ? override : DEFAULT_MONTHLY_BUDGET_USD[tier];
+}
+
+/** First instant of the current UTC calendar month; budgets reset then */
+export function getBudgetPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export async function getUserTier(supabase: SupabaseClient, userId: string): Promise<UserTier> {
+  const { data, error } = await supabase.from('profiles').select('tier').eq('id', userId).maybeSingle();
+  if (error) {
+    logError(error, { action: 'getUserTier', userId });
+    return 'free';
+  }
+  return data?.tier === 'pro' ? 'pro' : 'free';
+}
+
+/** The caller's spend since the start of the current budget period */
+export async function getMonthToDateSpend(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('get_ai_spend_since', {
+    since: getBudgetPeriodStart().toISOString(),
+  });
+  if (error) {
+    logError(error, { action: 'getMonthToDateSpend', userId });
+    throw new DatabaseError('Failed to check AI usage.');
+  }
+  return Number(data) || 0;
+}
+
+/**
+ * Throws RateLimitError when the user's tier budget for this month is used
+ * up. Calls to a local model cost nothing and are never blocked.
+ */
+export async function assertWithinBudget(meter: AIUsageMeter, provider: LLMProviderId): Promise<void> {
+  if (provider === 'local') return;
+
+  const [tier, spent] = await Promise.all([
+    getUserTier(meter.supabase, meter.userId),
+    getMonthToDateSpend(meter.supabase, meter.userId),
+  ]);
+  const budget = getMonthlyBudgetUsd(tier);
+  if (spent >= budget) {
+    throw new RateLimitError(
+      tier === 'free'
+        ? 'Monthly AI budget reached. Upgrade to Pro or wait until next month.'
+        : 'Monthly AI budget reached. Usage resets at the start of next month.'
+    );
+  }
+}
+
+/**
+ * Records one completed call. A failed insert is logged, never surfaced:
+ * the user already has their result.
+ */
+export async function recordAIUsage(
+  meter: AIUsageMeter,
+  operation: AIOperation,
+  result: LLMResult,
+  usage: { inputTokens: number; outputTokens: number }
+): Promise<void> {
+  const projectId = meter.projectId && UUID_PATTERN.test(meter.projectId) ? meter.projectId : null;
+  const { error } = await meter.supabase.from('ai_usage_events').insert({
+    user_id: meter.userId,
+    project_id: projectId,
+    operation,
+    provider: result.provider,
+    model: result.model,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cost_usd: estimateCostUsd(result.provider, result.model, usage),
+  });
+  if (error) {
+    logError(error, { action: 'recordAIUsage', userId: meter.userId, operation });
+  }
+}
+
+/**
+ * Rolls usage rows up by project and by operation, biggest spend first.
+ * Project names come from `projectNames`; projects missing from it keep a
+ * null name.
+ */
+export function summarizeAIUsage(
+  events: AIUsageEvent[],
+  projectNames: Record<string, string>,
+  tier: UserTier,
+  budgetUsd: number
+): AIUsageSummary {
+  const byProject = new Map<string, AIUsageSummary['byProject'][number]>();
+  const byOperation = new Map<AIOperation, AIUsageSummary['byOperation'][number]>();
+  let totalCostUsd = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for (const event of events) {
+    const cost = Number(event.cost_usd) || 0;
+    totalCostUsd += cost;
+    inputTokens += event.input_tokens;
+    outputTokens += event.output_tokens;
+
+    const projectKey = event.project_id ?? '';
+    const projectRow = byProject.get(projectKey) ?? {
+      projectId: event.project_id,
+      name: event.project_id ? projectNames[event.project_id] ?? null : null,
+      calls: 0,
+      costUsd: 0,
+    };
+    projectRow.calls += 1;
+    projectRow.costUsd += cost;
+    byProject.set(projectKey, projectRow);
+
+    const operationRow = byOperation.get(event.operation) ?? {
+      operation: event.operation,
+      label: AI_OPERATION_LABELS[event.operation] ?? event.operation,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+    };
+    operationRow.calls += 1;
+    operationRow.inputTokens += event.input_tokens;
+    operationRow.outputTokens += event.output_tokens;
+    operationRow.costUsd += cost;
+    byOperation.set(event.operation, operationRow);
+  }
+
+  const byCost = <T extends { costUsd: number; calls: number }>(a: T, b: T) =>
+    b.costUsd - a.costUsd || b.calls - a.calls;
+
+  return {
+    tier,
+    budgetUsd,
+    totalCostUsd,
+    totalCalls: events.length,
+    inputTokens,
+    outputTokens,
+    byProject: [...byProject.values()].sort(byCost),
+    byOperation: [...byOperation.values()].sort(byCost),
+  };
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import {
+  coalesceChanges,
+  diffCanvasChanges,
+  mergeRemoteNodeData,
+  mergeStringArrays,
+  peerColor,
+  type RemoteEditContext,
+} from './canvasSync';
+import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+import type { CanvasChange } from '@/types/collaboration';
+
+function makeFeature(id: string, overrides: Record<string, unknown> = {}): SpexlyNode {
+  return {
+    id,
+    type: 'feature',
+    position: { x: 0, y: 0 },
+    data: {
+      featureName: 'Auth',
+      summary: '',
+      problem: '',
+      userStory: '',
+      acceptanceCriteria: [],
+      priority: 'Must',
+      status: 'Planned',
+      effort: 'M',
+      dependencies: [],
+      risks: '',
+      metrics: '',
+      notes: '',
+      aiContext: '',
+      implementationSteps: [],
+      codeReferences: [],
+      testingRequirements: '',
+      relatedFiles: [],
+      technicalConstraints: '',
+      tags: [],
+      estimatedHours: null,
+      version: 1,
+      expanded: false,
+      completed: false,
+      ...overrides,
+    },
+  } as SpexlyNode;
+}
+
+function makeContext(overrides: Partial<RemoteEditContext> = {}): RemoteEditContext {
+  return {
+    remoteClientId: 'remote',
+    remoteTimestamp: 2000,
+    localClientId: 'local',
+    localEditedAt: () => undefined,
+    ...overrides,
+  };
+}
+
+describe('canvasSync', () => {
+  describe('diffCanvasChanges', () => {
+    it('emits adds, removes and moves', () => {
+      const a = makeFeature('a');
+      const b = makeFeature('b');
+      const movedA = { ...a, position: { x: 50, y: 10 } } as SpexlyNode;
+      const c = makeFeature('c');
+
+      const changes = diffCanvasChanges({ nodes: [a, b], edges: [] }, { nodes: [movedA, c], edges: [] });
+
+      expect(changes).toContainEqual({ kind: 'node-move', nodeId: 'a', position: { x: 50, y: 10 } });
+      expect(changes).toContainEqual({ kind: 'node-remove', nodeId: 'b' });
+      expect(changes.find((ch) => ch.kind === 'node-add')).toMatchObject({ node: { id: 'c' } });
+    });
+
+    it('emits field edits with their base value', () => {
+      const before = makeFeature('a', { summary: 'old' });
+      const after = makeFeature('a', { summary: 'new' });
+
+      const changes = diffCanvasChanges({ nodes: [before], edges: [] }, { nodes: [after], edges: [] });
+
+      expect(changes).toEqual([
+        { kind: 'node-data', nodeId: 'a', fields: { summary: { value: 'new', base: 'old' } } },
+      ]);
+    });
+
+    it('ignores per-user view state', () => {
+      const before = makeFeature('a');
+      const after = { ...makeFeature('a', { expanded: true }), selected: true } as SpexlyNode;
+
+      expect(diffCanvasChanges({ nodes: [before], edges: [] }, { nodes: [after], edges: [] })).toEqual([]);
+    });
+
+    it('emits edge adds and removes', () => {
+      const nodes = [makeFeature('a'), makeFeature('b')];
+      const oldEdge: SpexlyEdge = { id: 'e1', source: 'a', target: 'b' };
+      const newEdge: SpexlyEdge = { id: 'e2', source: 'b', target: 'a' };
+
+      const changes = diffCanvasChanges({ nodes, edges: [oldEdge] }, { nodes, edges: [newEdge] });
+
+      expect(changes).toContainEqual({ kind: 'edge-remove', edgeId: 'e1' });
+      expect(changes.find((ch) => ch.kind === 'edge-add')).toMatchObject({ edge: { id: 'e2' } });
+    });
+
+    it('emits group membership and frame size changes', () => {
+      const group = {
+        id: 'g',
+        type: 'group',
+        position: { x: 0, y: 0 },
+        width: 400,
+        height: 300,
+        data: { label: 'G', description: '', collapsed: false, expandedHeight: null, expanded: false, completed: false, tags: [], estimatedHours: null },
+      } as SpexlyNode;
+      const a = makeFeature('a');
+      const grouped = { ...a, parentId: 'g', position: { x: 10, y: 10 } } as SpexlyNode;
+      const resized = { ...group, width: 500 } as SpexlyNode;
+
+      const changes = diffCanvasChanges({ nodes: [group, a], edges: [] }, { nodes: [resized, grouped], edges: [] });
+
+      expect(changes).toContainEqual({ kind: 'node-resize', nodeId: 'g', width: 500, height: 300 });
+      expect(changes).toContainEqual({ kind: 'node-move', nodeId: 'a', position: { x: 10, y: 10 }, parentId: 'g' });
+    });
+
+    it('emits edge kind changes', () => {
+      const nodes = [makeFeature('a'), makeFeature('b')];
+      const before: SpexlyEdge = { id: 'e1', source: 'a', target: 'b' };
+      const after: SpexlyEdge = { ...before, data: { kind: 'blocks' } };
+
+      expect(diffCanvasChanges({ nodes, edges: [before] }, { nodes, edges: [after] })).toEqual([
+        { kind: 'edge-kind', edgeId: 'e1', edgeKind: 'blocks' },
+      ]);
+    });
+  });
+
+  describe('coalesceChanges', () => {
+    it('keeps only the latest move per node', () => {
+      const changes: CanvasChange[] = [
+        { kind: 'node-move', nodeId: 'a', position: { x: 1, y: 1 } },
+        { kind: 'node-move', nodeId: 'a', position: { x: 2, y: 2 } },
+      ];
+      expect(coalesceChanges(changes)).toEqual([{ kind: 'node-move', nodeId: 'a', position: { x: 2, y: 2 } }]);
+    });
+
+    it('keeps a group change when a later move has none', () => {
+      const changes: CanvasChange[] = [
+        { kind: 'node-move', nodeId: 'a', position: { x: 1, y: 1 }, parentId: null },
+        { kind: 'node-move', nodeId: 'a', position: { x: 2, y: 2 } },
+      ];
+      expect(coalesceChanges(changes)).toEqual([
+        { kind: 'node-move', nodeId: 'a', position: { x: 2, y: 2 }, parentId: null },
+      ]);
+    });
+
+    it('keeps the earliest base and latest value per field', () => {
+      const changes: CanvasChange[] = [
+        { kind: 'node-data', nodeId: 'a', fields: { summary: { value: 'ab', base: 'a' } } },
+        { kind: 'node-data', nodeId: 'a', fields: { summary: { value: 'abc', base: 'ab' } } },
+      ];
+      expect(coalesceChanges(changes)).toEqual([
+        { kind: 'node-data', nodeId: 'a', fields: { summary: { value: 'abc', base: 'a' } } },
+      ]);
+    });
+
+    it('drops queued moves and edits for removed nodes', () => {
+      const changes: CanvasChange[] = [
+        { kind: 'node-move', nodeId: 'a', position: { x: 1, y: 1 } },
+        { kind: 'node-data', nodeId: 'a', fields: { summary: { value: 'x', base: '' } } },
+        { kind: 'node-remove', nodeId: 'a' },
+      ];
+      expect(coalesceChanges(changes)).toEqual([{ kind: 'node-remove', nodeId: 'a' }]);
+    });
+  });
+
+  describe('mergeStringArrays', () => {
+    it('keeps additions from both sides and drops removals from either', () => {
+      expect(mergeStringArrays(['a', 'b'], ['a', 'b', 'c'], ['b', 'd'])).toEqual(['b', 'c', 'd']);
+    });
+  });
+
+  describe('mergeRemoteNodeData', () => {
+    it('applies remote edits when the local value is unchanged', () => {
+      const node = makeFeature('a', { summary: 'old' });
+      const result = mergeRemoteNodeData(node, { summary: { value: 'new', base: 'old' } }, makeContext());
+      expect(result).toEqual({ updates: { summary: 'new' }, conflicts: [] });
+    });
+
+    it('reports a conflict when both sides edited the same feature text field', () => {
+      const node = makeFeature('a', { summary: 'mine' });
+      const result = mergeRemoteNodeData(node, { summary: { value: 'theirs', base: 'old' } }, makeContext());
+      expect(result.updates).toEqual({});
+      expect(result.conflicts).toEqual([{ field: 'summary', localValue: 'mine', remoteValue: 'theirs' }]);
+    });
+
+    it('merges concurrent string list edits', () => {
+      const node = makeFeature('a', { tags: ['x', 'local'] });
+      const result = mergeRemoteNodeData(node, { tags: { value: ['x', 'remote'], base: ['x'] } }, makeContext());
+      expect(result.updates).toEqual({ tags: ['x', 'local', 'remote'] });
+    });
+
+    it('uses last-writer-wins for scalar fields', () => {
+      const node = makeFeature('a', { status: 'Built' });
+      const edit = { status: { value: 'Blocked', base: 'Planned' } };
+
+      const newerRemote = mergeRemoteNodeData(node, edit, makeContext({ localEditedAt: () => 1000 }));
+      expect(newerRemote.updates).toEqual({ status: 'Blocked' });
+
+      const newerLocal = mergeRemoteNodeData(node, edit, makeContext({ localEditedAt: () => 3000 }));
+      expect(newerLocal.updates).toEqual({});
+    });
+
+    it('does nothing when both sides already agree', () => {
+      const node = makeFeature('a', { summary: 'same' });
+      const result = mergeRemoteNodeData(node, { summary: { value: 'same', base: 'old' } }, makeContext());
+      expect(result).toEqual({ updates: {}, conflicts: [] });
+    });
+  });
+
+  describe('peerColor', () => {
+    it('is stable per user', () => {
+      expect(peerColor('user-1')).toBe(peerColor('user-1'));
+      expect(peerColor('user-1')).toMatch(/^#[0-9A-F]{6}$/i);
+    });
+  });
+});
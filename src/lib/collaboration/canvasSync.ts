@@ -0,0 +1,303 @@
+import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+import type { CanvasChange, FieldEdit } from '@/types/collaboration';
+import { diffNodeData } from '@/lib/snapshots/canvasDiff';
+import { getEdgeKind } from '@/lib/edges/edgeKinds';
+
+interface CanvasState {
+  nodes: SpexlyNode[];
+  edges: SpexlyEdge[];
+}
+
+/**
+ * Free-text feature fields where concurrent edits are surfaced as conflicts
+ * instead of silently resolved. Scalars (status, priority, effort, ...) use
+ * last-writer-wins and string lists are merged.
+ */
+export const FEATURE_CONFLICT_FIELDS = new Set([
+  'featureName',
+  'summary',
+  'problem',
+  'userStory',
+  'risks',
+  'metrics',
+  'notes',
+  'aiContext',
+  'testingRequirements',
+  'technicalConstraints',
+]);
+
+const PEER_COLORS = ['#F472B6', '#60A5FA', '#34D399', '#FBBF24', '#A78BFA', '#F87171', '#2DD4BF', '#FB923C'];
+
+/** Stable per-user cursor/avatar color */
+export function peerColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/** Strips per-user view state (selection, expansion, measurements) before a node is shared */
+function toSharedNode(node: SpexlyNode): SpexlyNode {
+  return {
+    id: node.id,
+    type: node.type,
+    position: { ...node.position },
+    data: { ...node.data, expanded: false },
+    ...(node.parentId ? { parentId: node.parentId } : {}),
+    ...(node.hidden ? { hidden: true } : {}),
+    ...(node.width !== undefined && node.height !== undefined ? { width: node.width, height: node.height } : {}),
+  } as SpexlyNode;
+}
+
+/**
+ * Computes the broadcastable changes between two local canvas states.
+ * Selection, measurement and `expanded` changes are ignored since they are per-user.
+ */
+export function diffCanvasChanges(prev: CanvasState, next: CanvasState): CanvasChange[] {
+  const changes: CanvasChange[] = [];
+
+  if (prev.nodes !== next.nodes) {
+    const prevById = new Map(prev.nodes.map((n) => [n.id, n]));
+    const nextIds = new Set<string>();
+
+    for (const node of next.nodes) {
+      nextIds.add(node.id);
+      const before = prevById.get(node.id);
+      if (!before) {
+        changes.push({ kind: 'node-add', node: toSharedNode(node) });
+        continue;
+      }
+      if (before === node) continue;
+
+      const reparented = (before.parentId ?? null) !== (node.parentId ?? null);
+      if (reparented || before.position.x !== node.position.x || before.position.y !== node.position.y) {
+        changes.push({
+          kind: 'node-move',
+          nodeId: node.id,
+          position: { ...node.position },
+          ...(reparented ? { parentId: node.parentId ?? null } : {}),
+        });
+      }
+
+      // Explicit sizes only exist on group frames; measured sizes are per-user
+      if (
+        typeof node.width === 'number' &&
+        typeof node.height === 'number' &&
+        (before.width !== node.width || before.height !== node.height)
+      ) {
+        changes.push({ kind: 'node-resize', nodeId: node.id, width: node.width, height: node.height });
+      }
+
+      if (before.data !== node.data) {
+        const fieldChanges = diffNodeData(
+          before.data as Record<string, unknown>,
+          node.data as Record<string, unknown>
+        );
+        if (fieldChanges.length > 0) {
+          const fields: Record<string, FieldEdit> = {};
+          for (const change of fieldChanges) {
+            fields[change.field] = { value: change.after, base: change.before };
+          }
+          changes.push({ kind: 'node-data', nodeId: node.id, fields });
+        }
+      }
+    }
+
+    for (const node of prev.nodes) {
+      if (!nextIds.has(node.id)) {
+        changes.push({ kind: 'node-remove', nodeId: node.id });
+      }
+    }
+  }
+
+  if (prev.edges !== next.edges) {
+    const nextEdgeIds = new Set(next.edges.map((e) => e.id));
+
+    const prevEdgeById = new Map(prev.edges.map((e) => [e.id, e]));
+
+    for (const edge of next.edges) {
+      const before = prevEdgeById.get(edge.id);
+      if (!before) {
+        changes.push({ kind: 'edge-add', edge: { ...edge, selected: false } });
+      } else if (before.data?.kind !== edge.data?.kind) {
+        changes.push({ kind: 'edge-kind', edgeId: edge.id, edgeKind: getEdgeKind(edge) });
+      }
+    }
+    for (const edge of prev.edges) {
+      if (!nextEdgeIds.has(edge.id)) {
+        changes.push({ kind: 'edge-remove', edgeId: edge.id });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Collapses a queue of pending changes before sending: keeps the latest
+ * position per node and, per field, the earliest base with the latest value.
+ */
+export function coalesceChanges(changes: CanvasChange[]): CanvasChange[] {
+  const result: CanvasChange[] = [];
+  const moveIndex = new Map<string, number>();
+  const resizeIndex = new Map<string, number>();
+  const dataIndex = new Map<string, number>();
+
+  for (const change of changes) {
+    if (change.kind === 'node-move') {
+      const idx = moveIndex.get(change.nodeId);
+      if (idx !== undefined) {
+        // A later plain move must not lose an earlier change of group
+        const existing = result[idx] as Extract<CanvasChange, { kind: 'node-move' }>;
+        result[idx] =
+          change.parentId === undefined && existing.parentId !== undefined
+            ? { ...change, parentId: existing.parentId }
+            : change;
+        continue;
+      }
+      moveIndex.set(change.nodeId, result.length);
+      result.push(change);
+      continue;
+    }
+
+    if (change.kind === 'node-resize') {
+      const idx = resizeIndex.get(change.nodeId);
+      if (idx !== undefined) {
+        result[idx] = change;
+        continue;
+      }
+      resizeIndex.set(change.nodeId, result.length);
+      result.push(change);
+      continue;
+    }
+
+    if (change.kind === 'node-data') {
+      const idx = dataIndex.get(change.nodeId);
+      if (idx !== undefined) {
+        const existing = result[idx] as Extract<CanvasChange, { kind: 'node-data' }>;
+        const fields = { ...existing.fields };
+        for (const [field, edit] of Object.entries(change.fields)) {
+          fields[field] = fields[field] ? { value: edit.value, base: fields[field].base } : edit;
+        }
+        result[idx] = { ...existing, fields };
+        continue;
+      }
+      dataIndex.set(change.nodeId, result.length);
+      result.push({ ...change, fields: { ...change.fields } });
+      continue;
+    }
+
+    if (change.kind === 'node-remove') {
+      // A removal supersedes any queued moves/edits for the same node
+      moveIndex.delete(change.nodeId);
+      resizeIndex.delete(change.nodeId);
+      dataIndex.delete(change.nodeId);
+    }
+    result.push(change);
+  }
+
+  const removed = new Set(
+    result.filter((c) => c.kind === 'node-remove').map((c) => (c as { nodeId: string }).nodeId)
+  );
+  return result.filter(
+    (c) =>
+      !(
+        (c.kind === 'node-move' || c.kind === 'node-resize' || c.kind === 'node-data') &&
+        removed.has(c.nodeId)
+      )
+  );
+}
+
+/**
+ * Three-way merge for string lists: items added by either side are kept,
+ * items removed by either side are dropped. Local ordering wins.
+ */
+export function mergeStringArrays(base: string[], local: string[], remote: string[]): string[] {
+  const baseSet = new Set(base);
+  const localSet = new Set(local);
+  const remoteSet = new Set(remote);
+  const removed = new Set(base.filter((item) => !localSet.has(item) || !remoteSet.has(item)));
+
+  const merged: string[] = [];
+  const seen = new Set<string>();
+  for (const item of [...local, ...remote]) {
+    if (seen.has(item)) continue;
+    if (baseSet.has(item) && removed.has(item)) continue;
+    seen.add(item);
+    merged.push(item);
+  }
+  return merged;
+}
+
+export interface RemoteEditContext {
+  remoteClientId: string;
+  remoteTimestamp: number;
+  localClientId: string;
+  /** Timestamp of this client's last broadcast edit to the field, if any */
+  localEditedAt: (field: string) => number | undefined;
+}
+
+export interface RemoteMergeResult {
+  updates: Record<string, unknown>;
+  conflicts: Array<{ field: string; localValue: unknown; remoteValue: unknown }>;
+}
+
+/**
+ * Merges a remote field-level edit into a local node's data.
+ *
+ * - Local value still equals the remote's base: remote applies cleanly.
+ * - Both sides changed a string list: three-way merge.
+ * - Both sides changed a free-text FeatureNodeData field: local is kept and a conflict is reported.
+ * - Anything else: last writer wins (ties broken by client id so every client converges).
+ */
+export function mergeRemoteNodeData(
+  node: SpexlyNode,
+  fields: Record<string, FieldEdit>,
+  context: RemoteEditContext
+): RemoteMergeResult {
+  const data = node.data as Record<string, unknown>;
+  const updates: Record<string, unknown> = {};
+  const conflicts: RemoteMergeResult['conflicts'] = [];
+
+  for (const [field, edit] of Object.entries(fields)) {
+    const local = data[field];
+
+    if (valuesEqual(local, edit.value)) continue;
+
+    if (valuesEqual(local, edit.base)) {
+      updates[field] = edit.value;
+      continue;
+    }
+
+    if (isStringArray(local) && isStringArray(edit.value)) {
+      const base = isStringArray(edit.base) ? edit.base : [];
+      updates[field] = mergeStringArrays(base, local, edit.value);
+      continue;
+    }
+
+    if (node.type === 'feature' && FEATURE_CONFLICT_FIELDS.has(field)) {
+      conflicts.push({ field, localValue: local, remoteValue: edit.value });
+      continue;
+    }
+
+    const localAt = context.localEditedAt(field) ?? 0;
+    const remoteWins =
+      context.remoteTimestamp > localAt ||
+      (context.remoteTimestamp === localAt && context.remoteClientId > context.localClientId);
+    if (remoteWins) {
+      updates[field] = edit.value;
+    }
+  }
+
+  return { updates, conflicts };
+}
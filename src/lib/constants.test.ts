@@ -13,10 +13,10 @@ import type { SpexlyNodeType, FeatureStatus } from '@/types/nodes'
 
 describe('constants', () => {
   describe('NODE_TYPE_CONFIGS', () => {
-    const expectedTypes: SpexlyNodeType[] = ['idea', 'feature', 'screen', 'techStack', 'prompt', 'note']
+    const expectedTypes: SpexlyNodeType[] = ['idea', 'feature', 'screen', 'techStack', 'prompt', 'note', 'group']
 
-    it('contains all 6 node types', () => {
-      expect(Object.keys(NODE_TYPE_CONFIGS)).toHaveLength(6)
+    it('contains all 7 node types', () => {
+      expect(Object.keys(NODE_TYPE_CONFIGS)).toHaveLength(7)
       expectedTypes.forEach((type) => {
         expect(NODE_TYPE_CONFIGS[type]).toBeDefined()
       })
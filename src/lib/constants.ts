@@ -5,6 +5,7 @@ import {
   Server,
   MessageSquare,
   StickyNote,
+  Frame,
   type LucideIcon,
 } from 'lucide-react';
 import type {
@@ -15,9 +16,14 @@ import type {
   TechStackNodeData,
   PromptNodeData,
   NoteNodeData,
+  GroupNodeData,
   FeatureStatus,
+  FeatureEffort,
   NoteColorTag,
+  EdgeKind,
+  LayoutMode,
 } from '@/types/nodes';
+import type { LLMProviderId } from '@/types/ai';
 
 export interface NodeTypeConfig {
   type: SpexlyNodeType;
@@ -30,7 +36,8 @@ export interface NodeTypeConfig {
     | ScreenNodeData
     | TechStackNodeData
     | PromptNodeData
-    | NoteNodeData;
+    | NoteNodeData
+    | GroupNodeData;
 }
 
 export const NODE_TYPE_CONFIGS: Record<SpexlyNodeType, NodeTypeConfig> = {
@@ -69,6 +76,7 @@ export const NODE_TYPE_CONFIGS: Record<SpexlyNodeType, NodeTypeConfig> = {
       status: 'Planned' as const,
       effort: 'M' as const,
       dependencies: [],
+      dependencyIds: [],
       risks: '',
       metrics: '',
       notes: '',
@@ -166,8 +174,29 @@ export const NODE_TYPE_CONFIGS: Record<SpexlyNodeType, NodeTypeConfig> = {
       estimatedHours: null,
     },
   },
+  group: {
+    type: 'group',
+    label: 'Group',
+    color: '#64748B',
+    icon: Frame,
+    defaultData: {
+      label: 'New group',
+      description: '',
+      collapsed: false,
+      expandedHeight: null,
+      expanded: false,
+      completed: false,
+      tags: [],
+      estimatedHours: null,
+    },
+  },
 };
 
+// Group frames
+export const GROUP_DEFAULT_SIZE = { width: 720, height: 480 };
+export const GROUP_MIN_SIZE = { width: 360, height: 200 };
+export const GROUP_COLLAPSED_HEIGHT = 64;
+
 export const NOTE_COLOR_OPTIONS: { value: NoteColorTag; label: string; swatch: string }[] = [
   { value: 'Slate', label: 'Slate', swatch: '#94A3B8' },
   { value: 'Amber', label: 'Amber', swatch: '#FBBF24' },
@@ -193,6 +222,87 @@ export const FEATURE_STATUS_CONFIG: Record<
   Blocked: { color: '#FBBF24', bgColor: 'rgba(251,191,36,0.2)', icon: 'lock' },
 };
 
+// Edge kind configuration. Labels read source → target; inverseLabel reads target → source.
+export const EDGE_KIND_CONFIGS: Record<
+  EdgeKind,
+  { label: string; inverseLabel: string; color: string; dashed: boolean; description: string }
+> = {
+  'relates-to': {
+    label: 'relates to',
+    inverseLabel: 'relates to',
+    color: '#64748B',
+    dashed: false,
+    description: 'General connection with no specific meaning',
+  },
+  'depends-on': {
+    label: 'depends on',
+    inverseLabel: 'is required by',
+    color: '#60A5FA',
+    dashed: false,
+    description: 'Source cannot be built until the target exists',
+  },
+  implements: {
+    label: 'implements',
+    inverseLabel: 'is implemented by',
+    color: '#A78BFA',
+    dashed: false,
+    description: 'Source delivers part of the target idea or feature',
+  },
+  renders: {
+    label: 'renders',
+    inverseLabel: 'is rendered by',
+    color: '#34D399',
+    dashed: true,
+    description: 'Source screen presents the target feature',
+  },
+  'uses-tech': {
+    label: 'uses',
+    inverseLabel: 'is used by',
+    color: '#FBBF24',
+    dashed: true,
+    description: 'Source is built with the target technology',
+  },
+  blocks: {
+    label: 'blocks',
+    inverseLabel: 'is blocked by',
+    color: '#F87171',
+    dashed: false,
+    description: 'Source must be resolved before work on the target can continue',
+  },
+};
+
+export const DEFAULT_EDGE_KIND: EdgeKind = 'relates-to';
+
+export const LAYOUT_MODE_CONFIGS: Record<LayoutMode, { label: string; description: string }> = {
+  'type-columns': {
+    label: 'By type',
+    description: 'One column per node type, ordered to reduce crossing edges',
+  },
+  'dependency-flow': {
+    label: 'By dependency flow',
+    description: 'Left to right along connections, dependencies before dependents',
+  },
+  'feature-clusters': {
+    label: 'By feature cluster',
+    description: 'Each feature in a row with its screens and prompts',
+  },
+};
+
+// Hours assumed for a feature's effort size when estimatedHours is not set
+export const EFFORT_HOURS: Record<FeatureEffort, number> = {
+  XS: 2,
+  S: 4,
+  M: 8,
+  L: 16,
+  XL: 32,
+};
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local model',
+};
+
 // Canvas constants
 export const GRID_SNAP: [number, number] = [15, 15];
 export const CANVAS_BG_COLOR = '#0F172A';
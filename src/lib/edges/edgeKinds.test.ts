@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { describeEdgeRelation, getEdgeKind, inferEdgeKind, isEdgeKind } from './edgeKinds';
+
+describe('edgeKinds', () => {
+  it('recognises known kinds only', () => {
+    expect(isEdgeKind('depends-on')).toBe(true);
+    expect(isEdgeKind('uses-tech')).toBe(true);
+    expect(isEdgeKind('friends-with')).toBe(false);
+    expect(isEdgeKind('toString')).toBe(false);
+    expect(isEdgeKind(undefined)).toBe(false);
+  });
+
+  it('defaults legacy and malformed edges to relates-to', () => {
+    expect(getEdgeKind({ data: undefined })).toBe('relates-to');
+    expect(getEdgeKind({ data: { kind: 'bogus' as never } })).toBe('relates-to');
+    expect(getEdgeKind({ data: { kind: 'blocks' } })).toBe('blocks');
+  });
+
+  it('infers kinds for unambiguous node pairs', () => {
+    expect(inferEdgeKind('feature', 'feature')).toBe('depends-on');
+    expect(inferEdgeKind('screen', 'feature')).toBe('renders');
+    expect(inferEdgeKind('feature', 'techStack')).toBe('uses-tech');
+    expect(inferEdgeKind('prompt', 'feature')).toBe('implements');
+  });
+
+  it('falls back to relates-to for other pairs', () => {
+    expect(inferEdgeKind('idea', 'feature')).toBe('relates-to');
+    expect(inferEdgeKind('note', 'feature')).toBe('relates-to');
+    expect(inferEdgeKind(undefined, 'feature')).toBe('relates-to');
+  });
+
+  it('describes relations from either endpoint', () => {
+    expect(describeEdgeRelation('depends-on', 'outgoing')).toBe('depends on');
+    expect(describeEdgeRelation('depends-on', 'incoming')).toBe('is required by');
+    expect(describeEdgeRelation('relates-to', 'incoming')).toBe('relates to');
+  });
+});
@@ -0,0 +1,41 @@
+import { DEFAULT_EDGE_KIND, EDGE_KIND_CONFIGS } from '@/lib/constants';
+import type { EdgeKind, SpexlyEdge, SpexlyNodeType } from '@/types/nodes';
+
+export const EDGE_KINDS = Object.keys(EDGE_KIND_CONFIGS) as EdgeKind[];
+
+export function isEdgeKind(value: unknown): value is EdgeKind {
+  // Not `in`, which would also accept inherited keys like 'toString'
+  return typeof value === 'string' && (EDGE_KINDS as string[]).includes(value);
+}
+
+/** Kind of an edge, falling back to the default for edges saved before kinds existed */
+export function getEdgeKind(edge: Pick<SpexlyEdge, 'data'>): EdgeKind {
+  const kind = edge.data?.kind;
+  return isEdgeKind(kind) ? kind : DEFAULT_EDGE_KIND;
+}
+
+// Only pairs where the source → target reading is unambiguous get a default
+const INFERRED_KINDS: Partial<Record<SpexlyNodeType, Partial<Record<SpexlyNodeType, EdgeKind>>>> = {
+  idea: { techStack: 'uses-tech' },
+  feature: { feature: 'depends-on', idea: 'implements', techStack: 'uses-tech' },
+  screen: { feature: 'renders', idea: 'implements', techStack: 'uses-tech' },
+  prompt: { feature: 'implements', screen: 'implements' },
+};
+
+/** Suggested kind for a new connection between two node types */
+export function inferEdgeKind(
+  sourceType: SpexlyNodeType | undefined,
+  targetType: SpexlyNodeType | undefined
+): EdgeKind {
+  if (!sourceType || !targetType) return DEFAULT_EDGE_KIND;
+  return INFERRED_KINDS[sourceType]?.[targetType] ?? DEFAULT_EDGE_KIND;
+}
+
+/**
+ * Human-readable relation from the point of view of one endpoint, e.g.
+ * "depends on" for the source of a depends-on edge, "is required by" for its target.
+ */
+export function describeEdgeRelation(kind: EdgeKind, direction: 'incoming' | 'outgoing'): string {
+  const config = EDGE_KIND_CONFIGS[kind];
+  return direction === 'outgoing' ? config.label : config.inverseLabel;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { buildAgentScaffoldZip, generateAgentScaffold } from './agentScaffoldGenerator'
+import type { SpexlyNode, SpexlyEdge } from '@/types/nodes'
+
+// ─── Fixtures ────────────────────────────────────────────
+
+function makeFeature(id: string, featureName: string, overrides: Record<string, unknown> = {}): SpexlyNode {
+  return {
+    id,
+    type: 'feature',
+    position: { x: 0, y: 0 },
+    data: {
+      featureName,
+      summary: '',
+      userStory: `As a tutor I want ${featureName.toLowerCase()}`,
+      acceptanceCriteria: [`${featureName} works on mobile`],
+      implementationSteps: [],
+      dependencies: [],
+      priority: 'Must',
+      status: 'Planned',
+      effort: 'M',
+      tags: [],
+      expanded: false,
+      completed: false,
+      ...overrides,
+    },
+  } as unknown as SpexlyNode
+}
+
+const nodes = [
+  {
+    id: 'idea-1',
+    type: 'idea',
+    position: { x: 0, y: 0 },
+    data: {
+      appName: 'TutorBook',
+      description: 'Booking for independent tutors',
+      corePatterns: ['Validate input at the API boundary'],
+      constraints: ['Works offline'],
+    },
+  },
+  {
+    id: 'tech-1',
+    type: 'techStack',
+    position: { x: 0, y: 0 },
+    data: { category: 'Frontend', toolName: 'Next.js', version: '15', rationale: 'SSR' },
+  },
+  {
+    id: 'screen-1',
+    type: 'screen',
+    position: { x: 0, y: 0 },
+    data: { screenName: 'Calendar', purpose: 'Week view of sessions', keyElements: [] },
+  },
+  makeFeature('f-pay', 'Payments', { dependencies: ['Booking'] }),
+  makeFeature('f-book', 'Booking'),
+  makeFeature('f-book-2', 'Booking!'),
+] as unknown as SpexlyNode[]
+
+const edges: SpexlyEdge[] = [{ id: 'e1', source: 'f-book', target: 'screen-1' }] as SpexlyEdge[]
+
+// ─── Tests ───────────────────────────────────────────────
+
+describe('generateAgentScaffold', () => {
+  const files = generateAgentScaffold(nodes, edges)
+  const file = (path: string) => files.find((f) => f.path === path)?.content ?? ''
+
+  it('writes entry points, shared context files and one spec per feature and screen', () => {
+    expect(files.map((f) => f.path)).toEqual([
+      'CLAUDE.md',
+      'AGENTS.md',
+      '.cursor/rules/project.mdc',
+      '.context/index.md',
+      '.context/tech-stack.md',
+      '.context/tasks.md',
+      '.context/features/booking.md',
+      '.context/features/booking-2.md',
+      '.context/features/payments.md',
+      '.context/screens/calendar.md',
+    ])
+  })
+
+  it('points the entry points at the spec files in build order', () => {
+    const claude = file('CLAUDE.md')
+    expect(claude).toMatch(/^# TutorBook\n/)
+    expect(claude).toContain('1. Booking (`.context/features/booking.md`) · Planned, Must')
+    expect(claude).toContain('3. Payments (`.context/features/payments.md`) · Planned, Must')
+    expect(claude).toContain('- Validate input at the API boundary')
+    expect(claude).toContain('- Constraint: Works offline')
+    expect(file('AGENTS.md')).toBe(claude)
+    expect(file('.cursor/rules/project.mdc')).toMatch(/^---\ndescription: TutorBook plan, specs and working rules\nalwaysApply: true\n---\n/)
+    expect(file('.context/index.md')).toContain('- [Calendar](screens/calendar.md) · Week view of sessions')
+  })
+
+  it('writes standalone spec files without the section divider', () => {
+    const booking = file('.context/features/booking.md')
+    expect(booking).toMatch(/^# Booking\n/)
+    expect(booking).toContain('- Booking works on mobile')
+    expect(booking).toContain('screen: Calendar')
+    expect(booking.trimEnd().endsWith('---')).toBe(false)
+    expect(file('.context/tech-stack.md')).toContain('- **Next.js** (15) · Frontend')
+    expect(file('.context/tasks.md')).toContain('- [ ] **Payments**')
+  })
+})
+
+describe('buildAgentScaffoldZip', () => {
+  it('zips every file at its repository path', async () => {
+    const blob = await buildAgentScaffoldZip([
+      { path: 'CLAUDE.md', content: '# App\n' },
+      { path: '.context/features/login.md', content: '# Login\n' },
+    ])
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer())
+
+    expect(await zip.file('.context/features/login.md')?.async('string')).toBe('# Login\n')
+    expect(await zip.file('CLAUDE.md')?.async('string')).toBe('# App\n')
+  })
+})
@@ -0,0 +1,229 @@
+import JSZip from 'jszip';
+import type { SpexlyEdge, SpexlyNode } from '@/types/nodes';
+import { analyzeFeatureDependencies } from '@/lib/graph/featureDependencies';
+import { getStringArray } from './exportContextUtils';
+import { pushFeature, pushScreen } from './contextFileGenerator';
+import { generateTodoMarkdown } from './todoMarkdownGenerator';
+
+export interface AgentScaffoldFile {
+  /** Path from the repository root */
+  path: string;
+  content: string;
+}
+
+interface SpecLink {
+  name: string;
+  path: string;
+  detail: string;
+}
+
+function slugifyFileName(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug.slice(0, 60) || 'untitled';
+}
+
+/** Slugs that stay unique within one folder: `login`, `login-2`, ... */
+function uniqueSlug(name: string, used: Set<string>): string {
+  const base = slugifyFileName(name);
+  let slug = base;
+  for (let i = 2; used.has(slug); i++) slug = `${base}-${i}`;
+  used.add(slug);
+  return slug;
+}
+
+/** Drops the trailing `---` rule the shared section writers append */
+function toFileContent(sections: string[]): string {
+  while (sections.length > 0 && (sections[sections.length - 1] === '' || sections[sections.length - 1] === '---')) {
+    sections.pop();
+  }
+  return sections.join('\n') + '\n';
+}
+
+/** Features in dependency build order; features in or behind a cycle go last */
+function orderFeatures(nodes: SpexlyNode[], edges: SpexlyEdge[]): SpexlyNode[] {
+  const features = nodes.filter((n) => n.type === 'feature');
+  const order = analyzeFeatureDependencies(nodes, edges).buildOrder;
+  const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  return [...features].sort((a, b) => rank(a.id) - rank(b.id));
+}
+
+function generateTechStackFile(nodes: SpexlyNode[]): string {
+  const sections: string[] = ['# Tech Stack', ''];
+  const techStackNodes = nodes.filter((n) => n.type === 'techStack');
+
+  if (techStackNodes.length === 0) {
+    sections.push('No stack chosen yet. Propose one before writing code.');
+    return toFileContent(sections);
+  }
+
+  techStackNodes.forEach((node) => {
+    if (node.type !== 'techStack') return;
+    const data = node.data;
+    const versionInfo = data.version ? ` (${data.version})` : '';
+    sections.push(`- **${data.toolName}**${versionInfo} · ${data.category}`);
+    if (data.rationale) sections.push(`  - Rationale: ${data.rationale}`);
+    if (data.configurationNotes) sections.push(`  - Configuration: ${data.configurationNotes}`);
+  });
+  sections.push('');
+  sections.push('Do not swap these for alternatives without asking.');
+  return toFileContent(sections);
+}
+
+function generateIndexFile(nodes: SpexlyNode[], features: SpecLink[], screens: SpecLink[]): string {
+  const ideaNode = nodes.find((n) => n.type === 'idea');
+  const sections: string[] = [];
+
+  sections.push(`# ${ideaNode?.type === 'idea' && ideaNode.data.appName ? ideaNode.data.appName : 'Project'} Context`);
+  sections.push('');
+  sections.push('> Generated from Spexly. Each feature and screen has its own spec file.');
+  sections.push('');
+
+  if (ideaNode?.type === 'idea') {
+    const data = ideaNode.data;
+    if (data.description) sections.push(`**Project Description:** ${data.description}`);
+    if (data.targetUser) sections.push(`**Target User:** ${data.targetUser}`);
+    if (data.coreProblem) sections.push(`**Core Problem:** ${data.coreProblem}`);
+    sections.push('');
+    if (data.projectArchitecture) {
+      sections.push('## Architecture');
+      sections.push('');
+      sections.push(data.projectArchitecture);
+      sections.push('');
+    }
+  }
+
+  sections.push('## Files');
+  sections.push('');
+  sections.push('- [Tech stack](tech-stack.md)');
+  sections.push('- [Task checklist](tasks.md)');
+  sections.push('');
+
+  if (features.length > 0) {
+    sections.push('## Features (build order)');
+    sections.push('');
+    features.forEach((link, idx) => {
+      sections.push(`${idx + 1}. [${link.name}](${link.path.replace('.context/', '')}) · ${link.detail}`);
+    });
+    sections.push('');
+  }
+
+  if (screens.length > 0) {
+    sections.push('## Screens');
+    sections.push('');
+    screens.forEach((link) => {
+      sections.push(`- [${link.name}](${link.path.replace('.context/', '')})${link.detail ? ` · ${link.detail}` : ''}`);
+    });
+    sections.push('');
+  }
+
+  return toFileContent(sections);
+}
+
+/** Shared body of CLAUDE.md, AGENTS.md and the Cursor rule */
+function generateEntryPointBody(nodes: SpexlyNode[], features: SpecLink[]): string[] {
+  const ideaNode = nodes.find((n) => n.type === 'idea');
+  const idea = ideaNode?.type === 'idea' ? ideaNode.data : null;
+  const sections: string[] = [];
+
+  if (idea?.description) {
+    sections.push(idea.description);
+    sections.push('');
+  }
+
+  sections.push('## Start Here');
+  sections.push('');
+  sections.push('- `.context/index.md`: project overview and a map of every spec file');
+  sections.push('- `.context/tech-stack.md`: the stack to use');
+  sections.push('- `.context/tasks.md`: task checklist; tick items off as you finish them');
+  sections.push('- `.context/features/` and `.context/screens/`: one spec per feature and screen');
+  sections.push('');
+
+  if (features.length > 0) {
+    sections.push('## Build Order');
+    sections.push('');
+    features.forEach((link, idx) => {
+      sections.push(`${idx + 1}. ${link.name} (\`${link.path}\`) · ${link.detail}`);
+    });
+    sections.push('');
+  }
+
+  sections.push('## Working Rules');
+  sections.push('');
+  sections.push("- Read a feature's spec before changing code for it; its acceptance criteria are the definition of done.");
+  sections.push('- Stay on the stack in `.context/tech-stack.md` and ask before adding a dependency.');
+  sections.push('- Update `.context/tasks.md` and the feature spec when the plan changes.');
+  getStringArray(idea?.corePatterns).forEach((pattern) => sections.push(`- ${pattern}`));
+  getStringArray(idea?.constraints).forEach((constraint) => sections.push(`- Constraint: ${constraint}`));
+  sections.push('');
+
+  return sections;
+}
+
+/**
+ * Multi-file agent context bundle for a fresh repository: a spec file per
+ * feature and screen under `.context/`, a tech stack file, a task checklist,
+ * and CLAUDE.md / AGENTS.md / `.cursor/rules` entry points that point at
+ * them. Features are listed in dependency build order.
+ */
+export function generateAgentScaffold(nodes: SpexlyNode[], edges: SpexlyEdge[] = []): AgentScaffoldFile[] {
+  const ideaNode = nodes.find((n) => n.type === 'idea');
+  const appName = ideaNode?.type === 'idea' && ideaNode.data.appName ? ideaNode.data.appName : 'Project';
+  const files: AgentScaffoldFile[] = [];
+  const featureLinks: SpecLink[] = [];
+  const screenLinks: SpecLink[] = [];
+
+  const featureSlugs = new Set<string>();
+  orderFeatures(nodes, edges).forEach((node) => {
+    if (node.type !== 'feature') return;
+    const name = node.data.featureName || 'Untitled feature';
+    const path = `.context/features/${uniqueSlug(name, featureSlugs)}.md`;
+    const sections: string[] = [];
+    pushFeature(sections, node, '#', nodes, edges);
+    files.push({ path, content: toFileContent(sections) });
+    featureLinks.push({ name, path, detail: `${node.data.status}, ${node.data.priority}` });
+  });
+
+  const screenSlugs = new Set<string>();
+  nodes.forEach((node) => {
+    if (node.type !== 'screen') return;
+    const name = node.data.screenName || 'Untitled screen';
+    const path = `.context/screens/${uniqueSlug(name, screenSlugs)}.md`;
+    const sections: string[] = [];
+    pushScreen(sections, node, '#');
+    files.push({ path, content: toFileContent(sections) });
+    screenLinks.push({ name, path, detail: node.data.purpose });
+  });
+
+  const body = generateEntryPointBody(nodes, featureLinks);
+
+  files.unshift(
+    { path: 'CLAUDE.md', content: toFileContent([`# ${appName}`, '', ...body]) },
+    { path: 'AGENTS.md', content: toFileContent([`# ${appName}`, '', ...body]) },
+    {
+      path: '.cursor/rules/project.mdc',
+      content: toFileContent([
+        '---',
+        `description: ${appName} plan, specs and working rules`,
+        'alwaysApply: true',
+        '---',
+        '',
+        ...body,
+      ]),
+    },
+    { path: '.context/index.md', content: generateIndexFile(nodes, featureLinks, screenLinks) },
+    { path: '.context/tech-stack.md', content: generateTechStackFile(nodes) },
+    { path: '.context/tasks.md', content: generateTodoMarkdown(nodes) }
+  );
+
+  return files;
+}
+
+/** Zips scaffold files, keeping their repository paths */
+export async function buildAgentScaffoldZip(files: AgentScaffoldFile[]): Promise<Blob> {
+  const zip = new JSZip();
+  files.forEach((file) => zip.file(file.path, file.content));
+  return zip.generateAsync({ type: 'blob' });
+}
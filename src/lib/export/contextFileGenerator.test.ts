@@ -136,6 +136,26 @@ function makePromptNode(overrides: Record<string, unknown> = {}): SpexlyNode {
 
 // ─── Tests ───────────────────────────────────────────────
 
+function makeGroupNode(id: string, label: string, y = 0): SpexlyNode {
+  return {
+    id,
+    type: 'group',
+    position: { x: 0, y },
+    width: 720,
+    height: 480,
+    data: {
+      label,
+      description: '',
+      collapsed: false,
+      expandedHeight: null,
+      tags: [],
+      estimatedHours: null,
+      expanded: false,
+      completed: false,
+    },
+  } as SpexlyNode
+}
+
 describe('generateContextFile', () => {
   it('includes Spexly header', () => {
     const output = generateContextFile([])
@@ -212,6 +232,41 @@ describe('generateContextFile', () => {
     expect(output).toContain('Server actions were more reliable')
   })
 
+  it('summarizes prompt runs per feature and per tool', () => {
+    const feature = makeFeatureNode()
+    const prompt = makePromptNode({
+      runs: [
+        {
+          id: 'run-1',
+          version: 1,
+          promptText: 'Implement Auth',
+          targetTool: 'Claude',
+          ranAt: '2026-10-01T10:00:00.000Z',
+          outcome: 'worked',
+          output: '',
+          refinement: 'Add token refresh tests',
+        },
+      ],
+    })
+    const edges: SpexlyEdge[] = [{ id: 'e-feature-prompt', source: feature.id, target: prompt.id }]
+
+    const output = generateContextFile([feature, prompt], edges)
+    expect(output).toContain('- Runs: 1, latest v1 worked; follow-up: Add token refresh tests')
+    expect(output).toContain('## Prompt Learnings by Tool')
+    expect(output).toContain('- **Claude:** 1 run, 100% worked (1 worked, 0 partly, 0 failed). What worked: "Implement Auth"')
+  })
+
+  it('describes how connected nodes relate using edge kinds', () => {
+    const feature = makeFeatureNode()
+    const screen = makeScreenNode()
+    const edges: SpexlyEdge[] = [
+      { id: 'e-screen-feature', source: screen.id, target: feature.id, data: { kind: 'renders' } },
+    ]
+
+    const output = generateContextFile([feature, screen], edges)
+    expect(output).toContain('- [Incoming] is rendered by screen: Dashboard')
+  })
+
   it('includes planning metadata in feature section', () => {
     const output = generateContextFile([makeFeatureNode({ estimatedHours: 8, tags: ['auth'] })])
     expect(output).toContain('Planning Metadata')
@@ -220,6 +275,19 @@ describe('generateContextFile', () => {
     expect(output).toContain('Tags: auth')
   })
 
+  it('sections features under their group with demoted headings', () => {
+    const nodes = [
+      makeGroupNode('g1', 'Accounts'),
+      { ...makeFeatureNode(), parentId: 'g1' } as SpexlyNode,
+      { ...makeFeatureNode({ featureName: 'Reports' }), id: 'feature-2' } as SpexlyNode,
+    ]
+    const output = generateContextFile(nodes)
+    expect(output).toContain('### Accounts')
+    expect(output).toContain('#### Auth')
+    expect(output).toContain('### Ungrouped')
+    expect(output).toContain('#### Reports')
+  })
+
   it('handles empty canvas without error', () => {
     const output = generateContextFile([])
     expect(typeof output).toBe('string')
@@ -6,6 +6,9 @@ import {
   getStringArray,
   getRelatedPromptNodes,
 } from './exportContextUtils';
+import { sectionByGroup } from '@/lib/groups/groups';
+import { getLatestPromptRun, getPromptRuns } from '@/lib/prompts/promptRuns';
+import { summarizePromptLearnings } from './promptLearningsGenerator';
 
 /**
  * Generates a .context/index.md file from the canvas nodes
@@ -98,204 +101,259 @@ export function generateContextFile(nodes: SpexlyNode[], edges: SpexlyEdge[] = [
   if (featureNodes.length > 0) {
     sections.push('## Features');
     sections.push('');
+    pushGroupedSections(sections, featureNodes, nodes, (node, heading) =>
+      pushFeature(sections, node, heading, nodes, edges)
+    );
+  }
 
-    featureNodes.forEach((node) => {
-      if (node.type === 'feature') {
-        const data = node.data;
-        sections.push(`### ${data.featureName}`);
-        sections.push('');
+  // Screens
+  if (screenNodes.length > 0) {
+    sections.push('## Screens / UI Components');
+    sections.push('');
+    pushGroupedSections(sections, screenNodes, nodes, (node, heading) => pushScreen(sections, node, heading));
+  }
 
-        if (data.userStory) {
-          sections.push(`**User Story:** ${data.userStory}`);
-          sections.push('');
-        }
+  // Constraints
+  if (ideaNode?.type === 'idea' && ideaNode.data.constraints?.length > 0) {
+    sections.push('## Technical Constraints');
+    sections.push('');
+    ideaNode.data.constraints.forEach((constraint) => {
+      sections.push(`- ${constraint}`);
+    });
+    sections.push('');
+  }
 
-        if (data.acceptanceCriteria?.length > 0) {
-          sections.push('**Acceptance Criteria:**');
-          data.acceptanceCriteria.forEach((criterion) => {
-            sections.push(`- ${criterion}`);
-          });
-          sections.push('');
-        }
+  // Collect all technical constraints from features
+  const featureConstraints = featureNodes
+    .filter((n) => n.type === 'feature' && n.data.technicalConstraints)
+    .map((n) => (n.type === 'feature' ? n.data.technicalConstraints : ''))
+    .filter(Boolean);
 
-        if (data.implementationSteps?.length > 0) {
-          sections.push('**Implementation Steps:**');
-          data.implementationSteps.forEach((step, idx) => {
-            sections.push(`${idx + 1}. ${step}`);
-          });
-          sections.push('');
-        }
+  if (featureConstraints.length > 0) {
+    sections.push('## Feature-Specific Constraints');
+    sections.push('');
+    featureConstraints.forEach((constraint) => {
+      sections.push(`- ${constraint}`);
+    });
+    sections.push('');
+  }
 
-        if (data.aiContext) {
-          sections.push(`**AI Context:** ${data.aiContext}`);
-          sections.push('');
-        }
+  // Prompt outcomes across every prompt node
+  const promptLearnings = summarizePromptLearnings(nodes);
+  if (promptLearnings.length > 0) {
+    sections.push('## Prompt Learnings by Tool');
+    sections.push('');
+    sections.push(...promptLearnings);
+    sections.push('');
+  }
 
-        if (data.codeReferences?.length > 0) {
-          sections.push('**Code References:**');
-          data.codeReferences.forEach((ref) => {
-            sections.push(`- ${ref}`);
-          });
-          sections.push('');
-        }
+  return sections.join('\n');
+}
 
-        if (data.relatedFiles?.length > 0) {
-          sections.push('**Related Files:**');
-          data.relatedFiles.forEach((file) => {
-            sections.push(`- \`${file}\``);
-          });
-          sections.push('');
-        }
+/**
+ * Writes `items` under one `###` heading per group frame (plus an Ungrouped
+ * heading), demoting each item to `####`. Canvases without groups keep the
+ * flat `###` list.
+ */
+function pushGroupedSections(
+  sections: string[],
+  items: SpexlyNode[],
+  nodes: SpexlyNode[],
+  pushItem: (node: SpexlyNode, heading: string) => void
+): void {
+  const groupSections = sectionByGroup(items, nodes);
+  if (!groupSections.some((section) => section.group)) {
+    items.forEach((node) => pushItem(node, '###'));
+    return;
+  }
 
-        if (data.testingRequirements) {
-          sections.push(`**Testing:** ${data.testingRequirements}`);
-          sections.push('');
-        }
+  groupSections.forEach(({ group, nodes: groupItems }) => {
+    sections.push(`### ${group ? group.data.label || 'Group' : 'Ungrouped'}`);
+    sections.push('');
+    if (group?.data.description) {
+      sections.push(group.data.description);
+      sections.push('');
+    }
+    groupItems.forEach((node) => pushItem(node, '####'));
+  });
+}
 
-        if (data.dependencies?.length > 0) {
-          sections.push('**Dependencies:**');
-          data.dependencies.forEach((dep) => {
-            sections.push(`- ${dep}`);
-          });
-          sections.push('');
-        }
+/** Appends one feature's spec under `heading`, ending with a `---` rule */
+export function pushFeature(
+  sections: string[],
+  node: SpexlyNode,
+  heading: string,
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[]
+): void {
+  if (node.type !== 'feature') return;
+  const data = node.data;
+  sections.push(`${heading} ${data.featureName}`);
+  sections.push('');
 
-        sections.push('**Planning Metadata:**');
-        sections.push(`- Priority: ${data.priority}`);
-        sections.push(`- Status: ${data.status}`);
-        sections.push(`- Effort: ${data.effort}`);
-        if (typeof data.estimatedHours === 'number') {
-          sections.push(`- Estimated Hours: ${data.estimatedHours}`);
-        }
-        if (data.tags?.length > 0) {
-          sections.push(`- Tags: ${data.tags.join(', ')}`);
-        }
-        if (data.metrics) {
-          sections.push(`- Metrics: ${data.metrics}`);
-        }
-        if (data.risks) {
-          sections.push(`- Risks: ${data.risks}`);
-        }
-        if (data.notes) {
-          sections.push(`- Notes: ${data.notes}`);
-        }
-        sections.push('');
-
-        const connectedContext = getConnectedContext(node.id, nodes, edges);
-        if (connectedContext.length > 0) {
-          sections.push('**Connected Canvas Context:**');
-          connectedContext.forEach(({ node: connectedNode, direction }) => {
-            const directionLabel = direction === 'incoming' ? 'Incoming' : 'Outgoing';
-            sections.push(`- [${directionLabel}] ${connectedNode.type}: ${getNodeDisplayName(connectedNode)}`);
-          });
-          sections.push('');
-        }
+  if (data.userStory) {
+    sections.push(`**User Story:** ${data.userStory}`);
+    sections.push('');
+  }
 
-        const relatedPrompts = getRelatedPromptNodes(node, nodes, edges);
-        if (relatedPrompts.length > 0) {
-          sections.push('**Prompt Learnings:**');
-          relatedPrompts.forEach((promptNode, idx) => {
-            if (promptNode.type !== 'prompt') return;
-            sections.push(`- Prompt ${idx + 1} (${promptNode.data.targetTool})`);
-            if (promptNode.data.resultNotes) {
-              sections.push(`  - Result: ${truncate(promptNode.data.resultNotes, 240)}`);
-            }
-            if (promptNode.data.promptText) {
-              sections.push(`  - Prompt: ${truncate(promptNode.data.promptText, 240)}`);
-            }
-            const breakdown = getStringArray(promptNode.data.breakdown);
-            if (breakdown.length > 0) {
-              sections.push(`  - Breakdown: ${breakdown.slice(0, 4).join(' | ')}`);
-            }
-            const refinements = getStringArray(promptNode.data.refinements);
-            if (refinements.length > 0) {
-              sections.push(`  - Refinements: ${refinements.slice(0, 3).join(' | ')}`);
-            }
-          });
-          sections.push('');
-        }
+  if (data.acceptanceCriteria?.length > 0) {
+    sections.push('**Acceptance Criteria:**');
+    data.acceptanceCriteria.forEach((criterion) => {
+      sections.push(`- ${criterion}`);
+    });
+    sections.push('');
+  }
 
-        sections.push('---');
-        sections.push('');
-      }
+  if (data.implementationSteps?.length > 0) {
+    sections.push('**Implementation Steps:**');
+    data.implementationSteps.forEach((step, idx) => {
+      sections.push(`${idx + 1}. ${step}`);
     });
+    sections.push('');
   }
 
-  // Screens
-  if (screenNodes.length > 0) {
-    sections.push('## Screens / UI Components');
+  if (data.aiContext) {
+    sections.push(`**AI Context:** ${data.aiContext}`);
     sections.push('');
+  }
 
-    screenNodes.forEach((node) => {
-      if (node.type === 'screen') {
-        const data = node.data;
-        sections.push(`### ${data.screenName}`);
-        sections.push('');
+  if (data.codeReferences?.length > 0) {
+    sections.push('**Code References:**');
+    data.codeReferences.forEach((ref) => {
+      sections.push(`- ${ref}`);
+    });
+    sections.push('');
+  }
 
-        if (data.purpose) {
-          sections.push(`**Purpose:** ${data.purpose}`);
-          sections.push('');
-        }
+  if (data.relatedFiles?.length > 0) {
+    sections.push('**Related Files:**');
+    data.relatedFiles.forEach((file) => {
+      sections.push(`- \`${file}\``);
+    });
+    sections.push('');
+  }
 
-        if (data.componentHierarchy?.length > 0) {
-          sections.push('**Component Hierarchy:**');
-          data.componentHierarchy.forEach((component) => {
-            sections.push(`- ${component}`);
-          });
-          sections.push('');
-        }
+  if (data.testingRequirements) {
+    sections.push(`**Testing:** ${data.testingRequirements}`);
+    sections.push('');
+  }
 
-        if (data.keyElements?.length > 0) {
-          sections.push('**Key Elements:**');
-          data.keyElements.forEach((element) => {
-            sections.push(`- ${element}`);
-          });
-          sections.push('');
-        }
+  if (data.dependencies?.length > 0) {
+    sections.push('**Dependencies:**');
+    data.dependencies.forEach((dep) => {
+      sections.push(`- ${dep}`);
+    });
+    sections.push('');
+  }
 
-        if (data.aiContext) {
-          sections.push(`**AI Context:** ${data.aiContext}`);
-          sections.push('');
-        }
+  sections.push('**Planning Metadata:**');
+  sections.push(`- Priority: ${data.priority}`);
+  sections.push(`- Status: ${data.status}`);
+  sections.push(`- Effort: ${data.effort}`);
+  if (typeof data.estimatedHours === 'number') {
+    sections.push(`- Estimated Hours: ${data.estimatedHours}`);
+  }
+  if (data.tags?.length > 0) {
+    sections.push(`- Tags: ${data.tags.join(', ')}`);
+  }
+  if (data.metrics) {
+    sections.push(`- Metrics: ${data.metrics}`);
+  }
+  if (data.risks) {
+    sections.push(`- Risks: ${data.risks}`);
+  }
+  if (data.notes) {
+    sections.push(`- Notes: ${data.notes}`);
+  }
+  sections.push('');
 
-        if (data.codeReferences?.length > 0) {
-          sections.push('**Code References:**');
-          data.codeReferences.forEach((ref) => {
-            sections.push(`- ${ref}`);
-          });
-          sections.push('');
-        }
+  const connectedContext = getConnectedContext(node.id, nodes, edges);
+  if (connectedContext.length > 0) {
+    sections.push('**Connected Canvas Context:**');
+    connectedContext.forEach(({ node: connectedNode, direction, relation }) => {
+      const directionLabel = direction === 'incoming' ? 'Incoming' : 'Outgoing';
+      sections.push(`- [${directionLabel}] ${relation} ${connectedNode.type}: ${getNodeDisplayName(connectedNode)}`);
+    });
+    sections.push('');
+  }
 
-        sections.push('---');
-        sections.push('');
+  const relatedPrompts = getRelatedPromptNodes(node, nodes, edges);
+  if (relatedPrompts.length > 0) {
+    sections.push('**Prompt Learnings:**');
+    relatedPrompts.forEach((promptNode, idx) => {
+      if (promptNode.type !== 'prompt') return;
+      sections.push(`- Prompt ${idx + 1} (${promptNode.data.targetTool})`);
+      if (promptNode.data.resultNotes) {
+        sections.push(`  - Result: ${truncate(promptNode.data.resultNotes, 240)}`);
+      }
+      if (promptNode.data.promptText) {
+        sections.push(`  - Prompt: ${truncate(promptNode.data.promptText, 240)}`);
+      }
+      const breakdown = getStringArray(promptNode.data.breakdown);
+      if (breakdown.length > 0) {
+        sections.push(`  - Breakdown: ${breakdown.slice(0, 4).join(' | ')}`);
+      }
+      const refinements = getStringArray(promptNode.data.refinements);
+      if (refinements.length > 0) {
+        sections.push(`  - Refinements: ${refinements.slice(0, 3).join(' | ')}`);
+      }
+      const latestRun = getLatestPromptRun(promptNode.data);
+      if (latestRun) {
+        const runCount = getPromptRuns(promptNode.data).length;
+        sections.push(
+          `  - Runs: ${runCount}, latest v${latestRun.version} ${latestRun.outcome ?? 'unrated'}` +
+            (latestRun.refinement ? `; follow-up: ${truncate(latestRun.refinement, 160)}` : '')
+        );
       }
     });
+    sections.push('');
   }
 
-  // Constraints
-  if (ideaNode?.type === 'idea' && ideaNode.data.constraints?.length > 0) {
-    sections.push('## Technical Constraints');
+  sections.push('---');
+  sections.push('');
+}
+
+/** Appends one screen's spec under `heading`, ending with a `---` rule */
+export function pushScreen(sections: string[], node: SpexlyNode, heading: string): void {
+  if (node.type !== 'screen') return;
+  const data = node.data;
+  sections.push(`${heading} ${data.screenName}`);
+  sections.push('');
+
+  if (data.purpose) {
+    sections.push(`**Purpose:** ${data.purpose}`);
     sections.push('');
-    ideaNode.data.constraints.forEach((constraint) => {
-      sections.push(`- ${constraint}`);
+  }
+
+  if (data.componentHierarchy?.length > 0) {
+    sections.push('**Component Hierarchy:**');
+    data.componentHierarchy.forEach((component) => {
+      sections.push(`- ${component}`);
     });
     sections.push('');
   }
 
-  // Collect all technical constraints from features
-  const featureConstraints = featureNodes
-    .filter((n) => n.type === 'feature' && n.data.technicalConstraints)
-    .map((n) => (n.type === 'feature' ? n.data.technicalConstraints : ''))
-    .filter(Boolean);
+  if (data.keyElements?.length > 0) {
+    sections.push('**Key Elements:**');
+    data.keyElements.forEach((element) => {
+      sections.push(`- ${element}`);
+    });
+    sections.push('');
+  }
 
-  if (featureConstraints.length > 0) {
-    sections.push('## Feature-Specific Constraints');
+  if (data.aiContext) {
+    sections.push(`**AI Context:** ${data.aiContext}`);
     sections.push('');
-    featureConstraints.forEach((constraint) => {
-      sections.push(`- ${constraint}`);
+  }
+
+  if (data.codeReferences?.length > 0) {
+    sections.push('**Code References:**');
+    data.codeReferences.forEach((ref) => {
+      sections.push(`- ${ref}`);
     });
     sections.push('');
   }
 
-  return sections.join('\n');
+  sections.push('---');
+  sections.push('');
 }
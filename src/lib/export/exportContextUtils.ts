@@ -1,4 +1,5 @@
-import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+import type { SpexlyNode, SpexlyEdge, EdgeKind } from '@/types/nodes';
+import { describeEdgeRelation, getEdgeKind } from '@/lib/edges/edgeKinds';
 
 export function truncate(value: string, max: number): string {
   if (value.length <= max) return value;
@@ -24,18 +25,28 @@ export function getNodeDisplayName(node: SpexlyNode): string {
       return `${node.data.targetTool || 'AI'} Prompt`;
     case 'note':
       return node.data.title || 'Note';
+    case 'group':
+      return node.data.label || 'Group';
     default:
       return 'Node';
   }
 }
 
+export interface ConnectedContextEntry {
+  node: SpexlyNode;
+  direction: 'incoming' | 'outgoing';
+  kind: EdgeKind;
+  /** How the focal node relates to `node`, e.g. "depends on" or "is rendered by" */
+  relation: string;
+}
+
 export function getConnectedContext(
   featureId: string,
   allNodes: SpexlyNode[],
   allEdges: SpexlyEdge[]
-): Array<{ node: SpexlyNode; direction: 'incoming' | 'outgoing' }> {
+): ConnectedContextEntry[] {
   const nodeById = new Map(allNodes.map((n) => [n.id, n]));
-  const connections: Array<{ node: SpexlyNode; direction: 'incoming' | 'outgoing' }> = [];
+  const connections: ConnectedContextEntry[] = [];
   const seen = new Set<string>();
 
   allEdges.forEach((edge) => {
@@ -45,9 +56,13 @@ export function getConnectedContext(
     if (!connectedNode || seen.has(connectedNode.id)) return;
 
     seen.add(connectedNode.id);
+    const direction = edge.source === featureId ? 'outgoing' : 'incoming';
+    const kind = getEdgeKind(edge);
     connections.push({
       node: connectedNode,
-      direction: edge.source === featureId ? 'outgoing' : 'incoming',
+      direction,
+      kind,
+      relation: describeEdgeRelation(kind, direction),
     });
   });
 
@@ -276,9 +276,9 @@ export function generateProjectPDF(
       const connectedContext = getConnectedContext(node.id, nodes, edges);
       if (connectedContext.length > 0) {
         addText(state, 'Connected Canvas Context:', 10, true);
-        connectedContext.forEach(({ node: connectedNode, direction }) => {
+        connectedContext.forEach(({ node: connectedNode, direction, relation }) => {
           const directionLabel = direction === 'incoming' ? 'Incoming' : 'Outgoing';
-          addBullet(state, `${directionLabel}: ${connectedNode.type} -> ${getNodeDisplayName(connectedNode)}`);
+          addBullet(state, `${directionLabel} (${relation}): ${connectedNode.type} -> ${getNodeDisplayName(connectedNode)}`);
         });
       }
 
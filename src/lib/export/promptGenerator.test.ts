@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest'
-import { generateFeaturePrompt, generateCursorPlanPrompt, generateFullStackPrompt } from './promptGenerator'
+import {
+  generateFeaturePrompt,
+  generateCursorPlanPrompt,
+  generateFullStackPrompt,
+  generateMilestonePlanPrompt,
+} from './promptGenerator'
 import type { SpexlyNode, SpexlyEdge } from '@/types/nodes'
 
 // ─── Fixtures ────────────────────────────────────────────
@@ -246,6 +251,17 @@ describe('generateFeaturePrompt', () => {
     expect(output).toContain('Using server actions avoided client-side auth bugs')
     expect(output).toContain('Create auth endpoint')
   })
+
+  it('labels connected context with the edge relationship', () => {
+    const feature = makeFeatureNode()
+    const screen = makeScreenNode()
+    const edges: SpexlyEdge[] = [
+      { id: 'e-feature-screen', source: feature.id, target: screen.id, data: { kind: 'depends-on' } },
+    ]
+    const output = generateFeaturePrompt(feature, [feature, screen], edges)
+
+    expect(output).toContain('- [Outgoing] depends on screen: Dashboard')
+  })
 })
 
 // ─── generateCursorPlanPrompt ────────────────────────────
@@ -296,6 +312,42 @@ describe('generateCursorPlanPrompt', () => {
   })
 })
 
+// ─── generateMilestonePlanPrompt ─────────────────────────
+
+describe('generateMilestonePlanPrompt', () => {
+  const milestone = { id: 'm1', name: 'v1', target_date: '2026-03-01' }
+
+  it('lists milestone features in dependency build order', () => {
+    const ui = makeFeatureNode({ featureName: 'Dashboard UI', milestoneId: 'm1', dependencies: [], dependencyIds: ['feature-api'] })
+    const api = { ...makeFeatureNode({ featureName: 'Stats API', milestoneId: 'm1', dependencies: [] }), id: 'feature-api' } as SpexlyNode
+    const later = { ...makeFeatureNode({ featureName: 'Billing', milestoneId: 'm2' }), id: 'feature-later' } as SpexlyNode
+    const output = generateMilestonePlanPrompt(milestone, [ui, api, later, makeScreenNode({ milestoneId: 'm1' })])
+
+    expect(output).toContain('# Milestone Plan: v1')
+    expect(output).toContain('Milestone: v1 (target Mar 1, 2026)')
+    expect(output).toContain('Scope: 2 feature(s), 1 screen(s)')
+    expect(output).toContain('1. Stats API\n2. Dashboard UI')
+    expect(output).toContain('- [ ] Create endpoint')
+    expect(output).toContain('- [ ] Dashboard: Main overview page')
+    expect(output).not.toContain('Billing')
+  })
+
+  it('calls out prerequisites planned outside the milestone', () => {
+    const ui = makeFeatureNode({ featureName: 'Dashboard UI', milestoneId: 'm1', dependencies: [], dependencyIds: ['feature-db'] })
+    const db = { ...makeFeatureNode({ featureName: 'Schema', milestoneId: null, dependencies: [] }), id: 'feature-db' } as SpexlyNode
+    const output = generateMilestonePlanPrompt(milestone, [ui, db])
+
+    expect(output).toContain('Prerequisites outside this milestone: Schema')
+    expect(output).not.toContain('## Schema')
+  })
+
+  it('handles a milestone with nothing planned', () => {
+    const output = generateMilestonePlanPrompt(milestone, [makeFeatureNode()])
+    expect(output).toContain('No features are planned for this milestone yet.')
+    expect(output).not.toContain('## Build Order')
+  })
+})
+
 // ─── generateFullStackPrompt ─────────────────────────────
 
 describe('generateFullStackPrompt', () => {
@@ -1,4 +1,8 @@
 import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+import type { ProjectMilestone } from '@/types/project';
+import { analyzeFeatureDependencies } from '@/lib/graph/featureDependencies';
+import { getMilestoneLabel } from '@/lib/milestones/milestones';
+import { getPromptRuns, PROMPT_RUN_OUTCOME_LABELS } from '@/lib/prompts/promptRuns';
 import {
   truncate,
   getNodeDisplayName,
@@ -162,9 +166,9 @@ export function generateFeaturePrompt(
   if (connectedContext.length > 0) {
     sections.push('## Connected Canvas Context');
     sections.push('');
-    connectedContext.forEach(({ node: connectedNode, direction }) => {
+    connectedContext.forEach(({ node: connectedNode, direction, relation }) => {
       const directionLabel = direction === 'incoming' ? 'Incoming' : 'Outgoing';
-      sections.push(`- [${directionLabel}] ${connectedNode.type}: ${getNodeDisplayName(connectedNode)}`);
+      sections.push(`- [${directionLabel}] ${relation} ${connectedNode.type}: ${getNodeDisplayName(connectedNode)}`);
     });
     sections.push('');
   }
@@ -206,6 +210,16 @@ export function generateFeaturePrompt(
         sections.push(`**Observed Output:** ${truncate(promptNode.data.actualOutput, 300)}`);
         sections.push('');
       }
+      const runs = getPromptRuns(promptNode.data);
+      if (runs.length > 0) {
+        sections.push('**Run History:**');
+        runs.slice(-5).forEach((run) => {
+          const outcome = run.outcome ? PROMPT_RUN_OUTCOME_LABELS[run.outcome].toLowerCase() : 'unrated';
+          const followUp = run.refinement ? ` — follow-up: ${truncate(run.refinement, 200)}` : '';
+          sections.push(`- v${run.version} (${run.targetTool}, ${run.ranAt.slice(0, 10)}): ${outcome}${followUp}`);
+        });
+        sections.push('');
+      }
       const contextUsed = getStringArray(promptNode.data.contextUsed);
       if (contextUsed.length > 0) {
         sections.push(`**Context Used:** ${contextUsed.join(', ')}`);
@@ -351,8 +365,8 @@ export function generateCursorPlanPrompt(
   if (connectedContext.length > 0) {
     sections.push('## Connected Canvas Context');
     sections.push('');
-    connectedContext.forEach(({ node: connectedNode, direction }) => {
-      sections.push(`- ${direction}: ${connectedNode.type} -> ${getNodeDisplayName(connectedNode)}`);
+    connectedContext.forEach(({ node: connectedNode, direction, relation }) => {
+      sections.push(`- ${direction} (${relation}): ${connectedNode.type} -> ${getNodeDisplayName(connectedNode)}`);
     });
     sections.push('');
   }
@@ -376,6 +390,116 @@ export function generateCursorPlanPrompt(
   return sections.join('\n');
 }
 
+/**
+ * Generates a Cursor Plan Mode prompt covering every feature in a milestone,
+ * in dependency build order. Dependencies on features outside the milestone
+ * are listed as prerequisites; features stuck in a dependency cycle go last.
+ */
+export function generateMilestonePlanPrompt(
+  milestone: Pick<ProjectMilestone, 'id' | 'name' | 'target_date'>,
+  allNodes: SpexlyNode[],
+  allEdges: SpexlyEdge[] = []
+): string {
+  const ideaNode = allNodes.find((n) => n.type === 'idea');
+  const features = allNodes.filter((n) => n.type === 'feature' && n.data.milestoneId === milestone.id);
+  const screens = allNodes.filter((n) => n.type === 'screen' && n.data.milestoneId === milestone.id);
+  const milestoneFeatureIds = new Set(features.map((n) => n.id));
+  const nameById = new Map(allNodes.map((n) => [n.id, getNodeDisplayName(n)]));
+
+  // Analyse the whole canvas so dependencies on other milestones are still seen
+  const analysis = analyzeFeatureDependencies(allNodes, allEdges);
+  const ordered = analysis.buildOrder.filter((id) => milestoneFeatureIds.has(id));
+  const orderedIds = new Set(ordered);
+  const unordered = features.filter((n) => !orderedIds.has(n.id)).map((n) => n.id);
+
+  const sections: string[] = [];
+  sections.push(`# Milestone Plan: ${milestone.name}`);
+  sections.push('');
+
+  sections.push('## Overview');
+  sections.push('');
+  if (ideaNode?.type === 'idea' && ideaNode.data.appName) {
+    sections.push(`Project: ${ideaNode.data.appName}${ideaNode.data.description ? ` - ${ideaNode.data.description}` : ''}`);
+  }
+  sections.push(`Milestone: ${getMilestoneLabel(milestone)}`);
+  sections.push(`Scope: ${features.length} feature(s), ${screens.length} screen(s)`);
+  sections.push('');
+
+  if (features.length === 0) {
+    sections.push('No features are planned for this milestone yet.');
+    sections.push('');
+  }
+
+  if (ordered.length > 0 || unordered.length > 0) {
+    sections.push('## Build Order');
+    sections.push('');
+    ordered.forEach((id, idx) => {
+      sections.push(`${idx + 1}. ${nameById.get(id)}`);
+    });
+    unordered.forEach((id) => {
+      sections.push(`- ${nameById.get(id)} (blocked by a dependency cycle)`);
+    });
+    sections.push('');
+  }
+
+  [...ordered, ...unordered].forEach((id) => {
+    const node = allNodes.find((n) => n.id === id);
+    if (node?.type !== 'feature') return;
+    const data = node.data;
+
+    sections.push(`## ${data.featureName}`);
+    sections.push('');
+    if (data.summary) {
+      sections.push(data.summary);
+      sections.push('');
+    }
+    sections.push(`- Priority: ${data.priority} · Status: ${data.status} · Effort: ${data.effort}`);
+    const prerequisites = (analysis.dependsOn.get(id) ?? []).filter((dep) => !milestoneFeatureIds.has(dep));
+    if (prerequisites.length > 0) {
+      sections.push(`- Prerequisites outside this milestone: ${prerequisites.map((dep) => nameById.get(dep)).join(', ')}`);
+    }
+    sections.push('');
+
+    if (data.implementationSteps?.length > 0) {
+      sections.push('### Implementation Checklist');
+      sections.push('');
+      data.implementationSteps.forEach((step) => {
+        sections.push(`- [ ] ${step}`);
+      });
+      sections.push('');
+    }
+
+    if (data.acceptanceCriteria?.length > 0) {
+      sections.push('### Acceptance Criteria');
+      sections.push('');
+      data.acceptanceCriteria.forEach((criterion) => {
+        sections.push(`- [ ] ${criterion}`);
+      });
+      sections.push('');
+    }
+
+    if (data.testingRequirements) {
+      sections.push('### Testing Requirements');
+      sections.push('');
+      sections.push(data.testingRequirements);
+      sections.push('');
+    }
+  });
+
+  if (screens.length > 0) {
+    sections.push('## Screens');
+    sections.push('');
+    screens.forEach((node) => {
+      if (node.type !== 'screen') return;
+      const purpose = node.data.purpose ? `: ${truncate(node.data.purpose, 160)}` : '';
+      sections.push(`- [${node.data.completed ? 'x' : ' '}] ${node.data.screenName}${purpose}`);
+    });
+    sections.push('');
+  }
+
+  return sections.join('\n');
+}
+
 /**
  * Generates a full-project prompt for Bolt/Lovable style generators
  */
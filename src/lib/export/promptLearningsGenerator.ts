@@ -0,0 +1,73 @@
+import type { SpexlyNode } from '@/types/nodes';
+import { summarizePromptRunsByTool, type ToolPromptStats } from '@/lib/prompts/promptRuns';
+import { truncate } from './exportContextUtils';
+
+function formatOutcomeCounts(stats: ToolPromptStats): string {
+  const rate = stats.successRate === null ? 'no rated runs' : `${stats.successRate}% worked`;
+  return `${stats.runs} run${stats.runs === 1 ? '' : 's'}, ${rate} (${stats.worked} worked, ${stats.partial} partly, ${stats.failed} failed)`;
+}
+
+function formatPromptLength(stats: ToolPromptStats): string | null {
+  const { worked, failed } = stats.averageWords;
+  if (worked === null || failed === null) return null;
+  return `Prompts that worked averaged ${worked} words; prompts that failed averaged ${failed}.`;
+}
+
+/** One summary line per tool, for embedding in other exports */
+export function summarizePromptLearnings(nodes: SpexlyNode[]): string[] {
+  return summarizePromptRunsByTool(nodes).map((stats) => {
+    const example = stats.whatWorked[0];
+    const worked = example ? ` What worked: "${truncate(example.promptText.replace(/\s+/g, ' '), 160)}"` : '';
+    return `- **${stats.tool}:** ${formatOutcomeCounts(stats)}.${worked}`;
+  });
+}
+
+/**
+ * Markdown report of prompt runs across the canvas, per target tool: how
+ * often runs worked, the prompts that worked, and follow-ups written after
+ * runs that didn't. Empty string when no prompt has been run.
+ */
+export function generatePromptLearnings(nodes: SpexlyNode[]): string {
+  const allStats = summarizePromptRunsByTool(nodes);
+  if (allStats.length === 0) return '';
+
+  const sections: string[] = [];
+
+  sections.push('# Prompt Learnings');
+  sections.push('');
+  sections.push('> What worked across prompt runs, per target tool');
+  sections.push('');
+
+  for (const stats of allStats) {
+    sections.push(`## ${stats.tool}`);
+    sections.push('');
+    sections.push(formatOutcomeCounts(stats) + '.');
+    const length = formatPromptLength(stats);
+    if (length) sections.push(length);
+    sections.push('');
+
+    if (stats.whatWorked.length > 0) {
+      sections.push('### What Worked');
+      sections.push('');
+      stats.whatWorked.forEach((example) => {
+        sections.push(`**Run v${example.version}**`);
+        sections.push('');
+        sections.push('```');
+        sections.push(truncate(example.promptText, 1200));
+        sections.push('```');
+        sections.push('');
+      });
+    }
+
+    if (stats.lessons.length > 0) {
+      sections.push('### Follow-ups After Weak Runs');
+      sections.push('');
+      stats.lessons.forEach((lesson) => {
+        sections.push(`- ${truncate(lesson.replace(/\s+/g, ' '), 300)}`);
+      });
+      sections.push('');
+    }
+  }
+
+  return sections.join('\n');
+}
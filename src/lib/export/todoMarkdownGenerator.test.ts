@@ -36,6 +36,8 @@ function makeFeatureNode(
     implementationSteps?: string[]
     risks?: string
     dependencies?: string[]
+    milestoneId?: string
+    tags?: string[]
   } = {}
 ): SpexlyNode {
   return {
@@ -61,11 +63,34 @@ function makeFeatureNode(
       testingRequirements: '',
       relatedFiles: [],
       technicalConstraints: '',
-      tags: [],
+      tags: opts.tags ?? [],
       estimatedHours: null,
       version: 1,
       expanded: false,
       completed: false,
+      ...(opts.milestoneId ? { milestoneId: opts.milestoneId } : {}),
+    },
+  } as SpexlyNode
+}
+
+const v1 = { id: 'm1', name: 'v1', target_date: '2026-03-01' }
+
+function makeGroupNode(id: string, label: string, y = 0): SpexlyNode {
+  return {
+    id,
+    type: 'group',
+    position: { x: 0, y },
+    width: 720,
+    height: 480,
+    data: {
+      label,
+      description: '',
+      collapsed: false,
+      expandedHeight: null,
+      tags: [],
+      estimatedHours: null,
+      expanded: false,
+      completed: false,
     },
   } as SpexlyNode
 }
@@ -152,6 +177,39 @@ describe('generateTodoMarkdown', () => {
     const output = generateTodoMarkdown(nodes)
     expect(output).toContain('1/1 features (100%)')
   })
+
+  it('sections features by group with a roll-up line when groups exist', () => {
+    const nodes = [
+      makeGroupNode('g1', 'Auth'),
+      { ...makeFeatureNode('Login', 'Built'), parentId: 'g1' } as SpexlyNode,
+      { ...makeFeatureNode('Signup', 'Planned'), parentId: 'g1' } as SpexlyNode,
+      makeFeatureNode('Billing', 'Planned'),
+    ]
+    const output = generateTodoMarkdown(nodes)
+    expect(output).toContain('## Auth')
+    expect(output).toContain('**Status:** In Progress · 1/2 features built')
+    expect(output).toContain('### Backlog')
+    expect(output.indexOf('## Auth')).toBeLessThan(output.indexOf('## Ungrouped'))
+    expect(output.indexOf('## Ungrouped')).toBeLessThan(output.indexOf('**Billing**'))
+    expect(output).not.toMatch(/^## Backlog/m)
+  })
+
+  it('limits the list to a milestone and names it in the header', () => {
+    const nodes = [
+      makeIdeaNode(),
+      makeFeatureNode('Login', 'Built', { milestoneId: 'm1' }),
+      makeFeatureNode('Signup', 'Planned', { milestoneId: 'm1' }),
+      makeFeatureNode('Billing', 'Planned', { milestoneId: 'm2' }),
+      makeFeatureNode('Search', 'Planned'),
+    ]
+    const output = generateTodoMarkdown(nodes, { milestone: v1 })
+    expect(output).toContain('# TestApp TODO: v1')
+    expect(output).toContain('**Milestone:** v1 (target Mar 1, 2026)')
+    expect(output).toContain('**Signup**')
+    expect(output).not.toContain('Billing')
+    expect(output).not.toContain('Search')
+    expect(output).toContain('**Progress:** 1/2 features (50%)')
+  })
 })
 
 // ─── generateGitHubIssues ────────────────────────────────
@@ -203,9 +261,25 @@ describe('generateGitHubIssues', () => {
     expect(issues[0].labels).toContain('blocked')
   })
 
+  it('adds feature tags as labels', () => {
+    const issues = generateGitHubIssues([makeFeatureNode('F', 'Planned', { priority: 'Nice', effort: 'L', tags: ['auth', ' mvp ', 'auth', ''] })])
+    expect(issues[0].labels).toEqual(['priority: low', 'effort: large', 'auth', 'mvp'])
+  })
+
   it('ignores non-feature nodes', () => {
     const nodes: SpexlyNode[] = [makeIdeaNode(), makeFeatureNode('Auth', 'Planned')]
     const issues = generateGitHubIssues(nodes)
     expect(issues).toHaveLength(1)
   })
+
+  it('exports only milestone features, tagged with the milestone title', () => {
+    const nodes = [
+      makeFeatureNode('Login', 'Planned', { milestoneId: 'm1' }),
+      makeFeatureNode('Billing', 'Planned', { milestoneId: 'm2' }),
+    ]
+    const issues = generateGitHubIssues(nodes, { milestone: v1 })
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ title: 'Login', milestone: 'v1' })
+    expect(generateGitHubIssues(nodes)[0]).not.toHaveProperty('milestone')
+  })
 })
@@ -1,10 +1,23 @@
-import type { SpexlyNode } from '@/types/nodes';
+import type { FeatureNodeData, SpexlyNode } from '@/types/nodes';
+import type { ProjectMilestone } from '@/types/project';
+import { getGroupRollup, sectionByGroup } from '@/lib/groups/groups';
+import { getMilestoneLabel, scopeNodesToMilestone } from '@/lib/milestones/milestones';
+
+type ExportMilestone = Pick<ProjectMilestone, 'id' | 'name' | 'target_date'>;
+
+export interface MilestoneExportOptions {
+  /** Limit the export to the features planned for this milestone */
+  milestone?: ExportMilestone;
+}
 
 /**
  * Generates a TODO.md file from canvas nodes
- * Organized by feature status for tracking implementation progress
+ * Organized by feature status for tracking implementation progress, and by
+ * group frame first when the canvas has groups
  */
-export function generateTodoMarkdown(nodes: SpexlyNode[]): string {
+export function generateTodoMarkdown(allNodes: SpexlyNode[], options: MilestoneExportOptions = {}): string {
+  const { milestone } = options;
+  const nodes = milestone ? scopeNodesToMilestone(allNodes, milestone.id) : allNodes;
   const ideaNode = nodes.find((n) => n.type === 'idea');
   const featureNodes = nodes.filter((n) => n.type === 'feature');
 
@@ -12,17 +25,61 @@ export function generateTodoMarkdown(nodes: SpexlyNode[]): string {
 
   // Header
   const projectName = ideaNode?.type === 'idea' ? ideaNode.data.appName : 'Project';
-  sections.push(`# ${projectName} TODO`);
+  sections.push(milestone ? `# ${projectName} TODO: ${milestone.name}` : `# ${projectName} TODO`);
   sections.push('');
   sections.push('> Generated from Spexly');
   sections.push('');
 
+  if (milestone) {
+    sections.push(`**Milestone:** ${getMilestoneLabel(milestone)}`);
+    sections.push('');
+  }
+
   if (ideaNode?.type === 'idea' && ideaNode.data.description) {
     sections.push(`**Project:** ${ideaNode.data.description}`);
     sections.push('');
   }
 
-  // Group features by status
+  const groupSections = sectionByGroup(featureNodes, nodes);
+  if (groupSections.some((section) => section.group)) {
+    // One section per group frame, each with its own status lists
+    groupSections.forEach(({ group, nodes: groupFeatures }) => {
+      sections.push(`## ${group ? group.data.label || 'Group' : 'Ungrouped'}`);
+      sections.push('');
+      if (group?.data.description) {
+        sections.push(group.data.description);
+        sections.push('');
+      }
+      if (group) {
+        const rollup = getGroupRollup(nodes, group.id);
+        const built = groupFeatures.filter((n) => n.type === 'feature' && n.data.status === 'Built').length;
+        const status = rollup.status ? `**Status:** ${rollup.status} · ` : '';
+        sections.push(`${status}${built}/${groupFeatures.length} features built`);
+        sections.push('');
+      }
+      pushStatusSections(sections, groupFeatures, '###');
+    });
+  } else {
+    pushStatusSections(sections, featureNodes, '##');
+  }
+
+  // Footer with statistics
+  sections.push('---');
+  sections.push('');
+  const totalFeatures = featureNodes.length;
+  const completedFeatures = featureNodes.filter((n) => n.type === 'feature' && n.data.status === 'Built').length;
+  const progress = totalFeatures > 0 ? Math.round((completedFeatures / totalFeatures) * 100) : 0;
+  sections.push(`**Progress:** ${completedFeatures}/${totalFeatures} features (${progress}%)`);
+  sections.push('');
+
+  return sections.join('\n');
+}
+
+/**
+ * Appends the Backlog / In Progress / Blocked / Broken / Done lists for the
+ * given features. `heading` is the markdown heading marker for each list.
+ */
+function pushStatusSections(sections: string[], featureNodes: SpexlyNode[], heading: string): void {
   const planned = featureNodes.filter((n) => n.type === 'feature' && n.data.status === 'Planned');
   const inProgress = featureNodes.filter((n) => n.type === 'feature' && n.data.status === 'In Progress');
   const built = featureNodes.filter((n) => n.type === 'feature' && n.data.status === 'Built');
@@ -31,7 +88,7 @@ export function generateTodoMarkdown(nodes: SpexlyNode[]): string {
 
   // Backlog
   if (planned.length > 0) {
-    sections.push('## Backlog');
+    sections.push(`${heading} Backlog`);
     sections.push('');
     planned.forEach((node) => {
       if (node.type === 'feature') {
@@ -62,7 +119,7 @@ export function generateTodoMarkdown(nodes: SpexlyNode[]): string {
 
   // In Progress
   if (inProgress.length > 0) {
-    sections.push('## In Progress');
+    sections.push(`${heading} In Progress`);
     sections.push('');
     inProgress.forEach((node) => {
       if (node.type === 'feature') {
@@ -87,7 +144,7 @@ export function generateTodoMarkdown(nodes: SpexlyNode[]): string {
 
   // Blocked
   if (blocked.length > 0) {
-    sections.push('## Blocked');
+    sections.push(`${heading} Blocked`);
     sections.push('');
     blocked.forEach((node) => {
       if (node.type === 'feature') {
@@ -106,7 +163,7 @@ export function generateTodoMarkdown(nodes: SpexlyNode[]): string {
 
   // Broken
   if (broken.length > 0) {
-    sections.push('## Broken / Needs Fix');
+    sections.push(`${heading} Broken / Needs Fix`);
     sections.push('');
     broken.forEach((node) => {
       if (node.type === 'feature') {
@@ -122,7 +179,7 @@ export function generateTodoMarkdown(nodes: SpexlyNode[]): string {
 
   // Done
   if (built.length > 0) {
-    sections.push('## Done');
+    sections.push(`${heading} Done`);
     sections.push('');
     built.forEach((node) => {
       if (node.type === 'feature') {
@@ -135,125 +192,128 @@ export function generateTodoMarkdown(nodes: SpexlyNode[]): string {
       }
     });
   }
+}
 
-  // Footer with statistics
-  sections.push('---');
-  sections.push('');
-  const totalFeatures = featureNodes.length;
-  const completedFeatures = built.length;
-  const progress = totalFeatures > 0 ? Math.round((completedFeatures / totalFeatures) * 100) : 0;
-  sections.push(`**Progress:** ${completedFeatures}/${totalFeatures} features (${progress}%)`);
-  sections.push('');
+export interface GitHubIssueDraft {
+  title: string;
+  body: string;
+  labels: string[];
+}
 
-  return sections.join('\n');
+/**
+ * Builds the title, markdown body and labels of a feature's GitHub issue.
+ * Labels come from priority, effort, blocked status and the feature's tags.
+ */
+export function buildGitHubIssue(data: FeatureNodeData): GitHubIssueDraft {
+  const bodyParts: string[] = [];
+
+  // User Story
+  if (data.userStory) {
+    bodyParts.push('## User Story');
+    bodyParts.push('');
+    bodyParts.push(data.userStory);
+    bodyParts.push('');
+  }
+
+  // Problem
+  if (data.problem) {
+    bodyParts.push('## Problem');
+    bodyParts.push('');
+    bodyParts.push(data.problem);
+    bodyParts.push('');
+  }
+
+  // Acceptance Criteria
+  if (data.acceptanceCriteria?.length > 0) {
+    bodyParts.push('## Acceptance Criteria');
+    bodyParts.push('');
+    data.acceptanceCriteria.forEach((criterion) => {
+      bodyParts.push(`- [ ] ${criterion}`);
+    });
+    bodyParts.push('');
+  }
+
+  // Implementation Steps
+  if (data.implementationSteps?.length > 0) {
+    bodyParts.push('## Implementation Steps');
+    bodyParts.push('');
+    data.implementationSteps.forEach((step, idx) => {
+      bodyParts.push(`${idx + 1}. ${step}`);
+    });
+    bodyParts.push('');
+  }
+
+  // Technical Context
+  if (data.aiContext) {
+    bodyParts.push('## Technical Context');
+    bodyParts.push('');
+    bodyParts.push(data.aiContext);
+    bodyParts.push('');
+  }
+
+  // Code References
+  if (data.codeReferences?.length > 0) {
+    bodyParts.push('## Code References');
+    bodyParts.push('');
+    data.codeReferences.forEach((ref) => {
+      bodyParts.push(`- ${ref}`);
+    });
+    bodyParts.push('');
+  }
+
+  // Testing
+  if (data.testingRequirements) {
+    bodyParts.push('## Testing Requirements');
+    bodyParts.push('');
+    bodyParts.push(data.testingRequirements);
+    bodyParts.push('');
+  }
+
+  // Dependencies
+  if (data.dependencies?.length > 0) {
+    bodyParts.push('## Dependencies');
+    bodyParts.push('');
+    data.dependencies.forEach((dep) => {
+      bodyParts.push(`- ${dep}`);
+    });
+    bodyParts.push('');
+  }
+
+  // Labels based on priority and effort
+  const labels: string[] = [];
+  if (data.priority === 'Must') labels.push('priority: high');
+  else if (data.priority === 'Should') labels.push('priority: medium');
+  else labels.push('priority: low');
+
+  if (data.effort === 'XS' || data.effort === 'S') labels.push('effort: small');
+  else if (data.effort === 'M') labels.push('effort: medium');
+  else labels.push('effort: large');
+
+  if (data.status === 'Blocked') labels.push('blocked');
+
+  // Tags carry over as-is
+  for (const tag of data.tags ?? []) {
+    const label = tag.trim();
+    if (label && !labels.includes(label)) labels.push(label);
+  }
+
+  return { title: data.featureName, body: bodyParts.join('\n'), labels };
 }
 
 /**
- * Generates GitHub Issues JSON format from feature nodes
+ * Generates GitHub Issues JSON format from feature nodes. With a milestone,
+ * only its features are exported and each issue carries the milestone title.
  */
-export function generateGitHubIssues(nodes: SpexlyNode[]): Array<{
-  title: string;
-  body: string;
-  labels: string[];
-}> {
-  const featureNodes = nodes.filter((n) => n.type === 'feature');
+export function generateGitHubIssues(
+  nodes: SpexlyNode[],
+  options: MilestoneExportOptions = {}
+): Array<GitHubIssueDraft & { milestone?: string }> {
+  const { milestone } = options;
+  const scoped = milestone ? scopeNodesToMilestone(nodes, milestone.id) : nodes;
 
-  return featureNodes.map((node) => {
-    if (node.type !== 'feature') {
-      return { title: '', body: '', labels: [] };
-    }
-
-    const data = node.data;
-    const bodyParts: string[] = [];
-
-    // User Story
-    if (data.userStory) {
-      bodyParts.push('## User Story');
-      bodyParts.push('');
-      bodyParts.push(data.userStory);
-      bodyParts.push('');
-    }
-
-    // Problem
-    if (data.problem) {
-      bodyParts.push('## Problem');
-      bodyParts.push('');
-      bodyParts.push(data.problem);
-      bodyParts.push('');
-    }
-
-    // Acceptance Criteria
-    if (data.acceptanceCriteria?.length > 0) {
-      bodyParts.push('## Acceptance Criteria');
-      bodyParts.push('');
-      data.acceptanceCriteria.forEach((criterion) => {
-        bodyParts.push(`- [ ] ${criterion}`);
-      });
-      bodyParts.push('');
-    }
-
-    // Implementation Steps
-    if (data.implementationSteps?.length > 0) {
-      bodyParts.push('## Implementation Steps');
-      bodyParts.push('');
-      data.implementationSteps.forEach((step, idx) => {
-        bodyParts.push(`${idx + 1}. ${step}`);
-      });
-      bodyParts.push('');
-    }
-
-    // Technical Context
-    if (data.aiContext) {
-      bodyParts.push('## Technical Context');
-      bodyParts.push('');
-      bodyParts.push(data.aiContext);
-      bodyParts.push('');
-    }
-
-    // Code References
-    if (data.codeReferences?.length > 0) {
-      bodyParts.push('## Code References');
-      bodyParts.push('');
-      data.codeReferences.forEach((ref) => {
-        bodyParts.push(`- ${ref}`);
-      });
-      bodyParts.push('');
-    }
-
-    // Testing
-    if (data.testingRequirements) {
-      bodyParts.push('## Testing Requirements');
-      bodyParts.push('');
-      bodyParts.push(data.testingRequirements);
-      bodyParts.push('');
-    }
-
-    // Dependencies
-    if (data.dependencies?.length > 0) {
-      bodyParts.push('## Dependencies');
-      bodyParts.push('');
-      data.dependencies.forEach((dep) => {
-        bodyParts.push(`- ${dep}`);
-      });
-      bodyParts.push('');
-    }
-
-    // Labels based on priority and effort
-    const labels: string[] = [];
-    if (data.priority === 'Must') labels.push('priority: high');
-    else if (data.priority === 'Should') labels.push('priority: medium');
-    else labels.push('priority: low');
-
-    if (data.effort === 'XS' || data.effort === 'S') labels.push('effort: small');
-    else if (data.effort === 'M') labels.push('effort: medium');
-    else labels.push('effort: large');
-
-    if (data.status === 'Blocked') labels.push('blocked');
-
-    return {
-      title: data.featureName,
-      body: bodyParts.join('\n'),
-      labels,
-    };
-  });
+  return scoped.flatMap((node) =>
+    node.type === 'feature'
+      ? [{ ...buildGitHubIssue(node.data), ...(milestone ? { milestone: milestone.name } : {}) }]
+      : []
+  );
 }
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatToolPrompts,
+  generateToolPrompts,
+  TOOL_PROMPT_PROFILES,
+  type PromptExportTool,
+} from './toolPromptExporters'
+import type { SpexlyNode, SpexlyEdge } from '@/types/nodes'
+
+// ─── Fixtures ────────────────────────────────────────────
+
+function makeFeature(id: string, featureName: string, overrides: Record<string, unknown> = {}): SpexlyNode {
+  return {
+    id,
+    type: 'feature',
+    position: { x: 0, y: 0 },
+    data: {
+      featureName,
+      summary: `${featureName} for tutors`,
+      userStory: `As a tutor I want ${featureName.toLowerCase()}`,
+      acceptanceCriteria: [`${featureName} works on mobile`],
+      dependencies: [],
+      technicalConstraints: '',
+      priority: 'Must',
+      status: 'Planned',
+      effort: 'M',
+      expanded: false,
+      completed: false,
+      ...overrides,
+    },
+  } as unknown as SpexlyNode
+}
+
+const nodes: SpexlyNode[] = [
+  {
+    id: 'idea-1',
+    type: 'idea',
+    position: { x: 0, y: 0 },
+    data: {
+      appName: 'TutorBook',
+      description: 'Booking and payments for independent tutors',
+      targetUser: 'Independent tutors',
+      coreProblem: 'Scheduling happens over text messages',
+      projectArchitecture: 'Server-rendered pages with a thin API layer',
+      corePatterns: ['Validate input at the API boundary'],
+      constraints: ['Works offline for viewing the schedule'],
+      expanded: false,
+      completed: false,
+    },
+  },
+  {
+    id: 'tech-1',
+    type: 'techStack',
+    position: { x: 0, y: 0 },
+    data: { category: 'Frontend', toolName: 'Next.js', version: '15', notes: '', expanded: false, completed: false },
+  },
+  {
+    id: 'screen-1',
+    type: 'screen',
+    position: { x: 0, y: 0 },
+    data: { screenName: 'Calendar', purpose: 'Week view of sessions', expanded: false, completed: false },
+  },
+  makeFeature('f-pay', 'Payments', { dependencies: ['Booking'], priority: 'Should' }),
+  makeFeature('f-book', 'Booking', { technicalConstraints: 'Times stored in UTC' }),
+] as SpexlyNode[]
+
+const edges: SpexlyEdge[] = [{ id: 'e1', source: 'f-book', target: 'screen-1' }] as SpexlyEdge[]
+
+const tools = Object.keys(TOOL_PROMPT_PROFILES) as PromptExportTool[]
+
+// ─── Tests ───────────────────────────────────────────────
+
+describe('generateToolPrompts', () => {
+  it.each(tools)('matches the %s snapshot', (tool) => {
+    expect(generateToolPrompts(tool, nodes, edges)).toMatchSnapshot()
+  })
+
+  it('keeps every prompt and rules file within the tool budget', () => {
+    const many = [
+      ...nodes,
+      ...Array.from({ length: 40 }, (_, i) =>
+        makeFeature(`f-${i}`, `Feature ${i}`, { acceptanceCriteria: ['x'.repeat(200), 'y'.repeat(200)] })
+      ),
+    ]
+    for (const tool of tools) {
+      const { prompts, rulesFile } = generateToolPrompts(tool, many, edges)
+      const profile = TOOL_PROMPT_PROFILES[tool]
+      prompts.forEach((prompt) => expect(prompt.length).toBeLessThanOrEqual(profile.maxPromptLength))
+      expect(rulesFile.content.length).toBeLessThanOrEqual(profile.rules.maxLength)
+    }
+  })
+
+  it('moves features that do not fit a single-shot prompt into follow-ups', () => {
+    const many = [
+      ...nodes,
+      ...Array.from({ length: 30 }, (_, i) =>
+        makeFeature(`f-${i}`, `Feature ${i}`, { acceptanceCriteria: ['z'.repeat(300)] })
+      ),
+    ]
+    const { prompts } = generateToolPrompts('bolt', many, edges)
+
+    expect(prompts.length).toBeGreaterThan(1)
+    expect(prompts[0]).toMatch(/more features will follow in separate prompts\.$/)
+    expect(prompts[1]).toMatch(/^Add the "Feature \d+" feature to the existing app\./)
+  })
+
+  it('orders features by dependency and limits them to the selection', () => {
+    const { prompts } = generateToolPrompts('lovable', nodes, edges)
+    expect(prompts.map((prompt) => prompt.split('\n')[0])).toEqual([
+      'Build TutorBook: Booking and payments for independent tutors',
+      'Add the "Booking" feature to the existing app.',
+      'Add the "Payments" feature to the existing app.',
+    ])
+
+    expect(generateToolPrompts('lovable', nodes, edges, ['f-pay']).prompts).toHaveLength(2)
+  })
+})
+
+describe('formatToolPrompts', () => {
+  it('numbers prompts only when there are several', () => {
+    expect(formatToolPrompts(generateToolPrompts('replit', nodes, edges))).not.toContain('=== Prompt')
+    expect(formatToolPrompts(generateToolPrompts('windsurf', nodes, edges))).toContain('=== Prompt 3 of 3 ===')
+  })
+})
@@ -0,0 +1,313 @@
+import type { SpexlyEdge, SpexlyNode } from '@/types/nodes';
+import { analyzeFeatureDependencies } from '@/lib/graph/featureDependencies';
+import { getConnectedContext, getStringArray, truncate } from './exportContextUtils';
+
+export type PromptExportTool = 'bolt' | 'lovable' | 'replit' | 'windsurf';
+
+export interface ToolRulesFile {
+  filename: string;
+  content: string;
+  /** Where the tool expects the file */
+  placement: string;
+}
+
+export interface ToolPromptExport {
+  tool: PromptExportTool;
+  /**
+   * Prompts in the order to send them. Single-shot tools get one, plus a
+   * follow-up per feature that did not fit the first prompt.
+   */
+  prompts: string[];
+  rulesFile: ToolRulesFile;
+}
+
+export interface ToolPromptProfile {
+  label: string;
+  description: string;
+  /** single-shot: whole app in the first prompt; iterative: foundation first, then one prompt per feature */
+  style: 'single-shot' | 'iterative';
+  /** Character budget per prompt */
+  maxPromptLength: number;
+  /** Stack to ask for when the canvas has no tech stack nodes */
+  defaultStack: string[];
+  rules: { filename: string; placement: string; maxLength: number };
+  /** Closing instructions for the first prompt and for each feature prompt */
+  closing: { first: string[]; feature: string[] };
+}
+
+type FeatureNode = Extract<SpexlyNode, { type: 'feature' }>;
+
+/**
+ * Conventions per tool. Windsurf caps rules files at 6000 characters; the
+ * other budgets are conservative limits past which these tools start
+ * dropping detail from a prompt.
+ */
+export const TOOL_PROMPT_PROFILES: Record<PromptExportTool, ToolPromptProfile> = {
+  bolt: {
+    label: 'Bolt',
+    description: 'One-shot app prompt plus .bolt/prompt project rules',
+    style: 'single-shot',
+    maxPromptLength: 6000,
+    defaultStack: ['Vite + React + TypeScript', 'Tailwind CSS'],
+    rules: { filename: '.bolt/prompt', placement: 'Project root; Bolt adds it to every request', maxLength: 4000 },
+    closing: {
+      first: [
+        'Build the complete app in one pass, starting with layout and navigation.',
+        'Use realistic mock data wherever a backend is not connected yet.',
+      ],
+      feature: ['Keep the existing layout and components; only add what this feature needs.'],
+    },
+  },
+  lovable: {
+    label: 'Lovable',
+    description: 'Layout first, then one prompt per feature, plus project knowledge',
+    style: 'iterative',
+    maxPromptLength: 3000,
+    defaultStack: ['React + Vite + TypeScript', 'Tailwind CSS and shadcn/ui', 'Supabase for auth and data'],
+    rules: { filename: 'lovable-knowledge.md', placement: 'Paste into Project settings → Knowledge', maxLength: 10000 },
+    closing: {
+      first: [
+        'Set up the layout, navigation and an empty page for each screen.',
+        'Do not build feature logic yet; features follow one prompt at a time.',
+      ],
+      feature: [
+        'Only change the files this feature needs; do not restyle other pages.',
+        'Tell me what to check when you are done.',
+      ],
+    },
+  },
+  replit: {
+    label: 'Replit Agent',
+    description: 'One-shot app prompt plus replit.md preferences',
+    style: 'single-shot',
+    maxPromptLength: 5000,
+    defaultStack: [],
+    rules: { filename: 'replit.md', placement: 'Project root; Replit Agent reads it for project preferences', maxLength: 8000 },
+    closing: {
+      first: [
+        'Build this as a full-stack app with a real database and a runnable workflow.',
+        'Plan the build first and show me the plan before writing code.',
+      ],
+      feature: ['Extend the existing app; keep the current database schema unless this feature needs a change.'],
+    },
+  },
+  windsurf: {
+    label: 'Windsurf',
+    description: 'Cascade prompts per feature plus .windsurfrules',
+    style: 'iterative',
+    maxPromptLength: 6000,
+    defaultStack: [],
+    rules: { filename: '.windsurfrules', placement: 'Workspace root; Cascade applies it to every chat', maxLength: 6000 },
+    closing: {
+      first: ['Scaffold the project structure, layout and routing for these screens, then stop.'],
+      feature: [
+        'List the files you will create or change before editing.',
+        'Run the tests and fix failures before finishing.',
+      ],
+    },
+  },
+};
+
+function getIdea(nodes: SpexlyNode[]) {
+  const idea = nodes.find((n) => n.type === 'idea');
+  return idea?.type === 'idea' ? idea.data : null;
+}
+
+function getStackLines(nodes: SpexlyNode[], profile: ToolPromptProfile): string[] {
+  const stack = nodes.flatMap((n) =>
+    n.type === 'techStack' && n.data.toolName
+      ? [`- ${n.data.toolName}${n.data.version ? ` ${n.data.version}` : ''} (${n.data.category})`]
+      : []
+  );
+  return stack.length > 0 ? stack : profile.defaultStack.map((item) => `- ${item}`);
+}
+
+function getConstraintLines(nodes: SpexlyNode[]): string[] {
+  const idea = getIdea(nodes);
+  const constraints = [
+    ...getStringArray(idea?.constraints),
+    ...nodes.flatMap((n) => (n.type === 'feature' && n.data.technicalConstraints ? [n.data.technicalConstraints] : [])),
+  ];
+  return Array.from(new Set(constraints)).map((constraint) => `- ${truncate(constraint, 240)}`);
+}
+
+function getOverviewLines(nodes: SpexlyNode[]): string[] {
+  const idea = getIdea(nodes);
+  if (!idea) return [];
+  const lines = [`Build ${idea.appName || 'an app'}${idea.description ? `: ${idea.description}` : '.'}`];
+  if (idea.targetUser) lines.push(`Target user: ${idea.targetUser}`);
+  if (idea.coreProblem) lines.push(`Problem: ${idea.coreProblem}`);
+  return lines;
+}
+
+function getScreenLines(nodes: SpexlyNode[]): string[] {
+  return nodes.flatMap((n) =>
+    n.type === 'screen' && n.data.screenName
+      ? [`- ${n.data.screenName}${n.data.purpose ? `: ${truncate(n.data.purpose, 160)}` : ''}`]
+      : []
+  );
+}
+
+/** Selected features in dependency build order; features in a cycle go last */
+function orderFeatures(nodes: SpexlyNode[], edges: SpexlyEdge[], featureIds?: string[]): FeatureNode[] {
+  const features = nodes.filter(
+    (n): n is FeatureNode => n.type === 'feature' && (!featureIds || featureIds.includes(n.id))
+  );
+  const order = analyzeFeatureDependencies(nodes, edges).buildOrder;
+  const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  return [...features].sort((a, b) => rank(a.id) - rank(b.id));
+}
+
+/** Name, story and acceptance criteria; 'full' adds summary, screens and dependencies */
+function getFeatureLines(
+  feature: FeatureNode,
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[],
+  detail: 'brief' | 'full'
+): string[] {
+  const { data } = feature;
+  const lines = [`### ${data.featureName || 'Untitled feature'} (${data.priority})`];
+  if (detail === 'full' && data.summary) lines.push(data.summary);
+  if (data.userStory) lines.push(data.userStory);
+
+  const criteria = getStringArray(data.acceptanceCriteria);
+  if (criteria.length > 0) {
+    lines.push('Done when:');
+    criteria.forEach((criterion) => lines.push(`- ${criterion}`));
+  }
+
+  if (detail === 'full') {
+    const screens = getConnectedContext(feature.id, nodes, edges)
+      .filter((entry) => entry.node.type === 'screen')
+      .map((entry) => (entry.node.type === 'screen' ? entry.node.data.screenName : ''))
+      .filter(Boolean);
+    if (screens.length > 0) lines.push(`Screens: ${screens.join(', ')}`);
+    const dependencies = getStringArray(data.dependencies);
+    if (dependencies.length > 0) lines.push(`Builds on: ${dependencies.join(', ')}`);
+  }
+  return lines;
+}
+
+function joinBlocks(blocks: string[][]): string {
+  return blocks
+    .filter((block) => block.length > 0)
+    .map((block) => block.join('\n'))
+    .join('\n\n');
+}
+
+function section(heading: string, lines: string[]): string[] {
+  return lines.length > 0 ? [`## ${heading}`, ...lines] : [];
+}
+
+function clamp(text: string, max: number): string {
+  return text.length <= max ? text : truncate(text, max - 3);
+}
+
+function buildFeaturePrompt(
+  feature: FeatureNode,
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[],
+  profile: ToolPromptProfile
+): string {
+  const name = feature.data.featureName || 'Untitled feature';
+  return clamp(
+    joinBlocks([
+      [`Add the "${name}" feature to the existing app.`],
+      getFeatureLines(feature, nodes, edges, 'full'),
+      profile.closing.feature,
+    ]),
+    profile.maxPromptLength
+  );
+}
+
+function buildRulesFile(nodes: SpexlyNode[], profile: ToolPromptProfile): ToolRulesFile {
+  const idea = getIdea(nodes);
+  const blocks = [
+    [`# ${idea?.appName || 'Project'} rules`],
+    idea?.description ? [idea.description] : [],
+    section('Stack', [...getStackLines(nodes, profile), '- Do not swap these for alternatives.']),
+    section('Architecture', [
+      ...(idea?.projectArchitecture ? [truncate(idea.projectArchitecture, 800)] : []),
+      ...getStringArray(idea?.corePatterns).map((pattern) => `- ${pattern}`),
+    ]),
+    section('Constraints', getConstraintLines(nodes)),
+    section('Working agreement', [
+      '- Acceptance criteria in each prompt are the definition of done.',
+      '- Keep changes scoped to the feature being built.',
+      '- Ask before adding a new dependency.',
+    ]),
+  ];
+
+  // Drop trailing sections until the file fits the tool's limit
+  let content = joinBlocks(blocks);
+  while (content.length > profile.rules.maxLength && blocks.length > 1) {
+    blocks.splice(blocks.length - 2, 1);
+    content = joinBlocks(blocks);
+  }
+
+  return {
+    filename: profile.rules.filename,
+    content: clamp(content, profile.rules.maxLength),
+    placement: profile.rules.placement,
+  };
+}
+
+/**
+ * Prompts and rules file for one tool. Single-shot tools get the whole app
+ * in the first prompt, with features in build order until the budget runs
+ * out; iterative tools get a foundation prompt and then one prompt per
+ * feature. `featureIds` limits which features are included.
+ */
+export function generateToolPrompts(
+  tool: PromptExportTool,
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[] = [],
+  featureIds?: string[]
+): ToolPromptExport {
+  const profile = TOOL_PROMPT_PROFILES[tool];
+  const features = orderFeatures(nodes, edges, featureIds);
+  const head = [
+    getOverviewLines(nodes),
+    section('Tech stack', getStackLines(nodes, profile)),
+    section('Screens', getScreenLines(nodes)),
+  ];
+  const closing = profile.closing.first;
+  const prompts: string[] = [];
+
+  if (profile.style === 'iterative') {
+    prompts.push(clamp(joinBlocks([...head, closing]), profile.maxPromptLength));
+    features.forEach((feature) => prompts.push(buildFeaturePrompt(feature, nodes, edges, profile)));
+  } else {
+    const included: string[][] = [];
+    const overflow: FeatureNode[] = [];
+    const constraints = section('Constraints', getConstraintLines(nodes));
+    const render = (blocks: string[][]) =>
+      joinBlocks([...head, blocks.length > 0 ? ['## Features'] : [], ...blocks, constraints, closing]);
+
+    for (const feature of features) {
+      const block = getFeatureLines(feature, nodes, edges, 'brief');
+      if (overflow.length === 0 && render([...included, block]).length <= profile.maxPromptLength) {
+        included.push(block);
+      } else {
+        overflow.push(feature);
+      }
+    }
+
+    let first = render(included);
+    if (overflow.length > 0) {
+      first += `\n\n${overflow.length} more feature${overflow.length === 1 ? '' : 's'} will follow in separate prompts.`;
+    }
+    prompts.push(clamp(first, profile.maxPromptLength));
+    overflow.forEach((feature) => prompts.push(buildFeaturePrompt(feature, nodes, edges, profile)));
+  }
+
+  return { tool, prompts, rulesFile: buildRulesFile(nodes, profile) };
+}
+
+/** All prompts as one clipboard text, numbered when there are several */
+export function formatToolPrompts(result: ToolPromptExport): string {
+  if (result.prompts.length === 1) return result.prompts[0];
+  return result.prompts
+    .map((prompt, idx) => `=== Prompt ${idx + 1} of ${result.prompts.length} ===\n\n${prompt}`)
+    .join('\n\n');
+}
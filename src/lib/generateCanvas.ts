@@ -14,6 +14,7 @@ import type {
 } from '@/types/nodes';
 import { buildRichPrompt } from '@/lib/prompts/richPromptBuilder';
 import { normalizeFeatureList, normalizeScreenList } from '@/lib/input/normalizeItemList';
+import { resolveDependencyIds } from '@/lib/graph/featureDependencies';
 
 export interface GenerateCanvasInput {
   appName?: string;
@@ -299,13 +300,13 @@ export function generateCanvas(input: GenerateCanvasInput): GenerateCanvasOutput
     };
   });
 
-  const nodes: SpexlyNode[] = [
+  const nodes: SpexlyNode[] = resolveDependencyIds([
     ...(input.skipIdeaNode ? [] : [ideaNode]),
     ...featureNodes,
     ...screenNodes,
     ...techStackNodes,
     ...promptNodes,
-  ];
+  ]);
 
   // Generate edges
   const edges: SpexlyEdge[] = [];
@@ -318,7 +319,12 @@ export function generateCanvas(input: GenerateCanvasInput): GenerateCanvasOutput
 
     // Idea → each Tech Stack
     for (const tsNode of techStackNodes) {
-      edges.push({ id: `e-${ideaId}-${tsNode.id}`, source: ideaId, target: tsNode.id });
+      edges.push({
+        id: `e-${ideaId}-${tsNode.id}`,
+        source: ideaId,
+        target: tsNode.id,
+        data: { kind: 'uses-tech' },
+      });
     }
   }
 
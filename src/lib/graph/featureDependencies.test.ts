@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeFeatureDependencies,
+  getRemainingHours,
+  resolveDependencyIds,
+} from './featureDependencies';
+import type { FeatureNodeData, SpexlyEdge, SpexlyNode } from '@/types/nodes';
+
+function makeFeature(id: string, name: string, overrides: Partial<FeatureNodeData> = {}): SpexlyNode {
+  return {
+    id,
+    type: 'feature',
+    position: { x: 0, y: 0 },
+    data: {
+      featureName: name,
+      status: 'Planned',
+      effort: 'M',
+      dependencies: [],
+      estimatedHours: null,
+      completed: false,
+      expanded: false,
+      ...overrides,
+    },
+  } as SpexlyNode;
+}
+
+describe('featureDependencies', () => {
+  describe('getRemainingHours', () => {
+    it('prefers estimated hours, falls back to effort and is zero once built', () => {
+      const base = makeFeature('a', 'A').data as FeatureNodeData;
+      expect(getRemainingHours({ ...base, estimatedHours: 5 })).toBe(5);
+      expect(getRemainingHours({ ...base, effort: 'XL' })).toBe(32);
+      expect(getRemainingHours({ ...base, status: 'Built' })).toBe(0);
+      expect(getRemainingHours({ ...base, completed: true })).toBe(0);
+    });
+  });
+
+  describe('resolveDependencyIds', () => {
+    it('fuzzy-matches dependency names to feature ids', () => {
+      const nodes = [
+        makeFeature('auth', 'User Authentication'),
+        makeFeature('db', 'Database Setup'),
+        makeFeature('checkout', 'Checkout', { dependencies: ['user authentication feature', 'Payments'] }),
+      ];
+
+      const resolved = resolveDependencyIds(nodes);
+      const checkout = resolved.find((n) => n.id === 'checkout')!;
+      expect(checkout.data.dependencyIds).toEqual(['auth']);
+      expect(resolved[0]).toBe(nodes[0]);
+    });
+
+    it('only touches targeted features and drops stale ids', () => {
+      const nodes = [
+        makeFeature('a', 'Alpha', { dependencies: ['Beta'] }),
+        makeFeature('b', 'Beta', { dependencyIds: ['gone'], dependencies: ['Alpha'] }),
+      ];
+
+      const resolved = resolveDependencyIds(nodes, new Set(['b']));
+      expect(resolved[0].data.dependencyIds).toBeUndefined();
+      expect(resolved[1].data.dependencyIds).toEqual(['a']);
+    });
+  });
+
+  describe('analyzeFeatureDependencies', () => {
+    it('combines ids, names and typed edges and reports unresolved names', () => {
+      const nodes = [
+        makeFeature('a', 'Alpha'),
+        makeFeature('b', 'Beta', { dependencyIds: ['a'] }),
+        makeFeature('c', 'Gamma', { dependencies: ['Beta', 'Unknown Thing'] }),
+        makeFeature('d', 'Delta'),
+      ];
+      const edges: SpexlyEdge[] = [
+        { id: 'e1', source: 'd', target: 'c', data: { kind: 'depends-on' } },
+        { id: 'e2', source: 'a', target: 'd', data: { kind: 'blocks' } },
+        { id: 'e3', source: 'a', target: 'c' },
+      ];
+
+      const analysis = analyzeFeatureDependencies(nodes, edges);
+      expect(analysis.dependsOn.get('c')).toEqual(['b']);
+      expect(analysis.dependsOn.get('d')).toEqual(['c', 'a']);
+      expect(analysis.unresolved.get('c')).toEqual(['Unknown Thing']);
+      expect(analysis.buildOrder).toEqual(['a', 'b', 'c', 'd']);
+      expect(analysis.cycles).toEqual([]);
+    });
+
+    it('detects cycles and leaves them out of the build order', () => {
+      const nodes = [
+        makeFeature('a', 'Alpha', { dependencyIds: ['c'] }),
+        makeFeature('b', 'Beta', { dependencyIds: ['a'] }),
+        makeFeature('c', 'Gamma', { dependencyIds: ['b'] }),
+        makeFeature('d', 'Delta', { dependencyIds: ['c'] }),
+        makeFeature('e', 'Epsilon'),
+      ];
+
+      const analysis = analyzeFeatureDependencies(nodes, []);
+      expect(analysis.cycles).toHaveLength(1);
+      expect([...analysis.cyclicIds].sort()).toEqual(['a', 'b', 'c']);
+      expect(analysis.buildOrder).toEqual(['e']);
+    });
+
+    it('finds the longest remaining-work chain as the critical path', () => {
+      const nodes = [
+        makeFeature('a', 'Alpha', { effort: 'L' }),
+        makeFeature('b', 'Beta', { effort: 'S', dependencyIds: ['a'] }),
+        makeFeature('c', 'Gamma', { estimatedHours: 3 }),
+        makeFeature('d', 'Delta', { effort: 'XS', dependencyIds: ['b', 'c'] }),
+        makeFeature('e', 'Epsilon', { effort: 'M', status: 'Built' }),
+      ];
+
+      const { criticalPath } = analyzeFeatureDependencies(nodes, []);
+      expect(criticalPath.featureIds).toEqual(['a', 'b', 'd']);
+      expect(criticalPath.hours).toBe(16 + 4 + 2);
+    });
+
+    it('returns an empty critical path when everything is built', () => {
+      const nodes = [makeFeature('a', 'Alpha', { status: 'Built' })];
+      expect(analyzeFeatureDependencies(nodes, []).criticalPath).toEqual({ featureIds: [], hours: 0 });
+    });
+  });
+});
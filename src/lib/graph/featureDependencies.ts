@@ -0,0 +1,240 @@
+import { similarity } from '@/lib/import/fuzzyMatcher';
+import { EFFORT_HOURS } from '@/lib/constants';
+import { getEdgeKind } from '@/lib/edges/edgeKinds';
+import type { FeatureNodeData, SpexlyEdge, SpexlyNode } from '@/types/nodes';
+
+/** Minimum similarity for a dependency name to resolve to a feature */
+export const DEPENDENCY_MATCH_THRESHOLD = 0.75;
+
+type FeatureNode = Extract<SpexlyNode, { type: 'feature' }>;
+
+export interface CriticalPath {
+  /** Features on the longest remaining-work chain, dependencies first */
+  featureIds: string[];
+  /** Remaining hours along the chain (built features count as 0) */
+  hours: number;
+}
+
+export interface FeatureDependencyAnalysis {
+  /** Feature id → ids of the features it depends on */
+  dependsOn: Map<string, string[]>;
+  /** Feature id → dependency names that matched no feature */
+  unresolved: Map<string, string[]>;
+  /** Each cycle as the feature ids in one strongly connected component */
+  cycles: string[][];
+  cyclicIds: Set<string>;
+  /** Features in a valid build sequence, dependencies first. Excludes cycles and anything downstream of them. */
+  buildOrder: string[];
+  criticalPath: CriticalPath;
+}
+
+function isFeature(node: SpexlyNode): node is FeatureNode {
+  return node.type === 'feature';
+}
+
+function getStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/** Remaining hours for a feature: estimate if set, else its effort size; 0 once built */
+export function getRemainingHours(data: FeatureNodeData): number {
+  if (data.completed || data.status === 'Built') return 0;
+  if (typeof data.estimatedHours === 'number' && data.estimatedHours > 0) return data.estimatedHours;
+  return EFFORT_HOURS[data.effort] ?? EFFORT_HOURS.M;
+}
+
+/** Best-matching feature for a dependency name, or null below the threshold */
+export function matchDependencyName(
+  name: string,
+  features: FeatureNode[],
+  selfId: string
+): FeatureNode | null {
+  let best: FeatureNode | null = null;
+  let bestScore = 0;
+  for (const feature of features) {
+    if (feature.id === selfId) continue;
+    const score = similarity(name, feature.data.featureName || '');
+    if (score > bestScore) {
+      best = feature;
+      bestScore = score;
+    }
+  }
+  return bestScore >= DEPENDENCY_MATCH_THRESHOLD ? best : null;
+}
+
+/**
+ * Resolves the free-text `dependencies` of features to node ids, stored in
+ * `dependencyIds`. Used when features are imported or generated so links
+ * survive later renames. Only features in `targetIds` (default: all) are updated.
+ */
+export function resolveDependencyIds(nodes: SpexlyNode[], targetIds?: Set<string>): SpexlyNode[] {
+  const features = nodes.filter(isFeature);
+  if (features.length === 0) return nodes;
+  const featureIds = new Set(features.map((f) => f.id));
+
+  return nodes.map((node) => {
+    if (!isFeature(node) || (targetIds && !targetIds.has(node.id))) return node;
+    const names = getStringList(node.data.dependencies);
+    const ids = getStringList(node.data.dependencyIds).filter((id) => featureIds.has(id) && id !== node.id);
+
+    for (const name of names) {
+      const match = matchDependencyName(name, features, node.id);
+      if (match && !ids.includes(match.id)) ids.push(match.id);
+    }
+
+    if (ids.length === 0 && !node.data.dependencyIds) return node;
+    return { ...node, data: { ...node.data, dependencyIds: ids } };
+  });
+}
+
+/** Tarjan's strongly connected components; returns components with a cycle */
+function findCycles(ids: string[], dependsOn: Map<string, string[]>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const dep of dependsOn.get(id) ?? []) {
+      if (!indices.has(dep)) {
+        visit(dep);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(dep)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  for (const id of ids) {
+    if (!indices.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+/**
+ * Builds the feature dependency graph from three sources: resolved
+ * `dependencyIds`, free-text `dependencies` (fuzzy-matched by name) and
+ * typed edges (`depends-on` source → target, `blocks` target → source).
+ */
+export function analyzeFeatureDependencies(
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[]
+): FeatureDependencyAnalysis {
+  const features = nodes.filter(isFeature);
+  const featureById = new Map(features.map((f) => [f.id, f]));
+  const dependsOn = new Map<string, string[]>();
+  const unresolved = new Map<string, string[]>();
+
+  const addDependency = (featureId: string, depId: string) => {
+    if (featureId === depId || !featureById.has(featureId) || !featureById.has(depId)) return;
+    const deps = dependsOn.get(featureId)!;
+    if (!deps.includes(depId)) deps.push(depId);
+  };
+
+  for (const feature of features) {
+    dependsOn.set(feature.id, []);
+  }
+
+  for (const feature of features) {
+    for (const id of getStringList(feature.data.dependencyIds)) {
+      addDependency(feature.id, id);
+    }
+    const missing: string[] = [];
+    for (const name of getStringList(feature.data.dependencies)) {
+      const match = matchDependencyName(name, features, feature.id);
+      if (match) {
+        addDependency(feature.id, match.id);
+      } else {
+        missing.push(name);
+      }
+    }
+    if (missing.length > 0) unresolved.set(feature.id, missing);
+  }
+
+  for (const edge of edges) {
+    const kind = getEdgeKind(edge);
+    if (kind === 'depends-on') addDependency(edge.source, edge.target);
+    if (kind === 'blocks') addDependency(edge.target, edge.source);
+  }
+
+  const ids = features.map((f) => f.id);
+  const cycles = findCycles(ids, dependsOn);
+  const cyclicIds = new Set(cycles.flat());
+
+  // Kahn's algorithm, keeping canvas order among ready features
+  const remaining = new Map(ids.map((id) => [id, dependsOn.get(id)!.length]));
+  const dependents = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const id of ids) {
+    for (const dep of dependsOn.get(id)!) dependents.get(dep)!.push(id);
+  }
+  const buildOrder: string[] = [];
+  const ready = ids.filter((id) => remaining.get(id) === 0);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    buildOrder.push(id);
+    for (const dependent of dependents.get(id)!) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) ready.push(dependent);
+    }
+  }
+
+  // Longest remaining-work chain over the ordered (acyclic) part of the graph
+  const total = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  for (const id of buildOrder) {
+    let bestDep: string | null = null;
+    let bestHours = 0;
+    for (const dep of dependsOn.get(id)!) {
+      const hours = total.get(dep) ?? 0;
+      if (hours > bestHours) {
+        bestHours = hours;
+        bestDep = dep;
+      }
+    }
+    total.set(id, bestHours + getRemainingHours(featureById.get(id)!.data));
+    previous.set(id, bestDep);
+  }
+
+  let endId: string | null = null;
+  let endHours = 0;
+  for (const id of buildOrder) {
+    if (total.get(id)! > endHours) {
+      endHours = total.get(id)!;
+      endId = id;
+    }
+  }
+
+  const featureIds: string[] = [];
+  for (let id = endId; id; id = previous.get(id) ?? null) {
+    featureIds.unshift(id);
+  }
+
+  return {
+    dependsOn,
+    unresolved,
+    cycles,
+    cyclicIds,
+    buildOrder,
+    criticalPath: { featureIds, hours: endHours },
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { layoutNodes, LAYOUT_NODE_WIDTH, LAYER_GAP, ROW_GAP } from './layout';
+import type { SpexlyEdge, SpexlyNode, SpexlyNodeType } from '@/types/nodes';
+
+const COLUMN = LAYOUT_NODE_WIDTH + LAYER_GAP;
+
+function makeNode(id: string, type: SpexlyNodeType, y = 0, data: Record<string, unknown> = {}): SpexlyNode {
+  return {
+    id,
+    type,
+    position: { x: 0, y },
+    data: { expanded: false, completed: false, ...data },
+  } as SpexlyNode;
+}
+
+function edge(source: string, target: string, kind?: string): SpexlyEdge {
+  return { id: `e-${source}-${target}`, source, target, ...(kind ? { data: { kind } } : {}) } as SpexlyEdge;
+}
+
+const height = () => 100;
+
+function positionOf(nodes: SpexlyNode[], id: string) {
+  return nodes.find((n) => n.id === id)!.position;
+}
+
+function columnOf(nodes: SpexlyNode[], id: string) {
+  return Math.round(positionOf(nodes, id).x / COLUMN);
+}
+
+describe('layoutNodes', () => {
+  it('places node types in separate columns and skips empty types', () => {
+    const nodes = [makeNode('i', 'idea'), makeNode('s', 'screen'), makeNode('p', 'prompt')];
+    const result = layoutNodes(nodes, [], { mode: 'type-columns', getHeight: height });
+
+    expect(['i', 's', 'p'].map((id) => columnOf(result, id))).toEqual([0, 1, 2]);
+  });
+
+  it('stacks nodes using their measured heights', () => {
+    const nodes = [makeNode('a', 'feature', 0), makeNode('b', 'feature', 10)];
+    const result = layoutNodes(nodes, [], {
+      mode: 'type-columns',
+      getHeight: (node) => (node.id === 'a' ? 400 : 100),
+    });
+
+    expect(positionOf(result, 'b').y - positionOf(result, 'a').y).toBe(400 + ROW_GAP);
+  });
+
+  it('orders nodes to avoid crossing edges', () => {
+    const nodes = [
+      makeNode('f1', 'feature', 0),
+      makeNode('f2', 'feature', 300),
+      makeNode('s1', 'screen', 0),
+      makeNode('s2', 'screen', 300),
+    ];
+    const edges = [edge('f1', 's2'), edge('f2', 's1')];
+    const result = layoutNodes(nodes, edges, { mode: 'type-columns', getHeight: height });
+
+    const f1Above = positionOf(result, 'f1').y < positionOf(result, 'f2').y;
+    const s2Above = positionOf(result, 's2').y < positionOf(result, 's1').y;
+    expect(f1Above).toBe(s2Above);
+  });
+
+  it('puts dependencies before dependents in dependency flow', () => {
+    const nodes = [makeNode('checkout', 'feature'), makeNode('auth', 'feature'), makeNode('db', 'feature')];
+    const edges = [edge('checkout', 'auth', 'depends-on'), edge('db', 'auth', 'blocks')];
+    const result = layoutNodes(nodes, edges, { mode: 'dependency-flow', getHeight: height });
+
+    expect(columnOf(result, 'db')).toBe(0);
+    expect(columnOf(result, 'auth')).toBe(1);
+    expect(columnOf(result, 'checkout')).toBe(2);
+  });
+
+  it('still lays out cyclic graphs', () => {
+    const nodes = [makeNode('a', 'feature'), makeNode('b', 'feature')];
+    const edges = [edge('a', 'b'), edge('b', 'a')];
+    const result = layoutNodes(nodes, edges, { mode: 'dependency-flow', getHeight: height });
+
+    expect(columnOf(result, 'a')).not.toBe(columnOf(result, 'b'));
+  });
+
+  it('groups each feature with its screens and prompts', () => {
+    const nodes = [
+      makeNode('idea', 'idea'),
+      makeNode('f1', 'feature', 0, { featureName: 'One' }),
+      makeNode('f2', 'feature', 500, { featureName: 'Two' }),
+      makeNode('s1', 'screen', 500),
+      makeNode('s2', 'screen', 0),
+      makeNode('p1', 'prompt'),
+    ];
+    const edges = [edge('idea', 'f1'), edge('f1', 's1'), edge('f2', 's2'), edge('s1', 'p1')];
+    const result = layoutNodes(nodes, edges, { mode: 'feature-clusters', getHeight: height });
+
+    expect(columnOf(result, 'idea')).toBe(0);
+    expect(positionOf(result, 's1').y).toBe(positionOf(result, 'f1').y);
+    expect(positionOf(result, 'p1').y).toBe(positionOf(result, 'f1').y);
+    expect(positionOf(result, 's2').y).toBe(positionOf(result, 'f2').y);
+    expect(positionOf(result, 'f2').y).toBeGreaterThan(positionOf(result, 'f1').y);
+    expect(columnOf(result, 'p1')).toBe(3);
+  });
+
+  it('only moves the given nodes and keeps their top-left corner', () => {
+    const nodes = [
+      makeNode('a', 'idea', 500),
+      makeNode('b', 'feature', 900),
+      makeNode('c', 'note', 50),
+    ];
+    nodes[0].position.x = 200;
+    const result = layoutNodes(nodes, [], {
+      mode: 'type-columns',
+      getHeight: height,
+      nodeIds: new Set(['a', 'b']),
+    });
+
+    expect(result[2]).toBe(nodes[2]);
+    expect(positionOf(result, 'a')).toEqual({ x: 0, y: 500 });
+    expect(positionOf(result, 'b')).toEqual({ x: COLUMN, y: 500 });
+  });
+});
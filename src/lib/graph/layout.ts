@@ -0,0 +1,259 @@
+import { getEdgeKind } from '@/lib/edges/edgeKinds';
+import { analyzeFeatureDependencies } from '@/lib/graph/featureDependencies';
+import type { LayoutMode, SpexlyEdge, SpexlyNode, SpexlyNodeType } from '@/types/nodes';
+
+export const LAYOUT_NODE_WIDTH = 320;
+/** Horizontal space between layers */
+export const LAYER_GAP = 120;
+/** Vertical space between nodes in a layer */
+export const ROW_GAP = 40;
+/** Vertical space between feature clusters */
+export const CLUSTER_GAP = 100;
+
+const TYPE_ORDER: SpexlyNodeType[] = ['idea', 'feature', 'screen', 'techStack', 'prompt', 'note'];
+const ORDERING_SWEEPS = 4;
+
+export interface LayoutOptions {
+  mode: LayoutMode;
+  /** Rendered height of a node; measured heights should be preferred */
+  getHeight: (node: SpexlyNode) => number;
+  /** Lay out only these nodes. Everything else keeps its position. */
+  nodeIds?: Set<string>;
+}
+
+type Position = { x: number; y: number };
+
+/** Edges between laid-out nodes as undirected adjacency */
+function buildNeighbors(ids: string[], edges: SpexlyEdge[]): Map<string, string[]> {
+  const neighbors = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const edge of edges) {
+    if (edge.source === edge.target) continue;
+    neighbors.get(edge.source)?.push(edge.target);
+    neighbors.get(edge.target)?.push(edge.source);
+  }
+  return neighbors;
+}
+
+/**
+ * Direction of flow for an edge: dependencies come before their dependents,
+ * everything else reads source → target.
+ */
+function flowDirection(edge: SpexlyEdge): [string, string] {
+  return getEdgeKind(edge) === 'depends-on' ? [edge.target, edge.source] : [edge.source, edge.target];
+}
+
+function typeColumnLayers(nodes: SpexlyNode[]): Map<string, number> {
+  const used = TYPE_ORDER.filter((type) => nodes.some((n) => n.type === type));
+  return new Map(nodes.map((n) => [n.id, used.indexOf(n.type as SpexlyNodeType)]));
+}
+
+/** Longest-path layering after dropping the edges that close a cycle */
+function flowLayers(nodes: SpexlyNode[], edges: SpexlyEdge[]): Map<string, number> {
+  const ids = nodes.map((n) => n.id);
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const edge of edges) {
+    const [from, to] = flowDirection(edge);
+    if (from !== to && outgoing.has(from) && outgoing.has(to)) outgoing.get(from)!.push(to);
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const order: string[] = [];
+  const acyclic = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const next of outgoing.get(id)!) {
+      if (state.get(next) === 'visiting') continue;
+      acyclic.get(id)!.push(next);
+      if (!state.has(next)) visit(next);
+    }
+    state.set(id, 'done');
+    order.push(id);
+  };
+  for (const id of ids) {
+    if (!state.has(id)) visit(id);
+  }
+
+  const layers = new Map<string, number>(ids.map((id) => [id, 0]));
+  for (const id of order.reverse()) {
+    for (const next of acyclic.get(id)!) {
+      layers.set(next, Math.max(layers.get(next)!, layers.get(id)! + 1));
+    }
+  }
+  return layers;
+}
+
+/**
+ * Orders nodes within each layer by the barycenter of their neighbours in
+ * the adjacent layer, sweeping down and up to reduce edge crossings.
+ */
+function orderLayers(
+  layers: Map<string, number>,
+  neighbors: Map<string, string[]>,
+  initialOrder: string[]
+): string[][] {
+  const count = Math.max(-1, ...layers.values()) + 1;
+  const rows: string[][] = Array.from({ length: count }, () => []);
+  for (const id of initialOrder) rows[layers.get(id)!].push(id);
+
+  const index = new Map<string, number>();
+  const reindex = (row: string[]) => row.forEach((id, i) => index.set(id, i));
+  rows.forEach(reindex);
+
+  const reorder = (row: string[], referenceLayer: number) => {
+    const barycenter = new Map<string, number>();
+    for (const id of row) {
+      const adjacent = neighbors.get(id)!.filter((n) => layers.get(n) === referenceLayer);
+      barycenter.set(
+        id,
+        adjacent.length > 0
+          ? adjacent.reduce((sum, n) => sum + index.get(n)!, 0) / adjacent.length
+          : index.get(id)!
+      );
+    }
+    row.sort((a, b) => barycenter.get(a)! - barycenter.get(b)! || index.get(a)! - index.get(b)!);
+    reindex(row);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    for (let layer = 1; layer < count; layer++) reorder(rows[layer], layer - 1);
+    for (let layer = count - 2; layer >= 0; layer--) reorder(rows[layer], layer + 1);
+  }
+  return rows;
+}
+
+/** Stacks each layer as a column, centred vertically on y = 0 */
+function placeLayers(
+  rows: string[][],
+  heights: Map<string, number>,
+  offset: Position = { x: 0, y: 0 }
+): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  rows.forEach((row, layer) => {
+    const columnHeight = row.reduce((sum, id) => sum + heights.get(id)!, 0) + ROW_GAP * Math.max(0, row.length - 1);
+    let y = offset.y - columnHeight / 2;
+    for (const id of row) {
+      positions.set(id, { x: offset.x + layer * (LAYOUT_NODE_WIDTH + LAYER_GAP), y });
+      y += heights.get(id)! + ROW_GAP;
+    }
+  });
+  return positions;
+}
+
+function layeredLayout(
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[],
+  layers: Map<string, number>,
+  heights: Map<string, number>
+): Map<string, Position> {
+  const initialOrder = [...nodes].sort((a, b) => a.position.y - b.position.y).map((n) => n.id);
+  const rows = orderLayers(layers, buildNeighbors(initialOrder, edges), initialOrder);
+  return placeLayers(rows, heights);
+}
+
+/**
+ * One band per feature: the feature, then the screens and prompts connected
+ * to it. Bands follow the feature build order. Ideas, tech stack, notes and
+ * anything unclaimed share the first column.
+ */
+function clusterLayout(
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[],
+  heights: Map<string, number>
+): Map<string, Position> {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const neighbors = buildNeighbors(
+    nodes.map((n) => n.id),
+    edges
+  );
+  const byY = (a: SpexlyNode, b: SpexlyNode) => a.position.y - b.position.y;
+  const claimed = new Set<string>();
+
+  const { buildOrder } = analyzeFeatureDependencies(nodes, edges);
+  const features = nodes.filter((n) => n.type === 'feature').sort(byY);
+  const ordered = [
+    ...buildOrder.map((id) => byId.get(id)!),
+    ...features.filter((f) => !buildOrder.includes(f.id)),
+  ];
+
+  const claim = (ids: string[], type: SpexlyNodeType) => {
+    const found = ids
+      .map((id) => byId.get(id)!)
+      .filter((n) => n.type === type && !claimed.has(n.id))
+      .sort(byY);
+    found.forEach((n) => claimed.add(n.id));
+    return found.map((n) => n.id);
+  };
+
+  const clusters = ordered.map((feature) => {
+    claimed.add(feature.id);
+    const screens = claim(neighbors.get(feature.id)!, 'screen');
+    const promptCandidates = [feature.id, ...screens].flatMap((id) => neighbors.get(id)!);
+    const prompts = claim(promptCandidates, 'prompt');
+    return [[feature.id], screens, prompts];
+  });
+
+  const shared = nodes
+    .filter((n) => !claimed.has(n.id))
+    .sort((a, b) => TYPE_ORDER.indexOf(a.type as SpexlyNodeType) - TYPE_ORDER.indexOf(b.type as SpexlyNodeType) || byY(a, b))
+    .map((n) => n.id);
+
+  const stackHeight = (column: string[]) =>
+    column.reduce((sum, id) => sum + heights.get(id)!, 0) + ROW_GAP * Math.max(0, column.length - 1);
+
+  const positions = new Map<string, Position>();
+  const hasShared = shared.length > 0;
+  const firstClusterColumn = hasShared ? 1 : 0;
+  let y = 0;
+  for (const columns of clusters) {
+    const bandHeight = Math.max(...columns.map(stackHeight));
+    const band = placeLayers(
+      [...Array.from({ length: firstClusterColumn }, () => []), ...columns],
+      heights,
+      { x: 0, y: y + bandHeight / 2 }
+    );
+    band.forEach((position, id) => positions.set(id, position));
+    y += bandHeight + CLUSTER_GAP;
+  }
+
+  if (hasShared) {
+    const sharedPositions = placeLayers([shared], heights, { x: 0, y: stackHeight(shared) / 2 });
+    sharedPositions.forEach((position, id) => positions.set(id, position));
+  }
+  return positions;
+}
+
+/**
+ * Lays out the canvas (or the `nodeIds` subset) with a layered, edge-aware
+ * algorithm. The laid-out block keeps the top-left corner of the nodes'
+ * previous bounding box so the result stays in view. Returns new node
+ * objects for moved nodes; others are returned unchanged.
+ */
+export function layoutNodes(nodes: SpexlyNode[], edges: SpexlyEdge[], options: LayoutOptions): SpexlyNode[] {
+  const { mode, getHeight, nodeIds } = options;
+  const targets = nodeIds ? nodes.filter((n) => nodeIds.has(n.id)) : nodes;
+  if (targets.length === 0) return nodes;
+
+  const targetIds = new Set(targets.map((n) => n.id));
+  const targetEdges = edges.filter((e) => targetIds.has(e.source) && targetIds.has(e.target));
+  const heights = new Map(targets.map((n) => [n.id, getHeight(n)]));
+
+  let positions: Map<string, Position>;
+  if (mode === 'feature-clusters') {
+    positions = clusterLayout(targets, targetEdges, heights);
+  } else {
+    const layers = mode === 'dependency-flow' ? flowLayers(targets, targetEdges) : typeColumnLayers(targets);
+    positions = layeredLayout(targets, targetEdges, layers, heights);
+  }
+
+  const originX = Math.min(...targets.map((n) => n.position.x));
+  const originY = Math.min(...targets.map((n) => n.position.y));
+  const laidOut = [...positions.values()];
+  const dx = originX - Math.min(...laidOut.map((p) => p.x));
+  const dy = originY - Math.min(...laidOut.map((p) => p.y));
+
+  return nodes.map((node) => {
+    const position = positions.get(node.id);
+    if (!position) return node;
+    return { ...node, position: { x: Math.round(position.x + dx), y: Math.round(position.y + dy) } };
+  });
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignNodesToGroups,
+  findGroupAt,
+  getAbsolutePosition,
+  getGroupRollup,
+  releaseGroupChildren,
+  sectionByGroup,
+  setGroupCollapsed,
+} from './groups';
+import { GROUP_COLLAPSED_HEIGHT } from '@/lib/constants';
+import type { FeatureStatus, SpexlyNode } from '@/types/nodes';
+
+function makeGroup(id: string, x: number, y: number, overrides: Record<string, unknown> = {}): SpexlyNode {
+  return {
+    id,
+    type: 'group',
+    position: { x, y },
+    width: 400,
+    height: 300,
+    data: {
+      label: id,
+      description: '',
+      collapsed: false,
+      expandedHeight: null,
+      expanded: false,
+      completed: false,
+      tags: [],
+      estimatedHours: null,
+      ...overrides,
+    },
+  } as SpexlyNode;
+}
+
+function makeFeature(id: string, status: FeatureStatus, parentId?: string, completed = false): SpexlyNode {
+  return {
+    id,
+    type: 'feature',
+    position: { x: 10, y: 10 },
+    ...(parentId ? { parentId } : {}),
+    data: { featureName: id, status, expanded: false, completed, tags: [] as string[] },
+  } as unknown as SpexlyNode;
+}
+
+const size = () => ({ width: 100, height: 50 });
+
+describe('groups', () => {
+  it('resolves group-relative positions', () => {
+    const nodes = [makeGroup('g', 100, 200), makeFeature('a', 'Planned', 'g')];
+    expect(getAbsolutePosition(nodes[1], nodes)).toEqual({ x: 110, y: 210 });
+  });
+
+  it('finds the top-most expanded group under a point', () => {
+    const nodes = [
+      makeGroup('back', 0, 0),
+      makeGroup('front', 50, 50),
+      makeGroup('folded', 0, 0, { collapsed: true }),
+    ];
+    expect(findGroupAt(nodes, { x: 60, y: 60 })?.id).toBe('front');
+    expect(findGroupAt(nodes, { x: 10, y: 10 })?.id).toBe('back');
+    expect(findGroupAt(nodes, { x: 900, y: 900 })).toBeNull();
+  });
+
+  it('reparents dropped nodes and converts their positions', () => {
+    const loose = { ...makeFeature('a', 'Planned'), position: { x: 150, y: 150 } } as SpexlyNode;
+    const nodes = [loose, makeGroup('g', 100, 100)];
+
+    const inside = assignNodesToGroups(nodes, ['a'], size);
+    expect(inside.map((n) => n.id)).toEqual(['g', 'a']);
+    expect(inside[1]).toMatchObject({ parentId: 'g', position: { x: 50, y: 50 } });
+
+    const dragged = inside.map((n) => (n.id === 'a' ? { ...n, position: { x: 900, y: 0 } } : n)) as SpexlyNode[];
+    const outside = assignNodesToGroups(dragged, ['a'], size);
+    expect(outside[1].parentId).toBeUndefined();
+    expect(outside[1].position).toEqual({ x: 1000, y: 100 });
+  });
+
+  it('releases children at their canvas position', () => {
+    const nodes = [makeGroup('g', 100, 100), { ...makeFeature('a', 'Planned', 'g'), hidden: true } as SpexlyNode];
+    const [, child] = releaseGroupChildren(nodes, 'g');
+    expect(child.parentId).toBeUndefined();
+    expect(child.hidden).toBe(false);
+    expect(child.position).toEqual({ x: 110, y: 110 });
+  });
+
+  it('collapses to the header and restores the previous height', () => {
+    const nodes = [makeGroup('g', 0, 0), makeFeature('a', 'Planned', 'g')];
+
+    const collapsed = setGroupCollapsed(nodes, 'g', true);
+    expect(collapsed[0].height).toBe(GROUP_COLLAPSED_HEIGHT);
+    expect(collapsed[0].data).toMatchObject({ collapsed: true, expandedHeight: 300 });
+    expect(collapsed[1].hidden).toBe(true);
+
+    const expanded = setGroupCollapsed(collapsed, 'g', false);
+    expect(expanded[0].height).toBe(300);
+    expect(expanded[1].hidden).toBe(false);
+  });
+
+  it('rolls up completion and feature status', () => {
+    const nodes = [
+      makeGroup('g', 0, 0),
+      makeFeature('a', 'Built', 'g', true),
+      makeFeature('b', 'Planned', 'g'),
+      makeFeature('c', 'Blocked'),
+    ];
+    expect(getGroupRollup(nodes, 'g')).toEqual({
+      total: 2,
+      completed: 1,
+      percent: 50,
+      status: 'In Progress',
+      featureCount: 2,
+    });
+
+    const blocked = nodes.map((n) => (n.id === 'c' ? { ...n, parentId: 'g' } : n)) as SpexlyNode[];
+    expect(getGroupRollup(blocked, 'g').status).toBe('Blocked');
+    expect(getGroupRollup([makeGroup('empty', 0, 0)], 'empty').status).toBeNull();
+  });
+
+  it('sections nodes by group in canvas order, ungrouped last', () => {
+    const nodes = [
+      makeGroup('lower', 0, 500),
+      makeGroup('upper', 0, 0),
+      makeGroup('unused', 900, 0),
+      makeFeature('a', 'Planned', 'lower'),
+      makeFeature('b', 'Planned', 'upper'),
+      makeFeature('c', 'Planned'),
+    ];
+    const sections = sectionByGroup(nodes.filter((n) => n.type === 'feature'), nodes);
+    expect(sections.map((s) => [s.group?.id ?? null, s.nodes.map((n) => n.id)])).toEqual([
+      ['upper', ['b']],
+      ['lower', ['a']],
+      [null, ['c']],
+    ]);
+  });
+});
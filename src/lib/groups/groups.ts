@@ -0,0 +1,186 @@
+import { GROUP_COLLAPSED_HEIGHT, GROUP_DEFAULT_SIZE } from '@/lib/constants';
+import type { FeatureStatus, GroupNode, SpexlyNode } from '@/types/nodes';
+
+type Position = { x: number; y: number };
+type Size = { width: number; height: number };
+
+export interface GroupRollup {
+  total: number;
+  completed: number;
+  percent: number;
+  /** Overall state of the features inside; null when the group has no features */
+  status: FeatureStatus | null;
+  featureCount: number;
+}
+
+export interface GroupSection {
+  /** null collects everything outside a group */
+  group: GroupNode | null;
+  nodes: SpexlyNode[];
+}
+
+export function isGroupNode(node: SpexlyNode | undefined): node is GroupNode {
+  return node?.type === 'group';
+}
+
+export function getGroupSize(group: GroupNode): Size {
+  return {
+    width: group.width ?? group.measured?.width ?? GROUP_DEFAULT_SIZE.width,
+    height: group.height ?? group.measured?.height ?? GROUP_DEFAULT_SIZE.height,
+  };
+}
+
+/** Canvas position of a node, resolving a group-relative position */
+export function getAbsolutePosition(node: SpexlyNode, nodes: SpexlyNode[]): Position {
+  if (!node.parentId) return node.position;
+  const parent = nodes.find((n) => n.id === node.parentId);
+  if (!parent) return node.position;
+  const origin = getAbsolutePosition(parent, nodes);
+  return { x: origin.x + node.position.x, y: origin.y + node.position.y };
+}
+
+export function getGroupChildren(nodes: SpexlyNode[], groupId: string): SpexlyNode[] {
+  return nodes.filter((n) => n.parentId === groupId);
+}
+
+/** React Flow requires parents to come before their children */
+export function sortParentsFirst(nodes: SpexlyNode[]): SpexlyNode[] {
+  const groups = nodes.filter(isGroupNode);
+  if (groups.length === 0) return nodes;
+  return [...groups, ...nodes.filter((n) => !isGroupNode(n))];
+}
+
+/** Expanded group whose frame contains the point. Later (top-most) groups win. */
+export function findGroupAt(nodes: SpexlyNode[], point: Position): GroupNode | null {
+  let found: GroupNode | null = null;
+  for (const node of nodes) {
+    if (!isGroupNode(node) || node.data.collapsed) continue;
+    const { x, y } = getAbsolutePosition(node, nodes);
+    const { width, height } = getGroupSize(node);
+    if (point.x >= x && point.x <= x + width && point.y >= y && point.y <= y + height) {
+      found = node;
+    }
+  }
+  return found;
+}
+
+/**
+ * Moves nodes into the group under their centre, or out of their group when
+ * dropped outside it. Positions are converted so nothing jumps on screen.
+ * Groups themselves never nest.
+ */
+export function assignNodesToGroups(
+  nodes: SpexlyNode[],
+  nodeIds: string[],
+  getSize: (node: SpexlyNode) => Size
+): SpexlyNode[] {
+  const targets = new Set(nodeIds);
+  let changed = false;
+
+  const next = nodes.map((node) => {
+    if (!targets.has(node.id) || isGroupNode(node)) return node;
+    const absolute = getAbsolutePosition(node, nodes);
+    const { width, height } = getSize(node);
+    const group = findGroupAt(nodes, { x: absolute.x + width / 2, y: absolute.y + height / 2 });
+    const parentId = group?.id;
+    if (parentId === node.parentId) return node;
+
+    changed = true;
+    const origin = group ? getAbsolutePosition(group, nodes) : { x: 0, y: 0 };
+    const moved = { ...node, position: { x: absolute.x - origin.x, y: absolute.y - origin.y } };
+    if (parentId) {
+      moved.parentId = parentId;
+    } else {
+      delete moved.parentId;
+    }
+    return moved as SpexlyNode;
+  });
+
+  return changed ? sortParentsFirst(next) : nodes;
+}
+
+/** Detaches a group's children (e.g. before deleting it), keeping them where they are */
+export function releaseGroupChildren(nodes: SpexlyNode[], groupId: string): SpexlyNode[] {
+  return nodes.map((node) => {
+    if (node.parentId !== groupId) return node;
+    const released = { ...node, position: getAbsolutePosition(node, nodes), hidden: false };
+    delete released.parentId;
+    return released as SpexlyNode;
+  });
+}
+
+/**
+ * Collapsing shrinks the frame to its header and hides the children;
+ * expanding restores the previous height.
+ */
+export function setGroupCollapsed(nodes: SpexlyNode[], groupId: string, collapsed: boolean): SpexlyNode[] {
+  return nodes.map((node) => {
+    if (node.parentId === groupId) {
+      return { ...node, hidden: collapsed } as SpexlyNode;
+    }
+    if (node.id !== groupId || !isGroupNode(node)) return node;
+
+    const { height } = getGroupSize(node);
+    if (collapsed) {
+      const expandedHeight = height > GROUP_COLLAPSED_HEIGHT ? height : node.data.expandedHeight;
+      return {
+        ...node,
+        height: GROUP_COLLAPSED_HEIGHT,
+        data: { ...node.data, collapsed: true, expandedHeight },
+      };
+    }
+    return {
+      ...node,
+      height: node.data.expandedHeight ?? GROUP_DEFAULT_SIZE.height,
+      data: { ...node.data, collapsed: false, expandedHeight: null },
+    };
+  });
+}
+
+/**
+ * Completion across a group's children plus an overall feature status:
+ * Broken or Blocked if any feature is, Built when all are, In Progress once
+ * any work has started, otherwise Planned.
+ */
+export function getGroupRollup(nodes: SpexlyNode[], groupId: string): GroupRollup {
+  const children = getGroupChildren(nodes, groupId);
+  const completed = children.filter((n) => n.data.completed).length;
+  const statuses = children.flatMap((n) => (n.type === 'feature' ? [n.data.status] : []));
+
+  let status: FeatureStatus | null = null;
+  if (statuses.length > 0) {
+    if (statuses.includes('Broken')) status = 'Broken';
+    else if (statuses.includes('Blocked')) status = 'Blocked';
+    else if (statuses.every((s) => s === 'Built')) status = 'Built';
+    else if (statuses.some((s) => s === 'In Progress' || s === 'Built')) status = 'In Progress';
+    else status = 'Planned';
+  }
+
+  return {
+    total: children.length,
+    completed,
+    percent: children.length > 0 ? Math.round((completed / children.length) * 100) : 0,
+    status,
+    featureCount: statuses.length,
+  };
+}
+
+/**
+ * Splits nodes into one section per group (top-to-bottom, then left-to-right
+ * on the canvas) followed by the ungrouped nodes. Groups with no matching
+ * nodes are omitted; the ungrouped section is omitted when empty.
+ */
+export function sectionByGroup(nodes: SpexlyNode[], allNodes: SpexlyNode[] = nodes): GroupSection[] {
+  const groups = allNodes
+    .filter(isGroupNode)
+    .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+  const groupIds = new Set(groups.map((g) => g.id));
+
+  const sections: GroupSection[] = groups
+    .map((group) => ({ group, nodes: nodes.filter((n) => n.parentId === group.id) }))
+    .filter((section) => section.nodes.length > 0);
+
+  const ungrouped = nodes.filter((n) => !isGroupNode(n) && !(n.parentId && groupIds.has(n.parentId)));
+  if (ungrouped.length > 0) sections.push({ group: null, nodes: ungrouped });
+  return sections;
+}
@@ -1,5 +1,7 @@
-import OpenAI from 'openai';
 import type { FeaturePriority, FeatureStatus, FeatureEffort } from '@/types/nodes';
+import type { LLMProvider, LLMProviderId, LLMResult } from '@/types/ai';
+import { generateJson } from '@/lib/ai/llm';
+import type { AIUsageMeter } from '@/lib/ai/usage';
 
 export interface DetailedFeature {
   featureName: string;
@@ -55,33 +57,18 @@ function clampList(values: string[], max: number, maxItemLength: number = 200):
     .slice(0, max);
 }
 
-function safeParseJson(payload: string): Record<string, unknown> {
-  const cleaned = payload
-    .replace(/```json/gi, '')
-    .replace(/```/g, '')
-    .trim();
-  return JSON.parse(cleaned);
-}
-
-function buildExtractionPrompt(
-  features: string[],
-  screens: string[],
-  prdText: string
-): string {
+function buildPrdBlock(prdText: string): string {
   // Truncate PRD if too long (leave room for prompt + response)
   const maxPrdLength = 12000;
   const truncatedPrd = prdText.length > maxPrdLength
     ? prdText.slice(0, maxPrdLength) + '\n\n[... document truncated for length ...]'
     : prdText;
 
+  return ['PRD DOCUMENT:', '---', truncatedPrd, '---'].join('\n');
+}
+
+function buildExtractionPrompt(features: string[], screens: string[]): string {
   return [
-    'You are a product specification expert. Extract detailed structured data from a PRD.',
-    '',
-    'PRD DOCUMENT:',
-    '---',
-    truncatedPrd,
-    '---',
-    '',
     features.length > 0 ? `FEATURES TO DETAIL: ${features.join(', ')}` : null,
     screens.length > 0 ? `SCREENS TO DETAIL: ${screens.join(', ')}` : null,
     '',
@@ -146,55 +133,59 @@ function buildExtractionPrompt(
     .join('\n');
 }
 
+export interface ExtractDetailsOptions {
+  /** The user's saved AI provider preference */
+  preferredProvider?: LLMProviderId | null;
+  /** Use this provider instead of resolving one (tests pass a fake provider) */
+  provider?: LLMProvider;
+  /** Who the extraction is billed to */
+  meter?: AIUsageMeter;
+  maxFieldLength?: number;
+  signal?: AbortSignal;
+}
+
 /**
  * Extracts detailed structured fields for features and screens from PRD text.
  * Uses AI to populate acceptanceCriteria, risks, metrics, keyElements, states, etc.
+ * The PRD goes in its own message so providers with prompt caching can reuse it.
  *
  * @param features - List of feature names to extract details for
  * @param screens - List of screen names to extract details for
  * @param prdText - Full PRD document text for context
- * @param apiKey - OpenAI API key
- * @param model - OpenAI model to use (default: gpt-4.1-mini)
- * @returns Fully populated DetailedFeature and DetailedScreen arrays
+ * @returns Fully populated DetailedFeature and DetailedScreen arrays, plus the
+ *   completion result (null when there was nothing to extract)
  */
 export async function extractDetailedFields(
   features: string[],
   screens: string[],
   prdText: string,
-  apiKey: string,
-  model: string = 'gpt-4.1-mini',
-  maxFieldLength: number = 400
+  options: ExtractDetailsOptions = {}
 ): Promise<{
   features: DetailedFeature[];
   screens: DetailedScreen[];
+  result: LLMResult | null;
 }> {
   // If no features or screens to detail, return empty
   if (features.length === 0 && screens.length === 0) {
-    return { features: [], screens: [] };
+    return { features: [], screens: [], result: null };
   }
 
-  const client = new OpenAI({ apiKey });
-  const prompt = buildExtractionPrompt(features, screens, prdText);
-
-  const response = await client.chat.completions.create({
-    model,
+  const maxFieldLength = options.maxFieldLength ?? 400;
+  const { data: parsed, result } = await generateJson({
+    operation: 'importDetails',
+    preferredProvider: options.preferredProvider,
+    provider: options.provider,
+    meter: options.meter,
+    signal: options.signal,
     messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
+      { role: 'system', content: 'You are a product specification expert. Extract detailed structured data from a PRD.' },
+      { role: 'user', content: buildPrdBlock(prdText), cache: true },
+      { role: 'user', content: buildExtractionPrompt(features, screens) },
     ],
-    max_tokens: 4500,
+    maxTokens: 4500,
     temperature: 0.2,
   });
 
-  const outputText = response.choices[0]?.message?.content?.trim();
-  if (!outputText) {
-    throw new Error('AI extraction failed to produce output');
-  }
-
-  const parsed = safeParseJson(outputText);
-
   // Parse features
   const detailedFeatures: DetailedFeature[] = Array.isArray(parsed.features)
     ? (parsed.features as Record<string, unknown>[])
@@ -245,5 +236,6 @@ export async function extractDetailedFields(
   return {
     features: detailedFeatures,
     screens: detailedScreens,
+    result,
   };
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { isFieldEmpty, getPopulatedFields, buildFieldUpdate } from './mergeStrategy';
+import { isFieldEmpty, getPopulatedFields, buildFieldUpdate, buildFieldSuggestion } from './mergeStrategy';
 
 describe('mergeStrategy', () => {
   describe('isFieldEmpty', () => {
@@ -216,4 +216,26 @@ describe('mergeStrategy', () => {
       expect(result!.fieldsToFill).toHaveProperty('configurationNotes');
     });
   });
+
+  describe('buildFieldSuggestion', () => {
+    it('suggests AI values only for populated, unprotected fields', () => {
+      const result = buildFieldSuggestion(
+        'f1',
+        'feature',
+        ['featureName', 'summary', 'tags'],
+        {
+          featureName: 'AI Name',
+          summary: 'AI summary',
+          problem: 'AI problem',
+          tags: ['ai'],
+        }
+      );
+
+      expect(result).toEqual({ nodeId: 'f1', nodeType: 'feature', fieldsToFill: { summary: 'AI summary' } });
+    });
+
+    it('returns null when the node has nothing the AI could improve', () => {
+      expect(buildFieldSuggestion('f1', 'feature', ['summary'], { summary: '', problem: 'AI problem' })).toBeNull();
+    });
+  });
 });
@@ -17,6 +17,11 @@ const PRIMARY_NAME_FIELDS = new Set([
   'toolName',
 ]);
 
+/** Returns true if AI output may never change this field (workflow state and the user's chosen name) */
+export function isProtectedField(field: string): boolean {
+  return PROTECTED_FIELDS.has(field) || PRIMARY_NAME_FIELDS.has(field);
+}
+
 /** Returns true if a field value is empty (should be filled) */
 export function isFieldEmpty(value: unknown): boolean {
   if (value === '' || value === null || value === undefined) return true;
@@ -46,11 +51,8 @@ export function buildFieldUpdate(
   const fieldsToFill: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(aiData)) {
-    // Skip protected fields
-    if (PROTECTED_FIELDS.has(key)) continue;
-
-    // Skip primary name fields (user's name preserved)
-    if (PRIMARY_NAME_FIELDS.has(key)) continue;
+    // Skip protected and primary name fields (user's name preserved)
+    if (isProtectedField(key)) continue;
 
     // Only fill if the field is currently empty on the existing node
     if (populated.has(key)) continue;
@@ -65,3 +67,27 @@ export function buildFieldUpdate(
 
   return { nodeId, nodeType, fieldsToFill };
 }
+
+/**
+ * Builds a NodeFieldUpdate with AI values for fields the node already has.
+ * These are suggestions only: they go to review unselected, never straight
+ * onto the node. Returns null if the AI had nothing for populated fields.
+ */
+export function buildFieldSuggestion(
+  nodeId: string,
+  nodeType: SpexlyNodeType,
+  populatedFields: string[],
+  aiData: Record<string, unknown>
+): NodeFieldUpdate | null {
+  const populated = new Set(populatedFields);
+  const fieldsToFill: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(aiData)) {
+    if (isProtectedField(key) || !populated.has(key) || isFieldEmpty(value)) continue;
+    fieldsToFill[key] = value;
+  }
+
+  if (Object.keys(fieldsToFill).length === 0) return null;
+
+  return { nodeId, nodeType, fieldsToFill };
+}
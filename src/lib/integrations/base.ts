@@ -8,7 +8,12 @@ export interface IntegrationAuth {
   metadata?: Record<string, unknown>;
 }
 
-export type IntegrationProvider = 'notion' | 'figma' | 'linear';
+export type IntegrationProvider = 'notion' | 'figma' | 'linear' | 'github' | 'jira';
+
+export interface IntegrationOptions {
+  /** HTTP implementation for API calls, swappable so tests can run against a local stub */
+  fetch?: typeof fetch;
+}
 
 /**
  * Base class for all third-party integrations.
@@ -18,15 +23,17 @@ export abstract class BaseIntegration {
   protected auth: IntegrationAuth;
   protected userId: string;
   protected supabase: SupabaseClient;
+  protected fetchImpl: typeof fetch;
 
-  constructor(auth: IntegrationAuth, userId: string, supabase: SupabaseClient) {
+  constructor(auth: IntegrationAuth, userId: string, supabase: SupabaseClient, options: IntegrationOptions = {}) {
     this.auth = auth;
     this.userId = userId;
     this.supabase = supabase;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
   }
 
   /**
-   * Returns the provider name (notion, figma, linear)
+   * Returns the provider name (notion, figma, linear, github, jira)
    */
   abstract get name(): IntegrationProvider;
 
@@ -56,7 +63,7 @@ export abstract class BaseIntegration {
       Authorization: `Bearer ${this.auth.accessToken}`,
     };
 
-    const response = await fetch(url, { ...options, headers });
+    const response = await this.fetchImpl(url, { ...options, headers });
 
     // If 401, try refreshing token once
     if (response.status === 401 && this.auth.refreshToken) {
@@ -65,7 +72,7 @@ export abstract class BaseIntegration {
         ...options.headers,
         Authorization: `Bearer ${this.auth.accessToken}`,
       };
-      return fetch(url, { ...options, headers: retryHeaders });
+      return this.fetchImpl(url, { ...options, headers: retryHeaders });
     }
 
     return response;
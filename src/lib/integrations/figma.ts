@@ -1,4 +1,5 @@
 import { BaseIntegration, type IntegrationAuth } from './base';
+import { figmaFrameUrl } from './figmaImport';
 
 interface FigmaNode {
   id?: string;
@@ -18,9 +19,21 @@ export interface FigmaFrame {
   id: string;
   name: string;
   type: 'FRAME';
+  pageName: string;
   children?: FigmaNode[];
 }
 
+/** A top-level frame as offered in the import picker */
+export interface FigmaFrameSummary {
+  id: string;
+  name: string;
+  pageName: string;
+  keyElements: string[];
+  wireframeUrl: string;
+  /** Rendered PNG from Figma's image API; these links expire, so they are only shown while picking */
+  thumbnailUrl: string | null;
+}
+
 export interface FigmaImportResult {
   screens: {
     screenName: string;
@@ -31,6 +44,9 @@ export interface FigmaImportResult {
   }[];
 }
 
+/** Default layer names Figma gives shapes and containers; they say nothing about the UI */
+const UNNAMED_LAYER_PATTERN = /^(rectangle|ellipse|frame|group|vector|line|polygon|star|union|subtract|intersect|exclude|image|section)( \d+)?$/i;
+
 /**
  * Figma integration for importing design frames as Screen nodes.
  * Provides OAuth authentication and design extraction from Figma files.
@@ -88,72 +104,135 @@ export class FigmaIntegration extends BaseIntegration {
   }
 
   /**
-   * Extracts frames from a Figma file and converts them to Screen specifications.
+   * Lists the top-level frames of a Figma file with inferred key elements and
+   * a thumbnail for each. Thumbnails are best-effort: if Figma can't render
+   * them the frames are still returned.
    */
-  async importFile(fileKey: string): Promise<FigmaImportResult> {
-    // Fetch file data
-    const response = await this.fetchWithAuth(`https://api.figma.com/v1/files/${fileKey}`);
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch Figma file');
-    }
+  async listFrames(fileKey: string): Promise<{ fileName: string; frames: FigmaFrameSummary[] }> {
+    const { fileName, frames } = await this.fetchFrames(fileKey);
+    const thumbnails = await this.fetchThumbnails(
+      fileKey,
+      frames.map((frame) => frame.id)
+    );
 
-    const fileData = await response.json();
+    return {
+      fileName,
+      frames: frames.map((frame) => ({
+        id: frame.id,
+        name: frame.name,
+        pageName: frame.pageName,
+        keyElements: this.extractElements(frame),
+        wireframeUrl: figmaFrameUrl(fileKey, frame.id),
+        thumbnailUrl: thumbnails[frame.id] ?? null,
+      })),
+    };
+  }
 
-    // Extract frames from document
-    const frames = this.extractFrames(fileData.document as FigmaNode);
+  /**
+   * Extracts frames from a Figma file and converts them to Screen specifications.
+   */
+  async importFile(fileKey: string): Promise<FigmaImportResult> {
+    const { fileName, frames } = await this.fetchFrames(fileKey);
 
     // Convert frames to Screen specifications
     const screens = frames.map((frame) => ({
       screenName: frame.name,
       purpose: `UI design for ${frame.name}`,
       keyElements: this.extractElements(frame),
-      wireframeUrl: `https://www.figma.com/file/${fileKey}?node-id=${frame.id}`,
-      notes: `Imported from Figma file: ${fileData.name}`,
+      wireframeUrl: figmaFrameUrl(fileKey, frame.id),
+      notes: `Imported from Figma file: ${fileName}`,
     }));
 
     return { screens };
   }
 
   /**
-   * Recursively extracts all frames from Figma document structure.
+   * Fetches a file's document tree deep enough to reach frame layers
+   * (document → page → section → frame → layer).
    */
-  private extractFrames(node: FigmaNode): FigmaFrame[] {
-    const frames: FigmaFrame[] = [];
+  private async fetchFrames(fileKey: string): Promise<{ fileName: string; frames: FigmaFrame[] }> {
+    const response = await this.fetchWithAuth(
+      `https://api.figma.com/v1/files/${encodeURIComponent(fileKey)}?depth=4`
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch Figma file');
+    }
 
+    const fileData = await response.json();
+
+    return {
+      fileName: typeof fileData.name === 'string' ? fileData.name : 'Untitled',
+      frames: this.extractFrames(fileData.document as FigmaNode, ''),
+    };
+  }
+
+  /**
+   * Renders small PNG previews of the given frames. Returns a map of node id
+   * to image URL, empty if rendering fails.
+   */
+  private async fetchThumbnails(fileKey: string, ids: string[]): Promise<Record<string, string>> {
+    if (ids.length === 0) return {};
+
+    const params = new URLSearchParams({ ids: ids.join(','), format: 'png', scale: '0.25' });
+    const response = await this.fetchWithAuth(
+      `https://api.figma.com/v1/images/${encodeURIComponent(fileKey)}?${params.toString()}`
+    );
+
+    if (!response.ok) return {};
+
+    const data = await response.json();
+    const images: Record<string, string> = {};
+    for (const [id, url] of Object.entries((data.images ?? {}) as Record<string, unknown>)) {
+      if (typeof url === 'string') images[id] = url;
+    }
+    return images;
+  }
+
+  /**
+   * Recursively extracts the top-level frames of each page. Frames nested
+   * inside a frame are layout containers, not screens, so recursion stops at
+   * the first frame.
+   */
+  private extractFrames(node: FigmaNode, pageName: string): FigmaFrame[] {
     if (node.type === 'FRAME' && typeof node.id === 'string') {
-      frames.push({
-        id: node.id,
-        name: typeof node.name === 'string' ? node.name : 'Untitled Frame',
-        type: 'FRAME',
-        children: node.children,
-      });
+      return [
+        {
+          id: node.id,
+          name: typeof node.name === 'string' ? node.name : 'Untitled Frame',
+          type: 'FRAME',
+          pageName,
+          children: node.children,
+        },
+      ];
     }
 
-    if (node.children) {
-      for (const child of node.children) {
-        frames.push(...this.extractFrames(child));
-      }
+    const childPageName = node.type === 'CANVAS' ? node.name || 'Untitled Page' : pageName;
+    const frames: FigmaFrame[] = [];
+    for (const child of node.children ?? []) {
+      frames.push(...this.extractFrames(child, childPageName));
     }
 
     return frames;
   }
 
   /**
-   * Extracts UI elements from a Figma frame based on child nodes.
+   * Extracts UI elements from a Figma frame based on its named child layers.
+   * Layers still carrying Figma's default names are skipped.
    */
   private extractElements(frame: FigmaFrame): string[] {
     if (!frame.children) return [];
 
-    const elements: string[] = [];
+    const elements = new Set<string>();
 
     for (const child of frame.children) {
-      const elementName = child.name || 'Unnamed element';
+      const elementName = child.name?.trim();
+      if (!elementName || UNNAMED_LAYER_PATTERN.test(elementName)) continue;
       const elementType = this.inferElementType(child);
-      elements.push(`${elementType}: ${elementName}`);
+      elements.add(`${elementType}: ${elementName}`);
     }
 
-    return elements.slice(0, 12); // Limit to 12 elements
+    return [...elements].slice(0, 12); // Limit to 12 elements
   }
 
   /**
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFigmaImportChanges,
+  figmaFrameUrl,
+  matchFramesToScreens,
+  parseFigmaFileKey,
+} from './figmaImport';
+import type { FigmaFrameSummary } from './figma';
+import type { SpexlyNode } from '@/types/nodes';
+
+function makeFrame(id: string, name: string, keyElements: string[] = ['Button: Sign in']): FigmaFrameSummary {
+  return {
+    id,
+    name,
+    pageName: 'App',
+    keyElements,
+    wireframeUrl: figmaFrameUrl('abc123XYZ456', id),
+    thumbnailUrl: null,
+  };
+}
+
+function makeScreen(id: string, screenName: string, data: Record<string, unknown> = {}): SpexlyNode {
+  return {
+    id,
+    type: 'screen',
+    position: { x: 0, y: 0 },
+    data: { screenName, keyElements: [], wireframeUrl: '', ...data },
+  } as unknown as SpexlyNode;
+}
+
+describe('figmaImport', () => {
+  describe('parseFigmaFileKey', () => {
+    it('reads the key from file, design and branch links', () => {
+      expect(parseFigmaFileKey('https://www.figma.com/file/abc123XYZ456/My-App')).toBe('abc123XYZ456');
+      expect(parseFigmaFileKey('https://www.figma.com/design/abc123XYZ456/My-App?node-id=1-2')).toBe('abc123XYZ456');
+      expect(parseFigmaFileKey('https://www.figma.com/design/abc123XYZ456/branch/branchKey789/My-App')).toBe(
+        'branchKey789'
+      );
+    });
+
+    it('accepts bare keys and rejects other input', () => {
+      expect(parseFigmaFileKey('  abc123XYZ456 ')).toBe('abc123XYZ456');
+      expect(parseFigmaFileKey('https://example.com/design/abc123XYZ456')).toBeNull();
+      expect(parseFigmaFileKey('https://www.figma.com/community/plugin/123')).toBeNull();
+      expect(parseFigmaFileKey('not a link')).toBeNull();
+    });
+  });
+
+  it('builds frame links with dashed node ids', () => {
+    expect(figmaFrameUrl('abc123XYZ456', '12:34')).toBe('https://www.figma.com/design/abc123XYZ456?node-id=12-34');
+  });
+
+  it('matches frames to existing screens by name', () => {
+    const matches = matchFramesToScreens(
+      [makeFrame('1:1', 'Login'), makeFrame('1:2', 'Settings')],
+      [makeScreen('s1', 'Login Screen')]
+    );
+
+    expect(matches['1:1']).toMatchObject({ nodeId: 's1', screenName: 'Login Screen' });
+    expect(matches['1:2']).toBeNull();
+  });
+
+  describe('buildFigmaImportChanges', () => {
+    it('fills matched screens and creates screens for the rest', () => {
+      const nodes = [makeScreen('s1', 'Login Screen')];
+      const { updates, suggestions, newNodes } = buildFigmaImportChanges(
+        [makeFrame('1:1', 'Login'), makeFrame('1:2', 'Settings', ['Input: Display name'])],
+        nodes,
+        'My App'
+      );
+
+      expect(updates).toEqual([
+        {
+          nodeId: 's1',
+          nodeType: 'screen',
+          fieldsToFill: {
+            wireframeUrl: 'https://www.figma.com/design/abc123XYZ456?node-id=1-1',
+            keyElements: ['Button: Sign in'],
+          },
+        },
+      ]);
+      expect(suggestions).toEqual([]);
+      expect(newNodes).toHaveLength(1);
+      expect(newNodes[0].type).toBe('screen');
+      expect(newNodes[0].data).toMatchObject({
+        screenName: 'Settings',
+        keyElements: ['Input: Display name'],
+        wireframeUrl: 'https://www.figma.com/design/abc123XYZ456?node-id=1-2',
+        notes: 'Imported from Figma: My App / App',
+        expanded: false,
+        completed: false,
+      });
+    });
+
+    it('suggests rather than overwrites details a matched screen already has', () => {
+      const nodes = [makeScreen('s1', 'Login', { keyElements: ['Email field'] })];
+      const { updates, suggestions } = buildFigmaImportChanges([makeFrame('1:1', 'Login')], nodes, 'My App');
+
+      expect(updates[0].fieldsToFill).not.toHaveProperty('keyElements');
+      expect(suggestions).toEqual([
+        { nodeId: 's1', nodeType: 'screen', fieldsToFill: { keyElements: ['Button: Sign in'] } },
+      ]);
+    });
+
+    it('never matches frames to non-screen nodes', () => {
+      const feature = {
+        id: 'f1',
+        type: 'feature',
+        position: { x: 0, y: 0 },
+        data: { featureName: 'Login' },
+      } as unknown as SpexlyNode;
+
+      const { updates, newNodes } = buildFigmaImportChanges([makeFrame('1:1', 'Login')], [feature], 'My App');
+
+      expect(updates).toEqual([]);
+      expect(newNodes).toHaveLength(1);
+    });
+  });
+});
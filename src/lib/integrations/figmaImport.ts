@@ -0,0 +1,140 @@
+import { NODE_TYPE_CONFIGS } from '@/lib/constants';
+import { matchExtractedToExisting } from '@/lib/import/fuzzyMatcher';
+import { buildFieldSuggestion, buildFieldUpdate, getPopulatedFields } from '@/lib/import/mergeStrategy';
+import type { FigmaFrameSummary } from './figma';
+import type { ExistingNodeSummary, NodeFieldUpdate, ScreenNodeData, SpexlyNode } from '@/types/nodes';
+
+/** The existing screen a Figma frame will update instead of creating a new one */
+export interface FigmaFrameMatch {
+  nodeId: string;
+  screenName: string;
+  confidence: number;
+}
+
+export interface FigmaImportChanges {
+  updates: NodeFieldUpdate[];
+  suggestions: NodeFieldUpdate[];
+  newNodes: SpexlyNode[];
+}
+
+/** Vertical spacing between new screen nodes; the store shifts the column right of the canvas */
+const NEW_SCREEN_SPACING = 260;
+
+/**
+ * Extracts the file key from a Figma link (file, design, proto or board, including
+ * branch links) or returns a bare key unchanged. Returns null for anything else.
+ */
+export function parseFigmaFileKey(input: string): string | null {
+  const trimmed = input.trim();
+  if (/^[A-Za-z0-9]{10,}$/.test(trimmed)) return trimmed;
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return null;
+  }
+
+  if (url.hostname !== 'figma.com' && !url.hostname.endsWith('.figma.com')) return null;
+
+  const match = url.pathname.match(/^\/(?:file|design|proto|board)\/([A-Za-z0-9]+)(?:\/branch\/([A-Za-z0-9]+))?/);
+  if (!match) return null;
+  return match[2] ?? match[1];
+}
+
+/** Link that opens a file in Figma with the given frame selected */
+export function figmaFrameUrl(fileKey: string, nodeId: string): string {
+  return `https://www.figma.com/design/${fileKey}?node-id=${encodeURIComponent(nodeId.replace(/:/g, '-'))}`;
+}
+
+function screenSummaries(nodes: SpexlyNode[]): ExistingNodeSummary[] {
+  return nodes
+    .filter((node) => node.type === 'screen')
+    .map((node) => ({
+      id: node.id,
+      type: 'screen' as const,
+      name: (node.data as ScreenNodeData).screenName || '',
+      populatedFields: getPopulatedFields(node.data as Record<string, unknown>),
+    }));
+}
+
+/**
+ * Fuzzy-matches frames to the canvas's existing screens by name. Frames that
+ * share a name share a match. Returns a map of frame id to match, or null
+ * when the frame would become a new screen.
+ */
+export function matchFramesToScreens(
+  frames: FigmaFrameSummary[],
+  nodes: SpexlyNode[]
+): Record<string, FigmaFrameMatch | null> {
+  const existing = screenSummaries(nodes);
+  const { matches } = matchExtractedToExisting(
+    frames.map((frame) => ({ name: frame.name, type: 'screen' as const })),
+    existing
+  );
+
+  return Object.fromEntries(
+    frames.map((frame) => {
+      const match = matches.find((m) => m.extractedName === frame.name);
+      const screen = match && existing.find((s) => s.id === match.existingNodeId);
+      return [
+        frame.id,
+        match && screen ? { nodeId: screen.id, screenName: screen.name, confidence: match.confidence } : null,
+      ];
+    })
+  );
+}
+
+/**
+ * Turns the picked frames into smart-import changes: matched screens get the
+ * frame link and key elements (filling empty fields, suggesting the rest),
+ * unmatched frames become new screen nodes.
+ */
+export function buildFigmaImportChanges(
+  frames: FigmaFrameSummary[],
+  nodes: SpexlyNode[],
+  fileName: string
+): FigmaImportChanges {
+  const matchesByFrame = matchFramesToScreens(frames, nodes);
+  const existing = screenSummaries(nodes);
+  const updates: NodeFieldUpdate[] = [];
+  const suggestions: NodeFieldUpdate[] = [];
+  const newNodes: SpexlyNode[] = [];
+  const updatedNodeIds = new Set<string>();
+  const ts = Date.now();
+
+  for (const frame of frames) {
+    const match = matchesByFrame[frame.id];
+
+    if (!match) {
+      newNodes.push({
+        id: `screen-${ts}-${newNodes.length}`,
+        type: 'screen',
+        position: { x: 0, y: newNodes.length * NEW_SCREEN_SPACING },
+        data: {
+          ...(NODE_TYPE_CONFIGS.screen.defaultData as ScreenNodeData),
+          screenName: frame.name,
+          keyElements: frame.keyElements,
+          wireframeUrl: frame.wireframeUrl,
+          notes: `Imported from Figma: ${fileName} / ${frame.pageName}`,
+        },
+      } as SpexlyNode);
+      continue;
+    }
+
+    // A screen matched by several same-named frames takes the first one
+    if (updatedNodeIds.has(match.nodeId)) continue;
+    updatedNodeIds.add(match.nodeId);
+
+    const screen = existing.find((s) => s.id === match.nodeId)!;
+    const figmaData = { wireframeUrl: frame.wireframeUrl, keyElements: frame.keyElements };
+
+    const update = buildFieldUpdate(screen.id, 'screen', screen.populatedFields, figmaData);
+    if (update) updates.push(update);
+
+    const suggestion = buildFieldSuggestion(screen.id, 'screen', screen.populatedFields, figmaData);
+    if (suggestion) suggestions.push(suggestion);
+  }
+
+  return { updates, suggestions, newNodes };
+}
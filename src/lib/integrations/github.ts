@@ -0,0 +1,290 @@
+import { BaseIntegration, type IntegrationAuth } from './base';
+import type { GitHubIssueDraft } from '@/lib/export/todoMarkdownGenerator';
+
+export interface GitHubRepository {
+  /** "owner/name" */
+  fullName: string;
+  owner: string;
+  private: boolean;
+}
+
+export interface GitHubProject {
+  id: string;
+  number: number;
+  title: string;
+}
+
+export interface GitHubIssue {
+  node_id: string;
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  /** Why a closed issue was closed: "completed", "not_planned" or null */
+  state_reason: string | null;
+}
+
+interface GraphQLResponse<TData> {
+  data?: TData;
+  errors?: { message: string }[];
+}
+
+/** Label colour for labels Spexly has to create */
+const DEFAULT_LABEL_COLOR = '8b5cf6';
+
+/**
+ * GitHub integration for syncing features as issues.
+ * Provides OAuth authentication, issue create/update, labels and Projects (v2) linking.
+ */
+export class GitHubIntegration extends BaseIntegration {
+  private readonly apiUrl = 'https://api.github.com';
+
+  get name() {
+    return 'github' as const;
+  }
+
+  /**
+   * Refreshes the GitHub access token.
+   * OAuth App tokens don't expire; GitHub App user tokens do and come with a refresh token.
+   */
+  protected async refreshAccessToken(): Promise<IntegrationAuth> {
+    if (!this.auth.refreshToken) {
+      return this.auth;
+    }
+
+    const response = await fetch('https://github.com/login/oauth/access_token', {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: process.env.GITHUB_CLIENT_ID || '',
+        client_secret: process.env.GITHUB_CLIENT_SECRET || '',
+        refresh_token: this.auth.refreshToken,
+        grant_type: 'refresh_token',
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok || data.error) {
+      throw new Error('Failed to refresh GitHub token');
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : undefined,
+    };
+  }
+
+  /**
+   * Lists repositories the user can push to, most recently updated first.
+   */
+  async listRepositories(): Promise<GitHubRepository[]> {
+    const repos = await this.restRequest<
+      { full_name: string; owner: { login: string }; private: boolean; permissions?: { push?: boolean } }[]
+    >('/user/repos?per_page=100&sort=updated');
+
+    return repos
+      .filter((repo) => repo.permissions?.push !== false)
+      .map((repo) => ({ fullName: repo.full_name, owner: repo.owner.login, private: repo.private }));
+  }
+
+  /**
+   * Lists the Projects (v2) owned by a user or organization.
+   */
+  async listProjects(owner: string): Promise<GitHubProject[]> {
+    const query = `
+      query($owner: String!) {
+        repositoryOwner(login: $owner) {
+          ... on ProjectV2Owner {
+            projectsV2(first: 50, orderBy: { field: UPDATED_AT, direction: DESC }) {
+              nodes {
+                id
+                number
+                title
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const data = await this.graphqlRequest<{
+      repositoryOwner: { projectsV2?: { nodes: GitHubProject[] } } | null;
+    }>(query, { owner });
+
+    return data.repositoryOwner?.projectsV2?.nodes ?? [];
+  }
+
+  /**
+   * Creates any of the given labels the repository doesn't have yet.
+   */
+  async ensureLabels(repo: string, labels: string[]): Promise<void> {
+    if (labels.length === 0) return;
+
+    const existing = await this.restRequest<{ name: string }[]>(`/repos/${repo}/labels?per_page=100`);
+    const known = new Set(existing.map((label) => label.name.toLowerCase()));
+
+    for (const name of labels) {
+      if (known.has(name.toLowerCase())) continue;
+      await this.restRequest(`/repos/${repo}/labels`, {
+        method: 'POST',
+        body: JSON.stringify({ name, color: DEFAULT_LABEL_COLOR }),
+      });
+      known.add(name.toLowerCase());
+    }
+  }
+
+  async createIssue(repo: string, issue: GitHubIssueDraft): Promise<GitHubIssue> {
+    return this.restRequest<GitHubIssue>(`/repos/${repo}/issues`, {
+      method: 'POST',
+      body: JSON.stringify(issue),
+    });
+  }
+
+  /**
+   * Replaces an issue's title, body and labels. Open/closed state is left
+   * alone; it flows from GitHub to the canvas.
+   */
+  async updateIssue(repo: string, number: number, issue: GitHubIssueDraft): Promise<GitHubIssue> {
+    return this.restRequest<GitHubIssue>(`/repos/${repo}/issues/${number}`, {
+      method: 'PATCH',
+      body: JSON.stringify(issue),
+    });
+  }
+
+  /**
+   * Adds an issue to a project and returns the project item id. GitHub
+   * returns the existing item when the issue is already on the project.
+   */
+  async addIssueToProject(projectId: string, issueNodeId: string): Promise<string> {
+    const mutation = `
+      mutation($projectId: ID!, $contentId: ID!) {
+        addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) {
+          item {
+            id
+          }
+        }
+      }
+    `;
+
+    const data = await this.graphqlRequest<{ addProjectV2ItemById: { item: { id: string } } }>(mutation, {
+      projectId,
+      contentId: issueNodeId,
+    });
+
+    return data.addProjectV2ItemById.item.id;
+  }
+
+  /**
+   * Makes a REST request to the GitHub API.
+   */
+  private async restRequest<TData>(path: string, options: RequestInit = {}): Promise<TData> {
+    const response = await this.fetchWithAuth(`${this.apiUrl}${path}`, {
+      ...options,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        'Content-Type': 'application/json',
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`GitHub API request failed: ${body?.message ?? response.statusText}`);
+    }
+
+    return (await response.json()) as TData;
+  }
+
+  /**
+   * Makes a GraphQL request to the GitHub API (Projects v2 is GraphQL-only).
+   */
+  private async graphqlRequest<TData>(query: string, variables?: Record<string, unknown>): Promise<TData> {
+    const response = await this.fetchWithAuth(`${this.apiUrl}/graphql`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub API request failed: ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as GraphQLResponse<TData>;
+
+    if (result.errors?.length) {
+      throw new Error(`GitHub GraphQL error: ${result.errors[0].message}`);
+    }
+
+    if (!result.data) {
+      throw new Error('GitHub GraphQL response missing data');
+    }
+
+    return result.data;
+  }
+}
+
+/**
+ * OAuth helper for GitHub integration setup.
+ */
+export class GitHubOAuth {
+  private clientId: string;
+  private clientSecret: string;
+  private redirectUri: string;
+
+  constructor() {
+    this.clientId = process.env.GITHUB_CLIENT_ID || '';
+    this.clientSecret = process.env.GITHUB_CLIENT_SECRET || '';
+    this.redirectUri = process.env.GITHUB_REDIRECT_URI || '';
+  }
+
+  /**
+   * Generates the GitHub OAuth authorization URL.
+   */
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: this.redirectUri,
+      scope: 'repo project',
+      state,
+    });
+
+    return `https://github.com/login/oauth/authorize?${params.toString()}`;
+  }
+
+  /**
+   * Exchanges an authorization code for an access token.
+   */
+  async exchangeCodeForToken(code: string): Promise<IntegrationAuth> {
+    const response = await fetch('https://github.com/login/oauth/access_token', {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        redirect_uri: this.redirectUri,
+        code,
+      }),
+    });
+
+    const data = await response.json();
+    // GitHub reports bad codes with a 200 and an error field
+    if (!response.ok || data.error) {
+      throw new Error('Failed to exchange code for token');
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : undefined,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyGitHubStateToNodes,
+  githubStateToStatus,
+  isSameGitHubRepo,
+  parseGitHubIssueStateEvent,
+  shouldCompleteLinkedTasks,
+  toGitHubIssueLink,
+} from './githubSync';
+import type { GitHubIssueLink, SpexlyNode } from '@/types/nodes';
+
+const link: GitHubIssueLink = {
+  id: 'I_kwDO123',
+  number: 7,
+  repo: 'acme/app',
+  url: 'https://github.com/acme/app/issues/7',
+  state: 'open',
+  projectItemId: null,
+};
+
+const repository = { full_name: 'acme/app' };
+
+function makeFeature(status: string, githubIssue: GitHubIssueLink | null = link): SpexlyNode {
+  return {
+    id: 'f1',
+    type: 'feature',
+    position: { x: 0, y: 0 },
+    data: { featureName: 'Auth', status, githubIssue },
+  } as unknown as SpexlyNode;
+}
+
+describe('githubSync', () => {
+  it('maps issue state to feature status', () => {
+    expect(githubStateToStatus('closed', 'completed', 'In Progress')).toBe('Built');
+    expect(githubStateToStatus('closed', null, 'Planned')).toBe('Built');
+    expect(githubStateToStatus('closed', 'not_planned', 'In Progress')).toBeNull();
+    expect(githubStateToStatus('closed', 'completed', 'Built')).toBeNull();
+    expect(githubStateToStatus('open', null, 'Built')).toBe('In Progress');
+    expect(githubStateToStatus('open', null, 'Blocked')).toBeNull();
+  });
+
+  it('completes linked tasks only for issues closed as completed', () => {
+    expect(shouldCompleteLinkedTasks('closed', 'completed')).toBe(true);
+    expect(shouldCompleteLinkedTasks('closed', 'not_planned')).toBe(false);
+    expect(shouldCompleteLinkedTasks('open', null)).toBe(false);
+  });
+
+  it('builds a link from an API issue', () => {
+    expect(
+      toGitHubIssueLink(
+        { node_id: 'I_kwDO123', number: 7, html_url: link.url, state: 'open', state_reason: null },
+        'acme/app',
+        'PVTI_1'
+      )
+    ).toEqual({ ...link, projectItemId: 'PVTI_1' });
+  });
+
+  it('parses close and reopen events and ignores the rest', () => {
+    expect(
+      parseGitHubIssueStateEvent({ action: 'closed', issue: { node_id: 'I_1', state_reason: 'completed' }, repository })
+    ).toEqual({ repo: 'acme/app', issueId: 'I_1', state: 'closed', stateReason: 'completed' });
+    expect(
+      parseGitHubIssueStateEvent({ action: 'reopened', issue: { node_id: 'I_1', state_reason: 'reopened' }, repository })
+    ).toEqual({ repo: 'acme/app', issueId: 'I_1', state: 'open', stateReason: 'reopened' });
+    expect(parseGitHubIssueStateEvent({ action: 'labeled', issue: { node_id: 'I_1' }, repository })).toBeNull();
+    expect(parseGitHubIssueStateEvent({ action: 'closed', issue: { node_id: 'I_1' } })).toBeNull();
+    expect(parseGitHubIssueStateEvent({ action: 'closed', issue: {}, repository })).toBeNull();
+  });
+
+  it('compares repository names case-insensitively', () => {
+    expect(isSameGitHubRepo('Acme/App', 'acme/app')).toBe(true);
+    expect(isSameGitHubRepo('acme/app', 'acme/other')).toBe(false);
+  });
+
+  describe('applyGitHubStateToNodes', () => {
+    it('marks the feature Built and records the closed state', () => {
+      const update = applyGitHubStateToNodes([makeFeature('In Progress')], 'f1', 'closed', 'completed');
+
+      expect(update?.fields).toEqual({
+        githubIssue: { value: { ...link, state: 'closed' }, base: link },
+        status: { value: 'Built', base: 'In Progress' },
+      });
+      expect(update?.nodes[0].data).toMatchObject({ status: 'Built', githubIssue: { state: 'closed' } });
+    });
+
+    it('leaves status alone for issues closed as not planned', () => {
+      expect(applyGitHubStateToNodes([makeFeature('Planned')], 'f1', 'closed', 'not_planned')?.fields).toEqual({
+        githubIssue: { value: { ...link, state: 'closed' }, base: link },
+      });
+    });
+
+    it('returns null when nothing changes or the feature is not linked', () => {
+      expect(applyGitHubStateToNodes([makeFeature('Planned')], 'f1', 'open', null)).toBeNull();
+      expect(applyGitHubStateToNodes([makeFeature('Planned', null)], 'f1', 'closed', null)).toBeNull();
+      expect(applyGitHubStateToNodes([makeFeature('Planned')], 'missing', 'closed', null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import type { FeatureStatus, GitHubIssueLink, GitHubIssueState, SpexlyNode } from '@/types/nodes';
+import type { FieldEdit } from '@/types/collaboration';
+import type { GitHubIssue } from './github';
+
+/**
+ * Feature status an issue's state moves the feature to, or null to leave it:
+ * closing as completed means Built, reopening a Built feature puts it back
+ * In Progress, and issues closed as not planned don't touch the feature.
+ */
+export function githubStateToStatus(
+  state: GitHubIssueState,
+  stateReason: string | null,
+  current: FeatureStatus
+): FeatureStatus | null {
+  if (state === 'closed') {
+    if (stateReason === 'not_planned') return null;
+    return current === 'Built' ? null : 'Built';
+  }
+  return current === 'Built' ? 'In Progress' : null;
+}
+
+export function isGitHubRepoName(value: string): boolean {
+  return /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/.test(value);
+}
+
+export function toGitHubIssueLink(issue: GitHubIssue, repo: string, projectItemId: string | null): GitHubIssueLink {
+  return {
+    id: issue.node_id,
+    number: issue.number,
+    repo,
+    url: issue.html_url,
+    state: issue.state,
+    projectItemId,
+  };
+}
+
+export interface GitHubIssueStateEvent {
+  /** owner/name of the repository the issue is in */
+  repo: string;
+  issueId: string;
+  state: GitHubIssueState;
+  stateReason: string | null;
+}
+
+/**
+ * Pulls the repository, issue id and new state out of a GitHub `issues`
+ * webhook body. Returns null for anything other than a close or reopen.
+ */
+export function parseGitHubIssueStateEvent(payload: unknown): GitHubIssueStateEvent | null {
+  if (!payload || typeof payload !== 'object') return null;
+  const body = payload as Record<string, unknown>;
+  if (body.action !== 'closed' && body.action !== 'reopened') return null;
+
+  const issue = body.issue as Record<string, unknown> | undefined;
+  const repository = body.repository as Record<string, unknown> | undefined;
+  if (typeof issue?.node_id !== 'string' || typeof repository?.full_name !== 'string') return null;
+
+  return {
+    repo: repository.full_name,
+    issueId: issue.node_id,
+    state: body.action === 'closed' ? 'closed' : 'open',
+    stateReason: typeof issue.state_reason === 'string' ? issue.state_reason : null,
+  };
+}
+
+/** GitHub repository names are case-insensitive */
+export function isSameGitHubRepo(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export interface GitHubCanvasUpdate {
+  nodes: SpexlyNode[];
+  /** Field edits for the realtime channel, so open canvases merge the change */
+  fields: Record<string, FieldEdit>;
+}
+
+/**
+ * Applies a GitHub issue state change to the linked feature: records the
+ * state on `githubIssue` and moves `status` per githubStateToStatus.
+ * Returns null when nothing changes.
+ */
+export function applyGitHubStateToNodes(
+  nodes: SpexlyNode[],
+  nodeId: string,
+  state: GitHubIssueState,
+  stateReason: string | null
+): GitHubCanvasUpdate | null {
+  const node = nodes.find((n) => n.id === nodeId);
+  if (!node || node.type !== 'feature' || !node.data.githubIssue) return null;
+
+  const link = node.data.githubIssue;
+  const fields: Record<string, FieldEdit> = {};
+  const status = githubStateToStatus(state, stateReason, node.data.status);
+
+  if (link.state !== state) {
+    fields.githubIssue = { value: { ...link, state }, base: link };
+  }
+  if (status) {
+    fields.status = { value: status, base: node.data.status };
+  }
+  if (Object.keys(fields).length === 0) return null;
+
+  const patch = Object.fromEntries(Object.entries(fields).map(([field, edit]) => [field, edit.value]));
+  return {
+    nodes: nodes.map((n) => (n.id === nodeId ? ({ ...n, data: { ...n.data, ...patch } } as SpexlyNode) : n)),
+    fields,
+  };
+}
+
+/** Issues closed as completed finish the feature's linked tasks; other changes leave them */
+export function shouldCompleteLinkedTasks(state: GitHubIssueState, stateReason: string | null): boolean {
+  return state === 'closed' && stateReason !== 'not_planned';
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { JiraIntegration, jiraSiteMetadata, readJiraSites } from './jira';
+import type { JiraIssueDraft } from './jira';
+
+const API_BASE_URL = 'http://jira.test';
+
+interface StubCall {
+  url: string;
+  method: string;
+  body: unknown;
+  authorization: string | null;
+}
+
+/** Local Jira stub: answers each request from `routes` by "METHOD path" */
+function createStub(routes: Record<string, (body: unknown) => Response>) {
+  const calls: StubCall[] = [];
+  const fetchStub = vi.fn(async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = String(input);
+    const method = init.method ?? 'GET';
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : null;
+    const headers = new Headers(init.headers);
+    calls.push({ url, method, body, authorization: headers.get('Authorization') });
+
+    const route = routes[`${method} ${url.replace(API_BASE_URL, '')}`];
+    return route ? route(body) : Response.json({ errorMessages: ['Not found'] }, { status: 404 });
+  });
+  return { calls, fetch: fetchStub as unknown as typeof fetch };
+}
+
+function createJira(stub: { fetch: typeof fetch }) {
+  return new JiraIntegration({ accessToken: 'token', metadata: { cloudId: 'cloud-1' } }, 'user-1', {} as SupabaseClient, {
+    fetch: stub.fetch,
+    apiBaseUrl: API_BASE_URL,
+  });
+}
+
+const draft: JiraIssueDraft = {
+  summary: 'Auth',
+  description: { type: 'doc', version: 1, content: [] },
+  labels: ['priority-must'],
+  children: ['AC: Users can sign in', 'Add login form'],
+};
+
+describe('JiraIntegration', () => {
+  it('lists projects with the bearer token', async () => {
+    const stub = createStub({
+      'GET /rest/api/3/project/search?maxResults=100': () =>
+        Response.json({ values: [{ id: '100', key: 'APP', name: 'App', style: 'next-gen' }] }),
+    });
+
+    await expect(createJira(stub).listProjects()).resolves.toEqual([{ id: '100', key: 'APP', name: 'App' }]);
+    expect(stub.calls[0].authorization).toBe('Bearer token');
+  });
+
+  it('creates the feature issue, then its children parented to it', async () => {
+    const stub = createStub({
+      'POST /rest/api/3/issue': () => Response.json({ id: '10042', key: 'APP-12' }, { status: 201 }),
+      'POST /rest/api/3/issue/bulk': () =>
+        Response.json({ issues: [{ id: '10043', key: 'APP-13' }, { id: '10044', key: 'APP-14' }], errors: [] }, { status: 201 }),
+    });
+
+    const result = await createJira(stub).exportFeature('100', '3', '1', draft);
+
+    expect(result).toEqual({ issue: { id: '10042', key: 'APP-12' }, childCount: 2 });
+    expect(stub.calls[0].body).toMatchObject({
+      fields: { project: { id: '100' }, issuetype: { id: '3' }, summary: 'Auth', labels: ['priority-must'] },
+    });
+    expect(stub.calls[1].body).toMatchObject({
+      issueUpdates: [
+        { fields: { issuetype: { id: '1' }, parent: { key: 'APP-12' }, summary: 'AC: Users can sign in' } },
+        { fields: { issuetype: { id: '1' }, parent: { key: 'APP-12' }, summary: 'Add login form' } },
+      ],
+    });
+  });
+
+  it('skips the bulk request when there is no child type', async () => {
+    const stub = createStub({
+      'POST /rest/api/3/issue': () => Response.json({ id: '10042', key: 'APP-12' }, { status: 201 }),
+    });
+
+    await expect(createJira(stub).exportFeature('100', '3', null, draft)).resolves.toEqual({
+      issue: { id: '10042', key: 'APP-12' },
+      childCount: 0,
+    });
+    expect(stub.calls).toHaveLength(1);
+  });
+
+  it('surfaces Jira error messages', async () => {
+    const stub = createStub({
+      'POST /rest/api/3/issue': () =>
+        Response.json({ errorMessages: [], errors: { issuetype: 'Specify a valid issue type' } }, { status: 400 }),
+    });
+
+    await expect(createJira(stub).exportFeature('100', 'bad', null, draft)).rejects.toThrow(
+      'Jira API request failed: Specify a valid issue type'
+    );
+  });
+});
+
+describe('Jira sites', () => {
+  const acme = { id: 'cloud-1', url: 'https://acme.atlassian.net', name: 'Acme' };
+  const labs = { id: 'cloud-2', url: 'https://labs.atlassian.net', name: 'Labs' };
+
+  it('keeps every reachable site when switching', () => {
+    const metadata = jiraSiteMetadata(labs, [acme, labs]);
+    expect(metadata).toMatchObject({ cloudId: 'cloud-2', siteUrl: 'https://labs.atlassian.net' });
+    expect(readJiraSites(metadata)).toEqual([acme, labs]);
+  });
+
+  it('falls back to the connected site for older connections', () => {
+    expect(readJiraSites({ cloudId: 'cloud-1', siteUrl: 'https://acme.atlassian.net', siteName: 'Acme' })).toEqual([acme]);
+    expect(readJiraSites({})).toEqual([]);
+  });
+});
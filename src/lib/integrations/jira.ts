@@ -0,0 +1,328 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BaseIntegration, type IntegrationAuth, type IntegrationOptions } from './base';
+
+export interface JiraProject {
+  id: string;
+  key: string;
+  name: string;
+}
+
+export interface JiraIssueType {
+  id: string;
+  name: string;
+  subtask: boolean;
+  /** 1 for epics, 0 for standard issues, -1 for sub-tasks */
+  hierarchyLevel: number;
+}
+
+export interface JiraCreatedIssue {
+  id: string;
+  key: string;
+}
+
+/** Atlassian Document Format node; Jira's v3 API takes rich text in this shape */
+export interface AdfNode {
+  type: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  content?: AdfNode[];
+}
+
+export interface AdfDocument {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+export interface JiraIssueDraft {
+  summary: string;
+  description: AdfDocument;
+  labels: string[];
+  /** Summaries of the child issues created under the feature's issue */
+  children: string[];
+}
+
+export interface JiraExportResult {
+  issue: JiraCreatedIssue;
+  childCount: number;
+}
+
+/** A Jira Cloud site the connected account can reach */
+export interface JiraSite {
+  /** Atlassian cloud id, used in REST URLs */
+  id: string;
+  url: string;
+  name: string;
+}
+
+/** Integration metadata connecting `site`, keeping every reachable site for switching later */
+export function jiraSiteMetadata(site: JiraSite, sites: JiraSite[]): Record<string, unknown> {
+  return { cloudId: site.id, siteUrl: site.url, siteName: site.name, sites };
+}
+
+/** Sites recorded in integration metadata; connections made before site switching only know their own */
+export function readJiraSites(metadata: Record<string, unknown> | undefined): JiraSite[] {
+  const isSite = (value: unknown): value is JiraSite =>
+    Boolean(value) &&
+    typeof (value as JiraSite).id === 'string' &&
+    typeof (value as JiraSite).url === 'string' &&
+    typeof (value as JiraSite).name === 'string';
+
+  if (Array.isArray(metadata?.sites)) {
+    return metadata.sites.filter(isSite);
+  }
+  const current = { id: metadata?.cloudId, url: metadata?.siteUrl, name: metadata?.siteName };
+  return isSite(current) ? [current] : [];
+}
+
+export interface JiraClientOptions extends IntegrationOptions {
+  /** Overrides the Jira REST base URL, e.g. to point at a local stub */
+  apiBaseUrl?: string;
+}
+
+const ATLASSIAN_TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+
+/**
+ * Jira Cloud integration for exporting features as issues with child issues.
+ * Provides OAuth (3LO) authentication, project and issue type lookup, and issue creation.
+ * Status changes come back through the Jira webhook.
+ */
+export class JiraIntegration extends BaseIntegration {
+  private readonly apiBaseUrl: string;
+
+  constructor(auth: IntegrationAuth, userId: string, supabase: SupabaseClient, options: JiraClientOptions = {}) {
+    super(auth, userId, supabase, options);
+    this.apiBaseUrl =
+      options.apiBaseUrl ??
+      process.env.JIRA_API_BASE_URL ??
+      `https://api.atlassian.com/ex/jira/${String(auth.metadata?.cloudId ?? '')}`;
+  }
+
+  get name() {
+    return 'jira' as const;
+  }
+
+  /** Atlassian cloud id of the connected Jira site */
+  get cloudId(): string {
+    return typeof this.auth.metadata?.cloudId === 'string' ? this.auth.metadata.cloudId : '';
+  }
+
+  /** Every Jira site the connected account can reach */
+  get sites(): JiraSite[] {
+    return readJiraSites(this.auth.metadata);
+  }
+
+  /** Browser URL of the connected Jira site, e.g. https://acme.atlassian.net */
+  get siteUrl(): string {
+    return typeof this.auth.metadata?.siteUrl === 'string' ? this.auth.metadata.siteUrl : '';
+  }
+
+  /**
+   * Refreshes the Jira access token. Atlassian rotates refresh tokens, and
+   * the site metadata is carried over so the cloud id isn't lost.
+   */
+  protected async refreshAccessToken(): Promise<IntegrationAuth> {
+    if (!this.auth.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    const response = await this.fetchImpl(ATLASSIAN_TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        grant_type: 'refresh_token',
+        client_id: process.env.JIRA_CLIENT_ID,
+        client_secret: process.env.JIRA_CLIENT_SECRET,
+        refresh_token: this.auth.refreshToken,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to refresh Jira token');
+    }
+
+    const data = await response.json();
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? this.auth.refreshToken,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+      metadata: this.auth.metadata,
+    };
+  }
+
+  /**
+   * Lists projects the user can browse.
+   */
+  async listProjects(): Promise<JiraProject[]> {
+    const data = await this.request<{ values: JiraProject[] }>('/rest/api/3/project/search?maxResults=100');
+    return data.values.map(({ id, key, name }) => ({ id, key, name }));
+  }
+
+  /**
+   * Lists the issue types that can be created in a project.
+   */
+  async listIssueTypes(projectId: string): Promise<JiraIssueType[]> {
+    const data = await this.request<{ issueTypes?: JiraIssueType[]; values?: JiraIssueType[] }>(
+      `/rest/api/3/issue/createmeta/${encodeURIComponent(projectId)}/issuetypes`
+    );
+    return (data.issueTypes ?? data.values ?? []).map(({ id, name, subtask, hierarchyLevel }) => ({
+      id,
+      name,
+      subtask,
+      hierarchyLevel: hierarchyLevel ?? (subtask ? -1 : 0),
+    }));
+  }
+
+  /**
+   * Creates the feature's issue, then its children in one bulk request
+   * parented to it. Throws if the parent can't be created; children Jira
+   * rejects are left out of the count.
+   */
+  async exportFeature(
+    projectId: string,
+    issueTypeId: string,
+    childIssueTypeId: string | null,
+    draft: JiraIssueDraft
+  ): Promise<JiraExportResult> {
+    const issue = await this.request<JiraCreatedIssue>('/rest/api/3/issue', {
+      method: 'POST',
+      body: JSON.stringify({
+        fields: {
+          project: { id: projectId },
+          issuetype: { id: issueTypeId },
+          summary: draft.summary,
+          description: draft.description,
+          labels: draft.labels,
+        },
+      }),
+    });
+
+    if (!childIssueTypeId || draft.children.length === 0) {
+      return { issue, childCount: 0 };
+    }
+
+    const bulk = await this.request<{ issues: JiraCreatedIssue[] }>('/rest/api/3/issue/bulk', {
+      method: 'POST',
+      body: JSON.stringify({
+        issueUpdates: draft.children.map((summary) => ({
+          fields: {
+            project: { id: projectId },
+            issuetype: { id: childIssueTypeId },
+            parent: { key: issue.key },
+            summary,
+            labels: draft.labels,
+          },
+        })),
+      }),
+    });
+
+    return { issue, childCount: bulk.issues?.length ?? 0 };
+  }
+
+  /**
+   * Makes a request to the Jira REST API.
+   */
+  private async request<TData>(path: string, options: RequestInit = {}): Promise<TData> {
+    const response = await this.fetchWithAuth(`${this.apiBaseUrl}${path}`, {
+      ...options,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    // Bulk create answers 201 with partial errors; only total failures are non-2xx
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const message = body?.errorMessages?.[0] ?? Object.values(body?.errors ?? {})[0] ?? response.statusText;
+      throw new Error(`Jira API request failed: ${String(message)}`);
+    }
+
+    return (await response.json()) as TData;
+  }
+}
+
+/**
+ * OAuth helper for Jira integration setup.
+ */
+export class JiraOAuth {
+  private clientId: string;
+  private clientSecret: string;
+  private redirectUri: string;
+
+  constructor() {
+    this.clientId = process.env.JIRA_CLIENT_ID || '';
+    this.clientSecret = process.env.JIRA_CLIENT_SECRET || '';
+    this.redirectUri = process.env.JIRA_REDIRECT_URI || '';
+  }
+
+  /**
+   * Generates the Atlassian OAuth 2.0 (3LO) authorization URL.
+   */
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      audience: 'api.atlassian.com',
+      client_id: this.clientId,
+      scope: 'read:jira-work write:jira-work offline_access',
+      redirect_uri: this.redirectUri,
+      state,
+      response_type: 'code',
+      prompt: 'consent',
+    });
+
+    return `https://auth.atlassian.com/authorize?${params.toString()}`;
+  }
+
+  /**
+   * Exchanges an authorization code for an access token and records the
+   * Jira sites the token can reach. The first one is connected; users with
+   * more than one can switch in the export dialog.
+   */
+  async exchangeCodeForToken(code: string): Promise<IntegrationAuth> {
+    const response = await fetch(ATLASSIAN_TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        grant_type: 'authorization_code',
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        code,
+        redirect_uri: this.redirectUri,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to exchange code for token');
+    }
+
+    const data = await response.json();
+
+    const resourcesResponse = await fetch('https://api.atlassian.com/oauth/token/accessible-resources', {
+      headers: {
+        Authorization: `Bearer ${data.access_token}`,
+        Accept: 'application/json',
+      },
+    });
+    const resources = resourcesResponse.ok
+      ? ((await resourcesResponse.json()) as JiraSite[])
+      : [];
+    const sites = resources.map(({ id, url, name }) => ({ id, url, name }));
+
+    if (sites.length === 0) {
+      throw new Error('No Jira site is available to this account');
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+      metadata: jiraSiteMetadata(sites[0], sites),
+    };
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyJiraStatusToNodes,
+  childIssueTypes,
+  parseJiraIssueStatusEvent,
+  pickChildIssueType,
+  pickFeatureIssueType,
+  toJiraIssueDraft,
+  toJiraIssueLink,
+} from './jiraSync';
+import type { JiraIssueType } from './jira';
+import type { JiraIssueLink, SpexlyNode } from '@/types/nodes';
+
+const link: JiraIssueLink = {
+  id: '10042',
+  key: 'APP-12',
+  url: 'https://acme.atlassian.net/browse/APP-12',
+  statusCategory: 'new',
+  childCount: 2,
+};
+
+const issueTypes: JiraIssueType[] = [
+  { id: '1', name: 'Task', subtask: false, hierarchyLevel: 0 },
+  { id: '2', name: 'Story', subtask: false, hierarchyLevel: 0 },
+  { id: '3', name: 'Epic', subtask: false, hierarchyLevel: 1 },
+  { id: '4', name: 'Sub-task', subtask: true, hierarchyLevel: -1 },
+];
+
+function makeFeature(status: string, jiraIssue: JiraIssueLink | null = link): SpexlyNode {
+  return {
+    id: 'f1',
+    type: 'feature',
+    position: { x: 0, y: 0 },
+    data: { featureName: 'Auth', status, jiraIssue },
+  } as unknown as SpexlyNode;
+}
+
+describe('jiraSync', () => {
+  it('builds an issue draft with children from criteria and steps', () => {
+    const node = {
+      id: 'f1',
+      type: 'feature',
+      position: { x: 0, y: 0 },
+      data: {
+        featureName: 'Auth',
+        summary: 'Sign in with email',
+        problem: '',
+        userStory: '',
+        acceptanceCriteria: ['Users can sign in', ' '],
+        implementationSteps: ['Add login form'],
+        priority: 'Must',
+        effort: 'M',
+        tags: ['Mobile App'],
+      },
+    } as unknown as SpexlyNode;
+
+    const draft = toJiraIssueDraft(node);
+
+    expect(draft).toMatchObject({
+      summary: 'Auth',
+      labels: ['priority-must', 'effort-m', 'mobile-app'],
+      children: ['AC: Users can sign in', 'Add login form'],
+    });
+    expect(draft?.description.content[0]).toEqual({
+      type: 'paragraph',
+      content: [{ type: 'text', text: 'Sign in with email' }],
+    });
+    expect(draft?.description.content.some((n) => n.type === 'bulletList')).toBe(true);
+  });
+
+  it('truncates summaries to the Jira limit', () => {
+    const node = makeFeature('Planned');
+    const draft = toJiraIssueDraft({ ...node, data: { ...node.data, featureName: 'x'.repeat(300) } } as SpexlyNode);
+    expect(draft?.summary).toHaveLength(255);
+  });
+
+  it('picks Epic for features and one level down for children', () => {
+    const epic = pickFeatureIssueType(issueTypes);
+    expect(epic?.name).toBe('Epic');
+    expect(childIssueTypes(issueTypes, epic).map((type) => type.name)).toEqual(['Task', 'Story']);
+    expect(pickChildIssueType(issueTypes, epic)?.name).toBe('Task');
+    expect(pickChildIssueType(issueTypes, issueTypes[1])?.name).toBe('Sub-task');
+    expect(pickChildIssueType(issueTypes, issueTypes[3])).toBeNull();
+  });
+
+  it('builds a browse link on the connected site', () => {
+    expect(toJiraIssueLink({ issue: { id: '10042', key: 'APP-12' }, childCount: 2 }, 'https://acme.atlassian.net/')).toEqual(
+      link
+    );
+  });
+
+  it('parses status changes and ignores other updates', () => {
+    const issue = {
+      id: '10042',
+      self: 'https://Acme.atlassian.net/rest/api/2/issue/10042',
+      fields: { status: { statusCategory: { key: 'done' } } },
+    };
+    expect(
+      parseJiraIssueStatusEvent({
+        webhookEvent: 'jira:issue_updated',
+        timestamp: 123,
+        changelog: { items: [{ field: 'status' }] },
+        issue,
+      })
+    ).toEqual({ siteUrl: 'https://acme.atlassian.net', issueId: '10042', statusCategory: 'done', timestamp: 123 });
+    expect(
+      parseJiraIssueStatusEvent({
+        webhookEvent: 'jira:issue_updated',
+        changelog: { items: [{ field: 'status' }] },
+        issue: { ...issue, self: undefined },
+      })
+    ).toBeNull();
+    expect(
+      parseJiraIssueStatusEvent({ webhookEvent: 'jira:issue_updated', changelog: { items: [{ field: 'summary' }] }, issue })
+    ).toBeNull();
+    expect(parseJiraIssueStatusEvent({ webhookEvent: 'jira:issue_created', issue })).toBeNull();
+  });
+
+  describe('applyJiraStatusToNodes', () => {
+    it('moves the feature to the mapped status and records the category', () => {
+      const update = applyJiraStatusToNodes([makeFeature('Planned')], 'f1', 'indeterminate');
+
+      expect(update?.fields).toEqual({
+        jiraIssue: { value: { ...link, statusCategory: 'indeterminate' }, base: link },
+        status: { value: 'In Progress', base: 'Planned' },
+      });
+      expect(update?.nodes[0].data).toMatchObject({ status: 'In Progress' });
+    });
+
+    it('returns null when nothing changes or the feature is not linked', () => {
+      expect(applyJiraStatusToNodes([makeFeature('Planned')], 'f1', 'new')).toBeNull();
+      expect(applyJiraStatusToNodes([makeFeature('Planned', null)], 'f1', 'done')).toBeNull();
+      expect(applyJiraStatusToNodes([makeFeature('Planned')], 'missing', 'done')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import type { FeatureStatus, JiraIssueLink, JiraStatusCategory, SpexlyNode } from '@/types/nodes';
+import type { FieldEdit } from '@/types/collaboration';
+import type { AdfDocument, AdfNode, JiraExportResult, JiraIssueDraft, JiraIssueType } from './jira';
+
+/** Webhook payloads older than this are rejected as replays */
+export const JIRA_WEBHOOK_MAX_AGE_MS = 60 * 1000;
+
+/** Jira rejects summaries longer than this */
+const MAX_SUMMARY_LENGTH = 255;
+
+const STATUS_CATEGORIES: JiraStatusCategory[] = ['new', 'indeterminate', 'done'];
+
+/** Feature status each Jira status category maps to */
+const STATUS_BY_CATEGORY: Record<JiraStatusCategory, FeatureStatus> = {
+  new: 'Planned',
+  indeterminate: 'In Progress',
+  done: 'Built',
+};
+
+export function isJiraStatusCategory(value: unknown): value is JiraStatusCategory {
+  return typeof value === 'string' && (STATUS_CATEGORIES as string[]).includes(value);
+}
+
+export function jiraStatusCategoryToStatus(category: JiraStatusCategory): FeatureStatus {
+  return STATUS_BY_CATEGORY[category];
+}
+
+function truncateSummary(text: string): string {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return trimmed.length > MAX_SUMMARY_LENGTH ? `${trimmed.slice(0, MAX_SUMMARY_LENGTH - 3)}...` : trimmed;
+}
+
+/** Jira labels can't contain spaces */
+export function toJiraLabel(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+function paragraph(text: string): AdfNode {
+  return { type: 'paragraph', content: [{ type: 'text', text }] };
+}
+
+function heading(text: string): AdfNode {
+  return { type: 'heading', attrs: { level: 3 }, content: [{ type: 'text', text }] };
+}
+
+function bulletList(items: string[]): AdfNode {
+  return {
+    type: 'bulletList',
+    content: items.map((item) => ({ type: 'listItem', content: [paragraph(item)] })),
+  };
+}
+
+function nonEmpty(values: unknown): string[] {
+  return Array.isArray(values)
+    ? values.filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+    : [];
+}
+
+/**
+ * Builds the Jira issue for a feature: summary, problem, user story and
+ * acceptance criteria as the description, priority/effort/tags as labels,
+ * and one child per acceptance criterion and implementation step.
+ */
+export function toJiraIssueDraft(node: SpexlyNode): JiraIssueDraft | null {
+  if (node.type !== 'feature') return null;
+  const { data } = node;
+  const acceptanceCriteria = nonEmpty(data.acceptanceCriteria);
+  const implementationSteps = nonEmpty(data.implementationSteps);
+
+  const content: AdfNode[] = [];
+  if (data.summary) content.push(paragraph(data.summary));
+  if (data.problem) content.push(heading('Problem'), paragraph(data.problem));
+  if (data.userStory) content.push(heading('User story'), paragraph(data.userStory));
+  if (acceptanceCriteria.length > 0) content.push(heading('Acceptance criteria'), bulletList(acceptanceCriteria));
+  content.push(paragraph(`Priority: ${data.priority} · Effort: ${data.effort}`));
+
+  const labels = [
+    data.priority ? `priority-${toJiraLabel(data.priority)}` : '',
+    data.effort ? `effort-${toJiraLabel(data.effort)}` : '',
+    ...nonEmpty(data.tags).map(toJiraLabel),
+  ].filter(Boolean);
+
+  const description: AdfDocument = { type: 'doc', version: 1, content };
+
+  return {
+    summary: truncateSummary(data.featureName || 'Untitled feature'),
+    description,
+    labels: Array.from(new Set(labels)),
+    children: [
+      ...acceptanceCriteria.map((criterion) => truncateSummary(`AC: ${criterion}`)),
+      ...implementationSteps.map((step) => truncateSummary(step)),
+    ],
+  };
+}
+
+/** Issue types a feature can be created as: anything above the sub-task level */
+export function featureIssueTypes(types: JiraIssueType[]): JiraIssueType[] {
+  return types.filter((type) => !type.subtask && type.hierarchyLevel >= 0);
+}
+
+/**
+ * Issue types that can be parented to the feature's type. Jira only allows
+ * a parent one level up, so Epics take standard issues and standard issues
+ * take sub-tasks.
+ */
+export function childIssueTypes(types: JiraIssueType[], parent: JiraIssueType | null | undefined): JiraIssueType[] {
+  if (!parent) return [];
+  return types.filter((type) => type.hierarchyLevel === parent.hierarchyLevel - 1);
+}
+
+/** Epic when the project has one, otherwise the highest-level type features can use */
+export function pickFeatureIssueType(types: JiraIssueType[]): JiraIssueType | null {
+  const candidates = featureIssueTypes(types);
+  return (
+    candidates.find((type) => type.name.toLowerCase() === 'epic') ??
+    [...candidates].sort((a, b) => b.hierarchyLevel - a.hierarchyLevel)[0] ??
+    null
+  );
+}
+
+/** Sub-task (or Task under an Epic) when available, otherwise the first valid child type */
+export function pickChildIssueType(types: JiraIssueType[], parent: JiraIssueType | null | undefined): JiraIssueType | null {
+  const candidates = childIssueTypes(types, parent);
+  return (
+    candidates.find((type) => ['sub-task', 'subtask', 'task'].includes(type.name.toLowerCase())) ??
+    candidates[0] ??
+    null
+  );
+}
+
+export function toJiraIssueLink(result: JiraExportResult, siteUrl: string): JiraIssueLink {
+  return {
+    id: result.issue.id,
+    key: result.issue.key,
+    url: `${siteUrl.replace(/\/$/, '')}/browse/${result.issue.key}`,
+    statusCategory: 'new',
+    childCount: result.childCount,
+  };
+}
+
+/**
+ * Origin of a Jira site or REST URL, e.g. https://acme.atlassian.net. Links
+ * record it so webhooks, which only carry the site in URLs, match issues on
+ * the right site. Returns null for anything that isn't a URL.
+ */
+export function jiraSiteOrigin(url: unknown): string | null {
+  if (typeof url !== 'string') return null;
+  try {
+    return new URL(url).origin.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+export interface JiraIssueStatusEvent {
+  /** Issue ids are only unique within a site */
+  siteUrl: string;
+  issueId: string;
+  statusCategory: JiraStatusCategory;
+  timestamp: number;
+}
+
+/**
+ * Pulls the site, issue id and new status category out of a Jira webhook
+ * body. Returns null for anything other than an issue update that changed
+ * its status.
+ */
+export function parseJiraIssueStatusEvent(payload: unknown): JiraIssueStatusEvent | null {
+  if (!payload || typeof payload !== 'object') return null;
+  const body = payload as Record<string, unknown>;
+  if (body.webhookEvent !== 'jira:issue_updated') return null;
+
+  const changelog = body.changelog as { items?: { field?: unknown }[] } | undefined;
+  if (!changelog?.items?.some((item) => item.field === 'status')) return null;
+
+  const issue = body.issue as
+    | { id?: unknown; self?: unknown; fields?: { status?: { statusCategory?: { key?: unknown } } } }
+    | undefined;
+  const category = issue?.fields?.status?.statusCategory?.key;
+  const siteUrl = jiraSiteOrigin(issue?.self);
+  if (typeof issue?.id !== 'string' || !siteUrl || !isJiraStatusCategory(category)) return null;
+
+  return {
+    siteUrl,
+    issueId: issue.id,
+    statusCategory: category,
+    timestamp: typeof body.timestamp === 'number' ? body.timestamp : 0,
+  };
+}
+
+export interface JiraCanvasUpdate {
+  nodes: SpexlyNode[];
+  /** Field edits for the realtime channel, so open canvases merge the change */
+  fields: Record<string, FieldEdit>;
+}
+
+/**
+ * Applies a Jira status change to the linked feature: records the new
+ * category on `jiraIssue` and moves `status` when the category maps to a
+ * different one. Returns null when nothing changes.
+ */
+export function applyJiraStatusToNodes(
+  nodes: SpexlyNode[],
+  nodeId: string,
+  statusCategory: JiraStatusCategory
+): JiraCanvasUpdate | null {
+  const node = nodes.find((n) => n.id === nodeId);
+  if (!node || node.type !== 'feature' || !node.data.jiraIssue) return null;
+
+  const link = node.data.jiraIssue;
+  const fields: Record<string, FieldEdit> = {};
+  const mapped = jiraStatusCategoryToStatus(statusCategory);
+
+  if (link.statusCategory !== statusCategory) {
+    fields.jiraIssue = { value: { ...link, statusCategory }, base: link };
+  }
+  if (mapped !== node.data.status) {
+    fields.status = { value: mapped, base: node.data.status };
+  }
+  if (Object.keys(fields).length === 0) return null;
+
+  const patch = Object.fromEntries(Object.entries(fields).map(([field, edit]) => [field, edit.value]));
+  return {
+    nodes: nodes.map((n) => (n.id === nodeId ? ({ ...n, data: { ...n.data, ...patch } } as SpexlyNode) : n)),
+    fields,
+  };
+}
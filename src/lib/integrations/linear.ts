@@ -15,6 +15,16 @@ export interface LinearIssue {
     name: string;
     type: string;
   };
+  team: {
+    id: string;
+  };
+}
+
+export interface LinearWorkflowState {
+  id: string;
+  name: string;
+  type: string;
+  position: number;
 }
 
 export interface FeatureExportInput {
@@ -95,6 +105,9 @@ export class LinearIntegration extends BaseIntegration {
               name
               type
             }
+            team {
+              id
+            }
           }
         }
       }
@@ -136,6 +149,9 @@ export class LinearIntegration extends BaseIntegration {
             name
             type
           }
+          team {
+            id
+          }
         }
       }
     `;
@@ -144,6 +160,31 @@ export class LinearIntegration extends BaseIntegration {
     return data.issue;
   }
 
+  /**
+   * Lists a team's workflow states, in board order.
+   */
+  async listWorkflowStates(teamId: string): Promise<LinearWorkflowState[]> {
+    const query = `
+      query TeamStates($id: String!) {
+        team(id: $id) {
+          states {
+            nodes {
+              id
+              name
+              type
+              position
+            }
+          }
+        }
+      }
+    `;
+
+    const data = await this.graphqlRequest<{ team: { states: { nodes: LinearWorkflowState[] } } }>(query, {
+      id: teamId,
+    });
+    return [...data.team.states.nodes].sort((a, b) => a.position - b.position);
+  }
+
   /**
    * Updates an issue's state.
    */
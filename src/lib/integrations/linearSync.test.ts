@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyLinearStateToNodes,
+  needsLinearStatusPush,
+  parseLinearIssueStateEvent,
+  pickWorkflowState,
+  statusToLinearStateType,
+} from './linearSync';
+import type { LinearIssueLink, SpexlyNode } from '@/types/nodes';
+
+const link: LinearIssueLink = {
+  id: 'issue-1',
+  identifier: 'ENG-42',
+  url: 'https://linear.app/acme/issue/ENG-42',
+  teamId: 'team-1',
+  stateType: 'unstarted',
+};
+
+function makeFeature(status: string, linearIssue: LinearIssueLink | null = link): SpexlyNode {
+  return {
+    id: 'f1',
+    type: 'feature',
+    position: { x: 0, y: 0 },
+    data: { featureName: 'Auth', status, linearIssue },
+  } as unknown as SpexlyNode;
+}
+
+describe('linearSync', () => {
+  it('maps statuses to Linear state categories', () => {
+    expect(statusToLinearStateType('In Progress')).toBe('started');
+    expect(statusToLinearStateType('Built')).toBe('completed');
+    expect(statusToLinearStateType('Blocked')).toBeNull();
+  });
+
+  it('only pushes statuses the issue is not already in', () => {
+    expect(needsLinearStatusPush('In Progress', link)).toBe(true);
+    expect(needsLinearStatusPush('Planned', { ...link, stateType: 'backlog' })).toBe(false);
+    expect(needsLinearStatusPush('Built', { ...link, stateType: 'completed' })).toBe(false);
+    expect(needsLinearStatusPush('Broken', link)).toBe(false);
+    expect(needsLinearStatusPush('Built', null)).toBe(false);
+  });
+
+  it('picks the first workflow state of a category', () => {
+    const states = [
+      { id: 's1', name: 'Backlog', type: 'backlog', position: 0 },
+      { id: 's2', name: 'Todo', type: 'unstarted', position: 1 },
+      { id: 's3', name: 'In Review', type: 'started', position: 3 },
+    ];
+    expect(pickWorkflowState(states, 'started')?.id).toBe('s3');
+    expect(pickWorkflowState(states, 'completed')).toBeNull();
+  });
+
+  it('parses issue state updates and ignores other events', () => {
+    expect(
+      parseLinearIssueStateEvent({
+        type: 'Issue',
+        action: 'update',
+        data: { id: 'issue-1', state: { type: 'started' } },
+        webhookTimestamp: 123,
+      })
+    ).toEqual({ issueId: 'issue-1', stateType: 'started', webhookTimestamp: 123 });
+    expect(parseLinearIssueStateEvent({ type: 'Comment', action: 'create', data: {} })).toBeNull();
+    expect(parseLinearIssueStateEvent({ type: 'Issue', action: 'update', data: { id: 'x', state: { type: 'odd' } } })).toBeNull();
+  });
+
+  describe('applyLinearStateToNodes', () => {
+    it('moves the feature status and records the new category', () => {
+      const update = applyLinearStateToNodes([makeFeature('Planned')], 'f1', 'started');
+
+      expect(update?.fields).toEqual({
+        linearIssue: { value: { ...link, stateType: 'started' }, base: link },
+        status: { value: 'In Progress', base: 'Planned' },
+      });
+      expect(update?.nodes[0].data).toMatchObject({ status: 'In Progress', linearIssue: { stateType: 'started' } });
+    });
+
+    it('keeps Planned across backlog moves and leaves canceled issues alone', () => {
+      expect(applyLinearStateToNodes([makeFeature('Planned')], 'f1', 'backlog')?.fields).toEqual({
+        linearIssue: { value: { ...link, stateType: 'backlog' }, base: link },
+      });
+      expect(applyLinearStateToNodes([makeFeature('Built')], 'f1', 'canceled')?.fields.status).toBeUndefined();
+    });
+
+    it('returns null when nothing changes or the feature is not linked', () => {
+      expect(applyLinearStateToNodes([makeFeature('Planned')], 'f1', 'unstarted')).toBeNull();
+      expect(applyLinearStateToNodes([makeFeature('Planned', null)], 'f1', 'started')).toBeNull();
+      expect(applyLinearStateToNodes([makeFeature('Planned')], 'missing', 'started')).toBeNull();
+    });
+  });
+});
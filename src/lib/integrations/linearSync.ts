@@ -0,0 +1,148 @@
+import type { FeatureStatus, LinearIssueLink, LinearStateType, SpexlyNode } from '@/types/nodes';
+import type { FieldEdit } from '@/types/collaboration';
+import type { FeatureExportInput, LinearIssue, LinearWorkflowState } from './linear';
+
+/** Webhook payloads older than this are rejected as replays */
+export const LINEAR_WEBHOOK_MAX_AGE_MS = 60 * 1000;
+
+const STATE_TYPES: LinearStateType[] = ['triage', 'backlog', 'unstarted', 'started', 'completed', 'canceled'];
+
+/** Feature status each Linear state category maps to; canceled issues leave the feature alone */
+const STATUS_BY_STATE_TYPE: Record<LinearStateType, FeatureStatus | null> = {
+  triage: 'Planned',
+  backlog: 'Planned',
+  unstarted: 'Planned',
+  started: 'In Progress',
+  completed: 'Built',
+  canceled: null,
+};
+
+/** Blocked and Broken have no Linear category, so they are not pushed */
+const STATE_TYPE_BY_STATUS: Record<FeatureStatus, LinearStateType | null> = {
+  Planned: 'unstarted',
+  'In Progress': 'started',
+  Built: 'completed',
+  Blocked: null,
+  Broken: null,
+};
+
+export function isLinearStateType(value: unknown): value is LinearStateType {
+  return typeof value === 'string' && (STATE_TYPES as string[]).includes(value);
+}
+
+export function linearStateTypeToStatus(type: LinearStateType): FeatureStatus | null {
+  return STATUS_BY_STATE_TYPE[type];
+}
+
+export function statusToLinearStateType(status: FeatureStatus): LinearStateType | null {
+  return STATE_TYPE_BY_STATUS[status] ?? null;
+}
+
+/**
+ * Whether a feature's status should be pushed to its Linear issue: it has an
+ * issue and its status maps to a different category than the issue is in.
+ */
+export function needsLinearStatusPush(status: FeatureStatus, link: LinearIssueLink | null | undefined): boolean {
+  if (!link) return false;
+  const target = statusToLinearStateType(status);
+  if (!target) return false;
+  // Planned covers several Linear categories; any of them already matches
+  if (status === 'Planned') return linearStateTypeToStatus(link.stateType) !== 'Planned';
+  return target !== link.stateType;
+}
+
+/** First state of the category in board order, e.g. "Todo" for unstarted */
+export function pickWorkflowState(
+  states: LinearWorkflowState[],
+  type: LinearStateType
+): LinearWorkflowState | null {
+  return states.find((state) => state.type === type) ?? null;
+}
+
+export function toLinearIssueLink(issue: LinearIssue): LinearIssueLink {
+  return {
+    id: issue.id,
+    identifier: issue.identifier,
+    url: issue.url,
+    teamId: issue.team.id,
+    stateType: isLinearStateType(issue.state.type) ? issue.state.type : 'unstarted',
+  };
+}
+
+export function toFeatureExportInput(node: SpexlyNode): FeatureExportInput | null {
+  if (node.type !== 'feature') return null;
+  const { data } = node;
+  return {
+    featureName: data.featureName || 'Untitled feature',
+    summary: data.summary || '',
+    problem: data.problem || '',
+    acceptanceCriteria: Array.isArray(data.acceptanceCriteria) ? data.acceptanceCriteria : [],
+    priority: data.priority,
+    effort: data.effort,
+  };
+}
+
+export interface LinearIssueStateEvent {
+  issueId: string;
+  stateType: LinearStateType;
+  webhookTimestamp: number;
+}
+
+/**
+ * Pulls the issue id and new state category out of a Linear webhook body.
+ * Returns null for anything other than an issue update that carries a state.
+ */
+export function parseLinearIssueStateEvent(payload: unknown): LinearIssueStateEvent | null {
+  if (!payload || typeof payload !== 'object') return null;
+  const body = payload as Record<string, unknown>;
+  if (body.type !== 'Issue' || body.action !== 'update') return null;
+
+  const data = body.data as Record<string, unknown> | undefined;
+  const state = data?.state as Record<string, unknown> | undefined;
+  if (typeof data?.id !== 'string' || !isLinearStateType(state?.type)) return null;
+
+  return {
+    issueId: data.id,
+    stateType: state.type,
+    webhookTimestamp: typeof body.webhookTimestamp === 'number' ? body.webhookTimestamp : 0,
+  };
+}
+
+export interface LinearCanvasUpdate {
+  nodes: SpexlyNode[];
+  /** Field edits for the realtime channel, so open canvases merge the change */
+  fields: Record<string, FieldEdit>;
+}
+
+/**
+ * Applies a Linear state change to the linked feature: records the new
+ * category on `linearIssue` and moves `status` when the category maps to
+ * a different one. Returns null when nothing changes.
+ */
+export function applyLinearStateToNodes(
+  nodes: SpexlyNode[],
+  nodeId: string,
+  stateType: LinearStateType
+): LinearCanvasUpdate | null {
+  const node = nodes.find((n) => n.id === nodeId);
+  if (!node || node.type !== 'feature' || !node.data.linearIssue) return null;
+
+  const link = node.data.linearIssue;
+  const fields: Record<string, FieldEdit> = {};
+  const mapped = linearStateTypeToStatus(stateType);
+
+  if (link.stateType !== stateType) {
+    fields.linearIssue = { value: { ...link, stateType }, base: link };
+  }
+  // A Planned feature stays Planned across backlog/todo moves
+  if (mapped && mapped !== node.data.status) {
+    fields.status = { value: mapped, base: node.data.status };
+  }
+  if (Object.keys(fields).length === 0) return null;
+
+  const patch = Object.fromEntries(Object.entries(fields).map(([field, edit]) => [field, edit.value]));
+  return {
+    nodes: nodes.map((n) => (n.id === nodeId ? ({ ...n, data: { ...n.data, ...patch } } as SpexlyNode) : n)),
+    fields,
+  };
+}
@@ -1,13 +1,27 @@
-import { Client } from '@notionhq/client';
+import { APIErrorCode, Client, isNotionClientError } from '@notionhq/client';
 import type {
+  BlockObjectRequest,
   PageObjectResponse,
   BlockObjectResponse,
   PartialBlockObjectResponse,
   RichTextItemResponse,
   GetPageResponse,
 } from '@notionhq/client/build/src/api-endpoints';
-import { BaseIntegration, type IntegrationAuth } from './base';
+import { BaseIntegration, type IntegrationAuth, type IntegrationOptions } from './base';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SpexlyNode } from '@/types/nodes';
+import {
+  buildFeatureBlocks,
+  buildFeatureProperties,
+  buildOverviewBlocks,
+  buildScreenBlocks,
+  buildTechStackCells,
+  FEATURES_DATABASE_PROPERTIES,
+  planNotionPublish,
+  projectTitle,
+  TECH_STACK_COLUMNS,
+  toRichText,
+} from './notionPublish';
 
 export interface NotionPage {
   id: string;
@@ -22,8 +36,39 @@ export interface NotionImportResult {
   pageId: string;
 }
 
+export type NotionPublishedNodeKind = 'feature' | 'screen' | 'techStack';
+
+export interface NotionNodeBlock {
+  kind: NotionPublishedNodeKind;
+  /** Page id for features and screens, table row block id for tech stack entries */
+  id: string;
+}
+
+/** Where a project's page tree lives in Notion, so re-publishing updates it in place */
+export interface NotionPublication {
+  rootPageId: string;
+  rootPageUrl: string;
+  featuresDatabaseId: string;
+  featuresDataSourceId: string;
+  screensPageId: string;
+  techStackTableId: string;
+  /** Overview blocks at the top of the project page, replaced on each publish */
+  overviewBlockIds: string[];
+  nodeBlocks: Record<string, NotionNodeBlock>;
+}
+
+export interface NotionPublishResult {
+  publication: NotionPublication;
+  created: number;
+  updated: number;
+  removed: number;
+}
+
 type NotionBlock = BlockObjectResponse | PartialBlockObjectResponse;
 
+/** Notion appends at most this many blocks per request */
+const MAX_BLOCKS_PER_APPEND = 100;
+
 function isFullPage(page: GetPageResponse): page is PageObjectResponse {
   return 'properties' in page && 'url' in page;
 }
@@ -32,16 +77,26 @@ function isFullBlock(block: NotionBlock): block is BlockObjectResponse {
   return 'type' in block;
 }
 
+/** Whether an error means the page or block was deleted (or trashed) in Notion */
+function isGoneError(error: unknown): boolean {
+  if (!isNotionClientError(error)) return false;
+  return (
+    error.code === APIErrorCode.ObjectNotFound ||
+    (error.code === APIErrorCode.ValidationError && /archived|trash/i.test(error.message))
+  );
+}
+
 /**
- * Notion integration for importing PRD pages as Spexly canvases.
- * Provides OAuth authentication and page content extraction.
+ * Notion integration for importing PRD pages as Spexly canvases and
+ * publishing canvases back as a page tree.
+ * Provides OAuth authentication, page content extraction and publishing.
  */
 export class NotionIntegration extends BaseIntegration {
   private client: Client;
 
-  constructor(auth: IntegrationAuth, userId: string, supabase: SupabaseClient) {
-    super(auth, userId, supabase);
-    this.client = new Client({ auth: auth.accessToken });
+  constructor(auth: IntegrationAuth, userId: string, supabase: SupabaseClient, options: IntegrationOptions = {}) {
+    super(auth, userId, supabase, options);
+    this.client = new Client({ auth: auth.accessToken, fetch: this.fetchImpl });
   }
 
   get name() {
@@ -116,6 +171,244 @@ export class NotionIntegration extends BaseIntegration {
     }
   }
 
+  /**
+   * Publishes a canvas as a Notion page tree under `parentPageId`: an
+   * overview page from the idea node holding a tech stack table, a
+   * features database and a Screens page with one page per screen.
+   *
+   * With a previous publication whose project page still exists, the same
+   * pages and rows are updated in place, new nodes are added and pages or
+   * rows of deleted nodes are removed. Pages and rows deleted in Notion are
+   * recreated.
+   */
+  async publishProject(
+    nodes: SpexlyNode[],
+    parentPageId: string | null,
+    previous: NotionPublication | null
+  ): Promise<NotionPublishResult> {
+    try {
+      const title = projectTitle(nodes);
+      const idea = nodes.find((n) => n.type === 'idea');
+      let publication = previous && (await this.isPageLive(previous.rootPageId)) ? previous : null;
+
+      if (publication) {
+        await this.client.pages.update({
+          page_id: publication.rootPageId,
+          properties: { title: { title: toRichText(title) } },
+        });
+        await this.deleteBlocks(publication.overviewBlockIds);
+      } else {
+        if (!parentPageId) {
+          throw new Error('Choose a Notion page to publish under');
+        }
+        publication = await this.createProjectTree(parentPageId, title);
+      }
+
+      const overviewBlockIds = await this.appendBlocks(
+        publication.rootPageId,
+        buildOverviewBlocks(idea?.type === 'idea' ? idea.data : undefined),
+        true
+      );
+
+      const plan = planNotionPublish(nodes, publication.nodeBlocks);
+      const nodeBlocks: Record<string, NotionNodeBlock> = {};
+      let created = 0;
+      let updated = 0;
+
+      for (const { node, existing } of plan.upserts) {
+        const block = existing && (await this.updateNodeBlock(node, existing));
+        if (block) {
+          nodeBlocks[node.id] = block;
+          updated++;
+        } else {
+          nodeBlocks[node.id] = await this.createNodeBlock(node, publication);
+          created++;
+        }
+      }
+
+      for (const block of plan.removals) {
+        await this.removeNodeBlock(block);
+      }
+
+      return {
+        publication: { ...publication, overviewBlockIds, nodeBlocks },
+        created,
+        updated,
+        removed: plan.removals.length,
+      };
+    } catch (error) {
+      throw new Error(`Failed to publish to Notion: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Creates the project page with its tech stack table, features database
+   * and Screens page, in that order.
+   */
+  private async createProjectTree(parentPageId: string, title: string): Promise<NotionPublication> {
+    const root = await this.client.pages.create({
+      parent: { page_id: parentPageId },
+      properties: { title: { title: toRichText(title) } },
+    });
+
+    const [, techStackTableId] = await this.appendBlocks(root.id, [
+      { type: 'heading_2', heading_2: { rich_text: toRichText('Tech stack') } },
+      {
+        type: 'table',
+        table: {
+          table_width: TECH_STACK_COLUMNS.length,
+          has_column_header: true,
+          has_row_header: false,
+          children: [{ type: 'table_row', table_row: { cells: TECH_STACK_COLUMNS.map(toRichText) } }],
+        },
+      },
+    ]);
+
+    const database = await this.client.databases.create({
+      parent: { type: 'page_id', page_id: root.id },
+      title: toRichText('Features'),
+      initial_data_source: { properties: FEATURES_DATABASE_PROPERTIES },
+    });
+    const featuresDataSourceId = 'data_sources' in database ? database.data_sources[0]?.id : undefined;
+    if (!featuresDataSourceId) {
+      throw new Error('Notion did not return a data source for the features database');
+    }
+
+    const screensPage = await this.client.pages.create({
+      parent: { page_id: root.id },
+      properties: { title: { title: toRichText('Screens') } },
+    });
+
+    return {
+      rootPageId: root.id,
+      rootPageUrl: 'url' in root ? root.url : '',
+      featuresDatabaseId: database.id,
+      featuresDataSourceId,
+      screensPageId: screensPage.id,
+      techStackTableId,
+      overviewBlockIds: [],
+      nodeBlocks: {},
+    };
+  }
+
+  private async createNodeBlock(node: SpexlyNode, publication: NotionPublication): Promise<NotionNodeBlock> {
+    switch (node.type) {
+      case 'feature': {
+        const page = await this.client.pages.create({
+          parent: { data_source_id: publication.featuresDataSourceId },
+          properties: buildFeatureProperties(node.data),
+        });
+        await this.appendBlocks(page.id, buildFeatureBlocks(node.data));
+        return { kind: 'feature', id: page.id };
+      }
+      case 'screen': {
+        const page = await this.client.pages.create({
+          parent: { page_id: publication.screensPageId },
+          properties: { title: { title: toRichText(node.data.screenName || 'Untitled screen') } },
+        });
+        await this.appendBlocks(page.id, buildScreenBlocks(node.data));
+        return { kind: 'screen', id: page.id };
+      }
+      case 'techStack': {
+        const [rowId] = await this.appendBlocks(publication.techStackTableId, [
+          { type: 'table_row', table_row: { cells: buildTechStackCells(node.data) } },
+        ]);
+        return { kind: 'techStack', id: rowId };
+      }
+      default:
+        throw new Error(`Nodes of type ${node.type} are not published`);
+    }
+  }
+
+  /**
+   * Updates a node's page or row in place. Returns null when it no longer
+   * exists in Notion, so the caller recreates it.
+   */
+  private async updateNodeBlock(node: SpexlyNode, block: NotionNodeBlock): Promise<NotionNodeBlock | null> {
+    try {
+      if (node.type === 'feature') {
+        await this.client.pages.update({
+          page_id: block.id,
+          properties: buildFeatureProperties(node.data),
+          erase_content: true,
+        });
+        await this.appendBlocks(block.id, buildFeatureBlocks(node.data));
+      } else if (node.type === 'screen') {
+        await this.client.pages.update({
+          page_id: block.id,
+          properties: { title: { title: toRichText(node.data.screenName || 'Untitled screen') } },
+          erase_content: true,
+        });
+        await this.appendBlocks(block.id, buildScreenBlocks(node.data));
+      } else if (node.type === 'techStack') {
+        await this.client.blocks.update({
+          block_id: block.id,
+          table_row: { cells: buildTechStackCells(node.data) },
+        });
+      }
+      return block;
+    } catch (error) {
+      if (isGoneError(error)) return null;
+      throw error;
+    }
+  }
+
+  private async removeNodeBlock(block: NotionNodeBlock): Promise<void> {
+    try {
+      if (block.kind === 'techStack') {
+        await this.client.blocks.delete({ block_id: block.id });
+      } else {
+        await this.client.pages.update({ page_id: block.id, in_trash: true });
+      }
+    } catch (error) {
+      if (!isGoneError(error)) throw error;
+    }
+  }
+
+  private async isPageLive(pageId: string): Promise<boolean> {
+    try {
+      const page = await this.client.pages.retrieve({ page_id: pageId });
+      return !isFullPage(page) || !page.in_trash;
+    } catch (error) {
+      if (isGoneError(error)) return false;
+      throw error;
+    }
+  }
+
+  private async deleteBlocks(blockIds: string[]): Promise<void> {
+    for (const blockId of blockIds) {
+      try {
+        await this.client.blocks.delete({ block_id: blockId });
+      } catch (error) {
+        if (!isGoneError(error)) throw error;
+      }
+    }
+  }
+
+  /**
+   * Appends blocks in batches Notion accepts, at the start of the parent
+   * when `atStart` is set, and returns the new block ids in order.
+   */
+  private async appendBlocks(parentId: string, children: BlockObjectRequest[], atStart = false): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (let start = 0; start < children.length; start += MAX_BLOCKS_PER_APPEND) {
+      const previousId = ids[ids.length - 1];
+      const response = await this.client.blocks.children.append({
+        block_id: parentId,
+        children: children.slice(start, start + MAX_BLOCKS_PER_APPEND),
+        ...(previousId
+          ? { position: { type: 'after_block' as const, after_block: { id: previousId } } }
+          : atStart
+            ? { position: { type: 'start' as const } }
+            : {}),
+      });
+      ids.push(...response.results.map((block) => block.id));
+    }
+
+    return ids;
+  }
+
   /**
    * Extracts the title from a Notion page object.
    */
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFeatureBlocks,
+  buildFeatureProperties,
+  buildOverviewBlocks,
+  buildTechStackCells,
+  planNotionPublish,
+  projectTitle,
+  toRichText,
+} from './notionPublish';
+import type { FeatureNodeData, IdeaNodeData, SpexlyNode, TechStackNodeData } from '@/types/nodes';
+
+function makeNode(id: string, type: string, data: Record<string, unknown> = {}): SpexlyNode {
+  return { id, type, position: { x: 0, y: 0 }, data } as unknown as SpexlyNode;
+}
+
+describe('notionPublish', () => {
+  it('splits long text at the Notion length limit', () => {
+    const chunks = toRichText('x'.repeat(4500));
+    expect(chunks.map((chunk) => chunk.text.content.length)).toEqual([2000, 2000, 500]);
+    expect(toRichText('')).toEqual([]);
+  });
+
+  it('titles the project after the idea', () => {
+    expect(projectTitle([makeNode('i1', 'idea', { appName: 'Spexly' })])).toBe('Spexly');
+    expect(projectTitle([makeNode('i1', 'idea', { appName: ' ' })])).toBe('Untitled project');
+    expect(projectTitle([])).toBe('Untitled project');
+  });
+
+  it('builds overview sections only for filled idea fields', () => {
+    const blocks = buildOverviewBlocks({
+      description: 'Plan apps visually',
+      targetUser: 'Indie hackers',
+      coreProblem: '',
+      projectArchitecture: '',
+      corePatterns: ['Server actions'],
+      constraints: [],
+    } as unknown as IdeaNodeData);
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      'paragraph',
+      'heading_2',
+      'paragraph',
+      'heading_2',
+      'bulleted_list_item',
+      'divider',
+    ]);
+  });
+
+  it('maps feature fields to database properties and page content', () => {
+    const data = {
+      featureName: 'Auth',
+      summary: 'Sign in with email',
+      acceptanceCriteria: ['Users can sign in'],
+      implementationSteps: [],
+      priority: 'Must',
+      status: 'Built',
+      effort: 'M',
+      tags: ['mobile, web'],
+    } as unknown as FeatureNodeData;
+
+    expect(buildFeatureProperties(data)).toEqual({
+      Name: { title: toRichText('Auth') },
+      Priority: { select: { name: 'Must' } },
+      Status: { select: { name: 'Built' } },
+      Effort: { select: { name: 'M' } },
+      Tags: { multi_select: [{ name: 'mobile web' }] },
+    });
+    expect(buildFeatureBlocks(data)).toContainEqual({
+      type: 'to_do',
+      to_do: { rich_text: toRichText('Users can sign in'), checked: true },
+    });
+  });
+
+  it('builds tech stack cells with the version next to the tool', () => {
+    const cells = buildTechStackCells({
+      category: 'Frontend',
+      toolName: 'Next.js',
+      version: '16',
+      notes: '',
+      rationale: 'App router',
+    } as unknown as TechStackNodeData);
+
+    expect(cells.map((cell) => cell[0]?.text.content)).toEqual(['Frontend', 'Next.js 16', 'App router']);
+  });
+
+  describe('planNotionPublish', () => {
+    it('updates known nodes, creates new ones and removes deleted ones', () => {
+      const plan = planNotionPublish(
+        [
+          makeNode('idea', 'idea'),
+          makeNode('f1', 'feature'),
+          makeNode('f2', 'feature'),
+          makeNode('t1', 'techStack'),
+        ],
+        {
+          f1: { kind: 'feature', id: 'page-1' },
+          s1: { kind: 'screen', id: 'page-2' },
+          t1: { kind: 'techStack', id: 'row-1' },
+        }
+      );
+
+      expect(plan.upserts.map(({ node, existing }) => [node.id, existing?.id ?? null])).toEqual([
+        ['f1', 'page-1'],
+        ['f2', null],
+        ['t1', 'row-1'],
+      ]);
+      expect(plan.removals).toEqual([{ kind: 'screen', id: 'page-2' }]);
+    });
+
+    it('replaces the page of a node whose kind no longer matches', () => {
+      const plan = planNotionPublish([makeNode('n1', 'screen')], { n1: { kind: 'feature', id: 'page-1' } });
+
+      expect(plan.upserts[0].existing).toBeNull();
+      expect(plan.removals).toEqual([{ kind: 'feature', id: 'page-1' }]);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import type {
+  BlockObjectRequest,
+  CreateDatabaseParameters,
+  CreatePageParameters,
+} from '@notionhq/client/build/src/api-endpoints';
+import type {
+  FeatureNodeData,
+  IdeaNodeData,
+  ScreenNodeData,
+  SpexlyNode,
+  TechStackNodeData,
+} from '@/types/nodes';
+import type { NotionNodeBlock, NotionPublication, NotionPublishedNodeKind } from './notion';
+
+/** Notion rejects text objects longer than this */
+const MAX_TEXT_LENGTH = 2000;
+
+type RichText = { type: 'text'; text: { content: string } }[];
+type PageProperties = NonNullable<CreatePageParameters['properties']>;
+type DatabaseProperties = NonNullable<NonNullable<CreateDatabaseParameters['initial_data_source']>['properties']>;
+
+/** Splits text into as many text objects as Notion's length limit needs */
+export function toRichText(text: string): RichText {
+  const chunks: RichText = [];
+  for (let start = 0; start < text.length; start += MAX_TEXT_LENGTH) {
+    chunks.push({ type: 'text', text: { content: text.slice(start, start + MAX_TEXT_LENGTH) } });
+  }
+  return chunks;
+}
+
+function paragraph(text: string): BlockObjectRequest {
+  return { type: 'paragraph', paragraph: { rich_text: toRichText(text) } };
+}
+
+function heading(text: string): BlockObjectRequest {
+  return { type: 'heading_2', heading_2: { rich_text: toRichText(text) } };
+}
+
+function bullet(text: string): BlockObjectRequest {
+  return { type: 'bulleted_list_item', bulleted_list_item: { rich_text: toRichText(text) } };
+}
+
+function todo(text: string, checked: boolean): BlockObjectRequest {
+  return { type: 'to_do', to_do: { rich_text: toRichText(text), checked } };
+}
+
+function nonEmpty(values: unknown): string[] {
+  return Array.isArray(values)
+    ? values.filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+    : [];
+}
+
+/** A heading followed by the text, or nothing when the text is empty */
+function textSection(title: string, text: string | undefined): BlockObjectRequest[] {
+  return text?.trim() ? [heading(title), paragraph(text)] : [];
+}
+
+/** A heading followed by one block per item, or nothing when there are no items */
+function listSection(title: string, items: unknown, toBlock: (item: string) => BlockObjectRequest = bullet) {
+  const values = nonEmpty(items);
+  return values.length > 0 ? [heading(title), ...values.map(toBlock)] : [];
+}
+
+export function projectTitle(nodes: SpexlyNode[]): string {
+  const idea = nodes.find((n) => n.type === 'idea');
+  return (idea?.type === 'idea' && idea.data.appName.trim()) || 'Untitled project';
+}
+
+/** Overview content at the top of the project page, from the idea node */
+export function buildOverviewBlocks(idea: IdeaNodeData | undefined): BlockObjectRequest[] {
+  if (!idea) return [paragraph('Published from Spexly.')];
+  return [
+    ...(idea.description?.trim() ? [paragraph(idea.description)] : []),
+    ...textSection('Target user', idea.targetUser),
+    ...textSection('Core problem', idea.coreProblem),
+    ...textSection('Architecture', idea.projectArchitecture),
+    ...listSection('Core patterns', idea.corePatterns),
+    ...listSection('Constraints', idea.constraints),
+    { type: 'divider', divider: {} },
+  ];
+}
+
+const PRIORITIES: FeatureNodeData['priority'][] = ['Must', 'Should', 'Nice'];
+const STATUSES: FeatureNodeData['status'][] = ['Planned', 'In Progress', 'Built', 'Blocked', 'Broken'];
+const EFFORTS: FeatureNodeData['effort'][] = ['XS', 'S', 'M', 'L', 'XL'];
+
+/** Property schema of the features database */
+export const FEATURES_DATABASE_PROPERTIES: DatabaseProperties = {
+  Name: { title: {} },
+  Priority: { select: { options: PRIORITIES.map((name) => ({ name })) } },
+  Status: { select: { options: STATUSES.map((name) => ({ name })) } },
+  Effort: { select: { options: EFFORTS.map((name) => ({ name })) } },
+  Tags: { multi_select: { options: [] } },
+};
+
+export function buildFeatureProperties(data: FeatureNodeData): PageProperties {
+  return {
+    Name: { title: toRichText(data.featureName || 'Untitled feature') },
+    Priority: { select: data.priority ? { name: data.priority } : null },
+    Status: { select: data.status ? { name: data.status } : null },
+    Effort: { select: data.effort ? { name: data.effort } : null },
+    // Notion option names can't contain commas
+    Tags: { multi_select: nonEmpty(data.tags).map((tag) => ({ name: tag.replace(/\s*,\s*/g, ' ') })) },
+  };
+}
+
+export function buildFeatureBlocks(data: FeatureNodeData): BlockObjectRequest[] {
+  return [
+    ...(data.summary?.trim() ? [paragraph(data.summary)] : []),
+    ...textSection('Problem', data.problem),
+    ...textSection('User story', data.userStory),
+    ...listSection('Acceptance criteria', data.acceptanceCriteria, (item) => todo(item, data.status === 'Built')),
+    ...listSection('Implementation steps', data.implementationSteps),
+    ...textSection('Risks', data.risks),
+    ...textSection('Notes', data.notes),
+  ];
+}
+
+export function buildScreenBlocks(data: ScreenNodeData): BlockObjectRequest[] {
+  return [
+    ...(data.purpose?.trim() ? [paragraph(data.purpose)] : []),
+    ...listSection('Key elements', data.keyElements),
+    ...listSection('User actions', data.userActions),
+    ...listSection('States', data.states),
+    ...textSection('Navigation', data.navigation),
+    ...(data.wireframeUrl?.trim()
+      ? [heading('Wireframe'), { type: 'bookmark', bookmark: { url: data.wireframeUrl } } as BlockObjectRequest]
+      : []),
+    ...textSection('Notes', data.notes),
+  ];
+}
+
+export const TECH_STACK_COLUMNS = ['Category', 'Tool', 'Notes'];
+
+export function buildTechStackCells(data: TechStackNodeData): RichText[] {
+  const tool = data.version?.trim() ? `${data.toolName} ${data.version}` : data.toolName;
+  return [toRichText(data.category || ''), toRichText(tool || ''), toRichText(data.notes || data.rationale || '')];
+}
+
+function publishedKind(node: SpexlyNode): NotionPublishedNodeKind | null {
+  if (node.type === 'feature' || node.type === 'screen' || node.type === 'techStack') return node.type;
+  return null;
+}
+
+export interface NotionPublishPlan {
+  /** Nodes to publish, with their existing page or row when they have one */
+  upserts: { node: SpexlyNode; existing: NotionNodeBlock | null }[];
+  /** Pages and rows whose node is gone (or changed kind) since the last publish */
+  removals: NotionNodeBlock[];
+}
+
+/**
+ * Works out which published nodes are created, updated in place, or
+ * removed, given the node → page/row map from the previous publish.
+ */
+export function planNotionPublish(
+  nodes: SpexlyNode[],
+  previous: Record<string, NotionNodeBlock>
+): NotionPublishPlan {
+  const upserts: NotionPublishPlan['upserts'] = [];
+  const kept = new Set<string>();
+
+  nodes.forEach((node) => {
+    const kind = publishedKind(node);
+    if (!kind) return;
+    const existing = previous[node.id]?.kind === kind ? previous[node.id] : null;
+    if (existing) kept.add(node.id);
+    upserts.push({ node, existing });
+  });
+
+  return {
+    upserts,
+    removals: Object.entries(previous)
+      .filter(([nodeId]) => !kept.has(nodeId))
+      .map(([, block]) => block),
+  };
+}
+
+export interface NotionPublicationRow {
+  project_id: string;
+  published_by: string | null;
+  root_page_id: string;
+  root_page_url: string;
+  features_database_id: string;
+  features_data_source_id: string;
+  screens_page_id: string;
+  tech_stack_table_id: string;
+  overview_block_ids: string[];
+  node_blocks: Record<string, NotionNodeBlock>;
+  published_at: string;
+}
+
+export function fromNotionPublicationRow(row: NotionPublicationRow): NotionPublication {
+  return {
+    rootPageId: row.root_page_id,
+    rootPageUrl: row.root_page_url,
+    featuresDatabaseId: row.features_database_id,
+    featuresDataSourceId: row.features_data_source_id,
+    screensPageId: row.screens_page_id,
+    techStackTableId: row.tech_stack_table_id,
+    overviewBlockIds: Array.isArray(row.overview_block_ids) ? row.overview_block_ids : [],
+    nodeBlocks: row.node_blocks ?? {},
+  };
+}
+
+export function toNotionPublicationRow(
+  projectId: string,
+  userId: string,
+  publication: NotionPublication
+): NotionPublicationRow {
+  return {
+    project_id: projectId,
+    published_by: userId,
+    root_page_id: publication.rootPageId,
+    root_page_url: publication.rootPageUrl,
+    features_database_id: publication.featuresDatabaseId,
+    features_data_source_id: publication.featuresDataSourceId,
+    screens_page_id: publication.screensPageId,
+    tech_stack_table_id: publication.techStackTableId,
+    overview_block_ids: publication.overviewBlockIds,
+    node_blocks: publication.nodeBlocks,
+    published_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { oauthStateMatches } from './oauthState';
+
+describe('oauthStateMatches', () => {
+  it('accepts the issued nonce', () => {
+    expect(oauthStateMatches('f3Zq9x', 'f3Zq9x')).toBe(true);
+  });
+
+  it('rejects a different or missing state', () => {
+    expect(oauthStateMatches('f3Zq9x', 'f3Zq9y')).toBe(false);
+    expect(oauthStateMatches('f3Zq9x', 'f3Zq9')).toBe(false);
+    expect(oauthStateMatches('f3Zq9x', null)).toBe(false);
+    expect(oauthStateMatches(undefined, 'f3Zq9x')).toBe(false);
+    expect(oauthStateMatches('', '')).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import type { IntegrationProvider } from './base';
+
+/** How long a user has to finish authorizing on the provider's side */
+const STATE_TTL_SECONDS = 10 * 60;
+
+function stateCookieName(provider: IntegrationProvider): string {
+  return `oauth_state_${provider}`;
+}
+
+/**
+ * True when the callback's `state` matches the nonce issued for this
+ * browser. A missing value on either side never matches.
+ */
+export function oauthStateMatches(expected: string | null | undefined, received: string | null | undefined): boolean {
+  if (!expected || !received) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Issues a random OAuth `state` for the provider and keeps it in an
+ * httpOnly cookie scoped to the provider's callback, so the callback can
+ * check that the authorization was started from this browser.
+ */
+export async function issueOAuthState(provider: IntegrationProvider): Promise<string> {
+  const state = randomBytes(32).toString('base64url');
+  const cookieStore = await cookies();
+  cookieStore.set(stateCookieName(provider), state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax so the cookie comes along on the provider's redirect back
+    sameSite: 'lax',
+    path: `/api/integrations/${provider}/callback`,
+    maxAge: STATE_TTL_SECONDS,
+  });
+  return state;
+}
+
+/**
+ * Checks the callback's `state` against the issued nonce and clears the
+ * cookie, so each nonce can only be used once.
+ */
+export async function consumeOAuthState(provider: IntegrationProvider, state: string | null): Promise<boolean> {
+  const cookieStore = await cookies();
+  const expected = cookieStore.get(stateCookieName(provider))?.value;
+  cookieStore.delete({ name: stateCookieName(provider), path: `/api/integrations/${provider}/callback` });
+  return oauthStateMatches(expected, state);
+}
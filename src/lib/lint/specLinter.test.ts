@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { lintSpec } from './specLinter';
+import type { SpexlyEdge, SpexlyNode } from '@/types/nodes';
+
+function makeNode(id: string, type: SpexlyNode['type'], data: Record<string, unknown>): SpexlyNode {
+  return { id, type, position: { x: 0, y: 0 }, data } as SpexlyNode;
+}
+
+const GOOD_STORY = 'As a shopper, I want to save my cart so that I can finish checkout later';
+const GOOD_CRITERIA = ['Cart persists after signing out and back in', 'Saved cart shows item prices at save time'];
+
+function rulesFor(nodes: SpexlyNode[], edges: SpexlyEdge[], nodeId: string): string[] {
+  const result = lintSpec(nodes, edges).nodes.find((n) => n.nodeId === nodeId);
+  return result?.issues.map((issue) => issue.rule) ?? [];
+}
+
+describe('specLinter', () => {
+  it('passes a well-specified feature connected to a screen', () => {
+    const nodes = [
+      makeNode('f1', 'feature', { featureName: 'Saved cart', userStory: GOOD_STORY, acceptanceCriteria: GOOD_CRITERIA }),
+      makeNode('s1', 'screen', { screenName: 'Cart', states: ['Loading', 'Empty cart', 'Error', 'Filled'] }),
+    ];
+    const edges: SpexlyEdge[] = [{ id: 'e1', source: 'f1', target: 's1' }];
+
+    const report = lintSpec(nodes, edges);
+    expect(report.issueCount).toBe(0);
+    expect(report.score).toBe(100);
+  });
+
+  it('flags missing and vague user stories', () => {
+    const nodes = [
+      makeNode('a', 'feature', { featureName: 'A', userStory: '', acceptanceCriteria: GOOD_CRITERIA }),
+      makeNode('b', 'feature', { featureName: 'B', userStory: 'Make login fast', acceptanceCriteria: GOOD_CRITERIA }),
+      makeNode('c', 'feature', {
+        featureName: 'C',
+        userStory: 'As a user, I want an intuitive dashboard so that it is easy to use',
+        acceptanceCriteria: GOOD_CRITERIA,
+      }),
+    ];
+
+    expect(rulesFor(nodes, [], 'a')).toContain('missing-user-story');
+    expect(rulesFor(nodes, [], 'b')).toContain('vague-user-story');
+    const issue = lintSpec(nodes, []).nodes.find((n) => n.nodeId === 'c')!.issues[0];
+    expect(issue.rule).toBe('vague-user-story');
+    expect(issue.message).toContain('easy, intuitive');
+  });
+
+  it('flags missing criteria and each untestable criterion', () => {
+    const nodes = [
+      makeNode('a', 'feature', { featureName: 'A', userStory: GOOD_STORY, acceptanceCriteria: [] }),
+      makeNode('b', 'feature', {
+        featureName: 'B',
+        userStory: GOOD_STORY,
+        acceptanceCriteria: ['Works well', 'Search results load quickly for users', 'Results are sorted by relevance score'],
+      }),
+    ];
+    const report = lintSpec(nodes, []);
+
+    expect(rulesFor(nodes, [], 'a')).toContain('missing-acceptance-criteria');
+    const untestable = report.nodes.find((n) => n.nodeId === 'b')!.issues.filter((i) => i.rule === 'untestable-criterion');
+    expect(untestable.map((i) => i.id)).toEqual(['b:untestable-criterion:0', 'b:untestable-criterion:1']);
+  });
+
+  it('flags features without screens and dependencies on unknown features', () => {
+    const nodes = [
+      makeNode('f1', 'feature', {
+        featureName: 'Checkout',
+        userStory: GOOD_STORY,
+        acceptanceCriteria: GOOD_CRITERIA,
+        dependencies: ['Payments gateway'],
+      }),
+    ];
+
+    const issues = lintSpec(nodes, []).nodes[0].issues;
+    expect(issues.map((i) => i.rule)).toEqual(['feature-without-screen', 'unknown-dependency']);
+    expect(issues[0].field).toBeNull();
+    expect(issues[1].message).toContain('Payments gateway');
+  });
+
+  it('checks screen states and tech stack rationale', () => {
+    const nodes = [
+      makeNode('s1', 'screen', { screenName: 'Home', states: [] }),
+      makeNode('s2', 'screen', { screenName: 'List', states: ['Loading', 'Populated'] }),
+      makeNode('t1', 'techStack', { toolName: 'Supabase', rationale: '  ' }),
+      makeNode('t2', 'techStack', { toolName: 'Stripe', rationale: 'Best-documented payments API' }),
+      makeNode('n1', 'note', { title: 'Not linted' }),
+    ];
+    const report = lintSpec(nodes, []);
+
+    expect(rulesFor(nodes, [], 's1')).toEqual(['missing-screen-states']);
+    const partial = report.nodes.find((n) => n.nodeId === 's2')!.issues[0];
+    expect(partial.rule).toBe('incomplete-screen-states');
+    expect(partial.message).toBe('No empty or error state.');
+    expect(rulesFor(nodes, [], 't1')).toEqual(['tech-without-rationale']);
+    expect(report.nodes.map((n) => n.nodeId)).not.toContain('n1');
+  });
+
+  it('scores nodes by severity and sorts the worst first', () => {
+    const nodes = [
+      makeNode('t1', 'techStack', { toolName: 'Supabase', rationale: '' }),
+      makeNode('f1', 'feature', { featureName: 'A', userStory: '', acceptanceCriteria: [] }),
+    ];
+    const report = lintSpec(nodes, []);
+
+    // missing story (15) + no criteria (30) + no screen (5)
+    expect(report.nodes.map((n) => [n.nodeId, n.score])).toEqual([
+      ['f1', 50],
+      ['t1', 85],
+    ]);
+    expect(report.score).toBe(68);
+  });
+});
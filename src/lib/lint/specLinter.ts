@@ -0,0 +1,285 @@
+import { getConnectedContext, getNodeDisplayName } from '@/lib/export/exportContextUtils';
+import { analyzeFeatureDependencies } from '@/lib/graph/featureDependencies';
+import type { SpexlyEdge, SpexlyNode } from '@/types/nodes';
+
+export type SpecIssueSeverity = 'error' | 'warning' | 'info';
+
+export type SpecRule =
+  | 'missing-user-story'
+  | 'vague-user-story'
+  | 'missing-acceptance-criteria'
+  | 'untestable-criterion'
+  | 'missing-screen-states'
+  | 'incomplete-screen-states'
+  | 'feature-without-screen'
+  | 'tech-without-rationale'
+  | 'unknown-dependency';
+
+export type LintedNodeType = 'feature' | 'screen' | 'techStack';
+
+export interface SpecIssue {
+  /** `${nodeId}:${rule}:${n}`, stable while the node's findings don't change */
+  id: string;
+  nodeId: string;
+  nodeType: LintedNodeType;
+  rule: SpecRule;
+  severity: SpecIssueSeverity;
+  message: string;
+  suggestion: string;
+  /** Node field a fix would rewrite; null when the fix is a canvas change */
+  field: string | null;
+}
+
+export interface NodeSpecScore {
+  nodeId: string;
+  nodeType: LintedNodeType;
+  name: string;
+  /** 0-100; every issue subtracts its severity's penalty */
+  score: number;
+  issues: SpecIssue[];
+}
+
+export interface SpecLintReport {
+  /** Linted nodes, lowest score first */
+  nodes: NodeSpecScore[];
+  issueCount: number;
+  /** Mean node score, or 100 when there is nothing to lint */
+  score: number;
+}
+
+/** A finding before it is attached to its node */
+type Finding = Omit<SpecIssue, 'id' | 'nodeId' | 'nodeType'>;
+
+const SEVERITY_PENALTY: Record<SpecIssueSeverity, number> = {
+  error: 30,
+  warning: 15,
+  info: 5,
+};
+
+export const SPEC_RULE_LABELS: Record<SpecRule, string> = {
+  'missing-user-story': 'Missing user story',
+  'vague-user-story': 'Vague user story',
+  'missing-acceptance-criteria': 'No acceptance criteria',
+  'untestable-criterion': 'Untestable criterion',
+  'missing-screen-states': 'No screen states',
+  'incomplete-screen-states': 'Missing common states',
+  'feature-without-screen': 'Feature without a screen',
+  'tech-without-rationale': 'No rationale',
+  'unknown-dependency': 'Unknown dependency',
+};
+
+/** Words that make a requirement impossible to verify without a number or concrete behaviour */
+const VAGUE_TERMS = [
+  'easy',
+  'easily',
+  'simple',
+  'simply',
+  'fast',
+  'quick',
+  'quickly',
+  'intuitive',
+  'user-friendly',
+  'user friendly',
+  'seamless',
+  'seamlessly',
+  'nice',
+  'better',
+  'good',
+  'properly',
+  'appropriate',
+  'efficient',
+  'robust',
+  'modern',
+  'etc',
+];
+
+const USER_STORY_PATTERN = /^\s*as an?\s+.+?,?\s+i\s+(?:want|need|can)\s+.+?\s+so\s+(?:that\s+)?.+/i;
+
+/** States most screens need; screens listing none of a kind get a hint */
+const COMMON_SCREEN_STATES = ['loading', 'empty', 'error'];
+
+const MIN_CRITERION_WORDS = 4;
+
+function findVagueTerms(value: string): string[] {
+  const lower = value.toLowerCase();
+  return VAGUE_TERMS.filter((term) => new RegExp(`(^|[^a-z-])${term}([^a-z-]|$)`).test(lower));
+}
+
+function joinWithOr(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}` : items[0] ?? '';
+}
+
+function getStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    : [];
+}
+
+function lintFeature(
+  node: Extract<SpexlyNode, { type: 'feature' }>,
+  nodes: SpexlyNode[],
+  edges: SpexlyEdge[],
+  unresolved: string[]
+): Finding[] {
+  const issues: Finding[] = [];
+  const story = typeof node.data.userStory === 'string' ? node.data.userStory.trim() : '';
+
+  if (!story) {
+    issues.push({
+      rule: 'missing-user-story',
+      severity: 'warning',
+      message: 'No user story.',
+      suggestion: 'Add "As a [user], I want [goal] so that [benefit]".',
+      field: 'userStory',
+    });
+  } else {
+    const vague = findVagueTerms(story);
+    if (!USER_STORY_PATTERN.test(story) || vague.length > 0) {
+      issues.push({
+        rule: 'vague-user-story',
+        severity: 'warning',
+        message:
+          vague.length > 0
+            ? `User story relies on vague terms: ${vague.join(', ')}.`
+            : 'User story does not name a user, a goal and a benefit.',
+        suggestion: 'Rewrite as "As a [specific user], I want [concrete goal] so that [measurable benefit]".',
+        field: 'userStory',
+      });
+    }
+  }
+
+  const criteria = getStringList(node.data.acceptanceCriteria);
+  if (criteria.length === 0) {
+    issues.push({
+      rule: 'missing-acceptance-criteria',
+      severity: 'error',
+      message: 'No acceptance criteria, so there is no definition of done.',
+      suggestion: 'Add 3-5 checks a reviewer could verify by using the feature.',
+      field: 'acceptanceCriteria',
+    });
+  }
+  criteria.forEach((criterion, index) => {
+    const vague = findVagueTerms(criterion);
+    const tooShort = criterion.trim().split(/\s+/).length < MIN_CRITERION_WORDS;
+    if (vague.length === 0 && !tooShort) return;
+    issues.push({
+      rule: 'untestable-criterion',
+      severity: 'warning',
+      message:
+        vague.length > 0
+          ? `Criterion ${index + 1} ("${criterion}") can't be tested: ${vague.join(', ')}.`
+          : `Criterion ${index + 1} ("${criterion}") is too short to test.`,
+      suggestion: 'State the observable behaviour, with numbers where it matters (e.g. "loads in under 2s").',
+      field: 'acceptanceCriteria',
+    });
+  });
+
+  const hasScreen = getConnectedContext(node.id, nodes, edges).some((entry) => entry.node.type === 'screen');
+  if (!hasScreen) {
+    issues.push({
+      rule: 'feature-without-screen',
+      severity: 'info',
+      message: 'Not connected to any screen.',
+      suggestion: 'Connect the screens where users reach this feature, or note that it has no UI.',
+      field: null,
+    });
+  }
+
+  for (const name of unresolved) {
+    issues.push({
+      rule: 'unknown-dependency',
+      severity: 'error',
+      message: `Depends on "${name}", which matches no feature on the canvas.`,
+      suggestion: 'Rename it to an existing feature, add the missing feature, or remove the dependency.',
+      field: 'dependencies',
+    });
+  }
+
+  return issues;
+}
+
+function lintScreen(node: Extract<SpexlyNode, { type: 'screen' }>): Finding[] {
+  const states = getStringList(node.data.states);
+  if (states.length === 0) {
+    return [
+      {
+        rule: 'missing-screen-states',
+        severity: 'warning',
+        message: 'No states listed.',
+        suggestion: 'List the loading, empty, error and success states this screen can show.',
+        field: 'states',
+      },
+    ];
+  }
+
+  const lower = states.map((state) => state.toLowerCase());
+  const missing = COMMON_SCREEN_STATES.filter((state) => !lower.some((s) => s.includes(state)));
+  if (missing.length === 0) return [];
+  return [
+    {
+      rule: 'incomplete-screen-states',
+      severity: 'info',
+      message: `No ${joinWithOr(missing)} state.`,
+      suggestion: `Describe the ${joinWithOr(missing)} state, or note why the screen never shows it.`,
+      field: 'states',
+    },
+  ];
+}
+
+function lintTechStack(node: Extract<SpexlyNode, { type: 'techStack' }>): Finding[] {
+  const rationale = typeof node.data.rationale === 'string' ? node.data.rationale.trim() : '';
+  if (rationale) return [];
+  return [
+    {
+      rule: 'tech-without-rationale',
+      severity: 'warning',
+      message: 'No rationale for choosing this tool.',
+      suggestion: 'Say why it was picked over alternatives, so an agent does not swap it out.',
+      field: 'rationale',
+    },
+  ];
+}
+
+function scoreIssues(issues: SpecIssue[]): number {
+  const penalty = issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0);
+  return Math.max(0, 100 - penalty);
+}
+
+/**
+ * Deterministic spec checks for features, screens and tech stack nodes.
+ * Other node types are not scored.
+ */
+export function lintSpec(nodes: SpexlyNode[], edges: SpexlyEdge[]): SpecLintReport {
+  const { unresolved } = analyzeFeatureDependencies(nodes, edges);
+  const results: NodeSpecScore[] = [];
+
+  for (const node of nodes) {
+    let found: Finding[];
+    if (node.type === 'feature') found = lintFeature(node, nodes, edges, unresolved.get(node.id) ?? []);
+    else if (node.type === 'screen') found = lintScreen(node);
+    else if (node.type === 'techStack') found = lintTechStack(node);
+    else continue;
+
+    const counts = new Map<SpecRule, number>();
+    const issues = found.map((issue) => {
+      const count = counts.get(issue.rule) ?? 0;
+      counts.set(issue.rule, count + 1);
+      return { ...issue, id: `${node.id}:${issue.rule}:${count}`, nodeId: node.id, nodeType: node.type };
+    });
+
+    results.push({
+      nodeId: node.id,
+      nodeType: node.type,
+      name: getNodeDisplayName(node),
+      score: scoreIssues(issues),
+      issues,
+    });
+  }
+
+  results.sort((a, b) => a.score - b.score);
+  const issueCount = results.reduce((sum, result) => sum + result.issues.length, 0);
+  const score =
+    results.length > 0 ? Math.round(results.reduce((sum, result) => sum + result.score, 0) / results.length) : 100;
+
+  return { nodes: results, issueCount, score };
+}
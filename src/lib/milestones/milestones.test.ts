@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getLocalDateString,
+  getMilestoneLabel,
+  getMilestoneNodes,
+  getMilestoneProgress,
+  isMilestoneOverdue,
+  isValidTargetDate,
+  normalizeMilestoneName,
+  scopeNodesToMilestone,
+  sortMilestones,
+} from './milestones';
+import type { FeatureStatus, SpexlyNode } from '@/types/nodes';
+import type { ProjectMilestone } from '@/types/project';
+
+function makeMilestone(id: string, position: number, overrides: Partial<ProjectMilestone> = {}): ProjectMilestone {
+  return {
+    id,
+    project_id: 'p1',
+    created_by: 'u1',
+    name: id,
+    target_date: null,
+    position,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeFeature(id: string, status: FeatureStatus, milestoneId?: string | null): SpexlyNode {
+  return {
+    id,
+    type: 'feature',
+    position: { x: 0, y: 0 },
+    data: { featureName: id, status, effort: 'M', estimatedHours: null, milestoneId, completed: false },
+  } as unknown as SpexlyNode;
+}
+
+function makeScreen(id: string, completed: boolean, milestoneId?: string | null): SpexlyNode {
+  return {
+    id,
+    type: 'screen',
+    position: { x: 0, y: 0 },
+    data: { screenName: id, completed, milestoneId },
+  } as unknown as SpexlyNode;
+}
+
+function makeNote(id: string): SpexlyNode {
+  return { id, type: 'note', position: { x: 0, y: 0 }, data: { title: id, completed: false } } as unknown as SpexlyNode;
+}
+
+const ids = new Set(['v1', 'v2']);
+
+describe('milestones', () => {
+  it('validates calendar target dates', () => {
+    expect(isValidTargetDate(null)).toBe(true);
+    expect(isValidTargetDate('2026-03-01')).toBe(true);
+    expect(isValidTargetDate('2026-02-30')).toBe(false);
+    expect(isValidTargetDate('03/01/2026')).toBe(false);
+  });
+
+  it('normalizes names and sorts by position, then creation time', () => {
+    expect(normalizeMilestoneName('  v1   beta ')).toBe('v1 beta');
+    const sorted = sortMilestones([
+      makeMilestone('b', 1),
+      makeMilestone('c', 0, { created_at: '2026-02-01T00:00:00Z' }),
+      makeMilestone('a', 0),
+    ]);
+    expect(sorted.map((m) => m.id)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('treats unknown milestone ids as unscheduled', () => {
+    const nodes = [makeFeature('f1', 'Planned', 'v1'), makeFeature('f2', 'Planned', 'deleted'), makeNote('n1')];
+    expect(getMilestoneNodes(nodes, 'v1', ids).map((n) => n.id)).toEqual(['f1']);
+    expect(getMilestoneNodes(nodes, null, ids).map((n) => n.id)).toEqual(['f2']);
+  });
+
+  it('scopes an export to one milestone, keeping shared context nodes', () => {
+    const nodes = [makeFeature('f1', 'Planned', 'v1'), makeFeature('f2', 'Planned', 'v2'), makeScreen('s1', false), makeNote('n1')];
+    expect(scopeNodesToMilestone(nodes, 'v1').map((n) => n.id)).toEqual(['f1', 'n1']);
+  });
+
+  it('computes progress across features and screens', () => {
+    const nodes = [
+      makeFeature('f1', 'Built', 'v1'),
+      makeFeature('f2', 'In Progress', 'v1'),
+      makeScreen('s1', true, 'v1'),
+      makeScreen('s2', false, 'v1'),
+      makeFeature('f3', 'Planned', 'v2'),
+    ];
+    expect(getMilestoneProgress(nodes, 'v1', ids)).toEqual({
+      featureCount: 2,
+      builtFeatureCount: 1,
+      screenCount: 2,
+      completedScreenCount: 1,
+      percent: 50,
+      remainingHours: 8,
+    });
+  });
+
+  it('flags milestones past their target date with open work', () => {
+    const progress = getMilestoneProgress([makeFeature('f1', 'Planned', 'v1')], 'v1', ids);
+    const done = getMilestoneProgress([makeFeature('f1', 'Built', 'v1')], 'v1', ids);
+    const milestone = { target_date: '2026-03-01' };
+
+    expect(isMilestoneOverdue(milestone, progress, '2026-03-02')).toBe(true);
+    expect(isMilestoneOverdue(milestone, progress, '2026-03-01')).toBe(false);
+    expect(isMilestoneOverdue(milestone, done, '2026-03-02')).toBe(false);
+    expect(isMilestoneOverdue({ target_date: null }, progress, '2026-03-02')).toBe(false);
+  });
+
+  it('formats labels and local dates', () => {
+    expect(getMilestoneLabel({ name: 'v1', target_date: '2026-03-01' })).toBe('v1 (target Mar 1, 2026)');
+    expect(getMilestoneLabel({ name: 'v2', target_date: null })).toBe('v2');
+    expect(getLocalDateString(new Date(2026, 0, 5))).toBe('2026-01-05');
+  });
+});
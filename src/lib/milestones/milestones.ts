@@ -0,0 +1,141 @@
+import { getRemainingHours } from '@/lib/graph/featureDependencies';
+import type { ProjectMilestone } from '@/types/project';
+import type { SpexlyNode } from '@/types/nodes';
+
+export const MAX_MILESTONE_NAME_LENGTH = 80;
+export const MAX_MILESTONES_PER_PROJECT = 30;
+
+const TARGET_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type PlannableNode = Extract<SpexlyNode, { type: 'feature' | 'screen' }>;
+
+export interface MilestoneProgress {
+  featureCount: number;
+  builtFeatureCount: number;
+  screenCount: number;
+  completedScreenCount: number;
+  /** Built features plus completed screens, as a share of everything planned */
+  percent: number;
+  /** Remaining feature hours (estimate, else effort size) */
+  remainingHours: number;
+}
+
+/** Features and screens are the only nodes that get planned into a milestone */
+export function isPlannableNode(node: SpexlyNode): node is PlannableNode {
+  return node.type === 'feature' || node.type === 'screen';
+}
+
+export function normalizeMilestoneName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/** Target dates are plain calendar days (YYYY-MM-DD); null means no date */
+export function isValidTargetDate(date: string | null): boolean {
+  if (date === null) return true;
+  if (!TARGET_DATE_PATTERN.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+export function sortMilestones(milestones: ProjectMilestone[]): ProjectMilestone[] {
+  return [...milestones].sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * The milestone a node is planned for. Ids of deleted milestones count as
+ * unscheduled, so nodes never disappear from the board.
+ */
+export function getNodeMilestoneId(node: SpexlyNode, milestoneIds: Set<string>): string | null {
+  if (!isPlannableNode(node)) return null;
+  const id = node.data.milestoneId;
+  return id && milestoneIds.has(id) ? id : null;
+}
+
+/** Features and screens planned for a milestone; null selects the unscheduled ones */
+export function getMilestoneNodes(
+  nodes: SpexlyNode[],
+  milestoneId: string | null,
+  milestoneIds: Set<string>
+): PlannableNode[] {
+  return nodes.filter(
+    (node): node is PlannableNode => isPlannableNode(node) && getNodeMilestoneId(node, milestoneIds) === milestoneId
+  );
+}
+
+/**
+ * Narrows a canvas to one milestone for export: features and screens from
+ * other milestones are dropped, everything else (idea, tech stack, prompts,
+ * notes, groups) is kept as shared context.
+ */
+export function scopeNodesToMilestone(nodes: SpexlyNode[], milestoneId: string): SpexlyNode[] {
+  return nodes.filter((node) => !isPlannableNode(node) || node.data.milestoneId === milestoneId);
+}
+
+export function getMilestoneProgress(
+  nodes: SpexlyNode[],
+  milestoneId: string | null,
+  milestoneIds: Set<string>
+): MilestoneProgress {
+  const planned = getMilestoneNodes(nodes, milestoneId, milestoneIds);
+  let featureCount = 0;
+  let builtFeatureCount = 0;
+  let screenCount = 0;
+  let completedScreenCount = 0;
+  let remainingHours = 0;
+
+  for (const node of planned) {
+    if (node.type === 'feature') {
+      featureCount += 1;
+      if (node.data.status === 'Built') builtFeatureCount += 1;
+      remainingHours += getRemainingHours(node.data);
+    } else {
+      screenCount += 1;
+      if (node.data.completed) completedScreenCount += 1;
+    }
+  }
+
+  const total = featureCount + screenCount;
+  const done = builtFeatureCount + completedScreenCount;
+  return {
+    featureCount,
+    builtFeatureCount,
+    screenCount,
+    completedScreenCount,
+    percent: total > 0 ? Math.round((done / total) * 100) : 0,
+    remainingHours,
+  };
+}
+
+/** Today as YYYY-MM-DD in the viewer's time zone, comparable with target dates */
+export function getLocalDateString(now: Date = new Date()): string {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/** A milestone is overdue once its target day has passed with work still open */
+export function isMilestoneOverdue(
+  milestone: Pick<ProjectMilestone, 'target_date'>,
+  progress: MilestoneProgress,
+  today: string = getLocalDateString()
+): boolean {
+  const hasOpenWork = progress.featureCount + progress.screenCount > 0 && progress.percent < 100;
+  return Boolean(milestone.target_date && milestone.target_date < today && hasOpenWork);
+}
+
+/** "2026-03-01" → "Mar 1, 2026" */
+export function formatTargetDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/** "v1 (target Mar 1, 2026)", or just the name when there is no date */
+export function getMilestoneLabel(milestone: Pick<ProjectMilestone, 'name' | 'target_date'>): string {
+  return milestone.target_date
+    ? `${milestone.name} (target ${formatTargetDate(milestone.target_date)})`
+    : milestone.name;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPromptRun,
+  getPromptRuns,
+  hasUnrunChanges,
+  summarizePromptRunsByTool,
+  updatePromptRun,
+} from './promptRuns';
+import { generatePromptLearnings } from '@/lib/export/promptLearningsGenerator';
+import type { PromptRun, SpexlyNode, TargetTool } from '@/types/nodes';
+
+function makeRun(version: number, tool: TargetTool, outcome: PromptRun['outcome'], extra: Partial<PromptRun> = {}): PromptRun {
+  return {
+    id: `run-${tool}-${version}`,
+    version,
+    promptText: `Prompt v${version}`,
+    targetTool: tool,
+    ranAt: `2026-10-${String(version).padStart(2, '0')}T10:00:00.000Z`,
+    outcome,
+    output: '',
+    refinement: '',
+    ...extra,
+  };
+}
+
+function makePrompt(id: string, runs: unknown[]): SpexlyNode {
+  return {
+    id,
+    type: 'prompt',
+    position: { x: 0, y: 0 },
+    data: { promptText: 'Current', targetTool: 'Claude', runs },
+  } as SpexlyNode;
+}
+
+describe('promptRuns', () => {
+  it('snapshots the prompt with the next version number', () => {
+    const data = { promptText: 'Build login', targetTool: 'Cursor' as const, runs: [makeRun(1, 'Claude', 'failed')] };
+    const run = createPromptRun(data, 'r2', new Date('2026-10-19T08:00:00Z'));
+
+    expect(run).toEqual({
+      id: 'r2',
+      version: 2,
+      promptText: 'Build login',
+      targetTool: 'Cursor',
+      ranAt: '2026-10-19T08:00:00.000Z',
+      outcome: null,
+      output: '',
+      refinement: '',
+    });
+  });
+
+  it('ignores malformed runs and patches one run by id', () => {
+    const runs = getPromptRuns({ runs: [makeRun(1, 'Claude', null), { version: 2 }] as PromptRun[] });
+    expect(runs).toHaveLength(1);
+    expect(updatePromptRun(runs, runs[0].id, { outcome: 'worked' })[0].outcome).toBe('worked');
+  });
+
+  it('flags prompts edited or retargeted since their latest run', () => {
+    const runs = [makeRun(1, 'Claude', null, { promptText: 'Build login' })];
+    expect(hasUnrunChanges({ promptText: 'Build login', targetTool: 'Claude', runs })).toBe(false);
+    expect(hasUnrunChanges({ promptText: 'Build login', targetTool: 'Bolt', runs })).toBe(true);
+    expect(hasUnrunChanges({ promptText: 'Build signup', targetTool: 'Claude', runs })).toBe(true);
+    expect(hasUnrunChanges({ promptText: '', targetTool: 'Claude', runs: [] })).toBe(false);
+  });
+
+  describe('summarizePromptRunsByTool', () => {
+    const nodes = [
+      makePrompt('p1', [
+        makeRun(1, 'Claude', 'failed', { promptText: 'Add auth', refinement: 'Name the files to touch' }),
+        makeRun(2, 'Claude', 'worked', { promptText: 'Add auth in app/login/page.tsx with server actions' }),
+        makeRun(3, 'Cursor', null),
+      ]),
+      makePrompt('p2', [makeRun(4, 'Claude', 'partial', { refinement: 'Add tests' })]),
+    ];
+
+    it('counts outcomes per tool, busiest tool first', () => {
+      const [claude, cursor] = summarizePromptRunsByTool(nodes);
+
+      expect(claude).toMatchObject({ tool: 'Claude', runs: 3, rated: 3, worked: 1, partial: 1, failed: 1, successRate: 33 });
+      expect(claude.averageWords).toEqual({ worked: 7, failed: 2 });
+      expect(claude.whatWorked).toEqual([
+        { nodeId: 'p1', version: 2, promptText: 'Add auth in app/login/page.tsx with server actions' },
+      ]);
+      expect(claude.lessons).toEqual(['Add tests', 'Name the files to touch']);
+      expect(cursor).toMatchObject({ tool: 'Cursor', runs: 1, rated: 0, successRate: null });
+    });
+
+    it('renders a learnings report, or nothing without runs', () => {
+      const report = generatePromptLearnings(nodes);
+      expect(report).toContain('## Claude');
+      expect(report).toContain('3 runs, 33% worked (1 worked, 1 partly, 1 failed).');
+      expect(report).toContain('Prompts that worked averaged 7 words; prompts that failed averaged 2.');
+      expect(report).toContain('- Name the files to touch');
+      expect(generatePromptLearnings([makePrompt('p3', [])])).toBe('');
+    });
+  });
+});
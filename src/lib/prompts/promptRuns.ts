@@ -0,0 +1,156 @@
+/**
+ * Prompt execution history: versioned runs per prompt node, and per-tool
+ * summaries of which prompts worked. No AI calls.
+ */
+
+import type { PromptNodeData, PromptRun, PromptRunOutcome, SpexlyNode, TargetTool } from '@/types/nodes';
+
+export const PROMPT_RUN_OUTCOME_LABELS: Record<PromptRunOutcome, string> = {
+  worked: 'Worked',
+  partial: 'Partly',
+  failed: 'Failed',
+};
+
+/** Most recent successful prompts quoted per tool */
+const MAX_WORKED_EXAMPLES = 3;
+const MAX_LESSONS = 5;
+
+export interface PromptRunExample {
+  nodeId: string;
+  version: number;
+  promptText: string;
+}
+
+export interface ToolPromptStats {
+  tool: TargetTool;
+  runs: number;
+  /** Runs with an outcome */
+  rated: number;
+  worked: number;
+  partial: number;
+  failed: number;
+  /** Share of rated runs that worked, 0-100; null before any run is rated */
+  successRate: number | null;
+  /** Mean prompt length in words for worked and failed runs; null without such runs */
+  averageWords: { worked: number | null; failed: number | null };
+  /** Newest worked prompts first */
+  whatWorked: PromptRunExample[];
+  /** Follow-ups written after runs that did not fully work, newest first */
+  lessons: string[];
+}
+
+function isPromptRun(value: unknown): value is PromptRun {
+  if (!value || typeof value !== 'object') return false;
+  const run = value as Partial<PromptRun>;
+  return typeof run.id === 'string' && typeof run.version === 'number' && typeof run.promptText === 'string';
+}
+
+/** A prompt node's runs, oldest first; malformed entries are ignored */
+export function getPromptRuns(data: Pick<PromptNodeData, 'runs'>): PromptRun[] {
+  return Array.isArray(data.runs) ? data.runs.filter(isPromptRun) : [];
+}
+
+export function getLatestPromptRun(data: Pick<PromptNodeData, 'runs'>): PromptRun | null {
+  const runs = getPromptRuns(data);
+  return runs[runs.length - 1] ?? null;
+}
+
+/** Snapshots the prompt as it is being run now */
+export function createPromptRun(
+  data: Pick<PromptNodeData, 'promptText' | 'targetTool' | 'runs'>,
+  id: string,
+  now: Date = new Date()
+): PromptRun {
+  const version = getPromptRuns(data).reduce((max, run) => Math.max(max, run.version), 0) + 1;
+  return {
+    id,
+    version,
+    promptText: data.promptText,
+    targetTool: data.targetTool,
+    ranAt: now.toISOString(),
+    outcome: null,
+    output: '',
+    refinement: '',
+  };
+}
+
+export function updatePromptRun(
+  runs: PromptRun[],
+  runId: string,
+  patch: Partial<Pick<PromptRun, 'outcome' | 'output' | 'refinement'>>
+): PromptRun[] {
+  return runs.map((run) => (run.id === runId ? { ...run, ...patch } : run));
+}
+
+/** True when the prompt was edited after its latest run, or never run */
+export function hasUnrunChanges(data: Pick<PromptNodeData, 'promptText' | 'targetTool' | 'runs'>): boolean {
+  const latest = getLatestPromptRun(data);
+  if (!latest) return data.promptText.trim().length > 0;
+  return latest.promptText !== data.promptText || latest.targetTool !== data.targetTool;
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function averageWords(runs: PromptRun[]): number | null {
+  if (runs.length === 0) return null;
+  return Math.round(runs.reduce((sum, run) => sum + countWords(run.promptText), 0) / runs.length);
+}
+
+/**
+ * Run outcomes across every prompt node, grouped by the tool each run
+ * targeted. Tools without runs are left out; tools with the most runs come first.
+ */
+export function summarizePromptRunsByTool(nodes: SpexlyNode[]): ToolPromptStats[] {
+  const byTool = new Map<TargetTool, { nodeId: string; run: PromptRun }[]>();
+  for (const node of nodes) {
+    if (node.type !== 'prompt') continue;
+    for (const run of getPromptRuns(node.data)) {
+      const entries = byTool.get(run.targetTool) ?? [];
+      entries.push({ nodeId: node.id, run });
+      byTool.set(run.targetTool, entries);
+    }
+  }
+
+  const stats: ToolPromptStats[] = [];
+  for (const [tool, entries] of byTool) {
+    const newestFirst = [...entries].sort((a, b) => b.run.ranAt.localeCompare(a.run.ranAt));
+    const runs = newestFirst.map((entry) => entry.run);
+    const worked = runs.filter((run) => run.outcome === 'worked');
+    const partial = runs.filter((run) => run.outcome === 'partial');
+    const failed = runs.filter((run) => run.outcome === 'failed');
+    const rated = worked.length + partial.length + failed.length;
+
+    const seenPrompts = new Set<string>();
+    const whatWorked: PromptRunExample[] = [];
+    for (const { nodeId, run } of newestFirst) {
+      const key = run.promptText.trim();
+      if (run.outcome !== 'worked' || !key || seenPrompts.has(key)) continue;
+      seenPrompts.add(key);
+      whatWorked.push({ nodeId, version: run.version, promptText: run.promptText });
+      if (whatWorked.length === MAX_WORKED_EXAMPLES) break;
+    }
+
+    const lessons = [...partial, ...failed]
+      .sort((a, b) => b.ranAt.localeCompare(a.ranAt))
+      .map((run) => run.refinement.trim())
+      .filter(Boolean)
+      .slice(0, MAX_LESSONS);
+
+    stats.push({
+      tool,
+      runs: runs.length,
+      rated,
+      worked: worked.length,
+      partial: partial.length,
+      failed: failed.length,
+      successRate: rated > 0 ? Math.round((worked.length / rated) * 100) : null,
+      averageWords: { worked: averageWords(worked), failed: averageWords(failed) },
+      whatWorked,
+      lessons,
+    });
+  }
+
+  return stats.sort((a, b) => b.runs - a.runs || a.tool.localeCompare(b.tool));
+}
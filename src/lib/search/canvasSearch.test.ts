@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { collectTags, EMPTY_SEARCH_FILTER, isFilterActive, searchCanvas } from './canvasSearch';
+import type { SpexlyNode } from '@/types/nodes';
+
+function makeNode(id: string, type: string, data: Record<string, unknown>): SpexlyNode {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { expanded: false, completed: false, tags: [] as string[], ...data },
+  } as SpexlyNode;
+}
+
+const nodes: SpexlyNode[] = [
+  makeNode('f1', 'feature', {
+    featureName: 'User Login',
+    summary: 'Email and password sign in',
+    acceptanceCriteria: ['Shows an error for a wrong password'],
+    status: 'Planned',
+    priority: 'Must',
+    tags: ['auth'],
+  }),
+  makeNode('f2', 'feature', {
+    featureName: 'Checkout',
+    summary: 'Pay with a saved card',
+    status: 'Built',
+    priority: 'Should',
+    completed: true,
+    tags: ['Payments'],
+  }),
+  makeNode('s1', 'screen', { screenName: 'Login Screen', purpose: 'Entry point', tags: ['auth'] }),
+  makeNode('p1', 'prompt', { promptText: 'Build the password reset flow', targetTool: 'Claude' }),
+];
+
+const search = (overrides: Partial<typeof EMPTY_SEARCH_FILTER>) =>
+  searchCanvas(nodes, { ...EMPTY_SEARCH_FILTER, ...overrides }).map((r) => r.node.id);
+
+describe('canvasSearch', () => {
+  it('searches every text field and list field', () => {
+    expect(search({ query: 'password' }).sort()).toEqual(['f1', 'p1']);
+    expect(search({ query: 'wrong password' })).toEqual(['f1']);
+    expect(search({ query: 'card' })).toEqual(['f2']);
+  });
+
+  it('ranks title matches first and reports the matched field', () => {
+    const results = searchCanvas(nodes, { ...EMPTY_SEARCH_FILTER, query: 'login' });
+    expect(results.map((r) => r.node.id)).toEqual(['s1', 'f1']);
+
+    const [prompt] = searchCanvas(nodes, { ...EMPTY_SEARCH_FILTER, query: 'reset' });
+    expect(prompt.matchedField).toBe('Prompt text');
+    expect(prompt.snippet).toContain('password reset flow');
+  });
+
+  it('filters by type, feature status, priority, tags and completion', () => {
+    expect(search({ types: ['screen'] })).toEqual(['s1']);
+    expect(search({ statuses: ['Built'] })).toEqual(['f2']);
+    expect(search({ priorities: ['Must'] })).toEqual(['f1']);
+    expect(search({ tags: ['payments'] })).toEqual(['f2']);
+    expect(search({ completion: 'open', tags: ['auth'] }).sort()).toEqual(['f1', 's1']);
+    expect(search({ completion: 'done' })).toEqual(['f2']);
+  });
+
+  it('collects tags and detects active filters', () => {
+    expect(collectTags(nodes)).toEqual(['auth', 'Payments']);
+    expect(isFilterActive(EMPTY_SEARCH_FILTER)).toBe(false);
+    expect(isFilterActive({ ...EMPTY_SEARCH_FILTER, query: '  ' })).toBe(false);
+    expect(isFilterActive({ ...EMPTY_SEARCH_FILTER, completion: 'done' })).toBe(true);
+  });
+});
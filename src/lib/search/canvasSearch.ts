@@ -0,0 +1,162 @@
+import { getNodeDisplayName } from '@/lib/export/exportContextUtils';
+import type { FeaturePriority, FeatureStatus, SpexlyNode, SpexlyNodeType } from '@/types/nodes';
+
+export type CompletionFilter = 'any' | 'done' | 'open';
+
+export interface CanvasSearchFilter {
+  query: string;
+  types: SpexlyNodeType[];
+  /** Feature-only filters: non-feature nodes never match when these are set */
+  statuses: FeatureStatus[];
+  priorities: FeaturePriority[];
+  /** Nodes must carry at least one of these tags */
+  tags: string[];
+  completion: CompletionFilter;
+}
+
+export interface CanvasSearchResult {
+  node: SpexlyNode;
+  title: string;
+  /** Label of the field the query matched, when it wasn't the title */
+  matchedField: string | null;
+  snippet: string;
+  score: number;
+}
+
+export const EMPTY_SEARCH_FILTER: CanvasSearchFilter = {
+  query: '',
+  types: [],
+  statuses: [],
+  priorities: [],
+  tags: [],
+  completion: 'any',
+};
+
+const SNIPPET_RADIUS = 40;
+
+// Data keys that hold ids, flags or URLs rather than searchable text
+const NON_TEXT_FIELDS = new Set(['dependencyIds', 'milestoneId', 'wireframeUrl', 'expanded', 'completed']);
+
+interface SearchField {
+  key: string;
+  text: string;
+}
+
+function getSearchFields(node: SpexlyNode): SearchField[] {
+  const fields: SearchField[] = [];
+  for (const [key, value] of Object.entries(node.data as Record<string, unknown>)) {
+    if (NON_TEXT_FIELDS.has(key)) continue;
+    if (typeof value === 'string' && value.trim()) {
+      fields.push({ key, text: value });
+    } else if (Array.isArray(value)) {
+      const items = value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0);
+      if (items.length > 0) fields.push({ key, text: items.join(' · ') });
+    }
+  }
+  return fields;
+}
+
+/** "acceptanceCriteria" → "Acceptance criteria" */
+function formatFieldLabel(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function buildSnippet(text: string, term: string): string {
+  const flat = text.replace(/\s+/g, ' ');
+  const at = flat.toLowerCase().indexOf(term);
+  if (at < 0) return flat.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, at + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+}
+
+function getQueryTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+export function getNodeTags(node: SpexlyNode): string[] {
+  const tags = (node.data as { tags?: unknown }).tags;
+  return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string' && tag.length > 0) : [];
+}
+
+/** Every tag used on the canvas, sorted case-insensitively */
+export function collectTags(nodes: SpexlyNode[]): string[] {
+  const tags = new Set(nodes.flatMap(getNodeTags));
+  return [...tags].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+}
+
+export function isFilterActive(filter: CanvasSearchFilter): boolean {
+  return (
+    filter.query.trim().length > 0 ||
+    filter.types.length > 0 ||
+    filter.statuses.length > 0 ||
+    filter.priorities.length > 0 ||
+    filter.tags.length > 0 ||
+    filter.completion !== 'any'
+  );
+}
+
+/** Checks the structured filters (everything except the text query) */
+function matchesAttributes(node: SpexlyNode, filter: CanvasSearchFilter): boolean {
+  if (filter.types.length > 0 && !filter.types.includes(node.type as SpexlyNodeType)) return false;
+
+  if (filter.statuses.length > 0 || filter.priorities.length > 0) {
+    if (node.type !== 'feature') return false;
+    if (filter.statuses.length > 0 && !filter.statuses.includes(node.data.status)) return false;
+    if (filter.priorities.length > 0 && !filter.priorities.includes(node.data.priority)) return false;
+  }
+
+  if (filter.tags.length > 0) {
+    const tags = getNodeTags(node).map((tag) => tag.toLowerCase());
+    if (!filter.tags.some((tag) => tags.includes(tag.toLowerCase()))) return false;
+  }
+
+  const completed = Boolean(node.data.completed);
+  if (filter.completion === 'done' && !completed) return false;
+  if (filter.completion === 'open' && completed) return false;
+
+  return true;
+}
+
+/**
+ * Searches every text field of every node. All query terms must appear
+ * somewhere in the node; title hits rank above body hits. Results are sorted
+ * by score, then by title.
+ */
+export function searchCanvas(nodes: SpexlyNode[], filter: CanvasSearchFilter): CanvasSearchResult[] {
+  const terms = getQueryTerms(filter.query);
+  const results: CanvasSearchResult[] = [];
+
+  for (const node of nodes) {
+    if (!matchesAttributes(node, filter)) continue;
+
+    const title = getNodeDisplayName(node);
+    const fields = getSearchFields(node);
+
+    if (terms.length === 0) {
+      results.push({ node, title, matchedField: null, snippet: '', score: 0 });
+      continue;
+    }
+
+    const lowerTitle = title.toLowerCase();
+    const haystack = `${lowerTitle}\n${fields.map((f) => f.text.toLowerCase()).join('\n')}`;
+    if (!terms.every((term) => haystack.includes(term))) continue;
+
+    const titleHits = terms.filter((term) => lowerTitle.includes(term)).length;
+    const score = titleHits * 10 + (lowerTitle.startsWith(terms[0]) ? 5 : 0) + terms.length;
+    const bodyTerm = terms.find((term) => !lowerTitle.includes(term)) ?? terms[0];
+    const field = fields.find((f) => f.text.toLowerCase().includes(bodyTerm));
+    const inTitleOnly = titleHits === terms.length;
+
+    results.push({
+      node,
+      title,
+      matchedField: inTitleOnly || !field ? null : formatFieldLabel(field.key),
+      snippet: inTitleOnly || !field ? '' : buildSnippet(field.text, bodyTerm),
+      score,
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title));
+}
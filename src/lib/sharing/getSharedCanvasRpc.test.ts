@@ -0,0 +1,77 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+
+const MIGRATION = path.resolve(__dirname, '../../../supabase/migrations/202602160001_add_project_share_links.sql');
+
+const PROJECT_ID = '00000000-0000-4000-8000-000000000001';
+
+const canvas = {
+  nodes: [
+    { id: 'idea', type: 'idea', data: {} },
+    { id: 'feat', type: 'feature', data: {} },
+    { id: 'note', type: 'note', data: { text: 'Private' } },
+  ],
+  edges: [
+    { id: 'e1', source: 'idea', target: 'feat' },
+    { id: 'e2', source: 'feat', target: 'note' },
+  ],
+};
+
+describe('get_shared_canvas', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    // Just enough of the Supabase schema and earlier migrations for this one to apply
+    await db.exec(`
+      CREATE ROLE anon;
+      CREATE ROLE authenticated;
+      CREATE SCHEMA auth;
+      CREATE TABLE auth.users (id UUID PRIMARY KEY);
+      CREATE FUNCTION auth.uid() RETURNS UUID AS 'SELECT NULL::uuid' LANGUAGE sql;
+      CREATE TABLE public.projects (id UUID PRIMARY KEY, name TEXT, canvas_data JSONB, updated_at TIMESTAMPTZ);
+      CREATE FUNCTION public.has_project_role(UUID, TEXT) RETURNS BOOLEAN AS 'SELECT FALSE' LANGUAGE sql;
+    `);
+    await db.exec(readFileSync(MIGRATION, 'utf8'));
+    await db.query('INSERT INTO public.projects VALUES ($1, $2, $3, NOW())', [
+      PROJECT_ID,
+      'Spexly',
+      JSON.stringify(canvas),
+    ]);
+    await db.exec(`
+      INSERT INTO public.project_share_links (project_id, token, hide_notes)
+      VALUES ('${PROJECT_ID}', 'hidden', TRUE), ('${PROJECT_ID}', 'shown', FALSE);
+    `);
+    // Starting Postgres in WebAssembly takes a few seconds
+  }, 30_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  async function fetchShared(token: string) {
+    const { rows } = await db.query<Record<string, unknown>>('SELECT * FROM public.get_shared_canvas($1)', [token]);
+    return rows[0];
+  }
+
+  it('returns no note nodes, or edges to them, when notes are hidden', async () => {
+    const row = await fetchShared('hidden');
+    const data = row.canvas_data as typeof canvas;
+
+    expect(data.nodes.map((n) => n.id)).toEqual(['idea', 'feat']);
+    expect(data.edges.map((e) => e.id)).toEqual(['e1']);
+    expect(JSON.stringify(row)).not.toContain('Private');
+    expect(row).not.toHaveProperty('hide_notes');
+  });
+
+  it('returns the canvas unchanged when notes are shown', async () => {
+    const row = await fetchShared('shown');
+    expect(row.canvas_data).toEqual(canvas);
+  });
+
+  it('returns nothing for unknown tokens', async () => {
+    expect(await fetchShared('unknown')).toBeUndefined();
+  });
+});
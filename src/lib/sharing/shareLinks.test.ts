@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getShareLinkExpiry,
+  getShareLinkStatus,
+  isValidExpiryDays,
+  isValidShareToken,
+  prepareSharedCanvas,
+} from './shareLinks';
+import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+
+function makeNode(id: string, type: SpexlyNode['type']): SpexlyNode {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    selected: true,
+    data: { expanded: true, completed: false },
+  } as unknown as SpexlyNode;
+}
+
+function makeEdge(source: string, target: string): SpexlyEdge {
+  return { id: `e-${source}-${target}`, source, target };
+}
+
+describe('shareLinks', () => {
+  describe('prepareSharedCanvas', () => {
+    const canvas = {
+      nodes: [makeNode('idea', 'idea'), makeNode('feat', 'feature'), makeNode('note', 'note')],
+      edges: [makeEdge('idea', 'feat'), makeEdge('feat', 'note')],
+    };
+
+    it('keeps notes and drops edges with a missing end', () => {
+      const result = prepareSharedCanvas({ ...canvas, edges: [...canvas.edges, makeEdge('feat', 'gone')] });
+      expect(result.nodes.map((n) => n.id)).toEqual(['idea', 'feat', 'note']);
+      expect(result.edges.map((e) => e.id)).toEqual(['e-idea-feat', 'e-feat-note']);
+    });
+
+    it('collapses and deselects every node', () => {
+      const result = prepareSharedCanvas(canvas);
+      expect(result.nodes.every((n) => !n.selected && !n.data.expanded)).toBe(true);
+      expect(canvas.nodes[0].data.expanded).toBe(true);
+    });
+
+    it('handles missing canvas data', () => {
+      expect(prepareSharedCanvas(null)).toEqual({ nodes: [], edges: [] });
+    });
+  });
+
+  describe('getShareLinkStatus', () => {
+    const now = Date.parse('2026-02-16T12:00:00Z');
+
+    it('treats links without expiry as active', () => {
+      expect(getShareLinkStatus({ expires_at: null, revoked_at: null }, now)).toBe('active');
+    });
+
+    it('reports expired and revoked links', () => {
+      expect(getShareLinkStatus({ expires_at: '2026-02-16T11:59:59Z', revoked_at: null }, now)).toBe('expired');
+      expect(
+        getShareLinkStatus({ expires_at: '2026-03-01T00:00:00Z', revoked_at: '2026-02-15T00:00:00Z' }, now)
+      ).toBe('revoked');
+    });
+  });
+
+  it('computes expiry timestamps from a day count', () => {
+    const now = Date.parse('2026-02-16T12:00:00Z');
+    expect(getShareLinkExpiry(null, now)).toBeNull();
+    expect(getShareLinkExpiry(7, now)).toBe('2026-02-23T12:00:00.000Z');
+  });
+
+  it('validates expiry days and token format', () => {
+    expect(isValidExpiryDays(null)).toBe(true);
+    expect(isValidExpiryDays(30)).toBe(true);
+    expect(isValidExpiryDays(0)).toBe(false);
+    expect(isValidExpiryDays(1.5)).toBe(false);
+    expect(isValidShareToken('a'.repeat(43))).toBe(true);
+    expect(isValidShareToken('a'.repeat(42))).toBe(false);
+    expect(isValidShareToken(`${'a'.repeat(42)}/`)).toBe(false);
+  });
+});
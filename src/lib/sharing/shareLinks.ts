@@ -0,0 +1,65 @@
+import type { CanvasData, ProjectShareLink } from '@/types/project';
+import type { SpexlyNode } from '@/types/nodes';
+
+/** Share tokens are 32 random bytes, base64url encoded (43 chars) */
+export const SHARE_TOKEN_BYTES = 32;
+
+/** Expiry choices offered when creating a link; null means never expires */
+export const SHARE_LINK_EXPIRY_OPTIONS: ReadonlyArray<{ label: string; days: number | null }> = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const MAX_EXPIRY_DAYS = 365;
+
+const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export function isValidShareToken(token: string): boolean {
+  return SHARE_TOKEN_PATTERN.test(token);
+}
+
+export function isValidExpiryDays(days: number | null): boolean {
+  return days === null || (Number.isInteger(days) && days >= 1 && days <= MAX_EXPIRY_DAYS);
+}
+
+export function getShareLinkExpiry(days: number | null, now: number = Date.now()): string | null {
+  if (days === null) return null;
+  return new Date(now + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export function getShareLinkStatus(
+  link: Pick<ProjectShareLink, 'expires_at' | 'revoked_at'>,
+  now: number = Date.now()
+): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now) return 'expired';
+  return 'active';
+}
+
+/**
+ * Prepares a stored canvas for public viewing: drops edges whose ends are
+ * missing (get_shared_canvas has already removed hidden notes), collapses
+ * every node and clears selection so the read-only view opens as a clean
+ * overview.
+ */
+export function prepareSharedCanvas(canvas: Partial<CanvasData> | null | undefined): CanvasData {
+  const nodes = canvas?.nodes ?? [];
+  const nodeIds = new Set(nodes.map((node) => node.id));
+
+  const edges = (canvas?.edges ?? [])
+    .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map((edge) => ({ ...edge, selected: false }));
+
+  return {
+    nodes: nodes.map((node) => ({
+      ...node,
+      selected: false,
+      data: { ...node.data, expanded: false },
+    })) as SpexlyNode[],
+    edges,
+  };
+}
@@ -0,0 +1,100 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CanvasData } from '@/types/project';
+import { logError } from '@/lib/errors';
+
+/** Minimum time between automatic snapshots of the same project */
+export const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+/** Oldest auto snapshots beyond this count are pruned; manual checkpoints are kept */
+export const MAX_AUTO_SNAPSHOTS = 50;
+
+/**
+ * Records an automatic snapshot of the canvas if the latest auto snapshot for
+ * the project is older than AUTO_SNAPSHOT_INTERVAL_MS.
+ *
+ * Called from the canvas save path, so it never throws: a failed snapshot must
+ * not fail the save. Returns true when a snapshot was written.
+ */
+export async function recordAutoSnapshot(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string,
+  canvasData: CanvasData,
+  now: number = Date.now()
+): Promise<boolean> {
+  try {
+    const { data: latest, error: latestError } = await supabase
+      .from('canvas_snapshots')
+      .select('created_at')
+      .eq('project_id', projectId)
+      .eq('kind', 'auto')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      logError(latestError, { action: 'recordAutoSnapshot:latest', userId, projectId });
+      return false;
+    }
+
+    if (latest?.created_at) {
+      const elapsed = now - new Date(latest.created_at as string).getTime();
+      if (elapsed < AUTO_SNAPSHOT_INTERVAL_MS) return false;
+    }
+
+    // Empty canvases are not worth a history entry
+    if (canvasData.nodes.length === 0) return false;
+
+    const { error: insertError } = await supabase.from('canvas_snapshots').insert({
+      user_id: userId,
+      project_id: projectId,
+      kind: 'auto',
+      name: null,
+      canvas_data: canvasData as unknown as Record<string, unknown>,
+      node_count: canvasData.nodes.length,
+      edge_count: canvasData.edges.length,
+    });
+
+    if (insertError) {
+      logError(insertError, { action: 'recordAutoSnapshot:insert', userId, projectId });
+      return false;
+    }
+
+    await pruneAutoSnapshots(supabase, userId, projectId);
+    return true;
+  } catch (error) {
+    logError(error, { action: 'recordAutoSnapshot', userId, projectId });
+    return false;
+  }
+}
+
+async function pruneAutoSnapshots(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('canvas_snapshots')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('kind', 'auto')
+    .order('created_at', { ascending: false })
+    .range(MAX_AUTO_SNAPSHOTS, MAX_AUTO_SNAPSHOTS + 99);
+
+  if (error) {
+    logError(error, { action: 'pruneAutoSnapshots', userId, projectId });
+    return;
+  }
+
+  const staleIds = (data ?? []).map((row) => row.id as string);
+  if (staleIds.length === 0) return;
+
+  const { error: deleteError } = await supabase
+    .from('canvas_snapshots')
+    .delete()
+    .in('id', staleIds);
+
+  if (deleteError) {
+    logError(deleteError, { action: 'pruneAutoSnapshots:delete', userId, projectId });
+  }
+}
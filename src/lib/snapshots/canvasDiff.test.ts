@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { diffCanvas, diffNodeData, isDiffEmpty, summarizeDiff } from './canvasDiff';
+import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+
+function makeNote(id: string, title: string, overrides: Record<string, unknown> = {}): SpexlyNode {
+  return {
+    id,
+    type: 'note',
+    position: { x: 0, y: 0 },
+    data: {
+      title,
+      body: '',
+      colorTag: 'Slate',
+      expanded: false,
+      completed: false,
+      ...overrides,
+    },
+  } as SpexlyNode;
+}
+
+function makeEdge(source: string, target: string, id = `e-${source}-${target}`): SpexlyEdge {
+  return { id, source, target };
+}
+
+describe('canvasDiff', () => {
+  describe('diffNodeData', () => {
+    it('reports changed, added and removed fields sorted by name', () => {
+      const changes = diffNodeData(
+        { title: 'A', body: 'x', old: true },
+        { title: 'B', body: 'x', extra: 1 }
+      );
+      expect(changes.map((c) => c.field)).toEqual(['extra', 'old', 'title']);
+      expect(changes.find((c) => c.field === 'title')).toEqual({ field: 'title', before: 'A', after: 'B' });
+    });
+
+    it('compares arrays structurally', () => {
+      expect(diffNodeData({ tags: ['a', 'b'] }, { tags: ['a', 'b'] })).toEqual([]);
+      expect(diffNodeData({ tags: ['a'] }, { tags: ['a', 'b'] })).toHaveLength(1);
+    });
+
+    it('ignores UI-only fields like expanded', () => {
+      expect(diffNodeData({ expanded: false }, { expanded: true })).toEqual([]);
+    });
+  });
+
+  describe('diffCanvas', () => {
+    it('detects added, removed and modified nodes', () => {
+      const before = { nodes: [makeNote('n1', 'Keep'), makeNote('n2', 'Gone')], edges: [] };
+      const after = {
+        nodes: [makeNote('n1', 'Keep', { body: 'edited' }), makeNote('n3', 'New')],
+        edges: [],
+      };
+
+      const diff = diffCanvas(before, after);
+
+      expect(diff.addedNodes).toEqual([{ id: 'n3', type: 'note', name: 'New' }]);
+      expect(diff.removedNodes).toEqual([{ id: 'n2', type: 'note', name: 'Gone' }]);
+      expect(diff.modifiedNodes).toHaveLength(1);
+      expect(diff.modifiedNodes[0].changes).toEqual([{ field: 'body', before: '', after: 'edited' }]);
+      expect(diff.modifiedNodes[0].moved).toBe(false);
+    });
+
+    it('flags position-only changes as moved', () => {
+      const node = makeNote('n1', 'A');
+      const moved = { ...node, position: { x: 40, y: 0 } } as SpexlyNode;
+
+      const diff = diffCanvas({ nodes: [node], edges: [] }, { nodes: [moved], edges: [] });
+
+      expect(diff.modifiedNodes[0].moved).toBe(true);
+      expect(diff.modifiedNodes[0].changes).toEqual([]);
+    });
+
+    it('matches edges by endpoints rather than id', () => {
+      const nodes = [makeNote('a', 'A'), makeNote('b', 'B'), makeNote('c', 'C')];
+      const before = { nodes, edges: [makeEdge('a', 'b', 'old-id'), makeEdge('b', 'c')] };
+      const after = { nodes, edges: [makeEdge('a', 'b', 'new-id'), makeEdge('a', 'c')] };
+
+      const diff = diffCanvas(before, after);
+
+      expect(diff.addedEdges).toHaveLength(1);
+      expect(diff.addedEdges[0]).toMatchObject({ source: 'a', target: 'c', sourceName: 'A', targetName: 'C' });
+      expect(diff.removedEdges).toHaveLength(1);
+      expect(diff.removedEdges[0]).toMatchObject({ source: 'b', target: 'c' });
+    });
+
+    it('returns an empty diff for identical canvases', () => {
+      const canvas = { nodes: [makeNote('n1', 'A')], edges: [] };
+      const diff = diffCanvas(canvas, JSON.parse(JSON.stringify(canvas)));
+      expect(isDiffEmpty(diff)).toBe(true);
+      expect(summarizeDiff(diff)).toBe('No changes');
+    });
+  });
+
+  describe('summarizeDiff', () => {
+    it('summarizes counts', () => {
+      const before = { nodes: [makeNote('a', 'A'), makeNote('b', 'B')], edges: [makeEdge('a', 'b')] };
+      const after = { nodes: [makeNote('a', 'A2'), makeNote('c', 'C')], edges: [] };
+
+      expect(summarizeDiff(diffCanvas(before, after))).toBe('1 added · 1 removed · 1 changed · 1 connection');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+import type { CanvasData } from '@/types/project';
+import { getNodeDisplayName } from '@/lib/export/exportContextUtils';
+
+/** UI-only fields that change constantly and carry no spec meaning */
+const IGNORED_DATA_FIELDS = new Set(['expanded']);
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NodeDiffEntry {
+  id: string;
+  type: string;
+  name: string;
+}
+
+export interface ModifiedNodeEntry extends NodeDiffEntry {
+  changes: FieldChange[];
+  moved: boolean;
+}
+
+export interface EdgeDiffEntry {
+  id: string;
+  source: string;
+  target: string;
+  sourceName: string;
+  targetName: string;
+}
+
+export interface CanvasDiff {
+  addedNodes: NodeDiffEntry[];
+  removedNodes: NodeDiffEntry[];
+  modifiedNodes: ModifiedNodeEntry[];
+  addedEdges: EdgeDiffEntry[];
+  removedEdges: EdgeDiffEntry[];
+}
+
+function toEntry(node: SpexlyNode): NodeDiffEntry {
+  return {
+    id: node.id,
+    type: node.type ?? 'unknown',
+    name: getNodeDisplayName(node),
+  };
+}
+
+/** Structural equality for JSON-like values (node data only holds JSON) */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Returns the data fields that differ between two versions of a node */
+export function diffNodeData(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+
+  for (const key of keys) {
+    if (IGNORED_DATA_FIELDS.has(key)) continue;
+    if (!valuesEqual(before[key], after[key])) {
+      changes.push({ field: key, before: before[key], after: after[key] });
+    }
+  }
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+/** Edges are identified by endpoints so re-created connections don't show as churn */
+function edgeKey(edge: SpexlyEdge): string {
+  return `${edge.source}->${edge.target}`;
+}
+
+/**
+ * Computes a node/edge level diff from one canvas state to another.
+ * `before` is typically an older snapshot and `after` the newer one (or the live canvas).
+ */
+export function diffCanvas(before: CanvasData, after: CanvasData): CanvasDiff {
+  const beforeNodes = new Map(before.nodes.map((n) => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map((n) => [n.id, n]));
+
+  const addedNodes: NodeDiffEntry[] = [];
+  const removedNodes: NodeDiffEntry[] = [];
+  const modifiedNodes: ModifiedNodeEntry[] = [];
+
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      addedNodes.push(toEntry(node));
+      continue;
+    }
+
+    const changes = diffNodeData(
+      previous.data as Record<string, unknown>,
+      node.data as Record<string, unknown>
+    );
+    if (previous.type !== node.type) {
+      changes.unshift({ field: 'type', before: previous.type, after: node.type });
+    }
+    const moved =
+      previous.position.x !== node.position.x || previous.position.y !== node.position.y;
+
+    if (changes.length > 0 || moved) {
+      modifiedNodes.push({ ...toEntry(node), changes, moved });
+    }
+  }
+
+  for (const node of before.nodes) {
+    if (!afterNodes.has(node.id)) {
+      removedNodes.push(toEntry(node));
+    }
+  }
+
+  const nameFor = (id: string) => {
+    const node = afterNodes.get(id) ?? beforeNodes.get(id);
+    return node ? getNodeDisplayName(node) : id;
+  };
+  const toEdgeEntry = (edge: SpexlyEdge): EdgeDiffEntry => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceName: nameFor(edge.source),
+    targetName: nameFor(edge.target),
+  });
+
+  const beforeEdgeKeys = new Set(before.edges.map(edgeKey));
+  const afterEdgeKeys = new Set(after.edges.map(edgeKey));
+
+  const addedEdges = after.edges.filter((e) => !beforeEdgeKeys.has(edgeKey(e))).map(toEdgeEntry);
+  const removedEdges = before.edges.filter((e) => !afterEdgeKeys.has(edgeKey(e))).map(toEdgeEntry);
+
+  return { addedNodes, removedNodes, modifiedNodes, addedEdges, removedEdges };
+}
+
+/** True when the diff contains no changes at all */
+export function isDiffEmpty(diff: CanvasDiff): boolean {
+  return (
+    diff.addedNodes.length === 0 &&
+    diff.removedNodes.length === 0 &&
+    diff.modifiedNodes.length === 0 &&
+    diff.addedEdges.length === 0 &&
+    diff.removedEdges.length === 0
+  );
+}
+
+/** Short human-readable summary, e.g. "2 added · 1 removed · 3 changed" */
+export function summarizeDiff(diff: CanvasDiff): string {
+  if (isDiffEmpty(diff)) return 'No changes';
+
+  const parts: string[] = [];
+  if (diff.addedNodes.length > 0) parts.push(`${diff.addedNodes.length} added`);
+  if (diff.removedNodes.length > 0) parts.push(`${diff.removedNodes.length} removed`);
+  if (diff.modifiedNodes.length > 0) parts.push(`${diff.modifiedNodes.length} changed`);
+  const edgeChanges = diff.addedEdges.length + diff.removedEdges.length;
+  if (edgeChanges > 0) parts.push(`${edgeChanges} connection${edgeChanges === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+}
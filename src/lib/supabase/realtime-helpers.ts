@@ -89,3 +89,22 @@ export function createPresenceChannel(
 
   return channel
 }
+
+/**
+ * Create a broadcast + presence channel for co-editing a project canvas.
+ * The channel is private: realtime.messages policies admit project members only.
+ * @param projectId The project being edited
+ * @param clientId Presence key for this browser tab
+ * @returns RealtimeChannel (not yet subscribed)
+ */
+export function createCanvasChannel(projectId: string, clientId: string): RealtimeChannel {
+  const supabase = createClient()
+
+  return supabase.channel(`canvas:${projectId}`, {
+    config: {
+      private: true,
+      broadcast: { self: false },
+      presence: { key: clientId },
+    },
+  })
+}
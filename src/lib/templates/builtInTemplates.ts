@@ -247,8 +247,8 @@ export const BUILTIN_TEMPLATES: BuiltInTemplate[] = [
       },
     ],
     edges: [
-      { id: 'e1', source: 'idea-1', target: 'feature-1', type: 'smoothstep' },
-      { id: 'e2', source: 'feature-1', target: 'screen-1', type: 'smoothstep' },
+      { id: 'e1', source: 'idea-1', target: 'feature-1' },
+      { id: 'e2', source: 'feature-1', target: 'screen-1' },
     ],
   },
 ];
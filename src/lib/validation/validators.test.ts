@@ -169,6 +169,20 @@ describe('validateCanvasData', () => {
     expect(validateCanvasData([node], []).valid).toBe(false)
   })
 
+  it('keeps group membership and drops parents that are not groups', () => {
+    const group = { ...makeValidNode('g'), type: 'group', width: 400, height: 300 }
+    const child = { ...makeValidNode('a'), parentId: 'g' }
+    const orphan = { ...makeValidNode('b'), parentId: 'missing' }
+    const nested = { ...makeValidNode('c'), parentId: 'a' }
+    const result = validateCanvasData([group, child, orphan, nested], [])
+    expect(result.valid).toBe(true)
+    const [g, a, b, c] = result.sanitizedNodes!
+    expect(g).toMatchObject({ type: 'group', width: 400, height: 300 })
+    expect(a.parentId).toBe('g')
+    expect(b.parentId).toBeUndefined()
+    expect(c.parentId).toBeUndefined()
+  })
+
   // ─── XSS sanitization ─────────────────────────────────
   it('neutralizes XSS payloads in node string fields', () => {
     const node = makeValidNode('n1', { description: '<script>alert("xss")</script>' })
@@ -220,6 +234,152 @@ describe('validateCanvasData', () => {
     expect((result.sanitizedNodes![0].data as Record<string, unknown>).estimatedHours).toBe(42)
   })
 
+  it('preserves string lists and nulls in data', () => {
+    const node = makeValidNode('n1', { tags: ['  a ', 'b', 3], estimatedHours: null })
+    const result = validateCanvasData([node], [])
+    expect(result.valid).toBe(true)
+    const data = result.sanitizedNodes![0].data as Record<string, unknown>
+    expect(data.tags).toEqual(['a', 'b'])
+    expect(data.estimatedHours).toBeNull()
+  })
+
+  // ─── Structured fields ────────────────────────────────
+  it('round-trips a feature implementation plan', () => {
+    const plan = [
+      {
+        id: 'step-1',
+        title: 'Add login form',
+        details: 'Email and password',
+        files: ['src/app/login/page.tsx'],
+        testCases: ['rejects bad passwords'],
+        estimatedHours: 2,
+        done: true,
+        taskId: 'task-1',
+      },
+      { id: 'step-2', title: 'Wire up auth', details: '', files: [], testCases: [], estimatedHours: 1, done: false },
+    ]
+    const node = makeValidNode('n1', { implementationPlan: plan })
+    const result = validateCanvasData([node], [])
+    expect(result.valid).toBe(true)
+    expect((result.sanitizedNodes![0].data as Record<string, unknown>).implementationPlan).toEqual(plan)
+  })
+
+  it('keeps only known plan step fields and sanitizes their strings', () => {
+    const node = makeValidNode('n1', {
+      implementationPlan: [
+        { id: 's1', title: 'javascript:alert(1)', details: 'd', files: ['a', 3], testCases: [], estimatedHours: 'x', done: 'yes', extra: 1 },
+        'not a step',
+        { title: 'no id' },
+      ],
+    })
+    const result = validateCanvasData([node], [])
+    expect(result.valid).toBe(true)
+    const plan = (result.sanitizedNodes![0].data as Record<string, unknown>).implementationPlan as Record<string, unknown>[]
+    expect(plan).toHaveLength(1)
+    expect(plan[0]).toEqual({ id: 's1', title: '1)', details: 'd', files: ['a'], testCases: [], estimatedHours: 0, done: false })
+  })
+
+  it('round-trips prompt run history', () => {
+    const runs = [
+      {
+        id: 'run-1',
+        version: 1,
+        promptText: 'Build the login page',
+        targetTool: 'Cursor',
+        ranAt: '2026-02-01T10:00:00.000Z',
+        outcome: 'partial',
+        output: 'Login page without validation',
+        refinement: 'Add validation',
+      },
+      {
+        id: 'run-2',
+        version: 2,
+        promptText: 'Add validation',
+        targetTool: 'Claude',
+        ranAt: '2026-02-01T11:00:00.000Z',
+        outcome: null,
+        output: '',
+        refinement: '',
+      },
+    ]
+    const node = { ...makeValidNode('p1', { runs }), type: 'prompt' }
+    const result = validateCanvasData([node], [])
+    expect(result.valid).toBe(true)
+    expect((result.sanitizedNodes![0].data as Record<string, unknown>).runs).toEqual(runs)
+  })
+
+  it('drops unknown run fields and invalid tools or outcomes', () => {
+    const node = makeValidNode('p1', {
+      runs: [{ id: 'r1', version: 1, promptText: 'p', targetTool: 'Vim', ranAt: 'now', outcome: 'great', extra: true }],
+    })
+    const result = validateCanvasData([node], [])
+    const runs = (result.sanitizedNodes![0].data as Record<string, unknown>).runs as Record<string, unknown>[]
+    expect(runs[0]).toEqual({
+      id: 'r1',
+      version: 1,
+      promptText: 'p',
+      targetTool: 'Other',
+      ranAt: 'now',
+      outcome: null,
+      output: '',
+      refinement: '',
+    })
+  })
+
+  it('keeps a Linear issue link as an object', () => {
+    const linearIssue = {
+      id: 'issue-1',
+      identifier: 'ENG-42',
+      url: 'https://linear.app/acme/issue/ENG-42',
+      teamId: 'team-1',
+      stateType: 'started',
+    }
+    const node = makeValidNode('f1', { linearIssue: { ...linearIssue, extra: 'x' } })
+    const result = validateCanvasData([node], [])
+    expect((result.sanitizedNodes![0].data as Record<string, unknown>).linearIssue).toEqual(linearIssue)
+  })
+
+  it('resets Linear issue links flattened by older saves', () => {
+    const node = makeValidNode('f1', { linearIssue: '[object Object]' })
+    const result = validateCanvasData([node], [])
+    expect((result.sanitizedNodes![0].data as Record<string, unknown>).linearIssue).toBeNull()
+  })
+
+  it('keeps a GitHub issue link as an object', () => {
+    const githubIssue = {
+      id: 'I_kwDO123',
+      number: 7,
+      repo: 'acme/app',
+      url: 'https://github.com/acme/app/issues/7',
+      state: 'closed',
+      projectItemId: null,
+    }
+    const node = makeValidNode('f1', { githubIssue })
+    const result = validateCanvasData([node], [])
+    expect((result.sanitizedNodes![0].data as Record<string, unknown>).githubIssue).toEqual(githubIssue)
+    expect(
+      (validateCanvasData([makeValidNode('f1', { githubIssue: '[object Object]' })], []).sanitizedNodes![0]
+        .data as Record<string, unknown>).githubIssue
+    ).toBeNull()
+  })
+
+  it('keeps a Jira issue link as an object', () => {
+    const jiraIssue = {
+      id: '10042',
+      key: 'APP-12',
+      url: 'https://acme.atlassian.net/browse/APP-12',
+      statusCategory: 'indeterminate',
+      childCount: 3,
+    }
+    const node = makeValidNode('f1', { jiraIssue: { ...jiraIssue, fields: {} } })
+    const result = validateCanvasData([node], [])
+    expect((result.sanitizedNodes![0].data as Record<string, unknown>).jiraIssue).toEqual(jiraIssue)
+    expect(
+      (validateCanvasData([makeValidNode('f1', { jiraIssue: '[object Object]' })], []).sanitizedNodes![0]
+        .data as Record<string, unknown>).jiraIssue
+    ).toBeNull()
+  })
+
   // ─── Edge validation ──────────────────────────────────
   it('rejects self-referencing edges', () => {
     const node = makeValidNode('n1')
@@ -233,6 +393,29 @@ describe('validateCanvasData', () => {
     expect(validateCanvasData([node], [edge]).valid).toBe(false)
   })
 
+  it('keeps known edge kinds and drops other edge data', () => {
+    const n1 = makeValidNode('n1')
+    const n2 = makeValidNode('n2')
+    const edge = { id: 'e1', source: 'n1', target: 'n2', data: { kind: 'depends-on', extra: '<b>x</b>' } }
+    const result = validateCanvasData([n1, n2], [edge])
+    expect(result.valid).toBe(true)
+    expect(result.sanitizedEdges![0].data).toEqual({ kind: 'depends-on' })
+  })
+
+  it('rejects unknown edge kinds', () => {
+    const n1 = makeValidNode('n1')
+    const n2 = makeValidNode('n2')
+    const edge = { id: 'e1', source: 'n1', target: 'n2', data: { kind: 'friends-with' } }
+    expect(validateCanvasData([n1, n2], [edge]).valid).toBe(false)
+  })
+
+  it('rejects edge kinds inherited from Object.prototype', () => {
+    const n1 = makeValidNode('n1')
+    const n2 = makeValidNode('n2')
+    const edge = { id: 'e1', source: 'n1', target: 'n2', data: { kind: 'toString' } }
+    expect(validateCanvasData([n1, n2], [edge]).valid).toBe(false)
+  })
+
   // ─── Happy path ────────────────────────────────────────
   it('accepts valid nodes and edges', () => {
     const n1 = makeValidNode('n1')
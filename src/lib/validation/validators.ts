@@ -8,7 +8,20 @@
  * - Data corruption
  */
 
-import type { SpexlyNode, SpexlyEdge } from '@/types/nodes';
+import type {
+  FeaturePlanStep,
+  GitHubIssueLink,
+  JiraIssueLink,
+  LinearIssueLink,
+  PromptRun,
+  PromptRunOutcome,
+  SpexlyNode,
+  SpexlyEdge,
+  TargetTool,
+} from '@/types/nodes';
+import { isEdgeKind } from '@/lib/edges/edgeKinds';
+import { isJiraStatusCategory } from '@/lib/integrations/jiraSync';
+import { isLinearStateType } from '@/lib/integrations/linearSync';
 
 export interface ValidationResult {
   valid: boolean;
@@ -29,6 +42,7 @@ const MIN_PROJECT_NAME_LENGTH = 1;
 const MAX_NODES = 500;
 const MAX_EDGES = 1000;
 const MAX_STRING_FIELD_LENGTH = 10000; // For node text fields
+const MAX_LIST_FIELD_ITEMS = 200; // For string[] node fields
 
 // SQL keywords to block in project names (basic protection)
 const SQL_KEYWORDS = [
@@ -94,6 +108,146 @@ function sanitizeStringField(value: unknown): string {
   return sanitized;
 }
 
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Sanitizes a string[] node field, dropping non-string items
+ */
+function sanitizeStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .slice(0, MAX_LIST_FIELD_ITEMS)
+    .map(sanitizeStringField);
+}
+
+function sanitizeFiniteNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Sanitizes a feature's implementation plan, keeping only the known step fields
+ */
+function sanitizePlanSteps(value: unknown): FeaturePlanStep[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(isRecord)
+    .slice(0, MAX_LIST_FIELD_ITEMS)
+    .map((step) => ({
+      id: sanitizeStringField(step.id),
+      title: sanitizeStringField(step.title),
+      details: sanitizeStringField(step.details),
+      files: sanitizeStringList(step.files),
+      testCases: sanitizeStringList(step.testCases),
+      estimatedHours: sanitizeFiniteNumber(step.estimatedHours),
+      done: step.done === true,
+      ...(typeof step.taskId === 'string' ? { taskId: sanitizeStringField(step.taskId) } : {}),
+    }))
+    .filter((step) => step.id !== '');
+}
+
+const TARGET_TOOLS: TargetTool[] = ['Claude', 'Bolt', 'Cursor', 'Lovable', 'Replit', 'Other'];
+const RUN_OUTCOMES: PromptRunOutcome[] = ['worked', 'partial', 'failed'];
+
+/**
+ * Sanitizes a prompt's run history, keeping only the known run fields
+ */
+function sanitizePromptRuns(value: unknown): PromptRun[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(isRecord)
+    .slice(-MAX_LIST_FIELD_ITEMS)
+    .map((run) => ({
+      id: sanitizeStringField(run.id),
+      version: sanitizeFiniteNumber(run.version),
+      promptText: sanitizeStringField(run.promptText),
+      targetTool: TARGET_TOOLS.includes(run.targetTool as TargetTool) ? (run.targetTool as TargetTool) : 'Other',
+      ranAt: sanitizeStringField(run.ranAt),
+      outcome: RUN_OUTCOMES.includes(run.outcome as PromptRunOutcome) ? (run.outcome as PromptRunOutcome) : null,
+      output: sanitizeStringField(run.output),
+      refinement: sanitizeStringField(run.refinement),
+    }))
+    .filter((run) => run.id !== '');
+}
+
+/**
+ * Sanitizes a feature's Linear issue link; anything that isn't a link
+ * (including values flattened by older saves) becomes null
+ */
+function sanitizeLinearIssueLink(value: unknown): LinearIssueLink | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    return null;
+  }
+
+  return {
+    id: sanitizeStringField(value.id),
+    identifier: sanitizeStringField(value.identifier),
+    url: sanitizeStringField(value.url),
+    teamId: sanitizeStringField(value.teamId),
+    stateType: isLinearStateType(value.stateType) ? value.stateType : 'unstarted',
+  };
+}
+
+/**
+ * Sanitizes a feature's GitHub issue link; anything that isn't a link
+ * becomes null
+ */
+function sanitizeGitHubIssueLink(value: unknown): GitHubIssueLink | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id || typeof value.number !== 'number') {
+    return null;
+  }
+
+  return {
+    id: sanitizeStringField(value.id),
+    number: sanitizeFiniteNumber(value.number),
+    repo: sanitizeStringField(value.repo),
+    url: sanitizeStringField(value.url),
+    state: value.state === 'closed' ? 'closed' : 'open',
+    projectItemId: typeof value.projectItemId === 'string' ? sanitizeStringField(value.projectItemId) : null,
+  };
+}
+
+/**
+ * Sanitizes a feature's Jira issue link; anything that isn't a link
+ * becomes null
+ */
+function sanitizeJiraIssueLink(value: unknown): JiraIssueLink | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    return null;
+  }
+
+  return {
+    id: sanitizeStringField(value.id),
+    key: sanitizeStringField(value.key),
+    url: sanitizeStringField(value.url),
+    statusCategory: isJiraStatusCategory(value.statusCategory) ? value.statusCategory : 'new',
+    childCount: sanitizeFiniteNumber(value.childCount),
+  };
+}
+
+/**
+ * Node data fields holding objects rather than plain values, sanitized by
+ * structure so they survive a save instead of being flattened
+ */
+const STRUCTURED_FIELD_SANITIZERS: Record<string, (value: unknown) => unknown> = {
+  implementationPlan: sanitizePlanSteps,
+  runs: sanitizePromptRuns,
+  linearIssue: sanitizeLinearIssueLink,
+  githubIssue: sanitizeGitHubIssueLink,
+  jiraIssue: sanitizeJiraIssueLink,
+};
+
 /**
  * Validates and sanitizes a project name
  */
@@ -172,7 +326,7 @@ function validateAndSanitizeNode(node: unknown): SpexlyNode | null {
   }
 
   // Validate node type
-  const validTypes = ['idea', 'feature', 'screen', 'techStack', 'prompt', 'note'];
+  const validTypes = ['idea', 'feature', 'screen', 'techStack', 'prompt', 'note', 'group'];
   if (!validTypes.includes(n.type)) {
     return null;
   }
@@ -198,12 +352,19 @@ function validateAndSanitizeNode(node: unknown): SpexlyNode | null {
 
   // Sanitize all string fields in data
   for (const [key, value] of Object.entries(data)) {
-    if (typeof value === 'string') {
+    if (value === null) {
+      sanitizedData[key] = null;
+    } else if (Object.hasOwn(STRUCTURED_FIELD_SANITIZERS, key)) {
+      sanitizedData[key] = STRUCTURED_FIELD_SANITIZERS[key](value);
+    } else if (typeof value === 'string') {
       sanitizedData[key] = sanitizeStringField(value);
     } else if (typeof value === 'boolean') {
       sanitizedData[key] = value;
     } else if (typeof value === 'number') {
       sanitizedData[key] = value;
+    } else if (Array.isArray(value)) {
+      // Other node list fields (criteria, tags, dependency ids, ...) are string[]
+      sanitizedData[key] = sanitizeStringList(value);
     } else {
       // For other types, convert to string and sanitize
       sanitizedData[key] = sanitizeStringField(String(value));
@@ -250,11 +411,27 @@ function validateEdge(edge: unknown): SpexlyEdge | null {
     return null;
   }
 
-  return {
+  const sanitizedEdge: SpexlyEdge = {
     id: String(e.id),
     source: String(e.source),
     target: String(e.target),
-  } as SpexlyEdge;
+  };
+
+  // Kind is optional (legacy edges), but must be a known kind when present
+  if (e.data !== undefined && e.data !== null) {
+    if (typeof e.data !== 'object') {
+      return null;
+    }
+    const kind = (e.data as Record<string, unknown>).kind;
+    if (kind !== undefined) {
+      if (!isEdgeKind(kind)) {
+        return null;
+      }
+      sanitizedEdge.data = { kind };
+    }
+  }
+
+  return sanitizedEdge;
 }
 
 /**
@@ -307,6 +484,15 @@ export function validateCanvasData(
     sanitizedNodes.push(sanitized);
   }
 
+  // React Flow throws on a parentId it cannot resolve, so drop any that
+  // does not point at a group frame in this canvas
+  const groupIds = new Set(sanitizedNodes.filter((n) => n.type === 'group').map((n) => n.id));
+  for (const node of sanitizedNodes) {
+    if (node.parentId !== undefined && (node.type === 'group' || !groupIds.has(node.parentId))) {
+      delete node.parentId;
+    }
+  }
+
   // Validate each edge
   const sanitizedEdges: SpexlyEdge[] = [];
   const nodeIds = new Set(sanitizedNodes.map(n => n.id));
@@ -0,0 +1,160 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WorkspaceRole } from '@/types/workspace';
+import {
+  AuthorizationError,
+  DatabaseError,
+  NotFoundError,
+  logError,
+} from '@/lib/errors';
+import { hasWorkspaceRole, isWorkspaceRole } from './roles';
+
+export interface ProjectAccess {
+  projectId: string;
+  workspaceId: string;
+  role: WorkspaceRole;
+}
+
+/**
+ * The caller's role in a workspace, or null when they are not a member.
+ */
+export async function getWorkspaceRole(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    logError(error, { action: 'getWorkspaceRole', userId, workspaceId });
+    throw new DatabaseError('Failed to check workspace access.');
+  }
+
+  return isWorkspaceRole(data?.role) ? data.role : null;
+}
+
+/**
+ * Throws unless the caller holds at least `minRole` in the workspace.
+ * Non-members get NotFoundError so workspace IDs are not confirmed to outsiders.
+ */
+export async function requireWorkspaceRole(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string,
+  minRole: WorkspaceRole
+): Promise<WorkspaceRole> {
+  const role = await getWorkspaceRole(supabase, userId, workspaceId);
+  if (!role) {
+    throw new NotFoundError('Workspace');
+  }
+  if (!hasWorkspaceRole(role, minRole)) {
+    throw new AuthorizationError();
+  }
+  return role;
+}
+
+/**
+ * Resolves the project's workspace and the caller's role in it, or null when
+ * the project does not exist or is outside the caller's workspaces.
+ */
+export async function getProjectAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string
+): Promise<ProjectAccess | null> {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('id, workspace_id')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    logError(error, { action: 'getProjectAccess', userId, projectId });
+    throw new DatabaseError('Failed to check project access.');
+  }
+  if (!project?.workspace_id) return null;
+
+  const workspaceId = String(project.workspace_id);
+  const role = await getWorkspaceRole(supabase, userId, workspaceId);
+  if (!role) return null;
+
+  return { projectId, workspaceId, role };
+}
+
+/**
+ * Throws NotFoundError when the caller cannot see the project and
+ * AuthorizationError when they can see it but lack `minRole`.
+ */
+export async function requireProjectRole(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string,
+  minRole: WorkspaceRole
+): Promise<ProjectAccess> {
+  const access = await getProjectAccess(supabase, userId, projectId);
+  if (!access) {
+    throw new NotFoundError('Project');
+  }
+  if (!hasWorkspaceRole(access.role, minRole)) {
+    throw new AuthorizationError();
+  }
+  return access;
+}
+
+/**
+ * Returns the caller's personal workspace, creating it on first use.
+ * Creation goes through the `create_workspace` RPC: the creator only becomes
+ * a member in the insert trigger, so RLS would hide a plain insert's result.
+ */
+export async function ensurePersonalWorkspace(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string> {
+  const { data: existing, error: lookupError } = await supabase
+    .from('workspaces')
+    .select('id')
+    .eq('created_by', userId)
+    .eq('is_personal', true)
+    .maybeSingle();
+
+  if (lookupError) {
+    logError(lookupError, { action: 'ensurePersonalWorkspace:lookup', userId });
+    throw new DatabaseError('Failed to load workspace.');
+  }
+  if (existing?.id) return String(existing.id);
+
+  // Returns the existing row instead when a concurrent request created it first
+  const { data: created, error: createError } = await supabase.rpc('create_workspace', {
+    workspace_name: 'Personal',
+    personal: true,
+  });
+
+  if (createError || !created?.id) {
+    logError(createError, { action: 'ensurePersonalWorkspace:create', userId });
+    throw new DatabaseError('Failed to create workspace.');
+  }
+
+  return String(created.id);
+}
+
+/** IDs of every workspace the caller belongs to */
+export async function getMemberWorkspaceIds(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    logError(error, { action: 'getMemberWorkspaceIds', userId });
+    throw new DatabaseError('Failed to load workspaces.');
+  }
+
+  return (data ?? []).map((row) => String(row.workspace_id));
+}
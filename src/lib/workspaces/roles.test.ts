@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canEditWorkspace,
+  canManageWorkspace,
+  hasWorkspaceRole,
+  isInvitableRole,
+  isInvitationExpired,
+  isWorkspaceRole,
+  normalizeInviteEmail,
+  sanitizeWorkspaceName,
+  wouldOrphanWorkspace,
+} from './roles';
+
+describe('workspace roles', () => {
+  describe('hasWorkspaceRole', () => {
+    it('ranks owner above editor above viewer', () => {
+      expect(hasWorkspaceRole('owner', 'editor')).toBe(true);
+      expect(hasWorkspaceRole('editor', 'editor')).toBe(true);
+      expect(hasWorkspaceRole('editor', 'owner')).toBe(false);
+      expect(hasWorkspaceRole('viewer', 'viewer')).toBe(true);
+      expect(hasWorkspaceRole('viewer', 'editor')).toBe(false);
+    });
+
+    it('never grants access without a role', () => {
+      expect(hasWorkspaceRole(null, 'viewer')).toBe(false);
+      expect(hasWorkspaceRole(undefined, 'viewer')).toBe(false);
+    });
+
+    it('exposes edit and manage shorthands', () => {
+      expect(canEditWorkspace('editor')).toBe(true);
+      expect(canEditWorkspace('viewer')).toBe(false);
+      expect(canManageWorkspace('owner')).toBe(true);
+      expect(canManageWorkspace('editor')).toBe(false);
+    });
+  });
+
+  describe('role guards', () => {
+    it('recognises workspace roles', () => {
+      expect(isWorkspaceRole('owner')).toBe(true);
+      expect(isWorkspaceRole('admin')).toBe(false);
+      expect(isWorkspaceRole(3)).toBe(false);
+    });
+
+    it('does not allow inviting owners', () => {
+      expect(isInvitableRole('editor')).toBe(true);
+      expect(isInvitableRole('viewer')).toBe(true);
+      expect(isInvitableRole('owner')).toBe(false);
+    });
+  });
+
+  describe('sanitizeWorkspaceName', () => {
+    it('trims and collapses whitespace', () => {
+      expect(sanitizeWorkspaceName('  Acme   Design  ')).toBe('Acme Design');
+    });
+
+    it('rejects empty, non-string and overlong names', () => {
+      expect(sanitizeWorkspaceName('   ')).toBeNull();
+      expect(sanitizeWorkspaceName(null)).toBeNull();
+      expect(sanitizeWorkspaceName('x'.repeat(61))).toBeNull();
+    });
+  });
+
+  describe('normalizeInviteEmail', () => {
+    it('lowercases and trims valid addresses', () => {
+      expect(normalizeInviteEmail('  Dana@Example.COM ')).toBe('dana@example.com');
+    });
+
+    it('rejects malformed addresses', () => {
+      expect(normalizeInviteEmail('not-an-email')).toBeNull();
+      expect(normalizeInviteEmail('a b@example.com')).toBeNull();
+      expect(normalizeInviteEmail(undefined)).toBeNull();
+    });
+  });
+
+  describe('isInvitationExpired', () => {
+    const now = new Date('2026-02-15T12:00:00Z').getTime();
+
+    it('is open until expires_at', () => {
+      expect(isInvitationExpired({ expires_at: '2026-02-16T00:00:00Z' }, now)).toBe(false);
+      expect(isInvitationExpired({ expires_at: '2026-02-15T11:59:59Z' }, now)).toBe(true);
+    });
+
+    it('treats accepted invitations as closed', () => {
+      expect(
+        isInvitationExpired(
+          { expires_at: '2026-02-16T00:00:00Z', accepted_at: '2026-02-15T10:00:00Z' },
+          now
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('wouldOrphanWorkspace', () => {
+    const members = [
+      { user_id: 'owner-1', role: 'owner' as const },
+      { user_id: 'editor-1', role: 'editor' as const },
+    ];
+
+    it('blocks removing or demoting the last owner', () => {
+      expect(wouldOrphanWorkspace(members, 'owner-1', null)).toBe(true);
+      expect(wouldOrphanWorkspace(members, 'owner-1', 'editor')).toBe(true);
+    });
+
+    it('allows changes that keep an owner', () => {
+      expect(wouldOrphanWorkspace(members, 'editor-1', null)).toBe(false);
+      expect(wouldOrphanWorkspace(members, 'owner-1', 'owner')).toBe(false);
+      expect(
+        wouldOrphanWorkspace(
+          [...members, { user_id: 'owner-2', role: 'owner' as const }],
+          'owner-1',
+          null
+        )
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import type { InvitableWorkspaceRole, WorkspaceMember, WorkspaceRole } from '@/types/workspace';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+export const INVITABLE_ROLES: InvitableWorkspaceRole[] = ['editor', 'viewer'];
+
+/** Invitations stay open for this long */
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MAX_WORKSPACE_NAME_LENGTH = 60;
+const MAX_EMAIL_LENGTH = 254;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Must match public.workspace_role_rank() in the workspaces migration
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === 'string' && WORKSPACE_ROLES.includes(value as WorkspaceRole);
+}
+
+export function isInvitableRole(value: unknown): value is InvitableWorkspaceRole {
+  return typeof value === 'string' && INVITABLE_ROLES.includes(value as InvitableWorkspaceRole);
+}
+
+/**
+ * True when `role` grants at least the permissions of `minRole`.
+ * A missing role (not a member) never satisfies any requirement.
+ */
+export function hasWorkspaceRole(
+  role: WorkspaceRole | null | undefined,
+  minRole: WorkspaceRole
+): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+export function canEditWorkspace(role: WorkspaceRole | null | undefined): boolean {
+  return hasWorkspaceRole(role, 'editor');
+}
+
+export function canManageWorkspace(role: WorkspaceRole | null | undefined): boolean {
+  return hasWorkspaceRole(role, 'owner');
+}
+
+/**
+ * Trims and collapses whitespace in a workspace name.
+ * Returns null when the name is empty or too long.
+ */
+export function sanitizeWorkspaceName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!trimmed || trimmed.length > MAX_WORKSPACE_NAME_LENGTH) return null;
+  return trimmed;
+}
+
+/** Lowercased invite email, or null if it is not a plausible address */
+export function normalizeInviteEmail(email: unknown): string | null {
+  if (typeof email !== 'string') return null;
+  const normalized = email.trim().toLowerCase();
+  if (!normalized || normalized.length > MAX_EMAIL_LENGTH) return null;
+  return EMAIL_PATTERN.test(normalized) ? normalized : null;
+}
+
+export function isInvitationExpired(
+  invitation: { expires_at: string; accepted_at?: string | null },
+  now: number = Date.now()
+): boolean {
+  if (invitation.accepted_at) return true;
+  return new Date(invitation.expires_at).getTime() <= now;
+}
+
+/**
+ * True when changing `userId` to `nextRole` (null = removing them) would leave
+ * the workspace without an owner.
+ */
+export function wouldOrphanWorkspace(
+  members: Pick<WorkspaceMember, 'user_id' | 'role'>[],
+  userId: string,
+  nextRole: WorkspaceRole | null
+): boolean {
+  const target = members.find((member) => member.user_id === userId);
+  if (!target || target.role !== 'owner' || nextRole === 'owner') return false;
+  const owners = members.filter((member) => member.role === 'owner');
+  return owners.length <= 1;
+}
@@ -8,6 +8,7 @@ function resetStore() {
     edges: [],
     past: [],
     future: [],
+    connectionEdgeKind: null,
   })
 }
 
@@ -255,6 +256,83 @@ describe('canvasStore', () => {
 
       expect(useCanvasStore.getState().past.length).toBeGreaterThan(pastBefore)
     })
+
+    it('infers the edge kind from the connected node types', () => {
+      const store = useCanvasStore.getState()
+      store.addNode('screen', { x: 0, y: 0 })
+      store.addNode('feature', { x: 100, y: 100 })
+      const [screen, feature] = useCanvasStore.getState().nodes
+
+      store.onConnect({ source: screen.id, target: feature.id, sourceHandle: null, targetHandle: null })
+
+      expect(useCanvasStore.getState().edges[0].data).toEqual({ kind: 'renders' })
+    })
+
+    it('uses the chosen connection kind when set', () => {
+      const store = useCanvasStore.getState()
+      store.addNode('screen', { x: 0, y: 0 })
+      store.addNode('feature', { x: 100, y: 100 })
+      const [screen, feature] = useCanvasStore.getState().nodes
+
+      store.setConnectionEdgeKind('blocks')
+      store.onConnect({ source: screen.id, target: feature.id, sourceHandle: null, targetHandle: null })
+
+      expect(useCanvasStore.getState().edges[0].data).toEqual({ kind: 'blocks' })
+    })
+  })
+
+  describe('setEdgeKind', () => {
+    it('changes the kind of an existing edge with undo support', () => {
+      const store = useCanvasStore.getState()
+      store.addNode('feature', { x: 0, y: 0 })
+      store.addNode('feature', { x: 100, y: 100 })
+      const [a, b] = useCanvasStore.getState().nodes
+      store.onConnect({ source: a.id, target: b.id, sourceHandle: null, targetHandle: null })
+      const edgeId = useCanvasStore.getState().edges[0].id
+
+      store.setEdgeKind(edgeId, 'blocks')
+      expect(useCanvasStore.getState().edges[0].data?.kind).toBe('blocks')
+
+      store.undo()
+      expect(useCanvasStore.getState().edges[0].data?.kind).toBe('depends-on')
+    })
+  })
+
+  // ─── Remote Changes ─────────────────────────────────────
+
+  describe('applyRemoteChanges', () => {
+    it('applies remote adds, moves, edges and removals without touching history', () => {
+      const store = useCanvasStore.getState()
+      store.addNode('idea', { x: 0, y: 0 })
+      const ideaNode = useCanvasStore.getState().nodes[0]
+      const pastBefore = useCanvasStore.getState().past.length
+      const remoteNote = { ...ideaNode, id: 'remote-note', type: 'note' } as SpexlyNode
+
+      store.applyRemoteChanges([
+        { kind: 'node-add', node: remoteNote },
+        { kind: 'node-move', nodeId: ideaNode.id, position: { x: 40, y: 80 } },
+        { kind: 'edge-add', edge: { id: 'e-remote', source: ideaNode.id, target: 'remote-note' } },
+      ])
+
+      let state = useCanvasStore.getState()
+      expect(state.nodes.map((n) => n.id)).toEqual([ideaNode.id, 'remote-note'])
+      expect(state.nodes[0].position).toEqual({ x: 40, y: 80 })
+      expect(state.edges).toHaveLength(1)
+      expect(state.past).toHaveLength(pastBefore)
+
+      store.applyRemoteChanges([{ kind: 'node-remove', nodeId: 'remote-note' }])
+
+      state = useCanvasStore.getState()
+      expect(state.nodes).toHaveLength(1)
+      expect(state.edges).toHaveLength(0)
+    })
+
+    it('ignores edges whose endpoints are missing locally', () => {
+      const store = useCanvasStore.getState()
+      store.applyRemoteChanges([{ kind: 'edge-add', edge: { id: 'e1', source: 'a', target: 'b' } }])
+
+      expect(useCanvasStore.getState().edges).toHaveLength(0)
+    })
   })
 
   // ─── History Management ─────────────────────────────────
@@ -607,6 +685,174 @@ describe('canvasStore', () => {
     })
   })
 
+  // ─── restoreCanvas ──────────────────────────────────────
+
+  describe('restoreCanvas', () => {
+    it('replaces nodes and edges without moving positions', () => {
+      const store = useCanvasStore.getState()
+      store.addNode('idea', { x: 0, y: 0 })
+      store.addNode('note', { x: 0, y: 10 })
+      const [a, b] = useCanvasStore.getState().nodes
+
+      const restored = [
+        { ...a, position: { x: 0, y: 0 } },
+        { ...b, position: { x: 0, y: 5 } },
+      ]
+      store.restoreCanvas(restored, [{ id: 'e1', source: a.id, target: b.id }])
+
+      const state = useCanvasStore.getState()
+      expect(state.nodes.map((n) => n.position)).toEqual([{ x: 0, y: 0 }, { x: 0, y: 5 }])
+      expect(state.edges).toHaveLength(1)
+    })
+
+    it('can be undone', () => {
+      const store = useCanvasStore.getState()
+      store.addNode('idea', { x: 0, y: 0 })
+
+      store.restoreCanvas([], [])
+      expect(useCanvasStore.getState().nodes).toHaveLength(0)
+
+      store.undo()
+      expect(useCanvasStore.getState().nodes).toHaveLength(1)
+    })
+  })
+
+  // ─── applyLayout ────────────────────────────────────────
+
+  describe('applyLayout', () => {
+    it('lays out the canvas by type and can be undone', () => {
+      const store = useCanvasStore.getState()
+      const ideaId = store.addNode('idea', { x: 0, y: 0 })
+      const featureId = store.addNode('feature', { x: 0, y: 600 })
+      store.onConnect({ source: ideaId, target: featureId, sourceHandle: null, targetHandle: null })
+      const before = useCanvasStore.getState().nodes.map((n) => n.position)
+
+      store.applyLayout('type-columns')
+
+      const nodes = useCanvasStore.getState().nodes
+      const idea = nodes.find((n) => n.id === ideaId)!
+      const feature = nodes.find((n) => n.id === featureId)!
+      expect(feature.position.x).toBeGreaterThan(idea.position.x)
+
+      store.undo()
+      expect(useCanvasStore.getState().nodes.map((n) => n.position)).toEqual(before)
+    })
+
+    it('only moves selected nodes when asked to', () => {
+      const store = useCanvasStore.getState()
+      store.addNode('idea', { x: 0, y: 0 })
+      store.addNode('feature', { x: 1000, y: 1000 })
+      store.addNode('note', { x: 2000, y: 2000 })
+      const [a, b, c] = useCanvasStore.getState().nodes
+      useCanvasStore.setState({
+        nodes: [{ ...a, selected: true }, { ...b, selected: true }, c],
+      })
+
+      store.applyLayout('type-columns', { selectedOnly: true })
+
+      const nodes = useCanvasStore.getState().nodes
+      expect(nodes[2].position).toEqual(c.position)
+      expect(nodes[1].position).not.toEqual(b.position)
+    })
+
+    it('does nothing for a selection of fewer than two nodes', () => {
+      const store = useCanvasStore.getState()
+      store.addNode('idea', { x: 0, y: 0 })
+      const historyBefore = useCanvasStore.getState().past.length
+
+      store.applyLayout('dependency-flow', { selectedOnly: true })
+      expect(useCanvasStore.getState().past).toHaveLength(historyBefore)
+    })
+  })
+
+  // ─── Groups ─────────────────────────────────────────────
+
+  describe('groups', () => {
+    function addGroupWithChild() {
+      const store = useCanvasStore.getState()
+      const groupId = store.addNode('group', { x: 1000, y: 1000 })
+      const featureId = store.addNode('feature', { x: 0, y: 0 })
+      store.onNodesChange([
+        { type: 'position', id: featureId, position: { x: 1100, y: 1100 }, dragging: false },
+      ])
+      return { groupId, featureId }
+    }
+
+    it('moves a node dropped onto a frame into the group', () => {
+      const { groupId, featureId } = addGroupWithChild()
+
+      const nodes = useCanvasStore.getState().nodes
+      const feature = nodes.find((n) => n.id === featureId)!
+      expect(nodes[0].id).toBe(groupId)
+      expect(feature.parentId).toBe(groupId)
+      expect(feature.position).toEqual({ x: 100, y: 100 })
+    })
+
+    it('collapses a group, hiding its children, and undoes it', () => {
+      const { groupId, featureId } = addGroupWithChild()
+      const store = useCanvasStore.getState()
+
+      store.toggleGroupCollapsed(groupId)
+      let nodes = useCanvasStore.getState().nodes
+      expect(nodes.find((n) => n.id === featureId)!.hidden).toBe(true)
+      expect(nodes.find((n) => n.id === groupId)!.data).toMatchObject({ collapsed: true })
+
+      store.undo()
+      nodes = useCanvasStore.getState().nodes
+      expect(nodes.find((n) => n.id === featureId)!.hidden).toBeFalsy()
+    })
+
+    it('applies a collapse flag set through updateNodeData', () => {
+      const { groupId, featureId } = addGroupWithChild()
+
+      useCanvasStore.getState().updateNodeData(groupId, { collapsed: true })
+
+      expect(useCanvasStore.getState().nodes.find((n) => n.id === featureId)!.hidden).toBe(true)
+    })
+
+    it('keeps children in place when their group is deleted', () => {
+      const { groupId, featureId } = addGroupWithChild()
+
+      useCanvasStore.getState().deleteNode(groupId)
+
+      const [feature] = useCanvasStore.getState().nodes
+      expect(feature.id).toBe(featureId)
+      expect(feature.parentId).toBeUndefined()
+      expect(feature.position).toEqual({ x: 1100, y: 1100 })
+    })
+  })
+
+  // ─── Milestones ─────────────────────────────────────────
+
+  describe('assignMilestone', () => {
+    it('plans features and screens into a milestone and undoes it', () => {
+      const store = useCanvasStore.getState()
+      const featureId = store.addNode('feature', { x: 0, y: 0 })
+      const screenId = store.addNode('screen', { x: 0, y: 200 })
+      const noteId = store.addNode('note', { x: 0, y: 400 })
+
+      store.assignMilestone([featureId, screenId, noteId], 'm1')
+      let nodes = useCanvasStore.getState().nodes
+      expect(nodes.find((n) => n.id === featureId)!.data).toMatchObject({ milestoneId: 'm1' })
+      expect(nodes.find((n) => n.id === screenId)!.data).toMatchObject({ milestoneId: 'm1' })
+      expect(nodes.find((n) => n.id === noteId)!.data).not.toHaveProperty('milestoneId')
+
+      store.undo()
+      nodes = useCanvasStore.getState().nodes
+      expect(nodes.find((n) => n.id === featureId)!.data).not.toHaveProperty('milestoneId')
+    })
+
+    it('does not record history when nothing changes', () => {
+      const store = useCanvasStore.getState()
+      const featureId = store.addNode('feature', { x: 0, y: 0 })
+      store.assignMilestone([featureId], 'm1')
+      const historyBefore = useCanvasStore.getState().past.length
+
+      store.assignMilestone([featureId], 'm1')
+      expect(useCanvasStore.getState().past).toHaveLength(historyBefore)
+    })
+  })
+
   // ─── toggleNodeCompleted ────────────────────────────────
 
   describe('toggleNodeCompleted', () => {
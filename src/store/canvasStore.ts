@@ -18,8 +18,24 @@ import type {
   FeatureStatus,
   HistoryEntry,
   NodeFieldUpdate,
+  EdgeKind,
+  LayoutMode,
+  GroupNodeData,
 } from '@/types/nodes';
-import { NODE_TYPE_CONFIGS, MAX_HISTORY } from '@/lib/constants';
+import type { CanvasChange } from '@/types/collaboration';
+import { NODE_TYPE_CONFIGS, MAX_HISTORY, GROUP_DEFAULT_SIZE } from '@/lib/constants';
+import { inferEdgeKind } from '@/lib/edges/edgeKinds';
+import { resolveDependencyIds } from '@/lib/graph/featureDependencies';
+import { layoutNodes } from '@/lib/graph/layout';
+import { isPlannableNode } from '@/lib/milestones/milestones';
+import {
+  assignNodesToGroups,
+  getGroupSize,
+  isGroupNode,
+  releaseGroupChildren,
+  setGroupCollapsed,
+  sortParentsFirst,
+} from '@/lib/groups/groups';
 
 interface CanvasState {
   nodes: SpexlyNode[];
@@ -36,10 +52,22 @@ interface CanvasState {
   projectName: string;
   isSaving: boolean;
   lastSavedAt: Date | null;
+  /** Viewers and public share links render nodes without editing controls */
+  readOnly: boolean;
 
   onNodesChange: (changes: NodeChange<SpexlyNode>[]) => void;
   onEdgesChange: (changes: EdgeChange<SpexlyEdge>[]) => void;
   onConnect: (connection: Connection) => void;
+  /** Kind given to new connections; null infers one from the node types */
+  connectionEdgeKind: EdgeKind | null;
+  setConnectionEdgeKind: (kind: EdgeKind | null) => void;
+  setEdgeKind: (edgeId: string, kind: EdgeKind) => void;
+  /**
+   * Applies structural changes (add/remove/move, edges) received from collaborators.
+   * Bypasses history so remote edits never land on the local undo stack.
+   * Field edits go through updateNodeData after merging.
+   */
+  applyRemoteChanges: (changes: CanvasChange[]) => void;
 
   addNode: (type: SpexlyNodeType, position: { x: number; y: number }) => string;
   updateNodeData: (nodeId: string, data: Partial<SpexlyNodeData>) => void;
@@ -47,6 +75,10 @@ interface CanvasState {
   deleteSelected: () => void;
   toggleNodeExpanded: (nodeId: string) => void;
   toggleNodeCompleted: (nodeId: string) => void;
+  /** Collapses a group to its header (hiding its children) or expands it again. Undoable. */
+  toggleGroupCollapsed: (groupId: string) => void;
+  /** Plans features/screens into a milestone (null unschedules them). Undoable. */
+  assignMilestone: (nodeIds: string[], milestoneId: string | null) => void;
 
   undo: () => void;
   redo: () => void;
@@ -60,8 +92,12 @@ interface CanvasState {
 
   getFeatureStatusCounts: () => Record<FeatureStatus, number>;
   setNodesAndEdges: (nodes: SpexlyNode[], edges: SpexlyEdge[]) => void;
+  /** Replaces the canvas verbatim (no auto-spacing), e.g. when restoring a snapshot. Undoable. */
+  restoreCanvas: (nodes: SpexlyNode[], edges: SpexlyEdge[]) => void;
   appendNodesAndEdges: (nodes: SpexlyNode[], edges: SpexlyEdge[]) => void;
   resetLayout: () => void;
+  /** Re-positions the whole canvas, or only the selected nodes, with the automatic layout. Undoable. */
+  applyLayout: (mode: LayoutMode, options?: { selectedOnly?: boolean }) => void;
   setNodeHeight: (nodeId: string, height: number) => void;
 
   smartImport: (updates: NodeFieldUpdate[], newNodes: SpexlyNode[], newEdges: SpexlyEdge[]) => void;
@@ -75,15 +111,17 @@ interface CanvasState {
   clearCanvas: () => void;
   setProjectMeta: (id: string, name: string) => void;
   setSaveStatus: (saving: boolean) => void;
+  setReadOnly: (readOnly: boolean) => void;
 }
 
 const BASE_VERTICAL_GAP = 0;
-const COLUMN_X = [0, 360, 720, 1080, 1440, 1800];
-const ROW_SPACING = 250;
 const NODE_WIDTH = 320;
 const NODE_GAP = 10;
 
 function getNodeHeight(node: SpexlyNode, heightMap?: Record<string, number>): number {
+  if (isGroupNode(node)) {
+    return getGroupSize(node).height;
+  }
   if (heightMap && heightMap[node.id]) {
     return heightMap[node.id];
   }
@@ -123,6 +161,16 @@ function nodesOverlap(
   return ax1 < bx2 && ax2 > bx1 && ay1 < by2 && ay2 > by1;
 }
 
+/** Group frames hold other nodes, and children use group-relative positions */
+function canCollide(a: SpexlyNode, b: SpexlyNode): boolean {
+  return !isGroupNode(a) && !isGroupNode(b) && a.parentId === b.parentId;
+}
+
+/** Nodes that aren't inside a group and aren't groups, i.e. free for automatic placement */
+function getFreeNodeIds(nodes: SpexlyNode[]): Set<string> {
+  return new Set(nodes.filter((n) => !n.parentId && !isGroupNode(n)).map((n) => n.id));
+}
+
 function resolveOverlap(
   nodes: SpexlyNode[],
   movedId: string,
@@ -130,7 +178,7 @@ function resolveOverlap(
   heightMap?: Record<string, number>
 ): SpexlyNode[] {
   const moved = nodes.find((n) => n.id === movedId);
-  if (!moved) return nodes;
+  if (!moved || isGroupNode(moved)) return nodes;
 
   const base = targetPosition ?? moved.position;
   const stepX = 60;
@@ -139,7 +187,7 @@ function resolveOverlap(
 
   const isFree = (pos: { x: number; y: number }) => {
     const probe = { ...moved, position: pos };
-    return !nodes.some((n) => n.id !== moved.id && nodesOverlap(probe, n, heightMap));
+    return !nodes.some((n) => n.id !== moved.id && canCollide(moved, n) && nodesOverlap(probe, n, heightMap));
   };
 
   if (isFree(base)) {
@@ -178,9 +226,10 @@ function autoSpaceNodes(
   minGap: number,
   heightMap?: Record<string, number>
 ): SpexlyNode[] {
-  const grouped = new Map<number, SpexlyNode[]>();
+  const grouped = new Map<string, SpexlyNode[]>();
   for (const node of nodes) {
-    const key = Math.round(node.position.x / 100) * 100;
+    if (isGroupNode(node)) continue;
+    const key = `${node.parentId ?? ''}:${Math.round(node.position.x / 100) * 100}`;
     const bucket = grouped.get(key) ?? [];
     bucket.push(node);
     grouped.set(key, bucket);
@@ -201,33 +250,6 @@ function autoSpaceNodes(
   return [...nodes];
 }
 
-function alignByType(nodes: SpexlyNode[]): SpexlyNode[] {
-  const typeOrder: SpexlyNodeType[] = ['idea', 'feature', 'screen', 'techStack', 'prompt', 'note'];
-  const grouped = new Map<SpexlyNodeType, SpexlyNode[]>();
-  for (const node of nodes) {
-    const bucket = grouped.get(node.type as SpexlyNodeType) ?? [];
-    bucket.push(node);
-    grouped.set(node.type as SpexlyNodeType, bucket);
-  }
-
-  const maxCount = Math.max(1, ...typeOrder.map((t) => (grouped.get(t)?.length ?? 0)));
-  const totalHeight = (maxCount - 1) * ROW_SPACING;
-  const startY = -totalHeight / 2;
-
-  for (let i = 0; i < typeOrder.length; i++) {
-    const type = typeOrder[i];
-    const bucket = grouped.get(type) ?? [];
-    for (let j = 0; j < bucket.length; j++) {
-      bucket[j].position = {
-        x: COLUMN_X[i] ?? i * 420,
-        y: startY + j * ROW_SPACING,
-      };
-    }
-  }
-
-  return [...nodes];
-}
-
 export const useCanvasStore = create<CanvasState>((set, get) => ({
   nodes: [],
   edges: [],
@@ -242,17 +264,31 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
   projectName: '',
   isSaving: false,
   lastSavedAt: null,
+  readOnly: false,
   sidebarNodeId: null,
+  connectionEdgeKind: null,
 
   onNodesChange: (changes) => {
     const significantChange = changes.some(
-      (c) => c.type === 'remove' || (c.type === 'position' && c.dragging === false)
+      (c) =>
+        c.type === 'remove' ||
+        (c.type === 'position' && c.dragging === false) ||
+        (c.type === 'dimensions' && c.resizing === false)
     );
     if (significantChange) get().pushHistory();
 
     let nextNodes = applyNodeChanges(changes, get().nodes) as SpexlyNode[];
     const heightMap = get().nodeHeights;
 
+    // Dropping nodes onto (or off) a group frame changes their parent
+    const droppedIds = changes.flatMap((c) => (c.type === 'position' && c.dragging === false ? [c.id] : []));
+    if (droppedIds.length > 0) {
+      nextNodes = assignNodesToGroups(nextNodes, droppedIds, (node) => ({
+        width: node.measured?.width ?? NODE_WIDTH,
+        height: getNodeHeight(node, heightMap),
+      }));
+    }
+
     const moved = changes.find((c) => c.type === 'position' && c.dragging === false);
     if (moved && 'id' in moved) {
       const movedNode = nextNodes.find((n) => n.id === moved.id);
@@ -272,8 +308,97 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
   },
 
   onConnect: (connection) => {
+    const { nodes, connectionEdgeKind } = get();
+    const kind =
+      connectionEdgeKind ??
+      inferEdgeKind(
+        nodes.find((n) => n.id === connection.source)?.type,
+        nodes.find((n) => n.id === connection.target)?.type
+      );
     get().pushHistory();
-    set({ edges: addEdge(connection, get().edges) });
+    set({ edges: addEdge({ ...connection, data: { kind } }, get().edges) });
+  },
+
+  setConnectionEdgeKind: (kind) => {
+    set({ connectionEdgeKind: kind });
+  },
+
+  setEdgeKind: (edgeId, kind) => {
+    const edge = get().edges.find((e) => e.id === edgeId);
+    if (!edge || edge.data?.kind === kind) return;
+    get().pushHistory();
+    set({
+      edges: get().edges.map((e) => (e.id === edgeId ? { ...e, data: { ...e.data, kind } } : e)),
+    });
+  },
+
+  applyRemoteChanges: (changes) => {
+    let nodes = get().nodes;
+    let edges = get().edges;
+    let sidebarNodeId = get().sidebarNodeId;
+
+    const positionChanges: NodeChange<SpexlyNode>[] = [];
+    for (const change of changes) {
+      switch (change.kind) {
+        case 'node-move':
+          if (change.parentId !== undefined) {
+            nodes = sortParentsFirst(
+              nodes.map((n) => {
+                if (n.id !== change.nodeId) return n;
+                const moved = { ...n };
+                if (change.parentId) {
+                  moved.parentId = change.parentId;
+                } else {
+                  delete moved.parentId;
+                }
+                return moved as SpexlyNode;
+              })
+            );
+          }
+          positionChanges.push({ type: 'position', id: change.nodeId, position: change.position });
+          break;
+        case 'node-resize':
+          nodes = nodes.map((n) =>
+            n.id === change.nodeId ? ({ ...n, width: change.width, height: change.height } as SpexlyNode) : n
+          );
+          break;
+        case 'node-add':
+          if (!nodes.some((n) => n.id === change.node.id)) {
+            nodes = sortParentsFirst([...nodes, change.node]);
+          }
+          break;
+        case 'node-remove':
+          nodes = releaseGroupChildren(nodes, change.nodeId).filter((n) => n.id !== change.nodeId);
+          edges = edges.filter((e) => e.source !== change.nodeId && e.target !== change.nodeId);
+          if (sidebarNodeId === change.nodeId) sidebarNodeId = null;
+          break;
+        case 'edge-add': {
+          const { edge } = change;
+          const endpointsExist =
+            nodes.some((n) => n.id === edge.source) && nodes.some((n) => n.id === edge.target);
+          if (endpointsExist && !edges.some((e) => e.id === edge.id)) {
+            edges = [...edges, edge];
+          }
+          break;
+        }
+        case 'edge-remove':
+          edges = edges.filter((e) => e.id !== change.edgeId);
+          break;
+        case 'edge-kind':
+          edges = edges.map((e) =>
+            e.id === change.edgeId ? { ...e, data: { ...e.data, kind: change.edgeKind } } : e
+          );
+          break;
+        default:
+          break;
+      }
+    }
+
+    if (positionChanges.length > 0) {
+      nodes = applyNodeChanges(positionChanges, nodes) as SpexlyNode[];
+    }
+
+    set({ nodes, edges, sidebarNodeId });
   },
 
   addNode: (type, position) => {
@@ -281,7 +406,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     const config = NODE_TYPE_CONFIGS[type];
     const NODE_HEIGHT = 240;
 
-    const existingNodes = get().nodes;
+    const existingNodes = get().nodes.filter((n) => !n.parentId && !isGroupNode(n));
     const isOverlapping = (pos: { x: number; y: number }) => {
       return existingNodes.some((node) => {
         const overlapX = Math.abs(node.position.x - pos.x) < NODE_WIDTH + NODE_GAP;
@@ -293,7 +418,7 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     const stepX = NODE_WIDTH + NODE_GAP;
     const stepY = NODE_HEIGHT + NODE_GAP;
     let finalPosition = position;
-    if (isOverlapping(position)) {
+    if (type !== 'group' && isOverlapping(position)) {
       const attempts = 25;
       for (let i = 0; i < attempts; i++) {
         const dx = (i % 5) - 2;
@@ -315,24 +440,32 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       type,
       position: finalPosition,
       data: { ...config.defaultData },
+      ...(type === 'group' ? { ...GROUP_DEFAULT_SIZE, zIndex: -1 } : {}),
     } as SpexlyNode;
-    set({ nodes: [...get().nodes, newNode] });
+    set({ nodes: sortParentsFirst([...get().nodes, newNode]) });
     return id;
   },
 
   updateNodeData: (nodeId, data) => {
-    set({
-      nodes: get().nodes.map((node) =>
-        node.id === nodeId ? { ...node, data: { ...node.data, ...data } } : node
-      ) as SpexlyNode[],
-    });
+    const nodes = get().nodes.map((node) =>
+      node.id === nodeId ? { ...node, data: { ...node.data, ...data } } : node
+    ) as SpexlyNode[];
+
+    // A collapse flag arriving as plain data (e.g. from a collaborator) also hides the children
+    const before = get().nodes.find((n) => n.id === nodeId);
+    const collapsed = (data as Partial<GroupNodeData>).collapsed;
+    if (isGroupNode(before) && collapsed !== undefined && collapsed !== before.data.collapsed) {
+      set({ nodes: setGroupCollapsed(nodes, nodeId, collapsed) });
+      return;
+    }
+    set({ nodes });
   },
 
   deleteNode: (nodeId) => {
     get().pushHistory();
     const sidebarNodeId = get().sidebarNodeId;
     set({
-      nodes: get().nodes.filter((n) => n.id !== nodeId),
+      nodes: releaseGroupChildren(get().nodes, nodeId).filter((n) => n.id !== nodeId),
       edges: get().edges.filter((e) => e.source !== nodeId && e.target !== nodeId),
       ...(sidebarNodeId === nodeId ? { sidebarNodeId: null } : {}),
     });
@@ -345,8 +478,12 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     if (!hasSelection) return;
 
     get().pushHistory();
+    // Children of deleted groups stay on the canvas unless they were selected too
+    const remaining = nodes
+      .filter((n) => isGroupNode(n) && n.selected)
+      .reduce((acc, group) => releaseGroupChildren(acc, group.id), nodes);
     set({
-      nodes: nodes.filter((n) => !n.selected),
+      nodes: remaining.filter((n) => !n.selected),
       edges: edges.filter(
         (e) =>
           !e.selected &&
@@ -392,7 +529,12 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       const affectedIds: string[] = [];
       for (const node of nodes) {
         const key = Math.round(node.position.x / 100) * 100;
-        if (key === columnKey && node.id !== target.id && node.position.y > target.position.y) {
+        if (
+          key === columnKey &&
+          node.id !== target.id &&
+          canCollide(node, target) &&
+          node.position.y > target.position.y
+        ) {
           node.position = { ...node.position, y: node.position.y + delta };
           affectedIds.push(node.id);
         }
@@ -432,6 +574,29 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     });
   },
 
+  toggleGroupCollapsed: (groupId) => {
+    const group = get().nodes.find((n) => n.id === groupId);
+    if (!isGroupNode(group)) return;
+    get().pushHistory();
+    get().updateNodeData(groupId, { collapsed: !group.data.collapsed });
+  },
+
+  assignMilestone: (nodeIds, milestoneId) => {
+    const targets = new Set(nodeIds);
+    const changed = get().nodes.filter(
+      (n) => targets.has(n.id) && isPlannableNode(n) && (n.data.milestoneId ?? null) !== milestoneId
+    );
+    if (changed.length === 0) return;
+
+    get().pushHistory();
+    const changedIds = new Set(changed.map((n) => n.id));
+    set({
+      nodes: get().nodes.map((node) =>
+        changedIds.has(node.id) ? { ...node, data: { ...node.data, milestoneId } } : node
+      ) as SpexlyNode[],
+    });
+  },
+
   pushHistory: () => {
     const { nodes, edges, past } = get();
     const entry: HistoryEntry = {
@@ -520,6 +685,19 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     });
   },
 
+  restoreCanvas: (nodes, edges) => {
+    get().pushHistory();
+    set({
+      nodes,
+      edges,
+      baselineNodes: JSON.parse(JSON.stringify(nodes)),
+      baselineEdges: JSON.parse(JSON.stringify(edges)),
+      expandShiftMap: {},
+      sidebarNodeId: null,
+      readOnly: false,
+    });
+  },
+
   appendNodesAndEdges: (nodes, edges) => {
     get().pushHistory();
     const existingNodes = get().nodes;
@@ -547,7 +725,10 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     const spacedAdjusted = autoSpaceNodes(adjustedNodes, BASE_VERTICAL_GAP, get().nodeHeights);
 
     set({
-      nodes: [...existingNodes, ...spacedAdjusted],
+      nodes: resolveDependencyIds(
+        [...existingNodes, ...spacedAdjusted],
+        new Set(spacedAdjusted.map((n) => n.id))
+      ),
       edges: [...get().edges, ...edges],
       expandShiftMap: {},
     });
@@ -586,12 +767,15 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
 
     const spacedNewNodes = autoSpaceNodes(adjustedNewNodes, BASE_VERTICAL_GAP, get().nodeHeights);
 
-    // 3. Auto-connect new feature/techStack nodes to existing idea node
+    // 3. Auto-connect new feature/techStack nodes to existing idea node, unless already linked
     const existingIdea = updatedNodes.find((n) => n.type === 'idea');
     const autoEdges: SpexlyEdge[] = [];
     if (existingIdea) {
+      const linkedToIdea = new Set(
+        newEdges.flatMap((e) => (e.source === existingIdea.id ? [e.target] : e.target === existingIdea.id ? [e.source] : []))
+      );
       for (const node of spacedNewNodes) {
-        if (node.type === 'feature' || node.type === 'techStack') {
+        if ((node.type === 'feature' || node.type === 'techStack') && !linkedToIdea.has(node.id)) {
           autoEdges.push({
             id: `e-${existingIdea.id}-${node.id}`,
             source: existingIdea.id,
@@ -601,8 +785,11 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       }
     }
 
+    // 4. Resolve dependency names on imported and updated features to node ids
+    const importedIds = new Set([...updates.map((u) => u.nodeId), ...spacedNewNodes.map((n) => n.id)]);
+
     set({
-      nodes: [...updatedNodes, ...spacedNewNodes],
+      nodes: resolveDependencyIds([...updatedNodes, ...spacedNewNodes], importedIds),
       edges: [...get().edges, ...newEdges, ...autoEdges],
       expandShiftMap: {},
     });
@@ -619,8 +806,33 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
       return;
     }
 
-    const aligned = alignByType(JSON.parse(JSON.stringify(nodes)) as SpexlyNode[]);
-    set({ nodes: aligned, edges });
+    const { nodeHeights } = get();
+    const aligned = layoutNodes(nodes, edges, {
+      mode: 'type-columns',
+      nodeIds: getFreeNodeIds(nodes),
+      getHeight: (node) => getNodeHeight(node, nodeHeights),
+    });
+    set({ nodes: aligned, edges, expandShiftMap: {} });
+  },
+
+  applyLayout: (mode, options) => {
+    const { nodes, edges, nodeHeights } = get();
+    // Grouped nodes and group frames keep their positions
+    const freeIds = getFreeNodeIds(nodes);
+    const nodeIds = options?.selectedOnly
+      ? new Set(nodes.filter((n) => n.selected && freeIds.has(n.id)).map((n) => n.id))
+      : freeIds;
+    if (nodeIds.size < (options?.selectedOnly ? 2 : 1)) return;
+
+    get().pushHistory();
+    set({
+      nodes: layoutNodes(nodes, edges, {
+        mode,
+        nodeIds,
+        getHeight: (node) => getNodeHeight(node, nodeHeights),
+      }),
+      expandShiftMap: {},
+    });
   },
 
   setSidebarNodeId: (nodeId) => {
@@ -673,6 +885,10 @@ export const useCanvasStore = create<CanvasState>((set, get) => ({
     });
   },
 
+  setReadOnly: (readOnly) => {
+    set({ readOnly });
+  },
+
   setNodeHeight: (nodeId, height) => {
     const current = get().nodeHeights[nodeId];
     // Prevent unnecessary updates - increase threshold to avoid rapid updates
@@ -0,0 +1,66 @@
+'use client';
+
+import { create } from 'zustand';
+import type { AIChangeset, ResolvedChangeset } from '@/lib/ai/changeset';
+
+export interface ChangesetReviewOptions {
+  /** Called after the accepted changes land on the canvas */
+  onApply?: (resolved: ResolvedChangeset) => void;
+  /** Called when the user discards the changeset, e.g. to stop a stream */
+  onDiscard?: () => void;
+}
+
+export interface QueuedChangeset extends ChangesetReviewOptions {
+  changeset: AIChangeset;
+}
+
+type ChangesetPatch = Partial<Pick<AIChangeset, 'nodeChanges' | 'newNodes' | 'newEdges' | 'pending'>>;
+
+interface ChangesetState {
+  /** Changesets awaiting review; the first one is shown */
+  queue: QueuedChangeset[];
+  enqueue: (entry: QueuedChangeset) => void;
+  update: (id: string, patch: ChangesetPatch) => void;
+  remove: (id: string) => void;
+}
+
+export const useChangesetStore = create<ChangesetState>((set) => ({
+  queue: [],
+
+  enqueue: (entry) => {
+    set((state) => ({ queue: [...state.queue, entry] }));
+  },
+
+  update: (id, patch) => {
+    set((state) => ({
+      queue: state.queue.map((entry) =>
+        entry.changeset.id === id ? { ...entry, changeset: { ...entry.changeset, ...patch } } : entry
+      ),
+    }));
+  },
+
+  remove: (id) => {
+    set((state) => ({ queue: state.queue.filter((entry) => entry.changeset.id !== id) }));
+  },
+}));
+
+/** Convenience helpers */
+export function reviewChangeset(changeset: AIChangeset, options: ChangesetReviewOptions = {}) {
+  useChangesetStore.getState().enqueue({ changeset, ...options });
+}
+
+export function updateChangeset(id: string, patch: ChangesetPatch) {
+  useChangesetStore.getState().update(id, patch);
+}
+
+export function getQueuedChangeset(id: string): AIChangeset | null {
+  return useChangesetStore.getState().queue.find((entry) => entry.changeset.id === id)?.changeset ?? null;
+}
+
+/** Drops a changeset without applying it; onDiscard runs only if it was still queued */
+export function discardChangeset(id: string) {
+  const entry = useChangesetStore.getState().queue.find((e) => e.changeset.id === id);
+  if (!entry) return;
+  useChangesetStore.getState().remove(id);
+  entry.onDiscard?.();
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { create } from 'zustand';
+import type { CursorPosition, FieldConflict, Peer, PeerPresence } from '@/types/collaboration';
+import { useCanvasStore } from './canvasStore';
+
+type FieldBroadcaster = (nodeId: string, fields: Record<string, { value: unknown; base: unknown }>) => void;
+
+interface CollaborationState {
+  /** This browser tab's id on the realtime channel */
+  clientId: string | null;
+  isConnected: boolean;
+  /** Other clients on the same project, keyed by clientId */
+  peers: Record<string, Peer>;
+  conflicts: FieldConflict[];
+  /** Set by useCanvasCollaboration; used to re-send a field when "keep mine" is chosen */
+  broadcastFields: FieldBroadcaster | null;
+  /**
+   * True while a collaborator's (or webhook's) batch is being merged into
+   * canvasStore, so canvas subscribers can tell remote edits from local ones
+   */
+  applyingRemote: boolean;
+
+  setSession: (clientId: string | null, broadcastFields: FieldBroadcaster | null) => void;
+  setConnected: (connected: boolean) => void;
+  setApplyingRemote: (applying: boolean) => void;
+  syncPeers: (presences: PeerPresence[]) => void;
+  updatePeerCursor: (clientId: string, cursor: CursorPosition | null) => void;
+  addConflict: (conflict: Omit<FieldConflict, 'id' | 'detectedAt'>) => void;
+  /** Keep the local value (and push it to peers) or take the remote one */
+  resolveConflict: (conflictId: string, choice: 'mine' | 'theirs') => void;
+  dismissConflictsForNode: (nodeId: string) => void;
+  reset: () => void;
+}
+
+export const useCollaborationStore = create<CollaborationState>((set, get) => ({
+  clientId: null,
+  isConnected: false,
+  peers: {},
+  conflicts: [],
+  broadcastFields: null,
+  applyingRemote: false,
+
+  setSession: (clientId, broadcastFields) => {
+    set({ clientId, broadcastFields });
+  },
+
+  setConnected: (connected) => {
+    set({ isConnected: connected });
+  },
+
+  setApplyingRemote: (applying) => {
+    set({ applyingRemote: applying });
+  },
+
+  syncPeers: (presences) => {
+    const { clientId, peers } = get();
+    const next: Record<string, Peer> = {};
+    for (const presence of presences) {
+      if (presence.clientId === clientId) continue;
+      next[presence.clientId] = {
+        ...presence,
+        cursor: peers[presence.clientId]?.cursor ?? null,
+      };
+    }
+    set({ peers: next });
+  },
+
+  updatePeerCursor: (peerId, cursor) => {
+    const peer = get().peers[peerId];
+    if (!peer) return;
+    set({ peers: { ...get().peers, [peerId]: { ...peer, cursor } } });
+  },
+
+  addConflict: (conflict) => {
+    // One open conflict per node field; newer remote values replace older ones
+    const remaining = get().conflicts.filter(
+      (c) => !(c.nodeId === conflict.nodeId && c.field === conflict.field)
+    );
+    set({
+      conflicts: [
+        ...remaining,
+        {
+          ...conflict,
+          id: `${conflict.nodeId}:${conflict.field}`,
+          detectedAt: Date.now(),
+        },
+      ],
+    });
+  },
+
+  resolveConflict: (conflictId, choice) => {
+    const conflict = get().conflicts.find((c) => c.id === conflictId);
+    if (!conflict) return;
+
+    const canvas = useCanvasStore.getState();
+    const node = canvas.nodes.find((n) => n.id === conflict.nodeId);
+    if (node) {
+      if (choice === 'theirs') {
+        canvas.updateNodeData(conflict.nodeId, { [conflict.field]: conflict.remoteValue });
+      } else {
+        // Peers still hold the remote value; re-send ours with that as the base so it applies cleanly
+        get().broadcastFields?.(conflict.nodeId, {
+          [conflict.field]: {
+            value: (node.data as Record<string, unknown>)[conflict.field],
+            base: conflict.remoteValue,
+          },
+        });
+      }
+    }
+
+    set({ conflicts: get().conflicts.filter((c) => c.id !== conflictId) });
+  },
+
+  dismissConflictsForNode: (nodeId) => {
+    set({ conflicts: get().conflicts.filter((c) => c.nodeId !== nodeId) });
+  },
+
+  reset: () => {
+    set({
+      clientId: null,
+      isConnected: false,
+      peers: {},
+      conflicts: [],
+      broadcastFields: null,
+      applyingRemote: false,
+    });
+  },
+}));
@@ -0,0 +1,117 @@
+'use client';
+
+import { create } from 'zustand';
+import {
+  createMilestone,
+  deleteMilestone,
+  getProjectMilestones,
+  reorderMilestones,
+  updateMilestone,
+  type MilestoneInput,
+} from '@/app/actions/milestones';
+import { sortMilestones } from '@/lib/milestones/milestones';
+import { showError } from '@/store/toastStore';
+import type { ProjectMilestone } from '@/types/project';
+
+interface MilestoneState {
+  /** Milestones of the current project, in release order */
+  milestones: ProjectMilestone[];
+  projectId: string | null;
+  loading: boolean;
+  error: string | null;
+
+  loadMilestones: (projectId: string) => Promise<void>;
+  clearMilestones: () => void;
+  /** Mutations show an error toast and resolve to null/false when the server rejects them */
+  addMilestone: (input: MilestoneInput) => Promise<ProjectMilestone | null>;
+  editMilestone: (milestoneId: string, updates: Partial<MilestoneInput>) => Promise<boolean>;
+  removeMilestone: (milestoneId: string) => Promise<boolean>;
+  /** Moves a milestone one place earlier (-1) or later (+1) in the release order */
+  moveMilestone: (milestoneId: string, direction: -1 | 1) => Promise<boolean>;
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+export const useMilestoneStore = create<MilestoneState>((set, get) => ({
+  milestones: [],
+  projectId: null,
+  loading: false,
+  error: null,
+
+  loadMilestones: async (projectId) => {
+    // Never show another project's milestones while loading
+    const switching = get().projectId !== projectId;
+    set({ loading: true, error: null, projectId, ...(switching ? { milestones: [] } : {}) });
+    try {
+      const milestones = await getProjectMilestones(projectId);
+      // Ignore a response for a project we have since navigated away from
+      if (get().projectId !== projectId) return;
+      set({ milestones: sortMilestones(milestones), loading: false });
+    } catch (error) {
+      set({ error: getErrorMessage(error, 'Failed to load milestones.'), loading: false });
+    }
+  },
+
+  clearMilestones: () => {
+    set({ milestones: [], projectId: null, loading: false, error: null });
+  },
+
+  addMilestone: async (input) => {
+    const { projectId } = get();
+    if (!projectId) return null;
+    try {
+      const milestone = await createMilestone(projectId, input);
+      set({ milestones: sortMilestones([...get().milestones, milestone]) });
+      return milestone;
+    } catch (error) {
+      showError(getErrorMessage(error, 'Failed to create milestone.'));
+      return null;
+    }
+  },
+
+  editMilestone: async (milestoneId, updates) => {
+    try {
+      const updated = await updateMilestone(milestoneId, updates);
+      set({ milestones: get().milestones.map((m) => (m.id === milestoneId ? updated : m)) });
+      return true;
+    } catch (error) {
+      showError(getErrorMessage(error, 'Failed to update milestone.'));
+      return false;
+    }
+  },
+
+  removeMilestone: async (milestoneId) => {
+    try {
+      await deleteMilestone(milestoneId);
+      set({ milestones: get().milestones.filter((m) => m.id !== milestoneId) });
+      return true;
+    } catch (error) {
+      showError(getErrorMessage(error, 'Failed to delete milestone.'));
+      return false;
+    }
+  },
+
+  moveMilestone: async (milestoneId, direction) => {
+    const { projectId, milestones } = get();
+    const index = milestones.findIndex((m) => m.id === milestoneId);
+    const target = index + direction;
+    if (!projectId || index < 0 || target < 0 || target >= milestones.length) return false;
+
+    const reordered = [...milestones];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    // Optimistic: show the new order right away, roll back on failure
+    set({ milestones: reordered.map((m, position) => ({ ...m, position })) });
+
+    try {
+      const saved = await reorderMilestones(projectId, reordered.map((m) => m.id));
+      set({ milestones: sortMilestones(saved) });
+      return true;
+    } catch (error) {
+      set({ milestones });
+      showError(getErrorMessage(error, 'Failed to reorder milestones.'));
+      return false;
+    }
+  },
+}));
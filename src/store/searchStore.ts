@@ -0,0 +1,38 @@
+'use client';
+
+import { create } from 'zustand';
+import { EMPTY_SEARCH_FILTER, type CanvasSearchFilter } from '@/lib/search/canvasSearch';
+
+interface SearchState {
+  isOpen: boolean;
+  filter: CanvasSearchFilter;
+  /** Nodes matching an active filter; null when no filter is active (nothing dimmed) */
+  matchIds: Set<string> | null;
+
+  setOpen: (open: boolean) => void;
+  setFilter: (filter: Partial<CanvasSearchFilter>) => void;
+  setMatchIds: (matchIds: Set<string> | null) => void;
+  resetFilter: () => void;
+}
+
+export const useSearchStore = create<SearchState>((set, get) => ({
+  isOpen: false,
+  filter: EMPTY_SEARCH_FILTER,
+  matchIds: null,
+
+  setOpen: (open) => {
+    set({ isOpen: open });
+  },
+
+  setFilter: (filter) => {
+    set({ filter: { ...get().filter, ...filter } });
+  },
+
+  setMatchIds: (matchIds) => {
+    set({ matchIds });
+  },
+
+  resetFilter: () => {
+    set({ filter: EMPTY_SEARCH_FILTER, matchIds: null });
+  },
+}));
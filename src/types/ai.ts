@@ -0,0 +1,123 @@
+/** Backends every AI feature can run against */
+export type LLMProviderId = 'openai' | 'anthropic' | 'local';
+
+/** AI features that can each be pointed at their own provider and model */
+export type AIOperation = 'import' | 'importDetails' | 'enhance' | 'wizard' | 'breakdown' | 'plan' | 'specFix' | 'chat';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  /** Hint that this (large, repeated) block may be cached by providers that support it */
+  cache?: boolean;
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  /** Ask for a single JSON object as the whole response */
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResult {
+  text: string;
+  provider: LLMProviderId;
+  model: string;
+  usage: LLMUsage | null;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  /** Whether the backend can enforce JSON output natively (otherwise it is asked to in the prompt) */
+  supportsJsonMode: boolean;
+  complete: (request: LLMRequest) => Promise<LLMResult>;
+  /** Same as complete, reporting text deltas as they arrive; providers without it fall back to complete */
+  stream?: (request: LLMRequest, onText: (delta: string) => void) => Promise<LLMResult>;
+}
+
+/** What the settings UI shows: the saved preference and which providers this server can use */
+export interface AIProviderSettings {
+  preference: LLMProviderId | null;
+  available: LLMProviderId[];
+  defaultProvider: LLMProviderId;
+}
+
+/** Subscription tier from profiles.tier; sets the monthly AI budget */
+export type UserTier = 'free' | 'pro';
+
+/** One row of ai_usage_events */
+export interface AIUsageEvent {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  operation: AIOperation;
+  provider: LLMProviderId;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  /** NUMERIC column; may arrive as a string */
+  cost_usd: number | string;
+  created_at: string;
+}
+
+/** Month-to-date spend for the usage page */
+export interface AIUsageSummary {
+  tier: UserTier;
+  budgetUsd: number;
+  totalCostUsd: number;
+  totalCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** name is null when the project was deleted or is no longer visible to the user */
+  byProject: { projectId: string | null; name: string | null; calls: number; costUsd: number }[];
+  byOperation: {
+    operation: AIOperation;
+    label: string;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+  }[];
+}
+
+export type ImportStage = 'analyzing' | 'detailing' | 'building';
+
+export interface ImportProgress {
+  stage: ImportStage;
+  /** Features and screens found so far */
+  features: number;
+  screens: number;
+}
+
+export interface ImportProgressHooks {
+  onProgress?: (progress: ImportProgress) => void;
+  signal?: AbortSignal;
+}
+
+/** Events streamed by /api/ai/enhance; `partial` data is the raw, possibly incomplete model output */
+export type EnhanceStreamEvent =
+  | { type: 'partial'; data: Record<string, unknown> }
+  | { type: 'done'; data: Record<string, unknown> }
+  | { type: 'error'; error: string };
+
+/** Events streamed by /api/ai/enhance/batch, one node-* sequence per node */
+export type BatchEnhanceStreamEvent =
+  | { type: 'node-start'; nodeId: string }
+  | { type: 'node-partial'; nodeId: string; data: Record<string, unknown> }
+  | { type: 'node-done'; nodeId: string; data: Record<string, unknown> }
+  | { type: 'node-error'; nodeId: string; error: string }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+/** Events streamed by /api/ai/import */
+export type ImportStreamEvent<TResult> =
+  | ({ type: 'progress' } & ImportProgress)
+  | { type: 'done'; result: TResult }
+  | { type: 'error'; error: string };
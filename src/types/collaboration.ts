@@ -0,0 +1,56 @@
+import type { SpexlyNode, SpexlyEdge, EdgeKind } from './nodes';
+
+/** A single field edit: the new value plus the value it replaced (for 3-way merges) */
+export interface FieldEdit {
+  value: unknown;
+  base: unknown;
+}
+
+/** Per-node / per-edge changes broadcast between clients editing the same canvas */
+export type CanvasChange =
+  | { kind: 'node-add'; node: SpexlyNode }
+  | { kind: 'node-remove'; nodeId: string }
+  /** `parentId` is present only when the node moved into (id) or out of (null) a group */
+  | { kind: 'node-move'; nodeId: string; position: { x: number; y: number }; parentId?: string | null }
+  | { kind: 'node-resize'; nodeId: string; width: number; height: number }
+  | { kind: 'node-data'; nodeId: string; fields: Record<string, FieldEdit> }
+  | { kind: 'edge-add'; edge: SpexlyEdge }
+  | { kind: 'edge-remove'; edgeId: string }
+  | { kind: 'edge-kind'; edgeId: string; edgeKind: EdgeKind };
+
+/** Envelope sent over the realtime channel */
+export interface CanvasChangeBatch {
+  clientId: string;
+  timestamp: number;
+  changes: CanvasChange[];
+}
+
+export interface CursorPosition {
+  x: number;
+  y: number;
+}
+
+/** Presence payload tracked by each connected client */
+export interface PeerPresence {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  /** Node the peer has open in the sidebar or selected */
+  activeNodeId: string | null;
+}
+
+export interface Peer extends PeerPresence {
+  cursor: CursorPosition | null;
+}
+
+/** Two clients edited the same text field concurrently; local value was kept */
+export interface FieldConflict {
+  id: string;
+  nodeId: string;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  remoteName: string;
+  detectedAt: number;
+}
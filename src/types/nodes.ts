@@ -1,7 +1,7 @@
 import { type Node, type Edge } from '@xyflow/react';
 
 // Node type discriminator
-export type SpexlyNodeType = 'idea' | 'feature' | 'screen' | 'techStack' | 'prompt' | 'note';
+export type SpexlyNodeType = 'idea' | 'feature' | 'screen' | 'techStack' | 'prompt' | 'note' | 'group';
 
 // Feature-specific enums
 export type FeaturePriority = 'Must' | 'Should' | 'Nice';
@@ -40,7 +40,12 @@ export interface FeatureNodeData {
   priority: FeaturePriority;
   status: FeatureStatus;
   effort: FeatureEffort;
+  /** Free-text names of features this one depends on */
   dependencies: string[];
+  /** Feature node ids the names were resolved to (absent on older canvases) */
+  dependencyIds?: string[];
+  /** Milestone (release) this feature is planned for; absent or null when unscheduled */
+  milestoneId?: string | null;
   risks: string;
   metrics: string;
   notes: string;
@@ -53,12 +58,76 @@ export interface FeatureNodeData {
   testingRequirements: string;
   relatedFiles: string[];
   technicalConstraints: string;
+  /** Ordered, checkable plan from "Plan this feature"; absent until one is generated */
+  implementationPlan?: FeaturePlanStep[];
+  /** Linear issue the feature was exported to; absent until exported */
+  linearIssue?: LinearIssueLink | null;
+  /** GitHub issue the feature is synced to; absent until synced */
+  githubIssue?: GitHubIssueLink | null;
+  /** Jira issue the feature was exported to; absent until exported */
+  jiraIssue?: JiraIssueLink | null;
   // Metadata
   tags: string[];
   estimatedHours: number | null;
   version: number;
 }
 
+/** Workflow state categories Linear groups every team state into */
+export type LinearStateType = 'triage' | 'backlog' | 'unstarted' | 'started' | 'completed' | 'canceled';
+
+export interface LinearIssueLink {
+  id: string;
+  /** Human-readable key, e.g. "ENG-42" */
+  identifier: string;
+  url: string;
+  teamId: string;
+  /** State category last seen in Linear, used to skip no-op status pushes */
+  stateType: LinearStateType;
+}
+
+export type GitHubIssueState = 'open' | 'closed';
+
+export interface GitHubIssueLink {
+  /** GraphQL node id, used to add the issue to a project */
+  id: string;
+  number: number;
+  /** "owner/name" */
+  repo: string;
+  url: string;
+  /** Open/closed state last seen on GitHub */
+  state: GitHubIssueState;
+  /** Item id in the GitHub Project the issue was added to, if any */
+  projectItemId: string | null;
+}
+
+/** Status categories Jira groups every workflow status into */
+export type JiraStatusCategory = 'new' | 'indeterminate' | 'done';
+
+export interface JiraIssueLink {
+  id: string;
+  /** Human-readable key, e.g. "APP-12" */
+  key: string;
+  url: string;
+  /** Status category last seen in Jira */
+  statusCategory: JiraStatusCategory;
+  /** Child issues created from acceptance criteria and implementation steps */
+  childCount: number;
+}
+
+/** One step of a feature's implementation plan */
+export interface FeaturePlanStep {
+  id: string;
+  title: string;
+  details: string;
+  /** Paths to create or modify */
+  files: string[];
+  testCases: string[];
+  estimatedHours: number;
+  done: boolean;
+  /** task_items row the step was pushed to */
+  taskId?: string;
+}
+
 export interface ScreenNodeData {
   [key: string]: unknown;
   screenName: string;
@@ -70,6 +139,8 @@ export interface ScreenNodeData {
   dataSources: string[];
   wireframeUrl: string;
   notes: string;
+  /** Milestone (release) this screen is planned for; absent or null when unscheduled */
+  milestoneId?: string | null;
   expanded: boolean;
   completed: boolean;
   // AI Context Fields
@@ -101,6 +172,25 @@ export interface TechStackNodeData {
   estimatedHours: number | null;
 }
 
+export type PromptRunOutcome = 'worked' | 'partial' | 'failed';
+
+/** One execution of a prompt, snapshotted when it was run */
+export interface PromptRun {
+  id: string;
+  /** 1-based, increasing per prompt node */
+  version: number;
+  promptText: string;
+  targetTool: TargetTool;
+  /** ISO timestamp */
+  ranAt: string;
+  /** Null until the run is rated */
+  outcome: PromptRunOutcome | null;
+  /** What the tool produced, pasted back */
+  output: string;
+  /** Follow-up prompt sent to correct or extend the result */
+  refinement: string;
+}
+
 export interface PromptNodeData {
   [key: string]: unknown;
   promptText: string;
@@ -114,6 +204,8 @@ export interface PromptNodeData {
   actualOutput: string;
   refinements: string[];
   breakdown: string[];
+  /** Execution history, oldest first */
+  runs?: PromptRun[];
   // Metadata
   tags: string[];
   estimatedHours: number | null;
@@ -131,6 +223,22 @@ export interface NoteNodeData {
   estimatedHours: number | null;
 }
 
+// Frame that contains other nodes. Children reference it via `parentId` and
+// store positions relative to it; the frame's size lives on node.width/height.
+export interface GroupNodeData {
+  [key: string]: unknown;
+  label: string;
+  description: string;
+  collapsed: boolean;
+  /** Frame height to restore when a collapsed group is expanded again */
+  expandedHeight: number | null;
+  expanded: boolean;
+  completed: boolean;
+  // Metadata
+  tags: string[];
+  estimatedHours: number | null;
+}
+
 // Union of all data types
 export type SpexlyNodeData =
   | IdeaNodeData
@@ -138,7 +246,8 @@ export type SpexlyNodeData =
   | ScreenNodeData
   | TechStackNodeData
   | PromptNodeData
-  | NoteNodeData;
+  | NoteNodeData
+  | GroupNodeData;
 
 // Typed node definitions for React Flow
 export type IdeaNode = Node<IdeaNodeData, 'idea'>;
@@ -147,12 +256,23 @@ export type ScreenNode = Node<ScreenNodeData, 'screen'>;
 export type TechStackNode = Node<TechStackNodeData, 'techStack'>;
 export type PromptNode = Node<PromptNodeData, 'prompt'>;
 export type NoteNode = Node<NoteNodeData, 'note'>;
+export type GroupNode = Node<GroupNodeData, 'group'>;
 
 // App-wide union node type
-export type SpexlyNode = IdeaNode | FeatureNode | ScreenNode | TechStackNode | PromptNode | NoteNode;
+export type SpexlyNode = IdeaNode | FeatureNode | ScreenNode | TechStackNode | PromptNode | NoteNode | GroupNode;
+
+// Edge kinds — read source → target ("Checkout depends on Auth")
+export type EdgeKind = 'relates-to' | 'depends-on' | 'implements' | 'renders' | 'uses-tech' | 'blocks';
+
+export interface SpexlyEdgeData extends Record<string, unknown> {
+  kind: EdgeKind;
+}
+
+// Edge type. Edges saved before kinds existed have no data and read as 'relates-to'.
+export type SpexlyEdge = Edge<SpexlyEdgeData>;
 
-// Edge type
-export type SpexlyEdge = Edge;
+// Automatic layout strategies offered in the toolbar
+export type LayoutMode = 'type-columns' | 'dependency-flow' | 'feature-clusters';
 
 // History state for undo/redo
 export interface HistoryEntry {
@@ -196,6 +316,8 @@ export interface SmartImportSummary {
 /** Full return type from smartImportDocument */
 export interface SmartImportResult {
   updates: NodeFieldUpdate[];
+  /** AI values for fields matched nodes already have, offered for review but not preselected */
+  suggestions: NodeFieldUpdate[];
   newNodes: SpexlyNode[];
   newEdges: SpexlyEdge[];
   summary: SmartImportSummary;
@@ -8,8 +8,61 @@ export interface CanvasData {
 export interface Project {
   id: string;
   user_id: string;
+  workspace_id: string;
   name: string;
   canvas_data: CanvasData;
   created_at: string;
   updated_at: string;
 }
+
+export type CanvasSnapshotKind = 'auto' | 'manual';
+
+/** Lightweight snapshot row for history lists (canvas_data omitted) */
+export interface CanvasSnapshotSummary {
+  id: string;
+  project_id: string;
+  name: string | null;
+  kind: CanvasSnapshotKind;
+  node_count: number;
+  edge_count: number;
+  created_at: string;
+}
+
+export interface CanvasSnapshot extends CanvasSnapshotSummary {
+  user_id: string;
+  canvas_data: CanvasData;
+}
+
+/** Revocable read-only public link to a project canvas */
+export interface ProjectShareLink {
+  id: string;
+  project_id: string;
+  created_by: string | null;
+  token: string;
+  hide_notes: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_viewed_at: string | null;
+  view_count: number;
+  created_at: string;
+}
+
+/** Canvas payload served to anonymous viewers of a share link */
+export interface SharedCanvas {
+  projectName: string;
+  canvasData: CanvasData;
+  updatedAt: string;
+}
+
+/** An ordered release ("v1", "Beta") that features and screens are planned into */
+export interface ProjectMilestone {
+  id: string;
+  project_id: string;
+  created_by: string | null;
+  name: string;
+  /** Calendar date (YYYY-MM-DD), no time zone */
+  target_date: string | null;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
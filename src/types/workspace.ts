@@ -0,0 +1,45 @@
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+/** Roles that can be granted through an invitation (ownership is transferred, not invited) */
+export type InvitableWorkspaceRole = Exclude<WorkspaceRole, 'owner'>;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  is_personal: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A workspace as seen by the current user */
+export interface WorkspaceWithRole extends Workspace {
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  workspace_name: string;
+  email: string;
+  role: InvitableWorkspaceRole;
+  token: string;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+/** An open invitation addressed to the current user */
+export type PendingInvitation = Pick<
+  WorkspaceInvitation,
+  'id' | 'token' | 'workspace_id' | 'workspace_name' | 'role' | 'expires_at'
+>;
@@ -0,0 +1,51 @@
+-- Canvas version history:
+-- 1) auto snapshots captured periodically on canvas save
+-- 2) manual, user-named checkpoints
+
+CREATE TABLE IF NOT EXISTS public.canvas_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT,
+  kind TEXT NOT NULL DEFAULT 'auto' CHECK (kind IN ('auto', 'manual')),
+  canvas_data JSONB NOT NULL,
+  node_count INTEGER NOT NULL DEFAULT 0,
+  edge_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_canvas_snapshots_project_created
+  ON public.canvas_snapshots(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_canvas_snapshots_project_kind
+  ON public.canvas_snapshots(project_id, kind, created_at DESC);
+
+ALTER TABLE public.canvas_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own canvas snapshots" ON public.canvas_snapshots;
+CREATE POLICY "Users can view own canvas snapshots"
+ON public.canvas_snapshots FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own canvas snapshots" ON public.canvas_snapshots;
+CREATE POLICY "Users can insert own canvas snapshots"
+ON public.canvas_snapshots FOR INSERT TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = project_id AND p.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can update own canvas snapshots" ON public.canvas_snapshots;
+CREATE POLICY "Users can update own canvas snapshots"
+ON public.canvas_snapshots FOR UPDATE TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own canvas snapshots" ON public.canvas_snapshots;
+CREATE POLICY "Users can delete own canvas snapshots"
+ON public.canvas_snapshots FOR DELETE TO authenticated
+USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.canvas_snapshots IS 'Point-in-time copies of project canvas_data for version history and restore.';
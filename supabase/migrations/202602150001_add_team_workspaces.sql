@@ -0,0 +1,464 @@
+-- Team workspaces:
+-- 1) workspaces own projects; every user gets a personal workspace
+-- 2) workspace_members grants owner/editor/viewer roles
+-- 3) workspace_invitations lets owners invite collaborators by email
+-- RLS on projects, task_items, user_templates and canvas_snapshots moves from
+-- "auth.uid() = user_id" to workspace membership checks.
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  is_personal BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one personal workspace per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspaces_personal_owner
+  ON public.workspaces(created_by) WHERE is_personal;
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Lowercased, so member lookups by email are exact matches
+  email TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON public.workspace_members(user_id);
+
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  -- Copied at invite time: invitees cannot read the workspace row until they join
+  workspace_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  email_normalized TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  token TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One open invitation per email per workspace
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspace_invitations_open_email
+  ON public.workspace_invitations(workspace_id, email_normalized) WHERE accepted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_email
+  ON public.workspace_invitations(email_normalized);
+
+-- Projects move into workspaces (backfilled and made NOT NULL below)
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+-- Role helpers. SECURITY DEFINER so policies can consult workspace_members
+-- without recursing through its own RLS.
+CREATE OR REPLACE FUNCTION public.workspace_role_rank(role TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE role
+    WHEN 'owner' THEN 3
+    WHEN 'editor' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.has_workspace_role(target_workspace UUID, min_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members m
+    WHERE m.workspace_id = target_workspace
+      AND m.user_id = auth.uid()
+      AND public.workspace_role_rank(m.role) >= public.workspace_role_rank(min_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_project_role(target_project UUID, min_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    JOIN public.workspace_members m ON m.workspace_id = p.workspace_id
+    WHERE p.id = target_project
+      AND m.user_id = auth.uid()
+      AND public.workspace_role_rank(m.role) >= public.workspace_role_rank(min_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The creator of a workspace always becomes its first owner
+CREATE OR REPLACE FUNCTION public.add_workspace_creator_as_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, email, role)
+  SELECT NEW.id, NEW.created_by, lower(u.email), 'owner'
+  FROM auth.users u
+  WHERE u.id = NEW.created_by
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS workspaces_add_creator ON public.workspaces;
+CREATE TRIGGER workspaces_add_creator
+AFTER INSERT ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.add_workspace_creator_as_owner();
+
+-- Creates a workspace for the signed-in user and returns it. Only members
+-- can read workspaces and the creator becomes one in the trigger above, which
+-- runs after the insert's RETURNING is checked against the SELECT policy, so
+-- this runs as SECURITY DEFINER. A personal workspace is only created once.
+CREATE OR REPLACE FUNCTION public.create_workspace(workspace_name TEXT, personal BOOLEAN DEFAULT FALSE)
+RETURNS public.workspaces AS $$
+DECLARE
+  created public.workspaces%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '28000';
+  END IF;
+
+  INSERT INTO public.workspaces (name, is_personal, created_by)
+  VALUES (workspace_name, personal, auth.uid())
+  ON CONFLICT (created_by) WHERE is_personal DO NOTHING
+  RETURNING * INTO created;
+
+  IF NOT FOUND THEN
+    SELECT * INTO created FROM public.workspaces
+    WHERE created_by = auth.uid() AND is_personal;
+  END IF;
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_workspaces_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS workspaces_updated_at ON public.workspaces;
+CREATE TRIGGER workspaces_updated_at
+BEFORE UPDATE ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.update_workspaces_updated_at();
+
+-- Memberships can only change role; moving one to another user or workspace
+-- would let an owner grant themselves access elsewhere
+CREATE OR REPLACE FUNCTION public.restrict_workspace_member_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only a member''s role can be changed' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS workspace_members_restrict_update ON public.workspace_members;
+CREATE TRIGGER workspace_members_restrict_update
+BEFORE UPDATE ON public.workspace_members
+FOR EACH ROW
+EXECUTE FUNCTION public.restrict_workspace_member_update();
+
+-- A workspace always keeps an owner: the last one can't leave, be removed or
+-- be demoted. Locking the workspace row serializes concurrent changes; when
+-- it is gone the workspace itself is being deleted and its members go with it.
+CREATE OR REPLACE FUNCTION public.keep_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  PERFORM 1 FROM public.workspaces WHERE id = OLD.workspace_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Deleting the account removes its memberships regardless
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users u WHERE u.id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.workspace_members m
+    WHERE m.workspace_id = OLD.workspace_id
+      AND m.user_id <> OLD.user_id
+      AND m.role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS workspace_members_keep_owner ON public.workspace_members;
+CREATE TRIGGER workspace_members_keep_owner
+BEFORE UPDATE OR DELETE ON public.workspace_members
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_workspace_owner();
+
+-- Accepts an invitation for the signed-in user. The invitee is not a member
+-- yet, so this runs as SECURITY DEFINER and checks the email itself.
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(invite_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invite public.workspace_invitations%ROWTYPE;
+  caller_email TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO invite FROM public.workspace_invitations
+  WHERE token = invite_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR invite.accepted_at IS NOT NULL OR invite.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Invitation is invalid or has expired' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT lower(u.email) INTO caller_email FROM auth.users u WHERE u.id = auth.uid();
+  IF caller_email IS DISTINCT FROM invite.email_normalized THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address' USING ERRCODE = '42501';
+  END IF;
+
+  -- Accepting never downgrades an existing membership
+  INSERT INTO public.workspace_members (workspace_id, user_id, email, role)
+  VALUES (invite.workspace_id, auth.uid(), invite.email_normalized, invite.role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE
+    SET role = CASE
+      WHEN public.workspace_role_rank(EXCLUDED.role) > public.workspace_role_rank(public.workspace_members.role)
+        THEN EXCLUDED.role
+      ELSE public.workspace_members.role
+    END;
+
+  UPDATE public.workspace_invitations
+  SET accepted_at = NOW(), accepted_by = auth.uid()
+  WHERE id = invite.id;
+
+  RETURN invite.workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill: every existing project owner gets a personal workspace holding their projects
+INSERT INTO public.workspaces (name, is_personal, created_by)
+SELECT 'Personal', TRUE, owners.user_id
+FROM (SELECT DISTINCT user_id FROM public.projects) owners
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.workspaces w WHERE w.created_by = owners.user_id AND w.is_personal
+);
+
+UPDATE public.projects p
+SET workspace_id = w.id
+FROM public.workspaces w
+WHERE p.workspace_id IS NULL AND w.created_by = p.user_id AND w.is_personal;
+
+ALTER TABLE public.projects ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_workspace_id ON public.projects(workspace_id);
+
+ALTER TABLE public.user_templates
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_user_templates_workspace_id ON public.user_templates(workspace_id);
+
+-- Workspace policies
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view workspaces" ON public.workspaces;
+CREATE POLICY "Members can view workspaces"
+ON public.workspaces FOR SELECT TO authenticated
+USING (public.has_workspace_role(id, 'viewer'));
+
+DROP POLICY IF EXISTS "Users can create workspaces" ON public.workspaces;
+CREATE POLICY "Users can create workspaces"
+ON public.workspaces FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = created_by);
+
+DROP POLICY IF EXISTS "Owners can update workspaces" ON public.workspaces;
+CREATE POLICY "Owners can update workspaces"
+ON public.workspaces FOR UPDATE TO authenticated
+USING (public.has_workspace_role(id, 'owner'))
+WITH CHECK (public.has_workspace_role(id, 'owner'));
+
+DROP POLICY IF EXISTS "Owners can delete team workspaces" ON public.workspaces;
+CREATE POLICY "Owners can delete team workspaces"
+ON public.workspaces FOR DELETE TO authenticated
+USING (public.has_workspace_role(id, 'owner') AND NOT is_personal);
+
+DROP POLICY IF EXISTS "Members can view workspace members" ON public.workspace_members;
+CREATE POLICY "Members can view workspace members"
+ON public.workspace_members FOR SELECT TO authenticated
+USING (public.has_workspace_role(workspace_id, 'viewer'));
+
+-- Only the role can change (see restrict_workspace_member_update)
+DROP POLICY IF EXISTS "Owners can update workspace members" ON public.workspace_members;
+CREATE POLICY "Owners can update workspace members"
+ON public.workspace_members FOR UPDATE TO authenticated
+USING (public.has_workspace_role(workspace_id, 'owner'))
+WITH CHECK (public.has_workspace_role(workspace_id, 'owner'));
+
+-- The last owner is kept by keep_workspace_owner
+DROP POLICY IF EXISTS "Owners can remove members and members can leave" ON public.workspace_members;
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.workspace_members FOR DELETE TO authenticated
+USING (public.has_workspace_role(workspace_id, 'owner') OR auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Owners and invitees can view invitations" ON public.workspace_invitations;
+CREATE POLICY "Owners and invitees can view invitations"
+ON public.workspace_invitations FOR SELECT TO authenticated
+USING (
+  public.has_workspace_role(workspace_id, 'owner')
+  OR email_normalized = lower(auth.jwt() ->> 'email')
+);
+
+DROP POLICY IF EXISTS "Owners can create invitations" ON public.workspace_invitations;
+CREATE POLICY "Owners can create invitations"
+ON public.workspace_invitations FOR INSERT TO authenticated
+WITH CHECK (public.has_workspace_role(workspace_id, 'owner') AND auth.uid() = invited_by);
+
+DROP POLICY IF EXISTS "Owners can revoke invitations" ON public.workspace_invitations;
+CREATE POLICY "Owners can revoke invitations"
+ON public.workspace_invitations FOR DELETE TO authenticated
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+-- Projects: viewers read, editors write, owners delete
+DROP POLICY IF EXISTS "Users can view own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can create own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can update own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can delete own projects" ON public.projects;
+
+DROP POLICY IF EXISTS "Members can view workspace projects" ON public.projects;
+CREATE POLICY "Members can view workspace projects"
+ON public.projects FOR SELECT TO authenticated
+USING (public.has_workspace_role(workspace_id, 'viewer'));
+
+DROP POLICY IF EXISTS "Editors can create workspace projects" ON public.projects;
+CREATE POLICY "Editors can create workspace projects"
+ON public.projects FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can update workspace projects" ON public.projects;
+CREATE POLICY "Editors can update workspace projects"
+ON public.projects FOR UPDATE TO authenticated
+USING (public.has_workspace_role(workspace_id, 'editor'))
+WITH CHECK (public.has_workspace_role(workspace_id, 'editor'));
+
+DROP POLICY IF EXISTS "Owners can delete workspace projects" ON public.projects;
+CREATE POLICY "Owners can delete workspace projects"
+ON public.projects FOR DELETE TO authenticated
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+-- Task items follow their project's workspace
+DROP POLICY IF EXISTS "Users can view own task items" ON public.task_items;
+DROP POLICY IF EXISTS "Users can insert own task items" ON public.task_items;
+DROP POLICY IF EXISTS "Users can update own task items" ON public.task_items;
+DROP POLICY IF EXISTS "Users can delete own task items" ON public.task_items;
+
+DROP POLICY IF EXISTS "Members can view project task items" ON public.task_items;
+CREATE POLICY "Members can view project task items"
+ON public.task_items FOR SELECT TO authenticated
+USING (public.has_project_role(project_id, 'viewer'));
+
+DROP POLICY IF EXISTS "Editors can insert project task items" ON public.task_items;
+CREATE POLICY "Editors can insert project task items"
+ON public.task_items FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can update project task items" ON public.task_items;
+CREATE POLICY "Editors can update project task items"
+ON public.task_items FOR UPDATE TO authenticated
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete project task items" ON public.task_items;
+CREATE POLICY "Editors can delete project task items"
+ON public.task_items FOR DELETE TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+-- Templates stay personal unless saved to a workspace
+DROP POLICY IF EXISTS "Users can view own templates" ON public.user_templates;
+DROP POLICY IF EXISTS "Users can insert own templates" ON public.user_templates;
+DROP POLICY IF EXISTS "Users can update own templates" ON public.user_templates;
+DROP POLICY IF EXISTS "Users can delete own templates" ON public.user_templates;
+
+DROP POLICY IF EXISTS "Users can view own and workspace templates" ON public.user_templates;
+CREATE POLICY "Users can view own and workspace templates"
+ON public.user_templates FOR SELECT TO authenticated
+USING (
+  auth.uid() = user_id
+  OR (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, 'viewer'))
+);
+
+DROP POLICY IF EXISTS "Users can insert own and workspace templates" ON public.user_templates;
+CREATE POLICY "Users can insert own and workspace templates"
+ON public.user_templates FOR INSERT TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND (workspace_id IS NULL OR public.has_workspace_role(workspace_id, 'editor'))
+);
+
+DROP POLICY IF EXISTS "Users can update own and workspace templates" ON public.user_templates;
+CREATE POLICY "Users can update own and workspace templates"
+ON public.user_templates FOR UPDATE TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, 'editor'))
+)
+WITH CHECK (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, 'editor'))
+);
+
+DROP POLICY IF EXISTS "Users can delete own and workspace templates" ON public.user_templates;
+CREATE POLICY "Users can delete own and workspace templates"
+ON public.user_templates FOR DELETE TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, 'editor'))
+);
+
+-- Version history follows the project as well
+DROP POLICY IF EXISTS "Users can view own canvas snapshots" ON public.canvas_snapshots;
+DROP POLICY IF EXISTS "Users can insert own canvas snapshots" ON public.canvas_snapshots;
+DROP POLICY IF EXISTS "Users can update own canvas snapshots" ON public.canvas_snapshots;
+DROP POLICY IF EXISTS "Users can delete own canvas snapshots" ON public.canvas_snapshots;
+
+DROP POLICY IF EXISTS "Members can view project snapshots" ON public.canvas_snapshots;
+CREATE POLICY "Members can view project snapshots"
+ON public.canvas_snapshots FOR SELECT TO authenticated
+USING (public.has_project_role(project_id, 'viewer'));
+
+DROP POLICY IF EXISTS "Editors can insert project snapshots" ON public.canvas_snapshots;
+CREATE POLICY "Editors can insert project snapshots"
+ON public.canvas_snapshots FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can update project snapshots" ON public.canvas_snapshots;
+CREATE POLICY "Editors can update project snapshots"
+ON public.canvas_snapshots FOR UPDATE TO authenticated
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete project snapshots" ON public.canvas_snapshots;
+CREATE POLICY "Editors can delete project snapshots"
+ON public.canvas_snapshots FOR DELETE TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+COMMENT ON TABLE public.workspaces IS 'Team or personal containers that own projects.';
+COMMENT ON TABLE public.workspace_members IS 'Workspace membership with owner/editor/viewer roles.';
+COMMENT ON TABLE public.workspace_invitations IS 'Pending email invitations to join a workspace.';
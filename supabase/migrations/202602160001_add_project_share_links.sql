@@ -0,0 +1,112 @@
+-- Read-only public share links:
+-- 1) project_share_links: revocable, optionally expiring tokens per project
+-- 2) get_shared_canvas(): token lookup for anonymous viewers, with hidden notes removed
+
+CREATE TABLE IF NOT EXISTS public.project_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  token TEXT NOT NULL UNIQUE,
+  hide_notes BOOLEAN NOT NULL DEFAULT FALSE,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  last_viewed_at TIMESTAMPTZ,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_share_links_project
+  ON public.project_share_links(project_id, created_at DESC);
+
+ALTER TABLE public.project_share_links ENABLE ROW LEVEL SECURITY;
+
+-- Only project editors manage links; anonymous access goes through get_shared_canvas()
+DROP POLICY IF EXISTS "Editors can view project share links" ON public.project_share_links;
+CREATE POLICY "Editors can view project share links"
+ON public.project_share_links FOR SELECT TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can create project share links" ON public.project_share_links;
+CREATE POLICY "Editors can create project share links"
+ON public.project_share_links FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = created_by AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can update project share links" ON public.project_share_links;
+CREATE POLICY "Editors can update project share links"
+ON public.project_share_links FOR UPDATE TO authenticated
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete project share links" ON public.project_share_links;
+CREATE POLICY "Editors can delete project share links"
+ON public.project_share_links FOR DELETE TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+-- Drops note nodes, and the edges touching them, from canvas data
+CREATE OR REPLACE FUNCTION public.strip_canvas_notes(canvas JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  kept_nodes JSONB;
+  kept_ids TEXT[];
+  kept_edges JSONB;
+BEGIN
+  IF jsonb_typeof(canvas -> 'nodes') IS DISTINCT FROM 'array' THEN
+    RETURN canvas;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(n ORDER BY ord), '[]'::jsonb), COALESCE(array_agg(n ->> 'id'), '{}')
+  INTO kept_nodes, kept_ids
+  FROM jsonb_array_elements(canvas -> 'nodes') WITH ORDINALITY AS t(n, ord)
+  WHERE n ->> 'type' IS DISTINCT FROM 'note';
+
+  SELECT COALESCE(jsonb_agg(e ORDER BY ord), '[]'::jsonb)
+  INTO kept_edges
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(canvas -> 'edges') = 'array' THEN canvas -> 'edges' ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS t(e, ord)
+  WHERE e ->> 'source' = ANY(kept_ids) AND e ->> 'target' = ANY(kept_ids);
+
+  RETURN canvas || jsonb_build_object('nodes', kept_nodes, 'edges', kept_edges);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Returns the canvas behind an active token and records the view.
+-- Returns no row for unknown, revoked or expired tokens. Hidden notes are
+-- removed here: the function is callable with the public anon key, so
+-- anything it returns is readable by whoever holds the token.
+CREATE OR REPLACE FUNCTION public.get_shared_canvas(share_token TEXT)
+RETURNS TABLE (
+  project_name TEXT,
+  canvas_data JSONB,
+  updated_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  link public.project_share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO link FROM public.project_share_links l
+  WHERE l.token = share_token
+    AND l.revoked_at IS NULL
+    AND (l.expires_at IS NULL OR l.expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.project_share_links
+  SET last_viewed_at = NOW(), view_count = view_count + 1
+  WHERE id = link.id;
+
+  RETURN QUERY
+  SELECT
+    p.name,
+    CASE WHEN link.hide_notes THEN public.strip_canvas_notes(p.canvas_data) ELSE p.canvas_data END,
+    p.updated_at
+  FROM public.projects p
+  WHERE p.id = link.project_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_shared_canvas(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_canvas(TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE public.project_share_links IS 'Revocable read-only public links to a project canvas.';
@@ -0,0 +1,56 @@
+-- Release planning:
+-- project_milestones holds the ordered releases of a project ("v1", "Beta", ...).
+-- Features and screens point at a milestone through `milestoneId` in their canvas node data.
+
+CREATE TABLE IF NOT EXISTS public.project_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  target_date DATE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_milestones_project
+  ON public.project_milestones(project_id, position);
+
+ALTER TABLE public.project_milestones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view project milestones" ON public.project_milestones;
+CREATE POLICY "Members can view project milestones"
+ON public.project_milestones FOR SELECT TO authenticated
+USING (public.has_project_role(project_id, 'viewer'));
+
+DROP POLICY IF EXISTS "Editors can create project milestones" ON public.project_milestones;
+CREATE POLICY "Editors can create project milestones"
+ON public.project_milestones FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = created_by AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can update project milestones" ON public.project_milestones;
+CREATE POLICY "Editors can update project milestones"
+ON public.project_milestones FOR UPDATE TO authenticated
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete project milestones" ON public.project_milestones;
+CREATE POLICY "Editors can delete project milestones"
+ON public.project_milestones FOR DELETE TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+CREATE OR REPLACE FUNCTION public.set_project_milestones_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_project_milestones_updated_at ON public.project_milestones;
+CREATE TRIGGER set_project_milestones_updated_at
+  BEFORE UPDATE ON public.project_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_project_milestones_updated_at();
+
+COMMENT ON TABLE public.project_milestones IS 'Ordered release milestones that canvas features and screens are planned into.';
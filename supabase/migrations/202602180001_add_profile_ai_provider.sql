@@ -0,0 +1,11 @@
+-- Per-user AI provider preference
+-- NULL means "use the server default" (AI_PROVIDER, else OpenAI). The server
+-- only honours a preference for providers it has credentials for. Users
+-- already update their own row through the existing profiles policy.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS ai_provider TEXT
+  CHECK (ai_provider IS NULL OR ai_provider IN ('openai', 'anthropic', 'local'));
+
+COMMENT ON COLUMN public.profiles.ai_provider IS
+  'Preferred LLM provider for AI features: openai, anthropic or local (NULL = server default)';
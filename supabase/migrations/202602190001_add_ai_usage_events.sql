@@ -0,0 +1,48 @@
+-- Per-call AI usage metering
+-- One row per successful AI completion with its tokens and estimated cost.
+-- Monthly tier budgets are enforced against the sum of cost_usd.
+-- project_id has no foreign key so spend history survives project deletion.
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID,
+  operation TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('openai', 'anthropic', 'local')),
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Append-only for users: no update or delete policies, so spend cannot be erased
+DROP POLICY IF EXISTS "Users can view own AI usage" ON public.ai_usage_events;
+CREATE POLICY "Users can view own AI usage"
+ON public.ai_usage_events FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own AI usage" ON public.ai_usage_events;
+CREATE POLICY "Users can insert own AI usage"
+ON public.ai_usage_events FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user_created
+  ON public.ai_usage_events(user_id, created_at DESC);
+
+-- Caller's total spend since a point in time, summed in the database
+CREATE OR REPLACE FUNCTION public.get_ai_spend_since(since TIMESTAMPTZ)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM public.ai_usage_events
+  WHERE user_id = auth.uid()
+    AND created_at >= since;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_ai_spend_since(TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_ai_spend_since(TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON TABLE public.ai_usage_events IS
+  'AI completions per user with token counts and estimated USD cost, for metering and monthly budgets';
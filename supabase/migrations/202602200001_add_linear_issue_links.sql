@@ -0,0 +1,35 @@
+-- Linear two-way sync:
+-- linear_issue_links maps each exported Linear issue back to the project and feature node it came from,
+-- so the Linear webhook can find the canvas to update. The node also keeps the link in `linearIssue`.
+
+CREATE TABLE IF NOT EXISTS public.linear_issue_links (
+  issue_id TEXT PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  node_id TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  team_id TEXT NOT NULL,
+  identifier TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_linear_issue_links_project
+  ON public.linear_issue_links(project_id, node_id);
+
+ALTER TABLE public.linear_issue_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view linear issue links" ON public.linear_issue_links;
+CREATE POLICY "Members can view linear issue links"
+ON public.linear_issue_links FOR SELECT TO authenticated
+USING (public.has_project_role(project_id, 'viewer'));
+
+DROP POLICY IF EXISTS "Editors can create linear issue links" ON public.linear_issue_links;
+CREATE POLICY "Editors can create linear issue links"
+ON public.linear_issue_links FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = created_by AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete linear issue links" ON public.linear_issue_links;
+CREATE POLICY "Editors can delete linear issue links"
+ON public.linear_issue_links FOR DELETE TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+COMMENT ON TABLE public.linear_issue_links IS 'Linear issues exported from canvas features, looked up by the Linear webhook.';
@@ -0,0 +1,63 @@
+-- GitHub issue sync:
+-- 1) integrations accept 'github' as a provider
+-- 2) github_issue_links maps each synced GitHub issue to the project and feature node it came from.
+--    One issue per node keeps re-syncs idempotent, and the GitHub webhook looks issues up here.
+-- 3) github_webhooks gives each user their own webhook endpoint and signing secret.
+
+ALTER TABLE public.integrations DROP CONSTRAINT IF EXISTS integrations_provider_check;
+ALTER TABLE public.integrations
+  ADD CONSTRAINT integrations_provider_check CHECK (provider IN ('notion', 'figma', 'linear', 'github'));
+
+COMMENT ON COLUMN public.integrations.provider IS 'Integration provider: notion, figma, linear or github';
+
+CREATE TABLE IF NOT EXISTS public.github_issue_links (
+  issue_id TEXT PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  node_id TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  repo TEXT NOT NULL,
+  issue_number INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, node_id)
+);
+
+ALTER TABLE public.github_issue_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view github issue links" ON public.github_issue_links;
+CREATE POLICY "Members can view github issue links"
+ON public.github_issue_links FOR SELECT TO authenticated
+USING (public.has_project_role(project_id, 'viewer'));
+
+DROP POLICY IF EXISTS "Editors can create github issue links" ON public.github_issue_links;
+CREATE POLICY "Editors can create github issue links"
+ON public.github_issue_links FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = created_by AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete github issue links" ON public.github_issue_links;
+CREATE POLICY "Editors can delete github issue links"
+ON public.github_issue_links FOR DELETE TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+-- Each user's webhook is signed with their own secret, so a secret added to one repository can't be used to forge
+-- events for anyone else. Only events for projects the user can edit are applied.
+CREATE TABLE IF NOT EXISTS public.github_webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.github_webhooks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own github webhook" ON public.github_webhooks;
+CREATE POLICY "Users can view own github webhook"
+ON public.github_webhooks FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own github webhook" ON public.github_webhooks;
+CREATE POLICY "Users can create own github webhook"
+ON public.github_webhooks FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE public.github_issue_links IS 'GitHub issues synced from canvas features, keyed by node and looked up by the GitHub webhook.';
+COMMENT ON TABLE public.github_webhooks IS 'Per-user GitHub webhook endpoints and their signing secrets.';
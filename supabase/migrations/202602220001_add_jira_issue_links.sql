@@ -0,0 +1,46 @@
+-- Jira issue export:
+-- 1) integrations accept 'jira' as a provider
+-- 2) jira_issue_links maps each exported Jira issue to the project and feature node it came from.
+--    The Jira webhook looks issues up here to sync status back to the canvas.
+
+ALTER TABLE public.integrations DROP CONSTRAINT IF EXISTS integrations_provider_check;
+ALTER TABLE public.integrations
+  ADD CONSTRAINT integrations_provider_check CHECK (provider IN ('notion', 'figma', 'linear', 'github', 'jira'));
+
+COMMENT ON COLUMN public.integrations.provider IS 'Integration provider: notion, figma, linear, github or jira';
+
+-- Issue ids are only unique within a Jira site, so links are keyed by site as well
+CREATE TABLE IF NOT EXISTS public.jira_issue_links (
+  cloud_id TEXT NOT NULL,
+  issue_id TEXT NOT NULL,
+  -- Origin of the site, e.g. https://acme.atlassian.net; webhooks identify their site by URL only
+  site_url TEXT NOT NULL,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  node_id TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  issue_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (cloud_id, issue_id),
+  UNIQUE (project_id, node_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_jira_issue_links_site_issue ON public.jira_issue_links(site_url, issue_id);
+
+ALTER TABLE public.jira_issue_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view jira issue links" ON public.jira_issue_links;
+CREATE POLICY "Members can view jira issue links"
+ON public.jira_issue_links FOR SELECT TO authenticated
+USING (public.has_project_role(project_id, 'viewer'));
+
+DROP POLICY IF EXISTS "Editors can create jira issue links" ON public.jira_issue_links;
+CREATE POLICY "Editors can create jira issue links"
+ON public.jira_issue_links FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = created_by AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete jira issue links" ON public.jira_issue_links;
+CREATE POLICY "Editors can delete jira issue links"
+ON public.jira_issue_links FOR DELETE TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+COMMENT ON TABLE public.jira_issue_links IS 'Jira issues exported from canvas features, looked up by the Jira webhook.';
@@ -0,0 +1,43 @@
+-- Notion publishing:
+-- notion_publications records where each project's Notion page tree lives and which page or table row each node
+-- was published to, so re-publishing updates the same pages in place instead of creating a new tree.
+
+CREATE TABLE IF NOT EXISTS public.notion_publications (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  root_page_id TEXT NOT NULL,
+  root_page_url TEXT NOT NULL DEFAULT '',
+  features_database_id TEXT NOT NULL,
+  features_data_source_id TEXT NOT NULL,
+  screens_page_id TEXT NOT NULL,
+  tech_stack_table_id TEXT NOT NULL,
+  overview_block_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- node id -> { kind, id } of the feature page, screen page or tech stack table row
+  node_blocks JSONB NOT NULL DEFAULT '{}'::jsonb,
+  published_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.notion_publications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view notion publications" ON public.notion_publications;
+CREATE POLICY "Members can view notion publications"
+ON public.notion_publications FOR SELECT TO authenticated
+USING (public.has_project_role(project_id, 'viewer'));
+
+DROP POLICY IF EXISTS "Editors can create notion publications" ON public.notion_publications;
+CREATE POLICY "Editors can create notion publications"
+ON public.notion_publications FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = published_by AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can update notion publications" ON public.notion_publications;
+CREATE POLICY "Editors can update notion publications"
+ON public.notion_publications FOR UPDATE TO authenticated
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (auth.uid() = published_by AND public.has_project_role(project_id, 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete notion publications" ON public.notion_publications;
+CREATE POLICY "Editors can delete notion publications"
+ON public.notion_publications FOR DELETE TO authenticated
+USING (public.has_project_role(project_id, 'editor'));
+
+COMMENT ON TABLE public.notion_publications IS 'Notion page tree each project was published to, with the page or row id per node.';
@@ -0,0 +1,35 @@
+-- Private canvas channels:
+-- Co-editing runs over the realtime channel `canvas:<project id>`. Clients join it as a private channel, so
+-- realtime.messages RLS decides who can listen and who can send: project viewers receive changes, share
+-- presence and cursors; only editors can broadcast canvas changes.
+
+-- The project a canvas topic belongs to, or NULL for any other topic
+CREATE OR REPLACE FUNCTION public.canvas_topic_project_id(topic TEXT)
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN topic ~* '^canvas:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN substring(topic FROM 8)::uuid
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+DROP POLICY IF EXISTS "Project members can join canvas channels" ON realtime.messages;
+CREATE POLICY "Project members can join canvas channels"
+ON realtime.messages FOR SELECT TO authenticated
+USING (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND public.has_project_role(public.canvas_topic_project_id(realtime.topic()), 'viewer')
+);
+
+DROP POLICY IF EXISTS "Project members can send on canvas channels" ON realtime.messages;
+CREATE POLICY "Project members can send on canvas channels"
+ON realtime.messages FOR INSERT TO authenticated
+WITH CHECK (
+  CASE
+    WHEN realtime.messages.extension = 'presence'
+      OR (realtime.messages.extension = 'broadcast' AND realtime.messages.event = 'cursor')
+      THEN public.has_project_role(public.canvas_topic_project_id(realtime.topic()), 'viewer')
+    WHEN realtime.messages.extension = 'broadcast'
+      THEN public.has_project_role(public.canvas_topic_project_id(realtime.topic()), 'editor')
+    ELSE FALSE
+  END
+);